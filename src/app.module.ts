@@ -11,6 +11,7 @@ import {
   databaseConfig,
   othersConfig,
   serverConfig,
+  storageConfig,
 } from './modules/shared/config/registration';
 import { EmployeeModule } from './modules/employee/employee.module';
 import { AppConfigServiceModule } from './modules/shared/config/config.module';
@@ -41,6 +42,7 @@ import { HttpValidationPipe } from './modules/shared/pipes/http-validation';
         authConfig,
         othersConfig,
         serverConfig,
+        storageConfig,
       ],
       isGlobal: true,
     }),
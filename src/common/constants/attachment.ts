@@ -0,0 +1,25 @@
+/**
+ * Largest file that can be attached to an invoice or a bill, in bytes
+ */
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Number of attachments an invoice can have, including the ones attached to its bill
+ */
+export const MAX_ATTACHMENTS_PER_INVOICE = 20;
+
+/**
+ * File types that can be attached: documents, spreadsheets and images
+ */
+export const ALLOWED_ATTACHMENT_TYPES = [
+  'application/pdf',
+  'image/png',
+  'image/jpeg',
+  'image/webp',
+  'text/plain',
+  'text/csv',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+];
@@ -91,11 +91,44 @@ export enum ErrorPayroll {
   PayEndDateBeforePayStartDate = 'Pay end date must be after pay start date',
   CannotDeletePayrollWithExistingInvoices = 'Cannot delete payroll with existing invoices. Please cancel instead.',
   PayrollAlreadyDeleted = 'Payroll has already been deleted',
+  ContractEndDateBeforeJoiningDate = 'Contract end date must be after joining date',
+  PayrollNotAmendable = 'Only active or paused payrolls can be amended',
+  AmendmentEffectiveDateBeforeJoiningDate = 'Amendment effective date must be after joining date',
+  InsufficientPermissionsToAmend = 'Only company owners and admins can amend payrolls',
+  InvalidSemiMonthlyPayday = 'Payday must be between 1 and 15 for semi-monthly payrolls',
+  PayrollNotAdjustable = 'Only active or paused payrolls can be adjusted',
+  AdjustmentCycleNotUpcoming = 'Adjustments can only be attached to an upcoming payroll cycle',
+  AdjustmentCycleOutOfRange = 'Adjustment cycle exceeds the number of payroll cycles',
+  AdjustmentsExceedPayrollAmount = 'Deductions cannot exceed the amount paid in the cycle',
+  PayrollAdjustmentNotFound = 'Payroll adjustment not found',
+  PayrollAdjustmentNotPending = 'Only pending adjustments can be cancelled',
+  PayrollNotExtendable = 'Only active, paused or completed payrolls can be extended',
+  PayrollNotOffboardable = 'Only active or paused payrolls can be offboarded',
+  TerminationDateBeforeJoiningDate = 'Termination date must be after joining date',
+  TerminationDateAfterNextPayDate = 'Termination date must be before the next pay date. Set a contract end date to end the contract later',
+  InsufficientPermissionsToOffboard = 'Only company owners and admins can offboard payrolls',
+  PayoutSplitPercentageTooHigh = 'Payout split percentage cannot exceed 100',
+  PayoutSplitsExceedAmount = 'Payout splits cannot exceed the payroll amount',
+  PayrollPayoutSplitsNotEditable = 'Only active or paused payrolls can change their payout splits',
+  ImportFileRequired = 'A CSV or XLSX file is required',
+  ImportFileTypeNotSupported = 'Only CSV and XLSX files are supported. Please export the spreadsheet as CSV or XLSX',
+  ImportFileUnreadable = 'The XLSX file could not be read',
+  ImportFileEmpty = 'The import file has no rows',
+  ImportTooManyRows = 'The import file cannot have more than 500 rows',
+  ImportEmployeeRequired = 'Either employeeEmail or employeeId is required',
+  ImportEmployeeAmbiguous = 'Several employees share this email. Please use employeeId instead',
+  ImportDuplicateEmployee = 'Employee appears more than once in the file',
+  PayrollNotPausable = 'Only active payrolls can be paused',
+  PayrollNotPaused = 'Payroll is not paused',
+  PauseEndDateBeforeStartDate = 'Pause end date must be after its start date',
+  PauseOverlapsExistingPause = 'Pause overlaps another scheduled or active pause',
+  PayrollPauseNotFound = 'Payroll pause not found',
+  PayrollPauseNotCancellable = 'Only scheduled pauses can be cancelled',
 }
 
 export enum ErrorInvoice {
   InvoiceNotFound = 'Invoice not found',
-  InvoiceAlreadyExistsThisMonth = 'An invoice for this payroll already exists this month',
+  InvoiceAlreadyExistsThisPeriod = 'An invoice for this payroll already exists for this pay period',
   NotOwner = 'Only the employee can update their own invoices',
   InvoiceNotUpdatable = 'Invoice can only be updated when in SENT or REVIEWED status',
   InvoiceNotSendable = 'Only draft invoices can be sent',
@@ -104,6 +137,24 @@ export enum ErrorInvoice {
   InvoiceNotCancelable = 'Cannot cancel confirmed invoices',
   InvoiceNotBelongsToCompany = 'Invoice does not belong to this company',
   InvoiceNotConfirmed = 'Only confirmed invoices can be converted to bills',
+  InvoiceNotPendingApproval = 'Only invoices pending approval can be approved',
+  InvoiceAlreadyApprovedByUser = 'You have already approved this invoice',
+  InsufficientPermissionsToApprove = 'Only company owners and admins can approve invoices',
+  InvoiceNotB2B = 'Only B2B invoices can be reviewed or confirmed by a company',
+  NotRecipient = 'Only the recipient company can review or confirm this invoice',
+  CannotInvoiceOwnCompany = 'A company cannot invoice itself',
+  RecipientCompanyNotFound = 'Recipient company not found',
+  RecipientCompanyInactive = 'Recipient company is deactivated',
+  InvoiceNotPayable = 'Only sent, reviewed, confirmed or overdue invoices can be paid',
+  InvoiceAlreadyPaid = 'Invoice has already been paid',
+  PaymentAlreadyClaimed = 'A payment of this invoice is already waiting for confirmation',
+  PaymentNotClaimed = 'No payment of this invoice is waiting for confirmation',
+  TransactionAlreadyRecorded = 'This transaction has already been recorded for another invoice',
+  NotIssuer = 'Only the issuing company can confirm or reject payments of this invoice',
+  InvoiceNotDisputable = 'Only sent or reviewed invoices can be disputed',
+  InvoiceNotDisputed = 'Only disputed invoices can be revised',
+  NotCommentAuthorized = 'Only the employee and the issuing company can comment on this invoice',
+  NotTimelineAuthorized = 'Only the employee, the issuing and the paying company can view the timeline of this invoice',
 }
 
 export enum ErrorBill {
@@ -111,11 +162,67 @@ export enum ErrorBill {
   BillsNotFoundOrNotPayable = 'Bills not found or not payable',
   BillNotFound = 'Bill not found',
   CannotDeletePaidBills = 'Cannot delete paid bills',
+  AllocationBillNotSelected = 'Payment allocations can only target the bills being paid',
+  InvalidPaymentAmount = 'Payment amount must be greater than zero',
+  PaymentExceedsBalance = 'Payment amount exceeds the remaining balance of the bill',
 }
 
 export enum ErrorInvoiceSchedule {
   InvoiceScheduleNotFound = 'Invoice schedule not found',
   InvoiceScheduleAlreadyExists = 'Invoice schedule already exists for this payroll',
+  InvalidEndDate = 'Invoice schedule end date must be after its start date',
+  MaxOccurrencesReached = 'Invoice schedule has already issued its number of invoices',
+  InvalidSemiMonthlyStartDate = 'Semi-monthly invoice schedules must start between the 1st and the 15th of the month',
+}
+
+export enum ErrorInvoiceNumberSequence {
+  FormatMissingSequence = 'Numbering format must contain the {SEQ} token',
+  FormatMissingPeriod = 'Numbering format must contain the year (and month for monthly sequences) when the sequence resets',
+  InvoiceNumberTooLong = 'Invoice numbers cannot be longer than 50 characters',
+  InvoiceNumberUnavailable = 'Could not allocate a unique invoice number, check the numbering sequence',
+  InsufficientPermissions = 'Only company owners and admins can configure invoice numbering',
+}
+
+export enum ErrorInvoiceTemplate {
+  InvoiceTemplateNotFound = 'Invoice template not found',
+  UnsupportedLocale = 'Locale is not supported',
+  InsufficientPermissions = 'Only company owners and admins can configure invoice templates',
+}
+
+export enum ErrorTaxRate {
+  TaxRateNotFound = 'Tax rate not found',
+  InsufficientPermissions = 'Only company owners and admins can configure tax rates',
+  TaxExemptItemWithTaxes = 'Tax exempt items cannot have taxes',
+}
+
+export enum ErrorDunning {
+  InsufficientPermissions = 'Only company owners and admins can configure payment reminders',
+  DuplicateOffset = 'Payment reminders must be sent on different days',
+}
+
+export enum ErrorInvoiceAttachment {
+  AttachmentNotFound = 'Attachment not found',
+  FileRequired = 'A file must be uploaded',
+  FileTooLarge = 'Attachments cannot be larger than 10 MB',
+  FileTypeNotAllowed = 'Attachments must be PDF, image, text, CSV, Word or Excel files',
+  TooManyAttachments = 'An invoice cannot have more than 20 attachments',
+  NotAttachmentAuthorized = 'Only the employee, the issuing and the paying company can access the attachments of this invoice',
+  NotUploader = 'Only the person who uploaded an attachment can delete it',
+}
+
+export enum ErrorStorage {
+  FileNotFound = 'Stored file not found',
+  InvalidKey = 'Invalid storage key',
+}
+
+export enum ErrorCreditNote {
+  CreditNoteNotFound = 'Credit note not found',
+  InvoiceNotCreditable = 'Credit notes can only be issued for confirmed, overdue or paid invoices',
+  ItemsAndAmountExclusive = 'Credit either invoice items or an amount, not both',
+  InvoiceItemNotFound = 'Credited item does not belong to the invoice',
+  QuantityExceedsItem = 'Credited quantity exceeds the quantity of the invoice item',
+  InvalidAmount = 'Credited amount must be greater than zero',
+  AmountExceedsInvoice = 'Credited amount exceeds the balance left to credit on the invoice',
 }
 
 export enum ErrorInvoiceItem {
@@ -0,0 +1,126 @@
+import { NumberingResetFrequencyEnum } from 'src/database/generated/client';
+import { ErrorInvoiceNumberSequence } from '../constants/errors';
+import {
+  formatInvoiceNumber,
+  getInvoiceNumberFormatError,
+  getNumberingPeriodKey,
+} from './invoice-number.util';
+
+describe('invoice-number.util', () => {
+  describe('formatInvoiceNumber', () => {
+    it('should replace the prefix, year and padded sequence', () => {
+      expect(
+        formatInvoiceNumber(
+          { prefix: 'INV', format: '{PREFIX}-{YYYY}-{SEQ}', padding: 4 },
+          42,
+          new Date(2026, 2, 15),
+        ),
+      ).toBe('INV-2026-0042');
+    });
+
+    it('should replace the short year and month', () => {
+      expect(
+        formatInvoiceNumber(
+          { prefix: 'B2B', format: '{PREFIX}/{YY}{MM}/{SEQ}', padding: 3 },
+          7,
+          new Date(2026, 2, 15),
+        ),
+      ).toBe('B2B/2603/007');
+    });
+
+    it('should not truncate sequences longer than the padding', () => {
+      expect(
+        formatInvoiceNumber(
+          { prefix: 'CN', format: '{PREFIX}-{SEQ}', padding: 2 },
+          1234,
+          new Date(2026, 2, 15),
+        ),
+      ).toBe('CN-1234');
+    });
+  });
+
+  describe('getNumberingPeriodKey', () => {
+    it('should reset yearly sequences on a new year', () => {
+      expect(
+        getNumberingPeriodKey(
+          NumberingResetFrequencyEnum.YEARLY,
+          new Date(2026, 11, 31),
+        ),
+      ).toBe('2026');
+      expect(
+        getNumberingPeriodKey(
+          NumberingResetFrequencyEnum.YEARLY,
+          new Date(2027, 0, 1),
+        ),
+      ).toBe('2027');
+    });
+
+    it('should reset monthly sequences on a new month', () => {
+      expect(
+        getNumberingPeriodKey(
+          NumberingResetFrequencyEnum.MONTHLY,
+          new Date(2026, 2, 15),
+        ),
+      ).toBe('2026-03');
+    });
+
+    it('should return null when the sequence never resets', () => {
+      expect(
+        getNumberingPeriodKey(
+          NumberingResetFrequencyEnum.NEVER,
+          new Date(2026, 2, 15),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('getInvoiceNumberFormatError', () => {
+    it('should require the sequence token', () => {
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{YYYY}',
+          NumberingResetFrequencyEnum.NEVER,
+        ),
+      ).toBe(ErrorInvoiceNumberSequence.FormatMissingSequence);
+    });
+
+    it('should require the year when the sequence resets yearly', () => {
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{SEQ}',
+          NumberingResetFrequencyEnum.YEARLY,
+        ),
+      ).toBe(ErrorInvoiceNumberSequence.FormatMissingPeriod);
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{YY}-{SEQ}',
+          NumberingResetFrequencyEnum.YEARLY,
+        ),
+      ).toBeNull();
+    });
+
+    it('should require the year and month when the sequence resets monthly', () => {
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{MM}-{SEQ}',
+          NumberingResetFrequencyEnum.MONTHLY,
+        ),
+      ).toBe(ErrorInvoiceNumberSequence.FormatMissingPeriod);
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{YYYY}{MM}-{SEQ}',
+          NumberingResetFrequencyEnum.MONTHLY,
+        ),
+      ).toBeNull();
+    });
+
+    it('should accept a format without period when the sequence never resets', () => {
+      expect(
+        getInvoiceNumberFormatError(
+          '{PREFIX}-{SEQ}',
+          NumberingResetFrequencyEnum.NEVER,
+        ),
+      ).toBeNull();
+    });
+  });
+});
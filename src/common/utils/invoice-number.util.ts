@@ -0,0 +1,115 @@
+import {
+  NumberingResetFrequencyEnum,
+  NumberingSequenceTypeEnum,
+} from 'src/database/generated/client';
+import { ErrorInvoiceNumberSequence } from '../constants/errors';
+
+/**
+ * Tokens supported in invoice numbering formats
+ */
+export const INVOICE_NUMBER_TOKENS = {
+  PREFIX: '{PREFIX}',
+  YEAR: '{YYYY}',
+  SHORT_YEAR: '{YY}',
+  MONTH: '{MM}',
+  SEQUENCE: '{SEQ}',
+} as const;
+
+/**
+ * Maximum length of an invoice number (invoices.invoice_number column)
+ */
+export const MAX_INVOICE_NUMBER_LENGTH = 50;
+
+/**
+ * Default prefix of a new numbering sequence. Each type has its own prefix,
+ * the sequences of a company would otherwise issue the same numbers.
+ */
+export const DEFAULT_NUMBERING_PREFIXES: Record<
+  NumberingSequenceTypeEnum,
+  string
+> = {
+  [NumberingSequenceTypeEnum.EMPLOYEE]: 'INV',
+  [NumberingSequenceTypeEnum.B2B]: 'B2B',
+  [NumberingSequenceTypeEnum.CREDIT_NOTE]: 'CN',
+};
+
+export interface InvoiceNumberFormat {
+  prefix: string;
+  format: string;
+  padding: number;
+}
+
+/**
+ * Key of the numbering period a date belongs to: the year for yearly sequences,
+ * the year and month for monthly sequences, null when the sequence never resets
+ */
+export function getNumberingPeriodKey(
+  resetFrequency: NumberingResetFrequencyEnum,
+  date: Date,
+): string | null {
+  const year = String(date.getFullYear());
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+
+  switch (resetFrequency) {
+    case NumberingResetFrequencyEnum.YEARLY:
+      return year;
+    case NumberingResetFrequencyEnum.MONTHLY:
+      return `${year}-${month}`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Format an invoice number, e.g. "{PREFIX}-{YYYY}-{SEQ}" => "INV-2026-0042"
+ */
+export function formatInvoiceNumber(
+  numberFormat: InvoiceNumberFormat,
+  sequence: number,
+  date: Date,
+): string {
+  const year = String(date.getFullYear());
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+
+  return numberFormat.format
+    .split(INVOICE_NUMBER_TOKENS.PREFIX)
+    .join(numberFormat.prefix)
+    .split(INVOICE_NUMBER_TOKENS.YEAR)
+    .join(year)
+    .split(INVOICE_NUMBER_TOKENS.SHORT_YEAR)
+    .join(year.slice(-2))
+    .split(INVOICE_NUMBER_TOKENS.MONTH)
+    .join(month)
+    .split(INVOICE_NUMBER_TOKENS.SEQUENCE)
+    .join(String(sequence).padStart(numberFormat.padding, '0'));
+}
+
+/**
+ * Check that a numbering format yields unique numbers:
+ * it must contain the sequence, and the period tokens when the sequence resets
+ * (otherwise the same number would be issued again in the next period).
+ * Returns the reason the format is invalid, or null when it is valid.
+ */
+export function getInvoiceNumberFormatError(
+  format: string,
+  resetFrequency: NumberingResetFrequencyEnum,
+): ErrorInvoiceNumberSequence | null {
+  if (!format.includes(INVOICE_NUMBER_TOKENS.SEQUENCE)) {
+    return ErrorInvoiceNumberSequence.FormatMissingSequence;
+  }
+
+  const hasYear =
+    format.includes(INVOICE_NUMBER_TOKENS.YEAR) ||
+    format.includes(INVOICE_NUMBER_TOKENS.SHORT_YEAR);
+  const hasMonth = format.includes(INVOICE_NUMBER_TOKENS.MONTH);
+
+  if (
+    (resetFrequency === NumberingResetFrequencyEnum.YEARLY && !hasYear) ||
+    (resetFrequency === NumberingResetFrequencyEnum.MONTHLY &&
+      !(hasYear && hasMonth))
+  ) {
+    return ErrorInvoiceNumberSequence.FormatMissingPeriod;
+  }
+
+  return null;
+}
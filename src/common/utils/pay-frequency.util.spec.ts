@@ -0,0 +1,193 @@
+import { PayFrequencyEnum } from 'src/database/generated/client';
+import {
+  addMonthsClamped,
+  getFirstPayDate,
+  getNextPayDate,
+  getPayCycleNumber,
+  getPayDate,
+  getPayPeriod,
+  toMonthlyAmount,
+} from './pay-frequency.util';
+
+describe('pay-frequency.util', () => {
+  describe('addMonthsClamped', () => {
+    it('should clamp the day to the end of a shorter month', () => {
+      expect(addMonthsClamped(new Date(2026, 0, 31), 1)).toEqual(
+        new Date(2026, 1, 28),
+      );
+    });
+
+    it('should keep the requested day when walking backwards', () => {
+      expect(addMonthsClamped(new Date(2026, 2, 1), -1, 30)).toEqual(
+        new Date(2026, 1, 28),
+      );
+    });
+  });
+
+  describe('getFirstPayDate', () => {
+    const joiningDate = new Date(2026, 9, 2);
+
+    it('should pay monthly payrolls next month on the chosen payday', () => {
+      expect(
+        getFirstPayDate(
+          31,
+          PayFrequencyEnum.MONTHLY,
+          joiningDate,
+          new Date(2026, 0, 20),
+        ),
+      ).toEqual(new Date(2026, 1, 28));
+    });
+
+    it('should pay weekly payrolls on the first payday after the joining date', () => {
+      expect(getFirstPayDate(1, PayFrequencyEnum.WEEKLY, joiningDate)).toEqual(
+        new Date(2026, 9, 8),
+      );
+      expect(
+        getFirstPayDate(1, PayFrequencyEnum.BIWEEKLY, joiningDate),
+      ).toEqual(new Date(2026, 9, 15));
+    });
+
+    it('should pay on the joining date when it is a payday', () => {
+      expect(getFirstPayDate(2, PayFrequencyEnum.WEEKLY, joiningDate)).toEqual(
+        joiningDate,
+      );
+    });
+
+    it('should pay semi-monthly payrolls on the later payday of the joining month', () => {
+      const payStartDate = getFirstPayDate(
+        1,
+        PayFrequencyEnum.SEMI_MONTHLY,
+        joiningDate,
+      );
+
+      expect(payStartDate).toEqual(new Date(2026, 9, 16));
+      expect(
+        getPayPeriod(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, 0),
+      ).toEqual({ start: new Date(2026, 9, 1), end: new Date(2026, 9, 16) });
+      expect(
+        getPayDate(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, 1),
+      ).toEqual(new Date(2026, 10, 1));
+    });
+
+    it('should not start semi-monthly payrolls on a payday clamped to the end of February', () => {
+      expect(
+        getFirstPayDate(
+          15,
+          PayFrequencyEnum.SEMI_MONTHLY,
+          new Date(2026, 1, 20),
+        ),
+      ).toEqual(new Date(2026, 2, 15));
+    });
+  });
+
+  describe('getPayDate', () => {
+    const payStartDate = new Date(2026, 0, 10);
+
+    it('should keep month-end paydays across monthly cycles', () => {
+      const monthEnd = new Date(2026, 0, 31);
+
+      expect(getPayDate(monthEnd, PayFrequencyEnum.MONTHLY, 1)).toEqual(
+        new Date(2026, 1, 28),
+      );
+      expect(getPayDate(monthEnd, PayFrequencyEnum.MONTHLY, 2)).toEqual(
+        new Date(2026, 2, 31),
+      );
+    });
+
+    it('should pay semi-monthly cycles on the payday and 15 days later', () => {
+      expect(
+        getPayDate(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, 1),
+      ).toEqual(new Date(2026, 0, 25));
+      expect(
+        getPayDate(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, 2),
+      ).toEqual(new Date(2026, 1, 10));
+    });
+
+    it('should walk semi-monthly cycle -1 back to the previous second half', () => {
+      expect(
+        getPayDate(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, -1),
+      ).toEqual(new Date(2025, 11, 25));
+      expect(
+        getPayDate(payStartDate, PayFrequencyEnum.SEMI_MONTHLY, -2),
+      ).toEqual(new Date(2025, 11, 10));
+    });
+
+    it('should clamp the semi-monthly second half to the end of the month', () => {
+      expect(
+        getPayDate(new Date(2026, 0, 15), PayFrequencyEnum.SEMI_MONTHLY, 3),
+      ).toEqual(new Date(2026, 1, 28));
+    });
+  });
+
+  describe('getPayPeriod', () => {
+    it('should start the first semi-monthly period on cycle -1', () => {
+      expect(
+        getPayPeriod(new Date(2026, 0, 10), PayFrequencyEnum.SEMI_MONTHLY, 0),
+      ).toEqual({
+        start: new Date(2025, 11, 25),
+        end: new Date(2026, 0, 10),
+      });
+    });
+
+    it('should cover the second half of the month on odd cycles', () => {
+      expect(
+        getPayPeriod(new Date(2026, 0, 10), PayFrequencyEnum.SEMI_MONTHLY, 1),
+      ).toEqual({
+        start: new Date(2026, 0, 10),
+        end: new Date(2026, 0, 25),
+      });
+    });
+  });
+
+  describe('getNextPayDate', () => {
+    it('should return the first pay date strictly after the date', () => {
+      expect(
+        getNextPayDate(
+          new Date(2026, 0, 10),
+          PayFrequencyEnum.BIWEEKLY,
+          new Date(2026, 0, 24),
+        ),
+      ).toEqual(new Date(2026, 1, 7));
+    });
+  });
+
+  describe('getPayCycleNumber', () => {
+    const payStartDate = new Date(2026, 0, 10);
+
+    it('should place the 16th in the second half of the month', () => {
+      expect(
+        getPayCycleNumber(
+          payStartDate,
+          PayFrequencyEnum.SEMI_MONTHLY,
+          new Date(2026, 0, 16),
+        ),
+      ).toBe(1);
+    });
+
+    it('should keep a pay date in its own cycle regardless of the time', () => {
+      expect(
+        getPayCycleNumber(
+          payStartDate,
+          PayFrequencyEnum.SEMI_MONTHLY,
+          new Date(2026, 0, 25, 18, 30),
+        ),
+      ).toBe(1);
+    });
+
+    it('should return cycle 0 for dates before the first pay date', () => {
+      expect(
+        getPayCycleNumber(
+          payStartDate,
+          PayFrequencyEnum.MONTHLY,
+          new Date(2025, 11, 1),
+        ),
+      ).toBe(0);
+    });
+  });
+
+  describe('toMonthlyAmount', () => {
+    it('should convert a semi-monthly amount', () => {
+      expect(toMonthlyAmount(1000, PayFrequencyEnum.SEMI_MONTHLY)).toBe(2000);
+    });
+  });
+});
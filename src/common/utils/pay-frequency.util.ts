@@ -0,0 +1,225 @@
+import { PayFrequencyEnum } from 'src/database/generated/client';
+
+/**
+ * Number of pay periods in a year for each pay frequency
+ */
+export const PAY_PERIODS_PER_YEAR: Record<PayFrequencyEnum, number> = {
+  [PayFrequencyEnum.WEEKLY]: 52,
+  [PayFrequencyEnum.BIWEEKLY]: 26,
+  [PayFrequencyEnum.SEMI_MONTHLY]: 24,
+  [PayFrequencyEnum.MONTHLY]: 12,
+  [PayFrequencyEnum.QUARTERLY]: 4,
+};
+
+/**
+ * Unit shown on invoice line items for each pay frequency
+ */
+export const PAY_PERIOD_UNITS: Record<PayFrequencyEnum, string> = {
+  [PayFrequencyEnum.WEEKLY]: 'week',
+  [PayFrequencyEnum.BIWEEKLY]: '2 weeks',
+  [PayFrequencyEnum.SEMI_MONTHLY]: 'half-month',
+  [PayFrequencyEnum.MONTHLY]: 'month',
+  [PayFrequencyEnum.QUARTERLY]: 'quarter',
+};
+
+/**
+ * Semi-monthly payrolls are paid on the payday and 15 days later,
+ * so the payday must fall in the first half of the month
+ */
+export const SEMI_MONTHLY_MAX_PAYDAY = 15;
+
+const SEMI_MONTHLY_OFFSET_DAYS = 15;
+
+/**
+ * Add months to a date, clamping the day to the end of the target month
+ * (e.g. 31 Jan + 1 month = 28/29 Feb instead of overflowing into March)
+ */
+export function addMonthsClamped(
+  date: Date,
+  months: number,
+  day: number = date.getDate(),
+): Date {
+  const target = new Date(date);
+  target.setDate(1);
+  target.setMonth(target.getMonth() + months);
+
+  const daysInMonth = new Date(
+    target.getFullYear(),
+    target.getMonth() + 1,
+    0,
+  ).getDate();
+  target.setDate(Math.min(day, daysInMonth));
+
+  return target;
+}
+
+/**
+ * Add days to a date
+ */
+export function addDays(date: Date, days: number): Date {
+  const target = new Date(date);
+  target.setDate(target.getDate() + days);
+  return target;
+}
+
+/**
+ * Calculate the first pay date of a payroll.
+ * Monthly and quarterly payrolls are first paid next month on the chosen payday.
+ * Shorter frequencies are first paid on the first payday on or after the joining date,
+ * repeating from the chosen payday of the joining month, so the first pay period covers the joining date.
+ */
+export function getFirstPayDate(
+  payday: number,
+  frequency: PayFrequencyEnum,
+  joiningDate: Date,
+  from: Date = new Date(),
+): Date {
+  if (
+    frequency === PayFrequencyEnum.MONTHLY ||
+    frequency === PayFrequencyEnum.QUARTERLY
+  ) {
+    const startOfMonth = new Date(from.getFullYear(), from.getMonth(), 1);
+    return addMonthsClamped(startOfMonth, 1, payday);
+  }
+
+  const joiningDay = new Date(
+    joiningDate.getFullYear(),
+    joiningDate.getMonth(),
+    joiningDate.getDate(),
+  );
+  const firstPayday = addMonthsClamped(
+    new Date(joiningDate.getFullYear(), joiningDate.getMonth(), 1),
+    0,
+    payday,
+  );
+
+  let cycleNumber = 0;
+  let payDate = firstPayday;
+
+  // A semi-monthly payday clamped to the end of February could not be told apart from an earlier payday,
+  // so it never starts a payroll
+  while (
+    payDate < joiningDay ||
+    (frequency === PayFrequencyEnum.SEMI_MONTHLY &&
+      payDate.getDate() !== payday &&
+      payDate.getDate() !== payday + SEMI_MONTHLY_OFFSET_DAYS)
+  ) {
+    cycleNumber++;
+    payDate = getPayDate(firstPayday, frequency, cycleNumber);
+  }
+
+  return payDate;
+}
+
+/**
+ * Calculate the pay date of a given cycle (0-based) from the payroll's first pay date.
+ * Negative cycle numbers walk backwards, so cycle -1 is the period before the first pay date.
+ */
+export function getPayDate(
+  payStartDate: Date,
+  frequency: PayFrequencyEnum,
+  cycleNumber: number,
+): Date {
+  const start = new Date(payStartDate);
+
+  switch (frequency) {
+    case PayFrequencyEnum.WEEKLY:
+      return addDays(start, cycleNumber * 7);
+
+    case PayFrequencyEnum.BIWEEKLY:
+      return addDays(start, cycleNumber * 14);
+
+    case PayFrequencyEnum.SEMI_MONTHLY: {
+      // Even cycles are paid on the payday, odd cycles 15 days later in the same month.
+      // A pay start date in the second half of the month is the later payday of its month.
+      const startsOnSecondHalf = start.getDate() > SEMI_MONTHLY_MAX_PAYDAY;
+      const payday = startsOnSecondHalf
+        ? start.getDate() - SEMI_MONTHLY_OFFSET_DAYS
+        : start.getDate();
+      const halfMonths = cycleNumber + (startsOnSecondHalf ? 1 : 0);
+      const monthOffset = Math.floor(halfMonths / 2);
+      const isSecondHalf = Math.abs(halfMonths % 2) === 1;
+      const day = isSecondHalf ? payday + SEMI_MONTHLY_OFFSET_DAYS : payday;
+      return addMonthsClamped(start, monthOffset, day);
+    }
+
+    case PayFrequencyEnum.QUARTERLY:
+      return addMonthsClamped(start, cycleNumber * 3);
+
+    case PayFrequencyEnum.MONTHLY:
+    default:
+      return addMonthsClamped(start, cycleNumber);
+  }
+}
+
+/**
+ * Calculate the first pay date strictly after the given date
+ */
+export function getNextPayDate(
+  payStartDate: Date,
+  frequency: PayFrequencyEnum,
+  after: Date,
+): Date {
+  let cycleNumber = 0;
+  let payDate = getPayDate(payStartDate, frequency, cycleNumber);
+
+  while (payDate <= after) {
+    cycleNumber++;
+    payDate = getPayDate(payStartDate, frequency, cycleNumber);
+  }
+
+  return payDate;
+}
+
+/**
+ * Get the period covered by a given cycle: from the previous pay date to the cycle's pay date
+ */
+export function getPayPeriod(
+  payStartDate: Date,
+  frequency: PayFrequencyEnum,
+  cycleNumber: number,
+): { start: Date; end: Date } {
+  return {
+    start: getPayDate(payStartDate, frequency, cycleNumber - 1),
+    end: getPayDate(payStartDate, frequency, cycleNumber),
+  };
+}
+
+/**
+ * Get the cycle (0-based) whose pay date is the first on or after the given day,
+ * i.e. the cycle whose pay period the day falls in
+ */
+export function getPayCycleNumber(
+  payStartDate: Date,
+  frequency: PayFrequencyEnum,
+  date: Date,
+): number {
+  const day = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  let cycleNumber = 0;
+
+  while (getPayDate(payStartDate, frequency, cycleNumber) < day) {
+    cycleNumber++;
+  }
+
+  return cycleNumber;
+}
+
+/**
+ * Convert a per-period amount into its monthly equivalent
+ */
+export function toMonthlyAmount(
+  amount: number,
+  frequency: PayFrequencyEnum,
+): number {
+  return (amount * PAY_PERIODS_PER_YEAR[frequency]) / 12;
+}
+
+/**
+ * Format a date as DD/MM/YYYY
+ */
+export function formatDateDDMMYYYY(date: Date): string {
+  const day = String(date.getDate()).padStart(2, '0');
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const year = date.getFullYear();
+  return `${day}/${month}/${year}`;
+}
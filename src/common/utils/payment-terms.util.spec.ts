@@ -0,0 +1,118 @@
+import { JsonValue } from '@prisma/client/runtime/client';
+import {
+  formatPaymentTerms,
+  getEarlyPaymentDiscount,
+  getLateFee,
+  getPaymentTermsDueDate,
+  LateFeeTypeEnum,
+  PaymentTerms,
+} from './payment-terms.util';
+
+describe('payment-terms.util', () => {
+  // 2/10 net 30, 1.5% late fee after 5 days
+  const paymentTerms: PaymentTerms = {
+    netDays: 30,
+    earlyPaymentDiscount: { percentage: '2', withinDays: 10 },
+    lateFee: { type: LateFeeTypeEnum.PERCENTAGE, amount: '1.5', graceDays: 5 },
+  };
+  const storedTerms = paymentTerms as unknown as JsonValue;
+  const issueDate = new Date(2026, 0, 1);
+  const dueDate = new Date(2026, 0, 31);
+
+  describe('getPaymentTermsDueDate', () => {
+    it('should be due net days after the issue date', () => {
+      expect(getPaymentTermsDueDate(issueDate, paymentTerms)).toEqual(dueDate);
+    });
+  });
+
+  describe('getEarlyPaymentDiscount', () => {
+    it('should grant the discount within the discount window', () => {
+      expect(
+        getEarlyPaymentDiscount(
+          storedTerms,
+          issueDate,
+          '1000.00',
+          new Date(2026, 0, 11),
+        ),
+      ).toBe(20);
+    });
+
+    it('should not grant the discount after the discount window', () => {
+      expect(
+        getEarlyPaymentDiscount(
+          storedTerms,
+          issueDate,
+          '1000.00',
+          new Date(2026, 0, 12),
+        ),
+      ).toBe(0);
+    });
+
+    it('should not grant a discount without payment terms', () => {
+      expect(
+        getEarlyPaymentDiscount(null, issueDate, '1000.00', issueDate),
+      ).toBe(0);
+    });
+
+    it('should round the discount to cents', () => {
+      expect(
+        getEarlyPaymentDiscount(storedTerms, issueDate, '333.33', issueDate),
+      ).toBe(6.67);
+    });
+  });
+
+  describe('getLateFee', () => {
+    it('should not charge the fee during the grace period', () => {
+      expect(
+        getLateFee(storedTerms, dueDate, '1000.00', new Date(2026, 1, 5)),
+      ).toBe(0);
+    });
+
+    it('should charge a percentage of the amount due after the grace period', () => {
+      expect(
+        getLateFee(storedTerms, dueDate, '1000.00', new Date(2026, 1, 6)),
+      ).toBe(15);
+    });
+
+    it('should charge a fixed fee the day after the due date without grace period', () => {
+      const lateFee = { type: LateFeeTypeEnum.FIXED, amount: '25' };
+
+      expect(
+        getLateFee(
+          { netDays: 30, lateFee } as unknown as JsonValue,
+          dueDate,
+          '1000.00',
+          new Date(2026, 0, 31),
+        ),
+      ).toBe(0);
+      expect(
+        getLateFee(
+          { netDays: 30, lateFee } as unknown as JsonValue,
+          dueDate,
+          '1000.00',
+          new Date(2026, 1, 1),
+        ),
+      ).toBe(25);
+    });
+  });
+
+  describe('formatPaymentTerms', () => {
+    it('should describe the discount, net days and late fee', () => {
+      expect(formatPaymentTerms(paymentTerms, 'USDC')).toBe(
+        '2/10 Net 30, late fee 1.5% after 5 days',
+      );
+    });
+
+    it('should describe fixed late fees in the invoice currency', () => {
+      expect(
+        formatPaymentTerms(
+          {
+            netDays: 15,
+            lateFee: { type: LateFeeTypeEnum.FIXED, amount: '25' },
+          },
+          'USDC',
+        ),
+      ).toBe('Net 15, late fee 25.00 USDC');
+    });
+  });
+});
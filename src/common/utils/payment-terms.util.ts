@@ -0,0 +1,135 @@
+import { JsonValue } from '@prisma/client/runtime/client';
+import { addDays } from './pay-frequency.util';
+
+export enum LateFeeTypeEnum {
+  FIXED = 'FIXED', // fixed amount
+  PERCENTAGE = 'PERCENTAGE', // percentage of the amount due
+}
+
+/**
+ * Discount granted when the invoice is paid within a number of days of its issue date, e.g. 2/10
+ */
+export interface EarlyPaymentDiscountTerms {
+  percentage: string;
+  withinDays: number;
+}
+
+/**
+ * Fee added once to an invoice still unpaid after its due date and grace period
+ */
+export interface LateFeeTerms {
+  type: LateFeeTypeEnum;
+  amount: string; // fixed amount, or percentage of the amount due
+  graceDays?: number; // days after the due date before the fee applies, none by default
+}
+
+/**
+ * Payment terms of an invoice, stored in `Invoice.paymentTerms`, e.g. 2/10 net 30
+ */
+export interface PaymentTerms {
+  netDays: number; // the invoice is due this many days after its issue date
+  earlyPaymentDiscount?: EarlyPaymentDiscountTerms | null;
+  lateFee?: LateFeeTerms | null;
+}
+
+/**
+ * Round an amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Payment terms stored on an invoice, null when the invoice has none
+ */
+export function getPaymentTerms(
+  paymentTerms: JsonValue | undefined,
+): PaymentTerms | null {
+  if (!paymentTerms || typeof paymentTerms !== 'object') {
+    return null;
+  }
+
+  return paymentTerms as unknown as PaymentTerms;
+}
+
+/**
+ * Due date of an invoice issued on the given date under net-N terms
+ */
+export function getPaymentTermsDueDate(
+  issueDate: Date,
+  paymentTerms: PaymentTerms,
+): Date {
+  return addDays(issueDate, paymentTerms.netDays);
+}
+
+/**
+ * Early payment discount on an amount paid on the given date,
+ * 0 when the terms have no discount or its window is over
+ */
+export function getEarlyPaymentDiscount(
+  paymentTerms: JsonValue | undefined,
+  issueDate: Date,
+  amount: string,
+  date: Date = new Date(),
+): number {
+  const discount = getPaymentTerms(paymentTerms)?.earlyPaymentDiscount;
+
+  if (!discount || date > addDays(issueDate, discount.withinDays)) {
+    return 0;
+  }
+
+  return roundAmount(
+    (parseFloat(amount) * parseFloat(discount.percentage)) / 100,
+  );
+}
+
+/**
+ * Late fee due on an unpaid amount on the given date,
+ * 0 when the terms have no late fee or the grace period is not over
+ */
+export function getLateFee(
+  paymentTerms: JsonValue | undefined,
+  dueDate: Date,
+  amountDue: string,
+  date: Date = new Date(),
+): number {
+  const lateFee = getPaymentTerms(paymentTerms)?.lateFee;
+
+  if (!lateFee || date <= addDays(dueDate, lateFee.graceDays ?? 0)) {
+    return 0;
+  }
+
+  return lateFee.type === LateFeeTypeEnum.PERCENTAGE
+    ? roundAmount((parseFloat(amountDue) * parseFloat(lateFee.amount)) / 100)
+    : roundAmount(parseFloat(lateFee.amount));
+}
+
+/**
+ * Short description of payment terms printed on invoices, e.g. "2/10 Net 30, late fee 1.5% after 5 days"
+ */
+export function formatPaymentTerms(
+  paymentTerms: PaymentTerms,
+  currency: string,
+): string {
+  const { netDays, earlyPaymentDiscount, lateFee } = paymentTerms;
+  const parts = [
+    earlyPaymentDiscount
+      ? `${parseFloat(earlyPaymentDiscount.percentage)}/${earlyPaymentDiscount.withinDays} Net ${netDays}`
+      : `Net ${netDays}`,
+  ];
+
+  if (lateFee) {
+    const amount =
+      lateFee.type === LateFeeTypeEnum.PERCENTAGE
+        ? `${parseFloat(lateFee.amount)}%`
+        : `${parseFloat(lateFee.amount).toFixed(2)} ${currency}`;
+
+    parts.push(
+      lateFee.graceDays
+        ? `late fee ${amount} after ${lateFee.graceDays} days`
+        : `late fee ${amount}`,
+    );
+  }
+
+  return parts.join(', ');
+}
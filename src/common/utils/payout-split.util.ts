@@ -0,0 +1,162 @@
+import { JsonValue } from '@prisma/client/runtime/client';
+import { PayoutSplitTypeEnum } from 'src/database/generated/client';
+
+export interface PayoutSplitDefinition {
+  id?: number | null;
+  type: PayoutSplitTypeEnum;
+  value: string;
+  token: JsonValue;
+  network: JsonValue;
+  walletAddress?: string | null;
+}
+
+export interface PayoutDestination {
+  token: JsonValue;
+  network: JsonValue;
+  walletAddress: string;
+}
+
+/**
+ * A single payout of an invoice, stored in `Invoice.paymentSplits`.
+ * The remainder paid to the primary wallet has no split id, type or value.
+ */
+export interface InvoicePaymentSplit extends PayoutDestination {
+  splitId: number | null;
+  type: PayoutSplitTypeEnum | null;
+  value: string | null;
+  amount: string;
+}
+
+/**
+ * Round an amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Split an invoice total into payouts.
+ * Splits are applied in order (percentage of the total or fixed amount), each capped to what is left.
+ * The remainder goes to the primary destination (the invoice's payment token, network and wallet).
+ * Splits without a wallet address are paid to the primary wallet.
+ */
+export function calculatePaymentSplits(
+  total: string,
+  splits: PayoutSplitDefinition[],
+  primary: PayoutDestination,
+): InvoicePaymentSplit[] {
+  let remaining = roundAmount(parseFloat(total));
+  const payouts: InvoicePaymentSplit[] = [];
+
+  for (const split of splits) {
+    const requested =
+      split.type === PayoutSplitTypeEnum.PERCENTAGE
+        ? (parseFloat(total) * parseFloat(split.value)) / 100
+        : parseFloat(split.value);
+    const amount = Math.min(roundAmount(requested), remaining);
+
+    if (amount <= 0) {
+      continue;
+    }
+
+    remaining = roundAmount(remaining - amount);
+    payouts.push({
+      splitId: split.id ?? null,
+      type: split.type,
+      value: split.value,
+      token: split.token,
+      network: split.network,
+      walletAddress: split.walletAddress || primary.walletAddress,
+      amount: amount.toFixed(2),
+    });
+  }
+
+  if (remaining > 0 || payouts.length === 0) {
+    payouts.push({
+      splitId: null,
+      type: null,
+      value: null,
+      ...primary,
+      amount: remaining.toFixed(2),
+    });
+  }
+
+  return payouts;
+}
+
+/**
+ * Amount left for the primary destination once the splits are taken from the given amount
+ */
+export function getSplitRemainder(
+  amount: string,
+  splits: Pick<PayoutSplitDefinition, 'type' | 'value'>[],
+): number {
+  return splits.reduce(
+    (remaining, split) =>
+      remaining -
+      (split.type === PayoutSplitTypeEnum.PERCENTAGE
+        ? (parseFloat(amount) * parseFloat(split.value)) / 100
+        : parseFloat(split.value)),
+    parseFloat(amount),
+  );
+}
+
+/**
+ * Get the payouts of an invoice: its payment splits, or a single payout of the total
+ */
+export function getInvoicePayouts(invoice: {
+  total: string;
+  paymentSplits: JsonValue | null;
+  paymentToken: JsonValue;
+  paymentNetwork: JsonValue;
+  paymentWalletAddress: string;
+}): InvoicePaymentSplit[] {
+  if (Array.isArray(invoice.paymentSplits)) {
+    return invoice.paymentSplits as unknown as InvoicePaymentSplit[];
+  }
+
+  return calculatePaymentSplits(invoice.total, [], {
+    token: invoice.paymentToken,
+    network: invoice.paymentNetwork,
+    walletAddress: invoice.paymentWalletAddress,
+  });
+}
+
+/**
+ * Recompute the payment splits of an invoice for a new total, keeping the split definitions it was issued with.
+ * Returns null when the invoice is not split.
+ */
+export function recalculateInvoicePaymentSplits(
+  invoice: {
+    paymentSplits: JsonValue | null;
+    paymentToken: JsonValue;
+    paymentNetwork: JsonValue;
+    paymentWalletAddress: string;
+  },
+  total: string,
+): InvoicePaymentSplit[] | null {
+  if (!Array.isArray(invoice.paymentSplits)) {
+    return null;
+  }
+
+  const splits = (
+    invoice.paymentSplits as unknown as InvoicePaymentSplit[]
+  ).filter((payout) => payout.splitId !== null);
+
+  return calculatePaymentSplits(
+    total,
+    splits.map((payout) => ({
+      id: payout.splitId,
+      type: payout.type,
+      value: payout.value,
+      token: payout.token,
+      network: payout.network,
+      walletAddress: payout.walletAddress,
+    })),
+    {
+      token: invoice.paymentToken,
+      network: invoice.paymentNetwork,
+      walletAddress: invoice.paymentWalletAddress,
+    },
+  );
+}
@@ -0,0 +1,177 @@
+import { ProrationMethodEnum } from 'src/database/generated/client';
+import {
+  calculateProration,
+  countDays,
+  formatProration,
+  isAfterContractEnd,
+} from './proration.util';
+
+describe('proration.util', () => {
+  const january = { start: new Date(2026, 0, 1), end: new Date(2026, 1, 1) };
+
+  describe('countDays', () => {
+    it('should count calendar days in [start, end)', () => {
+      expect(
+        countDays(
+          january.start,
+          january.end,
+          ProrationMethodEnum.CALENDAR_DAYS,
+        ),
+      ).toBe(31);
+    });
+
+    it('should skip weekends when counting working days', () => {
+      expect(
+        countDays(january.start, january.end, ProrationMethodEnum.WORKING_DAYS),
+      ).toBe(22);
+    });
+
+    it('should count every month as 30 days with 30/360', () => {
+      expect(
+        countDays(
+          new Date(2026, 1, 1),
+          new Date(2026, 2, 1),
+          ProrationMethodEnum.THIRTY_360,
+        ),
+      ).toBe(30);
+    });
+
+    it('should return 0 when the end is not after the start', () => {
+      expect(
+        countDays(
+          january.end,
+          january.start,
+          ProrationMethodEnum.CALENDAR_DAYS,
+        ),
+      ).toBe(0);
+    });
+  });
+
+  describe('calculateProration', () => {
+    it('should return null when pro-ration is disabled', () => {
+      expect(
+        calculateProration(
+          january,
+          new Date(2026, 0, 20),
+          null,
+          ProrationMethodEnum.NONE,
+        ),
+      ).toBeNull();
+    });
+
+    it('should return null when the full period is worked', () => {
+      expect(
+        calculateProration(
+          january,
+          new Date(2025, 5, 1),
+          null,
+          ProrationMethodEnum.CALENDAR_DAYS,
+        ),
+      ).toBeNull();
+    });
+
+    it('should pro-rate from the joining date', () => {
+      expect(
+        calculateProration(
+          january,
+          new Date(2026, 0, 12),
+          null,
+          ProrationMethodEnum.WORKING_DAYS,
+        ),
+      ).toEqual({
+        method: ProrationMethodEnum.WORKING_DAYS,
+        workedDays: 15,
+        totalDays: 22,
+        ratio: 15 / 22,
+      });
+    });
+
+    it('should include the last day of the contract', () => {
+      expect(
+        calculateProration(
+          january,
+          null,
+          new Date(2026, 0, 15),
+          ProrationMethodEnum.CALENDAR_DAYS,
+        ),
+      ).toEqual({
+        method: ProrationMethodEnum.CALENDAR_DAYS,
+        workedDays: 15,
+        totalDays: 31,
+        ratio: 15 / 31,
+      });
+    });
+
+    it('should not pro-rate a contract ending on the last day of the period', () => {
+      expect(
+        calculateProration(
+          january,
+          null,
+          new Date(2026, 0, 31),
+          ProrationMethodEnum.CALENDAR_DAYS,
+        ),
+      ).toBeNull();
+    });
+
+    it('should pro-rate a contract that starts and ends in the period', () => {
+      expect(
+        calculateProration(
+          january,
+          new Date(2026, 0, 12),
+          new Date(2026, 0, 15, 17, 0),
+          ProrationMethodEnum.WORKING_DAYS,
+        ),
+      ).toMatchObject({ workedDays: 4, totalDays: 22 });
+    });
+
+    it('should pro-rate a contract end with 30/360', () => {
+      expect(
+        calculateProration(
+          january,
+          null,
+          new Date(2026, 0, 15),
+          ProrationMethodEnum.THIRTY_360,
+        ),
+      ).toMatchObject({ workedDays: 15, totalDays: 30, ratio: 0.5 });
+    });
+  });
+
+  describe('isAfterContractEnd', () => {
+    it('should be true for periods starting after the contract end', () => {
+      expect(
+        isAfterContractEnd(
+          { start: new Date(2026, 1, 1) },
+          new Date(2026, 0, 31),
+        ),
+      ).toBe(true);
+    });
+
+    it('should be false for the period containing the last day', () => {
+      expect(
+        isAfterContractEnd(
+          { start: new Date(2026, 1, 1) },
+          new Date(2026, 1, 1, 9, 0),
+        ),
+      ).toBe(false);
+    });
+
+    it('should be false without a contract end date', () => {
+      expect(isAfterContractEnd({ start: new Date(2026, 1, 1) }, null)).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('formatProration', () => {
+    it('should describe the day count', () => {
+      expect(
+        formatProration({
+          method: ProrationMethodEnum.WORKING_DAYS,
+          workedDays: 12,
+          totalDays: 22,
+          ratio: 12 / 22,
+        }),
+      ).toBe('pro-rated 12/22 working days');
+    });
+  });
+});
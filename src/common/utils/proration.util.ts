@@ -0,0 +1,137 @@
+import { ProrationMethodEnum } from 'src/database/generated/client';
+import { ONE_DAY_MS } from '../constants';
+import { addDays } from './pay-frequency.util';
+
+export interface ProrationResult {
+  method: ProrationMethodEnum;
+  workedDays: number;
+  totalDays: number;
+  ratio: number;
+}
+
+/**
+ * Label used to describe the day count of each pro-ration method
+ */
+export const PRORATION_DAY_LABELS: Record<ProrationMethodEnum, string> = {
+  [ProrationMethodEnum.NONE]: 'days',
+  [ProrationMethodEnum.CALENDAR_DAYS]: 'calendar days',
+  [ProrationMethodEnum.WORKING_DAYS]: 'working days',
+  [ProrationMethodEnum.THIRTY_360]: 'days (30/360)',
+};
+
+/**
+ * Strip the time part of a date
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate());
+}
+
+/**
+ * Count the days in [start, end) using the given day count method
+ */
+export function countDays(
+  start: Date,
+  end: Date,
+  method: ProrationMethodEnum,
+): number {
+  const from = startOfDay(start);
+  const to = startOfDay(end);
+
+  if (to <= from) {
+    return 0;
+  }
+
+  switch (method) {
+    case ProrationMethodEnum.WORKING_DAYS: {
+      let workingDays = 0;
+      for (let day = from; day < to; day = addDays(day, 1)) {
+        const weekday = day.getDay();
+        if (weekday !== 0 && weekday !== 6) {
+          workingDays++;
+        }
+      }
+      return workingDays;
+    }
+
+    case ProrationMethodEnum.THIRTY_360: {
+      // US 30/360: day 31 is treated as day 30
+      const startDay = Math.min(from.getDate(), 30);
+      const endDay = to.getDate() === 31 && startDay === 30 ? 30 : to.getDate();
+      return (
+        360 * (to.getFullYear() - from.getFullYear()) +
+        30 * (to.getMonth() - from.getMonth()) +
+        (endDay - startDay)
+      );
+    }
+
+    case ProrationMethodEnum.CALENDAR_DAYS:
+    case ProrationMethodEnum.NONE:
+    default:
+      return Math.round((to.getTime() - from.getTime()) / ONE_DAY_MS);
+  }
+}
+
+/**
+ * Calculate the pro-ration of a pay period [periodStart, periodEnd)
+ * for an employee who joined on `joiningDate` and whose contract ends on `contractEndDate` (inclusive).
+ * Returns null when the full period is worked or pro-ration is disabled.
+ */
+export function calculateProration(
+  period: { start: Date; end: Date },
+  joiningDate: Date | null,
+  contractEndDate: Date | null,
+  method: ProrationMethodEnum,
+): ProrationResult | null {
+  if (method === ProrationMethodEnum.NONE) {
+    return null;
+  }
+
+  const periodStart = startOfDay(period.start);
+  const periodEnd = startOfDay(period.end);
+
+  const joinedDuringPeriod =
+    joiningDate && startOfDay(joiningDate) > periodStart;
+  const endedDuringPeriod =
+    contractEndDate && addDays(startOfDay(contractEndDate), 1) < periodEnd;
+
+  if (!joinedDuringPeriod && !endedDuringPeriod) {
+    return null;
+  }
+
+  const workedFrom = joinedDuringPeriod ? startOfDay(joiningDate) : periodStart;
+  const workedUntil = endedDuringPeriod
+    ? addDays(startOfDay(contractEndDate), 1)
+    : periodEnd;
+
+  const totalDays = countDays(periodStart, periodEnd, method);
+  const workedDays = Math.min(
+    countDays(workedFrom, workedUntil, method),
+    totalDays,
+  );
+
+  return {
+    method,
+    workedDays,
+    totalDays,
+    ratio: totalDays > 0 ? workedDays / totalDays : 0,
+  };
+}
+
+/**
+ * Whether a pay period starts after the last working day of the contract (inclusive), nothing is owed for it
+ */
+export function isAfterContractEnd(
+  period: { start: Date },
+  contractEndDate: Date | null,
+): boolean {
+  return (
+    !!contractEndDate && startOfDay(contractEndDate) < startOfDay(period.start)
+  );
+}
+
+/**
+ * Describe a pro-ration day count, e.g. "pro-rated 12/22 working days"
+ */
+export function formatProration(proration: ProrationResult): string {
+  return `pro-rated ${proration.workedDays}/${proration.totalDays} ${PRORATION_DAY_LABELS[proration.method]}`;
+}
@@ -0,0 +1,154 @@
+import {
+  buildTaxBreakdown,
+  calculateLineItemTaxes,
+  getCombinedTaxRate,
+  getLegacyTaxDefinitions,
+  TaxDefinition,
+} from './tax.util';
+
+describe('tax.util', () => {
+  const gst: TaxDefinition = {
+    taxRateUUID: 'gst',
+    name: 'GST',
+    rate: '5',
+    isCompound: false,
+  };
+  const qst: TaxDefinition = {
+    taxRateUUID: 'qst',
+    name: 'QST',
+    rate: '9.975',
+    isCompound: true,
+  };
+
+  describe('getCombinedTaxRate', () => {
+    it('should apply compound taxes on top of the simple taxes', () => {
+      expect(getCombinedTaxRate([gst, qst])).toBeCloseTo(15.47375);
+    });
+  });
+
+  describe('calculateLineItemTaxes', () => {
+    it('should apply simple taxes on the discounted amount', () => {
+      expect(
+        calculateLineItemTaxes({
+          quantity: '2',
+          unitPrice: '50',
+          discount: '10',
+          taxes: [{ ...gst, rate: '20' }],
+        }),
+      ).toMatchObject({
+        subtotal: 100,
+        discount: 10,
+        taxAmount: 18,
+        total: 108,
+        taxRate: '20.00',
+      });
+    });
+
+    it('should apply compound taxes on the amount including simple taxes', () => {
+      const result = calculateLineItemTaxes({
+        quantity: '1',
+        unitPrice: '100',
+        taxes: [qst, gst],
+      });
+
+      expect(result.taxes).toEqual([
+        { ...gst, taxableAmount: '100.00', amount: '5.00' },
+        { ...qst, taxableAmount: '105.00', amount: '10.47' },
+      ]);
+      expect(result).toMatchObject({
+        subtotal: 100,
+        taxAmount: 15.47,
+        total: 115.47,
+        taxRate: '15.47',
+      });
+    });
+
+    it('should extract taxes from tax-inclusive prices', () => {
+      expect(
+        calculateLineItemTaxes({
+          quantity: '1',
+          unitPrice: '110',
+          taxes: [{ ...gst, rate: '10' }],
+          isTaxInclusive: true,
+        }),
+      ).toMatchObject({
+        subtotal: 100,
+        taxAmount: 10,
+        total: 110,
+      });
+    });
+
+    it('should keep the price paid for tax-inclusive compound taxes', () => {
+      const result = calculateLineItemTaxes({
+        quantity: '1',
+        unitPrice: '115.47',
+        taxes: [gst, qst],
+        isTaxInclusive: true,
+      });
+
+      expect(result).toMatchObject({
+        subtotal: 100,
+        taxAmount: 15.47,
+        total: 115.47,
+      });
+      expect(result.taxes.map((tax) => tax.amount)).toEqual(['5.00', '10.47']);
+    });
+
+    it('should not tax items without taxes', () => {
+      expect(
+        calculateLineItemTaxes({ quantity: '3', unitPrice: '12.5', taxes: [] }),
+      ).toMatchObject({
+        subtotal: 37.5,
+        taxes: [],
+        taxAmount: 0,
+        total: 37.5,
+        taxRate: '0.00',
+      });
+    });
+  });
+
+  describe('getLegacyTaxDefinitions', () => {
+    it('should map a plain tax rate to a single simple tax', () => {
+      expect(getLegacyTaxDefinitions('8.5')).toEqual([
+        { taxRateUUID: null, name: 'Tax', rate: '8.5', isCompound: false },
+      ]);
+    });
+
+    it('should not tax a zero or missing rate', () => {
+      expect(getLegacyTaxDefinitions('0.00')).toEqual([]);
+      expect(getLegacyTaxDefinitions(null)).toEqual([]);
+    });
+  });
+
+  describe('buildTaxBreakdown', () => {
+    it('should sum the same tax across items', () => {
+      const first = calculateLineItemTaxes({
+        quantity: '1',
+        unitPrice: '100',
+        taxes: [gst, qst],
+      });
+      const second = calculateLineItemTaxes({
+        quantity: '1',
+        unitPrice: '40',
+        taxes: [gst],
+      });
+
+      expect(buildTaxBreakdown([first.taxes, second.taxes])).toEqual([
+        {
+          name: 'GST',
+          rate: '5',
+          isCompound: false,
+          taxableAmount: '140.00',
+          amount: '7.00',
+        },
+        {
+          name: 'QST',
+          rate: '9.975',
+          isCompound: true,
+          taxableAmount: '105.00',
+          amount: '10.47',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import { JsonValue } from '@prisma/client/runtime/client';
+
+/**
+ * A tax applied to a line item.
+ * Compound taxes are applied on the amount including the simple taxes (and the previous compound taxes).
+ */
+export interface TaxDefinition {
+  taxRateUUID: string | null; // null for legacy items taxed with `InvoiceItem.taxRate`
+  name: string;
+  rate: string; // percentage
+  isCompound: boolean;
+}
+
+/**
+ * A tax applied to a line item with its amount, stored in `InvoiceItem.taxes`
+ */
+export interface AppliedTax extends TaxDefinition {
+  taxableAmount: string;
+  amount: string;
+}
+
+/**
+ * Total of a tax over all the items of an invoice, stored in `Invoice.taxBreakdown`
+ */
+export interface TaxBreakdownLine {
+  name: string;
+  rate: string;
+  isCompound: boolean;
+  taxableAmount: string;
+  amount: string;
+}
+
+export interface LineItemTaxInput {
+  quantity: string;
+  unitPrice: string;
+  discount?: string | null;
+  taxes: TaxDefinition[];
+  isTaxInclusive?: boolean;
+}
+
+export interface LineItemTaxResult {
+  subtotal: number; // quantity * unit price, excluding taxes
+  discount: number; // excluding taxes
+  taxes: AppliedTax[];
+  taxAmount: number;
+  total: number;
+  taxRate: string; // combined rate of the taxes, as percentage
+}
+
+/**
+ * Round an amount to cents
+ */
+function roundAmount(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Combined rate of taxes, e.g. 5% + 9.975% compound => 15.47%
+ */
+export function getCombinedTaxRate(taxes: TaxDefinition[]): number {
+  const simpleRate = taxes
+    .filter((tax) => !tax.isCompound)
+    .reduce((sum, tax) => sum + parseFloat(tax.rate) / 100, 0);
+  const multiplier = taxes
+    .filter((tax) => tax.isCompound)
+    .reduce((product, tax) => product * (1 + parseFloat(tax.rate) / 100), 1);
+
+  return ((1 + simpleRate) * multiplier - 1) * 100;
+}
+
+/**
+ * Calculate the taxes and total of a line item.
+ * Tax-inclusive unit prices already contain the taxes: the taxes are extracted so the total is the price paid.
+ */
+export function calculateLineItemTaxes(
+  input: LineItemTaxInput,
+): LineItemTaxResult {
+  const combinedRate = getCombinedTaxRate(input.taxes);
+  const divisor = input.isTaxInclusive ? 1 + combinedRate / 100 : 1;
+
+  const subtotal =
+    (parseFloat(input.quantity) * parseFloat(input.unitPrice)) / divisor;
+  const discount = parseFloat(input.discount || '0') / divisor;
+  const taxableAmount = subtotal - discount;
+
+  // Simple taxes first, then compound taxes on the running amount
+  const simpleTaxes = input.taxes.filter((tax) => !tax.isCompound);
+  const compoundTaxes = input.taxes.filter((tax) => tax.isCompound);
+  const taxes: AppliedTax[] = [];
+  let runningAmount = taxableAmount;
+
+  for (const tax of simpleTaxes) {
+    const amount = roundAmount((taxableAmount * parseFloat(tax.rate)) / 100);
+    taxes.push({
+      ...tax,
+      taxableAmount: taxableAmount.toFixed(2),
+      amount: amount.toFixed(2),
+    });
+    runningAmount += amount;
+  }
+
+  for (const tax of compoundTaxes) {
+    const amount = roundAmount((runningAmount * parseFloat(tax.rate)) / 100);
+    taxes.push({
+      ...tax,
+      taxableAmount: runningAmount.toFixed(2),
+      amount: amount.toFixed(2),
+    });
+    runningAmount += amount;
+  }
+
+  const taxAmount = taxes.reduce((sum, tax) => sum + parseFloat(tax.amount), 0);
+
+  // The price paid for tax-inclusive items does not change with the rounding of the taxes
+  const total = input.isTaxInclusive
+    ? roundAmount(
+        parseFloat(input.quantity) * parseFloat(input.unitPrice) -
+          parseFloat(input.discount || '0'),
+      )
+    : roundAmount(taxableAmount + taxAmount);
+
+  return {
+    subtotal: input.isTaxInclusive
+      ? roundAmount(total - taxAmount + roundAmount(discount))
+      : roundAmount(subtotal),
+    discount: roundAmount(discount),
+    taxes,
+    taxAmount: roundAmount(taxAmount),
+    total,
+    taxRate: combinedRate.toFixed(2),
+  };
+}
+
+/**
+ * Taxes of a stored line item: the applied taxes, or the single legacy tax rate of older items
+ */
+export function getItemTaxDefinitions(item: {
+  taxRate: string | null;
+  taxes: JsonValue;
+  isTaxExempt: boolean;
+}): TaxDefinition[] {
+  if (item.isTaxExempt) {
+    return [];
+  }
+
+  if (Array.isArray(item.taxes)) {
+    return (item.taxes as unknown as AppliedTax[]).map((tax) => ({
+      taxRateUUID: tax.taxRateUUID,
+      name: tax.name,
+      rate: tax.rate,
+      isCompound: tax.isCompound,
+    }));
+  }
+
+  return getLegacyTaxDefinitions(item.taxRate);
+}
+
+/**
+ * A single tax for items given a plain tax rate, none when the rate is zero
+ */
+export function getLegacyTaxDefinitions(
+  taxRate: string | null | undefined,
+): TaxDefinition[] {
+  return parseFloat(taxRate || '0') > 0
+    ? [{ taxRateUUID: null, name: 'Tax', rate: taxRate, isCompound: false }]
+    : [];
+}
+
+/**
+ * Sum the taxes of line items per tax (name, rate and compounding)
+ */
+export function buildTaxBreakdown(
+  itemTaxes: AppliedTax[][],
+): TaxBreakdownLine[] {
+  const breakdown = new Map<string, TaxBreakdownLine>();
+
+  for (const tax of itemTaxes.flat()) {
+    const key = `${tax.name}|${parseFloat(tax.rate)}|${tax.isCompound}`;
+    const line = breakdown.get(key) ?? {
+      name: tax.name,
+      rate: tax.rate,
+      isCompound: tax.isCompound,
+      taxableAmount: '0.00',
+      amount: '0.00',
+    };
+
+    breakdown.set(key, {
+      ...line,
+      taxableAmount: (
+        parseFloat(line.taxableAmount) + parseFloat(tax.taxableAmount)
+      ).toFixed(2),
+      amount: (parseFloat(line.amount) + parseFloat(tax.amount)).toFixed(2),
+    });
+  }
+
+  return [...breakdown.values()];
+}
@@ -22,4 +22,8 @@ export const envValidator = Joi.object({
 
   // Admin
   ADMIN_EMAIL: Joi.string().email().required(),
+
+  // Attachment storage
+  STORAGE_DRIVER: Joi.string().valid('local').default('local'),
+  STORAGE_LOCAL_DIRECTORY: Joi.string().default('./uploads'),
 });
@@ -47,11 +47,81 @@ export type EmployeeGroup = Prisma.EmployeeGroupModel
  * 
  */
 export type Payroll = Prisma.PayrollModel
+/**
+ * Model PayrollAmendment
+ * 
+ */
+export type PayrollAmendment = Prisma.PayrollAmendmentModel
+/**
+ * Model PayrollPause
+ * 
+ */
+export type PayrollPause = Prisma.PayrollPauseModel
+/**
+ * Model PayrollAdjustment
+ * 
+ */
+export type PayrollAdjustment = Prisma.PayrollAdjustmentModel
+/**
+ * Model PayrollPayoutSplit
+ * 
+ */
+export type PayrollPayoutSplit = Prisma.PayrollPayoutSplitModel
 /**
  * Model Invoice
  * 
  */
 export type Invoice = Prisma.InvoiceModel
+/**
+ * Model InvoiceNumberSequence
+ * 
+ */
+export type InvoiceNumberSequence = Prisma.InvoiceNumberSequenceModel
+/**
+ * Model TaxRate
+ * 
+ */
+export type TaxRate = Prisma.TaxRateModel
+/**
+ * Model InvoiceTemplate
+ * 
+ */
+export type InvoiceTemplate = Prisma.InvoiceTemplateModel
+/**
+ * Model CreditNote
+ * 
+ */
+export type CreditNote = Prisma.CreditNoteModel
+/**
+ * Model InvoiceComment
+ * 
+ */
+export type InvoiceComment = Prisma.InvoiceCommentModel
+/**
+ * Model InvoiceAttachment
+ * 
+ */
+export type InvoiceAttachment = Prisma.InvoiceAttachmentModel
+/**
+ * Model InvoiceEvent
+ * 
+ */
+export type InvoiceEvent = Prisma.InvoiceEventModel
+/**
+ * Model DunningRule
+ * 
+ */
+export type DunningRule = Prisma.DunningRuleModel
+/**
+ * Model InvoiceReminder
+ * 
+ */
+export type InvoiceReminder = Prisma.InvoiceReminderModel
+/**
+ * Model InvoiceApproval
+ * 
+ */
+export type InvoiceApproval = Prisma.InvoiceApprovalModel
 /**
  * Model InvoiceItem
  * 
@@ -67,6 +137,11 @@ export type InvoiceSchedule = Prisma.InvoiceScheduleModel
  * 
  */
 export type Bill = Prisma.BillModel
+/**
+ * Model BillPayment
+ * 
+ */
+export type BillPayment = Prisma.BillPaymentModel
 /**
  * Model PaymentLink
  * 
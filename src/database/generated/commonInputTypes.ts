@@ -413,6 +413,20 @@ export type EnumContractTermEnumFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumContractTermEnumFilter<$PrismaModel> | $Enums.ContractTermEnum
 }
 
+export type EnumPayFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayFrequencyEnum | Prisma.EnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel> | $Enums.PayFrequencyEnum
+}
+
+export type EnumProrationMethodEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProrationMethodEnum | Prisma.EnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel> | $Enums.ProrationMethodEnum
+}
+
 export type EnumPayrollStatusEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.PayrollStatusEnum | Prisma.EnumPayrollStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.PayrollStatusEnum[] | Prisma.ListEnumPayrollStatusEnumFieldRefInput<$PrismaModel>
@@ -430,6 +444,26 @@ export type EnumContractTermEnumWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumContractTermEnumFilter<$PrismaModel>
 }
 
+export type EnumPayFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayFrequencyEnum | Prisma.EnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel>
+}
+
+export type EnumProrationMethodEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProrationMethodEnum | Prisma.EnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProrationMethodEnumWithAggregatesFilter<$PrismaModel> | $Enums.ProrationMethodEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel>
+}
+
 export type EnumPayrollStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.PayrollStatusEnum | Prisma.EnumPayrollStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.PayrollStatusEnum[] | Prisma.ListEnumPayrollStatusEnumFieldRefInput<$PrismaModel>
@@ -440,6 +474,91 @@ export type EnumPayrollStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumPayrollStatusEnumFilter<$PrismaModel>
 }
 
+export type EnumPayrollPausePolicyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPausePolicyEnum | Prisma.EnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel> | $Enums.PayrollPausePolicyEnum
+}
+
+export type EnumPayrollPauseStatusEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPauseStatusEnum | Prisma.EnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel> | $Enums.PayrollPauseStatusEnum
+}
+
+export type EnumPayrollPausePolicyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPausePolicyEnum | Prisma.EnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPausePolicyEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollPausePolicyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel>
+}
+
+export type EnumPayrollPauseStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPauseStatusEnum | Prisma.EnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPauseStatusEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollPauseStatusEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel>
+}
+
+export type EnumPayrollAdjustmentTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentTypeEnum | Prisma.EnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel> | $Enums.PayrollAdjustmentTypeEnum
+}
+
+export type EnumPayrollAdjustmentStatusEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentStatusEnum | Prisma.EnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel> | $Enums.PayrollAdjustmentStatusEnum
+}
+
+export type EnumPayrollAdjustmentTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentTypeEnum | Prisma.EnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollAdjustmentTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel>
+}
+
+export type EnumPayrollAdjustmentStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentStatusEnum | Prisma.EnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentStatusEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollAdjustmentStatusEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel>
+}
+
+export type EnumPayoutSplitTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayoutSplitTypeEnum | Prisma.EnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel> | $Enums.PayoutSplitTypeEnum
+}
+
+export type EnumPayoutSplitTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayoutSplitTypeEnum | Prisma.EnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayoutSplitTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayoutSplitTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel>
+}
+
 export type EnumInvoiceTypeEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.InvoiceTypeEnum | Prisma.EnumInvoiceTypeEnumFieldRefInput<$PrismaModel>
   in?: $Enums.InvoiceTypeEnum[] | Prisma.ListEnumInvoiceTypeEnumFieldRefInput<$PrismaModel>
@@ -474,6 +593,125 @@ export type EnumInvoiceStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumInvoiceStatusEnumFilter<$PrismaModel>
 }
 
+export type EnumNumberingSequenceTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingSequenceTypeEnum | Prisma.EnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel> | $Enums.NumberingSequenceTypeEnum
+}
+
+export type EnumNumberingResetFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingResetFrequencyEnum | Prisma.EnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel> | $Enums.NumberingResetFrequencyEnum
+}
+
+export type EnumNumberingSequenceTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingSequenceTypeEnum | Prisma.EnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingSequenceTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.NumberingSequenceTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel>
+}
+
+export type EnumNumberingResetFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingResetFrequencyEnum | Prisma.EnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingResetFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.NumberingResetFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel>
+}
+
+export type EnumInvoiceDateFormatEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceDateFormatEnum | Prisma.EnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel> | $Enums.InvoiceDateFormatEnum
+}
+
+export type EnumInvoiceDateFormatEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceDateFormatEnum | Prisma.EnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceDateFormatEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceDateFormatEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel>
+}
+
+export type EnumInvoiceCommentTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentTypeEnum | Prisma.EnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel> | $Enums.InvoiceCommentTypeEnum
+}
+
+export type EnumInvoiceCommentAuthorEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentAuthorEnum | Prisma.EnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel> | $Enums.InvoiceCommentAuthorEnum
+}
+
+export type EnumInvoiceCommentTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentTypeEnum | Prisma.EnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceCommentTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel>
+}
+
+export type EnumInvoiceCommentAuthorEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentAuthorEnum | Prisma.EnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentAuthorEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceCommentAuthorEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel>
+}
+
+export type EnumInvoiceEventActionEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActionEnum | Prisma.EnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel> | $Enums.InvoiceEventActionEnum
+}
+
+export type EnumInvoiceEventActorEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActorEnum | Prisma.EnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel> | $Enums.InvoiceEventActorEnum
+}
+
+export type EnumInvoiceEventActionEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActionEnum | Prisma.EnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActionEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceEventActionEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel>
+}
+
+export type EnumInvoiceEventActorEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActorEnum | Prisma.EnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActorEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceEventActorEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel>
+}
+
 export type EnumBillStatusEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.BillStatusEnum | Prisma.EnumBillStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.BillStatusEnum[] | Prisma.ListEnumBillStatusEnumFieldRefInput<$PrismaModel>
@@ -900,6 +1138,20 @@ export type NestedEnumContractTermEnumFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumContractTermEnumFilter<$PrismaModel> | $Enums.ContractTermEnum
 }
 
+export type NestedEnumPayFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayFrequencyEnum | Prisma.EnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel> | $Enums.PayFrequencyEnum
+}
+
+export type NestedEnumProrationMethodEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProrationMethodEnum | Prisma.EnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel> | $Enums.ProrationMethodEnum
+}
+
 export type NestedEnumPayrollStatusEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.PayrollStatusEnum | Prisma.EnumPayrollStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.PayrollStatusEnum[] | Prisma.ListEnumPayrollStatusEnumFieldRefInput<$PrismaModel>
@@ -917,6 +1169,26 @@ export type NestedEnumContractTermEnumWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumContractTermEnumFilter<$PrismaModel>
 }
 
+export type NestedEnumPayFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayFrequencyEnum | Prisma.EnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayFrequencyEnum[] | Prisma.ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayFrequencyEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumProrationMethodEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ProrationMethodEnum | Prisma.EnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ProrationMethodEnum[] | Prisma.ListEnumProrationMethodEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumProrationMethodEnumWithAggregatesFilter<$PrismaModel> | $Enums.ProrationMethodEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumProrationMethodEnumFilter<$PrismaModel>
+}
+
 export type NestedEnumPayrollStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.PayrollStatusEnum | Prisma.EnumPayrollStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.PayrollStatusEnum[] | Prisma.ListEnumPayrollStatusEnumFieldRefInput<$PrismaModel>
@@ -927,6 +1199,91 @@ export type NestedEnumPayrollStatusEnumWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumPayrollStatusEnumFilter<$PrismaModel>
 }
 
+export type NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPausePolicyEnum | Prisma.EnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel> | $Enums.PayrollPausePolicyEnum
+}
+
+export type NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPauseStatusEnum | Prisma.EnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel> | $Enums.PayrollPauseStatusEnum
+}
+
+export type NestedEnumPayrollPausePolicyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPausePolicyEnum | Prisma.EnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPausePolicyEnum[] | Prisma.ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPausePolicyEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollPausePolicyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollPausePolicyEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumPayrollPauseStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollPauseStatusEnum | Prisma.EnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollPauseStatusEnum[] | Prisma.ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollPauseStatusEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollPauseStatusEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollPauseStatusEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentTypeEnum | Prisma.EnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel> | $Enums.PayrollAdjustmentTypeEnum
+}
+
+export type NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentStatusEnum | Prisma.EnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel> | $Enums.PayrollAdjustmentStatusEnum
+}
+
+export type NestedEnumPayrollAdjustmentTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentTypeEnum | Prisma.EnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentTypeEnum[] | Prisma.ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollAdjustmentTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollAdjustmentTypeEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumPayrollAdjustmentStatusEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayrollAdjustmentStatusEnum | Prisma.EnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayrollAdjustmentStatusEnum[] | Prisma.ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayrollAdjustmentStatusEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayrollAdjustmentStatusEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayrollAdjustmentStatusEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayoutSplitTypeEnum | Prisma.EnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel> | $Enums.PayoutSplitTypeEnum
+}
+
+export type NestedEnumPayoutSplitTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PayoutSplitTypeEnum | Prisma.EnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PayoutSplitTypeEnum[] | Prisma.ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPayoutSplitTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.PayoutSplitTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPayoutSplitTypeEnumFilter<$PrismaModel>
+}
+
 export type NestedEnumInvoiceTypeEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.InvoiceTypeEnum | Prisma.EnumInvoiceTypeEnumFieldRefInput<$PrismaModel>
   in?: $Enums.InvoiceTypeEnum[] | Prisma.ListEnumInvoiceTypeEnumFieldRefInput<$PrismaModel>
@@ -961,6 +1318,125 @@ export type NestedEnumInvoiceStatusEnumWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumInvoiceStatusEnumFilter<$PrismaModel>
 }
 
+export type NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingSequenceTypeEnum | Prisma.EnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel> | $Enums.NumberingSequenceTypeEnum
+}
+
+export type NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingResetFrequencyEnum | Prisma.EnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel> | $Enums.NumberingResetFrequencyEnum
+}
+
+export type NestedEnumNumberingSequenceTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingSequenceTypeEnum | Prisma.EnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingSequenceTypeEnum[] | Prisma.ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingSequenceTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.NumberingSequenceTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNumberingSequenceTypeEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumNumberingResetFrequencyEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.NumberingResetFrequencyEnum | Prisma.EnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.NumberingResetFrequencyEnum[] | Prisma.ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumNumberingResetFrequencyEnumWithAggregatesFilter<$PrismaModel> | $Enums.NumberingResetFrequencyEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumNumberingResetFrequencyEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceDateFormatEnum | Prisma.EnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel> | $Enums.InvoiceDateFormatEnum
+}
+
+export type NestedEnumInvoiceDateFormatEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceDateFormatEnum | Prisma.EnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceDateFormatEnum[] | Prisma.ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceDateFormatEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceDateFormatEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceDateFormatEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentTypeEnum | Prisma.EnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel> | $Enums.InvoiceCommentTypeEnum
+}
+
+export type NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentAuthorEnum | Prisma.EnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel> | $Enums.InvoiceCommentAuthorEnum
+}
+
+export type NestedEnumInvoiceCommentTypeEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentTypeEnum | Prisma.EnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentTypeEnum[] | Prisma.ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentTypeEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceCommentTypeEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceCommentTypeEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceCommentAuthorEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceCommentAuthorEnum | Prisma.EnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceCommentAuthorEnum[] | Prisma.ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceCommentAuthorEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceCommentAuthorEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceCommentAuthorEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceEventActionEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActionEnum | Prisma.EnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel> | $Enums.InvoiceEventActionEnum
+}
+
+export type NestedEnumInvoiceEventActorEnumFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActorEnum | Prisma.EnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel> | $Enums.InvoiceEventActorEnum
+}
+
+export type NestedEnumInvoiceEventActionEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActionEnum | Prisma.EnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActionEnum[] | Prisma.ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActionEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceEventActionEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceEventActionEnumFilter<$PrismaModel>
+}
+
+export type NestedEnumInvoiceEventActorEnumWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InvoiceEventActorEnum | Prisma.EnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  in?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InvoiceEventActorEnum[] | Prisma.ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInvoiceEventActorEnumWithAggregatesFilter<$PrismaModel> | $Enums.InvoiceEventActorEnum
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInvoiceEventActorEnumFilter<$PrismaModel>
+}
+
 export type NestedEnumBillStatusEnumFilter<$PrismaModel = never> = {
   equals?: $Enums.BillStatusEnum | Prisma.EnumBillStatusEnumFieldRefInput<$PrismaModel>
   in?: $Enums.BillStatusEnum[] | Prisma.ListEnumBillStatusEnumFieldRefInput<$PrismaModel>
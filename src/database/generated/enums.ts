@@ -17,6 +17,27 @@ export const ContractTermEnum = {
 export type ContractTermEnum = (typeof ContractTermEnum)[keyof typeof ContractTermEnum]
 
 
+export const PayFrequencyEnum = {
+  WEEKLY: 'WEEKLY',
+  BIWEEKLY: 'BIWEEKLY',
+  SEMI_MONTHLY: 'SEMI_MONTHLY',
+  MONTHLY: 'MONTHLY',
+  QUARTERLY: 'QUARTERLY'
+} as const
+
+export type PayFrequencyEnum = (typeof PayFrequencyEnum)[keyof typeof PayFrequencyEnum]
+
+
+export const ProrationMethodEnum = {
+  NONE: 'NONE',
+  CALENDAR_DAYS: 'CALENDAR_DAYS',
+  WORKING_DAYS: 'WORKING_DAYS',
+  THIRTY_360: 'THIRTY_360'
+} as const
+
+export type ProrationMethodEnum = (typeof ProrationMethodEnum)[keyof typeof ProrationMethodEnum]
+
+
 export const PayrollStatusEnum = {
   ACTIVE: 'ACTIVE',
   PAUSED: 'PAUSED',
@@ -28,6 +49,51 @@ export const PayrollStatusEnum = {
 export type PayrollStatusEnum = (typeof PayrollStatusEnum)[keyof typeof PayrollStatusEnum]
 
 
+export const PayrollAdjustmentTypeEnum = {
+  BONUS: 'BONUS',
+  REIMBURSEMENT: 'REIMBURSEMENT',
+  ADVANCE_REPAYMENT: 'ADVANCE_REPAYMENT',
+  DEDUCTION: 'DEDUCTION'
+} as const
+
+export type PayrollAdjustmentTypeEnum = (typeof PayrollAdjustmentTypeEnum)[keyof typeof PayrollAdjustmentTypeEnum]
+
+
+export const PayoutSplitTypeEnum = {
+  PERCENTAGE: 'PERCENTAGE',
+  FIXED: 'FIXED'
+} as const
+
+export type PayoutSplitTypeEnum = (typeof PayoutSplitTypeEnum)[keyof typeof PayoutSplitTypeEnum]
+
+
+export const PayrollAdjustmentStatusEnum = {
+  PENDING: 'PENDING',
+  APPLIED: 'APPLIED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type PayrollAdjustmentStatusEnum = (typeof PayrollAdjustmentStatusEnum)[keyof typeof PayrollAdjustmentStatusEnum]
+
+
+export const PayrollPausePolicyEnum = {
+  EXTEND: 'EXTEND',
+  FORFEIT: 'FORFEIT'
+} as const
+
+export type PayrollPausePolicyEnum = (typeof PayrollPausePolicyEnum)[keyof typeof PayrollPausePolicyEnum]
+
+
+export const PayrollPauseStatusEnum = {
+  SCHEDULED: 'SCHEDULED',
+  ACTIVE: 'ACTIVE',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type PayrollPauseStatusEnum = (typeof PayrollPauseStatusEnum)[keyof typeof PayrollPauseStatusEnum]
+
+
 export const InvoiceTypeEnum = {
   EMPLOYEE: 'EMPLOYEE',
   B2B: 'B2B'
@@ -36,10 +102,30 @@ export const InvoiceTypeEnum = {
 export type InvoiceTypeEnum = (typeof InvoiceTypeEnum)[keyof typeof InvoiceTypeEnum]
 
 
+export const NumberingSequenceTypeEnum = {
+  EMPLOYEE: 'EMPLOYEE',
+  B2B: 'B2B',
+  CREDIT_NOTE: 'CREDIT_NOTE'
+} as const
+
+export type NumberingSequenceTypeEnum = (typeof NumberingSequenceTypeEnum)[keyof typeof NumberingSequenceTypeEnum]
+
+
+export const NumberingResetFrequencyEnum = {
+  NEVER: 'NEVER',
+  YEARLY: 'YEARLY',
+  MONTHLY: 'MONTHLY'
+} as const
+
+export type NumberingResetFrequencyEnum = (typeof NumberingResetFrequencyEnum)[keyof typeof NumberingResetFrequencyEnum]
+
+
 export const InvoiceStatusEnum = {
   DRAFT: 'DRAFT',
+  PENDING_APPROVAL: 'PENDING_APPROVAL',
   SENT: 'SENT',
   REVIEWED: 'REVIEWED',
+  DISPUTED: 'DISPUTED',
   CONFIRMED: 'CONFIRMED',
   CANCELLED: 'CANCELLED',
   PAID: 'PAID',
@@ -50,8 +136,79 @@ export const InvoiceStatusEnum = {
 export type InvoiceStatusEnum = (typeof InvoiceStatusEnum)[keyof typeof InvoiceStatusEnum]
 
 
+export const InvoiceDateFormatEnum = {
+  LOCALE: 'LOCALE',
+  DD_MM_YYYY: 'DD_MM_YYYY',
+  MM_DD_YYYY: 'MM_DD_YYYY',
+  YYYY_MM_DD: 'YYYY_MM_DD'
+} as const
+
+export type InvoiceDateFormatEnum = (typeof InvoiceDateFormatEnum)[keyof typeof InvoiceDateFormatEnum]
+
+
+export const InvoiceCommentTypeEnum = {
+  COMMENT: 'COMMENT',
+  DISPUTE: 'DISPUTE',
+  REVISION: 'REVISION'
+} as const
+
+export type InvoiceCommentTypeEnum = (typeof InvoiceCommentTypeEnum)[keyof typeof InvoiceCommentTypeEnum]
+
+
+export const InvoiceCommentAuthorEnum = {
+  EMPLOYEE: 'EMPLOYEE',
+  COMPANY: 'COMPANY'
+} as const
+
+export type InvoiceCommentAuthorEnum = (typeof InvoiceCommentAuthorEnum)[keyof typeof InvoiceCommentAuthorEnum]
+
+
+export const InvoiceEventActionEnum = {
+  INVOICE_CREATED: 'INVOICE_CREATED',
+  INVOICE_UPDATED: 'INVOICE_UPDATED',
+  INVOICE_SENT: 'INVOICE_SENT',
+  INVOICE_APPROVED: 'INVOICE_APPROVED',
+  INVOICE_REVIEWED: 'INVOICE_REVIEWED',
+  INVOICE_CONFIRMED: 'INVOICE_CONFIRMED',
+  INVOICE_DISPUTED: 'INVOICE_DISPUTED',
+  INVOICE_REVISED: 'INVOICE_REVISED',
+  INVOICE_CANCELLED: 'INVOICE_CANCELLED',
+  INVOICE_OVERDUE: 'INVOICE_OVERDUE',
+  INVOICE_PAID: 'INVOICE_PAID',
+  COMMENT_ADDED: 'COMMENT_ADDED',
+  ITEMS_ADDED: 'ITEMS_ADDED',
+  ITEMS_REPLACED: 'ITEMS_REPLACED',
+  ITEM_UPDATED: 'ITEM_UPDATED',
+  ITEM_DELETED: 'ITEM_DELETED',
+  LATE_FEE_APPLIED: 'LATE_FEE_APPLIED',
+  PAYMENT_CLAIMED: 'PAYMENT_CLAIMED',
+  PAYMENT_CLAIM_REJECTED: 'PAYMENT_CLAIM_REJECTED',
+  REMINDER_SENT: 'REMINDER_SENT',
+  CREDIT_NOTE_ISSUED: 'CREDIT_NOTE_ISSUED',
+  BILL_CREATED: 'BILL_CREATED',
+  BILL_PAYMENT: 'BILL_PAYMENT',
+  BILL_PAID: 'BILL_PAID',
+  BILL_STATUS_UPDATED: 'BILL_STATUS_UPDATED',
+  BILL_CANCELLED: 'BILL_CANCELLED',
+  BILL_OVERDUE: 'BILL_OVERDUE'
+} as const
+
+export type InvoiceEventActionEnum = (typeof InvoiceEventActionEnum)[keyof typeof InvoiceEventActionEnum]
+
+
+export const InvoiceEventActorEnum = {
+  SYSTEM: 'SYSTEM',
+  EMPLOYEE: 'EMPLOYEE',
+  COMPANY: 'COMPANY',
+  PUBLIC: 'PUBLIC'
+} as const
+
+export type InvoiceEventActorEnum = (typeof InvoiceEventActorEnum)[keyof typeof InvoiceEventActorEnum]
+
+
 export const BillStatusEnum = {
   PENDING: 'PENDING',
+  PARTIALLY_PAID: 'PARTIALLY_PAID',
   PAID: 'PAID',
   OVERDUE: 'OVERDUE',
   CANCELLED: 'CANCELLED'
@@ -79,7 +236,8 @@ export type NotificationsStatusEnum = (typeof NotificationsStatusEnum)[keyof typ
 
 
 export const NotificationsTypeEnum = {
-  NOP: 'NOP'
+  NOP: 'NOP',
+  INVOICE_REMINDER: 'INVOICE_REMINDER'
 } as const
 
 export type NotificationsTypeEnum = (typeof NotificationsTypeEnum)[keyof typeof NotificationsTypeEnum]
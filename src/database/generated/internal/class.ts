@@ -20,7 +20,7 @@ const config: runtime.GetPrismaClientConfig = {
   "clientVersion": "7.0.1",
   "engineVersion": "f09f2815f091dbba658cdcd2264306d88bb5bda6",
   "activeProvider": "postgresql",
-  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../generated\"\n  moduleFormat = \"cjs\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel User {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime     @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime     @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n  email     String       @unique @db.VarChar(255)\n  role      UserRoleEnum @default(USER)\n  isActive  Boolean      @default(true) @map(\"is_active\")\n  lastLogin DateTime?    @map(\"last_login\") @db.Timestamp(6)\n\n  teamMembership TeamMember? // 1:1 relationship, each user is a company team member\n  invitedMembers TeamMember[] @relation(\"TeamMemberInviter\")\n\n  @@index([email])\n  @@index([role])\n  @@map(\"users\")\n}\n\nmodel TeamMember {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  firstName      String  @map(\"first_name\") @db.VarChar(100)\n  lastName       String  @map(\"last_name\") @db.VarChar(100)\n  position       String? @db.VarChar(100)\n  profilePicture String? @map(\"profile_picture\") @db.Text\n\n  role     TeamMemberRoleEnum\n  isActive Boolean            @default(true) @map(\"is_active\")\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  userId Int  @unique @map(\"user_id\")\n  user   User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  invitedBy Int?      @map(\"invited_by\")\n  inviter   User?     @relation(\"TeamMemberInviter\", fields: [invitedBy], references: [id])\n  invitedAt DateTime? @map(\"invited_at\") @db.Timestamp(6)\n  joinedAt  DateTime? @map(\"joined_at\") @db.Timestamp(6)\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([role])\n  @@index([userId])\n  @@map(\"team_members\")\n}\n\nmodel Company {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyName        String          @map(\"company_name\") @db.VarChar(255)\n  registrationNumber String          @unique @map(\"registration_number\") @db.VarChar(100)\n  companyType        CompanyTypeEnum @map(\"company_type\")\n  taxId              String?         @map(\"tax_id\") @db.VarChar(100)\n  notificationEmail  String?         @map(\"notification_email\") @db.VarChar(255)\n  ccNotifications    String[]        @map(\"cc_notifications\") @db.VarChar(255)\n\n  country    String  @db.VarChar(100)\n  address1   String  @map(\"address_1\") @db.VarChar(255)\n  address2   String? @map(\"address_2\") @db.VarChar(255)\n  city       String  @db.VarChar(100)\n  postalCode String  @map(\"postal_code\") @db.VarChar(20)\n\n  verificationStatus CompanyVerificationStatusEnum @default(PENDING) @map(\"verification_status\")\n  isActive           Boolean                       @default(true) @map(\"is_active\")\n\n  metadata Json? @db.Json\n\n  teamMembers  TeamMember[]\n  contacts     Employee[]\n  groups       EmployeeGroup[]\n  payrolls     Payroll[]\n  bills        Bill[]\n  invoicesFrom Invoice[]       @relation(\"InvoiceFromCompany\") // B2B invoices where this company is the sender\n  invoicesTo   Invoice[]       @relation(\"InvoiceToCompany\") // B2B invoices where this company is the recipient\n  paymentLinks PaymentLink[]\n\n  @@index([registrationNumber])\n  @@index([companyName])\n  @@index([verificationStatus])\n  @@map(\"companies\")\n}\n\nmodel Employee {\n  id   Int    @id() @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  name          String      @db.VarChar\n  walletAddress String      @db.VarChar\n  email         String      @db.VarChar\n  token         Json        @db.Json\n  network       Json        @db.Json\n  gender        GenderEnum? @default(PREFER_NOT_TO_SAY) @map(\"gender\")\n  nationality   String?     @map(\"nationality\") @db.VarChar(100)\n  taxId         String?     @map(\"tax_id\")\n\n  address    String? @map(\"address\") @db.VarChar(255)\n  city       String? @db.VarChar(100)\n  country    String? @db.VarChar(100)\n  postalCode String? @map(\"postal_code\") @db.VarChar(20)\n\n  order   Int           @default(autoincrement())\n  groupId Int           @map(\"groupId\")\n  group   EmployeeGroup @relation(fields: [groupId], references: [id], onDelete: Cascade, onUpdate: NoAction)\n\n  payrolls Payroll[]\n  invoices Invoice[] @relation(\"InvoiceEmployee\")\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([groupId])\n  @@index([email])\n  @@map(\"employees\")\n}\n\nmodel EmployeeGroup {\n  id   Int    @id() @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @map(\"updated_at\") @db.Timestamp(6)\n\n  name  String            @db.VarChar\n  shape CategoryShapeEnum @default(CIRCLE)\n  color String            @db.VarChar\n  order Int               @default(autoincrement())\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  employees Employee[]\n\n  @@unique([companyId, name])\n  @@index([companyId])\n  @@index([order])\n  @@map(\"employee_groups\")\n}\n\nmodel Payroll {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId  Int      @map(\"company_id\")\n  company    Company  @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  employeeId Int      @map(\"employee_id\")\n  employee   Employee @relation(fields: [employeeId], references: [id], onDelete: Cascade)\n\n  network Json   @db.Json\n  token   Json   @db.Json\n  amount  String @db.VarChar(50)\n\n  contractTerm       ContractTermEnum\n  payrollCycle       Int               @map(\"payroll_cycle\")\n  currentCycleNumber Int               @default(0) @map(\"current_cycle_number\")\n  paydayDay          Int               @map(\"payday_day\")\n  joiningDate        DateTime          @map(\"joining_date\") @db.Timestamp(6)\n  payStartDate       DateTime          @map(\"pay_start_date\") @db.Timestamp(6)\n  payEndDate         DateTime          @map(\"pay_end_date\") @db.Timestamp(6)\n  description        String            @map(\"description\") @db.Text // the item description\n  status             PayrollStatusEnum @default(ACTIVE)\n\n  note     String? @db.Text\n  metadata Json?   @db.Json\n\n  invoices         Invoice[]\n  invoiceSchedules InvoiceSchedule[]\n\n  @@index([companyId])\n  @@index([employeeId])\n  @@index([status])\n  @@index([payStartDate])\n  @@index([payEndDate])\n  @@map(\"payrolls\")\n}\n\nmodel Invoice {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  // Invoice Type and Numbering\n  invoiceType   InvoiceTypeEnum @default(EMPLOYEE) @map(\"invoice_type\")\n  invoiceNumber String          @map(\"invoice_number\") @db.VarChar(50)\n  issueDate     DateTime        @map(\"issue_date\") @db.Timestamp(6)\n  dueDate       DateTime        @map(\"due_date\") @db.Timestamp(6)\n\n  // Auto-generation settings (for scheduled invoices)\n  isAutoGenerated           Boolean   @default(false) @map(\"is_auto_generated\")\n  autoGenerateFromPayrollId Int?      @map(\"auto_generate_from_payroll_id\")\n  nextAutoGenerateDate      DateTime? @map(\"next_auto_generate_date\") @db.Timestamp(6)\n\n  // FROM: Employee or Company (sender)\n  // For EMPLOYEE invoices: from = employee, to = company\n  // For B2B invoices: from = company, to = company\n  payrollId  Int?      @map(\"payroll_id\")\n  payroll    Payroll?  @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n  employeeId Int?      @map(\"employee_id\")\n  employee   Employee? @relation(\"InvoiceEmployee\", fields: [employeeId], references: [id], onDelete: Cascade)\n\n  fromCompanyId Int?     @map(\"from_company_id\")\n  fromCompany   Company? @relation(\"InvoiceFromCompany\", fields: [fromCompanyId], references: [id], onDelete: Cascade)\n\n  // TO: Company (recipient)\n  // Can be registered company OR unregistered company\n  toCompanyId Int?     @map(\"to_company_id\")\n  toCompany   Company? @relation(\"InvoiceToCompany\", fields: [toCompanyId], references: [id], onDelete: Cascade)\n\n  // Unregistered company details (when toCompanyId is null)\n  toCompanyName        String? @map(\"to_company_name\") @db.VarChar(255)\n  toCompanyEmail       String? @map(\"to_company_email\") @db.VarChar(255)\n  toCompanyAddress     String? @map(\"to_company_address\") @db.Text\n  toCompanyTaxId       String? @map(\"to_company_tax_id\") @db.VarChar(100)\n  toCompanyContactName String? @map(\"to_company_contact_name\") @db.VarChar(255)\n  toCompanyMetadata    Json?   @map(\"to_company_metadata\") @db.Json\n\n  // Email Configuration\n  emailTo      String   @map(\"email_to\") @db.VarChar(255) // Primary recipient\n  emailCc      String[] @map(\"email_cc\") @db.VarChar(255) // CC recipients\n  emailBcc     String[] @map(\"email_bcc\") @db.VarChar(255) // BCC recipients\n  emailSubject String?  @map(\"email_subject\") @db.VarChar(500)\n  emailBody    String?  @map(\"email_body\") @db.Text\n\n  // Invoice Details (flexible JSON for additional sender/recipient info)\n  fromDetails Json? @map(\"from_details\") @db.Json // Sender details (employee or company)\n  toDetails   Json? @map(\"to_details\") @db.Json // Recipient details (company)\n\n  // Financial Details\n  subtotal  String @db.VarChar(50)\n  taxRate   String @db.VarChar(10) // Percentage as string\n  taxAmount String @db.VarChar(50)\n  discount  String @default(\"0.00\") @db.VarChar(50) // Discount amount\n  total     String @db.VarChar(50)\n  currency  String @default(\"USD\") @db.VarChar(10) // Currency code\n\n  paymentNetwork       Json   @map(\"payment_network\") @db.Json\n  paymentToken         Json   @map(\"payment_token\") @db.Json\n  paymentWalletAddress String @map(\"payment_wallet_address\") @db.VarChar(255)\n\n  // Status and Workflow\n  status InvoiceStatusEnum @default(DRAFT)\n\n  // Timeline tracking\n  sentAt      DateTime? @map(\"sent_at\") @db.Timestamp(6)\n  reviewedAt  DateTime? @map(\"reviewed_at\") @db.Timestamp(6)\n  confirmedAt DateTime? @map(\"confirmed_at\") @db.Timestamp(6)\n  paidAt      DateTime? @map(\"paid_at\") @db.Timestamp(6)\n\n  // Relations\n  items InvoiceItem[]\n  bill  Bill?\n\n  // Additional metadata\n  metadata Json? @db.Json\n  memo     Json? @map(\"memo\") @db.Json\n  footer   Json? @map(\"footer\") @db.Json\n  terms    Json? @map(\"terms\") @db.Json // Payment terms, conditions, etc.\n\n  @@index([payrollId])\n  @@index([employeeId])\n  @@index([fromCompanyId])\n  @@index([toCompanyId])\n  @@index([invoiceType])\n  @@index([status])\n  @@index([invoiceNumber])\n  @@index([dueDate])\n  @@index([isAutoGenerated])\n  @@index([autoGenerateFromPayrollId])\n  @@index([nextAutoGenerateDate])\n  @@map(\"invoices\")\n}\n\nmodel InvoiceItem {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  // Item details\n  description String  @db.Text\n  quantity    String  @db.VarChar(50) // Store as string for precision\n  unitPrice   String  @db.VarChar(50) // Price per unit\n  unit        String? @db.VarChar(50) // Unit of measurement (e.g., \"hours\", \"items\", \"months\")\n  taxRate     String  @default(\"0.00\") @db.VarChar(10) // Tax rate for this item\n  discount    String  @default(\"0.00\") @db.VarChar(50) // Discount amount for this item\n  total       String  @db.VarChar(50) // Total for this line item (quantity * unitPrice - discount + tax)\n\n  // Ordering\n  order Int @default(0) // Display order\n\n  // Additional metadata\n  metadata Json? @db.Json\n\n  @@index([invoiceId])\n  @@index([order])\n  @@map(\"invoice_items\")\n}\n\nmodel InvoiceSchedule {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  // Link to payroll (for employee invoices)\n  payrollId Int     @map(\"payroll_id\")\n  payroll   Payroll @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  // Schedule configuration\n  isActive           Boolean @default(true) @map(\"is_active\")\n  frequency          String  @db.VarChar(50) // \"MONTHLY\", \"WEEKLY\", \"BIWEEKLY\", \"QUARTERLY\", etc.\n  dayOfMonth         Int?    @map(\"day_of_month\") // For monthly: day of month (1-31)\n  dayOfWeek          Int?    @map(\"day_of_week\") // For weekly: day of week (0-6, Sunday=0)\n  generateDaysBefore Int     @default(0) @map(\"generate_days_before\") // Generate X days before due date\n\n  // Next generation date\n  nextGenerateDate DateTime? @map(\"next_generate_date\") @db.Timestamp(6)\n  lastGeneratedAt  DateTime? @map(\"last_generated_at\") @db.Timestamp(6)\n\n  // Invoice template settings\n  invoiceTemplate Json? @map(\"invoice_template\") @db.Json // Template for auto-generated invoices\n\n  // Metadata\n  metadata Json? @db.Json\n\n  @@index([payrollId])\n  @@index([isActive])\n  @@index([nextGenerateDate])\n  @@map(\"invoice_schedules\")\n}\n\nmodel Bill {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  invoiceId Int     @unique @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  status BillStatusEnum @default(PENDING)\n\n  paidAt          DateTime? @map(\"paid_at\") @db.Timestamp(6)\n  transactionHash String?   @map(\"transaction_hash\") @db.VarChar(100)\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([status])\n  @@index([invoiceId])\n  @@map(\"bills\")\n}\n\nmodel PaymentLink {\n  id                   Int                   @id() @default(autoincrement())\n  uuid                 String                @unique @default(cuid()) @map(\"uuid\")\n  code                 String                @unique() @map(\"code\") @db.VarChar\n  createdAt            DateTime              @map(\"created_at\") @db.Timestamp(6)\n  updatedAt            DateTime              @map(\"updated_at\") @db.Timestamp(6)\n  title                String                @db.VarChar\n  description          String                @db.VarChar\n  amount               String                @db.VarChar\n  status               PaymentLinkStatusEnum @default(ACTIVE)\n  order                Int                   @default(autoincrement())\n  companyId            Int                   @map(\"company_id\")\n  company              Company               @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  records              PaymentLinkRecord[]\n  paymentWalletAddress String                @map(\"payment_wallet_address\") @db.VarChar\n  acceptedTokens       Json                  @map(\"accepted_tokens\")\n  acceptedChains       Json?                 @map(\"accepted_chains\")\n\n  @@index([code])\n  @@index([companyId])\n  @@index([order])\n  @@map(\"payment_link\")\n}\n\nmodel PaymentLinkRecord {\n  id            Int         @id() @default(autoincrement())\n  uuid          String      @unique @default(cuid()) @map(\"uuid\")\n  createdAt     DateTime    @map(\"created_at\") @db.Timestamp(6)\n  updatedAt     DateTime    @map(\"updated_at\") @db.Timestamp(6)\n  payer         String      @db.VarChar\n  txid          String?     @map(\"txid\") @db.VarChar\n  paymentLinkId Int         @map(\"payment_link_id\")\n  PaymentLink   PaymentLink @relation(fields: [paymentLinkId], references: [id])\n  token         Json?\n  chain         Json?\n\n  @@map(\"payment_link_record\")\n}\n\nmodel Notifications {\n  id            Int                     @id() @default(autoincrement())\n  createdAt     DateTime                @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt     DateTime                @default(now()) @map(\"updated_at\") @db.Timestamp(6)\n  title         String\n  message       String?\n  type          NotificationsTypeEnum\n  status        NotificationsStatusEnum @default(UNREAD)\n  metadata      Json?\n  actionUrl     String?                 @map(\"action_url\") @db.VarChar\n  walletAddress String                  @map(\"wallet_address\") @db.VarChar\n  readAt        DateTime?               @map(\"read_at\") @db.Timestamp(6)\n\n  @@index([status])\n  @@index([type])\n  @@index([walletAddress])\n  @@index([walletAddress, createdAt])\n  @@index([walletAddress, status])\n  @@map(\"notifications\")\n}\n\nenum ContractTermEnum {\n  PERMANENT\n  CONTRACTOR\n}\n\nenum PayrollStatusEnum {\n  ACTIVE\n  PAUSED\n  COMPLETED\n  CANCELLED\n  DELETED\n}\n\nenum InvoiceTypeEnum {\n  EMPLOYEE // Employee <> Employer invoice (linked to payroll)\n  B2B // Business to Business invoice (company <> company)\n}\n\nenum InvoiceStatusEnum {\n  DRAFT\n  SENT\n  REVIEWED\n  CONFIRMED\n  CANCELLED\n  PAID\n  OVERDUE\n  DELETED\n}\n\nenum BillStatusEnum {\n  PENDING\n  PAID\n  OVERDUE\n  CANCELLED\n}\n\nenum CategoryShapeEnum {\n  CIRCLE\n  DIAMOND\n  SQUARE\n  TRIANGLE\n}\n\nenum NotificationsStatusEnum {\n  UNREAD\n  READ\n}\n\nenum NotificationsTypeEnum {\n  NOP\n}\n\nenum PaymentLinkStatusEnum {\n  ACTIVE\n  DEACTIVATED\n}\n\nenum CompanyTypeEnum {\n  SOLE_PROPRIETORSHIP\n  PARTNERSHIP\n  LLP\n  LLC\n  PRIVATE_LIMITED_COMPANY\n  CORPORATION\n  PUBLIC_LIMITED_COMPANY\n  NON_PROFIT\n  OTHER\n}\n\nenum CompanyVerificationStatusEnum {\n  PENDING\n  UNDER_REVIEW\n  VERIFIED\n  REJECTED\n  SUSPENDED\n}\n\nenum TeamMemberRoleEnum {\n  OWNER\n  ADMIN\n  VIEWER\n}\n\nenum UserRoleEnum {\n  USER\n  ADMIN\n}\n\nenum GenderEnum {\n  MALE\n  FEMALE\n  PREFER_NOT_TO_SAY\n  OTHER\n}\n",
+  "inlineSchema": "generator client {\n  provider     = \"prisma-client\"\n  output       = \"../generated\"\n  moduleFormat = \"cjs\"\n}\n\ndatasource db {\n  provider = \"postgresql\"\n}\n\nmodel User {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime     @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime     @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n  email     String       @unique @db.VarChar(255)\n  role      UserRoleEnum @default(USER)\n  isActive  Boolean      @default(true) @map(\"is_active\")\n  lastLogin DateTime?    @map(\"last_login\") @db.Timestamp(6)\n\n  teamMembership            TeamMember? // 1:1 relationship, each user is a company team member\n  invitedMembers            TeamMember[]       @relation(\"TeamMemberInviter\")\n  approvedPayrollAmendments PayrollAmendment[] @relation(\"PayrollAmendmentApprover\")\n  invoiceApprovals          InvoiceApproval[]\n\n  @@index([email])\n  @@index([role])\n  @@map(\"users\")\n}\n\nmodel TeamMember {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  firstName      String  @map(\"first_name\") @db.VarChar(100)\n  lastName       String  @map(\"last_name\") @db.VarChar(100)\n  position       String? @db.VarChar(100)\n  profilePicture String? @map(\"profile_picture\") @db.Text\n\n  role     TeamMemberRoleEnum\n  isActive Boolean            @default(true) @map(\"is_active\")\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  userId Int  @unique @map(\"user_id\")\n  user   User @relation(fields: [userId], references: [id], onDelete: Cascade)\n\n  invitedBy Int?      @map(\"invited_by\")\n  inviter   User?     @relation(\"TeamMemberInviter\", fields: [invitedBy], references: [id])\n  invitedAt DateTime? @map(\"invited_at\") @db.Timestamp(6)\n  joinedAt  DateTime? @map(\"joined_at\") @db.Timestamp(6)\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([role])\n  @@index([userId])\n  @@map(\"team_members\")\n}\n\nmodel Company {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyName        String          @map(\"company_name\") @db.VarChar(255)\n  registrationNumber String          @unique @map(\"registration_number\") @db.VarChar(100)\n  companyType        CompanyTypeEnum @map(\"company_type\")\n  taxId              String?         @map(\"tax_id\") @db.VarChar(100)\n  notificationEmail  String?         @map(\"notification_email\") @db.VarChar(255)\n  ccNotifications    String[]        @map(\"cc_notifications\") @db.VarChar(255)\n\n  invoiceApprovalsRequired Int @default(0) @map(\"invoice_approvals_required\") // approvals needed before auto-generated payroll invoices are sent, 0 disables\n\n  country    String  @db.VarChar(100)\n  address1   String  @map(\"address_1\") @db.VarChar(255)\n  address2   String? @map(\"address_2\") @db.VarChar(255)\n  city       String  @db.VarChar(100)\n  postalCode String  @map(\"postal_code\") @db.VarChar(20)\n\n  verificationStatus CompanyVerificationStatusEnum @default(PENDING) @map(\"verification_status\")\n  isActive           Boolean                       @default(true) @map(\"is_active\")\n\n  metadata Json? @db.Json\n\n  teamMembers  TeamMember[]\n  contacts     Employee[]\n  groups       EmployeeGroup[]\n  payrolls     Payroll[]\n  bills        Bill[]\n  invoicesFrom Invoice[]       @relation(\"InvoiceFromCompany\") // B2B invoices where this company is the sender\n  invoicesTo   Invoice[]       @relation(\"InvoiceToCompany\") // B2B invoices where this company is the recipient\n  paymentLinks PaymentLink[]\n\n  invoiceNumberSequences InvoiceNumberSequence[]\n  numberedInvoices       Invoice[]               @relation(\"InvoiceNumberingCompany\") // invoices numbered from this company's sequences\n  invoiceTemplates       InvoiceTemplate[]\n  taxRates               TaxRate[]\n  invoiceSchedules       InvoiceSchedule[] // recurring B2B invoices\n  dunningRules           DunningRule[]\n  creditNotes            CreditNote[]\n\n  @@index([registrationNumber])\n  @@index([companyName])\n  @@index([verificationStatus])\n  @@map(\"companies\")\n}\n\nmodel Employee {\n  id   Int    @id() @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  name          String      @db.VarChar\n  walletAddress String      @db.VarChar\n  email         String      @db.VarChar\n  token         Json        @db.Json\n  network       Json        @db.Json\n  gender        GenderEnum? @default(PREFER_NOT_TO_SAY) @map(\"gender\")\n  nationality   String?     @map(\"nationality\") @db.VarChar(100)\n  taxId         String?     @map(\"tax_id\")\n\n  address    String? @map(\"address\") @db.VarChar(255)\n  city       String? @db.VarChar(100)\n  country    String? @db.VarChar(100)\n  postalCode String? @map(\"postal_code\") @db.VarChar(20)\n\n  order   Int           @default(autoincrement())\n  groupId Int           @map(\"groupId\")\n  group   EmployeeGroup @relation(fields: [groupId], references: [id], onDelete: Cascade, onUpdate: NoAction)\n\n  payrolls Payroll[]\n  invoices Invoice[] @relation(\"InvoiceEmployee\")\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([groupId])\n  @@index([email])\n  @@map(\"employees\")\n}\n\nmodel EmployeeGroup {\n  id   Int    @id() @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @map(\"updated_at\") @db.Timestamp(6)\n\n  name  String            @db.VarChar\n  shape CategoryShapeEnum @default(CIRCLE)\n  color String            @db.VarChar\n  order Int               @default(autoincrement())\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  employees Employee[]\n\n  @@unique([companyId, name])\n  @@index([companyId])\n  @@index([order])\n  @@map(\"employee_groups\")\n}\n\nmodel Payroll {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId  Int      @map(\"company_id\")\n  company    Company  @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  employeeId Int      @map(\"employee_id\")\n  employee   Employee @relation(fields: [employeeId], references: [id], onDelete: Cascade)\n\n  network Json   @db.Json\n  token   Json   @db.Json\n  amount  String @db.VarChar(50)\n\n  contractTerm          ContractTermEnum\n  payFrequency          PayFrequencyEnum    @default(MONTHLY) @map(\"pay_frequency\")\n  payrollCycle          Int                 @map(\"payroll_cycle\")\n  currentCycleNumber    Int                 @default(0) @map(\"current_cycle_number\")\n  paydayDay             Int                 @map(\"payday_day\")\n  joiningDate           DateTime            @map(\"joining_date\") @db.Timestamp(6)\n  payStartDate          DateTime            @map(\"pay_start_date\") @db.Timestamp(6)\n  payEndDate            DateTime            @map(\"pay_end_date\") @db.Timestamp(6)\n  contractEndDate       DateTime?           @map(\"contract_end_date\") @db.Timestamp(6) // last working day, when the contract ends before a payday\n  prorationMethod       ProrationMethodEnum @default(NONE) @map(\"proration_method\")\n  renewalReminderDays   Int                 @default(14) @map(\"renewal_reminder_days\") // days before the final cycle's pay date to remind the company, 0 disables\n  renewalReminderSentAt DateTime?           @map(\"renewal_reminder_sent_at\") @db.Timestamp(6)\n  description           String              @map(\"description\") @db.Text // the item description\n  status                PayrollStatusEnum   @default(ACTIVE)\n  terminatedAt          DateTime?           @map(\"terminated_at\") @db.Timestamp(6) // when the payroll was offboarded\n  terminationReason     String?             @map(\"termination_reason\") @db.Text\n\n  note     String? @db.Text\n  metadata Json?   @db.Json\n\n  invoices         Invoice[]\n  invoiceSchedules InvoiceSchedule[]\n  amendments       PayrollAmendment[]\n  adjustments      PayrollAdjustment[]\n  payoutSplits     PayrollPayoutSplit[]\n  pauses           PayrollPause[]\n\n  @@index([companyId])\n  @@index([employeeId])\n  @@index([status])\n  @@index([payStartDate])\n  @@index([payEndDate])\n  @@map(\"payrolls\")\n}\n\nmodel PayrollAmendment {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  payrollId Int     @map(\"payroll_id\")\n  payroll   Payroll @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  // New terms, in force for pay dates on or after the effective date\n  amount  String @db.VarChar(50)\n  token   Json   @db.Json\n  network Json   @db.Json\n\n  // Terms in force right before the effective date\n  previousAmount  String @map(\"previous_amount\") @db.VarChar(50)\n  previousToken   Json   @map(\"previous_token\") @db.Json\n  previousNetwork Json   @map(\"previous_network\") @db.Json\n\n  effectiveDate DateTime @map(\"effective_date\") @db.Timestamp(6)\n  reason        String   @db.Text\n\n  approvedById Int?  @map(\"approved_by_id\")\n  approvedBy   User? @relation(\"PayrollAmendmentApprover\", fields: [approvedById], references: [id], onDelete: SetNull)\n\n  metadata Json? @db.Json\n\n  @@index([payrollId])\n  @@index([effectiveDate])\n  @@map(\"payroll_amendments\")\n}\n\nmodel PayrollPause {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  payrollId Int     @map(\"payroll_id\")\n  payroll   Payroll @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  startDate DateTime               @map(\"start_date\") @db.Timestamp(6)\n  endDate   DateTime?              @map(\"end_date\") @db.Timestamp(6) // null until resumed manually\n  policy    PayrollPausePolicyEnum @default(EXTEND) // what happens to the cycles paid during the pause\n  status    PayrollPauseStatusEnum @default(SCHEDULED)\n  reason    String?                @db.Text\n\n  skippedCycles Int       @default(0) @map(\"skipped_cycles\") // cycles skipped once the pause ended\n  startedAt     DateTime? @map(\"started_at\") @db.Timestamp(6)\n  endedAt       DateTime? @map(\"ended_at\") @db.Timestamp(6)\n\n  @@index([payrollId])\n  @@index([status])\n  @@index([startDate])\n  @@index([endDate])\n  @@map(\"payroll_pauses\")\n}\n\nmodel PayrollAdjustment {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  payrollId Int     @map(\"payroll_id\")\n  payroll   Payroll @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  type        PayrollAdjustmentTypeEnum\n  description String                    @db.Text\n  amount      String                    @db.VarChar(50) // always positive, deductions are subtracted from the invoice\n  cycleNumber Int                       @map(\"cycle_number\") // 1-based payroll cycle the adjustment is paid with\n\n  status    PayrollAdjustmentStatusEnum @default(PENDING)\n  invoiceId Int?                        @map(\"invoice_id\") // invoice the adjustment was added to\n  invoice   Invoice?                    @relation(fields: [invoiceId], references: [id], onDelete: SetNull)\n  appliedAt DateTime?                   @map(\"applied_at\") @db.Timestamp(6)\n\n  metadata Json? @db.Json\n\n  @@index([payrollId])\n  @@index([status])\n  @@index([cycleNumber])\n  @@index([invoiceId])\n  @@map(\"payroll_adjustments\")\n}\n\nmodel PayrollPayoutSplit {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  payrollId Int     @map(\"payroll_id\")\n  payroll   Payroll @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  type          PayoutSplitTypeEnum\n  value         String              @db.VarChar(50) // percentage of the invoice total, or fixed amount\n  token         Json                @db.Json\n  network       Json                @db.Json\n  walletAddress String?             @map(\"wallet_address\") @db.VarChar(255) // defaults to the employee wallet\n  order         Int                 @default(0)\n\n  @@index([payrollId])\n  @@map(\"payroll_payout_splits\")\n}\n\nmodel Invoice {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  // Invoice Type and Numbering\n  invoiceType   InvoiceTypeEnum @default(EMPLOYEE) @map(\"invoice_type\")\n  invoiceNumber String          @map(\"invoice_number\") @db.VarChar(50)\n  issueDate     DateTime        @map(\"issue_date\") @db.Timestamp(6)\n  dueDate       DateTime        @map(\"due_date\") @db.Timestamp(6)\n\n  // Company whose numbering sequence issued the number, numbers are unique per company.\n  // Null for per-payroll numbers issued while the company has no sequence, these are not covered by the unique index.\n  numberingCompanyId Int?     @map(\"numbering_company_id\")\n  numberingCompany   Company? @relation(\"InvoiceNumberingCompany\", fields: [numberingCompanyId], references: [id], onDelete: Cascade)\n\n  // Pay date of the payroll cycle the invoice pays, each cycle is invoiced once\n  payDate DateTime? @map(\"pay_date\") @db.Timestamp(6)\n\n  // Auto-generation settings (for scheduled invoices)\n  isAutoGenerated           Boolean   @default(false) @map(\"is_auto_generated\")\n  autoGenerateFromPayrollId Int?      @map(\"auto_generate_from_payroll_id\")\n  nextAutoGenerateDate      DateTime? @map(\"next_auto_generate_date\") @db.Timestamp(6)\n\n  // FROM: Employee or Company (sender)\n  // For EMPLOYEE invoices: from = employee, to = company\n  // For B2B invoices: from = company, to = company\n  payrollId  Int?      @map(\"payroll_id\")\n  payroll    Payroll?  @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n  employeeId Int?      @map(\"employee_id\")\n  employee   Employee? @relation(\"InvoiceEmployee\", fields: [employeeId], references: [id], onDelete: Cascade)\n\n  fromCompanyId Int?     @map(\"from_company_id\")\n  fromCompany   Company? @relation(\"InvoiceFromCompany\", fields: [fromCompanyId], references: [id], onDelete: Cascade)\n\n  // TO: Company (recipient)\n  // Can be registered company OR unregistered company\n  toCompanyId Int?     @map(\"to_company_id\")\n  toCompany   Company? @relation(\"InvoiceToCompany\", fields: [toCompanyId], references: [id], onDelete: Cascade)\n\n  // Unregistered company details (when toCompanyId is null)\n  toCompanyName        String? @map(\"to_company_name\") @db.VarChar(255)\n  toCompanyEmail       String? @map(\"to_company_email\") @db.VarChar(255)\n  toCompanyAddress     String? @map(\"to_company_address\") @db.Text\n  toCompanyTaxId       String? @map(\"to_company_tax_id\") @db.VarChar(100)\n  toCompanyContactName String? @map(\"to_company_contact_name\") @db.VarChar(255)\n  toCompanyMetadata    Json?   @map(\"to_company_metadata\") @db.Json\n\n  // Email Configuration\n  emailTo      String   @map(\"email_to\") @db.VarChar(255) // Primary recipient\n  emailCc      String[] @map(\"email_cc\") @db.VarChar(255) // CC recipients\n  emailBcc     String[] @map(\"email_bcc\") @db.VarChar(255) // BCC recipients\n  emailSubject String?  @map(\"email_subject\") @db.VarChar(500)\n  emailBody    String?  @map(\"email_body\") @db.Text\n\n  // Invoice Details (flexible JSON for additional sender/recipient info)\n  fromDetails Json? @map(\"from_details\") @db.Json // Sender details (employee or company)\n  toDetails   Json? @map(\"to_details\") @db.Json // Recipient details (company)\n\n  // Financial Details\n  subtotal  String @db.VarChar(50)\n  taxRate   String @db.VarChar(10) // Percentage as string\n  taxAmount String @db.VarChar(50)\n  discount  String @default(\"0.00\") @db.VarChar(50) // Discount amount\n  total     String @db.VarChar(50)\n  currency  String @default(\"USD\") @db.VarChar(10) // Currency code\n\n  taxBreakdown Json? @map(\"tax_breakdown\") @db.Json // total of each tax over the items\n\n  paymentNetwork       Json   @map(\"payment_network\") @db.Json\n  paymentToken         Json   @map(\"payment_token\") @db.Json\n  paymentWalletAddress String @map(\"payment_wallet_address\") @db.VarChar(255)\n  paymentSplits        Json?  @map(\"payment_splits\") @db.Json // payouts per token, network and wallet when the payroll splits the salary\n\n  // Structured payment terms: net days, early payment discount and late fee\n  paymentTerms         Json?     @map(\"payment_terms\") @db.Json\n  earlyPaymentDiscount String    @default(\"0.00\") @map(\"early_payment_discount\") @db.VarChar(50) // discount taken when paid within the discount window\n  lateFeeAppliedAt     DateTime? @map(\"late_fee_applied_at\") @db.Timestamp(6)\n\n  // Public access for recipients that are not on the platform\n  publicToken            String?   @unique @map(\"public_token\") @db.VarChar(64) // unguessable token of the public invoice URL\n  paymentTransactionHash String?   @unique @map(\"payment_transaction_hash\") @db.VarChar(100) // on-chain payment claimed from the public invoice page\n  payerAddress           String?   @map(\"payer_address\") @db.VarChar(255)\n  paymentClaimedAt       DateTime? @map(\"payment_claimed_at\") @db.Timestamp(6) // unverified until the issuer confirms it\n\n  // Status and Workflow\n  status InvoiceStatusEnum @default(DRAFT)\n\n  // Timeline tracking\n  sentAt      DateTime? @map(\"sent_at\") @db.Timestamp(6)\n  approvedAt  DateTime? @map(\"approved_at\") @db.Timestamp(6) // when the last required approval was given\n  reviewedAt  DateTime? @map(\"reviewed_at\") @db.Timestamp(6)\n  disputedAt  DateTime? @map(\"disputed_at\") @db.Timestamp(6) // when the employee last disputed the invoice\n  confirmedAt DateTime? @map(\"confirmed_at\") @db.Timestamp(6)\n  paidAt      DateTime? @map(\"paid_at\") @db.Timestamp(6)\n\n  // Relations\n  items              InvoiceItem[]\n  bill               Bill?\n  payrollAdjustments PayrollAdjustment[]\n  approvals          InvoiceApproval[]\n  creditNotes        CreditNote[]\n  comments           InvoiceComment[]\n  reminders          InvoiceReminder[]\n  attachments        InvoiceAttachment[]\n  events             InvoiceEvent[]\n\n  // Additional metadata\n  metadata Json? @db.Json\n  memo     Json? @map(\"memo\") @db.Json\n  footer   Json? @map(\"footer\") @db.Json\n  terms    Json? @map(\"terms\") @db.Json // Payment terms, conditions, etc.\n\n  @@unique([numberingCompanyId, invoiceNumber])\n  @@unique([payrollId, payDate])\n  @@index([payrollId])\n  @@index([employeeId])\n  @@index([fromCompanyId])\n  @@index([toCompanyId])\n  @@index([invoiceType])\n  @@index([status])\n  @@index([invoiceNumber])\n  @@index([dueDate])\n  @@index([isAutoGenerated])\n  @@index([autoGenerateFromPayrollId])\n  @@index([nextAutoGenerateDate])\n  @@map(\"invoices\")\n}\n\nmodel InvoiceNumberSequence {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  type           NumberingSequenceTypeEnum\n  prefix         String                      @default(\"INV\") @db.VarChar(20)\n  format         String                      @default(\"{PREFIX}-{SEQ}\") @db.VarChar(100) // tokens: {PREFIX}, {YYYY}, {YY}, {MM}, {SEQ}\n  padding        Int                         @default(4) // zero padding of {SEQ}\n  nextNumber     Int                         @default(1) @map(\"next_number\")\n  resetFrequency NumberingResetFrequencyEnum @default(NEVER) @map(\"reset_frequency\")\n  periodKey      String?                     @map(\"period_key\") @db.VarChar(10) // period the next number belongs to (e.g. \"2026\" or \"2026-03\") when the sequence resets\n\n  @@unique([companyId, type])\n  @@index([companyId])\n  @@map(\"invoice_number_sequences\")\n}\n\nmodel TaxRate {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  name        String  @db.VarChar(50) // e.g. \"VAT\", \"GST\"\n  rate        String  @db.VarChar(10) // Percentage as string\n  description String? @db.VarChar(255)\n  isCompound  Boolean @default(false) @map(\"is_compound\") // applied on the amount including the other taxes\n  isDefault   Boolean @default(false) @map(\"is_default\") // applied to items created without taxes of their own\n\n  @@index([companyId])\n  @@map(\"tax_rates\")\n}\n\nmodel InvoiceTemplate {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  name        String                @db.VarChar(100)\n  logoUrl     String?               @map(\"logo_url\") @db.VarChar(500)\n  accentColor String                @default(\"#007bff\") @map(\"accent_color\") @db.VarChar(7) // hex colour of titles, table headers and totals\n  footer      String?               @db.Text // used when the invoice has no footer of its own\n  terms       String?               @db.Text // used when the invoice has no terms of its own\n  locale      String                @default(\"en-US\") @db.VarChar(20) // BCP 47 locale of the dates\n  dateFormat  InvoiceDateFormatEnum @default(LOCALE) @map(\"date_format\")\n\n  // Template applied to the company's invoices of each type, at most one per type\n  isEmployeeDefault Boolean @default(false) @map(\"is_employee_default\")\n  isB2BDefault      Boolean @default(false) @map(\"is_b2b_default\")\n\n  @@index([companyId])\n  @@map(\"invoice_templates\")\n}\n\nmodel CreditNote {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  // Credited invoice and the company that issued it\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  creditNoteNumber String   @map(\"credit_note_number\") @db.VarChar(50)\n  issueDate        DateTime @map(\"issue_date\") @db.Timestamp(6)\n  reason           String?  @db.Text\n\n  items    Json   @db.Json // credited lines: description, quantity, unit price and amount\n  amount   String @db.VarChar(50) // credited amount, deducted from the outstanding balance of the invoice\n  currency String @default(\"USD\") @db.VarChar(10)\n\n  metadata Json? @db.Json\n\n  @@unique([companyId, creditNoteNumber])\n  @@index([invoiceId])\n  @@index([companyId])\n  @@map(\"credit_notes\")\n}\n\nmodel InvoiceComment {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  type        InvoiceCommentTypeEnum   @default(COMMENT)\n  authorType  InvoiceCommentAuthorEnum @map(\"author_type\")\n  authorEmail String                   @map(\"author_email\") @db.VarChar(255)\n  message     String                   @db.Text\n\n  proposedChanges Json? @map(\"proposed_changes\") @db.Json // corrections proposed by the employee when disputing\n\n  @@index([invoiceId])\n  @@map(\"invoice_comments\")\n}\n\nmodel InvoiceAttachment {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n  billId    Int?    @map(\"bill_id\") // set for the documents the paying company attached to its bill\n  bill      Bill?   @relation(fields: [billId], references: [id], onDelete: Cascade)\n\n  fileName        String @map(\"file_name\") @db.VarChar(255)\n  contentType     String @map(\"content_type\") @db.VarChar(100)\n  size            Int // in bytes\n  storageKey      String @unique @map(\"storage_key\") @db.VarChar(500) // key of the file in the attachment storage\n  uploadedByEmail String @map(\"uploaded_by_email\") @db.VarChar(255)\n\n  @@index([invoiceId])\n  @@index([billId])\n  @@map(\"invoice_attachments\")\n}\n\nmodel InvoiceEvent {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n  billId    Int?    @map(\"bill_id\") // set for the events of the bill\n  bill      Bill?   @relation(fields: [billId], references: [id], onDelete: Cascade)\n\n  action     InvoiceEventActionEnum\n  actorType  InvoiceEventActorEnum  @map(\"actor_type\")\n  actorEmail String?                @map(\"actor_email\") @db.VarChar(255) // null for system events\n\n  changes  Json? @db.Json // changed fields, { field: { before, after } }\n  metadata Json? @db.Json\n\n  @@index([invoiceId])\n  @@index([billId])\n  @@map(\"invoice_events\")\n}\n\nmodel DunningRule {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  offsetDays Int     @map(\"offset_days\") // days from the due date: negative before, 0 on the due date, positive overdue\n  isActive   Boolean @default(true) @map(\"is_active\")\n  message    String? @db.Text // added to the reminder email\n\n  @@unique([companyId, offsetDays])\n  @@index([companyId])\n  @@map(\"dunning_rules\")\n}\n\nmodel InvoiceReminder {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  offsetDays    Int     @map(\"offset_days\") // dunning step the reminder was sent for\n  sentTo        String  @map(\"sent_to\") @db.VarChar(255)\n  amountDue     String  @map(\"amount_due\") @db.VarChar(50)\n  isFinalNotice Boolean @default(false) @map(\"is_final_notice\")\n\n  @@unique([invoiceId, offsetDays])\n  @@index([invoiceId])\n  @@map(\"invoice_reminders\")\n}\n\nmodel InvoiceApproval {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  approvedById Int      @map(\"approved_by_id\")\n  approvedBy   User     @relation(fields: [approvedById], references: [id], onDelete: Cascade)\n  approvedAt   DateTime @default(now()) @map(\"approved_at\") @db.Timestamp(6)\n\n  @@unique([invoiceId, approvedById])\n  @@index([invoiceId])\n  @@index([approvedById])\n  @@map(\"invoice_approvals\")\n}\n\nmodel InvoiceItem {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceId Int     @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  // Item details\n  description String  @db.Text\n  quantity    String  @db.VarChar(50) // Store as string for precision\n  unitPrice   String  @db.VarChar(50) // Price per unit\n  unit        String? @db.VarChar(50) // Unit of measurement (e.g., \"hours\", \"items\", \"months\")\n  taxRate     String  @default(\"0.00\") @db.VarChar(10) // Combined tax rate for this item\n  discount    String  @default(\"0.00\") @db.VarChar(50) // Discount amount for this item\n  total       String  @db.VarChar(50) // Total for this line item (quantity * unitPrice - discount + tax)\n\n  // Taxes\n  taxes          Json?   @db.Json // taxes applied to the item with their amounts, null for items taxed with the taxRate only\n  isTaxExempt    Boolean @default(false) @map(\"is_tax_exempt\")\n  isTaxInclusive Boolean @default(false) @map(\"is_tax_inclusive\") // the unit price includes the taxes\n\n  // Ordering\n  order Int @default(0) // Display order\n\n  // Additional metadata\n  metadata Json? @db.Json\n\n  @@index([invoiceId])\n  @@index([order])\n  @@map(\"invoice_items\")\n}\n\nmodel InvoiceSchedule {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  invoiceType InvoiceTypeEnum @default(EMPLOYEE) @map(\"invoice_type\")\n\n  // Link to payroll (for employee invoices)\n  payrollId Int?     @map(\"payroll_id\")\n  payroll   Payroll? @relation(fields: [payrollId], references: [id], onDelete: Cascade)\n\n  // Issuing company (for B2B invoices, the recipient, items and terms are in the invoice template)\n  companyId Int?     @map(\"company_id\")\n  company   Company? @relation(fields: [companyId], references: [id], onDelete: Cascade)\n\n  // B2B recurrence: invoices are issued from the start date until the end date or the occurrence limit\n  startDate       DateTime? @map(\"start_date\") @db.Timestamp(6)\n  endDate         DateTime? @map(\"end_date\") @db.Timestamp(6)\n  maxOccurrences  Int?      @map(\"max_occurrences\")\n  occurrenceCount Int       @default(0) @map(\"occurrence_count\")\n\n  // Schedule configuration\n  isActive           Boolean @default(true) @map(\"is_active\")\n  frequency          String  @db.VarChar(50) // \"MONTHLY\", \"WEEKLY\", \"BIWEEKLY\", \"SEMI_MONTHLY\", \"QUARTERLY\", etc.\n  dayOfMonth         Int?    @map(\"day_of_month\") // For monthly: day of month (1-31)\n  dayOfWeek          Int?    @map(\"day_of_week\") // For weekly: day of week (0-6, Sunday=0)\n  generateDaysBefore Int     @default(0) @map(\"generate_days_before\") // Generate X days before due date\n\n  // Next generation date\n  nextGenerateDate DateTime? @map(\"next_generate_date\") @db.Timestamp(6)\n  lastGeneratedAt  DateTime? @map(\"last_generated_at\") @db.Timestamp(6)\n\n  // Invoice template settings\n  invoiceTemplate Json? @map(\"invoice_template\") @db.Json // Template for auto-generated invoices\n\n  // Metadata\n  metadata Json? @db.Json\n\n  @@index([payrollId])\n  @@index([companyId])\n  @@index([isActive])\n  @@index([nextGenerateDate])\n  @@map(\"invoice_schedules\")\n}\n\nmodel Bill {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  companyId Int     @map(\"company_id\")\n  company   Company @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  invoiceId Int     @unique @map(\"invoice_id\")\n  invoice   Invoice @relation(fields: [invoiceId], references: [id], onDelete: Cascade)\n\n  status BillStatusEnum @default(PENDING)\n\n  paidAt          DateTime? @map(\"paid_at\") @db.Timestamp(6)\n  transactionHash String?   @map(\"transaction_hash\") @db.VarChar(100)\n  creditedAmount  String    @default(\"0.00\") @map(\"credited_amount\") @db.VarChar(50) // total of the credit notes issued against the invoice\n  paidAmount      String    @default(\"0.00\") @map(\"paid_amount\") @db.VarChar(50) // total of the payments recorded on the bill\n\n  payments    BillPayment[]\n  attachments InvoiceAttachment[]\n  events      InvoiceEvent[]\n\n  metadata Json? @db.Json\n\n  @@index([companyId])\n  @@index([status])\n  @@index([invoiceId])\n  @@map(\"bills\")\n}\n\nmodel BillPayment {\n  id   Int    @id @default(autoincrement())\n  uuid String @unique @default(cuid()) @map(\"uuid\")\n\n  createdAt DateTime @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt DateTime @updatedAt @map(\"updated_at\") @db.Timestamp(6)\n\n  billId Int  @map(\"bill_id\")\n  bill   Bill @relation(fields: [billId], references: [id], onDelete: Cascade)\n\n  amount          String   @db.VarChar(50)\n  token           Json?    @db.Json\n  network         Json?    @db.Json\n  transactionHash String?  @map(\"transaction_hash\") @db.VarChar(100)\n  paidAt          DateTime @default(now()) @map(\"paid_at\") @db.Timestamp(6)\n\n  @@index([billId])\n  @@map(\"bill_payments\")\n}\n\nmodel PaymentLink {\n  id                   Int                   @id() @default(autoincrement())\n  uuid                 String                @unique @default(cuid()) @map(\"uuid\")\n  code                 String                @unique() @map(\"code\") @db.VarChar\n  createdAt            DateTime              @map(\"created_at\") @db.Timestamp(6)\n  updatedAt            DateTime              @map(\"updated_at\") @db.Timestamp(6)\n  title                String                @db.VarChar\n  description          String                @db.VarChar\n  amount               String                @db.VarChar\n  status               PaymentLinkStatusEnum @default(ACTIVE)\n  order                Int                   @default(autoincrement())\n  companyId            Int                   @map(\"company_id\")\n  company              Company               @relation(fields: [companyId], references: [id], onDelete: Cascade)\n  records              PaymentLinkRecord[]\n  paymentWalletAddress String                @map(\"payment_wallet_address\") @db.VarChar\n  acceptedTokens       Json                  @map(\"accepted_tokens\")\n  acceptedChains       Json?                 @map(\"accepted_chains\")\n\n  @@index([code])\n  @@index([companyId])\n  @@index([order])\n  @@map(\"payment_link\")\n}\n\nmodel PaymentLinkRecord {\n  id            Int         @id() @default(autoincrement())\n  uuid          String      @unique @default(cuid()) @map(\"uuid\")\n  createdAt     DateTime    @map(\"created_at\") @db.Timestamp(6)\n  updatedAt     DateTime    @map(\"updated_at\") @db.Timestamp(6)\n  payer         String      @db.VarChar\n  txid          String?     @map(\"txid\") @db.VarChar\n  paymentLinkId Int         @map(\"payment_link_id\")\n  PaymentLink   PaymentLink @relation(fields: [paymentLinkId], references: [id])\n  token         Json?\n  chain         Json?\n\n  @@map(\"payment_link_record\")\n}\n\nmodel Notifications {\n  id            Int                     @id() @default(autoincrement())\n  createdAt     DateTime                @default(now()) @map(\"created_at\") @db.Timestamp(6)\n  updatedAt     DateTime                @default(now()) @map(\"updated_at\") @db.Timestamp(6)\n  title         String\n  message       String?\n  type          NotificationsTypeEnum\n  status        NotificationsStatusEnum @default(UNREAD)\n  metadata      Json?\n  actionUrl     String?                 @map(\"action_url\") @db.VarChar\n  walletAddress String                  @map(\"wallet_address\") @db.VarChar\n  readAt        DateTime?               @map(\"read_at\") @db.Timestamp(6)\n\n  @@index([status])\n  @@index([type])\n  @@index([walletAddress])\n  @@index([walletAddress, createdAt])\n  @@index([walletAddress, status])\n  @@map(\"notifications\")\n}\n\nenum ContractTermEnum {\n  PERMANENT\n  CONTRACTOR\n}\n\nenum PayFrequencyEnum {\n  WEEKLY\n  BIWEEKLY\n  SEMI_MONTHLY\n  MONTHLY\n  QUARTERLY\n}\n\nenum ProrationMethodEnum {\n  NONE // always bill the full period amount\n  CALENDAR_DAYS\n  WORKING_DAYS // Monday to Friday\n  THIRTY_360 // 30/360 day count convention\n}\n\nenum PayrollStatusEnum {\n  ACTIVE\n  PAUSED\n  COMPLETED\n  CANCELLED\n  DELETED\n}\n\nenum PayrollAdjustmentTypeEnum {\n  BONUS\n  REIMBURSEMENT\n  ADVANCE_REPAYMENT // deducted from the invoice\n  DEDUCTION // deducted from the invoice\n}\n\nenum PayoutSplitTypeEnum {\n  PERCENTAGE\n  FIXED\n}\n\nenum PayrollAdjustmentStatusEnum {\n  PENDING\n  APPLIED\n  CANCELLED\n}\n\nenum PayrollPausePolicyEnum {\n  EXTEND // skipped cycles are added after the last cycle, pushing the contract end\n  FORFEIT // skipped cycles are not paid, the contract end is unchanged\n}\n\nenum PayrollPauseStatusEnum {\n  SCHEDULED\n  ACTIVE\n  COMPLETED\n  CANCELLED\n}\n\nenum InvoiceTypeEnum {\n  EMPLOYEE // Employee <> Employer invoice (linked to payroll)\n  B2B // Business to Business invoice (company <> company)\n}\n\nenum NumberingSequenceTypeEnum {\n  EMPLOYEE // Employee invoices (linked to payroll)\n  B2B // Business to Business invoices\n  CREDIT_NOTE // Credit notes issued against invoices\n}\n\nenum NumberingResetFrequencyEnum {\n  NEVER\n  YEARLY\n  MONTHLY\n}\n\nenum InvoiceStatusEnum {\n  DRAFT\n  PENDING_APPROVAL\n  SENT\n  REVIEWED\n  DISPUTED\n  CONFIRMED\n  CANCELLED\n  PAID\n  OVERDUE\n  DELETED\n}\n\nenum InvoiceDateFormatEnum {\n  LOCALE // formatted for the template locale\n  DD_MM_YYYY\n  MM_DD_YYYY\n  YYYY_MM_DD\n}\n\nenum InvoiceCommentTypeEnum {\n  COMMENT\n  DISPUTE // the employee disputes the invoice\n  REVISION // the company revises and re-sends the invoice\n}\n\nenum InvoiceCommentAuthorEnum {\n  EMPLOYEE\n  COMPANY\n}\n\nenum InvoiceEventActionEnum {\n  INVOICE_CREATED\n  INVOICE_UPDATED\n  INVOICE_SENT\n  INVOICE_APPROVED\n  INVOICE_REVIEWED\n  INVOICE_CONFIRMED\n  INVOICE_DISPUTED\n  INVOICE_REVISED\n  INVOICE_CANCELLED\n  INVOICE_OVERDUE\n  INVOICE_PAID\n  COMMENT_ADDED\n  ITEMS_ADDED\n  ITEMS_REPLACED\n  ITEM_UPDATED\n  ITEM_DELETED\n  LATE_FEE_APPLIED\n  PAYMENT_CLAIMED // paid from the public invoice page, waiting for the issuer\n  PAYMENT_CLAIM_REJECTED\n  REMINDER_SENT // dunning reminder\n  CREDIT_NOTE_ISSUED\n  BILL_CREATED\n  BILL_PAYMENT\n  BILL_PAID\n  BILL_STATUS_UPDATED\n  BILL_CANCELLED\n  BILL_OVERDUE\n}\n\nenum InvoiceEventActorEnum {\n  SYSTEM // scheduled jobs and automatic processes\n  EMPLOYEE\n  COMPANY\n  PUBLIC // unregistered recipient on the public invoice page\n}\n\nenum BillStatusEnum {\n  PENDING\n  PARTIALLY_PAID\n  PAID\n  OVERDUE\n  CANCELLED\n}\n\nenum CategoryShapeEnum {\n  CIRCLE\n  DIAMOND\n  SQUARE\n  TRIANGLE\n}\n\nenum NotificationsStatusEnum {\n  UNREAD\n  READ\n}\n\nenum NotificationsTypeEnum {\n  NOP\n  INVOICE_REMINDER\n}\n\nenum PaymentLinkStatusEnum {\n  ACTIVE\n  DEACTIVATED\n}\n\nenum CompanyTypeEnum {\n  SOLE_PROPRIETORSHIP\n  PARTNERSHIP\n  LLP\n  LLC\n  PRIVATE_LIMITED_COMPANY\n  CORPORATION\n  PUBLIC_LIMITED_COMPANY\n  NON_PROFIT\n  OTHER\n}\n\nenum CompanyVerificationStatusEnum {\n  PENDING\n  UNDER_REVIEW\n  VERIFIED\n  REJECTED\n  SUSPENDED\n}\n\nenum TeamMemberRoleEnum {\n  OWNER\n  ADMIN\n  VIEWER\n}\n\nenum UserRoleEnum {\n  USER\n  ADMIN\n}\n\nenum GenderEnum {\n  MALE\n  FEMALE\n  PREFER_NOT_TO_SAY\n  OTHER\n}\n",
   "runtimeDataModel": {
     "models": {},
     "enums": {},
@@ -28,7 +28,7 @@ const config: runtime.GetPrismaClientConfig = {
   }
 }
 
-config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRoleEnum\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_login\"},{\"name\":\"teamMembership\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"TeamMemberToUser\"},{\"name\":\"invitedMembers\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"TeamMemberInviter\"}],\"dbName\":\"users\"},\"TeamMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"first_name\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"last_name\"},{\"name\":\"position\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profilePicture\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"profile_picture\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"TeamMemberRoleEnum\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToTeamMember\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TeamMemberToUser\"},{\"name\":\"invitedBy\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invited_by\"},{\"name\":\"inviter\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TeamMemberInviter\"},{\"name\":\"invitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"invited_at\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"joined_at\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"team_members\"},\"Company\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"company_name\"},{\"name\":\"registrationNumber\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"registration_number\"},{\"name\":\"companyType\",\"kind\":\"enum\",\"type\":\"CompanyTypeEnum\",\"dbName\":\"company_type\"},{\"name\":\"taxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tax_id\"},{\"name\":\"notificationEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"notification_email\"},{\"name\":\"ccNotifications\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"cc_notifications\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address1\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address_1\"},{\"name\":\"address2\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address_2\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"postalCode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"postal_code\"},{\"name\":\"verificationStatus\",\"kind\":\"enum\",\"type\":\"CompanyVerificationStatusEnum\",\"dbName\":\"verification_status\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"teamMembers\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"CompanyToTeamMember\"},{\"name\":\"contacts\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"CompanyToEmployee\"},{\"name\":\"groups\",\"kind\":\"object\",\"type\":\"EmployeeGroup\",\"relationName\":\"CompanyToEmployeeGroup\"},{\"name\":\"payrolls\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"CompanyToPayroll\"},{\"name\":\"bills\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToCompany\"},{\"name\":\"invoicesFrom\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceFromCompany\"},{\"name\":\"invoicesTo\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToCompany\"},{\"name\":\"paymentLinks\",\"kind\":\"object\",\"type\":\"PaymentLink\",\"relationName\":\"CompanyToPaymentLink\"}],\"dbName\":\"companies\"},\"Employee\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToEmployee\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"gender\",\"kind\":\"enum\",\"type\":\"GenderEnum\",\"dbName\":\"gender\"},{\"name\":\"nationality\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"nationality\"},{\"name\":\"taxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tax_id\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"postalCode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"postal_code\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"groupId\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"EmployeeGroup\",\"relationName\":\"EmployeeToEmployeeGroup\"},{\"name\":\"payrolls\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"EmployeeToPayroll\"},{\"name\":\"invoices\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceEmployee\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"employees\"},\"EmployeeGroup\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shape\",\"kind\":\"enum\",\"type\":\"CategoryShapeEnum\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToEmployeeGroup\"},{\"name\":\"employees\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"EmployeeToEmployeeGroup\"}],\"dbName\":\"employee_groups\"},\"Payroll\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToPayroll\"},{\"name\":\"employeeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"employee_id\"},{\"name\":\"employee\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"EmployeeToPayroll\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractTerm\",\"kind\":\"enum\",\"type\":\"ContractTermEnum\"},{\"name\":\"payrollCycle\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_cycle\"},{\"name\":\"currentCycleNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"current_cycle_number\"},{\"name\":\"paydayDay\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payday_day\"},{\"name\":\"joiningDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"joining_date\"},{\"name\":\"payStartDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"pay_start_date\"},{\"name\":\"payEndDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"pay_end_date\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"description\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayrollStatusEnum\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"invoices\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToPayroll\"},{\"name\":\"invoiceSchedules\",\"kind\":\"object\",\"type\":\"InvoiceSchedule\",\"relationName\":\"InvoiceScheduleToPayroll\"}],\"dbName\":\"payrolls\"},\"Invoice\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceType\",\"kind\":\"enum\",\"type\":\"InvoiceTypeEnum\",\"dbName\":\"invoice_type\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"invoice_number\"},{\"name\":\"issueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"issue_date\"},{\"name\":\"dueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"due_date\"},{\"name\":\"isAutoGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_auto_generated\"},{\"name\":\"autoGenerateFromPayrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"auto_generate_from_payroll_id\"},{\"name\":\"nextAutoGenerateDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_auto_generate_date\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"InvoiceToPayroll\"},{\"name\":\"employeeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"employee_id\"},{\"name\":\"employee\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"InvoiceEmployee\"},{\"name\":\"fromCompanyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"from_company_id\"},{\"name\":\"fromCompany\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"InvoiceFromCompany\"},{\"name\":\"toCompanyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"to_company_id\"},{\"name\":\"toCompany\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"InvoiceToCompany\"},{\"name\":\"toCompanyName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_name\"},{\"name\":\"toCompanyEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_email\"},{\"name\":\"toCompanyAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_address\"},{\"name\":\"toCompanyTaxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_tax_id\"},{\"name\":\"toCompanyContactName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_contact_name\"},{\"name\":\"toCompanyMetadata\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"to_company_metadata\"},{\"name\":\"emailTo\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_to\"},{\"name\":\"emailCc\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_cc\"},{\"name\":\"emailBcc\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_bcc\"},{\"name\":\"emailSubject\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_subject\"},{\"name\":\"emailBody\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_body\"},{\"name\":\"fromDetails\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"from_details\"},{\"name\":\"toDetails\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"to_details\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxRate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"paymentNetwork\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_network\"},{\"name\":\"paymentToken\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_token\"},{\"name\":\"paymentWalletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payment_wallet_address\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceStatusEnum\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"sent_at\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"reviewed_at\"},{\"name\":\"confirmedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"confirmed_at\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"paid_at\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"bill\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToInvoice\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"memo\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"memo\"},{\"name\":\"footer\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"footer\"},{\"name\":\"terms\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"terms\"}],\"dbName\":\"invoices\"},\"InvoiceItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxRate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"invoice_items\"},\"InvoiceSchedule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"InvoiceScheduleToPayroll\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"frequency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dayOfMonth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"day_of_month\"},{\"name\":\"dayOfWeek\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"day_of_week\"},{\"name\":\"generateDaysBefore\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"generate_days_before\"},{\"name\":\"nextGenerateDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_generate_date\"},{\"name\":\"lastGeneratedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_generated_at\"},{\"name\":\"invoiceTemplate\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"invoice_template\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"invoice_schedules\"},\"Bill\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"BillToCompany\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"BillToInvoice\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BillStatusEnum\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"paid_at\"},{\"name\":\"transactionHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_hash\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"bills\"},\"PaymentLink\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"code\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentLinkStatusEnum\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToPaymentLink\"},{\"name\":\"records\",\"kind\":\"object\",\"type\":\"PaymentLinkRecord\",\"relationName\":\"PaymentLinkToPaymentLinkRecord\"},{\"name\":\"paymentWalletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payment_wallet_address\"},{\"name\":\"acceptedTokens\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"accepted_tokens\"},{\"name\":\"acceptedChains\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"accepted_chains\"}],\"dbName\":\"payment_link\"},\"PaymentLinkRecord\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"txid\"},{\"name\":\"paymentLinkId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payment_link_id\"},{\"name\":\"PaymentLink\",\"kind\":\"object\",\"type\":\"PaymentLink\",\"relationName\":\"PaymentLinkToPaymentLinkRecord\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"chain\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"payment_link_record\"},\"Notifications\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationsTypeEnum\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NotificationsStatusEnum\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"actionUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"action_url\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"wallet_address\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"read_at\"}],\"dbName\":\"notifications\"}},\"enums\":{},\"types\":{}}")
+config.runtimeDataModel = JSON.parse("{\"models\":{\"User\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"UserRoleEnum\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"lastLogin\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_login\"},{\"name\":\"teamMembership\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"TeamMemberToUser\"},{\"name\":\"invitedMembers\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"TeamMemberInviter\"},{\"name\":\"approvedPayrollAmendments\",\"kind\":\"object\",\"type\":\"PayrollAmendment\",\"relationName\":\"PayrollAmendmentApprover\"},{\"name\":\"invoiceApprovals\",\"kind\":\"object\",\"type\":\"InvoiceApproval\",\"relationName\":\"InvoiceApprovalToUser\"}],\"dbName\":\"users\"},\"TeamMember\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"firstName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"first_name\"},{\"name\":\"lastName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"last_name\"},{\"name\":\"position\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"profilePicture\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"profile_picture\"},{\"name\":\"role\",\"kind\":\"enum\",\"type\":\"TeamMemberRoleEnum\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToTeamMember\"},{\"name\":\"userId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"user_id\"},{\"name\":\"user\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TeamMemberToUser\"},{\"name\":\"invitedBy\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invited_by\"},{\"name\":\"inviter\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"TeamMemberInviter\"},{\"name\":\"invitedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"invited_at\"},{\"name\":\"joinedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"joined_at\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"team_members\"},\"Company\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"company_name\"},{\"name\":\"registrationNumber\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"registration_number\"},{\"name\":\"companyType\",\"kind\":\"enum\",\"type\":\"CompanyTypeEnum\",\"dbName\":\"company_type\"},{\"name\":\"taxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tax_id\"},{\"name\":\"notificationEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"notification_email\"},{\"name\":\"ccNotifications\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"cc_notifications\"},{\"name\":\"invoiceApprovalsRequired\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_approvals_required\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"address1\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address_1\"},{\"name\":\"address2\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address_2\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"postalCode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"postal_code\"},{\"name\":\"verificationStatus\",\"kind\":\"enum\",\"type\":\"CompanyVerificationStatusEnum\",\"dbName\":\"verification_status\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"teamMembers\",\"kind\":\"object\",\"type\":\"TeamMember\",\"relationName\":\"CompanyToTeamMember\"},{\"name\":\"contacts\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"CompanyToEmployee\"},{\"name\":\"groups\",\"kind\":\"object\",\"type\":\"EmployeeGroup\",\"relationName\":\"CompanyToEmployeeGroup\"},{\"name\":\"payrolls\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"CompanyToPayroll\"},{\"name\":\"bills\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToCompany\"},{\"name\":\"invoicesFrom\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceFromCompany\"},{\"name\":\"invoicesTo\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToCompany\"},{\"name\":\"paymentLinks\",\"kind\":\"object\",\"type\":\"PaymentLink\",\"relationName\":\"CompanyToPaymentLink\"},{\"name\":\"invoiceNumberSequences\",\"kind\":\"object\",\"type\":\"InvoiceNumberSequence\",\"relationName\":\"CompanyToInvoiceNumberSequence\"},{\"name\":\"numberedInvoices\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceNumberingCompany\"},{\"name\":\"invoiceTemplates\",\"kind\":\"object\",\"type\":\"InvoiceTemplate\",\"relationName\":\"CompanyToInvoiceTemplate\"},{\"name\":\"taxRates\",\"kind\":\"object\",\"type\":\"TaxRate\",\"relationName\":\"CompanyToTaxRate\"},{\"name\":\"invoiceSchedules\",\"kind\":\"object\",\"type\":\"InvoiceSchedule\",\"relationName\":\"CompanyToInvoiceSchedule\"},{\"name\":\"dunningRules\",\"kind\":\"object\",\"type\":\"DunningRule\",\"relationName\":\"CompanyToDunningRule\"},{\"name\":\"creditNotes\",\"kind\":\"object\",\"type\":\"CreditNote\",\"relationName\":\"CompanyToCreditNote\"}],\"dbName\":\"companies\"},\"Employee\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToEmployee\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"email\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"gender\",\"kind\":\"enum\",\"type\":\"GenderEnum\",\"dbName\":\"gender\"},{\"name\":\"nationality\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"nationality\"},{\"name\":\"taxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"tax_id\"},{\"name\":\"address\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"address\"},{\"name\":\"city\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"country\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"postalCode\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"postal_code\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"groupId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"groupId\"},{\"name\":\"group\",\"kind\":\"object\",\"type\":\"EmployeeGroup\",\"relationName\":\"EmployeeToEmployeeGroup\"},{\"name\":\"payrolls\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"EmployeeToPayroll\"},{\"name\":\"invoices\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceEmployee\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"employees\"},\"EmployeeGroup\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"shape\",\"kind\":\"enum\",\"type\":\"CategoryShapeEnum\"},{\"name\":\"color\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToEmployeeGroup\"},{\"name\":\"employees\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"EmployeeToEmployeeGroup\"}],\"dbName\":\"employee_groups\"},\"Payroll\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToPayroll\"},{\"name\":\"employeeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"employee_id\"},{\"name\":\"employee\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"EmployeeToPayroll\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"contractTerm\",\"kind\":\"enum\",\"type\":\"ContractTermEnum\"},{\"name\":\"payFrequency\",\"kind\":\"enum\",\"type\":\"PayFrequencyEnum\",\"dbName\":\"pay_frequency\"},{\"name\":\"payrollCycle\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_cycle\"},{\"name\":\"currentCycleNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"current_cycle_number\"},{\"name\":\"paydayDay\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payday_day\"},{\"name\":\"joiningDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"joining_date\"},{\"name\":\"payStartDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"pay_start_date\"},{\"name\":\"payEndDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"pay_end_date\"},{\"name\":\"contractEndDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"contract_end_date\"},{\"name\":\"prorationMethod\",\"kind\":\"enum\",\"type\":\"ProrationMethodEnum\",\"dbName\":\"proration_method\"},{\"name\":\"renewalReminderDays\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"renewal_reminder_days\"},{\"name\":\"renewalReminderSentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"renewal_reminder_sent_at\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"description\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayrollStatusEnum\"},{\"name\":\"terminatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"terminated_at\"},{\"name\":\"terminationReason\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"termination_reason\"},{\"name\":\"note\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"invoices\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToPayroll\"},{\"name\":\"invoiceSchedules\",\"kind\":\"object\",\"type\":\"InvoiceSchedule\",\"relationName\":\"InvoiceScheduleToPayroll\"},{\"name\":\"amendments\",\"kind\":\"object\",\"type\":\"PayrollAmendment\",\"relationName\":\"PayrollToPayrollAmendment\"},{\"name\":\"adjustments\",\"kind\":\"object\",\"type\":\"PayrollAdjustment\",\"relationName\":\"PayrollToPayrollAdjustment\"},{\"name\":\"payoutSplits\",\"kind\":\"object\",\"type\":\"PayrollPayoutSplit\",\"relationName\":\"PayrollToPayrollPayoutSplit\"},{\"name\":\"pauses\",\"kind\":\"object\",\"type\":\"PayrollPause\",\"relationName\":\"PayrollToPayrollPause\"}],\"dbName\":\"payrolls\"},\"PayrollAmendment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"PayrollToPayrollAmendment\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"previousAmount\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"previous_amount\"},{\"name\":\"previousToken\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"previous_token\"},{\"name\":\"previousNetwork\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"previous_network\"},{\"name\":\"effectiveDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"effective_date\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"approvedById\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"approved_by_id\"},{\"name\":\"approvedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"PayrollAmendmentApprover\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"payroll_amendments\"},\"PayrollPause\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"PayrollToPayrollPause\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"start_date\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"end_date\"},{\"name\":\"policy\",\"kind\":\"enum\",\"type\":\"PayrollPausePolicyEnum\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayrollPauseStatusEnum\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"skippedCycles\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"skipped_cycles\"},{\"name\":\"startedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"started_at\"},{\"name\":\"endedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"ended_at\"}],\"dbName\":\"payroll_pauses\"},\"PayrollAdjustment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"PayrollToPayrollAdjustment\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PayrollAdjustmentTypeEnum\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"cycleNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"cycle_number\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PayrollAdjustmentStatusEnum\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToPayrollAdjustment\"},{\"name\":\"appliedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"applied_at\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"payroll_adjustments\"},\"PayrollPayoutSplit\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"PayrollToPayrollPayoutSplit\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"PayoutSplitTypeEnum\"},{\"name\":\"value\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"wallet_address\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"}],\"dbName\":\"payroll_payout_splits\"},\"Invoice\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceType\",\"kind\":\"enum\",\"type\":\"InvoiceTypeEnum\",\"dbName\":\"invoice_type\"},{\"name\":\"invoiceNumber\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"invoice_number\"},{\"name\":\"issueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"issue_date\"},{\"name\":\"dueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"due_date\"},{\"name\":\"numberingCompanyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"numbering_company_id\"},{\"name\":\"numberingCompany\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"InvoiceNumberingCompany\"},{\"name\":\"payDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"pay_date\"},{\"name\":\"isAutoGenerated\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_auto_generated\"},{\"name\":\"autoGenerateFromPayrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"auto_generate_from_payroll_id\"},{\"name\":\"nextAutoGenerateDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_auto_generate_date\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"InvoiceToPayroll\"},{\"name\":\"employeeId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"employee_id\"},{\"name\":\"employee\",\"kind\":\"object\",\"type\":\"Employee\",\"relationName\":\"InvoiceEmployee\"},{\"name\":\"fromCompanyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"from_company_id\"},{\"name\":\"fromCompany\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"InvoiceFromCompany\"},{\"name\":\"toCompanyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"to_company_id\"},{\"name\":\"toCompany\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"InvoiceToCompany\"},{\"name\":\"toCompanyName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_name\"},{\"name\":\"toCompanyEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_email\"},{\"name\":\"toCompanyAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_address\"},{\"name\":\"toCompanyTaxId\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_tax_id\"},{\"name\":\"toCompanyContactName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"to_company_contact_name\"},{\"name\":\"toCompanyMetadata\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"to_company_metadata\"},{\"name\":\"emailTo\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_to\"},{\"name\":\"emailCc\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_cc\"},{\"name\":\"emailBcc\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_bcc\"},{\"name\":\"emailSubject\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_subject\"},{\"name\":\"emailBody\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"email_body\"},{\"name\":\"fromDetails\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"from_details\"},{\"name\":\"toDetails\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"to_details\"},{\"name\":\"subtotal\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxRate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxAmount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxBreakdown\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"tax_breakdown\"},{\"name\":\"paymentNetwork\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_network\"},{\"name\":\"paymentToken\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_token\"},{\"name\":\"paymentWalletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payment_wallet_address\"},{\"name\":\"paymentSplits\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_splits\"},{\"name\":\"paymentTerms\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"payment_terms\"},{\"name\":\"earlyPaymentDiscount\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"early_payment_discount\"},{\"name\":\"lateFeeAppliedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"late_fee_applied_at\"},{\"name\":\"publicToken\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"public_token\"},{\"name\":\"paymentTransactionHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payment_transaction_hash\"},{\"name\":\"payerAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payer_address\"},{\"name\":\"paymentClaimedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"payment_claimed_at\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"InvoiceStatusEnum\"},{\"name\":\"sentAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"sent_at\"},{\"name\":\"approvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"approved_at\"},{\"name\":\"reviewedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"reviewed_at\"},{\"name\":\"disputedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"disputed_at\"},{\"name\":\"confirmedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"confirmed_at\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"paid_at\"},{\"name\":\"items\",\"kind\":\"object\",\"type\":\"InvoiceItem\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"bill\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToInvoice\"},{\"name\":\"payrollAdjustments\",\"kind\":\"object\",\"type\":\"PayrollAdjustment\",\"relationName\":\"InvoiceToPayrollAdjustment\"},{\"name\":\"approvals\",\"kind\":\"object\",\"type\":\"InvoiceApproval\",\"relationName\":\"InvoiceToInvoiceApproval\"},{\"name\":\"creditNotes\",\"kind\":\"object\",\"type\":\"CreditNote\",\"relationName\":\"CreditNoteToInvoice\"},{\"name\":\"comments\",\"kind\":\"object\",\"type\":\"InvoiceComment\",\"relationName\":\"InvoiceToInvoiceComment\"},{\"name\":\"reminders\",\"kind\":\"object\",\"type\":\"InvoiceReminder\",\"relationName\":\"InvoiceToInvoiceReminder\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"InvoiceAttachment\",\"relationName\":\"InvoiceToInvoiceAttachment\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"InvoiceEvent\",\"relationName\":\"InvoiceToInvoiceEvent\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"memo\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"memo\"},{\"name\":\"footer\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"footer\"},{\"name\":\"terms\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"terms\"}],\"dbName\":\"invoices\"},\"InvoiceNumberSequence\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToInvoiceNumberSequence\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NumberingSequenceTypeEnum\"},{\"name\":\"prefix\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"format\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"padding\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"nextNumber\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"next_number\"},{\"name\":\"resetFrequency\",\"kind\":\"enum\",\"type\":\"NumberingResetFrequencyEnum\",\"dbName\":\"reset_frequency\"},{\"name\":\"periodKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"period_key\"}],\"dbName\":\"invoice_number_sequences\"},\"TaxRate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToTaxRate\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"rate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"isCompound\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_compound\"},{\"name\":\"isDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_default\"}],\"dbName\":\"tax_rates\"},\"InvoiceTemplate\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToInvoiceTemplate\"},{\"name\":\"name\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"logoUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"logo_url\"},{\"name\":\"accentColor\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"accent_color\"},{\"name\":\"footer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"terms\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"locale\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dateFormat\",\"kind\":\"enum\",\"type\":\"InvoiceDateFormatEnum\",\"dbName\":\"date_format\"},{\"name\":\"isEmployeeDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_employee_default\"},{\"name\":\"isB2BDefault\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_b2b_default\"}],\"dbName\":\"invoice_templates\"},\"CreditNote\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"CreditNoteToInvoice\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToCreditNote\"},{\"name\":\"creditNoteNumber\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"credit_note_number\"},{\"name\":\"issueDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"issue_date\"},{\"name\":\"reason\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"items\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"currency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"credit_notes\"},\"InvoiceComment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceComment\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"InvoiceCommentTypeEnum\"},{\"name\":\"authorType\",\"kind\":\"enum\",\"type\":\"InvoiceCommentAuthorEnum\",\"dbName\":\"author_type\"},{\"name\":\"authorEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"author_email\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"proposedChanges\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"proposed_changes\"}],\"dbName\":\"invoice_comments\"},\"InvoiceAttachment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceAttachment\"},{\"name\":\"billId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bill_id\"},{\"name\":\"bill\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToInvoiceAttachment\"},{\"name\":\"fileName\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"file_name\"},{\"name\":\"contentType\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"content_type\"},{\"name\":\"size\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"storageKey\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"storage_key\"},{\"name\":\"uploadedByEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uploaded_by_email\"}],\"dbName\":\"invoice_attachments\"},\"InvoiceEvent\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceEvent\"},{\"name\":\"billId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bill_id\"},{\"name\":\"bill\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToInvoiceEvent\"},{\"name\":\"action\",\"kind\":\"enum\",\"type\":\"InvoiceEventActionEnum\"},{\"name\":\"actorType\",\"kind\":\"enum\",\"type\":\"InvoiceEventActorEnum\",\"dbName\":\"actor_type\"},{\"name\":\"actorEmail\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"actor_email\"},{\"name\":\"changes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"invoice_events\"},\"DunningRule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToDunningRule\"},{\"name\":\"offsetDays\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"offset_days\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"}],\"dbName\":\"dunning_rules\"},\"InvoiceReminder\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceReminder\"},{\"name\":\"offsetDays\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"offset_days\"},{\"name\":\"sentTo\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"sent_to\"},{\"name\":\"amountDue\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"amount_due\"},{\"name\":\"isFinalNotice\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_final_notice\"}],\"dbName\":\"invoice_reminders\"},\"InvoiceApproval\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceApproval\"},{\"name\":\"approvedById\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"approved_by_id\"},{\"name\":\"approvedBy\",\"kind\":\"object\",\"type\":\"User\",\"relationName\":\"InvoiceApprovalToUser\"},{\"name\":\"approvedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"approved_at\"}],\"dbName\":\"invoice_approvals\"},\"InvoiceItem\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"InvoiceToInvoiceItem\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"quantity\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unitPrice\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"unit\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxRate\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"discount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"total\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"taxes\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"isTaxExempt\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_tax_exempt\"},{\"name\":\"isTaxInclusive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_tax_inclusive\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"invoice_items\"},\"InvoiceSchedule\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"invoiceType\",\"kind\":\"enum\",\"type\":\"InvoiceTypeEnum\",\"dbName\":\"invoice_type\"},{\"name\":\"payrollId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payroll_id\"},{\"name\":\"payroll\",\"kind\":\"object\",\"type\":\"Payroll\",\"relationName\":\"InvoiceScheduleToPayroll\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToInvoiceSchedule\"},{\"name\":\"startDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"start_date\"},{\"name\":\"endDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"end_date\"},{\"name\":\"maxOccurrences\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"max_occurrences\"},{\"name\":\"occurrenceCount\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"occurrence_count\"},{\"name\":\"isActive\",\"kind\":\"scalar\",\"type\":\"Boolean\",\"dbName\":\"is_active\"},{\"name\":\"frequency\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"dayOfMonth\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"day_of_month\"},{\"name\":\"dayOfWeek\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"day_of_week\"},{\"name\":\"generateDaysBefore\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"generate_days_before\"},{\"name\":\"nextGenerateDate\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"next_generate_date\"},{\"name\":\"lastGeneratedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"last_generated_at\"},{\"name\":\"invoiceTemplate\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"invoice_template\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"invoice_schedules\"},\"Bill\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"BillToCompany\"},{\"name\":\"invoiceId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"invoice_id\"},{\"name\":\"invoice\",\"kind\":\"object\",\"type\":\"Invoice\",\"relationName\":\"BillToInvoice\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"BillStatusEnum\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"paid_at\"},{\"name\":\"transactionHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_hash\"},{\"name\":\"creditedAmount\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"credited_amount\"},{\"name\":\"paidAmount\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"paid_amount\"},{\"name\":\"payments\",\"kind\":\"object\",\"type\":\"BillPayment\",\"relationName\":\"BillToBillPayment\"},{\"name\":\"attachments\",\"kind\":\"object\",\"type\":\"InvoiceAttachment\",\"relationName\":\"BillToInvoiceAttachment\"},{\"name\":\"events\",\"kind\":\"object\",\"type\":\"InvoiceEvent\",\"relationName\":\"BillToInvoiceEvent\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"bills\"},\"BillPayment\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"billId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"bill_id\"},{\"name\":\"bill\",\"kind\":\"object\",\"type\":\"Bill\",\"relationName\":\"BillToBillPayment\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"network\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"transactionHash\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"transaction_hash\"},{\"name\":\"paidAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"paid_at\"}],\"dbName\":\"bill_payments\"},\"PaymentLink\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"code\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"code\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"description\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"amount\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"PaymentLinkStatusEnum\"},{\"name\":\"order\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"companyId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"company_id\"},{\"name\":\"company\",\"kind\":\"object\",\"type\":\"Company\",\"relationName\":\"CompanyToPaymentLink\"},{\"name\":\"records\",\"kind\":\"object\",\"type\":\"PaymentLinkRecord\",\"relationName\":\"PaymentLinkToPaymentLinkRecord\"},{\"name\":\"paymentWalletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"payment_wallet_address\"},{\"name\":\"acceptedTokens\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"accepted_tokens\"},{\"name\":\"acceptedChains\",\"kind\":\"scalar\",\"type\":\"Json\",\"dbName\":\"accepted_chains\"}],\"dbName\":\"payment_link\"},\"PaymentLinkRecord\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"uuid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"uuid\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"payer\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"txid\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"txid\"},{\"name\":\"paymentLinkId\",\"kind\":\"scalar\",\"type\":\"Int\",\"dbName\":\"payment_link_id\"},{\"name\":\"PaymentLink\",\"kind\":\"object\",\"type\":\"PaymentLink\",\"relationName\":\"PaymentLinkToPaymentLinkRecord\"},{\"name\":\"token\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"chain\",\"kind\":\"scalar\",\"type\":\"Json\"}],\"dbName\":\"payment_link_record\"},\"Notifications\":{\"fields\":[{\"name\":\"id\",\"kind\":\"scalar\",\"type\":\"Int\"},{\"name\":\"createdAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"created_at\"},{\"name\":\"updatedAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"updated_at\"},{\"name\":\"title\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"message\",\"kind\":\"scalar\",\"type\":\"String\"},{\"name\":\"type\",\"kind\":\"enum\",\"type\":\"NotificationsTypeEnum\"},{\"name\":\"status\",\"kind\":\"enum\",\"type\":\"NotificationsStatusEnum\"},{\"name\":\"metadata\",\"kind\":\"scalar\",\"type\":\"Json\"},{\"name\":\"actionUrl\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"action_url\"},{\"name\":\"walletAddress\",\"kind\":\"scalar\",\"type\":\"String\",\"dbName\":\"wallet_address\"},{\"name\":\"readAt\",\"kind\":\"scalar\",\"type\":\"DateTime\",\"dbName\":\"read_at\"}],\"dbName\":\"notifications\"}},\"enums\":{},\"types\":{}}")
 
 async function decodeBase64AsWasm(wasmBase64: string): Promise<WebAssembly.Module> {
   const { Buffer } = await import('node:buffer')
@@ -234,6 +234,46 @@ export interface PrismaClient<
     */
   get payroll(): Prisma.PayrollDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.payrollAmendment`: Exposes CRUD operations for the **PayrollAmendment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PayrollAmendments
+    * const payrollAmendments = await prisma.payrollAmendment.findMany()
+    * ```
+    */
+  get payrollAmendment(): Prisma.PayrollAmendmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.payrollPause`: Exposes CRUD operations for the **PayrollPause** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PayrollPauses
+    * const payrollPauses = await prisma.payrollPause.findMany()
+    * ```
+    */
+  get payrollPause(): Prisma.PayrollPauseDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.payrollAdjustment`: Exposes CRUD operations for the **PayrollAdjustment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PayrollAdjustments
+    * const payrollAdjustments = await prisma.payrollAdjustment.findMany()
+    * ```
+    */
+  get payrollAdjustment(): Prisma.PayrollAdjustmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.payrollPayoutSplit`: Exposes CRUD operations for the **PayrollPayoutSplit** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more PayrollPayoutSplits
+    * const payrollPayoutSplits = await prisma.payrollPayoutSplit.findMany()
+    * ```
+    */
+  get payrollPayoutSplit(): Prisma.PayrollPayoutSplitDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.invoice`: Exposes CRUD operations for the **Invoice** model.
     * Example usage:
@@ -244,6 +284,106 @@ export interface PrismaClient<
     */
   get invoice(): Prisma.InvoiceDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.invoiceNumberSequence`: Exposes CRUD operations for the **InvoiceNumberSequence** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceNumberSequences
+    * const invoiceNumberSequences = await prisma.invoiceNumberSequence.findMany()
+    * ```
+    */
+  get invoiceNumberSequence(): Prisma.InvoiceNumberSequenceDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.taxRate`: Exposes CRUD operations for the **TaxRate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more TaxRates
+    * const taxRates = await prisma.taxRate.findMany()
+    * ```
+    */
+  get taxRate(): Prisma.TaxRateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceTemplate`: Exposes CRUD operations for the **InvoiceTemplate** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceTemplates
+    * const invoiceTemplates = await prisma.invoiceTemplate.findMany()
+    * ```
+    */
+  get invoiceTemplate(): Prisma.InvoiceTemplateDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.creditNote`: Exposes CRUD operations for the **CreditNote** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more CreditNotes
+    * const creditNotes = await prisma.creditNote.findMany()
+    * ```
+    */
+  get creditNote(): Prisma.CreditNoteDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceComment`: Exposes CRUD operations for the **InvoiceComment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceComments
+    * const invoiceComments = await prisma.invoiceComment.findMany()
+    * ```
+    */
+  get invoiceComment(): Prisma.InvoiceCommentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceAttachment`: Exposes CRUD operations for the **InvoiceAttachment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceAttachments
+    * const invoiceAttachments = await prisma.invoiceAttachment.findMany()
+    * ```
+    */
+  get invoiceAttachment(): Prisma.InvoiceAttachmentDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceEvent`: Exposes CRUD operations for the **InvoiceEvent** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceEvents
+    * const invoiceEvents = await prisma.invoiceEvent.findMany()
+    * ```
+    */
+  get invoiceEvent(): Prisma.InvoiceEventDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.dunningRule`: Exposes CRUD operations for the **DunningRule** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more DunningRules
+    * const dunningRules = await prisma.dunningRule.findMany()
+    * ```
+    */
+  get dunningRule(): Prisma.DunningRuleDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceReminder`: Exposes CRUD operations for the **InvoiceReminder** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceReminders
+    * const invoiceReminders = await prisma.invoiceReminder.findMany()
+    * ```
+    */
+  get invoiceReminder(): Prisma.InvoiceReminderDelegate<ExtArgs, { omit: OmitOpts }>;
+
+  /**
+   * `prisma.invoiceApproval`: Exposes CRUD operations for the **InvoiceApproval** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more InvoiceApprovals
+    * const invoiceApprovals = await prisma.invoiceApproval.findMany()
+    * ```
+    */
+  get invoiceApproval(): Prisma.InvoiceApprovalDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.invoiceItem`: Exposes CRUD operations for the **InvoiceItem** model.
     * Example usage:
@@ -274,6 +414,16 @@ export interface PrismaClient<
     */
   get bill(): Prisma.BillDelegate<ExtArgs, { omit: OmitOpts }>;
 
+  /**
+   * `prisma.billPayment`: Exposes CRUD operations for the **BillPayment** model.
+    * Example usage:
+    * ```ts
+    * // Fetch zero or more BillPayments
+    * const billPayments = await prisma.billPayment.findMany()
+    * ```
+    */
+  get billPayment(): Prisma.BillPaymentDelegate<ExtArgs, { omit: OmitOpts }>;
+
   /**
    * `prisma.paymentLink`: Exposes CRUD operations for the **PaymentLink** model.
     * Example usage:
@@ -390,10 +390,25 @@ export const ModelName = {
   Employee: 'Employee',
   EmployeeGroup: 'EmployeeGroup',
   Payroll: 'Payroll',
+  PayrollAmendment: 'PayrollAmendment',
+  PayrollPause: 'PayrollPause',
+  PayrollAdjustment: 'PayrollAdjustment',
+  PayrollPayoutSplit: 'PayrollPayoutSplit',
   Invoice: 'Invoice',
+  InvoiceNumberSequence: 'InvoiceNumberSequence',
+  TaxRate: 'TaxRate',
+  InvoiceTemplate: 'InvoiceTemplate',
+  CreditNote: 'CreditNote',
+  InvoiceComment: 'InvoiceComment',
+  InvoiceAttachment: 'InvoiceAttachment',
+  InvoiceEvent: 'InvoiceEvent',
+  DunningRule: 'DunningRule',
+  InvoiceReminder: 'InvoiceReminder',
+  InvoiceApproval: 'InvoiceApproval',
   InvoiceItem: 'InvoiceItem',
   InvoiceSchedule: 'InvoiceSchedule',
   Bill: 'Bill',
+  BillPayment: 'BillPayment',
   PaymentLink: 'PaymentLink',
   PaymentLinkRecord: 'PaymentLinkRecord',
   Notifications: 'Notifications'
@@ -412,7 +427,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "teamMember" | "company" | "employee" | "employeeGroup" | "payroll" | "invoice" | "invoiceItem" | "invoiceSchedule" | "bill" | "paymentLink" | "paymentLinkRecord" | "notifications"
+    modelProps: "user" | "teamMember" | "company" | "employee" | "employeeGroup" | "payroll" | "payrollAmendment" | "payrollPause" | "payrollAdjustment" | "payrollPayoutSplit" | "invoice" | "invoiceNumberSequence" | "taxRate" | "invoiceTemplate" | "creditNote" | "invoiceComment" | "invoiceAttachment" | "invoiceEvent" | "dunningRule" | "invoiceReminder" | "invoiceApproval" | "invoiceItem" | "invoiceSchedule" | "bill" | "billPayment" | "paymentLink" | "paymentLinkRecord" | "notifications"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -860,77 +875,1113 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    PayrollAmendment: {
+      payload: Prisma.$PayrollAmendmentPayload<ExtArgs>
+      fields: Prisma.PayrollAmendmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PayrollAmendmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PayrollAmendmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        findFirst: {
+          args: Prisma.PayrollAmendmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PayrollAmendmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        findMany: {
+          args: Prisma.PayrollAmendmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>[]
+        }
+        create: {
+          args: Prisma.PayrollAmendmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        createMany: {
+          args: Prisma.PayrollAmendmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PayrollAmendmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>[]
+        }
+        delete: {
+          args: Prisma.PayrollAmendmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        update: {
+          args: Prisma.PayrollAmendmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.PayrollAmendmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PayrollAmendmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PayrollAmendmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.PayrollAmendmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAmendmentPayload>
+        }
+        aggregate: {
+          args: Prisma.PayrollAmendmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePayrollAmendment>
+        }
+        groupBy: {
+          args: Prisma.PayrollAmendmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollAmendmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PayrollAmendmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollAmendmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    PayrollPause: {
+      payload: Prisma.$PayrollPausePayload<ExtArgs>
+      fields: Prisma.PayrollPauseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PayrollPauseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PayrollPauseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        findFirst: {
+          args: Prisma.PayrollPauseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PayrollPauseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        findMany: {
+          args: Prisma.PayrollPauseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>[]
+        }
+        create: {
+          args: Prisma.PayrollPauseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        createMany: {
+          args: Prisma.PayrollPauseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PayrollPauseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>[]
+        }
+        delete: {
+          args: Prisma.PayrollPauseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        update: {
+          args: Prisma.PayrollPauseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        deleteMany: {
+          args: Prisma.PayrollPauseDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PayrollPauseUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PayrollPauseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>[]
+        }
+        upsert: {
+          args: Prisma.PayrollPauseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPausePayload>
+        }
+        aggregate: {
+          args: Prisma.PayrollPauseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePayrollPause>
+        }
+        groupBy: {
+          args: Prisma.PayrollPauseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollPauseGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PayrollPauseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollPauseCountAggregateOutputType> | number
+        }
+      }
+    }
+    PayrollAdjustment: {
+      payload: Prisma.$PayrollAdjustmentPayload<ExtArgs>
+      fields: Prisma.PayrollAdjustmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PayrollAdjustmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PayrollAdjustmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        findFirst: {
+          args: Prisma.PayrollAdjustmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PayrollAdjustmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        findMany: {
+          args: Prisma.PayrollAdjustmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>[]
+        }
+        create: {
+          args: Prisma.PayrollAdjustmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        createMany: {
+          args: Prisma.PayrollAdjustmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PayrollAdjustmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>[]
+        }
+        delete: {
+          args: Prisma.PayrollAdjustmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        update: {
+          args: Prisma.PayrollAdjustmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.PayrollAdjustmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PayrollAdjustmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PayrollAdjustmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.PayrollAdjustmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollAdjustmentPayload>
+        }
+        aggregate: {
+          args: Prisma.PayrollAdjustmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePayrollAdjustment>
+        }
+        groupBy: {
+          args: Prisma.PayrollAdjustmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollAdjustmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PayrollAdjustmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollAdjustmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    PayrollPayoutSplit: {
+      payload: Prisma.$PayrollPayoutSplitPayload<ExtArgs>
+      fields: Prisma.PayrollPayoutSplitFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.PayrollPayoutSplitFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.PayrollPayoutSplitFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        findFirst: {
+          args: Prisma.PayrollPayoutSplitFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.PayrollPayoutSplitFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        findMany: {
+          args: Prisma.PayrollPayoutSplitFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>[]
+        }
+        create: {
+          args: Prisma.PayrollPayoutSplitCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        createMany: {
+          args: Prisma.PayrollPayoutSplitCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.PayrollPayoutSplitCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>[]
+        }
+        delete: {
+          args: Prisma.PayrollPayoutSplitDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        update: {
+          args: Prisma.PayrollPayoutSplitUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        deleteMany: {
+          args: Prisma.PayrollPayoutSplitDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PayrollPayoutSplitUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PayrollPayoutSplitUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>[]
+        }
+        upsert: {
+          args: Prisma.PayrollPayoutSplitUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PayrollPayoutSplitPayload>
+        }
+        aggregate: {
+          args: Prisma.PayrollPayoutSplitAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePayrollPayoutSplit>
+        }
+        groupBy: {
+          args: Prisma.PayrollPayoutSplitGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollPayoutSplitGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PayrollPayoutSplitCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PayrollPayoutSplitCountAggregateOutputType> | number
+        }
+      }
+    }
     Invoice: {
       payload: Prisma.$InvoicePayload<ExtArgs>
       fields: Prisma.InvoiceFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.InvoiceFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+          args: Prisma.InvoiceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        update: {
+          args: Prisma.InvoiceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoice>
+        }
+        groupBy: {
+          args: Prisma.InvoiceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceNumberSequence: {
+      payload: Prisma.$InvoiceNumberSequencePayload<ExtArgs>
+      fields: Prisma.InvoiceNumberSequenceFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceNumberSequenceFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceNumberSequenceFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceNumberSequenceFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceNumberSequenceFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceNumberSequenceFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceNumberSequenceCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceNumberSequenceCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceNumberSequenceCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceNumberSequenceDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        update: {
+          args: Prisma.InvoiceNumberSequenceUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceNumberSequenceDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceNumberSequenceUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceNumberSequenceUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceNumberSequenceUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceNumberSequencePayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceNumberSequenceAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceNumberSequence>
+        }
+        groupBy: {
+          args: Prisma.InvoiceNumberSequenceGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceNumberSequenceGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceNumberSequenceCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceNumberSequenceCountAggregateOutputType> | number
+        }
+      }
+    }
+    TaxRate: {
+      payload: Prisma.$TaxRatePayload<ExtArgs>
+      fields: Prisma.TaxRateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.TaxRateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.TaxRateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        findFirst: {
+          args: Prisma.TaxRateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.TaxRateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        findMany: {
+          args: Prisma.TaxRateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>[]
+        }
+        create: {
+          args: Prisma.TaxRateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        createMany: {
+          args: Prisma.TaxRateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.TaxRateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>[]
+        }
+        delete: {
+          args: Prisma.TaxRateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        update: {
+          args: Prisma.TaxRateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        deleteMany: {
+          args: Prisma.TaxRateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.TaxRateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.TaxRateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>[]
+        }
+        upsert: {
+          args: Prisma.TaxRateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$TaxRatePayload>
+        }
+        aggregate: {
+          args: Prisma.TaxRateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateTaxRate>
+        }
+        groupBy: {
+          args: Prisma.TaxRateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TaxRateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.TaxRateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.TaxRateCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceTemplate: {
+      payload: Prisma.$InvoiceTemplatePayload<ExtArgs>
+      fields: Prisma.InvoiceTemplateFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceTemplateFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceTemplateFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceTemplateFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceTemplateFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceTemplateFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceTemplateCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceTemplateCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceTemplateCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceTemplateDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        update: {
+          args: Prisma.InvoiceTemplateUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceTemplateDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceTemplateUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceTemplateUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceTemplateUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceTemplatePayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceTemplateAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceTemplate>
+        }
+        groupBy: {
+          args: Prisma.InvoiceTemplateGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceTemplateGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceTemplateCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceTemplateCountAggregateOutputType> | number
+        }
+      }
+    }
+    CreditNote: {
+      payload: Prisma.$CreditNotePayload<ExtArgs>
+      fields: Prisma.CreditNoteFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.CreditNoteFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.CreditNoteFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        findFirst: {
+          args: Prisma.CreditNoteFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.CreditNoteFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        findMany: {
+          args: Prisma.CreditNoteFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>[]
+        }
+        create: {
+          args: Prisma.CreditNoteCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        createMany: {
+          args: Prisma.CreditNoteCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.CreditNoteCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>[]
+        }
+        delete: {
+          args: Prisma.CreditNoteDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        update: {
+          args: Prisma.CreditNoteUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        deleteMany: {
+          args: Prisma.CreditNoteDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.CreditNoteUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.CreditNoteUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>[]
+        }
+        upsert: {
+          args: Prisma.CreditNoteUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$CreditNotePayload>
+        }
+        aggregate: {
+          args: Prisma.CreditNoteAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateCreditNote>
+        }
+        groupBy: {
+          args: Prisma.CreditNoteGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CreditNoteGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.CreditNoteCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.CreditNoteCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceComment: {
+      payload: Prisma.$InvoiceCommentPayload<ExtArgs>
+      fields: Prisma.InvoiceCommentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceCommentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceCommentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceCommentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceCommentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceCommentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceCommentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceCommentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceCommentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceCommentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        update: {
+          args: Prisma.InvoiceCommentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceCommentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceCommentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceCommentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceCommentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceCommentPayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceCommentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceComment>
+        }
+        groupBy: {
+          args: Prisma.InvoiceCommentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceCommentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceCommentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceCommentCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceAttachment: {
+      payload: Prisma.$InvoiceAttachmentPayload<ExtArgs>
+      fields: Prisma.InvoiceAttachmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceAttachmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceAttachmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceAttachmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceAttachmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceAttachmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceAttachmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceAttachmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceAttachmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceAttachmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        update: {
+          args: Prisma.InvoiceAttachmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceAttachmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceAttachmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceAttachmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceAttachmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceAttachmentPayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceAttachmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceAttachment>
+        }
+        groupBy: {
+          args: Prisma.InvoiceAttachmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceAttachmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceAttachmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceAttachmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceEvent: {
+      payload: Prisma.$InvoiceEventPayload<ExtArgs>
+      fields: Prisma.InvoiceEventFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceEventFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.InvoiceFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         findFirst: {
-          args: Prisma.InvoiceFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload> | null
+          args: Prisma.InvoiceEventFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.InvoiceFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         findMany: {
-          args: Prisma.InvoiceFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+          args: Prisma.InvoiceEventFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>[]
         }
         create: {
-          args: Prisma.InvoiceCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         createMany: {
-          args: Prisma.InvoiceCreateManyArgs<ExtArgs>
+          args: Prisma.InvoiceEventCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.InvoiceCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+          args: Prisma.InvoiceEventCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>[]
         }
         delete: {
-          args: Prisma.InvoiceDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         update: {
-          args: Prisma.InvoiceUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         deleteMany: {
-          args: Prisma.InvoiceDeleteManyArgs<ExtArgs>
+          args: Prisma.InvoiceEventDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.InvoiceUpdateManyArgs<ExtArgs>
+          args: Prisma.InvoiceEventUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.InvoiceUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>[]
+          args: Prisma.InvoiceEventUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>[]
         }
         upsert: {
-          args: Prisma.InvoiceUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoicePayload>
+          args: Prisma.InvoiceEventUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceEventPayload>
         }
         aggregate: {
-          args: Prisma.InvoiceAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoice>
+          args: Prisma.InvoiceEventAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceEvent>
         }
         groupBy: {
-          args: Prisma.InvoiceGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InvoiceGroupByOutputType>[]
+          args: Prisma.InvoiceEventGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceEventGroupByOutputType>[]
         }
         count: {
-          args: Prisma.InvoiceCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.InvoiceCountAggregateOutputType> | number
+          args: Prisma.InvoiceEventCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceEventCountAggregateOutputType> | number
+        }
+      }
+    }
+    DunningRule: {
+      payload: Prisma.$DunningRulePayload<ExtArgs>
+      fields: Prisma.DunningRuleFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DunningRuleFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DunningRuleFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        findFirst: {
+          args: Prisma.DunningRuleFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DunningRuleFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        findMany: {
+          args: Prisma.DunningRuleFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>[]
+        }
+        create: {
+          args: Prisma.DunningRuleCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        createMany: {
+          args: Prisma.DunningRuleCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DunningRuleCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>[]
+        }
+        delete: {
+          args: Prisma.DunningRuleDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        update: {
+          args: Prisma.DunningRuleUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        deleteMany: {
+          args: Prisma.DunningRuleDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DunningRuleUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DunningRuleUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>[]
+        }
+        upsert: {
+          args: Prisma.DunningRuleUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DunningRulePayload>
+        }
+        aggregate: {
+          args: Prisma.DunningRuleAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDunningRule>
+        }
+        groupBy: {
+          args: Prisma.DunningRuleGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DunningRuleGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DunningRuleCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DunningRuleCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceReminder: {
+      payload: Prisma.$InvoiceReminderPayload<ExtArgs>
+      fields: Prisma.InvoiceReminderFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceReminderFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceReminderFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceReminderFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceReminderFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceReminderFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceReminderCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceReminderCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceReminderCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceReminderDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        update: {
+          args: Prisma.InvoiceReminderUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceReminderDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceReminderUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceReminderUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceReminderUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceReminderPayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceReminderAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceReminder>
+        }
+        groupBy: {
+          args: Prisma.InvoiceReminderGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceReminderGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceReminderCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceReminderCountAggregateOutputType> | number
+        }
+      }
+    }
+    InvoiceApproval: {
+      payload: Prisma.$InvoiceApprovalPayload<ExtArgs>
+      fields: Prisma.InvoiceApprovalFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.InvoiceApprovalFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.InvoiceApprovalFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        findFirst: {
+          args: Prisma.InvoiceApprovalFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.InvoiceApprovalFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        findMany: {
+          args: Prisma.InvoiceApprovalFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>[]
+        }
+        create: {
+          args: Prisma.InvoiceApprovalCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        createMany: {
+          args: Prisma.InvoiceApprovalCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.InvoiceApprovalCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>[]
+        }
+        delete: {
+          args: Prisma.InvoiceApprovalDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        update: {
+          args: Prisma.InvoiceApprovalUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        deleteMany: {
+          args: Prisma.InvoiceApprovalDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.InvoiceApprovalUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.InvoiceApprovalUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>[]
+        }
+        upsert: {
+          args: Prisma.InvoiceApprovalUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$InvoiceApprovalPayload>
+        }
+        aggregate: {
+          args: Prisma.InvoiceApprovalAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateInvoiceApproval>
+        }
+        groupBy: {
+          args: Prisma.InvoiceApprovalGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceApprovalGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.InvoiceApprovalCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.InvoiceApprovalCountAggregateOutputType> | number
         }
       }
     }
@@ -1091,68 +2142,142 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
           result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.BillFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        findFirst: {
+          args: Prisma.BillFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.BillFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        findMany: {
+          args: Prisma.BillFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+        }
+        create: {
+          args: Prisma.BillCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        createMany: {
+          args: Prisma.BillCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.BillCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+        }
+        delete: {
+          args: Prisma.BillDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        update: {
+          args: Prisma.BillUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        deleteMany: {
+          args: Prisma.BillDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.BillUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.BillUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+        }
+        upsert: {
+          args: Prisma.BillUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+        }
+        aggregate: {
+          args: Prisma.BillAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBill>
+        }
+        groupBy: {
+          args: Prisma.BillGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BillGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.BillCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BillCountAggregateOutputType> | number
+        }
+      }
+    }
+    BillPayment: {
+      payload: Prisma.$BillPaymentPayload<ExtArgs>
+      fields: Prisma.BillPaymentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.BillPaymentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.BillPaymentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         findFirst: {
-          args: Prisma.BillFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload> | null
+          args: Prisma.BillPaymentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.BillFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillPaymentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         findMany: {
-          args: Prisma.BillFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+          args: Prisma.BillPaymentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>[]
         }
         create: {
-          args: Prisma.BillCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillPaymentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         createMany: {
-          args: Prisma.BillCreateManyArgs<ExtArgs>
+          args: Prisma.BillPaymentCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.BillCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+          args: Prisma.BillPaymentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>[]
         }
         delete: {
-          args: Prisma.BillDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillPaymentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         update: {
-          args: Prisma.BillUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillPaymentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         deleteMany: {
-          args: Prisma.BillDeleteManyArgs<ExtArgs>
+          args: Prisma.BillPaymentDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.BillUpdateManyArgs<ExtArgs>
+          args: Prisma.BillPaymentUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.BillUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>[]
+          args: Prisma.BillPaymentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>[]
         }
         upsert: {
-          args: Prisma.BillUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPayload>
+          args: Prisma.BillPaymentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$BillPaymentPayload>
         }
         aggregate: {
-          args: Prisma.BillAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateBill>
+          args: Prisma.BillPaymentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateBillPayment>
         }
         groupBy: {
-          args: Prisma.BillGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BillGroupByOutputType>[]
+          args: Prisma.BillPaymentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BillPaymentGroupByOutputType>[]
         }
         count: {
-          args: Prisma.BillCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.BillCountAggregateOutputType> | number
+          args: Prisma.BillPaymentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.BillPaymentCountAggregateOutputType> | number
         }
       }
     }
@@ -1464,6 +2589,7 @@ export const CompanyScalarFieldEnum = {
   taxId: 'taxId',
   notificationEmail: 'notificationEmail',
   ccNotifications: 'ccNotifications',
+  invoiceApprovalsRequired: 'invoiceApprovalsRequired',
   country: 'country',
   address1: 'address1',
   address2: 'address2',
@@ -1474,126 +2600,387 @@ export const CompanyScalarFieldEnum = {
   metadata: 'metadata'
 } as const
 
-export type CompanyScalarFieldEnum = (typeof CompanyScalarFieldEnum)[keyof typeof CompanyScalarFieldEnum]
+export type CompanyScalarFieldEnum = (typeof CompanyScalarFieldEnum)[keyof typeof CompanyScalarFieldEnum]
+
+
+export const EmployeeScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  name: 'name',
+  walletAddress: 'walletAddress',
+  email: 'email',
+  token: 'token',
+  network: 'network',
+  gender: 'gender',
+  nationality: 'nationality',
+  taxId: 'taxId',
+  address: 'address',
+  city: 'city',
+  country: 'country',
+  postalCode: 'postalCode',
+  order: 'order',
+  groupId: 'groupId',
+  metadata: 'metadata'
+} as const
+
+export type EmployeeScalarFieldEnum = (typeof EmployeeScalarFieldEnum)[keyof typeof EmployeeScalarFieldEnum]
+
+
+export const EmployeeGroupScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  name: 'name',
+  shape: 'shape',
+  color: 'color',
+  order: 'order',
+  companyId: 'companyId'
+} as const
+
+export type EmployeeGroupScalarFieldEnum = (typeof EmployeeGroupScalarFieldEnum)[keyof typeof EmployeeGroupScalarFieldEnum]
+
+
+export const PayrollScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  employeeId: 'employeeId',
+  network: 'network',
+  token: 'token',
+  amount: 'amount',
+  contractTerm: 'contractTerm',
+  payFrequency: 'payFrequency',
+  payrollCycle: 'payrollCycle',
+  currentCycleNumber: 'currentCycleNumber',
+  paydayDay: 'paydayDay',
+  joiningDate: 'joiningDate',
+  payStartDate: 'payStartDate',
+  payEndDate: 'payEndDate',
+  contractEndDate: 'contractEndDate',
+  prorationMethod: 'prorationMethod',
+  renewalReminderDays: 'renewalReminderDays',
+  renewalReminderSentAt: 'renewalReminderSentAt',
+  description: 'description',
+  status: 'status',
+  terminatedAt: 'terminatedAt',
+  terminationReason: 'terminationReason',
+  note: 'note',
+  metadata: 'metadata'
+} as const
+
+export type PayrollScalarFieldEnum = (typeof PayrollScalarFieldEnum)[keyof typeof PayrollScalarFieldEnum]
+
+
+export const PayrollAmendmentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  amount: 'amount',
+  token: 'token',
+  network: 'network',
+  previousAmount: 'previousAmount',
+  previousToken: 'previousToken',
+  previousNetwork: 'previousNetwork',
+  effectiveDate: 'effectiveDate',
+  reason: 'reason',
+  approvedById: 'approvedById',
+  metadata: 'metadata'
+} as const
+
+export type PayrollAmendmentScalarFieldEnum = (typeof PayrollAmendmentScalarFieldEnum)[keyof typeof PayrollAmendmentScalarFieldEnum]
+
+
+export const PayrollPauseScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  policy: 'policy',
+  status: 'status',
+  reason: 'reason',
+  skippedCycles: 'skippedCycles',
+  startedAt: 'startedAt',
+  endedAt: 'endedAt'
+} as const
+
+export type PayrollPauseScalarFieldEnum = (typeof PayrollPauseScalarFieldEnum)[keyof typeof PayrollPauseScalarFieldEnum]
+
+
+export const PayrollAdjustmentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  type: 'type',
+  description: 'description',
+  amount: 'amount',
+  cycleNumber: 'cycleNumber',
+  status: 'status',
+  invoiceId: 'invoiceId',
+  appliedAt: 'appliedAt',
+  metadata: 'metadata'
+} as const
+
+export type PayrollAdjustmentScalarFieldEnum = (typeof PayrollAdjustmentScalarFieldEnum)[keyof typeof PayrollAdjustmentScalarFieldEnum]
+
+
+export const PayrollPayoutSplitScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  type: 'type',
+  value: 'value',
+  token: 'token',
+  network: 'network',
+  walletAddress: 'walletAddress',
+  order: 'order'
+} as const
+
+export type PayrollPayoutSplitScalarFieldEnum = (typeof PayrollPayoutSplitScalarFieldEnum)[keyof typeof PayrollPayoutSplitScalarFieldEnum]
+
+
+export const InvoiceScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceType: 'invoiceType',
+  invoiceNumber: 'invoiceNumber',
+  issueDate: 'issueDate',
+  dueDate: 'dueDate',
+  numberingCompanyId: 'numberingCompanyId',
+  payDate: 'payDate',
+  isAutoGenerated: 'isAutoGenerated',
+  autoGenerateFromPayrollId: 'autoGenerateFromPayrollId',
+  nextAutoGenerateDate: 'nextAutoGenerateDate',
+  payrollId: 'payrollId',
+  employeeId: 'employeeId',
+  fromCompanyId: 'fromCompanyId',
+  toCompanyId: 'toCompanyId',
+  toCompanyName: 'toCompanyName',
+  toCompanyEmail: 'toCompanyEmail',
+  toCompanyAddress: 'toCompanyAddress',
+  toCompanyTaxId: 'toCompanyTaxId',
+  toCompanyContactName: 'toCompanyContactName',
+  toCompanyMetadata: 'toCompanyMetadata',
+  emailTo: 'emailTo',
+  emailCc: 'emailCc',
+  emailBcc: 'emailBcc',
+  emailSubject: 'emailSubject',
+  emailBody: 'emailBody',
+  fromDetails: 'fromDetails',
+  toDetails: 'toDetails',
+  subtotal: 'subtotal',
+  taxRate: 'taxRate',
+  taxAmount: 'taxAmount',
+  discount: 'discount',
+  total: 'total',
+  currency: 'currency',
+  taxBreakdown: 'taxBreakdown',
+  paymentNetwork: 'paymentNetwork',
+  paymentToken: 'paymentToken',
+  paymentWalletAddress: 'paymentWalletAddress',
+  paymentSplits: 'paymentSplits',
+  paymentTerms: 'paymentTerms',
+  earlyPaymentDiscount: 'earlyPaymentDiscount',
+  lateFeeAppliedAt: 'lateFeeAppliedAt',
+  publicToken: 'publicToken',
+  paymentTransactionHash: 'paymentTransactionHash',
+  payerAddress: 'payerAddress',
+  paymentClaimedAt: 'paymentClaimedAt',
+  status: 'status',
+  sentAt: 'sentAt',
+  approvedAt: 'approvedAt',
+  reviewedAt: 'reviewedAt',
+  disputedAt: 'disputedAt',
+  confirmedAt: 'confirmedAt',
+  paidAt: 'paidAt',
+  metadata: 'metadata',
+  memo: 'memo',
+  footer: 'footer',
+  terms: 'terms'
+} as const
+
+export type InvoiceScalarFieldEnum = (typeof InvoiceScalarFieldEnum)[keyof typeof InvoiceScalarFieldEnum]
+
+
+export const InvoiceNumberSequenceScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  type: 'type',
+  prefix: 'prefix',
+  format: 'format',
+  padding: 'padding',
+  nextNumber: 'nextNumber',
+  resetFrequency: 'resetFrequency',
+  periodKey: 'periodKey'
+} as const
+
+export type InvoiceNumberSequenceScalarFieldEnum = (typeof InvoiceNumberSequenceScalarFieldEnum)[keyof typeof InvoiceNumberSequenceScalarFieldEnum]
+
+
+export const TaxRateScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  name: 'name',
+  rate: 'rate',
+  description: 'description',
+  isCompound: 'isCompound',
+  isDefault: 'isDefault'
+} as const
+
+export type TaxRateScalarFieldEnum = (typeof TaxRateScalarFieldEnum)[keyof typeof TaxRateScalarFieldEnum]
+
+
+export const InvoiceTemplateScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  name: 'name',
+  logoUrl: 'logoUrl',
+  accentColor: 'accentColor',
+  footer: 'footer',
+  terms: 'terms',
+  locale: 'locale',
+  dateFormat: 'dateFormat',
+  isEmployeeDefault: 'isEmployeeDefault',
+  isB2BDefault: 'isB2BDefault'
+} as const
+
+export type InvoiceTemplateScalarFieldEnum = (typeof InvoiceTemplateScalarFieldEnum)[keyof typeof InvoiceTemplateScalarFieldEnum]
+
+
+export const CreditNoteScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  companyId: 'companyId',
+  creditNoteNumber: 'creditNoteNumber',
+  issueDate: 'issueDate',
+  reason: 'reason',
+  items: 'items',
+  amount: 'amount',
+  currency: 'currency',
+  metadata: 'metadata'
+} as const
+
+export type CreditNoteScalarFieldEnum = (typeof CreditNoteScalarFieldEnum)[keyof typeof CreditNoteScalarFieldEnum]
+
+
+export const InvoiceCommentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  type: 'type',
+  authorType: 'authorType',
+  authorEmail: 'authorEmail',
+  message: 'message',
+  proposedChanges: 'proposedChanges'
+} as const
+
+export type InvoiceCommentScalarFieldEnum = (typeof InvoiceCommentScalarFieldEnum)[keyof typeof InvoiceCommentScalarFieldEnum]
 
 
-export const EmployeeScalarFieldEnum = {
+export const InvoiceAttachmentScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  companyId: 'companyId',
-  name: 'name',
-  walletAddress: 'walletAddress',
-  email: 'email',
-  token: 'token',
-  network: 'network',
-  gender: 'gender',
-  nationality: 'nationality',
-  taxId: 'taxId',
-  address: 'address',
-  city: 'city',
-  country: 'country',
-  postalCode: 'postalCode',
-  order: 'order',
-  groupId: 'groupId',
-  metadata: 'metadata'
+  invoiceId: 'invoiceId',
+  billId: 'billId',
+  fileName: 'fileName',
+  contentType: 'contentType',
+  size: 'size',
+  storageKey: 'storageKey',
+  uploadedByEmail: 'uploadedByEmail'
 } as const
 
-export type EmployeeScalarFieldEnum = (typeof EmployeeScalarFieldEnum)[keyof typeof EmployeeScalarFieldEnum]
+export type InvoiceAttachmentScalarFieldEnum = (typeof InvoiceAttachmentScalarFieldEnum)[keyof typeof InvoiceAttachmentScalarFieldEnum]
 
 
-export const EmployeeGroupScalarFieldEnum = {
+export const InvoiceEventScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  name: 'name',
-  shape: 'shape',
-  color: 'color',
-  order: 'order',
-  companyId: 'companyId'
+  invoiceId: 'invoiceId',
+  billId: 'billId',
+  action: 'action',
+  actorType: 'actorType',
+  actorEmail: 'actorEmail',
+  changes: 'changes',
+  metadata: 'metadata'
 } as const
 
-export type EmployeeGroupScalarFieldEnum = (typeof EmployeeGroupScalarFieldEnum)[keyof typeof EmployeeGroupScalarFieldEnum]
+export type InvoiceEventScalarFieldEnum = (typeof InvoiceEventScalarFieldEnum)[keyof typeof InvoiceEventScalarFieldEnum]
 
 
-export const PayrollScalarFieldEnum = {
+export const DunningRuleScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   companyId: 'companyId',
-  employeeId: 'employeeId',
-  network: 'network',
-  token: 'token',
-  amount: 'amount',
-  contractTerm: 'contractTerm',
-  payrollCycle: 'payrollCycle',
-  currentCycleNumber: 'currentCycleNumber',
-  paydayDay: 'paydayDay',
-  joiningDate: 'joiningDate',
-  payStartDate: 'payStartDate',
-  payEndDate: 'payEndDate',
-  description: 'description',
-  status: 'status',
-  note: 'note',
-  metadata: 'metadata'
+  offsetDays: 'offsetDays',
+  isActive: 'isActive',
+  message: 'message'
 } as const
 
-export type PayrollScalarFieldEnum = (typeof PayrollScalarFieldEnum)[keyof typeof PayrollScalarFieldEnum]
+export type DunningRuleScalarFieldEnum = (typeof DunningRuleScalarFieldEnum)[keyof typeof DunningRuleScalarFieldEnum]
 
 
-export const InvoiceScalarFieldEnum = {
+export const InvoiceReminderScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  invoiceType: 'invoiceType',
-  invoiceNumber: 'invoiceNumber',
-  issueDate: 'issueDate',
-  dueDate: 'dueDate',
-  isAutoGenerated: 'isAutoGenerated',
-  autoGenerateFromPayrollId: 'autoGenerateFromPayrollId',
-  nextAutoGenerateDate: 'nextAutoGenerateDate',
-  payrollId: 'payrollId',
-  employeeId: 'employeeId',
-  fromCompanyId: 'fromCompanyId',
-  toCompanyId: 'toCompanyId',
-  toCompanyName: 'toCompanyName',
-  toCompanyEmail: 'toCompanyEmail',
-  toCompanyAddress: 'toCompanyAddress',
-  toCompanyTaxId: 'toCompanyTaxId',
-  toCompanyContactName: 'toCompanyContactName',
-  toCompanyMetadata: 'toCompanyMetadata',
-  emailTo: 'emailTo',
-  emailCc: 'emailCc',
-  emailBcc: 'emailBcc',
-  emailSubject: 'emailSubject',
-  emailBody: 'emailBody',
-  fromDetails: 'fromDetails',
-  toDetails: 'toDetails',
-  subtotal: 'subtotal',
-  taxRate: 'taxRate',
-  taxAmount: 'taxAmount',
-  discount: 'discount',
-  total: 'total',
-  currency: 'currency',
-  paymentNetwork: 'paymentNetwork',
-  paymentToken: 'paymentToken',
-  paymentWalletAddress: 'paymentWalletAddress',
-  status: 'status',
-  sentAt: 'sentAt',
-  reviewedAt: 'reviewedAt',
-  confirmedAt: 'confirmedAt',
-  paidAt: 'paidAt',
-  metadata: 'metadata',
-  memo: 'memo',
-  footer: 'footer',
-  terms: 'terms'
+  invoiceId: 'invoiceId',
+  offsetDays: 'offsetDays',
+  sentTo: 'sentTo',
+  amountDue: 'amountDue',
+  isFinalNotice: 'isFinalNotice'
 } as const
 
-export type InvoiceScalarFieldEnum = (typeof InvoiceScalarFieldEnum)[keyof typeof InvoiceScalarFieldEnum]
+export type InvoiceReminderScalarFieldEnum = (typeof InvoiceReminderScalarFieldEnum)[keyof typeof InvoiceReminderScalarFieldEnum]
+
+
+export const InvoiceApprovalScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  approvedById: 'approvedById',
+  approvedAt: 'approvedAt'
+} as const
+
+export type InvoiceApprovalScalarFieldEnum = (typeof InvoiceApprovalScalarFieldEnum)[keyof typeof InvoiceApprovalScalarFieldEnum]
 
 
 export const InvoiceItemScalarFieldEnum = {
@@ -1609,6 +2996,9 @@ export const InvoiceItemScalarFieldEnum = {
   taxRate: 'taxRate',
   discount: 'discount',
   total: 'total',
+  taxes: 'taxes',
+  isTaxExempt: 'isTaxExempt',
+  isTaxInclusive: 'isTaxInclusive',
   order: 'order',
   metadata: 'metadata'
 } as const
@@ -1621,7 +3011,13 @@ export const InvoiceScheduleScalarFieldEnum = {
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
+  invoiceType: 'invoiceType',
   payrollId: 'payrollId',
+  companyId: 'companyId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  maxOccurrences: 'maxOccurrences',
+  occurrenceCount: 'occurrenceCount',
   isActive: 'isActive',
   frequency: 'frequency',
   dayOfMonth: 'dayOfMonth',
@@ -1646,12 +3042,30 @@ export const BillScalarFieldEnum = {
   status: 'status',
   paidAt: 'paidAt',
   transactionHash: 'transactionHash',
+  creditedAmount: 'creditedAmount',
+  paidAmount: 'paidAmount',
   metadata: 'metadata'
 } as const
 
 export type BillScalarFieldEnum = (typeof BillScalarFieldEnum)[keyof typeof BillScalarFieldEnum]
 
 
+export const BillPaymentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  billId: 'billId',
+  amount: 'amount',
+  token: 'token',
+  network: 'network',
+  transactionHash: 'transactionHash',
+  paidAt: 'paidAt'
+} as const
+
+export type BillPaymentScalarFieldEnum = (typeof BillPaymentScalarFieldEnum)[keyof typeof BillPaymentScalarFieldEnum]
+
+
 export const PaymentLinkScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
@@ -1919,6 +3333,34 @@ export type ListEnumContractTermEnumFieldRefInput<$PrismaModel> = FieldRefInputT
     
 
 
+/**
+ * Reference to a field of type 'PayFrequencyEnum'
+ */
+export type EnumPayFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayFrequencyEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayFrequencyEnum[]'
+ */
+export type ListEnumPayFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayFrequencyEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ProrationMethodEnum'
+ */
+export type EnumProrationMethodEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProrationMethodEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'ProrationMethodEnum[]'
+ */
+export type ListEnumProrationMethodEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ProrationMethodEnum[]'>
+    
+
+
 /**
  * Reference to a field of type 'PayrollStatusEnum'
  */
@@ -1933,6 +3375,76 @@ export type ListEnumPayrollStatusEnumFieldRefInput<$PrismaModel> = FieldRefInput
     
 
 
+/**
+ * Reference to a field of type 'PayrollPausePolicyEnum'
+ */
+export type EnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollPausePolicyEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollPausePolicyEnum[]'
+ */
+export type ListEnumPayrollPausePolicyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollPausePolicyEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollPauseStatusEnum'
+ */
+export type EnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollPauseStatusEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollPauseStatusEnum[]'
+ */
+export type ListEnumPayrollPauseStatusEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollPauseStatusEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollAdjustmentTypeEnum'
+ */
+export type EnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollAdjustmentTypeEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollAdjustmentTypeEnum[]'
+ */
+export type ListEnumPayrollAdjustmentTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollAdjustmentTypeEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollAdjustmentStatusEnum'
+ */
+export type EnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollAdjustmentStatusEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayrollAdjustmentStatusEnum[]'
+ */
+export type ListEnumPayrollAdjustmentStatusEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayrollAdjustmentStatusEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PayoutSplitTypeEnum'
+ */
+export type EnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayoutSplitTypeEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'PayoutSplitTypeEnum[]'
+ */
+export type ListEnumPayoutSplitTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PayoutSplitTypeEnum[]'>
+    
+
+
 /**
  * Reference to a field of type 'InvoiceTypeEnum'
  */
@@ -1961,6 +3473,104 @@ export type ListEnumInvoiceStatusEnumFieldRefInput<$PrismaModel> = FieldRefInput
     
 
 
+/**
+ * Reference to a field of type 'NumberingSequenceTypeEnum'
+ */
+export type EnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NumberingSequenceTypeEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'NumberingSequenceTypeEnum[]'
+ */
+export type ListEnumNumberingSequenceTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NumberingSequenceTypeEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'NumberingResetFrequencyEnum'
+ */
+export type EnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NumberingResetFrequencyEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'NumberingResetFrequencyEnum[]'
+ */
+export type ListEnumNumberingResetFrequencyEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'NumberingResetFrequencyEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceDateFormatEnum'
+ */
+export type EnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceDateFormatEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceDateFormatEnum[]'
+ */
+export type ListEnumInvoiceDateFormatEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceDateFormatEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceCommentTypeEnum'
+ */
+export type EnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceCommentTypeEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceCommentTypeEnum[]'
+ */
+export type ListEnumInvoiceCommentTypeEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceCommentTypeEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceCommentAuthorEnum'
+ */
+export type EnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceCommentAuthorEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceCommentAuthorEnum[]'
+ */
+export type ListEnumInvoiceCommentAuthorEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceCommentAuthorEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceEventActionEnum'
+ */
+export type EnumInvoiceEventActionEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceEventActionEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceEventActionEnum[]'
+ */
+export type ListEnumInvoiceEventActionEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceEventActionEnum[]'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceEventActorEnum'
+ */
+export type EnumInvoiceEventActorEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceEventActorEnum'>
+    
+
+
+/**
+ * Reference to a field of type 'InvoiceEventActorEnum[]'
+ */
+export type ListEnumInvoiceEventActorEnumFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InvoiceEventActorEnum[]'>
+    
+
+
 /**
  * Reference to a field of type 'BillStatusEnum'
  */
@@ -2115,10 +3725,25 @@ export type GlobalOmitConfig = {
   employee?: Prisma.EmployeeOmit
   employeeGroup?: Prisma.EmployeeGroupOmit
   payroll?: Prisma.PayrollOmit
+  payrollAmendment?: Prisma.PayrollAmendmentOmit
+  payrollPause?: Prisma.PayrollPauseOmit
+  payrollAdjustment?: Prisma.PayrollAdjustmentOmit
+  payrollPayoutSplit?: Prisma.PayrollPayoutSplitOmit
   invoice?: Prisma.InvoiceOmit
+  invoiceNumberSequence?: Prisma.InvoiceNumberSequenceOmit
+  taxRate?: Prisma.TaxRateOmit
+  invoiceTemplate?: Prisma.InvoiceTemplateOmit
+  creditNote?: Prisma.CreditNoteOmit
+  invoiceComment?: Prisma.InvoiceCommentOmit
+  invoiceAttachment?: Prisma.InvoiceAttachmentOmit
+  invoiceEvent?: Prisma.InvoiceEventOmit
+  dunningRule?: Prisma.DunningRuleOmit
+  invoiceReminder?: Prisma.InvoiceReminderOmit
+  invoiceApproval?: Prisma.InvoiceApprovalOmit
   invoiceItem?: Prisma.InvoiceItemOmit
   invoiceSchedule?: Prisma.InvoiceScheduleOmit
   bill?: Prisma.BillOmit
+  billPayment?: Prisma.BillPaymentOmit
   paymentLink?: Prisma.PaymentLinkOmit
   paymentLinkRecord?: Prisma.PaymentLinkRecordOmit
   notifications?: Prisma.NotificationsOmit
@@ -57,10 +57,25 @@ export const ModelName = {
   Employee: 'Employee',
   EmployeeGroup: 'EmployeeGroup',
   Payroll: 'Payroll',
+  PayrollAmendment: 'PayrollAmendment',
+  PayrollPause: 'PayrollPause',
+  PayrollAdjustment: 'PayrollAdjustment',
+  PayrollPayoutSplit: 'PayrollPayoutSplit',
   Invoice: 'Invoice',
+  InvoiceNumberSequence: 'InvoiceNumberSequence',
+  TaxRate: 'TaxRate',
+  InvoiceTemplate: 'InvoiceTemplate',
+  CreditNote: 'CreditNote',
+  InvoiceComment: 'InvoiceComment',
+  InvoiceAttachment: 'InvoiceAttachment',
+  InvoiceEvent: 'InvoiceEvent',
+  DunningRule: 'DunningRule',
+  InvoiceReminder: 'InvoiceReminder',
+  InvoiceApproval: 'InvoiceApproval',
   InvoiceItem: 'InvoiceItem',
   InvoiceSchedule: 'InvoiceSchedule',
   Bill: 'Bill',
+  BillPayment: 'BillPayment',
   PaymentLink: 'PaymentLink',
   PaymentLinkRecord: 'PaymentLinkRecord',
   Notifications: 'Notifications'
@@ -129,6 +144,7 @@ export const CompanyScalarFieldEnum = {
   taxId: 'taxId',
   notificationEmail: 'notificationEmail',
   ccNotifications: 'ccNotifications',
+  invoiceApprovalsRequired: 'invoiceApprovalsRequired',
   country: 'country',
   address1: 'address1',
   address2: 'address2',
@@ -194,14 +210,21 @@ export const PayrollScalarFieldEnum = {
   token: 'token',
   amount: 'amount',
   contractTerm: 'contractTerm',
+  payFrequency: 'payFrequency',
   payrollCycle: 'payrollCycle',
   currentCycleNumber: 'currentCycleNumber',
   paydayDay: 'paydayDay',
   joiningDate: 'joiningDate',
   payStartDate: 'payStartDate',
   payEndDate: 'payEndDate',
+  contractEndDate: 'contractEndDate',
+  prorationMethod: 'prorationMethod',
+  renewalReminderDays: 'renewalReminderDays',
+  renewalReminderSentAt: 'renewalReminderSentAt',
   description: 'description',
   status: 'status',
+  terminatedAt: 'terminatedAt',
+  terminationReason: 'terminationReason',
   note: 'note',
   metadata: 'metadata'
 } as const
@@ -209,6 +232,82 @@ export const PayrollScalarFieldEnum = {
 export type PayrollScalarFieldEnum = (typeof PayrollScalarFieldEnum)[keyof typeof PayrollScalarFieldEnum]
 
 
+export const PayrollAmendmentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  amount: 'amount',
+  token: 'token',
+  network: 'network',
+  previousAmount: 'previousAmount',
+  previousToken: 'previousToken',
+  previousNetwork: 'previousNetwork',
+  effectiveDate: 'effectiveDate',
+  reason: 'reason',
+  approvedById: 'approvedById',
+  metadata: 'metadata'
+} as const
+
+export type PayrollAmendmentScalarFieldEnum = (typeof PayrollAmendmentScalarFieldEnum)[keyof typeof PayrollAmendmentScalarFieldEnum]
+
+
+export const PayrollPauseScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  policy: 'policy',
+  status: 'status',
+  reason: 'reason',
+  skippedCycles: 'skippedCycles',
+  startedAt: 'startedAt',
+  endedAt: 'endedAt'
+} as const
+
+export type PayrollPauseScalarFieldEnum = (typeof PayrollPauseScalarFieldEnum)[keyof typeof PayrollPauseScalarFieldEnum]
+
+
+export const PayrollAdjustmentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  type: 'type',
+  description: 'description',
+  amount: 'amount',
+  cycleNumber: 'cycleNumber',
+  status: 'status',
+  invoiceId: 'invoiceId',
+  appliedAt: 'appliedAt',
+  metadata: 'metadata'
+} as const
+
+export type PayrollAdjustmentScalarFieldEnum = (typeof PayrollAdjustmentScalarFieldEnum)[keyof typeof PayrollAdjustmentScalarFieldEnum]
+
+
+export const PayrollPayoutSplitScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  payrollId: 'payrollId',
+  type: 'type',
+  value: 'value',
+  token: 'token',
+  network: 'network',
+  walletAddress: 'walletAddress',
+  order: 'order'
+} as const
+
+export type PayrollPayoutSplitScalarFieldEnum = (typeof PayrollPayoutSplitScalarFieldEnum)[keyof typeof PayrollPayoutSplitScalarFieldEnum]
+
+
 export const InvoiceScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
@@ -218,6 +317,8 @@ export const InvoiceScalarFieldEnum = {
   invoiceNumber: 'invoiceNumber',
   issueDate: 'issueDate',
   dueDate: 'dueDate',
+  numberingCompanyId: 'numberingCompanyId',
+  payDate: 'payDate',
   isAutoGenerated: 'isAutoGenerated',
   autoGenerateFromPayrollId: 'autoGenerateFromPayrollId',
   nextAutoGenerateDate: 'nextAutoGenerateDate',
@@ -244,12 +345,23 @@ export const InvoiceScalarFieldEnum = {
   discount: 'discount',
   total: 'total',
   currency: 'currency',
+  taxBreakdown: 'taxBreakdown',
   paymentNetwork: 'paymentNetwork',
   paymentToken: 'paymentToken',
   paymentWalletAddress: 'paymentWalletAddress',
+  paymentSplits: 'paymentSplits',
+  paymentTerms: 'paymentTerms',
+  earlyPaymentDiscount: 'earlyPaymentDiscount',
+  lateFeeAppliedAt: 'lateFeeAppliedAt',
+  publicToken: 'publicToken',
+  paymentTransactionHash: 'paymentTransactionHash',
+  payerAddress: 'payerAddress',
+  paymentClaimedAt: 'paymentClaimedAt',
   status: 'status',
   sentAt: 'sentAt',
+  approvedAt: 'approvedAt',
   reviewedAt: 'reviewedAt',
+  disputedAt: 'disputedAt',
   confirmedAt: 'confirmedAt',
   paidAt: 'paidAt',
   metadata: 'metadata',
@@ -261,6 +373,171 @@ export const InvoiceScalarFieldEnum = {
 export type InvoiceScalarFieldEnum = (typeof InvoiceScalarFieldEnum)[keyof typeof InvoiceScalarFieldEnum]
 
 
+export const InvoiceNumberSequenceScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  type: 'type',
+  prefix: 'prefix',
+  format: 'format',
+  padding: 'padding',
+  nextNumber: 'nextNumber',
+  resetFrequency: 'resetFrequency',
+  periodKey: 'periodKey'
+} as const
+
+export type InvoiceNumberSequenceScalarFieldEnum = (typeof InvoiceNumberSequenceScalarFieldEnum)[keyof typeof InvoiceNumberSequenceScalarFieldEnum]
+
+
+export const TaxRateScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  name: 'name',
+  rate: 'rate',
+  description: 'description',
+  isCompound: 'isCompound',
+  isDefault: 'isDefault'
+} as const
+
+export type TaxRateScalarFieldEnum = (typeof TaxRateScalarFieldEnum)[keyof typeof TaxRateScalarFieldEnum]
+
+
+export const InvoiceTemplateScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  name: 'name',
+  logoUrl: 'logoUrl',
+  accentColor: 'accentColor',
+  footer: 'footer',
+  terms: 'terms',
+  locale: 'locale',
+  dateFormat: 'dateFormat',
+  isEmployeeDefault: 'isEmployeeDefault',
+  isB2BDefault: 'isB2BDefault'
+} as const
+
+export type InvoiceTemplateScalarFieldEnum = (typeof InvoiceTemplateScalarFieldEnum)[keyof typeof InvoiceTemplateScalarFieldEnum]
+
+
+export const CreditNoteScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  companyId: 'companyId',
+  creditNoteNumber: 'creditNoteNumber',
+  issueDate: 'issueDate',
+  reason: 'reason',
+  items: 'items',
+  amount: 'amount',
+  currency: 'currency',
+  metadata: 'metadata'
+} as const
+
+export type CreditNoteScalarFieldEnum = (typeof CreditNoteScalarFieldEnum)[keyof typeof CreditNoteScalarFieldEnum]
+
+
+export const InvoiceCommentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  type: 'type',
+  authorType: 'authorType',
+  authorEmail: 'authorEmail',
+  message: 'message',
+  proposedChanges: 'proposedChanges'
+} as const
+
+export type InvoiceCommentScalarFieldEnum = (typeof InvoiceCommentScalarFieldEnum)[keyof typeof InvoiceCommentScalarFieldEnum]
+
+
+export const InvoiceAttachmentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  billId: 'billId',
+  fileName: 'fileName',
+  contentType: 'contentType',
+  size: 'size',
+  storageKey: 'storageKey',
+  uploadedByEmail: 'uploadedByEmail'
+} as const
+
+export type InvoiceAttachmentScalarFieldEnum = (typeof InvoiceAttachmentScalarFieldEnum)[keyof typeof InvoiceAttachmentScalarFieldEnum]
+
+
+export const InvoiceEventScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  billId: 'billId',
+  action: 'action',
+  actorType: 'actorType',
+  actorEmail: 'actorEmail',
+  changes: 'changes',
+  metadata: 'metadata'
+} as const
+
+export type InvoiceEventScalarFieldEnum = (typeof InvoiceEventScalarFieldEnum)[keyof typeof InvoiceEventScalarFieldEnum]
+
+
+export const DunningRuleScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  companyId: 'companyId',
+  offsetDays: 'offsetDays',
+  isActive: 'isActive',
+  message: 'message'
+} as const
+
+export type DunningRuleScalarFieldEnum = (typeof DunningRuleScalarFieldEnum)[keyof typeof DunningRuleScalarFieldEnum]
+
+
+export const InvoiceReminderScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  offsetDays: 'offsetDays',
+  sentTo: 'sentTo',
+  amountDue: 'amountDue',
+  isFinalNotice: 'isFinalNotice'
+} as const
+
+export type InvoiceReminderScalarFieldEnum = (typeof InvoiceReminderScalarFieldEnum)[keyof typeof InvoiceReminderScalarFieldEnum]
+
+
+export const InvoiceApprovalScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  invoiceId: 'invoiceId',
+  approvedById: 'approvedById',
+  approvedAt: 'approvedAt'
+} as const
+
+export type InvoiceApprovalScalarFieldEnum = (typeof InvoiceApprovalScalarFieldEnum)[keyof typeof InvoiceApprovalScalarFieldEnum]
+
+
 export const InvoiceItemScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
@@ -274,6 +551,9 @@ export const InvoiceItemScalarFieldEnum = {
   taxRate: 'taxRate',
   discount: 'discount',
   total: 'total',
+  taxes: 'taxes',
+  isTaxExempt: 'isTaxExempt',
+  isTaxInclusive: 'isTaxInclusive',
   order: 'order',
   metadata: 'metadata'
 } as const
@@ -286,7 +566,13 @@ export const InvoiceScheduleScalarFieldEnum = {
   uuid: 'uuid',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
+  invoiceType: 'invoiceType',
   payrollId: 'payrollId',
+  companyId: 'companyId',
+  startDate: 'startDate',
+  endDate: 'endDate',
+  maxOccurrences: 'maxOccurrences',
+  occurrenceCount: 'occurrenceCount',
   isActive: 'isActive',
   frequency: 'frequency',
   dayOfMonth: 'dayOfMonth',
@@ -311,12 +597,30 @@ export const BillScalarFieldEnum = {
   status: 'status',
   paidAt: 'paidAt',
   transactionHash: 'transactionHash',
+  creditedAmount: 'creditedAmount',
+  paidAmount: 'paidAmount',
   metadata: 'metadata'
 } as const
 
 export type BillScalarFieldEnum = (typeof BillScalarFieldEnum)[keyof typeof BillScalarFieldEnum]
 
 
+export const BillPaymentScalarFieldEnum = {
+  id: 'id',
+  uuid: 'uuid',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt',
+  billId: 'billId',
+  amount: 'amount',
+  token: 'token',
+  network: 'network',
+  transactionHash: 'transactionHash',
+  paidAt: 'paidAt'
+} as const
+
+export type BillPaymentScalarFieldEnum = (typeof BillPaymentScalarFieldEnum)[keyof typeof BillPaymentScalarFieldEnum]
+
+
 export const PaymentLinkScalarFieldEnum = {
   id: 'id',
   uuid: 'uuid',
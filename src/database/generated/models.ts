@@ -14,10 +14,25 @@ export type * from './models/Company.js'
 export type * from './models/Employee.js'
 export type * from './models/EmployeeGroup.js'
 export type * from './models/Payroll.js'
+export type * from './models/PayrollAmendment.js'
+export type * from './models/PayrollPause.js'
+export type * from './models/PayrollAdjustment.js'
+export type * from './models/PayrollPayoutSplit.js'
 export type * from './models/Invoice.js'
+export type * from './models/InvoiceNumberSequence.js'
+export type * from './models/TaxRate.js'
+export type * from './models/InvoiceTemplate.js'
+export type * from './models/CreditNote.js'
+export type * from './models/InvoiceComment.js'
+export type * from './models/InvoiceAttachment.js'
+export type * from './models/InvoiceEvent.js'
+export type * from './models/DunningRule.js'
+export type * from './models/InvoiceReminder.js'
+export type * from './models/InvoiceApproval.js'
 export type * from './models/InvoiceItem.js'
 export type * from './models/InvoiceSchedule.js'
 export type * from './models/Bill.js'
+export type * from './models/BillPayment.js'
 export type * from './models/PaymentLink.js'
 export type * from './models/PaymentLinkRecord.js'
 export type * from './models/Notifications.js'
@@ -48,6 +48,8 @@ export type BillMinAggregateOutputType = {
   status: $Enums.BillStatusEnum | null
   paidAt: Date | null
   transactionHash: string | null
+  creditedAmount: string | null
+  paidAmount: string | null
 }
 
 export type BillMaxAggregateOutputType = {
@@ -60,6 +62,8 @@ export type BillMaxAggregateOutputType = {
   status: $Enums.BillStatusEnum | null
   paidAt: Date | null
   transactionHash: string | null
+  creditedAmount: string | null
+  paidAmount: string | null
 }
 
 export type BillCountAggregateOutputType = {
@@ -72,6 +76,8 @@ export type BillCountAggregateOutputType = {
   status: number
   paidAt: number
   transactionHash: number
+  creditedAmount: number
+  paidAmount: number
   metadata: number
   _all: number
 }
@@ -99,6 +105,8 @@ export type BillMinAggregateInputType = {
   status?: true
   paidAt?: true
   transactionHash?: true
+  creditedAmount?: true
+  paidAmount?: true
 }
 
 export type BillMaxAggregateInputType = {
@@ -111,6 +119,8 @@ export type BillMaxAggregateInputType = {
   status?: true
   paidAt?: true
   transactionHash?: true
+  creditedAmount?: true
+  paidAmount?: true
 }
 
 export type BillCountAggregateInputType = {
@@ -123,6 +133,8 @@ export type BillCountAggregateInputType = {
   status?: true
   paidAt?: true
   transactionHash?: true
+  creditedAmount?: true
+  paidAmount?: true
   metadata?: true
   _all?: true
 }
@@ -223,6 +235,8 @@ export type BillGroupByOutputType = {
   status: $Enums.BillStatusEnum
   paidAt: Date | null
   transactionHash: string | null
+  creditedAmount: string
+  paidAmount: string
   metadata: runtime.JsonValue | null
   _count: BillCountAggregateOutputType | null
   _avg: BillAvgAggregateOutputType | null
@@ -259,9 +273,14 @@ export type BillWhereInput = {
   status?: Prisma.EnumBillStatusEnumFilter<"Bill"> | $Enums.BillStatusEnum
   paidAt?: Prisma.DateTimeNullableFilter<"Bill"> | Date | string | null
   transactionHash?: Prisma.StringNullableFilter<"Bill"> | string | null
+  creditedAmount?: Prisma.StringFilter<"Bill"> | string
+  paidAmount?: Prisma.StringFilter<"Bill"> | string
   metadata?: Prisma.JsonNullableFilter<"Bill">
   company?: Prisma.XOR<Prisma.CompanyScalarRelationFilter, Prisma.CompanyWhereInput>
   invoice?: Prisma.XOR<Prisma.InvoiceScalarRelationFilter, Prisma.InvoiceWhereInput>
+  payments?: Prisma.BillPaymentListRelationFilter
+  attachments?: Prisma.InvoiceAttachmentListRelationFilter
+  events?: Prisma.InvoiceEventListRelationFilter
 }
 
 export type BillOrderByWithRelationInput = {
@@ -274,9 +293,14 @@ export type BillOrderByWithRelationInput = {
   status?: Prisma.SortOrder
   paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
   transactionHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  creditedAmount?: Prisma.SortOrder
+  paidAmount?: Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
   company?: Prisma.CompanyOrderByWithRelationInput
   invoice?: Prisma.InvoiceOrderByWithRelationInput
+  payments?: Prisma.BillPaymentOrderByRelationAggregateInput
+  attachments?: Prisma.InvoiceAttachmentOrderByRelationAggregateInput
+  events?: Prisma.InvoiceEventOrderByRelationAggregateInput
 }
 
 export type BillWhereUniqueInput = Prisma.AtLeast<{
@@ -292,9 +316,14 @@ export type BillWhereUniqueInput = Prisma.AtLeast<{
   status?: Prisma.EnumBillStatusEnumFilter<"Bill"> | $Enums.BillStatusEnum
   paidAt?: Prisma.DateTimeNullableFilter<"Bill"> | Date | string | null
   transactionHash?: Prisma.StringNullableFilter<"Bill"> | string | null
+  creditedAmount?: Prisma.StringFilter<"Bill"> | string
+  paidAmount?: Prisma.StringFilter<"Bill"> | string
   metadata?: Prisma.JsonNullableFilter<"Bill">
   company?: Prisma.XOR<Prisma.CompanyScalarRelationFilter, Prisma.CompanyWhereInput>
   invoice?: Prisma.XOR<Prisma.InvoiceScalarRelationFilter, Prisma.InvoiceWhereInput>
+  payments?: Prisma.BillPaymentListRelationFilter
+  attachments?: Prisma.InvoiceAttachmentListRelationFilter
+  events?: Prisma.InvoiceEventListRelationFilter
 }, "id" | "uuid" | "invoiceId">
 
 export type BillOrderByWithAggregationInput = {
@@ -307,6 +336,8 @@ export type BillOrderByWithAggregationInput = {
   status?: Prisma.SortOrder
   paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
   transactionHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  creditedAmount?: Prisma.SortOrder
+  paidAmount?: Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.BillCountOrderByAggregateInput
   _avg?: Prisma.BillAvgOrderByAggregateInput
@@ -328,6 +359,8 @@ export type BillScalarWhereWithAggregatesInput = {
   status?: Prisma.EnumBillStatusEnumWithAggregatesFilter<"Bill"> | $Enums.BillStatusEnum
   paidAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Bill"> | Date | string | null
   transactionHash?: Prisma.StringNullableWithAggregatesFilter<"Bill"> | string | null
+  creditedAmount?: Prisma.StringWithAggregatesFilter<"Bill"> | string
+  paidAmount?: Prisma.StringWithAggregatesFilter<"Bill"> | string
   metadata?: Prisma.JsonNullableWithAggregatesFilter<"Bill">
 }
 
@@ -338,9 +371,14 @@ export type BillCreateInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutBillsInput
   invoice: Prisma.InvoiceCreateNestedOneWithoutBillInput
+  payments?: Prisma.BillPaymentCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutBillInput
 }
 
 export type BillUncheckedCreateInput = {
@@ -353,7 +391,12 @@ export type BillUncheckedCreateInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutBillInput
 }
 
 export type BillUpdateInput = {
@@ -363,9 +406,14 @@ export type BillUpdateInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutBillsNestedInput
   invoice?: Prisma.InvoiceUpdateOneRequiredWithoutBillNestedInput
+  payments?: Prisma.BillPaymentUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutBillNestedInput
 }
 
 export type BillUncheckedUpdateInput = {
@@ -378,7 +426,12 @@ export type BillUncheckedUpdateInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutBillNestedInput
 }
 
 export type BillCreateManyInput = {
@@ -391,6 +444,8 @@ export type BillCreateManyInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
@@ -401,6 +456,8 @@ export type BillUpdateManyMutationInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
@@ -414,6 +471,8 @@ export type BillUncheckedUpdateManyInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
@@ -442,6 +501,8 @@ export type BillCountOrderByAggregateInput = {
   status?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
   transactionHash?: Prisma.SortOrder
+  creditedAmount?: Prisma.SortOrder
+  paidAmount?: Prisma.SortOrder
   metadata?: Prisma.SortOrder
 }
 
@@ -461,6 +522,8 @@ export type BillMaxOrderByAggregateInput = {
   status?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
   transactionHash?: Prisma.SortOrder
+  creditedAmount?: Prisma.SortOrder
+  paidAmount?: Prisma.SortOrder
 }
 
 export type BillMinOrderByAggregateInput = {
@@ -473,6 +536,8 @@ export type BillMinOrderByAggregateInput = {
   status?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
   transactionHash?: Prisma.SortOrder
+  creditedAmount?: Prisma.SortOrder
+  paidAmount?: Prisma.SortOrder
 }
 
 export type BillSumOrderByAggregateInput = {
@@ -481,6 +546,11 @@ export type BillSumOrderByAggregateInput = {
   invoiceId?: Prisma.SortOrder
 }
 
+export type BillScalarRelationFilter = {
+  is?: Prisma.BillWhereInput
+  isNot?: Prisma.BillWhereInput
+}
+
 export type BillCreateNestedManyWithoutCompanyInput = {
   create?: Prisma.XOR<Prisma.BillCreateWithoutCompanyInput, Prisma.BillUncheckedCreateWithoutCompanyInput> | Prisma.BillCreateWithoutCompanyInput[] | Prisma.BillUncheckedCreateWithoutCompanyInput[]
   connectOrCreate?: Prisma.BillCreateOrConnectWithoutCompanyInput | Prisma.BillCreateOrConnectWithoutCompanyInput[]
@@ -555,10 +625,56 @@ export type BillUncheckedUpdateOneWithoutInvoiceNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.BillUpdateToOneWithWhereWithoutInvoiceInput, Prisma.BillUpdateWithoutInvoiceInput>, Prisma.BillUncheckedUpdateWithoutInvoiceInput>
 }
 
+export type BillCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutAttachmentsInput, Prisma.BillUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.BillWhereUniqueInput
+}
+
+export type BillUpdateOneWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutAttachmentsInput, Prisma.BillUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.BillUpsertWithoutAttachmentsInput
+  disconnect?: Prisma.BillWhereInput | boolean
+  delete?: Prisma.BillWhereInput | boolean
+  connect?: Prisma.BillWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BillUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.BillUpdateWithoutAttachmentsInput>, Prisma.BillUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type BillCreateNestedOneWithoutEventsInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutEventsInput, Prisma.BillUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutEventsInput
+  connect?: Prisma.BillWhereUniqueInput
+}
+
+export type BillUpdateOneWithoutEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutEventsInput, Prisma.BillUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutEventsInput
+  upsert?: Prisma.BillUpsertWithoutEventsInput
+  disconnect?: Prisma.BillWhereInput | boolean
+  delete?: Prisma.BillWhereInput | boolean
+  connect?: Prisma.BillWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BillUpdateToOneWithWhereWithoutEventsInput, Prisma.BillUpdateWithoutEventsInput>, Prisma.BillUncheckedUpdateWithoutEventsInput>
+}
+
 export type EnumBillStatusEnumFieldUpdateOperationsInput = {
   set?: $Enums.BillStatusEnum
 }
 
+export type BillCreateNestedOneWithoutPaymentsInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutPaymentsInput, Prisma.BillUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutPaymentsInput
+  connect?: Prisma.BillWhereUniqueInput
+}
+
+export type BillUpdateOneRequiredWithoutPaymentsNestedInput = {
+  create?: Prisma.XOR<Prisma.BillCreateWithoutPaymentsInput, Prisma.BillUncheckedCreateWithoutPaymentsInput>
+  connectOrCreate?: Prisma.BillCreateOrConnectWithoutPaymentsInput
+  upsert?: Prisma.BillUpsertWithoutPaymentsInput
+  connect?: Prisma.BillWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.BillUpdateToOneWithWhereWithoutPaymentsInput, Prisma.BillUpdateWithoutPaymentsInput>, Prisma.BillUncheckedUpdateWithoutPaymentsInput>
+}
+
 export type BillCreateWithoutCompanyInput = {
   uuid?: string
   createdAt?: Date | string
@@ -566,8 +682,13 @@ export type BillCreateWithoutCompanyInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoice: Prisma.InvoiceCreateNestedOneWithoutBillInput
+  payments?: Prisma.BillPaymentCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutBillInput
 }
 
 export type BillUncheckedCreateWithoutCompanyInput = {
@@ -579,7 +700,12 @@ export type BillUncheckedCreateWithoutCompanyInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutBillInput
 }
 
 export type BillCreateOrConnectWithoutCompanyInput = {
@@ -621,6 +747,8 @@ export type BillScalarWhereInput = {
   status?: Prisma.EnumBillStatusEnumFilter<"Bill"> | $Enums.BillStatusEnum
   paidAt?: Prisma.DateTimeNullableFilter<"Bill"> | Date | string | null
   transactionHash?: Prisma.StringNullableFilter<"Bill"> | string | null
+  creditedAmount?: Prisma.StringFilter<"Bill"> | string
+  paidAmount?: Prisma.StringFilter<"Bill"> | string
   metadata?: Prisma.JsonNullableFilter<"Bill">
 }
 
@@ -631,8 +759,13 @@ export type BillCreateWithoutInvoiceInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutBillsInput
+  payments?: Prisma.BillPaymentCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutBillInput
 }
 
 export type BillUncheckedCreateWithoutInvoiceInput = {
@@ -644,7 +777,12 @@ export type BillUncheckedCreateWithoutInvoiceInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutBillInput
 }
 
 export type BillCreateOrConnectWithoutInvoiceInput = {
@@ -670,8 +808,13 @@ export type BillUpdateWithoutInvoiceInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutBillsNestedInput
+  payments?: Prisma.BillPaymentUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutBillNestedInput
 }
 
 export type BillUncheckedUpdateWithoutInvoiceInput = {
@@ -683,7 +826,258 @@ export type BillUncheckedUpdateWithoutInvoiceInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutBillNestedInput
+}
+
+export type BillCreateWithoutAttachmentsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutBillsInput
+  invoice: Prisma.InvoiceCreateNestedOneWithoutBillInput
+  payments?: Prisma.BillPaymentCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutBillInput
+}
+
+export type BillUncheckedCreateWithoutAttachmentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  invoiceId: number
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutBillInput
+}
+
+export type BillCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.BillWhereUniqueInput
+  create: Prisma.XOR<Prisma.BillCreateWithoutAttachmentsInput, Prisma.BillUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type BillUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.BillUpdateWithoutAttachmentsInput, Prisma.BillUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.BillCreateWithoutAttachmentsInput, Prisma.BillUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.BillWhereInput
+}
+
+export type BillUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.BillWhereInput
+  data: Prisma.XOR<Prisma.BillUpdateWithoutAttachmentsInput, Prisma.BillUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type BillUpdateWithoutAttachmentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutBillsNestedInput
+  invoice?: Prisma.InvoiceUpdateOneRequiredWithoutBillNestedInput
+  payments?: Prisma.BillPaymentUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutBillNestedInput
+}
+
+export type BillUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  invoiceId?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutBillNestedInput
+}
+
+export type BillCreateWithoutEventsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutBillsInput
+  invoice: Prisma.InvoiceCreateNestedOneWithoutBillInput
+  payments?: Prisma.BillPaymentCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutBillInput
+}
+
+export type BillUncheckedCreateWithoutEventsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  invoiceId: number
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedCreateNestedManyWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutBillInput
+}
+
+export type BillCreateOrConnectWithoutEventsInput = {
+  where: Prisma.BillWhereUniqueInput
+  create: Prisma.XOR<Prisma.BillCreateWithoutEventsInput, Prisma.BillUncheckedCreateWithoutEventsInput>
+}
+
+export type BillUpsertWithoutEventsInput = {
+  update: Prisma.XOR<Prisma.BillUpdateWithoutEventsInput, Prisma.BillUncheckedUpdateWithoutEventsInput>
+  create: Prisma.XOR<Prisma.BillCreateWithoutEventsInput, Prisma.BillUncheckedCreateWithoutEventsInput>
+  where?: Prisma.BillWhereInput
+}
+
+export type BillUpdateToOneWithWhereWithoutEventsInput = {
+  where?: Prisma.BillWhereInput
+  data: Prisma.XOR<Prisma.BillUpdateWithoutEventsInput, Prisma.BillUncheckedUpdateWithoutEventsInput>
+}
+
+export type BillUpdateWithoutEventsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutBillsNestedInput
+  invoice?: Prisma.InvoiceUpdateOneRequiredWithoutBillNestedInput
+  payments?: Prisma.BillPaymentUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutBillNestedInput
+}
+
+export type BillUncheckedUpdateWithoutEventsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  invoiceId?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutBillNestedInput
+}
+
+export type BillCreateWithoutPaymentsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutBillsInput
+  invoice: Prisma.InvoiceCreateNestedOneWithoutBillInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutBillInput
+}
+
+export type BillUncheckedCreateWithoutPaymentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  invoiceId: number
+  status?: $Enums.BillStatusEnum
+  paidAt?: Date | string | null
+  transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutBillInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutBillInput
+}
+
+export type BillCreateOrConnectWithoutPaymentsInput = {
+  where: Prisma.BillWhereUniqueInput
+  create: Prisma.XOR<Prisma.BillCreateWithoutPaymentsInput, Prisma.BillUncheckedCreateWithoutPaymentsInput>
+}
+
+export type BillUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.BillUpdateWithoutPaymentsInput, Prisma.BillUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.BillCreateWithoutPaymentsInput, Prisma.BillUncheckedCreateWithoutPaymentsInput>
+  where?: Prisma.BillWhereInput
+}
+
+export type BillUpdateToOneWithWhereWithoutPaymentsInput = {
+  where?: Prisma.BillWhereInput
+  data: Prisma.XOR<Prisma.BillUpdateWithoutPaymentsInput, Prisma.BillUncheckedUpdateWithoutPaymentsInput>
+}
+
+export type BillUpdateWithoutPaymentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutBillsNestedInput
+  invoice?: Prisma.InvoiceUpdateOneRequiredWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutBillNestedInput
+}
+
+export type BillUncheckedUpdateWithoutPaymentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  invoiceId?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutBillNestedInput
 }
 
 export type BillCreateManyCompanyInput = {
@@ -695,6 +1089,8 @@ export type BillCreateManyCompanyInput = {
   status?: $Enums.BillStatusEnum
   paidAt?: Date | string | null
   transactionHash?: string | null
+  creditedAmount?: string
+  paidAmount?: string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
@@ -705,8 +1101,13 @@ export type BillUpdateWithoutCompanyInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoice?: Prisma.InvoiceUpdateOneRequiredWithoutBillNestedInput
+  payments?: Prisma.BillPaymentUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutBillNestedInput
 }
 
 export type BillUncheckedUpdateWithoutCompanyInput = {
@@ -718,7 +1119,12 @@ export type BillUncheckedUpdateWithoutCompanyInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payments?: Prisma.BillPaymentUncheckedUpdateManyWithoutBillNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutBillNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutBillNestedInput
 }
 
 export type BillUncheckedUpdateManyWithoutCompanyInput = {
@@ -730,10 +1136,59 @@ export type BillUncheckedUpdateManyWithoutCompanyInput = {
   status?: Prisma.EnumBillStatusEnumFieldUpdateOperationsInput | $Enums.BillStatusEnum
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   transactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  creditedAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  paidAmount?: Prisma.StringFieldUpdateOperationsInput | string
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
 
+/**
+ * Count Type BillCountOutputType
+ */
+
+export type BillCountOutputType = {
+  payments: number
+  attachments: number
+  events: number
+}
+
+export type BillCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  payments?: boolean | BillCountOutputTypeCountPaymentsArgs
+  attachments?: boolean | BillCountOutputTypeCountAttachmentsArgs
+  events?: boolean | BillCountOutputTypeCountEventsArgs
+}
+
+/**
+ * BillCountOutputType without action
+ */
+export type BillCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BillCountOutputType
+   */
+  select?: Prisma.BillCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * BillCountOutputType without action
+ */
+export type BillCountOutputTypeCountPaymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.BillPaymentWhereInput
+}
+
+/**
+ * BillCountOutputType without action
+ */
+export type BillCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceAttachmentWhereInput
+}
+
+/**
+ * BillCountOutputType without action
+ */
+export type BillCountOutputTypeCountEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceEventWhereInput
+}
+
 
 export type BillSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -745,9 +1200,15 @@ export type BillSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   status?: boolean
   paidAt?: boolean
   transactionHash?: boolean
+  creditedAmount?: boolean
+  paidAmount?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
+  payments?: boolean | Prisma.Bill$paymentsArgs<ExtArgs>
+  attachments?: boolean | Prisma.Bill$attachmentsArgs<ExtArgs>
+  events?: boolean | Prisma.Bill$eventsArgs<ExtArgs>
+  _count?: boolean | Prisma.BillCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["bill"]>
 
 export type BillSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -760,6 +1221,8 @@ export type BillSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   status?: boolean
   paidAt?: boolean
   transactionHash?: boolean
+  creditedAmount?: boolean
+  paidAmount?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
@@ -775,6 +1238,8 @@ export type BillSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
   status?: boolean
   paidAt?: boolean
   transactionHash?: boolean
+  creditedAmount?: boolean
+  paidAmount?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
@@ -790,13 +1255,19 @@ export type BillSelectScalar = {
   status?: boolean
   paidAt?: boolean
   transactionHash?: boolean
+  creditedAmount?: boolean
+  paidAmount?: boolean
   metadata?: boolean
 }
 
-export type BillOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyId" | "invoiceId" | "status" | "paidAt" | "transactionHash" | "metadata", ExtArgs["result"]["bill"]>
+export type BillOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyId" | "invoiceId" | "status" | "paidAt" | "transactionHash" | "creditedAmount" | "paidAmount" | "metadata", ExtArgs["result"]["bill"]>
 export type BillInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   invoice?: boolean | Prisma.InvoiceDefaultArgs<ExtArgs>
+  payments?: boolean | Prisma.Bill$paymentsArgs<ExtArgs>
+  attachments?: boolean | Prisma.Bill$attachmentsArgs<ExtArgs>
+  events?: boolean | Prisma.Bill$eventsArgs<ExtArgs>
+  _count?: boolean | Prisma.BillCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type BillIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
@@ -812,6 +1283,9 @@ export type $BillPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   objects: {
     company: Prisma.$CompanyPayload<ExtArgs>
     invoice: Prisma.$InvoicePayload<ExtArgs>
+    payments: Prisma.$BillPaymentPayload<ExtArgs>[]
+    attachments: Prisma.$InvoiceAttachmentPayload<ExtArgs>[]
+    events: Prisma.$InvoiceEventPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -823,6 +1297,8 @@ export type $BillPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
     status: $Enums.BillStatusEnum
     paidAt: Date | null
     transactionHash: string | null
+    creditedAmount: string
+    paidAmount: string
     metadata: runtime.JsonValue | null
   }, ExtArgs["result"]["bill"]>
   composites: {}
@@ -1220,6 +1696,9 @@ export interface Prisma__BillClient<T, Null = never, ExtArgs extends runtime.Typ
   readonly [Symbol.toStringTag]: "PrismaPromise"
   company<T extends Prisma.CompanyDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.CompanyDefaultArgs<ExtArgs>>): Prisma.Prisma__CompanyClient<runtime.Types.Result.GetResult<Prisma.$CompanyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   invoice<T extends Prisma.InvoiceDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.InvoiceDefaultArgs<ExtArgs>>): Prisma.Prisma__InvoiceClient<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  payments<T extends Prisma.Bill$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bill$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$BillPaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  attachments<T extends Prisma.Bill$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bill$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  events<T extends Prisma.Bill$eventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Bill$eventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1258,6 +1737,8 @@ export interface BillFieldRefs {
   readonly status: Prisma.FieldRef<"Bill", 'BillStatusEnum'>
   readonly paidAt: Prisma.FieldRef<"Bill", 'DateTime'>
   readonly transactionHash: Prisma.FieldRef<"Bill", 'String'>
+  readonly creditedAmount: Prisma.FieldRef<"Bill", 'String'>
+  readonly paidAmount: Prisma.FieldRef<"Bill", 'String'>
   readonly metadata: Prisma.FieldRef<"Bill", 'Json'>
 }
     
@@ -1654,6 +2135,78 @@ export type BillDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Internal
   limit?: number
 }
 
+/**
+ * Bill.payments
+ */
+export type Bill$paymentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the BillPayment
+   */
+  select?: Prisma.BillPaymentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the BillPayment
+   */
+  omit?: Prisma.BillPaymentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.BillPaymentInclude<ExtArgs> | null
+  where?: Prisma.BillPaymentWhereInput
+  orderBy?: Prisma.BillPaymentOrderByWithRelationInput | Prisma.BillPaymentOrderByWithRelationInput[]
+  cursor?: Prisma.BillPaymentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.BillPaymentScalarFieldEnum | Prisma.BillPaymentScalarFieldEnum[]
+}
+
+/**
+ * Bill.attachments
+ */
+export type Bill$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceAttachment
+   */
+  select?: Prisma.InvoiceAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceAttachment
+   */
+  omit?: Prisma.InvoiceAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceAttachmentInclude<ExtArgs> | null
+  where?: Prisma.InvoiceAttachmentWhereInput
+  orderBy?: Prisma.InvoiceAttachmentOrderByWithRelationInput | Prisma.InvoiceAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceAttachmentScalarFieldEnum | Prisma.InvoiceAttachmentScalarFieldEnum[]
+}
+
+/**
+ * Bill.events
+ */
+export type Bill$eventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceEvent
+   */
+  select?: Prisma.InvoiceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceEvent
+   */
+  omit?: Prisma.InvoiceEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceEventInclude<ExtArgs> | null
+  where?: Prisma.InvoiceEventWhereInput
+  orderBy?: Prisma.InvoiceEventOrderByWithRelationInput | Prisma.InvoiceEventOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceEventScalarFieldEnum | Prisma.InvoiceEventScalarFieldEnum[]
+}
+
 /**
  * Bill without action
  */
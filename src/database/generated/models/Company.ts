@@ -28,10 +28,12 @@ export type AggregateCompany = {
 
 export type CompanyAvgAggregateOutputType = {
   id: number | null
+  invoiceApprovalsRequired: number | null
 }
 
 export type CompanySumAggregateOutputType = {
   id: number | null
+  invoiceApprovalsRequired: number | null
 }
 
 export type CompanyMinAggregateOutputType = {
@@ -44,6 +46,7 @@ export type CompanyMinAggregateOutputType = {
   companyType: $Enums.CompanyTypeEnum | null
   taxId: string | null
   notificationEmail: string | null
+  invoiceApprovalsRequired: number | null
   country: string | null
   address1: string | null
   address2: string | null
@@ -63,6 +66,7 @@ export type CompanyMaxAggregateOutputType = {
   companyType: $Enums.CompanyTypeEnum | null
   taxId: string | null
   notificationEmail: string | null
+  invoiceApprovalsRequired: number | null
   country: string | null
   address1: string | null
   address2: string | null
@@ -83,6 +87,7 @@ export type CompanyCountAggregateOutputType = {
   taxId: number
   notificationEmail: number
   ccNotifications: number
+  invoiceApprovalsRequired: number
   country: number
   address1: number
   address2: number
@@ -97,10 +102,12 @@ export type CompanyCountAggregateOutputType = {
 
 export type CompanyAvgAggregateInputType = {
   id?: true
+  invoiceApprovalsRequired?: true
 }
 
 export type CompanySumAggregateInputType = {
   id?: true
+  invoiceApprovalsRequired?: true
 }
 
 export type CompanyMinAggregateInputType = {
@@ -113,6 +120,7 @@ export type CompanyMinAggregateInputType = {
   companyType?: true
   taxId?: true
   notificationEmail?: true
+  invoiceApprovalsRequired?: true
   country?: true
   address1?: true
   address2?: true
@@ -132,6 +140,7 @@ export type CompanyMaxAggregateInputType = {
   companyType?: true
   taxId?: true
   notificationEmail?: true
+  invoiceApprovalsRequired?: true
   country?: true
   address1?: true
   address2?: true
@@ -152,6 +161,7 @@ export type CompanyCountAggregateInputType = {
   taxId?: true
   notificationEmail?: true
   ccNotifications?: true
+  invoiceApprovalsRequired?: true
   country?: true
   address1?: true
   address2?: true
@@ -260,6 +270,7 @@ export type CompanyGroupByOutputType = {
   taxId: string | null
   notificationEmail: string | null
   ccNotifications: string[]
+  invoiceApprovalsRequired: number
   country: string
   address1: string
   address2: string | null
@@ -304,6 +315,7 @@ export type CompanyWhereInput = {
   taxId?: Prisma.StringNullableFilter<"Company"> | string | null
   notificationEmail?: Prisma.StringNullableFilter<"Company"> | string | null
   ccNotifications?: Prisma.StringNullableListFilter<"Company">
+  invoiceApprovalsRequired?: Prisma.IntFilter<"Company"> | number
   country?: Prisma.StringFilter<"Company"> | string
   address1?: Prisma.StringFilter<"Company"> | string
   address2?: Prisma.StringNullableFilter<"Company"> | string | null
@@ -320,6 +332,13 @@ export type CompanyWhereInput = {
   invoicesFrom?: Prisma.InvoiceListRelationFilter
   invoicesTo?: Prisma.InvoiceListRelationFilter
   paymentLinks?: Prisma.PaymentLinkListRelationFilter
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceListRelationFilter
+  numberedInvoices?: Prisma.InvoiceListRelationFilter
+  invoiceTemplates?: Prisma.InvoiceTemplateListRelationFilter
+  taxRates?: Prisma.TaxRateListRelationFilter
+  invoiceSchedules?: Prisma.InvoiceScheduleListRelationFilter
+  dunningRules?: Prisma.DunningRuleListRelationFilter
+  creditNotes?: Prisma.CreditNoteListRelationFilter
 }
 
 export type CompanyOrderByWithRelationInput = {
@@ -333,6 +352,7 @@ export type CompanyOrderByWithRelationInput = {
   taxId?: Prisma.SortOrderInput | Prisma.SortOrder
   notificationEmail?: Prisma.SortOrderInput | Prisma.SortOrder
   ccNotifications?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
   country?: Prisma.SortOrder
   address1?: Prisma.SortOrder
   address2?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -349,6 +369,13 @@ export type CompanyOrderByWithRelationInput = {
   invoicesFrom?: Prisma.InvoiceOrderByRelationAggregateInput
   invoicesTo?: Prisma.InvoiceOrderByRelationAggregateInput
   paymentLinks?: Prisma.PaymentLinkOrderByRelationAggregateInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceOrderByRelationAggregateInput
+  numberedInvoices?: Prisma.InvoiceOrderByRelationAggregateInput
+  invoiceTemplates?: Prisma.InvoiceTemplateOrderByRelationAggregateInput
+  taxRates?: Prisma.TaxRateOrderByRelationAggregateInput
+  invoiceSchedules?: Prisma.InvoiceScheduleOrderByRelationAggregateInput
+  dunningRules?: Prisma.DunningRuleOrderByRelationAggregateInput
+  creditNotes?: Prisma.CreditNoteOrderByRelationAggregateInput
 }
 
 export type CompanyWhereUniqueInput = Prisma.AtLeast<{
@@ -365,6 +392,7 @@ export type CompanyWhereUniqueInput = Prisma.AtLeast<{
   taxId?: Prisma.StringNullableFilter<"Company"> | string | null
   notificationEmail?: Prisma.StringNullableFilter<"Company"> | string | null
   ccNotifications?: Prisma.StringNullableListFilter<"Company">
+  invoiceApprovalsRequired?: Prisma.IntFilter<"Company"> | number
   country?: Prisma.StringFilter<"Company"> | string
   address1?: Prisma.StringFilter<"Company"> | string
   address2?: Prisma.StringNullableFilter<"Company"> | string | null
@@ -381,6 +409,13 @@ export type CompanyWhereUniqueInput = Prisma.AtLeast<{
   invoicesFrom?: Prisma.InvoiceListRelationFilter
   invoicesTo?: Prisma.InvoiceListRelationFilter
   paymentLinks?: Prisma.PaymentLinkListRelationFilter
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceListRelationFilter
+  numberedInvoices?: Prisma.InvoiceListRelationFilter
+  invoiceTemplates?: Prisma.InvoiceTemplateListRelationFilter
+  taxRates?: Prisma.TaxRateListRelationFilter
+  invoiceSchedules?: Prisma.InvoiceScheduleListRelationFilter
+  dunningRules?: Prisma.DunningRuleListRelationFilter
+  creditNotes?: Prisma.CreditNoteListRelationFilter
 }, "id" | "uuid" | "registrationNumber">
 
 export type CompanyOrderByWithAggregationInput = {
@@ -394,6 +429,7 @@ export type CompanyOrderByWithAggregationInput = {
   taxId?: Prisma.SortOrderInput | Prisma.SortOrder
   notificationEmail?: Prisma.SortOrderInput | Prisma.SortOrder
   ccNotifications?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
   country?: Prisma.SortOrder
   address1?: Prisma.SortOrder
   address2?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -423,6 +459,7 @@ export type CompanyScalarWhereWithAggregatesInput = {
   taxId?: Prisma.StringNullableWithAggregatesFilter<"Company"> | string | null
   notificationEmail?: Prisma.StringNullableWithAggregatesFilter<"Company"> | string | null
   ccNotifications?: Prisma.StringNullableListFilter<"Company">
+  invoiceApprovalsRequired?: Prisma.IntWithAggregatesFilter<"Company"> | number
   country?: Prisma.StringWithAggregatesFilter<"Company"> | string
   address1?: Prisma.StringWithAggregatesFilter<"Company"> | string
   address2?: Prisma.StringNullableWithAggregatesFilter<"Company"> | string | null
@@ -443,6 +480,7 @@ export type CompanyCreateInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -459,6 +497,13 @@ export type CompanyCreateInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateInput = {
@@ -472,6 +517,7 @@ export type CompanyUncheckedCreateInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -488,6 +534,13 @@ export type CompanyUncheckedCreateInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUpdateInput = {
@@ -500,6 +553,7 @@ export type CompanyUpdateInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -516,6 +570,13 @@ export type CompanyUpdateInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateInput = {
@@ -529,6 +590,7 @@ export type CompanyUncheckedUpdateInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -545,6 +607,13 @@ export type CompanyUncheckedUpdateInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateManyInput = {
@@ -558,6 +627,7 @@ export type CompanyCreateManyInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -578,6 +648,7 @@ export type CompanyUpdateManyMutationInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -599,6 +670,7 @@ export type CompanyUncheckedUpdateManyInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -633,6 +705,7 @@ export type CompanyCountOrderByAggregateInput = {
   taxId?: Prisma.SortOrder
   notificationEmail?: Prisma.SortOrder
   ccNotifications?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
   country?: Prisma.SortOrder
   address1?: Prisma.SortOrder
   address2?: Prisma.SortOrder
@@ -645,6 +718,7 @@ export type CompanyCountOrderByAggregateInput = {
 
 export type CompanyAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
 }
 
 export type CompanyMaxOrderByAggregateInput = {
@@ -657,6 +731,7 @@ export type CompanyMaxOrderByAggregateInput = {
   companyType?: Prisma.SortOrder
   taxId?: Prisma.SortOrder
   notificationEmail?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
   country?: Prisma.SortOrder
   address1?: Prisma.SortOrder
   address2?: Prisma.SortOrder
@@ -676,6 +751,7 @@ export type CompanyMinOrderByAggregateInput = {
   companyType?: Prisma.SortOrder
   taxId?: Prisma.SortOrder
   notificationEmail?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
   country?: Prisma.SortOrder
   address1?: Prisma.SortOrder
   address2?: Prisma.SortOrder
@@ -687,6 +763,7 @@ export type CompanyMinOrderByAggregateInput = {
 
 export type CompanySumOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  invoiceApprovalsRequired?: Prisma.SortOrder
 }
 
 export type CompanyNullableScalarRelationFilter = {
@@ -767,6 +844,12 @@ export type CompanyUpdateOneRequiredWithoutPayrollsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutPayrollsInput, Prisma.CompanyUpdateWithoutPayrollsInput>, Prisma.CompanyUncheckedUpdateWithoutPayrollsInput>
 }
 
+export type CompanyCreateNestedOneWithoutNumberedInvoicesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedCreateWithoutNumberedInvoicesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutNumberedInvoicesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
 export type CompanyCreateNestedOneWithoutInvoicesFromInput = {
   create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
   connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoicesFromInput
@@ -779,6 +862,16 @@ export type CompanyCreateNestedOneWithoutInvoicesToInput = {
   connect?: Prisma.CompanyWhereUniqueInput
 }
 
+export type CompanyUpdateOneWithoutNumberedInvoicesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedCreateWithoutNumberedInvoicesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutNumberedInvoicesInput
+  upsert?: Prisma.CompanyUpsertWithoutNumberedInvoicesInput
+  disconnect?: Prisma.CompanyWhereInput | boolean
+  delete?: Prisma.CompanyWhereInput | boolean
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutNumberedInvoicesInput, Prisma.CompanyUpdateWithoutNumberedInvoicesInput>, Prisma.CompanyUncheckedUpdateWithoutNumberedInvoicesInput>
+}
+
 export type CompanyUpdateOneWithoutInvoicesFromNestedInput = {
   create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
   connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoicesFromInput
@@ -799,6 +892,92 @@ export type CompanyUpdateOneWithoutInvoicesToNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutInvoicesToInput, Prisma.CompanyUpdateWithoutInvoicesToInput>, Prisma.CompanyUncheckedUpdateWithoutInvoicesToInput>
 }
 
+export type CompanyCreateNestedOneWithoutInvoiceNumberSequencesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceNumberSequencesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceNumberSequencesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneRequiredWithoutInvoiceNumberSequencesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceNumberSequencesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceNumberSequencesInput
+  upsert?: Prisma.CompanyUpsertWithoutInvoiceNumberSequencesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutInvoiceNumberSequencesInput, Prisma.CompanyUpdateWithoutInvoiceNumberSequencesInput>, Prisma.CompanyUncheckedUpdateWithoutInvoiceNumberSequencesInput>
+}
+
+export type CompanyCreateNestedOneWithoutTaxRatesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutTaxRatesInput, Prisma.CompanyUncheckedCreateWithoutTaxRatesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutTaxRatesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneRequiredWithoutTaxRatesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutTaxRatesInput, Prisma.CompanyUncheckedCreateWithoutTaxRatesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutTaxRatesInput
+  upsert?: Prisma.CompanyUpsertWithoutTaxRatesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutTaxRatesInput, Prisma.CompanyUpdateWithoutTaxRatesInput>, Prisma.CompanyUncheckedUpdateWithoutTaxRatesInput>
+}
+
+export type CompanyCreateNestedOneWithoutInvoiceTemplatesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceTemplatesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceTemplatesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneRequiredWithoutInvoiceTemplatesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceTemplatesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceTemplatesInput
+  upsert?: Prisma.CompanyUpsertWithoutInvoiceTemplatesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutInvoiceTemplatesInput, Prisma.CompanyUpdateWithoutInvoiceTemplatesInput>, Prisma.CompanyUncheckedUpdateWithoutInvoiceTemplatesInput>
+}
+
+export type CompanyCreateNestedOneWithoutCreditNotesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutCreditNotesInput, Prisma.CompanyUncheckedCreateWithoutCreditNotesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutCreditNotesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneRequiredWithoutCreditNotesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutCreditNotesInput, Prisma.CompanyUncheckedCreateWithoutCreditNotesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutCreditNotesInput
+  upsert?: Prisma.CompanyUpsertWithoutCreditNotesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutCreditNotesInput, Prisma.CompanyUpdateWithoutCreditNotesInput>, Prisma.CompanyUncheckedUpdateWithoutCreditNotesInput>
+}
+
+export type CompanyCreateNestedOneWithoutDunningRulesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutDunningRulesInput, Prisma.CompanyUncheckedCreateWithoutDunningRulesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutDunningRulesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneRequiredWithoutDunningRulesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutDunningRulesInput, Prisma.CompanyUncheckedCreateWithoutDunningRulesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutDunningRulesInput
+  upsert?: Prisma.CompanyUpsertWithoutDunningRulesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutDunningRulesInput, Prisma.CompanyUpdateWithoutDunningRulesInput>, Prisma.CompanyUncheckedUpdateWithoutDunningRulesInput>
+}
+
+export type CompanyCreateNestedOneWithoutInvoiceSchedulesInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceSchedulesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceSchedulesInput
+  connect?: Prisma.CompanyWhereUniqueInput
+}
+
+export type CompanyUpdateOneWithoutInvoiceSchedulesNestedInput = {
+  create?: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceSchedulesInput>
+  connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutInvoiceSchedulesInput
+  upsert?: Prisma.CompanyUpsertWithoutInvoiceSchedulesInput
+  disconnect?: Prisma.CompanyWhereInput | boolean
+  delete?: Prisma.CompanyWhereInput | boolean
+  connect?: Prisma.CompanyWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.CompanyUpdateToOneWithWhereWithoutInvoiceSchedulesInput, Prisma.CompanyUpdateWithoutInvoiceSchedulesInput>, Prisma.CompanyUncheckedUpdateWithoutInvoiceSchedulesInput>
+}
+
 export type CompanyCreateNestedOneWithoutBillsInput = {
   create?: Prisma.XOR<Prisma.CompanyCreateWithoutBillsInput, Prisma.CompanyUncheckedCreateWithoutBillsInput>
   connectOrCreate?: Prisma.CompanyCreateOrConnectWithoutBillsInput
@@ -837,6 +1016,7 @@ export type CompanyCreateWithoutTeamMembersInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -852,6 +1032,13 @@ export type CompanyCreateWithoutTeamMembersInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutTeamMembersInput = {
@@ -865,6 +1052,7 @@ export type CompanyUncheckedCreateWithoutTeamMembersInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -880,6 +1068,13 @@ export type CompanyUncheckedCreateWithoutTeamMembersInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutTeamMembersInput = {
@@ -908,6 +1103,7 @@ export type CompanyUpdateWithoutTeamMembersInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -923,6 +1119,13 @@ export type CompanyUpdateWithoutTeamMembersInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutTeamMembersInput = {
@@ -936,6 +1139,7 @@ export type CompanyUncheckedUpdateWithoutTeamMembersInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -951,6 +1155,13 @@ export type CompanyUncheckedUpdateWithoutTeamMembersInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateWithoutContactsInput = {
@@ -963,6 +1174,7 @@ export type CompanyCreateWithoutContactsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -978,6 +1190,13 @@ export type CompanyCreateWithoutContactsInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutContactsInput = {
@@ -991,6 +1210,7 @@ export type CompanyUncheckedCreateWithoutContactsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1006,6 +1226,13 @@ export type CompanyUncheckedCreateWithoutContactsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutContactsInput = {
@@ -1034,6 +1261,7 @@ export type CompanyUpdateWithoutContactsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1049,6 +1277,13 @@ export type CompanyUpdateWithoutContactsInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutContactsInput = {
@@ -1062,6 +1297,7 @@ export type CompanyUncheckedUpdateWithoutContactsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1077,6 +1313,13 @@ export type CompanyUncheckedUpdateWithoutContactsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateWithoutGroupsInput = {
@@ -1089,6 +1332,7 @@ export type CompanyCreateWithoutGroupsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1104,6 +1348,13 @@ export type CompanyCreateWithoutGroupsInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutGroupsInput = {
@@ -1117,6 +1368,7 @@ export type CompanyUncheckedCreateWithoutGroupsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1132,6 +1384,13 @@ export type CompanyUncheckedCreateWithoutGroupsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutGroupsInput = {
@@ -1160,6 +1419,7 @@ export type CompanyUpdateWithoutGroupsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1175,6 +1435,13 @@ export type CompanyUpdateWithoutGroupsInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutGroupsInput = {
@@ -1188,6 +1455,7 @@ export type CompanyUncheckedUpdateWithoutGroupsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1203,6 +1471,13 @@ export type CompanyUncheckedUpdateWithoutGroupsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateWithoutPayrollsInput = {
@@ -1215,6 +1490,7 @@ export type CompanyCreateWithoutPayrollsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1230,6 +1506,13 @@ export type CompanyCreateWithoutPayrollsInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutPayrollsInput = {
@@ -1243,6 +1526,7 @@ export type CompanyUncheckedCreateWithoutPayrollsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1258,6 +1542,13 @@ export type CompanyUncheckedCreateWithoutPayrollsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutPayrollsInput = {
@@ -1286,6 +1577,7 @@ export type CompanyUpdateWithoutPayrollsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1301,6 +1593,13 @@ export type CompanyUpdateWithoutPayrollsInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutPayrollsInput = {
@@ -1314,6 +1613,7 @@ export type CompanyUncheckedUpdateWithoutPayrollsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1329,6 +1629,89 @@ export type CompanyUncheckedUpdateWithoutPayrollsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyCreateWithoutNumberedInvoicesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutNumberedInvoicesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutNumberedInvoicesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedCreateWithoutNumberedInvoicesInput>
 }
 
 export type CompanyCreateWithoutInvoicesFromInput = {
@@ -1341,6 +1724,7 @@ export type CompanyCreateWithoutInvoicesFromInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1356,6 +1740,13 @@ export type CompanyCreateWithoutInvoicesFromInput = {
   bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutInvoicesFromInput = {
@@ -1369,6 +1760,7 @@ export type CompanyUncheckedCreateWithoutInvoicesFromInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1384,14 +1776,975 @@ export type CompanyUncheckedCreateWithoutInvoicesFromInput = {
   bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutInvoicesFromInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
+}
+
+export type CompanyCreateWithoutInvoicesToInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutInvoicesToInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutInvoicesToInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesToInput, Prisma.CompanyUncheckedCreateWithoutInvoicesToInput>
+}
+
+export type CompanyUpsertWithoutNumberedInvoicesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedUpdateWithoutNumberedInvoicesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedCreateWithoutNumberedInvoicesInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutNumberedInvoicesInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutNumberedInvoicesInput, Prisma.CompanyUncheckedUpdateWithoutNumberedInvoicesInput>
+}
+
+export type CompanyUpdateWithoutNumberedInvoicesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutNumberedInvoicesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUpsertWithoutInvoicesFromInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesFromInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesFromInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutInvoicesFromInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesFromInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesFromInput>
+}
+
+export type CompanyUpdateWithoutInvoicesFromInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutInvoicesFromInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUpsertWithoutInvoicesToInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesToInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesToInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesToInput, Prisma.CompanyUncheckedCreateWithoutInvoicesToInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutInvoicesToInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesToInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesToInput>
+}
+
+export type CompanyUpdateWithoutInvoicesToInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutInvoicesToInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyCreateWithoutInvoiceNumberSequencesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutInvoiceNumberSequencesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutInvoiceNumberSequencesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceNumberSequencesInput>
+}
+
+export type CompanyUpsertWithoutInvoiceNumberSequencesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceNumberSequencesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceNumberSequencesInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutInvoiceNumberSequencesInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceNumberSequencesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceNumberSequencesInput>
+}
+
+export type CompanyUpdateWithoutInvoiceNumberSequencesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutInvoiceNumberSequencesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyCreateWithoutTaxRatesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutTaxRatesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutTaxRatesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutTaxRatesInput, Prisma.CompanyUncheckedCreateWithoutTaxRatesInput>
+}
+
+export type CompanyUpsertWithoutTaxRatesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutTaxRatesInput, Prisma.CompanyUncheckedUpdateWithoutTaxRatesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutTaxRatesInput, Prisma.CompanyUncheckedCreateWithoutTaxRatesInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutTaxRatesInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutTaxRatesInput, Prisma.CompanyUncheckedUpdateWithoutTaxRatesInput>
+}
+
+export type CompanyUpdateWithoutTaxRatesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutTaxRatesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyCreateWithoutInvoiceTemplatesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutInvoiceTemplatesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutInvoiceTemplatesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceTemplatesInput>
+}
+
+export type CompanyUpsertWithoutInvoiceTemplatesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceTemplatesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceTemplatesInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutInvoiceTemplatesInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceTemplatesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceTemplatesInput>
+}
+
+export type CompanyUpdateWithoutInvoiceTemplatesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyUncheckedUpdateWithoutInvoiceTemplatesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
+}
+
+export type CompanyCreateWithoutCreditNotesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutCreditNotesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutCreditNotesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutCreditNotesInput, Prisma.CompanyUncheckedCreateWithoutCreditNotesInput>
+}
+
+export type CompanyUpsertWithoutCreditNotesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutCreditNotesInput, Prisma.CompanyUncheckedUpdateWithoutCreditNotesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutCreditNotesInput, Prisma.CompanyUncheckedCreateWithoutCreditNotesInput>
+  where?: Prisma.CompanyWhereInput
+}
+
+export type CompanyUpdateToOneWithWhereWithoutCreditNotesInput = {
+  where?: Prisma.CompanyWhereInput
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutCreditNotesInput, Prisma.CompanyUncheckedUpdateWithoutCreditNotesInput>
+}
+
+export type CompanyUpdateWithoutCreditNotesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
 }
 
-export type CompanyCreateOrConnectWithoutInvoicesFromInput = {
-  where: Prisma.CompanyWhereUniqueInput
-  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
+export type CompanyUncheckedUpdateWithoutCreditNotesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyName?: Prisma.StringFieldUpdateOperationsInput | string
+  registrationNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  companyType?: Prisma.EnumCompanyTypeEnumFieldUpdateOperationsInput | $Enums.CompanyTypeEnum
+  taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  country?: Prisma.StringFieldUpdateOperationsInput | string
+  address1?: Prisma.StringFieldUpdateOperationsInput | string
+  address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  city?: Prisma.StringFieldUpdateOperationsInput | string
+  postalCode?: Prisma.StringFieldUpdateOperationsInput | string
+  verificationStatus?: Prisma.EnumCompanyVerificationStatusEnumFieldUpdateOperationsInput | $Enums.CompanyVerificationStatusEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutCompanyNestedInput
+  contacts?: Prisma.EmployeeUncheckedUpdateManyWithoutCompanyNestedInput
+  groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
+  payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
+  bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
-export type CompanyCreateWithoutInvoicesToInput = {
+export type CompanyCreateWithoutDunningRulesInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1401,6 +2754,7 @@ export type CompanyCreateWithoutInvoicesToInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1415,10 +2769,17 @@ export type CompanyCreateWithoutInvoicesToInput = {
   payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
   bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
-export type CompanyUncheckedCreateWithoutInvoicesToInput = {
+export type CompanyUncheckedCreateWithoutDunningRulesInput = {
   id?: number
   uuid?: string
   createdAt?: Date | string
@@ -1429,6 +2790,7 @@ export type CompanyUncheckedCreateWithoutInvoicesToInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1443,26 +2805,33 @@ export type CompanyUncheckedCreateWithoutInvoicesToInput = {
   payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
   bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
-export type CompanyCreateOrConnectWithoutInvoicesToInput = {
+export type CompanyCreateOrConnectWithoutDunningRulesInput = {
   where: Prisma.CompanyWhereUniqueInput
-  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesToInput, Prisma.CompanyUncheckedCreateWithoutInvoicesToInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutDunningRulesInput, Prisma.CompanyUncheckedCreateWithoutDunningRulesInput>
 }
 
-export type CompanyUpsertWithoutInvoicesFromInput = {
-  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesFromInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesFromInput>
-  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesFromInput, Prisma.CompanyUncheckedCreateWithoutInvoicesFromInput>
+export type CompanyUpsertWithoutDunningRulesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutDunningRulesInput, Prisma.CompanyUncheckedUpdateWithoutDunningRulesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutDunningRulesInput, Prisma.CompanyUncheckedCreateWithoutDunningRulesInput>
   where?: Prisma.CompanyWhereInput
 }
 
-export type CompanyUpdateToOneWithWhereWithoutInvoicesFromInput = {
+export type CompanyUpdateToOneWithWhereWithoutDunningRulesInput = {
   where?: Prisma.CompanyWhereInput
-  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesFromInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesFromInput>
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutDunningRulesInput, Prisma.CompanyUncheckedUpdateWithoutDunningRulesInput>
 }
 
-export type CompanyUpdateWithoutInvoicesFromInput = {
+export type CompanyUpdateWithoutDunningRulesInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1472,6 +2841,7 @@ export type CompanyUpdateWithoutInvoicesFromInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1485,11 +2855,18 @@ export type CompanyUpdateWithoutInvoicesFromInput = {
   groups?: Prisma.EmployeeGroupUpdateManyWithoutCompanyNestedInput
   payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
   bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
-export type CompanyUncheckedUpdateWithoutInvoicesFromInput = {
+export type CompanyUncheckedUpdateWithoutDunningRulesInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1500,6 +2877,7 @@ export type CompanyUncheckedUpdateWithoutInvoicesFromInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1513,22 +2891,105 @@ export type CompanyUncheckedUpdateWithoutInvoicesFromInput = {
   groups?: Prisma.EmployeeGroupUncheckedUpdateManyWithoutCompanyNestedInput
   payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
   bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
+  invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
-export type CompanyUpsertWithoutInvoicesToInput = {
-  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesToInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesToInput>
-  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoicesToInput, Prisma.CompanyUncheckedCreateWithoutInvoicesToInput>
+export type CompanyCreateWithoutInvoiceSchedulesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyUncheckedCreateWithoutInvoiceSchedulesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyName: string
+  registrationNumber: string
+  companyType: $Enums.CompanyTypeEnum
+  taxId?: string | null
+  notificationEmail?: string | null
+  ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
+  country: string
+  address1: string
+  address2?: string | null
+  city: string
+  postalCode: string
+  verificationStatus?: $Enums.CompanyVerificationStatusEnum
+  isActive?: boolean
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  teamMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutCompanyInput
+  contacts?: Prisma.EmployeeUncheckedCreateNestedManyWithoutCompanyInput
+  groups?: Prisma.EmployeeGroupUncheckedCreateNestedManyWithoutCompanyInput
+  payrolls?: Prisma.PayrollUncheckedCreateNestedManyWithoutCompanyInput
+  bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
+  invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
+  invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
+}
+
+export type CompanyCreateOrConnectWithoutInvoiceSchedulesInput = {
+  where: Prisma.CompanyWhereUniqueInput
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceSchedulesInput>
+}
+
+export type CompanyUpsertWithoutInvoiceSchedulesInput = {
+  update: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceSchedulesInput>
+  create: Prisma.XOR<Prisma.CompanyCreateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedCreateWithoutInvoiceSchedulesInput>
   where?: Prisma.CompanyWhereInput
 }
 
-export type CompanyUpdateToOneWithWhereWithoutInvoicesToInput = {
+export type CompanyUpdateToOneWithWhereWithoutInvoiceSchedulesInput = {
   where?: Prisma.CompanyWhereInput
-  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoicesToInput, Prisma.CompanyUncheckedUpdateWithoutInvoicesToInput>
+  data: Prisma.XOR<Prisma.CompanyUpdateWithoutInvoiceSchedulesInput, Prisma.CompanyUncheckedUpdateWithoutInvoiceSchedulesInput>
 }
 
-export type CompanyUpdateWithoutInvoicesToInput = {
+export type CompanyUpdateWithoutInvoiceSchedulesInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1538,6 +2999,7 @@ export type CompanyUpdateWithoutInvoicesToInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1552,10 +3014,17 @@ export type CompanyUpdateWithoutInvoicesToInput = {
   payrolls?: Prisma.PayrollUpdateManyWithoutCompanyNestedInput
   bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
-export type CompanyUncheckedUpdateWithoutInvoicesToInput = {
+export type CompanyUncheckedUpdateWithoutInvoiceSchedulesInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1566,6 +3035,7 @@ export type CompanyUncheckedUpdateWithoutInvoicesToInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1580,7 +3050,14 @@ export type CompanyUncheckedUpdateWithoutInvoicesToInput = {
   payrolls?: Prisma.PayrollUncheckedUpdateManyWithoutCompanyNestedInput
   bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
+  invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateWithoutBillsInput = {
@@ -1593,6 +3070,7 @@ export type CompanyCreateWithoutBillsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1608,6 +3086,13 @@ export type CompanyCreateWithoutBillsInput = {
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutBillsInput = {
@@ -1621,6 +3106,7 @@ export type CompanyUncheckedCreateWithoutBillsInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1636,6 +3122,13 @@ export type CompanyUncheckedCreateWithoutBillsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
   paymentLinks?: Prisma.PaymentLinkUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutBillsInput = {
@@ -1664,6 +3157,7 @@ export type CompanyUpdateWithoutBillsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1679,6 +3173,13 @@ export type CompanyUpdateWithoutBillsInput = {
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutBillsInput = {
@@ -1692,6 +3193,7 @@ export type CompanyUncheckedUpdateWithoutBillsInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1707,6 +3209,13 @@ export type CompanyUncheckedUpdateWithoutBillsInput = {
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
   paymentLinks?: Prisma.PaymentLinkUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyCreateWithoutPaymentLinksInput = {
@@ -1719,6 +3228,7 @@ export type CompanyCreateWithoutPaymentLinksInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1734,6 +3244,13 @@ export type CompanyCreateWithoutPaymentLinksInput = {
   bills?: Prisma.BillCreateNestedManyWithoutCompanyInput
   invoicesFrom?: Prisma.InvoiceCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceCreateNestedManyWithoutToCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyUncheckedCreateWithoutPaymentLinksInput = {
@@ -1747,6 +3264,7 @@ export type CompanyUncheckedCreateWithoutPaymentLinksInput = {
   taxId?: string | null
   notificationEmail?: string | null
   ccNotifications?: Prisma.CompanyCreateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: number
   country: string
   address1: string
   address2?: string | null
@@ -1762,6 +3280,13 @@ export type CompanyUncheckedCreateWithoutPaymentLinksInput = {
   bills?: Prisma.BillUncheckedCreateNestedManyWithoutCompanyInput
   invoicesFrom?: Prisma.InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput
   invoicesTo?: Prisma.InvoiceUncheckedCreateNestedManyWithoutToCompanyInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedCreateNestedManyWithoutCompanyInput
+  numberedInvoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedCreateNestedManyWithoutCompanyInput
+  taxRates?: Prisma.TaxRateUncheckedCreateNestedManyWithoutCompanyInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutCompanyInput
+  dunningRules?: Prisma.DunningRuleUncheckedCreateNestedManyWithoutCompanyInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutCompanyInput
 }
 
 export type CompanyCreateOrConnectWithoutPaymentLinksInput = {
@@ -1790,6 +3315,7 @@ export type CompanyUpdateWithoutPaymentLinksInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1805,6 +3331,13 @@ export type CompanyUpdateWithoutPaymentLinksInput = {
   bills?: Prisma.BillUpdateManyWithoutCompanyNestedInput
   invoicesFrom?: Prisma.InvoiceUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUpdateManyWithoutToCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutCompanyNestedInput
 }
 
 export type CompanyUncheckedUpdateWithoutPaymentLinksInput = {
@@ -1818,6 +3351,7 @@ export type CompanyUncheckedUpdateWithoutPaymentLinksInput = {
   taxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   notificationEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   ccNotifications?: Prisma.CompanyUpdateccNotificationsInput | string[]
+  invoiceApprovalsRequired?: Prisma.IntFieldUpdateOperationsInput | number
   country?: Prisma.StringFieldUpdateOperationsInput | string
   address1?: Prisma.StringFieldUpdateOperationsInput | string
   address2?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1833,6 +3367,13 @@ export type CompanyUncheckedUpdateWithoutPaymentLinksInput = {
   bills?: Prisma.BillUncheckedUpdateManyWithoutCompanyNestedInput
   invoicesFrom?: Prisma.InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput
   invoicesTo?: Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput
+  invoiceNumberSequences?: Prisma.InvoiceNumberSequenceUncheckedUpdateManyWithoutCompanyNestedInput
+  numberedInvoices?: Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput
+  invoiceTemplates?: Prisma.InvoiceTemplateUncheckedUpdateManyWithoutCompanyNestedInput
+  taxRates?: Prisma.TaxRateUncheckedUpdateManyWithoutCompanyNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutCompanyNestedInput
+  dunningRules?: Prisma.DunningRuleUncheckedUpdateManyWithoutCompanyNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutCompanyNestedInput
 }
 
 
@@ -1849,6 +3390,13 @@ export type CompanyCountOutputType = {
   invoicesFrom: number
   invoicesTo: number
   paymentLinks: number
+  invoiceNumberSequences: number
+  numberedInvoices: number
+  invoiceTemplates: number
+  taxRates: number
+  invoiceSchedules: number
+  dunningRules: number
+  creditNotes: number
 }
 
 export type CompanyCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1860,6 +3408,13 @@ export type CompanyCountOutputTypeSelect<ExtArgs extends runtime.Types.Extension
   invoicesFrom?: boolean | CompanyCountOutputTypeCountInvoicesFromArgs
   invoicesTo?: boolean | CompanyCountOutputTypeCountInvoicesToArgs
   paymentLinks?: boolean | CompanyCountOutputTypeCountPaymentLinksArgs
+  invoiceNumberSequences?: boolean | CompanyCountOutputTypeCountInvoiceNumberSequencesArgs
+  numberedInvoices?: boolean | CompanyCountOutputTypeCountNumberedInvoicesArgs
+  invoiceTemplates?: boolean | CompanyCountOutputTypeCountInvoiceTemplatesArgs
+  taxRates?: boolean | CompanyCountOutputTypeCountTaxRatesArgs
+  invoiceSchedules?: boolean | CompanyCountOutputTypeCountInvoiceSchedulesArgs
+  dunningRules?: boolean | CompanyCountOutputTypeCountDunningRulesArgs
+  creditNotes?: boolean | CompanyCountOutputTypeCountCreditNotesArgs
 }
 
 /**
@@ -1928,6 +3483,55 @@ export type CompanyCountOutputTypeCountPaymentLinksArgs<ExtArgs extends runtime.
   where?: Prisma.PaymentLinkWhereInput
 }
 
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountInvoiceNumberSequencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceNumberSequenceWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountNumberedInvoicesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountInvoiceTemplatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceTemplateWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountTaxRatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.TaxRateWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountInvoiceSchedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceScheduleWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountDunningRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DunningRuleWhereInput
+}
+
+/**
+ * CompanyCountOutputType without action
+ */
+export type CompanyCountOutputTypeCountCreditNotesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CreditNoteWhereInput
+}
+
 
 export type CompanySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1940,6 +3544,7 @@ export type CompanySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   taxId?: boolean
   notificationEmail?: boolean
   ccNotifications?: boolean
+  invoiceApprovalsRequired?: boolean
   country?: boolean
   address1?: boolean
   address2?: boolean
@@ -1956,6 +3561,13 @@ export type CompanySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   invoicesFrom?: boolean | Prisma.Company$invoicesFromArgs<ExtArgs>
   invoicesTo?: boolean | Prisma.Company$invoicesToArgs<ExtArgs>
   paymentLinks?: boolean | Prisma.Company$paymentLinksArgs<ExtArgs>
+  invoiceNumberSequences?: boolean | Prisma.Company$invoiceNumberSequencesArgs<ExtArgs>
+  numberedInvoices?: boolean | Prisma.Company$numberedInvoicesArgs<ExtArgs>
+  invoiceTemplates?: boolean | Prisma.Company$invoiceTemplatesArgs<ExtArgs>
+  taxRates?: boolean | Prisma.Company$taxRatesArgs<ExtArgs>
+  invoiceSchedules?: boolean | Prisma.Company$invoiceSchedulesArgs<ExtArgs>
+  dunningRules?: boolean | Prisma.Company$dunningRulesArgs<ExtArgs>
+  creditNotes?: boolean | Prisma.Company$creditNotesArgs<ExtArgs>
   _count?: boolean | Prisma.CompanyCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["company"]>
 
@@ -1970,6 +3582,7 @@ export type CompanySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   taxId?: boolean
   notificationEmail?: boolean
   ccNotifications?: boolean
+  invoiceApprovalsRequired?: boolean
   country?: boolean
   address1?: boolean
   address2?: boolean
@@ -1991,6 +3604,7 @@ export type CompanySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   taxId?: boolean
   notificationEmail?: boolean
   ccNotifications?: boolean
+  invoiceApprovalsRequired?: boolean
   country?: boolean
   address1?: boolean
   address2?: boolean
@@ -2012,6 +3626,7 @@ export type CompanySelectScalar = {
   taxId?: boolean
   notificationEmail?: boolean
   ccNotifications?: boolean
+  invoiceApprovalsRequired?: boolean
   country?: boolean
   address1?: boolean
   address2?: boolean
@@ -2022,7 +3637,7 @@ export type CompanySelectScalar = {
   metadata?: boolean
 }
 
-export type CompanyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyName" | "registrationNumber" | "companyType" | "taxId" | "notificationEmail" | "ccNotifications" | "country" | "address1" | "address2" | "city" | "postalCode" | "verificationStatus" | "isActive" | "metadata", ExtArgs["result"]["company"]>
+export type CompanyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyName" | "registrationNumber" | "companyType" | "taxId" | "notificationEmail" | "ccNotifications" | "invoiceApprovalsRequired" | "country" | "address1" | "address2" | "city" | "postalCode" | "verificationStatus" | "isActive" | "metadata", ExtArgs["result"]["company"]>
 export type CompanyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   teamMembers?: boolean | Prisma.Company$teamMembersArgs<ExtArgs>
   contacts?: boolean | Prisma.Company$contactsArgs<ExtArgs>
@@ -2032,6 +3647,13 @@ export type CompanyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   invoicesFrom?: boolean | Prisma.Company$invoicesFromArgs<ExtArgs>
   invoicesTo?: boolean | Prisma.Company$invoicesToArgs<ExtArgs>
   paymentLinks?: boolean | Prisma.Company$paymentLinksArgs<ExtArgs>
+  invoiceNumberSequences?: boolean | Prisma.Company$invoiceNumberSequencesArgs<ExtArgs>
+  numberedInvoices?: boolean | Prisma.Company$numberedInvoicesArgs<ExtArgs>
+  invoiceTemplates?: boolean | Prisma.Company$invoiceTemplatesArgs<ExtArgs>
+  taxRates?: boolean | Prisma.Company$taxRatesArgs<ExtArgs>
+  invoiceSchedules?: boolean | Prisma.Company$invoiceSchedulesArgs<ExtArgs>
+  dunningRules?: boolean | Prisma.Company$dunningRulesArgs<ExtArgs>
+  creditNotes?: boolean | Prisma.Company$creditNotesArgs<ExtArgs>
   _count?: boolean | Prisma.CompanyCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type CompanyIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -2048,6 +3670,13 @@ export type $CompanyPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     invoicesFrom: Prisma.$InvoicePayload<ExtArgs>[]
     invoicesTo: Prisma.$InvoicePayload<ExtArgs>[]
     paymentLinks: Prisma.$PaymentLinkPayload<ExtArgs>[]
+    invoiceNumberSequences: Prisma.$InvoiceNumberSequencePayload<ExtArgs>[]
+    numberedInvoices: Prisma.$InvoicePayload<ExtArgs>[]
+    invoiceTemplates: Prisma.$InvoiceTemplatePayload<ExtArgs>[]
+    taxRates: Prisma.$TaxRatePayload<ExtArgs>[]
+    invoiceSchedules: Prisma.$InvoiceSchedulePayload<ExtArgs>[]
+    dunningRules: Prisma.$DunningRulePayload<ExtArgs>[]
+    creditNotes: Prisma.$CreditNotePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -2060,6 +3689,7 @@ export type $CompanyPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     taxId: string | null
     notificationEmail: string | null
     ccNotifications: string[]
+    invoiceApprovalsRequired: number
     country: string
     address1: string
     address2: string | null
@@ -2470,6 +4100,13 @@ export interface Prisma__CompanyClient<T, Null = never, ExtArgs extends runtime.
   invoicesFrom<T extends Prisma.Company$invoicesFromArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$invoicesFromArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   invoicesTo<T extends Prisma.Company$invoicesToArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$invoicesToArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   paymentLinks<T extends Prisma.Company$paymentLinksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$paymentLinksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentLinkPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invoiceNumberSequences<T extends Prisma.Company$invoiceNumberSequencesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$invoiceNumberSequencesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceNumberSequencePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  numberedInvoices<T extends Prisma.Company$numberedInvoicesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$numberedInvoicesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invoiceTemplates<T extends Prisma.Company$invoiceTemplatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$invoiceTemplatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceTemplatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  taxRates<T extends Prisma.Company$taxRatesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$taxRatesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TaxRatePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invoiceSchedules<T extends Prisma.Company$invoiceSchedulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$invoiceSchedulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  dunningRules<T extends Prisma.Company$dunningRulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$dunningRulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DunningRulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  creditNotes<T extends Prisma.Company$creditNotesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Company$creditNotesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CreditNotePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2509,6 +4146,7 @@ export interface CompanyFieldRefs {
   readonly taxId: Prisma.FieldRef<"Company", 'String'>
   readonly notificationEmail: Prisma.FieldRef<"Company", 'String'>
   readonly ccNotifications: Prisma.FieldRef<"Company", 'String[]'>
+  readonly invoiceApprovalsRequired: Prisma.FieldRef<"Company", 'Int'>
   readonly country: Prisma.FieldRef<"Company", 'String'>
   readonly address1: Prisma.FieldRef<"Company", 'String'>
   readonly address2: Prisma.FieldRef<"Company", 'String'>
@@ -3096,6 +4734,174 @@ export type Company$paymentLinksArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.PaymentLinkScalarFieldEnum | Prisma.PaymentLinkScalarFieldEnum[]
 }
 
+/**
+ * Company.invoiceNumberSequences
+ */
+export type Company$invoiceNumberSequencesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceNumberSequence
+   */
+  select?: Prisma.InvoiceNumberSequenceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceNumberSequence
+   */
+  omit?: Prisma.InvoiceNumberSequenceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceNumberSequenceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceNumberSequenceWhereInput
+  orderBy?: Prisma.InvoiceNumberSequenceOrderByWithRelationInput | Prisma.InvoiceNumberSequenceOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceNumberSequenceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceNumberSequenceScalarFieldEnum | Prisma.InvoiceNumberSequenceScalarFieldEnum[]
+}
+
+/**
+ * Company.numberedInvoices
+ */
+export type Company$numberedInvoicesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Invoice
+   */
+  select?: Prisma.InvoiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Invoice
+   */
+  omit?: Prisma.InvoiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceInclude<ExtArgs> | null
+  where?: Prisma.InvoiceWhereInput
+  orderBy?: Prisma.InvoiceOrderByWithRelationInput | Prisma.InvoiceOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceScalarFieldEnum | Prisma.InvoiceScalarFieldEnum[]
+}
+
+/**
+ * Company.invoiceTemplates
+ */
+export type Company$invoiceTemplatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceTemplate
+   */
+  select?: Prisma.InvoiceTemplateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceTemplate
+   */
+  omit?: Prisma.InvoiceTemplateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceTemplateInclude<ExtArgs> | null
+  where?: Prisma.InvoiceTemplateWhereInput
+  orderBy?: Prisma.InvoiceTemplateOrderByWithRelationInput | Prisma.InvoiceTemplateOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceTemplateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceTemplateScalarFieldEnum | Prisma.InvoiceTemplateScalarFieldEnum[]
+}
+
+/**
+ * Company.taxRates
+ */
+export type Company$taxRatesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the TaxRate
+   */
+  select?: Prisma.TaxRateSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the TaxRate
+   */
+  omit?: Prisma.TaxRateOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.TaxRateInclude<ExtArgs> | null
+  where?: Prisma.TaxRateWhereInput
+  orderBy?: Prisma.TaxRateOrderByWithRelationInput | Prisma.TaxRateOrderByWithRelationInput[]
+  cursor?: Prisma.TaxRateWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.TaxRateScalarFieldEnum | Prisma.TaxRateScalarFieldEnum[]
+}
+
+/**
+ * Company.invoiceSchedules
+ */
+export type Company$invoiceSchedulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceSchedule
+   */
+  select?: Prisma.InvoiceScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceSchedule
+   */
+  omit?: Prisma.InvoiceScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceScheduleInclude<ExtArgs> | null
+  where?: Prisma.InvoiceScheduleWhereInput
+  orderBy?: Prisma.InvoiceScheduleOrderByWithRelationInput | Prisma.InvoiceScheduleOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceScheduleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceScheduleScalarFieldEnum | Prisma.InvoiceScheduleScalarFieldEnum[]
+}
+
+/**
+ * Company.dunningRules
+ */
+export type Company$dunningRulesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DunningRule
+   */
+  select?: Prisma.DunningRuleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DunningRule
+   */
+  omit?: Prisma.DunningRuleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DunningRuleInclude<ExtArgs> | null
+  where?: Prisma.DunningRuleWhereInput
+  orderBy?: Prisma.DunningRuleOrderByWithRelationInput | Prisma.DunningRuleOrderByWithRelationInput[]
+  cursor?: Prisma.DunningRuleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DunningRuleScalarFieldEnum | Prisma.DunningRuleScalarFieldEnum[]
+}
+
+/**
+ * Company.creditNotes
+ */
+export type Company$creditNotesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CreditNote
+   */
+  select?: Prisma.CreditNoteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CreditNote
+   */
+  omit?: Prisma.CreditNoteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CreditNoteInclude<ExtArgs> | null
+  where?: Prisma.CreditNoteWhereInput
+  orderBy?: Prisma.CreditNoteOrderByWithRelationInput | Prisma.CreditNoteOrderByWithRelationInput[]
+  cursor?: Prisma.CreditNoteWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CreditNoteScalarFieldEnum | Prisma.CreditNoteScalarFieldEnum[]
+}
+
 /**
  * Company without action
  */
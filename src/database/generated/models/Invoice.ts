@@ -28,6 +28,7 @@ export type AggregateInvoice = {
 
 export type InvoiceAvgAggregateOutputType = {
   id: number | null
+  numberingCompanyId: number | null
   autoGenerateFromPayrollId: number | null
   payrollId: number | null
   employeeId: number | null
@@ -37,6 +38,7 @@ export type InvoiceAvgAggregateOutputType = {
 
 export type InvoiceSumAggregateOutputType = {
   id: number | null
+  numberingCompanyId: number | null
   autoGenerateFromPayrollId: number | null
   payrollId: number | null
   employeeId: number | null
@@ -53,6 +55,8 @@ export type InvoiceMinAggregateOutputType = {
   invoiceNumber: string | null
   issueDate: Date | null
   dueDate: Date | null
+  numberingCompanyId: number | null
+  payDate: Date | null
   isAutoGenerated: boolean | null
   autoGenerateFromPayrollId: number | null
   nextAutoGenerateDate: Date | null
@@ -75,9 +79,17 @@ export type InvoiceMinAggregateOutputType = {
   total: string | null
   currency: string | null
   paymentWalletAddress: string | null
+  earlyPaymentDiscount: string | null
+  lateFeeAppliedAt: Date | null
+  publicToken: string | null
+  paymentTransactionHash: string | null
+  payerAddress: string | null
+  paymentClaimedAt: Date | null
   status: $Enums.InvoiceStatusEnum | null
   sentAt: Date | null
+  approvedAt: Date | null
   reviewedAt: Date | null
+  disputedAt: Date | null
   confirmedAt: Date | null
   paidAt: Date | null
 }
@@ -91,6 +103,8 @@ export type InvoiceMaxAggregateOutputType = {
   invoiceNumber: string | null
   issueDate: Date | null
   dueDate: Date | null
+  numberingCompanyId: number | null
+  payDate: Date | null
   isAutoGenerated: boolean | null
   autoGenerateFromPayrollId: number | null
   nextAutoGenerateDate: Date | null
@@ -113,9 +127,17 @@ export type InvoiceMaxAggregateOutputType = {
   total: string | null
   currency: string | null
   paymentWalletAddress: string | null
+  earlyPaymentDiscount: string | null
+  lateFeeAppliedAt: Date | null
+  publicToken: string | null
+  paymentTransactionHash: string | null
+  payerAddress: string | null
+  paymentClaimedAt: Date | null
   status: $Enums.InvoiceStatusEnum | null
   sentAt: Date | null
+  approvedAt: Date | null
   reviewedAt: Date | null
+  disputedAt: Date | null
   confirmedAt: Date | null
   paidAt: Date | null
 }
@@ -129,6 +151,8 @@ export type InvoiceCountAggregateOutputType = {
   invoiceNumber: number
   issueDate: number
   dueDate: number
+  numberingCompanyId: number
+  payDate: number
   isAutoGenerated: number
   autoGenerateFromPayrollId: number
   nextAutoGenerateDate: number
@@ -155,12 +179,23 @@ export type InvoiceCountAggregateOutputType = {
   discount: number
   total: number
   currency: number
+  taxBreakdown: number
   paymentNetwork: number
   paymentToken: number
   paymentWalletAddress: number
+  paymentSplits: number
+  paymentTerms: number
+  earlyPaymentDiscount: number
+  lateFeeAppliedAt: number
+  publicToken: number
+  paymentTransactionHash: number
+  payerAddress: number
+  paymentClaimedAt: number
   status: number
   sentAt: number
+  approvedAt: number
   reviewedAt: number
+  disputedAt: number
   confirmedAt: number
   paidAt: number
   metadata: number
@@ -173,6 +208,7 @@ export type InvoiceCountAggregateOutputType = {
 
 export type InvoiceAvgAggregateInputType = {
   id?: true
+  numberingCompanyId?: true
   autoGenerateFromPayrollId?: true
   payrollId?: true
   employeeId?: true
@@ -182,6 +218,7 @@ export type InvoiceAvgAggregateInputType = {
 
 export type InvoiceSumAggregateInputType = {
   id?: true
+  numberingCompanyId?: true
   autoGenerateFromPayrollId?: true
   payrollId?: true
   employeeId?: true
@@ -198,6 +235,8 @@ export type InvoiceMinAggregateInputType = {
   invoiceNumber?: true
   issueDate?: true
   dueDate?: true
+  numberingCompanyId?: true
+  payDate?: true
   isAutoGenerated?: true
   autoGenerateFromPayrollId?: true
   nextAutoGenerateDate?: true
@@ -220,9 +259,17 @@ export type InvoiceMinAggregateInputType = {
   total?: true
   currency?: true
   paymentWalletAddress?: true
+  earlyPaymentDiscount?: true
+  lateFeeAppliedAt?: true
+  publicToken?: true
+  paymentTransactionHash?: true
+  payerAddress?: true
+  paymentClaimedAt?: true
   status?: true
   sentAt?: true
+  approvedAt?: true
   reviewedAt?: true
+  disputedAt?: true
   confirmedAt?: true
   paidAt?: true
 }
@@ -236,6 +283,8 @@ export type InvoiceMaxAggregateInputType = {
   invoiceNumber?: true
   issueDate?: true
   dueDate?: true
+  numberingCompanyId?: true
+  payDate?: true
   isAutoGenerated?: true
   autoGenerateFromPayrollId?: true
   nextAutoGenerateDate?: true
@@ -258,9 +307,17 @@ export type InvoiceMaxAggregateInputType = {
   total?: true
   currency?: true
   paymentWalletAddress?: true
+  earlyPaymentDiscount?: true
+  lateFeeAppliedAt?: true
+  publicToken?: true
+  paymentTransactionHash?: true
+  payerAddress?: true
+  paymentClaimedAt?: true
   status?: true
   sentAt?: true
+  approvedAt?: true
   reviewedAt?: true
+  disputedAt?: true
   confirmedAt?: true
   paidAt?: true
 }
@@ -274,6 +331,8 @@ export type InvoiceCountAggregateInputType = {
   invoiceNumber?: true
   issueDate?: true
   dueDate?: true
+  numberingCompanyId?: true
+  payDate?: true
   isAutoGenerated?: true
   autoGenerateFromPayrollId?: true
   nextAutoGenerateDate?: true
@@ -300,12 +359,23 @@ export type InvoiceCountAggregateInputType = {
   discount?: true
   total?: true
   currency?: true
+  taxBreakdown?: true
   paymentNetwork?: true
   paymentToken?: true
   paymentWalletAddress?: true
+  paymentSplits?: true
+  paymentTerms?: true
+  earlyPaymentDiscount?: true
+  lateFeeAppliedAt?: true
+  publicToken?: true
+  paymentTransactionHash?: true
+  payerAddress?: true
+  paymentClaimedAt?: true
   status?: true
   sentAt?: true
+  approvedAt?: true
   reviewedAt?: true
+  disputedAt?: true
   confirmedAt?: true
   paidAt?: true
   metadata?: true
@@ -410,6 +480,8 @@ export type InvoiceGroupByOutputType = {
   invoiceNumber: string
   issueDate: Date
   dueDate: Date
+  numberingCompanyId: number | null
+  payDate: Date | null
   isAutoGenerated: boolean
   autoGenerateFromPayrollId: number | null
   nextAutoGenerateDate: Date | null
@@ -436,12 +508,23 @@ export type InvoiceGroupByOutputType = {
   discount: string
   total: string
   currency: string
+  taxBreakdown: runtime.JsonValue | null
   paymentNetwork: runtime.JsonValue
   paymentToken: runtime.JsonValue
   paymentWalletAddress: string
+  paymentSplits: runtime.JsonValue | null
+  paymentTerms: runtime.JsonValue | null
+  earlyPaymentDiscount: string
+  lateFeeAppliedAt: Date | null
+  publicToken: string | null
+  paymentTransactionHash: string | null
+  payerAddress: string | null
+  paymentClaimedAt: Date | null
   status: $Enums.InvoiceStatusEnum
   sentAt: Date | null
+  approvedAt: Date | null
   reviewedAt: Date | null
+  disputedAt: Date | null
   confirmedAt: Date | null
   paidAt: Date | null
   metadata: runtime.JsonValue | null
@@ -482,6 +565,8 @@ export type InvoiceWhereInput = {
   invoiceNumber?: Prisma.StringFilter<"Invoice"> | string
   issueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   dueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  numberingCompanyId?: Prisma.IntNullableFilter<"Invoice"> | number | null
+  payDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   isAutoGenerated?: Prisma.BoolFilter<"Invoice"> | boolean
   autoGenerateFromPayrollId?: Prisma.IntNullableFilter<"Invoice"> | number | null
   nextAutoGenerateDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
@@ -508,24 +593,43 @@ export type InvoiceWhereInput = {
   discount?: Prisma.StringFilter<"Invoice"> | string
   total?: Prisma.StringFilter<"Invoice"> | string
   currency?: Prisma.StringFilter<"Invoice"> | string
+  taxBreakdown?: Prisma.JsonNullableFilter<"Invoice">
   paymentNetwork?: Prisma.JsonFilter<"Invoice">
   paymentToken?: Prisma.JsonFilter<"Invoice">
   paymentWalletAddress?: Prisma.StringFilter<"Invoice"> | string
+  paymentSplits?: Prisma.JsonNullableFilter<"Invoice">
+  paymentTerms?: Prisma.JsonNullableFilter<"Invoice">
+  earlyPaymentDiscount?: Prisma.StringFilter<"Invoice"> | string
+  lateFeeAppliedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  publicToken?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  paymentTransactionHash?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  payerAddress?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  paymentClaimedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFilter<"Invoice"> | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  approvedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   reviewedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  disputedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   confirmedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   paidAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Invoice">
   memo?: Prisma.JsonNullableFilter<"Invoice">
   footer?: Prisma.JsonNullableFilter<"Invoice">
   terms?: Prisma.JsonNullableFilter<"Invoice">
+  numberingCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   payroll?: Prisma.XOR<Prisma.PayrollNullableScalarRelationFilter, Prisma.PayrollWhereInput> | null
   employee?: Prisma.XOR<Prisma.EmployeeNullableScalarRelationFilter, Prisma.EmployeeWhereInput> | null
   fromCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   toCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   items?: Prisma.InvoiceItemListRelationFilter
   bill?: Prisma.XOR<Prisma.BillNullableScalarRelationFilter, Prisma.BillWhereInput> | null
+  payrollAdjustments?: Prisma.PayrollAdjustmentListRelationFilter
+  approvals?: Prisma.InvoiceApprovalListRelationFilter
+  creditNotes?: Prisma.CreditNoteListRelationFilter
+  comments?: Prisma.InvoiceCommentListRelationFilter
+  reminders?: Prisma.InvoiceReminderListRelationFilter
+  attachments?: Prisma.InvoiceAttachmentListRelationFilter
+  events?: Prisma.InvoiceEventListRelationFilter
 }
 
 export type InvoiceOrderByWithRelationInput = {
@@ -537,6 +641,8 @@ export type InvoiceOrderByWithRelationInput = {
   invoiceNumber?: Prisma.SortOrder
   issueDate?: Prisma.SortOrder
   dueDate?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payDate?: Prisma.SortOrderInput | Prisma.SortOrder
   isAutoGenerated?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrderInput | Prisma.SortOrder
   nextAutoGenerateDate?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -563,29 +669,52 @@ export type InvoiceOrderByWithRelationInput = {
   discount?: Prisma.SortOrder
   total?: Prisma.SortOrder
   currency?: Prisma.SortOrder
+  taxBreakdown?: Prisma.SortOrderInput | Prisma.SortOrder
   paymentNetwork?: Prisma.SortOrder
   paymentToken?: Prisma.SortOrder
   paymentWalletAddress?: Prisma.SortOrder
+  paymentSplits?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  earlyPaymentDiscount?: Prisma.SortOrder
+  lateFeeAppliedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  publicToken?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentTransactionHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  payerAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentClaimedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  approvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  disputedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
   memo?: Prisma.SortOrderInput | Prisma.SortOrder
   footer?: Prisma.SortOrderInput | Prisma.SortOrder
   terms?: Prisma.SortOrderInput | Prisma.SortOrder
+  numberingCompany?: Prisma.CompanyOrderByWithRelationInput
   payroll?: Prisma.PayrollOrderByWithRelationInput
   employee?: Prisma.EmployeeOrderByWithRelationInput
   fromCompany?: Prisma.CompanyOrderByWithRelationInput
   toCompany?: Prisma.CompanyOrderByWithRelationInput
   items?: Prisma.InvoiceItemOrderByRelationAggregateInput
   bill?: Prisma.BillOrderByWithRelationInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentOrderByRelationAggregateInput
+  approvals?: Prisma.InvoiceApprovalOrderByRelationAggregateInput
+  creditNotes?: Prisma.CreditNoteOrderByRelationAggregateInput
+  comments?: Prisma.InvoiceCommentOrderByRelationAggregateInput
+  reminders?: Prisma.InvoiceReminderOrderByRelationAggregateInput
+  attachments?: Prisma.InvoiceAttachmentOrderByRelationAggregateInput
+  events?: Prisma.InvoiceEventOrderByRelationAggregateInput
 }
 
 export type InvoiceWhereUniqueInput = Prisma.AtLeast<{
   id?: number
   uuid?: string
+  publicToken?: string
+  paymentTransactionHash?: string
+  numberingCompanyId_invoiceNumber?: Prisma.InvoiceNumberingCompanyIdInvoiceNumberCompoundUniqueInput
+  payrollId_payDate?: Prisma.InvoicePayrollIdPayDateCompoundUniqueInput
   AND?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
   OR?: Prisma.InvoiceWhereInput[]
   NOT?: Prisma.InvoiceWhereInput | Prisma.InvoiceWhereInput[]
@@ -595,6 +724,8 @@ export type InvoiceWhereUniqueInput = Prisma.AtLeast<{
   invoiceNumber?: Prisma.StringFilter<"Invoice"> | string
   issueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   dueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  numberingCompanyId?: Prisma.IntNullableFilter<"Invoice"> | number | null
+  payDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   isAutoGenerated?: Prisma.BoolFilter<"Invoice"> | boolean
   autoGenerateFromPayrollId?: Prisma.IntNullableFilter<"Invoice"> | number | null
   nextAutoGenerateDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
@@ -621,25 +752,42 @@ export type InvoiceWhereUniqueInput = Prisma.AtLeast<{
   discount?: Prisma.StringFilter<"Invoice"> | string
   total?: Prisma.StringFilter<"Invoice"> | string
   currency?: Prisma.StringFilter<"Invoice"> | string
+  taxBreakdown?: Prisma.JsonNullableFilter<"Invoice">
   paymentNetwork?: Prisma.JsonFilter<"Invoice">
   paymentToken?: Prisma.JsonFilter<"Invoice">
   paymentWalletAddress?: Prisma.StringFilter<"Invoice"> | string
+  paymentSplits?: Prisma.JsonNullableFilter<"Invoice">
+  paymentTerms?: Prisma.JsonNullableFilter<"Invoice">
+  earlyPaymentDiscount?: Prisma.StringFilter<"Invoice"> | string
+  lateFeeAppliedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  payerAddress?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  paymentClaimedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFilter<"Invoice"> | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  approvedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   reviewedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  disputedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   confirmedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   paidAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Invoice">
   memo?: Prisma.JsonNullableFilter<"Invoice">
   footer?: Prisma.JsonNullableFilter<"Invoice">
   terms?: Prisma.JsonNullableFilter<"Invoice">
+  numberingCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   payroll?: Prisma.XOR<Prisma.PayrollNullableScalarRelationFilter, Prisma.PayrollWhereInput> | null
   employee?: Prisma.XOR<Prisma.EmployeeNullableScalarRelationFilter, Prisma.EmployeeWhereInput> | null
   fromCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   toCompany?: Prisma.XOR<Prisma.CompanyNullableScalarRelationFilter, Prisma.CompanyWhereInput> | null
   items?: Prisma.InvoiceItemListRelationFilter
   bill?: Prisma.XOR<Prisma.BillNullableScalarRelationFilter, Prisma.BillWhereInput> | null
-}, "id" | "uuid">
+  payrollAdjustments?: Prisma.PayrollAdjustmentListRelationFilter
+  approvals?: Prisma.InvoiceApprovalListRelationFilter
+  creditNotes?: Prisma.CreditNoteListRelationFilter
+  comments?: Prisma.InvoiceCommentListRelationFilter
+  reminders?: Prisma.InvoiceReminderListRelationFilter
+  attachments?: Prisma.InvoiceAttachmentListRelationFilter
+  events?: Prisma.InvoiceEventListRelationFilter
+}, "id" | "uuid" | "publicToken" | "paymentTransactionHash" | "numberingCompanyId_invoiceNumber" | "payrollId_payDate">
 
 export type InvoiceOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -650,6 +798,8 @@ export type InvoiceOrderByWithAggregationInput = {
   invoiceNumber?: Prisma.SortOrder
   issueDate?: Prisma.SortOrder
   dueDate?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrderInput | Prisma.SortOrder
+  payDate?: Prisma.SortOrderInput | Prisma.SortOrder
   isAutoGenerated?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrderInput | Prisma.SortOrder
   nextAutoGenerateDate?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -676,12 +826,23 @@ export type InvoiceOrderByWithAggregationInput = {
   discount?: Prisma.SortOrder
   total?: Prisma.SortOrder
   currency?: Prisma.SortOrder
+  taxBreakdown?: Prisma.SortOrderInput | Prisma.SortOrder
   paymentNetwork?: Prisma.SortOrder
   paymentToken?: Prisma.SortOrder
   paymentWalletAddress?: Prisma.SortOrder
+  paymentSplits?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrderInput | Prisma.SortOrder
+  earlyPaymentDiscount?: Prisma.SortOrder
+  lateFeeAppliedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  publicToken?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentTransactionHash?: Prisma.SortOrderInput | Prisma.SortOrder
+  payerAddress?: Prisma.SortOrderInput | Prisma.SortOrder
+  paymentClaimedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
   sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  approvedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  disputedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   paidAt?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -707,6 +868,8 @@ export type InvoiceScalarWhereWithAggregatesInput = {
   invoiceNumber?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
   issueDate?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
   dueDate?: Prisma.DateTimeWithAggregatesFilter<"Invoice"> | Date | string
+  numberingCompanyId?: Prisma.IntNullableWithAggregatesFilter<"Invoice"> | number | null
+  payDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   isAutoGenerated?: Prisma.BoolWithAggregatesFilter<"Invoice"> | boolean
   autoGenerateFromPayrollId?: Prisma.IntNullableWithAggregatesFilter<"Invoice"> | number | null
   nextAutoGenerateDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
@@ -733,12 +896,23 @@ export type InvoiceScalarWhereWithAggregatesInput = {
   discount?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
   total?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
   currency?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  taxBreakdown?: Prisma.JsonNullableWithAggregatesFilter<"Invoice">
   paymentNetwork?: Prisma.JsonWithAggregatesFilter<"Invoice">
   paymentToken?: Prisma.JsonWithAggregatesFilter<"Invoice">
   paymentWalletAddress?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  paymentSplits?: Prisma.JsonNullableWithAggregatesFilter<"Invoice">
+  paymentTerms?: Prisma.JsonNullableWithAggregatesFilter<"Invoice">
+  earlyPaymentDiscount?: Prisma.StringWithAggregatesFilter<"Invoice"> | string
+  lateFeeAppliedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
+  publicToken?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  paymentTransactionHash?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  payerAddress?: Prisma.StringNullableWithAggregatesFilter<"Invoice"> | string | null
+  paymentClaimedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumWithAggregatesFilter<"Invoice"> | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
+  approvedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
+  disputedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   confirmedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   paidAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Invoice"> | Date | string | null
   metadata?: Prisma.JsonNullableWithAggregatesFilter<"Invoice">
@@ -755,6 +929,7 @@ export type InvoiceCreateInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -777,24 +952,43 @@ export type InvoiceCreateInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUncheckedCreateInput = {
@@ -806,6 +1000,8 @@ export type InvoiceUncheckedCreateInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -832,12 +1028,23 @@ export type InvoiceUncheckedCreateInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -846,6 +1053,13 @@ export type InvoiceUncheckedCreateInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUpdateInput = {
@@ -856,6 +1070,7 @@ export type InvoiceUpdateInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -878,24 +1093,43 @@ export type InvoiceUpdateInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceUncheckedUpdateInput = {
@@ -907,6 +1141,8 @@ export type InvoiceUncheckedUpdateInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -933,12 +1169,23 @@ export type InvoiceUncheckedUpdateInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -947,6 +1194,13 @@ export type InvoiceUncheckedUpdateInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceCreateManyInput = {
@@ -958,6 +1212,8 @@ export type InvoiceCreateManyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -984,12 +1240,23 @@ export type InvoiceCreateManyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1006,6 +1273,7 @@ export type InvoiceUpdateManyMutationInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -1028,12 +1296,23 @@ export type InvoiceUpdateManyMutationInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1051,6 +1330,8 @@ export type InvoiceUncheckedUpdateManyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -1077,12 +1358,23 @@ export type InvoiceUncheckedUpdateManyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1101,6 +1393,21 @@ export type InvoiceOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type InvoiceNullableScalarRelationFilter = {
+  is?: Prisma.InvoiceWhereInput | null
+  isNot?: Prisma.InvoiceWhereInput | null
+}
+
+export type InvoiceNumberingCompanyIdInvoiceNumberCompoundUniqueInput = {
+  numberingCompanyId: number
+  invoiceNumber: string
+}
+
+export type InvoicePayrollIdPayDateCompoundUniqueInput = {
+  payrollId: number
+  payDate: Date | string
+}
+
 export type InvoiceCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   uuid?: Prisma.SortOrder
@@ -1110,6 +1417,8 @@ export type InvoiceCountOrderByAggregateInput = {
   invoiceNumber?: Prisma.SortOrder
   issueDate?: Prisma.SortOrder
   dueDate?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrder
+  payDate?: Prisma.SortOrder
   isAutoGenerated?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrder
   nextAutoGenerateDate?: Prisma.SortOrder
@@ -1136,12 +1445,23 @@ export type InvoiceCountOrderByAggregateInput = {
   discount?: Prisma.SortOrder
   total?: Prisma.SortOrder
   currency?: Prisma.SortOrder
+  taxBreakdown?: Prisma.SortOrder
   paymentNetwork?: Prisma.SortOrder
   paymentToken?: Prisma.SortOrder
   paymentWalletAddress?: Prisma.SortOrder
+  paymentSplits?: Prisma.SortOrder
+  paymentTerms?: Prisma.SortOrder
+  earlyPaymentDiscount?: Prisma.SortOrder
+  lateFeeAppliedAt?: Prisma.SortOrder
+  publicToken?: Prisma.SortOrder
+  paymentTransactionHash?: Prisma.SortOrder
+  payerAddress?: Prisma.SortOrder
+  paymentClaimedAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
+  approvedAt?: Prisma.SortOrder
   reviewedAt?: Prisma.SortOrder
+  disputedAt?: Prisma.SortOrder
   confirmedAt?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
   metadata?: Prisma.SortOrder
@@ -1152,6 +1472,7 @@ export type InvoiceCountOrderByAggregateInput = {
 
 export type InvoiceAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrder
   payrollId?: Prisma.SortOrder
   employeeId?: Prisma.SortOrder
@@ -1168,6 +1489,8 @@ export type InvoiceMaxOrderByAggregateInput = {
   invoiceNumber?: Prisma.SortOrder
   issueDate?: Prisma.SortOrder
   dueDate?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrder
+  payDate?: Prisma.SortOrder
   isAutoGenerated?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrder
   nextAutoGenerateDate?: Prisma.SortOrder
@@ -1190,9 +1513,17 @@ export type InvoiceMaxOrderByAggregateInput = {
   total?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   paymentWalletAddress?: Prisma.SortOrder
+  earlyPaymentDiscount?: Prisma.SortOrder
+  lateFeeAppliedAt?: Prisma.SortOrder
+  publicToken?: Prisma.SortOrder
+  paymentTransactionHash?: Prisma.SortOrder
+  payerAddress?: Prisma.SortOrder
+  paymentClaimedAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
+  approvedAt?: Prisma.SortOrder
   reviewedAt?: Prisma.SortOrder
+  disputedAt?: Prisma.SortOrder
   confirmedAt?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
 }
@@ -1206,6 +1537,8 @@ export type InvoiceMinOrderByAggregateInput = {
   invoiceNumber?: Prisma.SortOrder
   issueDate?: Prisma.SortOrder
   dueDate?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrder
+  payDate?: Prisma.SortOrder
   isAutoGenerated?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrder
   nextAutoGenerateDate?: Prisma.SortOrder
@@ -1228,15 +1561,24 @@ export type InvoiceMinOrderByAggregateInput = {
   total?: Prisma.SortOrder
   currency?: Prisma.SortOrder
   paymentWalletAddress?: Prisma.SortOrder
+  earlyPaymentDiscount?: Prisma.SortOrder
+  lateFeeAppliedAt?: Prisma.SortOrder
+  publicToken?: Prisma.SortOrder
+  paymentTransactionHash?: Prisma.SortOrder
+  payerAddress?: Prisma.SortOrder
+  paymentClaimedAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
+  approvedAt?: Prisma.SortOrder
   reviewedAt?: Prisma.SortOrder
+  disputedAt?: Prisma.SortOrder
   confirmedAt?: Prisma.SortOrder
   paidAt?: Prisma.SortOrder
 }
 
 export type InvoiceSumOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  numberingCompanyId?: Prisma.SortOrder
   autoGenerateFromPayrollId?: Prisma.SortOrder
   payrollId?: Prisma.SortOrder
   employeeId?: Prisma.SortOrder
@@ -1263,6 +1605,13 @@ export type InvoiceCreateNestedManyWithoutToCompanyInput = {
   connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
 }
 
+export type InvoiceCreateNestedManyWithoutNumberingCompanyInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput> | Prisma.InvoiceCreateWithoutNumberingCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput | Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput[]
+  createMany?: Prisma.InvoiceCreateManyNumberingCompanyInputEnvelope
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+}
+
 export type InvoiceUncheckedCreateNestedManyWithoutFromCompanyInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutFromCompanyInput, Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput> | Prisma.InvoiceCreateWithoutFromCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput[]
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput | Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput[]
@@ -1277,6 +1626,13 @@ export type InvoiceUncheckedCreateNestedManyWithoutToCompanyInput = {
   connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
 }
 
+export type InvoiceUncheckedCreateNestedManyWithoutNumberingCompanyInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput> | Prisma.InvoiceCreateWithoutNumberingCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput | Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput[]
+  createMany?: Prisma.InvoiceCreateManyNumberingCompanyInputEnvelope
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+}
+
 export type InvoiceUpdateManyWithoutFromCompanyNestedInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutFromCompanyInput, Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput> | Prisma.InvoiceCreateWithoutFromCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput[]
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput | Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput[]
@@ -1305,6 +1661,20 @@ export type InvoiceUpdateManyWithoutToCompanyNestedInput = {
   deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
 }
 
+export type InvoiceUpdateManyWithoutNumberingCompanyNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput> | Prisma.InvoiceCreateWithoutNumberingCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput | Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput[]
+  upsert?: Prisma.InvoiceUpsertWithWhereUniqueWithoutNumberingCompanyInput | Prisma.InvoiceUpsertWithWhereUniqueWithoutNumberingCompanyInput[]
+  createMany?: Prisma.InvoiceCreateManyNumberingCompanyInputEnvelope
+  set?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  delete?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  update?: Prisma.InvoiceUpdateWithWhereUniqueWithoutNumberingCompanyInput | Prisma.InvoiceUpdateWithWhereUniqueWithoutNumberingCompanyInput[]
+  updateMany?: Prisma.InvoiceUpdateManyWithWhereWithoutNumberingCompanyInput | Prisma.InvoiceUpdateManyWithWhereWithoutNumberingCompanyInput[]
+  deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+}
+
 export type InvoiceUncheckedUpdateManyWithoutFromCompanyNestedInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutFromCompanyInput, Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput> | Prisma.InvoiceCreateWithoutFromCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutFromCompanyInput[]
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput | Prisma.InvoiceCreateOrConnectWithoutFromCompanyInput[]
@@ -1333,6 +1703,20 @@ export type InvoiceUncheckedUpdateManyWithoutToCompanyNestedInput = {
   deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
 }
 
+export type InvoiceUncheckedUpdateManyWithoutNumberingCompanyNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput> | Prisma.InvoiceCreateWithoutNumberingCompanyInput[] | Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput[]
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput | Prisma.InvoiceCreateOrConnectWithoutNumberingCompanyInput[]
+  upsert?: Prisma.InvoiceUpsertWithWhereUniqueWithoutNumberingCompanyInput | Prisma.InvoiceUpsertWithWhereUniqueWithoutNumberingCompanyInput[]
+  createMany?: Prisma.InvoiceCreateManyNumberingCompanyInputEnvelope
+  set?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  disconnect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  delete?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  connect?: Prisma.InvoiceWhereUniqueInput | Prisma.InvoiceWhereUniqueInput[]
+  update?: Prisma.InvoiceUpdateWithWhereUniqueWithoutNumberingCompanyInput | Prisma.InvoiceUpdateWithWhereUniqueWithoutNumberingCompanyInput[]
+  updateMany?: Prisma.InvoiceUpdateManyWithWhereWithoutNumberingCompanyInput | Prisma.InvoiceUpdateManyWithWhereWithoutNumberingCompanyInput[]
+  deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
+}
+
 export type InvoiceCreateNestedManyWithoutEmployeeInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutEmployeeInput, Prisma.InvoiceUncheckedCreateWithoutEmployeeInput> | Prisma.InvoiceCreateWithoutEmployeeInput[] | Prisma.InvoiceUncheckedCreateWithoutEmployeeInput[]
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutEmployeeInput | Prisma.InvoiceCreateOrConnectWithoutEmployeeInput[]
@@ -1417,6 +1801,22 @@ export type InvoiceUncheckedUpdateManyWithoutPayrollNestedInput = {
   deleteMany?: Prisma.InvoiceScalarWhereInput | Prisma.InvoiceScalarWhereInput[]
 }
 
+export type InvoiceCreateNestedOneWithoutPayrollAdjustmentsInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedCreateWithoutPayrollAdjustmentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutPayrollAdjustmentsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneWithoutPayrollAdjustmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedCreateWithoutPayrollAdjustmentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutPayrollAdjustmentsInput
+  upsert?: Prisma.InvoiceUpsertWithoutPayrollAdjustmentsInput
+  disconnect?: Prisma.InvoiceWhereInput | boolean
+  delete?: Prisma.InvoiceWhereInput | boolean
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutPayrollAdjustmentsInput, Prisma.InvoiceUpdateWithoutPayrollAdjustmentsInput>, Prisma.InvoiceUncheckedUpdateWithoutPayrollAdjustmentsInput>
+}
+
 export type InvoiceCreateemailCcInput = {
   set: string[]
 }
@@ -1443,6 +1843,90 @@ export type EnumInvoiceStatusEnumFieldUpdateOperationsInput = {
   set?: $Enums.InvoiceStatusEnum
 }
 
+export type InvoiceCreateNestedOneWithoutCreditNotesInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutCreditNotesInput, Prisma.InvoiceUncheckedCreateWithoutCreditNotesInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutCreditNotesInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutCreditNotesNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutCreditNotesInput, Prisma.InvoiceUncheckedCreateWithoutCreditNotesInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutCreditNotesInput
+  upsert?: Prisma.InvoiceUpsertWithoutCreditNotesInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutCreditNotesInput, Prisma.InvoiceUpdateWithoutCreditNotesInput>, Prisma.InvoiceUncheckedUpdateWithoutCreditNotesInput>
+}
+
+export type InvoiceCreateNestedOneWithoutCommentsInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutCommentsInput, Prisma.InvoiceUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutCommentsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutCommentsNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutCommentsInput, Prisma.InvoiceUncheckedCreateWithoutCommentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutCommentsInput
+  upsert?: Prisma.InvoiceUpsertWithoutCommentsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutCommentsInput, Prisma.InvoiceUpdateWithoutCommentsInput>, Prisma.InvoiceUncheckedUpdateWithoutCommentsInput>
+}
+
+export type InvoiceCreateNestedOneWithoutAttachmentsInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutAttachmentsInput, Prisma.InvoiceUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutAttachmentsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutAttachmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutAttachmentsInput, Prisma.InvoiceUncheckedCreateWithoutAttachmentsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutAttachmentsInput
+  upsert?: Prisma.InvoiceUpsertWithoutAttachmentsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutAttachmentsInput, Prisma.InvoiceUpdateWithoutAttachmentsInput>, Prisma.InvoiceUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type InvoiceCreateNestedOneWithoutEventsInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutEventsInput, Prisma.InvoiceUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutEventsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutEventsNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutEventsInput, Prisma.InvoiceUncheckedCreateWithoutEventsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutEventsInput
+  upsert?: Prisma.InvoiceUpsertWithoutEventsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutEventsInput, Prisma.InvoiceUpdateWithoutEventsInput>, Prisma.InvoiceUncheckedUpdateWithoutEventsInput>
+}
+
+export type InvoiceCreateNestedOneWithoutRemindersInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutRemindersInput, Prisma.InvoiceUncheckedCreateWithoutRemindersInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutRemindersInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutRemindersNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutRemindersInput, Prisma.InvoiceUncheckedCreateWithoutRemindersInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutRemindersInput
+  upsert?: Prisma.InvoiceUpsertWithoutRemindersInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutRemindersInput, Prisma.InvoiceUpdateWithoutRemindersInput>, Prisma.InvoiceUncheckedUpdateWithoutRemindersInput>
+}
+
+export type InvoiceCreateNestedOneWithoutApprovalsInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutApprovalsInput, Prisma.InvoiceUncheckedCreateWithoutApprovalsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutApprovalsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+}
+
+export type InvoiceUpdateOneRequiredWithoutApprovalsNestedInput = {
+  create?: Prisma.XOR<Prisma.InvoiceCreateWithoutApprovalsInput, Prisma.InvoiceUncheckedCreateWithoutApprovalsInput>
+  connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutApprovalsInput
+  upsert?: Prisma.InvoiceUpsertWithoutApprovalsInput
+  connect?: Prisma.InvoiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.InvoiceUpdateToOneWithWhereWithoutApprovalsInput, Prisma.InvoiceUpdateWithoutApprovalsInput>, Prisma.InvoiceUncheckedUpdateWithoutApprovalsInput>
+}
+
 export type InvoiceCreateNestedOneWithoutItemsInput = {
   create?: Prisma.XOR<Prisma.InvoiceCreateWithoutItemsInput, Prisma.InvoiceUncheckedCreateWithoutItemsInput>
   connectOrCreate?: Prisma.InvoiceCreateOrConnectWithoutItemsInput
@@ -1479,6 +1963,7 @@ export type InvoiceCreateWithoutFromCompanyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1501,23 +1986,42 @@ export type InvoiceCreateWithoutFromCompanyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUncheckedCreateWithoutFromCompanyInput = {
@@ -1529,6 +2033,8 @@ export type InvoiceUncheckedCreateWithoutFromCompanyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1554,12 +2060,23 @@ export type InvoiceUncheckedCreateWithoutFromCompanyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1568,6 +2085,13 @@ export type InvoiceUncheckedCreateWithoutFromCompanyInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceCreateOrConnectWithoutFromCompanyInput = {
@@ -1588,6 +2112,7 @@ export type InvoiceCreateWithoutToCompanyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1610,23 +2135,42 @@ export type InvoiceCreateWithoutToCompanyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUncheckedCreateWithoutToCompanyInput = {
@@ -1638,6 +2182,8 @@ export type InvoiceUncheckedCreateWithoutToCompanyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1663,12 +2209,23 @@ export type InvoiceUncheckedCreateWithoutToCompanyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1677,6 +2234,13 @@ export type InvoiceUncheckedCreateWithoutToCompanyInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceCreateOrConnectWithoutToCompanyInput = {
@@ -1689,6 +2253,155 @@ export type InvoiceCreateManyToCompanyInputEnvelope = {
   skipDuplicates?: boolean
 }
 
+export type InvoiceCreateWithoutNumberingCompanyInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutNumberingCompanyInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutNumberingCompanyInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput>
+}
+
+export type InvoiceCreateManyNumberingCompanyInputEnvelope = {
+  data: Prisma.InvoiceCreateManyNumberingCompanyInput | Prisma.InvoiceCreateManyNumberingCompanyInput[]
+  skipDuplicates?: boolean
+}
+
 export type InvoiceUpsertWithWhereUniqueWithoutFromCompanyInput = {
   where: Prisma.InvoiceWhereUniqueInput
   update: Prisma.XOR<Prisma.InvoiceUpdateWithoutFromCompanyInput, Prisma.InvoiceUncheckedUpdateWithoutFromCompanyInput>
@@ -1717,6 +2430,8 @@ export type InvoiceScalarWhereInput = {
   invoiceNumber?: Prisma.StringFilter<"Invoice"> | string
   issueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
   dueDate?: Prisma.DateTimeFilter<"Invoice"> | Date | string
+  numberingCompanyId?: Prisma.IntNullableFilter<"Invoice"> | number | null
+  payDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   isAutoGenerated?: Prisma.BoolFilter<"Invoice"> | boolean
   autoGenerateFromPayrollId?: Prisma.IntNullableFilter<"Invoice"> | number | null
   nextAutoGenerateDate?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
@@ -1743,12 +2458,23 @@ export type InvoiceScalarWhereInput = {
   discount?: Prisma.StringFilter<"Invoice"> | string
   total?: Prisma.StringFilter<"Invoice"> | string
   currency?: Prisma.StringFilter<"Invoice"> | string
+  taxBreakdown?: Prisma.JsonNullableFilter<"Invoice">
   paymentNetwork?: Prisma.JsonFilter<"Invoice">
   paymentToken?: Prisma.JsonFilter<"Invoice">
   paymentWalletAddress?: Prisma.StringFilter<"Invoice"> | string
+  paymentSplits?: Prisma.JsonNullableFilter<"Invoice">
+  paymentTerms?: Prisma.JsonNullableFilter<"Invoice">
+  earlyPaymentDiscount?: Prisma.StringFilter<"Invoice"> | string
+  lateFeeAppliedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  publicToken?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  paymentTransactionHash?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  payerAddress?: Prisma.StringNullableFilter<"Invoice"> | string | null
+  paymentClaimedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFilter<"Invoice"> | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  approvedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   reviewedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
+  disputedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   confirmedAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   paidAt?: Prisma.DateTimeNullableFilter<"Invoice"> | Date | string | null
   metadata?: Prisma.JsonNullableFilter<"Invoice">
@@ -1773,6 +2499,22 @@ export type InvoiceUpdateManyWithWhereWithoutToCompanyInput = {
   data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyWithoutToCompanyInput>
 }
 
+export type InvoiceUpsertWithWhereUniqueWithoutNumberingCompanyInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedUpdateWithoutNumberingCompanyInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedCreateWithoutNumberingCompanyInput>
+}
+
+export type InvoiceUpdateWithWhereUniqueWithoutNumberingCompanyInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutNumberingCompanyInput, Prisma.InvoiceUncheckedUpdateWithoutNumberingCompanyInput>
+}
+
+export type InvoiceUpdateManyWithWhereWithoutNumberingCompanyInput = {
+  where: Prisma.InvoiceScalarWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyWithoutNumberingCompanyInput>
+}
+
 export type InvoiceCreateWithoutEmployeeInput = {
   uuid?: string
   createdAt?: Date | string
@@ -1781,6 +2523,7 @@ export type InvoiceCreateWithoutEmployeeInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1803,23 +2546,42 @@ export type InvoiceCreateWithoutEmployeeInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUncheckedCreateWithoutEmployeeInput = {
@@ -1831,6 +2593,8 @@ export type InvoiceUncheckedCreateWithoutEmployeeInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1856,12 +2620,23 @@ export type InvoiceUncheckedCreateWithoutEmployeeInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1870,6 +2645,13 @@ export type InvoiceUncheckedCreateWithoutEmployeeInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceCreateOrConnectWithoutEmployeeInput = {
@@ -1906,6 +2688,7 @@ export type InvoiceCreateWithoutPayrollInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1928,23 +2711,42 @@ export type InvoiceCreateWithoutPayrollInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceUncheckedCreateWithoutPayrollInput = {
@@ -1956,6 +2758,8 @@ export type InvoiceUncheckedCreateWithoutPayrollInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -1981,12 +2785,23 @@ export type InvoiceUncheckedCreateWithoutPayrollInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -1995,6 +2810,13 @@ export type InvoiceUncheckedCreateWithoutPayrollInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
 export type InvoiceCreateOrConnectWithoutPayrollInput = {
@@ -2023,7 +2845,7 @@ export type InvoiceUpdateManyWithWhereWithoutPayrollInput = {
   data: Prisma.XOR<Prisma.InvoiceUpdateManyMutationInput, Prisma.InvoiceUncheckedUpdateManyWithoutPayrollInput>
 }
 
-export type InvoiceCreateWithoutItemsInput = {
+export type InvoiceCreateWithoutPayrollAdjustmentsInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -2031,6 +2853,7 @@ export type InvoiceCreateWithoutItemsInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -2053,26 +2876,45 @@ export type InvoiceCreateWithoutItemsInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
-export type InvoiceUncheckedCreateWithoutItemsInput = {
+export type InvoiceUncheckedCreateWithoutPayrollAdjustmentsInput = {
   id?: number
   uuid?: string
   createdAt?: Date | string
@@ -2081,6 +2923,8 @@ export type InvoiceUncheckedCreateWithoutItemsInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -2107,38 +2951,56 @@ export type InvoiceUncheckedCreateWithoutItemsInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
   bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
-export type InvoiceCreateOrConnectWithoutItemsInput = {
+export type InvoiceCreateOrConnectWithoutPayrollAdjustmentsInput = {
   where: Prisma.InvoiceWhereUniqueInput
-  create: Prisma.XOR<Prisma.InvoiceCreateWithoutItemsInput, Prisma.InvoiceUncheckedCreateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedCreateWithoutPayrollAdjustmentsInput>
 }
 
-export type InvoiceUpsertWithoutItemsInput = {
-  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutItemsInput, Prisma.InvoiceUncheckedUpdateWithoutItemsInput>
-  create: Prisma.XOR<Prisma.InvoiceCreateWithoutItemsInput, Prisma.InvoiceUncheckedCreateWithoutItemsInput>
+export type InvoiceUpsertWithoutPayrollAdjustmentsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedUpdateWithoutPayrollAdjustmentsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedCreateWithoutPayrollAdjustmentsInput>
   where?: Prisma.InvoiceWhereInput
 }
 
-export type InvoiceUpdateToOneWithWhereWithoutItemsInput = {
+export type InvoiceUpdateToOneWithWhereWithoutPayrollAdjustmentsInput = {
   where?: Prisma.InvoiceWhereInput
-  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutItemsInput, Prisma.InvoiceUncheckedUpdateWithoutItemsInput>
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutPayrollAdjustmentsInput, Prisma.InvoiceUncheckedUpdateWithoutPayrollAdjustmentsInput>
 }
 
-export type InvoiceUpdateWithoutItemsInput = {
+export type InvoiceUpdateWithoutPayrollAdjustmentsInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2146,6 +3008,7 @@ export type InvoiceUpdateWithoutItemsInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2168,26 +3031,45 @@ export type InvoiceUpdateWithoutItemsInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateWithoutItemsInput = {
+export type InvoiceUncheckedUpdateWithoutPayrollAdjustmentsInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2196,6 +3078,8 @@ export type InvoiceUncheckedUpdateWithoutItemsInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2222,22 +3106,40 @@ export type InvoiceUncheckedUpdateWithoutItemsInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceCreateWithoutBillInput = {
+export type InvoiceCreateWithoutCreditNotesInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -2245,6 +3147,7 @@ export type InvoiceCreateWithoutBillInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -2267,26 +3170,45 @@ export type InvoiceCreateWithoutBillInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
   payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
   employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
   fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
   toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
   items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
 }
 
-export type InvoiceUncheckedCreateWithoutBillInput = {
+export type InvoiceUncheckedCreateWithoutCreditNotesInput = {
   id?: number
   uuid?: string
   createdAt?: Date | string
@@ -2295,6 +3217,8 @@ export type InvoiceUncheckedCreateWithoutBillInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -2321,12 +3245,23 @@ export type InvoiceUncheckedCreateWithoutBillInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2334,25 +3269,32 @@ export type InvoiceUncheckedCreateWithoutBillInput = {
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
 }
 
-export type InvoiceCreateOrConnectWithoutBillInput = {
+export type InvoiceCreateOrConnectWithoutCreditNotesInput = {
   where: Prisma.InvoiceWhereUniqueInput
-  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBillInput, Prisma.InvoiceUncheckedCreateWithoutBillInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutCreditNotesInput, Prisma.InvoiceUncheckedCreateWithoutCreditNotesInput>
 }
 
-export type InvoiceUpsertWithoutBillInput = {
-  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutBillInput, Prisma.InvoiceUncheckedUpdateWithoutBillInput>
-  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBillInput, Prisma.InvoiceUncheckedCreateWithoutBillInput>
+export type InvoiceUpsertWithoutCreditNotesInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutCreditNotesInput, Prisma.InvoiceUncheckedUpdateWithoutCreditNotesInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutCreditNotesInput, Prisma.InvoiceUncheckedCreateWithoutCreditNotesInput>
   where?: Prisma.InvoiceWhereInput
 }
 
-export type InvoiceUpdateToOneWithWhereWithoutBillInput = {
+export type InvoiceUpdateToOneWithWhereWithoutCreditNotesInput = {
   where?: Prisma.InvoiceWhereInput
-  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutBillInput, Prisma.InvoiceUncheckedUpdateWithoutBillInput>
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutCreditNotesInput, Prisma.InvoiceUncheckedUpdateWithoutCreditNotesInput>
 }
 
-export type InvoiceUpdateWithoutBillInput = {
+export type InvoiceUpdateWithoutCreditNotesInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2360,6 +3302,7 @@ export type InvoiceUpdateWithoutBillInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2382,26 +3325,45 @@ export type InvoiceUpdateWithoutBillInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateWithoutBillInput = {
+export type InvoiceUncheckedUpdateWithoutCreditNotesInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2410,6 +3372,8 @@ export type InvoiceUncheckedUpdateWithoutBillInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2436,12 +3400,23 @@ export type InvoiceUncheckedUpdateWithoutBillInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2449,10 +3424,16 @@ export type InvoiceUncheckedUpdateWithoutBillInput = {
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceCreateManyFromCompanyInput = {
-  id?: number
+export type InvoiceCreateWithoutCommentsInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -2460,12 +3441,10 @@ export type InvoiceCreateManyFromCompanyInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
-  payrollId?: number | null
-  employeeId?: number | null
-  toCompanyId?: number | null
   toCompanyName?: string | null
   toCompanyEmail?: string | null
   toCompanyAddress?: string | null
@@ -2485,69 +3464,2417 @@ export type InvoiceCreateManyFromCompanyInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutCommentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutCommentsInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutCommentsInput, Prisma.InvoiceUncheckedCreateWithoutCommentsInput>
+}
+
+export type InvoiceUpsertWithoutCommentsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutCommentsInput, Prisma.InvoiceUncheckedUpdateWithoutCommentsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutCommentsInput, Prisma.InvoiceUncheckedCreateWithoutCommentsInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutCommentsInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutCommentsInput, Prisma.InvoiceUncheckedUpdateWithoutCommentsInput>
+}
+
+export type InvoiceUpdateWithoutCommentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutCommentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutAttachmentsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutAttachmentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutAttachmentsInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutAttachmentsInput, Prisma.InvoiceUncheckedCreateWithoutAttachmentsInput>
+}
+
+export type InvoiceUpsertWithoutAttachmentsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutAttachmentsInput, Prisma.InvoiceUncheckedUpdateWithoutAttachmentsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutAttachmentsInput, Prisma.InvoiceUncheckedCreateWithoutAttachmentsInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutAttachmentsInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutAttachmentsInput, Prisma.InvoiceUncheckedUpdateWithoutAttachmentsInput>
+}
+
+export type InvoiceUpdateWithoutAttachmentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutAttachmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutEventsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutEventsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutEventsInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutEventsInput, Prisma.InvoiceUncheckedCreateWithoutEventsInput>
+}
+
+export type InvoiceUpsertWithoutEventsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutEventsInput, Prisma.InvoiceUncheckedUpdateWithoutEventsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutEventsInput, Prisma.InvoiceUncheckedCreateWithoutEventsInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutEventsInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutEventsInput, Prisma.InvoiceUncheckedUpdateWithoutEventsInput>
+}
+
+export type InvoiceUpdateWithoutEventsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutEventsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutRemindersInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutRemindersInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutRemindersInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutRemindersInput, Prisma.InvoiceUncheckedCreateWithoutRemindersInput>
+}
+
+export type InvoiceUpsertWithoutRemindersInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutRemindersInput, Prisma.InvoiceUncheckedUpdateWithoutRemindersInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutRemindersInput, Prisma.InvoiceUncheckedCreateWithoutRemindersInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutRemindersInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutRemindersInput, Prisma.InvoiceUncheckedUpdateWithoutRemindersInput>
+}
+
+export type InvoiceUpdateWithoutRemindersInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutRemindersInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutApprovalsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutApprovalsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutApprovalsInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutApprovalsInput, Prisma.InvoiceUncheckedCreateWithoutApprovalsInput>
+}
+
+export type InvoiceUpsertWithoutApprovalsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutApprovalsInput, Prisma.InvoiceUncheckedUpdateWithoutApprovalsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutApprovalsInput, Prisma.InvoiceUncheckedCreateWithoutApprovalsInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutApprovalsInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutApprovalsInput, Prisma.InvoiceUncheckedUpdateWithoutApprovalsInput>
+}
+
+export type InvoiceUpdateWithoutApprovalsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutApprovalsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutItemsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  bill?: Prisma.BillCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutItemsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  bill?: Prisma.BillUncheckedCreateNestedOneWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutItemsInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutItemsInput, Prisma.InvoiceUncheckedCreateWithoutItemsInput>
+}
+
+export type InvoiceUpsertWithoutItemsInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutItemsInput, Prisma.InvoiceUncheckedUpdateWithoutItemsInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutItemsInput, Prisma.InvoiceUncheckedCreateWithoutItemsInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutItemsInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutItemsInput, Prisma.InvoiceUncheckedUpdateWithoutItemsInput>
+}
+
+export type InvoiceUpdateWithoutItemsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutItemsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateWithoutBillInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyCreateNestedOneWithoutNumberedInvoicesInput
+  payroll?: Prisma.PayrollCreateNestedOneWithoutInvoicesInput
+  employee?: Prisma.EmployeeCreateNestedOneWithoutInvoicesInput
+  fromCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesFromInput
+  toCompany?: Prisma.CompanyCreateNestedOneWithoutInvoicesToInput
+  items?: Prisma.InvoiceItemCreateNestedManyWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceUncheckedCreateWithoutBillInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedCreateNestedManyWithoutInvoiceInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutInvoiceInput
+  approvals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutInvoiceInput
+  creditNotes?: Prisma.CreditNoteUncheckedCreateNestedManyWithoutInvoiceInput
+  comments?: Prisma.InvoiceCommentUncheckedCreateNestedManyWithoutInvoiceInput
+  reminders?: Prisma.InvoiceReminderUncheckedCreateNestedManyWithoutInvoiceInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedCreateNestedManyWithoutInvoiceInput
+  events?: Prisma.InvoiceEventUncheckedCreateNestedManyWithoutInvoiceInput
+}
+
+export type InvoiceCreateOrConnectWithoutBillInput = {
+  where: Prisma.InvoiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBillInput, Prisma.InvoiceUncheckedCreateWithoutBillInput>
+}
+
+export type InvoiceUpsertWithoutBillInput = {
+  update: Prisma.XOR<Prisma.InvoiceUpdateWithoutBillInput, Prisma.InvoiceUncheckedUpdateWithoutBillInput>
+  create: Prisma.XOR<Prisma.InvoiceCreateWithoutBillInput, Prisma.InvoiceUncheckedCreateWithoutBillInput>
+  where?: Prisma.InvoiceWhereInput
+}
+
+export type InvoiceUpdateToOneWithWhereWithoutBillInput = {
+  where?: Prisma.InvoiceWhereInput
+  data: Prisma.XOR<Prisma.InvoiceUpdateWithoutBillInput, Prisma.InvoiceUncheckedUpdateWithoutBillInput>
+}
+
+export type InvoiceUpdateWithoutBillInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutBillInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceCreateManyFromCompanyInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type InvoiceCreateManyToCompanyInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type InvoiceCreateManyNumberingCompanyInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  invoiceType?: $Enums.InvoiceTypeEnum
+  invoiceNumber: string
+  issueDate: Date | string
+  dueDate: Date | string
+  payDate?: Date | string | null
+  isAutoGenerated?: boolean
+  autoGenerateFromPayrollId?: number | null
+  nextAutoGenerateDate?: Date | string | null
+  payrollId?: number | null
+  employeeId?: number | null
+  fromCompanyId?: number | null
+  toCompanyId?: number | null
+  toCompanyName?: string | null
+  toCompanyEmail?: string | null
+  toCompanyAddress?: string | null
+  toCompanyTaxId?: string | null
+  toCompanyContactName?: string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo: string
+  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
+  emailSubject?: string | null
+  emailBody?: string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal: string
+  taxRate: string
+  taxAmount: string
+  discount?: string
+  total: string
+  currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
+  status?: $Enums.InvoiceStatusEnum
+  sentAt?: Date | string | null
+  approvedAt?: Date | string | null
+  reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
+  confirmedAt?: Date | string | null
+  paidAt?: Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+}
+
+export type InvoiceUpdateWithoutFromCompanyInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
+  payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
+  employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
+}
+
+export type InvoiceUncheckedUpdateWithoutFromCompanyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
+  bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceCreateManyToCompanyInput = {
-  id?: number
-  uuid?: string
-  createdAt?: Date | string
-  updatedAt?: Date | string
-  invoiceType?: $Enums.InvoiceTypeEnum
-  invoiceNumber: string
-  issueDate: Date | string
-  dueDate: Date | string
-  isAutoGenerated?: boolean
-  autoGenerateFromPayrollId?: number | null
-  nextAutoGenerateDate?: Date | string | null
-  payrollId?: number | null
-  employeeId?: number | null
-  fromCompanyId?: number | null
-  toCompanyName?: string | null
-  toCompanyEmail?: string | null
-  toCompanyAddress?: string | null
-  toCompanyTaxId?: string | null
-  toCompanyContactName?: string | null
+export type InvoiceUncheckedUpdateManyWithoutFromCompanyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  invoiceType?: Prisma.EnumInvoiceTypeEnumFieldUpdateOperationsInput | $Enums.InvoiceTypeEnum
+  invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
+  issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyTaxId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  toCompanyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyMetadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  emailTo: string
-  emailCc?: Prisma.InvoiceCreateemailCcInput | string[]
-  emailBcc?: Prisma.InvoiceCreateemailBccInput | string[]
-  emailSubject?: string | null
-  emailBody?: string | null
+  emailTo?: Prisma.StringFieldUpdateOperationsInput | string
+  emailCc?: Prisma.InvoiceUpdateemailCcInput | string[]
+  emailBcc?: Prisma.InvoiceUpdateemailBccInput | string[]
+  emailSubject?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emailBody?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   fromDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   toDetails?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
-  subtotal: string
-  taxRate: string
-  taxAmount: string
-  discount?: string
-  total: string
-  currency?: string
-  paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
-  paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
-  paymentWalletAddress: string
-  status?: $Enums.InvoiceStatusEnum
-  sentAt?: Date | string | null
-  reviewedAt?: Date | string | null
-  confirmedAt?: Date | string | null
-  paidAt?: Date | string | null
+  subtotal?: Prisma.StringFieldUpdateOperationsInput | string
+  taxRate?: Prisma.StringFieldUpdateOperationsInput | string
+  taxAmount?: Prisma.StringFieldUpdateOperationsInput | string
+  discount?: Prisma.StringFieldUpdateOperationsInput | string
+  total?: Prisma.StringFieldUpdateOperationsInput | string
+  currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
-export type InvoiceUpdateWithoutFromCompanyInput = {
+export type InvoiceUpdateWithoutToCompanyInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2555,6 +5882,7 @@ export type InvoiceUpdateWithoutFromCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2577,26 +5905,45 @@ export type InvoiceUpdateWithoutFromCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
-  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
+  fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateWithoutFromCompanyInput = {
+export type InvoiceUncheckedUpdateWithoutToCompanyInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2605,12 +5952,14 @@ export type InvoiceUncheckedUpdateWithoutFromCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2630,12 +5979,23 @@ export type InvoiceUncheckedUpdateWithoutFromCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2644,9 +6004,16 @@ export type InvoiceUncheckedUpdateWithoutFromCompanyInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateManyWithoutFromCompanyInput = {
+export type InvoiceUncheckedUpdateManyWithoutToCompanyInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2655,12 +6022,14 @@ export type InvoiceUncheckedUpdateManyWithoutFromCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2680,12 +6049,23 @@ export type InvoiceUncheckedUpdateManyWithoutFromCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2694,7 +6074,7 @@ export type InvoiceUncheckedUpdateManyWithoutFromCompanyInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
 
-export type InvoiceUpdateWithoutToCompanyInput = {
+export type InvoiceUpdateWithoutNumberingCompanyInput = {
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2702,6 +6082,7 @@ export type InvoiceUpdateWithoutToCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2724,12 +6105,23 @@ export type InvoiceUpdateWithoutToCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2739,11 +6131,19 @@ export type InvoiceUpdateWithoutToCompanyInput = {
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
+  toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateWithoutToCompanyInput = {
+export type InvoiceUncheckedUpdateWithoutNumberingCompanyInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2752,12 +6152,14 @@ export type InvoiceUncheckedUpdateWithoutToCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2777,12 +6179,23 @@ export type InvoiceUncheckedUpdateWithoutToCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2791,9 +6204,16 @@ export type InvoiceUncheckedUpdateWithoutToCompanyInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
-export type InvoiceUncheckedUpdateManyWithoutToCompanyInput = {
+export type InvoiceUncheckedUpdateManyWithoutNumberingCompanyInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   uuid?: Prisma.StringFieldUpdateOperationsInput | string
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -2802,12 +6222,14 @@ export type InvoiceUncheckedUpdateManyWithoutToCompanyInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   payrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   employeeId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   fromCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  toCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   toCompanyName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyEmail?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   toCompanyAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2827,12 +6249,23 @@ export type InvoiceUncheckedUpdateManyWithoutToCompanyInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2850,6 +6283,8 @@ export type InvoiceCreateManyEmployeeInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -2875,12 +6310,23 @@ export type InvoiceCreateManyEmployeeInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2897,6 +6343,7 @@ export type InvoiceUpdateWithoutEmployeeInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2919,23 +6366,42 @@ export type InvoiceUpdateWithoutEmployeeInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   payroll?: Prisma.PayrollUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceUncheckedUpdateWithoutEmployeeInput = {
@@ -2947,6 +6413,8 @@ export type InvoiceUncheckedUpdateWithoutEmployeeInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -2972,12 +6440,23 @@ export type InvoiceUncheckedUpdateWithoutEmployeeInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -2986,6 +6465,13 @@ export type InvoiceUncheckedUpdateWithoutEmployeeInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceUncheckedUpdateManyWithoutEmployeeInput = {
@@ -2997,6 +6483,8 @@ export type InvoiceUncheckedUpdateManyWithoutEmployeeInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -3022,12 +6510,23 @@ export type InvoiceUncheckedUpdateManyWithoutEmployeeInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -3045,6 +6544,8 @@ export type InvoiceCreateManyPayrollInput = {
   invoiceNumber: string
   issueDate: Date | string
   dueDate: Date | string
+  numberingCompanyId?: number | null
+  payDate?: Date | string | null
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: number | null
   nextAutoGenerateDate?: Date | string | null
@@ -3070,12 +6571,23 @@ export type InvoiceCreateManyPayrollInput = {
   discount?: string
   total: string
   currency?: string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress: string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: string
+  lateFeeAppliedAt?: Date | string | null
+  publicToken?: string | null
+  paymentTransactionHash?: string | null
+  payerAddress?: string | null
+  paymentClaimedAt?: Date | string | null
   status?: $Enums.InvoiceStatusEnum
   sentAt?: Date | string | null
+  approvedAt?: Date | string | null
   reviewedAt?: Date | string | null
+  disputedAt?: Date | string | null
   confirmedAt?: Date | string | null
   paidAt?: Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -3092,6 +6604,7 @@ export type InvoiceUpdateWithoutPayrollInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -3114,23 +6627,42 @@ export type InvoiceUpdateWithoutPayrollInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   memo?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   footer?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  numberingCompany?: Prisma.CompanyUpdateOneWithoutNumberedInvoicesNestedInput
   employee?: Prisma.EmployeeUpdateOneWithoutInvoicesNestedInput
   fromCompany?: Prisma.CompanyUpdateOneWithoutInvoicesFromNestedInput
   toCompany?: Prisma.CompanyUpdateOneWithoutInvoicesToNestedInput
   items?: Prisma.InvoiceItemUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceUncheckedUpdateWithoutPayrollInput = {
@@ -3142,6 +6674,8 @@ export type InvoiceUncheckedUpdateWithoutPayrollInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -3167,12 +6701,23 @@ export type InvoiceUncheckedUpdateWithoutPayrollInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -3181,6 +6726,13 @@ export type InvoiceUncheckedUpdateWithoutPayrollInput = {
   terms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   items?: Prisma.InvoiceItemUncheckedUpdateManyWithoutInvoiceNestedInput
   bill?: Prisma.BillUncheckedUpdateOneWithoutInvoiceNestedInput
+  payrollAdjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  approvals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutInvoiceNestedInput
+  creditNotes?: Prisma.CreditNoteUncheckedUpdateManyWithoutInvoiceNestedInput
+  comments?: Prisma.InvoiceCommentUncheckedUpdateManyWithoutInvoiceNestedInput
+  reminders?: Prisma.InvoiceReminderUncheckedUpdateManyWithoutInvoiceNestedInput
+  attachments?: Prisma.InvoiceAttachmentUncheckedUpdateManyWithoutInvoiceNestedInput
+  events?: Prisma.InvoiceEventUncheckedUpdateManyWithoutInvoiceNestedInput
 }
 
 export type InvoiceUncheckedUpdateManyWithoutPayrollInput = {
@@ -3192,6 +6744,8 @@ export type InvoiceUncheckedUpdateManyWithoutPayrollInput = {
   invoiceNumber?: Prisma.StringFieldUpdateOperationsInput | string
   issueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   dueDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  numberingCompanyId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  payDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isAutoGenerated?: Prisma.BoolFieldUpdateOperationsInput | boolean
   autoGenerateFromPayrollId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   nextAutoGenerateDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
@@ -3217,12 +6771,23 @@ export type InvoiceUncheckedUpdateManyWithoutPayrollInput = {
   discount?: Prisma.StringFieldUpdateOperationsInput | string
   total?: Prisma.StringFieldUpdateOperationsInput | string
   currency?: Prisma.StringFieldUpdateOperationsInput | string
+  taxBreakdown?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   paymentNetwork?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentToken?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   paymentWalletAddress?: Prisma.StringFieldUpdateOperationsInput | string
+  paymentSplits?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  paymentTerms?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  earlyPaymentDiscount?: Prisma.StringFieldUpdateOperationsInput | string
+  lateFeeAppliedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  publicToken?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentTransactionHash?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  payerAddress?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  paymentClaimedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumInvoiceStatusEnumFieldUpdateOperationsInput | $Enums.InvoiceStatusEnum
   sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  approvedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  disputedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   paidAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
@@ -3238,10 +6803,24 @@ export type InvoiceUncheckedUpdateManyWithoutPayrollInput = {
 
 export type InvoiceCountOutputType = {
   items: number
+  payrollAdjustments: number
+  approvals: number
+  creditNotes: number
+  comments: number
+  reminders: number
+  attachments: number
+  events: number
 }
 
 export type InvoiceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   items?: boolean | InvoiceCountOutputTypeCountItemsArgs
+  payrollAdjustments?: boolean | InvoiceCountOutputTypeCountPayrollAdjustmentsArgs
+  approvals?: boolean | InvoiceCountOutputTypeCountApprovalsArgs
+  creditNotes?: boolean | InvoiceCountOutputTypeCountCreditNotesArgs
+  comments?: boolean | InvoiceCountOutputTypeCountCommentsArgs
+  reminders?: boolean | InvoiceCountOutputTypeCountRemindersArgs
+  attachments?: boolean | InvoiceCountOutputTypeCountAttachmentsArgs
+  events?: boolean | InvoiceCountOutputTypeCountEventsArgs
 }
 
 /**
@@ -3261,6 +6840,55 @@ export type InvoiceCountOutputTypeCountItemsArgs<ExtArgs extends runtime.Types.E
   where?: Prisma.InvoiceItemWhereInput
 }
 
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountPayrollAdjustmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollAdjustmentWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountApprovalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceApprovalWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountCreditNotesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.CreditNoteWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountCommentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceCommentWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountRemindersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceReminderWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountAttachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceAttachmentWhereInput
+}
+
+/**
+ * InvoiceCountOutputType without action
+ */
+export type InvoiceCountOutputTypeCountEventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceEventWhereInput
+}
+
 
 export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -3271,6 +6899,8 @@ export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   invoiceNumber?: boolean
   issueDate?: boolean
   dueDate?: boolean
+  numberingCompanyId?: boolean
+  payDate?: boolean
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: boolean
   nextAutoGenerateDate?: boolean
@@ -3297,24 +6927,43 @@ export type InvoiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   discount?: boolean
   total?: boolean
   currency?: boolean
+  taxBreakdown?: boolean
   paymentNetwork?: boolean
   paymentToken?: boolean
   paymentWalletAddress?: boolean
+  paymentSplits?: boolean
+  paymentTerms?: boolean
+  earlyPaymentDiscount?: boolean
+  lateFeeAppliedAt?: boolean
+  publicToken?: boolean
+  paymentTransactionHash?: boolean
+  payerAddress?: boolean
+  paymentClaimedAt?: boolean
   status?: boolean
   sentAt?: boolean
+  approvedAt?: boolean
   reviewedAt?: boolean
+  disputedAt?: boolean
   confirmedAt?: boolean
   paidAt?: boolean
   metadata?: boolean
   memo?: boolean
   footer?: boolean
   terms?: boolean
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
   toCompany?: boolean | Prisma.Invoice$toCompanyArgs<ExtArgs>
   items?: boolean | Prisma.Invoice$itemsArgs<ExtArgs>
   bill?: boolean | Prisma.Invoice$billArgs<ExtArgs>
+  payrollAdjustments?: boolean | Prisma.Invoice$payrollAdjustmentsArgs<ExtArgs>
+  approvals?: boolean | Prisma.Invoice$approvalsArgs<ExtArgs>
+  creditNotes?: boolean | Prisma.Invoice$creditNotesArgs<ExtArgs>
+  comments?: boolean | Prisma.Invoice$commentsArgs<ExtArgs>
+  reminders?: boolean | Prisma.Invoice$remindersArgs<ExtArgs>
+  attachments?: boolean | Prisma.Invoice$attachmentsArgs<ExtArgs>
+  events?: boolean | Prisma.Invoice$eventsArgs<ExtArgs>
   _count?: boolean | Prisma.InvoiceCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["invoice"]>
 
@@ -3327,6 +6976,8 @@ export type InvoiceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   invoiceNumber?: boolean
   issueDate?: boolean
   dueDate?: boolean
+  numberingCompanyId?: boolean
+  payDate?: boolean
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: boolean
   nextAutoGenerateDate?: boolean
@@ -3353,18 +7004,30 @@ export type InvoiceSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   discount?: boolean
   total?: boolean
   currency?: boolean
+  taxBreakdown?: boolean
   paymentNetwork?: boolean
   paymentToken?: boolean
   paymentWalletAddress?: boolean
+  paymentSplits?: boolean
+  paymentTerms?: boolean
+  earlyPaymentDiscount?: boolean
+  lateFeeAppliedAt?: boolean
+  publicToken?: boolean
+  paymentTransactionHash?: boolean
+  payerAddress?: boolean
+  paymentClaimedAt?: boolean
   status?: boolean
   sentAt?: boolean
+  approvedAt?: boolean
   reviewedAt?: boolean
+  disputedAt?: boolean
   confirmedAt?: boolean
   paidAt?: boolean
   metadata?: boolean
   memo?: boolean
   footer?: boolean
   terms?: boolean
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
@@ -3380,6 +7043,8 @@ export type InvoiceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   invoiceNumber?: boolean
   issueDate?: boolean
   dueDate?: boolean
+  numberingCompanyId?: boolean
+  payDate?: boolean
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: boolean
   nextAutoGenerateDate?: boolean
@@ -3406,18 +7071,30 @@ export type InvoiceSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   discount?: boolean
   total?: boolean
   currency?: boolean
+  taxBreakdown?: boolean
   paymentNetwork?: boolean
   paymentToken?: boolean
   paymentWalletAddress?: boolean
+  paymentSplits?: boolean
+  paymentTerms?: boolean
+  earlyPaymentDiscount?: boolean
+  lateFeeAppliedAt?: boolean
+  publicToken?: boolean
+  paymentTransactionHash?: boolean
+  payerAddress?: boolean
+  paymentClaimedAt?: boolean
   status?: boolean
   sentAt?: boolean
+  approvedAt?: boolean
   reviewedAt?: boolean
+  disputedAt?: boolean
   confirmedAt?: boolean
   paidAt?: boolean
   metadata?: boolean
   memo?: boolean
   footer?: boolean
   terms?: boolean
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
@@ -3433,6 +7110,8 @@ export type InvoiceSelectScalar = {
   invoiceNumber?: boolean
   issueDate?: boolean
   dueDate?: boolean
+  numberingCompanyId?: boolean
+  payDate?: boolean
   isAutoGenerated?: boolean
   autoGenerateFromPayrollId?: boolean
   nextAutoGenerateDate?: boolean
@@ -3459,12 +7138,23 @@ export type InvoiceSelectScalar = {
   discount?: boolean
   total?: boolean
   currency?: boolean
+  taxBreakdown?: boolean
   paymentNetwork?: boolean
   paymentToken?: boolean
   paymentWalletAddress?: boolean
+  paymentSplits?: boolean
+  paymentTerms?: boolean
+  earlyPaymentDiscount?: boolean
+  lateFeeAppliedAt?: boolean
+  publicToken?: boolean
+  paymentTransactionHash?: boolean
+  payerAddress?: boolean
+  paymentClaimedAt?: boolean
   status?: boolean
   sentAt?: boolean
+  approvedAt?: boolean
   reviewedAt?: boolean
+  disputedAt?: boolean
   confirmedAt?: boolean
   paidAt?: boolean
   metadata?: boolean
@@ -3473,23 +7163,33 @@ export type InvoiceSelectScalar = {
   terms?: boolean
 }
 
-export type InvoiceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "invoiceType" | "invoiceNumber" | "issueDate" | "dueDate" | "isAutoGenerated" | "autoGenerateFromPayrollId" | "nextAutoGenerateDate" | "payrollId" | "employeeId" | "fromCompanyId" | "toCompanyId" | "toCompanyName" | "toCompanyEmail" | "toCompanyAddress" | "toCompanyTaxId" | "toCompanyContactName" | "toCompanyMetadata" | "emailTo" | "emailCc" | "emailBcc" | "emailSubject" | "emailBody" | "fromDetails" | "toDetails" | "subtotal" | "taxRate" | "taxAmount" | "discount" | "total" | "currency" | "paymentNetwork" | "paymentToken" | "paymentWalletAddress" | "status" | "sentAt" | "reviewedAt" | "confirmedAt" | "paidAt" | "metadata" | "memo" | "footer" | "terms", ExtArgs["result"]["invoice"]>
+export type InvoiceOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "invoiceType" | "invoiceNumber" | "issueDate" | "dueDate" | "numberingCompanyId" | "payDate" | "isAutoGenerated" | "autoGenerateFromPayrollId" | "nextAutoGenerateDate" | "payrollId" | "employeeId" | "fromCompanyId" | "toCompanyId" | "toCompanyName" | "toCompanyEmail" | "toCompanyAddress" | "toCompanyTaxId" | "toCompanyContactName" | "toCompanyMetadata" | "emailTo" | "emailCc" | "emailBcc" | "emailSubject" | "emailBody" | "fromDetails" | "toDetails" | "subtotal" | "taxRate" | "taxAmount" | "discount" | "total" | "currency" | "taxBreakdown" | "paymentNetwork" | "paymentToken" | "paymentWalletAddress" | "paymentSplits" | "paymentTerms" | "earlyPaymentDiscount" | "lateFeeAppliedAt" | "publicToken" | "paymentTransactionHash" | "payerAddress" | "paymentClaimedAt" | "status" | "sentAt" | "approvedAt" | "reviewedAt" | "disputedAt" | "confirmedAt" | "paidAt" | "metadata" | "memo" | "footer" | "terms", ExtArgs["result"]["invoice"]>
 export type InvoiceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
   toCompany?: boolean | Prisma.Invoice$toCompanyArgs<ExtArgs>
   items?: boolean | Prisma.Invoice$itemsArgs<ExtArgs>
   bill?: boolean | Prisma.Invoice$billArgs<ExtArgs>
+  payrollAdjustments?: boolean | Prisma.Invoice$payrollAdjustmentsArgs<ExtArgs>
+  approvals?: boolean | Prisma.Invoice$approvalsArgs<ExtArgs>
+  creditNotes?: boolean | Prisma.Invoice$creditNotesArgs<ExtArgs>
+  comments?: boolean | Prisma.Invoice$commentsArgs<ExtArgs>
+  reminders?: boolean | Prisma.Invoice$remindersArgs<ExtArgs>
+  attachments?: boolean | Prisma.Invoice$attachmentsArgs<ExtArgs>
+  events?: boolean | Prisma.Invoice$eventsArgs<ExtArgs>
   _count?: boolean | Prisma.InvoiceCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type InvoiceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
   toCompany?: boolean | Prisma.Invoice$toCompanyArgs<ExtArgs>
 }
 export type InvoiceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  numberingCompany?: boolean | Prisma.Invoice$numberingCompanyArgs<ExtArgs>
   payroll?: boolean | Prisma.Invoice$payrollArgs<ExtArgs>
   employee?: boolean | Prisma.Invoice$employeeArgs<ExtArgs>
   fromCompany?: boolean | Prisma.Invoice$fromCompanyArgs<ExtArgs>
@@ -3499,12 +7199,20 @@ export type InvoiceIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
 export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Invoice"
   objects: {
+    numberingCompany: Prisma.$CompanyPayload<ExtArgs> | null
     payroll: Prisma.$PayrollPayload<ExtArgs> | null
     employee: Prisma.$EmployeePayload<ExtArgs> | null
     fromCompany: Prisma.$CompanyPayload<ExtArgs> | null
     toCompany: Prisma.$CompanyPayload<ExtArgs> | null
     items: Prisma.$InvoiceItemPayload<ExtArgs>[]
     bill: Prisma.$BillPayload<ExtArgs> | null
+    payrollAdjustments: Prisma.$PayrollAdjustmentPayload<ExtArgs>[]
+    approvals: Prisma.$InvoiceApprovalPayload<ExtArgs>[]
+    creditNotes: Prisma.$CreditNotePayload<ExtArgs>[]
+    comments: Prisma.$InvoiceCommentPayload<ExtArgs>[]
+    reminders: Prisma.$InvoiceReminderPayload<ExtArgs>[]
+    attachments: Prisma.$InvoiceAttachmentPayload<ExtArgs>[]
+    events: Prisma.$InvoiceEventPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -3515,6 +7223,8 @@ export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     invoiceNumber: string
     issueDate: Date
     dueDate: Date
+    numberingCompanyId: number | null
+    payDate: Date | null
     isAutoGenerated: boolean
     autoGenerateFromPayrollId: number | null
     nextAutoGenerateDate: Date | null
@@ -3541,12 +7251,23 @@ export type $InvoicePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     discount: string
     total: string
     currency: string
+    taxBreakdown: runtime.JsonValue | null
     paymentNetwork: runtime.JsonValue
     paymentToken: runtime.JsonValue
     paymentWalletAddress: string
+    paymentSplits: runtime.JsonValue | null
+    paymentTerms: runtime.JsonValue | null
+    earlyPaymentDiscount: string
+    lateFeeAppliedAt: Date | null
+    publicToken: string | null
+    paymentTransactionHash: string | null
+    payerAddress: string | null
+    paymentClaimedAt: Date | null
     status: $Enums.InvoiceStatusEnum
     sentAt: Date | null
+    approvedAt: Date | null
     reviewedAt: Date | null
+    disputedAt: Date | null
     confirmedAt: Date | null
     paidAt: Date | null
     metadata: runtime.JsonValue | null
@@ -3947,12 +7668,20 @@ readonly fields: InvoiceFieldRefs;
  */
 export interface Prisma__InvoiceClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  numberingCompany<T extends Prisma.Invoice$numberingCompanyArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$numberingCompanyArgs<ExtArgs>>): Prisma.Prisma__CompanyClient<runtime.Types.Result.GetResult<Prisma.$CompanyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   payroll<T extends Prisma.Invoice$payrollArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$payrollArgs<ExtArgs>>): Prisma.Prisma__PayrollClient<runtime.Types.Result.GetResult<Prisma.$PayrollPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   employee<T extends Prisma.Invoice$employeeArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$employeeArgs<ExtArgs>>): Prisma.Prisma__EmployeeClient<runtime.Types.Result.GetResult<Prisma.$EmployeePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   fromCompany<T extends Prisma.Invoice$fromCompanyArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$fromCompanyArgs<ExtArgs>>): Prisma.Prisma__CompanyClient<runtime.Types.Result.GetResult<Prisma.$CompanyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   toCompany<T extends Prisma.Invoice$toCompanyArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$toCompanyArgs<ExtArgs>>): Prisma.Prisma__CompanyClient<runtime.Types.Result.GetResult<Prisma.$CompanyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   items<T extends Prisma.Invoice$itemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$itemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   bill<T extends Prisma.Invoice$billArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$billArgs<ExtArgs>>): Prisma.Prisma__BillClient<runtime.Types.Result.GetResult<Prisma.$BillPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  payrollAdjustments<T extends Prisma.Invoice$payrollAdjustmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$payrollAdjustmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollAdjustmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  approvals<T extends Prisma.Invoice$approvalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$approvalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceApprovalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  creditNotes<T extends Prisma.Invoice$creditNotesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$creditNotesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$CreditNotePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  comments<T extends Prisma.Invoice$commentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$commentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceCommentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  reminders<T extends Prisma.Invoice$remindersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$remindersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceReminderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  attachments<T extends Prisma.Invoice$attachmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$attachmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceAttachmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  events<T extends Prisma.Invoice$eventsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Invoice$eventsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceEventPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -3990,6 +7719,8 @@ export interface InvoiceFieldRefs {
   readonly invoiceNumber: Prisma.FieldRef<"Invoice", 'String'>
   readonly issueDate: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly dueDate: Prisma.FieldRef<"Invoice", 'DateTime'>
+  readonly numberingCompanyId: Prisma.FieldRef<"Invoice", 'Int'>
+  readonly payDate: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly isAutoGenerated: Prisma.FieldRef<"Invoice", 'Boolean'>
   readonly autoGenerateFromPayrollId: Prisma.FieldRef<"Invoice", 'Int'>
   readonly nextAutoGenerateDate: Prisma.FieldRef<"Invoice", 'DateTime'>
@@ -4016,12 +7747,23 @@ export interface InvoiceFieldRefs {
   readonly discount: Prisma.FieldRef<"Invoice", 'String'>
   readonly total: Prisma.FieldRef<"Invoice", 'String'>
   readonly currency: Prisma.FieldRef<"Invoice", 'String'>
+  readonly taxBreakdown: Prisma.FieldRef<"Invoice", 'Json'>
   readonly paymentNetwork: Prisma.FieldRef<"Invoice", 'Json'>
   readonly paymentToken: Prisma.FieldRef<"Invoice", 'Json'>
   readonly paymentWalletAddress: Prisma.FieldRef<"Invoice", 'String'>
+  readonly paymentSplits: Prisma.FieldRef<"Invoice", 'Json'>
+  readonly paymentTerms: Prisma.FieldRef<"Invoice", 'Json'>
+  readonly earlyPaymentDiscount: Prisma.FieldRef<"Invoice", 'String'>
+  readonly lateFeeAppliedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
+  readonly publicToken: Prisma.FieldRef<"Invoice", 'String'>
+  readonly paymentTransactionHash: Prisma.FieldRef<"Invoice", 'String'>
+  readonly payerAddress: Prisma.FieldRef<"Invoice", 'String'>
+  readonly paymentClaimedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly status: Prisma.FieldRef<"Invoice", 'InvoiceStatusEnum'>
   readonly sentAt: Prisma.FieldRef<"Invoice", 'DateTime'>
+  readonly approvedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly reviewedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
+  readonly disputedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly confirmedAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly paidAt: Prisma.FieldRef<"Invoice", 'DateTime'>
   readonly metadata: Prisma.FieldRef<"Invoice", 'Json'>
@@ -4423,6 +8165,25 @@ export type InvoiceDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inter
   limit?: number
 }
 
+/**
+ * Invoice.numberingCompany
+ */
+export type Invoice$numberingCompanyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Company
+   */
+  select?: Prisma.CompanySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Company
+   */
+  omit?: Prisma.CompanyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CompanyInclude<ExtArgs> | null
+  where?: Prisma.CompanyWhereInput
+}
+
 /**
  * Invoice.payroll
  */
@@ -4542,6 +8303,174 @@ export type Invoice$billArgs<ExtArgs extends runtime.Types.Extensions.InternalAr
   where?: Prisma.BillWhereInput
 }
 
+/**
+ * Invoice.payrollAdjustments
+ */
+export type Invoice$payrollAdjustmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollAdjustment
+   */
+  select?: Prisma.PayrollAdjustmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollAdjustment
+   */
+  omit?: Prisma.PayrollAdjustmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollAdjustmentInclude<ExtArgs> | null
+  where?: Prisma.PayrollAdjustmentWhereInput
+  orderBy?: Prisma.PayrollAdjustmentOrderByWithRelationInput | Prisma.PayrollAdjustmentOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollAdjustmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollAdjustmentScalarFieldEnum | Prisma.PayrollAdjustmentScalarFieldEnum[]
+}
+
+/**
+ * Invoice.approvals
+ */
+export type Invoice$approvalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceApproval
+   */
+  select?: Prisma.InvoiceApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceApproval
+   */
+  omit?: Prisma.InvoiceApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceApprovalInclude<ExtArgs> | null
+  where?: Prisma.InvoiceApprovalWhereInput
+  orderBy?: Prisma.InvoiceApprovalOrderByWithRelationInput | Prisma.InvoiceApprovalOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceApprovalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceApprovalScalarFieldEnum | Prisma.InvoiceApprovalScalarFieldEnum[]
+}
+
+/**
+ * Invoice.creditNotes
+ */
+export type Invoice$creditNotesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the CreditNote
+   */
+  select?: Prisma.CreditNoteSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the CreditNote
+   */
+  omit?: Prisma.CreditNoteOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.CreditNoteInclude<ExtArgs> | null
+  where?: Prisma.CreditNoteWhereInput
+  orderBy?: Prisma.CreditNoteOrderByWithRelationInput | Prisma.CreditNoteOrderByWithRelationInput[]
+  cursor?: Prisma.CreditNoteWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.CreditNoteScalarFieldEnum | Prisma.CreditNoteScalarFieldEnum[]
+}
+
+/**
+ * Invoice.comments
+ */
+export type Invoice$commentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceComment
+   */
+  select?: Prisma.InvoiceCommentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceComment
+   */
+  omit?: Prisma.InvoiceCommentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceCommentInclude<ExtArgs> | null
+  where?: Prisma.InvoiceCommentWhereInput
+  orderBy?: Prisma.InvoiceCommentOrderByWithRelationInput | Prisma.InvoiceCommentOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceCommentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceCommentScalarFieldEnum | Prisma.InvoiceCommentScalarFieldEnum[]
+}
+
+/**
+ * Invoice.reminders
+ */
+export type Invoice$remindersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceReminder
+   */
+  select?: Prisma.InvoiceReminderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceReminder
+   */
+  omit?: Prisma.InvoiceReminderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceReminderInclude<ExtArgs> | null
+  where?: Prisma.InvoiceReminderWhereInput
+  orderBy?: Prisma.InvoiceReminderOrderByWithRelationInput | Prisma.InvoiceReminderOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceReminderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceReminderScalarFieldEnum | Prisma.InvoiceReminderScalarFieldEnum[]
+}
+
+/**
+ * Invoice.attachments
+ */
+export type Invoice$attachmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceAttachment
+   */
+  select?: Prisma.InvoiceAttachmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceAttachment
+   */
+  omit?: Prisma.InvoiceAttachmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceAttachmentInclude<ExtArgs> | null
+  where?: Prisma.InvoiceAttachmentWhereInput
+  orderBy?: Prisma.InvoiceAttachmentOrderByWithRelationInput | Prisma.InvoiceAttachmentOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceAttachmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceAttachmentScalarFieldEnum | Prisma.InvoiceAttachmentScalarFieldEnum[]
+}
+
+/**
+ * Invoice.events
+ */
+export type Invoice$eventsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceEvent
+   */
+  select?: Prisma.InvoiceEventSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceEvent
+   */
+  omit?: Prisma.InvoiceEventOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceEventInclude<ExtArgs> | null
+  where?: Prisma.InvoiceEventWhereInput
+  orderBy?: Prisma.InvoiceEventOrderByWithRelationInput | Prisma.InvoiceEventOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceEventWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceEventScalarFieldEnum | Prisma.InvoiceEventScalarFieldEnum[]
+}
+
 /**
  * Invoice without action
  */
@@ -33,6 +33,7 @@ export type PayrollAvgAggregateOutputType = {
   payrollCycle: number | null
   currentCycleNumber: number | null
   paydayDay: number | null
+  renewalReminderDays: number | null
 }
 
 export type PayrollSumAggregateOutputType = {
@@ -42,6 +43,7 @@ export type PayrollSumAggregateOutputType = {
   payrollCycle: number | null
   currentCycleNumber: number | null
   paydayDay: number | null
+  renewalReminderDays: number | null
 }
 
 export type PayrollMinAggregateOutputType = {
@@ -53,14 +55,21 @@ export type PayrollMinAggregateOutputType = {
   employeeId: number | null
   amount: string | null
   contractTerm: $Enums.ContractTermEnum | null
+  payFrequency: $Enums.PayFrequencyEnum | null
   payrollCycle: number | null
   currentCycleNumber: number | null
   paydayDay: number | null
   joiningDate: Date | null
   payStartDate: Date | null
   payEndDate: Date | null
+  contractEndDate: Date | null
+  prorationMethod: $Enums.ProrationMethodEnum | null
+  renewalReminderDays: number | null
+  renewalReminderSentAt: Date | null
   description: string | null
   status: $Enums.PayrollStatusEnum | null
+  terminatedAt: Date | null
+  terminationReason: string | null
   note: string | null
 }
 
@@ -73,14 +82,21 @@ export type PayrollMaxAggregateOutputType = {
   employeeId: number | null
   amount: string | null
   contractTerm: $Enums.ContractTermEnum | null
+  payFrequency: $Enums.PayFrequencyEnum | null
   payrollCycle: number | null
   currentCycleNumber: number | null
   paydayDay: number | null
   joiningDate: Date | null
   payStartDate: Date | null
   payEndDate: Date | null
+  contractEndDate: Date | null
+  prorationMethod: $Enums.ProrationMethodEnum | null
+  renewalReminderDays: number | null
+  renewalReminderSentAt: Date | null
   description: string | null
   status: $Enums.PayrollStatusEnum | null
+  terminatedAt: Date | null
+  terminationReason: string | null
   note: string | null
 }
 
@@ -95,14 +111,21 @@ export type PayrollCountAggregateOutputType = {
   token: number
   amount: number
   contractTerm: number
+  payFrequency: number
   payrollCycle: number
   currentCycleNumber: number
   paydayDay: number
   joiningDate: number
   payStartDate: number
   payEndDate: number
+  contractEndDate: number
+  prorationMethod: number
+  renewalReminderDays: number
+  renewalReminderSentAt: number
   description: number
   status: number
+  terminatedAt: number
+  terminationReason: number
   note: number
   metadata: number
   _all: number
@@ -116,6 +139,7 @@ export type PayrollAvgAggregateInputType = {
   payrollCycle?: true
   currentCycleNumber?: true
   paydayDay?: true
+  renewalReminderDays?: true
 }
 
 export type PayrollSumAggregateInputType = {
@@ -125,6 +149,7 @@ export type PayrollSumAggregateInputType = {
   payrollCycle?: true
   currentCycleNumber?: true
   paydayDay?: true
+  renewalReminderDays?: true
 }
 
 export type PayrollMinAggregateInputType = {
@@ -136,14 +161,21 @@ export type PayrollMinAggregateInputType = {
   employeeId?: true
   amount?: true
   contractTerm?: true
+  payFrequency?: true
   payrollCycle?: true
   currentCycleNumber?: true
   paydayDay?: true
   joiningDate?: true
   payStartDate?: true
   payEndDate?: true
+  contractEndDate?: true
+  prorationMethod?: true
+  renewalReminderDays?: true
+  renewalReminderSentAt?: true
   description?: true
   status?: true
+  terminatedAt?: true
+  terminationReason?: true
   note?: true
 }
 
@@ -156,14 +188,21 @@ export type PayrollMaxAggregateInputType = {
   employeeId?: true
   amount?: true
   contractTerm?: true
+  payFrequency?: true
   payrollCycle?: true
   currentCycleNumber?: true
   paydayDay?: true
   joiningDate?: true
   payStartDate?: true
   payEndDate?: true
+  contractEndDate?: true
+  prorationMethod?: true
+  renewalReminderDays?: true
+  renewalReminderSentAt?: true
   description?: true
   status?: true
+  terminatedAt?: true
+  terminationReason?: true
   note?: true
 }
 
@@ -178,14 +217,21 @@ export type PayrollCountAggregateInputType = {
   token?: true
   amount?: true
   contractTerm?: true
+  payFrequency?: true
   payrollCycle?: true
   currentCycleNumber?: true
   paydayDay?: true
   joiningDate?: true
   payStartDate?: true
   payEndDate?: true
+  contractEndDate?: true
+  prorationMethod?: true
+  renewalReminderDays?: true
+  renewalReminderSentAt?: true
   description?: true
   status?: true
+  terminatedAt?: true
+  terminationReason?: true
   note?: true
   metadata?: true
   _all?: true
@@ -288,14 +334,21 @@ export type PayrollGroupByOutputType = {
   token: runtime.JsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber: number
   paydayDay: number
   joiningDate: Date
   payStartDate: Date
   payEndDate: Date
+  contractEndDate: Date | null
+  prorationMethod: $Enums.ProrationMethodEnum
+  renewalReminderDays: number
+  renewalReminderSentAt: Date | null
   description: string
   status: $Enums.PayrollStatusEnum
+  terminatedAt: Date | null
+  terminationReason: string | null
   note: string | null
   metadata: runtime.JsonValue | null
   _count: PayrollCountAggregateOutputType | null
@@ -334,20 +387,31 @@ export type PayrollWhereInput = {
   token?: Prisma.JsonFilter<"Payroll">
   amount?: Prisma.StringFilter<"Payroll"> | string
   contractTerm?: Prisma.EnumContractTermEnumFilter<"Payroll"> | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFilter<"Payroll"> | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFilter<"Payroll"> | number
   currentCycleNumber?: Prisma.IntFilter<"Payroll"> | number
   paydayDay?: Prisma.IntFilter<"Payroll"> | number
   joiningDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
   payStartDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
   payEndDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  contractEndDate?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFilter<"Payroll"> | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFilter<"Payroll"> | number
+  renewalReminderSentAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
   description?: Prisma.StringFilter<"Payroll"> | string
   status?: Prisma.EnumPayrollStatusEnumFilter<"Payroll"> | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  terminationReason?: Prisma.StringNullableFilter<"Payroll"> | string | null
   note?: Prisma.StringNullableFilter<"Payroll"> | string | null
   metadata?: Prisma.JsonNullableFilter<"Payroll">
   company?: Prisma.XOR<Prisma.CompanyScalarRelationFilter, Prisma.CompanyWhereInput>
   employee?: Prisma.XOR<Prisma.EmployeeScalarRelationFilter, Prisma.EmployeeWhereInput>
   invoices?: Prisma.InvoiceListRelationFilter
   invoiceSchedules?: Prisma.InvoiceScheduleListRelationFilter
+  amendments?: Prisma.PayrollAmendmentListRelationFilter
+  adjustments?: Prisma.PayrollAdjustmentListRelationFilter
+  payoutSplits?: Prisma.PayrollPayoutSplitListRelationFilter
+  pauses?: Prisma.PayrollPauseListRelationFilter
 }
 
 export type PayrollOrderByWithRelationInput = {
@@ -361,20 +425,31 @@ export type PayrollOrderByWithRelationInput = {
   token?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   contractTerm?: Prisma.SortOrder
+  payFrequency?: Prisma.SortOrder
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
   joiningDate?: Prisma.SortOrder
   payStartDate?: Prisma.SortOrder
   payEndDate?: Prisma.SortOrder
+  contractEndDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  prorationMethod?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
+  renewalReminderSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  terminatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  terminationReason?: Prisma.SortOrderInput | Prisma.SortOrder
   note?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
   company?: Prisma.CompanyOrderByWithRelationInput
   employee?: Prisma.EmployeeOrderByWithRelationInput
   invoices?: Prisma.InvoiceOrderByRelationAggregateInput
   invoiceSchedules?: Prisma.InvoiceScheduleOrderByRelationAggregateInput
+  amendments?: Prisma.PayrollAmendmentOrderByRelationAggregateInput
+  adjustments?: Prisma.PayrollAdjustmentOrderByRelationAggregateInput
+  payoutSplits?: Prisma.PayrollPayoutSplitOrderByRelationAggregateInput
+  pauses?: Prisma.PayrollPauseOrderByRelationAggregateInput
 }
 
 export type PayrollWhereUniqueInput = Prisma.AtLeast<{
@@ -391,20 +466,31 @@ export type PayrollWhereUniqueInput = Prisma.AtLeast<{
   token?: Prisma.JsonFilter<"Payroll">
   amount?: Prisma.StringFilter<"Payroll"> | string
   contractTerm?: Prisma.EnumContractTermEnumFilter<"Payroll"> | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFilter<"Payroll"> | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFilter<"Payroll"> | number
   currentCycleNumber?: Prisma.IntFilter<"Payroll"> | number
   paydayDay?: Prisma.IntFilter<"Payroll"> | number
   joiningDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
   payStartDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
   payEndDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  contractEndDate?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFilter<"Payroll"> | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFilter<"Payroll"> | number
+  renewalReminderSentAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
   description?: Prisma.StringFilter<"Payroll"> | string
   status?: Prisma.EnumPayrollStatusEnumFilter<"Payroll"> | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  terminationReason?: Prisma.StringNullableFilter<"Payroll"> | string | null
   note?: Prisma.StringNullableFilter<"Payroll"> | string | null
   metadata?: Prisma.JsonNullableFilter<"Payroll">
   company?: Prisma.XOR<Prisma.CompanyScalarRelationFilter, Prisma.CompanyWhereInput>
   employee?: Prisma.XOR<Prisma.EmployeeScalarRelationFilter, Prisma.EmployeeWhereInput>
   invoices?: Prisma.InvoiceListRelationFilter
   invoiceSchedules?: Prisma.InvoiceScheduleListRelationFilter
+  amendments?: Prisma.PayrollAmendmentListRelationFilter
+  adjustments?: Prisma.PayrollAdjustmentListRelationFilter
+  payoutSplits?: Prisma.PayrollPayoutSplitListRelationFilter
+  pauses?: Prisma.PayrollPauseListRelationFilter
 }, "id" | "uuid">
 
 export type PayrollOrderByWithAggregationInput = {
@@ -418,14 +504,21 @@ export type PayrollOrderByWithAggregationInput = {
   token?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   contractTerm?: Prisma.SortOrder
+  payFrequency?: Prisma.SortOrder
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
   joiningDate?: Prisma.SortOrder
   payStartDate?: Prisma.SortOrder
   payEndDate?: Prisma.SortOrder
+  contractEndDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  prorationMethod?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
+  renewalReminderSentAt?: Prisma.SortOrderInput | Prisma.SortOrder
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  terminatedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  terminationReason?: Prisma.SortOrderInput | Prisma.SortOrder
   note?: Prisma.SortOrderInput | Prisma.SortOrder
   metadata?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.PayrollCountOrderByAggregateInput
@@ -449,14 +542,21 @@ export type PayrollScalarWhereWithAggregatesInput = {
   token?: Prisma.JsonWithAggregatesFilter<"Payroll">
   amount?: Prisma.StringWithAggregatesFilter<"Payroll"> | string
   contractTerm?: Prisma.EnumContractTermEnumWithAggregatesFilter<"Payroll"> | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumWithAggregatesFilter<"Payroll"> | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntWithAggregatesFilter<"Payroll"> | number
   currentCycleNumber?: Prisma.IntWithAggregatesFilter<"Payroll"> | number
   paydayDay?: Prisma.IntWithAggregatesFilter<"Payroll"> | number
   joiningDate?: Prisma.DateTimeWithAggregatesFilter<"Payroll"> | Date | string
   payStartDate?: Prisma.DateTimeWithAggregatesFilter<"Payroll"> | Date | string
   payEndDate?: Prisma.DateTimeWithAggregatesFilter<"Payroll"> | Date | string
+  contractEndDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Payroll"> | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumWithAggregatesFilter<"Payroll"> | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntWithAggregatesFilter<"Payroll"> | number
+  renewalReminderSentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Payroll"> | Date | string | null
   description?: Prisma.StringWithAggregatesFilter<"Payroll"> | string
   status?: Prisma.EnumPayrollStatusEnumWithAggregatesFilter<"Payroll"> | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Payroll"> | Date | string | null
+  terminationReason?: Prisma.StringNullableWithAggregatesFilter<"Payroll"> | string | null
   note?: Prisma.StringNullableWithAggregatesFilter<"Payroll"> | string | null
   metadata?: Prisma.JsonNullableWithAggregatesFilter<"Payroll">
 }
@@ -469,20 +569,31 @@ export type PayrollCreateInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
   employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
   invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollUncheckedCreateInput = {
@@ -496,18 +607,29 @@ export type PayrollUncheckedCreateInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollUpdateInput = {
@@ -518,20 +640,31 @@ export type PayrollUpdateInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
   employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
   invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateInput = {
@@ -545,18 +678,29 @@ export type PayrollUncheckedUpdateInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollCreateManyInput = {
@@ -570,14 +714,21 @@ export type PayrollCreateManyInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -590,14 +741,21 @@ export type PayrollUpdateManyMutationInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -613,14 +771,21 @@ export type PayrollUncheckedUpdateManyInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -646,14 +811,21 @@ export type PayrollCountOrderByAggregateInput = {
   token?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   contractTerm?: Prisma.SortOrder
+  payFrequency?: Prisma.SortOrder
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
   joiningDate?: Prisma.SortOrder
   payStartDate?: Prisma.SortOrder
   payEndDate?: Prisma.SortOrder
+  contractEndDate?: Prisma.SortOrder
+  prorationMethod?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
+  renewalReminderSentAt?: Prisma.SortOrder
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  terminatedAt?: Prisma.SortOrder
+  terminationReason?: Prisma.SortOrder
   note?: Prisma.SortOrder
   metadata?: Prisma.SortOrder
 }
@@ -665,6 +837,7 @@ export type PayrollAvgOrderByAggregateInput = {
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
 }
 
 export type PayrollMaxOrderByAggregateInput = {
@@ -676,14 +849,21 @@ export type PayrollMaxOrderByAggregateInput = {
   employeeId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   contractTerm?: Prisma.SortOrder
+  payFrequency?: Prisma.SortOrder
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
   joiningDate?: Prisma.SortOrder
   payStartDate?: Prisma.SortOrder
   payEndDate?: Prisma.SortOrder
+  contractEndDate?: Prisma.SortOrder
+  prorationMethod?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
+  renewalReminderSentAt?: Prisma.SortOrder
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  terminatedAt?: Prisma.SortOrder
+  terminationReason?: Prisma.SortOrder
   note?: Prisma.SortOrder
 }
 
@@ -696,14 +876,21 @@ export type PayrollMinOrderByAggregateInput = {
   employeeId?: Prisma.SortOrder
   amount?: Prisma.SortOrder
   contractTerm?: Prisma.SortOrder
+  payFrequency?: Prisma.SortOrder
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
   joiningDate?: Prisma.SortOrder
   payStartDate?: Prisma.SortOrder
   payEndDate?: Prisma.SortOrder
+  contractEndDate?: Prisma.SortOrder
+  prorationMethod?: Prisma.SortOrder
+  renewalReminderDays?: Prisma.SortOrder
+  renewalReminderSentAt?: Prisma.SortOrder
   description?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  terminatedAt?: Prisma.SortOrder
+  terminationReason?: Prisma.SortOrder
   note?: Prisma.SortOrder
 }
 
@@ -714,11 +901,7 @@ export type PayrollSumOrderByAggregateInput = {
   payrollCycle?: Prisma.SortOrder
   currentCycleNumber?: Prisma.SortOrder
   paydayDay?: Prisma.SortOrder
-}
-
-export type PayrollNullableScalarRelationFilter = {
-  is?: Prisma.PayrollWhereInput | null
-  isNot?: Prisma.PayrollWhereInput | null
+  renewalReminderDays?: Prisma.SortOrder
 }
 
 export type PayrollScalarRelationFilter = {
@@ -726,6 +909,11 @@ export type PayrollScalarRelationFilter = {
   isNot?: Prisma.PayrollWhereInput
 }
 
+export type PayrollNullableScalarRelationFilter = {
+  is?: Prisma.PayrollWhereInput | null
+  isNot?: Prisma.PayrollWhereInput | null
+}
+
 export type PayrollCreateNestedManyWithoutCompanyInput = {
   create?: Prisma.XOR<Prisma.PayrollCreateWithoutCompanyInput, Prisma.PayrollUncheckedCreateWithoutCompanyInput> | Prisma.PayrollCreateWithoutCompanyInput[] | Prisma.PayrollUncheckedCreateWithoutCompanyInput[]
   connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutCompanyInput | Prisma.PayrollCreateOrConnectWithoutCompanyInput[]
@@ -814,10 +1002,74 @@ export type EnumContractTermEnumFieldUpdateOperationsInput = {
   set?: $Enums.ContractTermEnum
 }
 
+export type EnumPayFrequencyEnumFieldUpdateOperationsInput = {
+  set?: $Enums.PayFrequencyEnum
+}
+
+export type EnumProrationMethodEnumFieldUpdateOperationsInput = {
+  set?: $Enums.ProrationMethodEnum
+}
+
 export type EnumPayrollStatusEnumFieldUpdateOperationsInput = {
   set?: $Enums.PayrollStatusEnum
 }
 
+export type PayrollCreateNestedOneWithoutAmendmentsInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutAmendmentsInput, Prisma.PayrollUncheckedCreateWithoutAmendmentsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutAmendmentsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+}
+
+export type PayrollUpdateOneRequiredWithoutAmendmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutAmendmentsInput, Prisma.PayrollUncheckedCreateWithoutAmendmentsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutAmendmentsInput
+  upsert?: Prisma.PayrollUpsertWithoutAmendmentsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutAmendmentsInput, Prisma.PayrollUpdateWithoutAmendmentsInput>, Prisma.PayrollUncheckedUpdateWithoutAmendmentsInput>
+}
+
+export type PayrollCreateNestedOneWithoutPausesInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutPausesInput, Prisma.PayrollUncheckedCreateWithoutPausesInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutPausesInput
+  connect?: Prisma.PayrollWhereUniqueInput
+}
+
+export type PayrollUpdateOneRequiredWithoutPausesNestedInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutPausesInput, Prisma.PayrollUncheckedCreateWithoutPausesInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutPausesInput
+  upsert?: Prisma.PayrollUpsertWithoutPausesInput
+  connect?: Prisma.PayrollWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutPausesInput, Prisma.PayrollUpdateWithoutPausesInput>, Prisma.PayrollUncheckedUpdateWithoutPausesInput>
+}
+
+export type PayrollCreateNestedOneWithoutAdjustmentsInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutAdjustmentsInput, Prisma.PayrollUncheckedCreateWithoutAdjustmentsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutAdjustmentsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+}
+
+export type PayrollUpdateOneRequiredWithoutAdjustmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutAdjustmentsInput, Prisma.PayrollUncheckedCreateWithoutAdjustmentsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutAdjustmentsInput
+  upsert?: Prisma.PayrollUpsertWithoutAdjustmentsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutAdjustmentsInput, Prisma.PayrollUpdateWithoutAdjustmentsInput>, Prisma.PayrollUncheckedUpdateWithoutAdjustmentsInput>
+}
+
+export type PayrollCreateNestedOneWithoutPayoutSplitsInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedCreateWithoutPayoutSplitsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutPayoutSplitsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+}
+
+export type PayrollUpdateOneRequiredWithoutPayoutSplitsNestedInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedCreateWithoutPayoutSplitsInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutPayoutSplitsInput
+  upsert?: Prisma.PayrollUpsertWithoutPayoutSplitsInput
+  connect?: Prisma.PayrollWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutPayoutSplitsInput, Prisma.PayrollUpdateWithoutPayoutSplitsInput>, Prisma.PayrollUncheckedUpdateWithoutPayoutSplitsInput>
+}
+
 export type PayrollCreateNestedOneWithoutInvoicesInput = {
   create?: Prisma.XOR<Prisma.PayrollCreateWithoutInvoicesInput, Prisma.PayrollUncheckedCreateWithoutInvoicesInput>
   connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutInvoicesInput
@@ -840,15 +1092,548 @@ export type PayrollCreateNestedOneWithoutInvoiceSchedulesInput = {
   connect?: Prisma.PayrollWhereUniqueInput
 }
 
-export type PayrollUpdateOneRequiredWithoutInvoiceSchedulesNestedInput = {
-  create?: Prisma.XOR<Prisma.PayrollCreateWithoutInvoiceSchedulesInput, Prisma.PayrollUncheckedCreateWithoutInvoiceSchedulesInput>
-  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutInvoiceSchedulesInput
-  upsert?: Prisma.PayrollUpsertWithoutInvoiceSchedulesInput
-  connect?: Prisma.PayrollWhereUniqueInput
-  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutInvoiceSchedulesInput, Prisma.PayrollUpdateWithoutInvoiceSchedulesInput>, Prisma.PayrollUncheckedUpdateWithoutInvoiceSchedulesInput>
+export type PayrollUpdateOneWithoutInvoiceSchedulesNestedInput = {
+  create?: Prisma.XOR<Prisma.PayrollCreateWithoutInvoiceSchedulesInput, Prisma.PayrollUncheckedCreateWithoutInvoiceSchedulesInput>
+  connectOrCreate?: Prisma.PayrollCreateOrConnectWithoutInvoiceSchedulesInput
+  upsert?: Prisma.PayrollUpsertWithoutInvoiceSchedulesInput
+  disconnect?: Prisma.PayrollWhereInput | boolean
+  delete?: Prisma.PayrollWhereInput | boolean
+  connect?: Prisma.PayrollWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PayrollUpdateToOneWithWhereWithoutInvoiceSchedulesInput, Prisma.PayrollUpdateWithoutInvoiceSchedulesInput>, Prisma.PayrollUncheckedUpdateWithoutInvoiceSchedulesInput>
+}
+
+export type PayrollCreateWithoutCompanyInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
+  invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollUncheckedCreateWithoutCompanyInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  employeeId: number
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollCreateOrConnectWithoutCompanyInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutCompanyInput, Prisma.PayrollUncheckedCreateWithoutCompanyInput>
+}
+
+export type PayrollCreateManyCompanyInputEnvelope = {
+  data: Prisma.PayrollCreateManyCompanyInput | Prisma.PayrollCreateManyCompanyInput[]
+  skipDuplicates?: boolean
+}
+
+export type PayrollUpsertWithWhereUniqueWithoutCompanyInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutCompanyInput, Prisma.PayrollUncheckedUpdateWithoutCompanyInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutCompanyInput, Prisma.PayrollUncheckedCreateWithoutCompanyInput>
+}
+
+export type PayrollUpdateWithWhereUniqueWithoutCompanyInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutCompanyInput, Prisma.PayrollUncheckedUpdateWithoutCompanyInput>
+}
+
+export type PayrollUpdateManyWithWhereWithoutCompanyInput = {
+  where: Prisma.PayrollScalarWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateManyMutationInput, Prisma.PayrollUncheckedUpdateManyWithoutCompanyInput>
+}
+
+export type PayrollScalarWhereInput = {
+  AND?: Prisma.PayrollScalarWhereInput | Prisma.PayrollScalarWhereInput[]
+  OR?: Prisma.PayrollScalarWhereInput[]
+  NOT?: Prisma.PayrollScalarWhereInput | Prisma.PayrollScalarWhereInput[]
+  id?: Prisma.IntFilter<"Payroll"> | number
+  uuid?: Prisma.StringFilter<"Payroll"> | string
+  createdAt?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  companyId?: Prisma.IntFilter<"Payroll"> | number
+  employeeId?: Prisma.IntFilter<"Payroll"> | number
+  network?: Prisma.JsonFilter<"Payroll">
+  token?: Prisma.JsonFilter<"Payroll">
+  amount?: Prisma.StringFilter<"Payroll"> | string
+  contractTerm?: Prisma.EnumContractTermEnumFilter<"Payroll"> | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFilter<"Payroll"> | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFilter<"Payroll"> | number
+  currentCycleNumber?: Prisma.IntFilter<"Payroll"> | number
+  paydayDay?: Prisma.IntFilter<"Payroll"> | number
+  joiningDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  payStartDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  payEndDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
+  contractEndDate?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFilter<"Payroll"> | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFilter<"Payroll"> | number
+  renewalReminderSentAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  description?: Prisma.StringFilter<"Payroll"> | string
+  status?: Prisma.EnumPayrollStatusEnumFilter<"Payroll"> | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.DateTimeNullableFilter<"Payroll"> | Date | string | null
+  terminationReason?: Prisma.StringNullableFilter<"Payroll"> | string | null
+  note?: Prisma.StringNullableFilter<"Payroll"> | string | null
+  metadata?: Prisma.JsonNullableFilter<"Payroll">
+}
+
+export type PayrollCreateWithoutEmployeeInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
+  invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollUncheckedCreateWithoutEmployeeInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollCreateOrConnectWithoutEmployeeInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutEmployeeInput, Prisma.PayrollUncheckedCreateWithoutEmployeeInput>
+}
+
+export type PayrollCreateManyEmployeeInputEnvelope = {
+  data: Prisma.PayrollCreateManyEmployeeInput | Prisma.PayrollCreateManyEmployeeInput[]
+  skipDuplicates?: boolean
+}
+
+export type PayrollUpsertWithWhereUniqueWithoutEmployeeInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutEmployeeInput, Prisma.PayrollUncheckedUpdateWithoutEmployeeInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutEmployeeInput, Prisma.PayrollUncheckedCreateWithoutEmployeeInput>
+}
+
+export type PayrollUpdateWithWhereUniqueWithoutEmployeeInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutEmployeeInput, Prisma.PayrollUncheckedUpdateWithoutEmployeeInput>
+}
+
+export type PayrollUpdateManyWithWhereWithoutEmployeeInput = {
+  where: Prisma.PayrollScalarWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateManyMutationInput, Prisma.PayrollUncheckedUpdateManyWithoutEmployeeInput>
+}
+
+export type PayrollCreateWithoutAmendmentsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
+  employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
+  invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollUncheckedCreateWithoutAmendmentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  employeeId: number
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollCreateOrConnectWithoutAmendmentsInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutAmendmentsInput, Prisma.PayrollUncheckedCreateWithoutAmendmentsInput>
+}
+
+export type PayrollUpsertWithoutAmendmentsInput = {
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutAmendmentsInput, Prisma.PayrollUncheckedUpdateWithoutAmendmentsInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutAmendmentsInput, Prisma.PayrollUncheckedCreateWithoutAmendmentsInput>
+  where?: Prisma.PayrollWhereInput
+}
+
+export type PayrollUpdateToOneWithWhereWithoutAmendmentsInput = {
+  where?: Prisma.PayrollWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutAmendmentsInput, Prisma.PayrollUncheckedUpdateWithoutAmendmentsInput>
+}
+
+export type PayrollUpdateWithoutAmendmentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
+  employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
+  invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
+}
+
+export type PayrollUncheckedUpdateWithoutAmendmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  employeeId?: Prisma.IntFieldUpdateOperationsInput | number
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
+}
+
+export type PayrollCreateWithoutPausesInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
+  employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
+  invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollUncheckedCreateWithoutPausesInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  companyId: number
+  employeeId: number
+  network: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount: string
+  contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
+  payrollCycle: number
+  currentCycleNumber?: number
+  paydayDay: number
+  joiningDate: Date | string
+  payStartDate: Date | string
+  payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
+  description: string
+  status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
+  note?: string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+}
+
+export type PayrollCreateOrConnectWithoutPausesInput = {
+  where: Prisma.PayrollWhereUniqueInput
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutPausesInput, Prisma.PayrollUncheckedCreateWithoutPausesInput>
+}
+
+export type PayrollUpsertWithoutPausesInput = {
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutPausesInput, Prisma.PayrollUncheckedUpdateWithoutPausesInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutPausesInput, Prisma.PayrollUncheckedCreateWithoutPausesInput>
+  where?: Prisma.PayrollWhereInput
+}
+
+export type PayrollUpdateToOneWithWhereWithoutPausesInput = {
+  where?: Prisma.PayrollWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutPausesInput, Prisma.PayrollUncheckedUpdateWithoutPausesInput>
+}
+
+export type PayrollUpdateWithoutPausesInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
+  employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
+  invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+}
+
+export type PayrollUncheckedUpdateWithoutPausesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  employeeId?: Prisma.IntFieldUpdateOperationsInput | number
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
-export type PayrollCreateWithoutCompanyInput = {
+export type PayrollCreateWithoutAdjustmentsInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -856,98 +1641,153 @@ export type PayrollCreateWithoutCompanyInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
   employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
   invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
 }
 
-export type PayrollUncheckedCreateWithoutCompanyInput = {
+export type PayrollUncheckedCreateWithoutAdjustmentsInput = {
   id?: number
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
+  companyId: number
   employeeId: number
   network: Prisma.JsonNullValueInput | runtime.InputJsonValue
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
 }
 
-export type PayrollCreateOrConnectWithoutCompanyInput = {
+export type PayrollCreateOrConnectWithoutAdjustmentsInput = {
   where: Prisma.PayrollWhereUniqueInput
-  create: Prisma.XOR<Prisma.PayrollCreateWithoutCompanyInput, Prisma.PayrollUncheckedCreateWithoutCompanyInput>
-}
-
-export type PayrollCreateManyCompanyInputEnvelope = {
-  data: Prisma.PayrollCreateManyCompanyInput | Prisma.PayrollCreateManyCompanyInput[]
-  skipDuplicates?: boolean
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutAdjustmentsInput, Prisma.PayrollUncheckedCreateWithoutAdjustmentsInput>
 }
 
-export type PayrollUpsertWithWhereUniqueWithoutCompanyInput = {
-  where: Prisma.PayrollWhereUniqueInput
-  update: Prisma.XOR<Prisma.PayrollUpdateWithoutCompanyInput, Prisma.PayrollUncheckedUpdateWithoutCompanyInput>
-  create: Prisma.XOR<Prisma.PayrollCreateWithoutCompanyInput, Prisma.PayrollUncheckedCreateWithoutCompanyInput>
+export type PayrollUpsertWithoutAdjustmentsInput = {
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutAdjustmentsInput, Prisma.PayrollUncheckedUpdateWithoutAdjustmentsInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutAdjustmentsInput, Prisma.PayrollUncheckedCreateWithoutAdjustmentsInput>
+  where?: Prisma.PayrollWhereInput
 }
 
-export type PayrollUpdateWithWhereUniqueWithoutCompanyInput = {
-  where: Prisma.PayrollWhereUniqueInput
-  data: Prisma.XOR<Prisma.PayrollUpdateWithoutCompanyInput, Prisma.PayrollUncheckedUpdateWithoutCompanyInput>
+export type PayrollUpdateToOneWithWhereWithoutAdjustmentsInput = {
+  where?: Prisma.PayrollWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutAdjustmentsInput, Prisma.PayrollUncheckedUpdateWithoutAdjustmentsInput>
 }
 
-export type PayrollUpdateManyWithWhereWithoutCompanyInput = {
-  where: Prisma.PayrollScalarWhereInput
-  data: Prisma.XOR<Prisma.PayrollUpdateManyMutationInput, Prisma.PayrollUncheckedUpdateManyWithoutCompanyInput>
+export type PayrollUpdateWithoutAdjustmentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
+  employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
+  invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
-export type PayrollScalarWhereInput = {
-  AND?: Prisma.PayrollScalarWhereInput | Prisma.PayrollScalarWhereInput[]
-  OR?: Prisma.PayrollScalarWhereInput[]
-  NOT?: Prisma.PayrollScalarWhereInput | Prisma.PayrollScalarWhereInput[]
-  id?: Prisma.IntFilter<"Payroll"> | number
-  uuid?: Prisma.StringFilter<"Payroll"> | string
-  createdAt?: Prisma.DateTimeFilter<"Payroll"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"Payroll"> | Date | string
-  companyId?: Prisma.IntFilter<"Payroll"> | number
-  employeeId?: Prisma.IntFilter<"Payroll"> | number
-  network?: Prisma.JsonFilter<"Payroll">
-  token?: Prisma.JsonFilter<"Payroll">
-  amount?: Prisma.StringFilter<"Payroll"> | string
-  contractTerm?: Prisma.EnumContractTermEnumFilter<"Payroll"> | $Enums.ContractTermEnum
-  payrollCycle?: Prisma.IntFilter<"Payroll"> | number
-  currentCycleNumber?: Prisma.IntFilter<"Payroll"> | number
-  paydayDay?: Prisma.IntFilter<"Payroll"> | number
-  joiningDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
-  payStartDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
-  payEndDate?: Prisma.DateTimeFilter<"Payroll"> | Date | string
-  description?: Prisma.StringFilter<"Payroll"> | string
-  status?: Prisma.EnumPayrollStatusEnumFilter<"Payroll"> | $Enums.PayrollStatusEnum
-  note?: Prisma.StringNullableFilter<"Payroll"> | string | null
-  metadata?: Prisma.JsonNullableFilter<"Payroll">
+export type PayrollUncheckedUpdateWithoutAdjustmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  employeeId?: Prisma.IntFieldUpdateOperationsInput | number
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
-export type PayrollCreateWithoutEmployeeInput = {
+export type PayrollCreateWithoutPayoutSplitsInput = {
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -955,69 +1795,150 @@ export type PayrollCreateWithoutEmployeeInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
+  employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
   invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
 }
 
-export type PayrollUncheckedCreateWithoutEmployeeInput = {
+export type PayrollUncheckedCreateWithoutPayoutSplitsInput = {
   id?: number
   uuid?: string
   createdAt?: Date | string
   updatedAt?: Date | string
   companyId: number
+  employeeId: number
   network: Prisma.JsonNullValueInput | runtime.InputJsonValue
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
 }
 
-export type PayrollCreateOrConnectWithoutEmployeeInput = {
+export type PayrollCreateOrConnectWithoutPayoutSplitsInput = {
   where: Prisma.PayrollWhereUniqueInput
-  create: Prisma.XOR<Prisma.PayrollCreateWithoutEmployeeInput, Prisma.PayrollUncheckedCreateWithoutEmployeeInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedCreateWithoutPayoutSplitsInput>
 }
 
-export type PayrollCreateManyEmployeeInputEnvelope = {
-  data: Prisma.PayrollCreateManyEmployeeInput | Prisma.PayrollCreateManyEmployeeInput[]
-  skipDuplicates?: boolean
+export type PayrollUpsertWithoutPayoutSplitsInput = {
+  update: Prisma.XOR<Prisma.PayrollUpdateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedUpdateWithoutPayoutSplitsInput>
+  create: Prisma.XOR<Prisma.PayrollCreateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedCreateWithoutPayoutSplitsInput>
+  where?: Prisma.PayrollWhereInput
 }
 
-export type PayrollUpsertWithWhereUniqueWithoutEmployeeInput = {
-  where: Prisma.PayrollWhereUniqueInput
-  update: Prisma.XOR<Prisma.PayrollUpdateWithoutEmployeeInput, Prisma.PayrollUncheckedUpdateWithoutEmployeeInput>
-  create: Prisma.XOR<Prisma.PayrollCreateWithoutEmployeeInput, Prisma.PayrollUncheckedCreateWithoutEmployeeInput>
+export type PayrollUpdateToOneWithWhereWithoutPayoutSplitsInput = {
+  where?: Prisma.PayrollWhereInput
+  data: Prisma.XOR<Prisma.PayrollUpdateWithoutPayoutSplitsInput, Prisma.PayrollUncheckedUpdateWithoutPayoutSplitsInput>
 }
 
-export type PayrollUpdateWithWhereUniqueWithoutEmployeeInput = {
-  where: Prisma.PayrollWhereUniqueInput
-  data: Prisma.XOR<Prisma.PayrollUpdateWithoutEmployeeInput, Prisma.PayrollUncheckedUpdateWithoutEmployeeInput>
+export type PayrollUpdateWithoutPayoutSplitsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
+  employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
+  invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
-export type PayrollUpdateManyWithWhereWithoutEmployeeInput = {
-  where: Prisma.PayrollScalarWhereInput
-  data: Prisma.XOR<Prisma.PayrollUpdateManyMutationInput, Prisma.PayrollUncheckedUpdateManyWithoutEmployeeInput>
+export type PayrollUncheckedUpdateWithoutPayoutSplitsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  companyId?: Prisma.IntFieldUpdateOperationsInput | number
+  employeeId?: Prisma.IntFieldUpdateOperationsInput | number
+  network?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
+  amount?: Prisma.StringFieldUpdateOperationsInput | string
+  contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
+  payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
+  currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
+  joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
+  invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollCreateWithoutInvoicesInput = {
@@ -1028,19 +1949,30 @@ export type PayrollCreateWithoutInvoicesInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
   employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
   invoiceSchedules?: Prisma.InvoiceScheduleCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollUncheckedCreateWithoutInvoicesInput = {
@@ -1054,17 +1986,28 @@ export type PayrollUncheckedCreateWithoutInvoicesInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollCreateOrConnectWithoutInvoicesInput = {
@@ -1091,19 +2034,30 @@ export type PayrollUpdateWithoutInvoicesInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
   employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateWithoutInvoicesInput = {
@@ -1117,17 +2071,28 @@ export type PayrollUncheckedUpdateWithoutInvoicesInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollCreateWithoutInvoiceSchedulesInput = {
@@ -1138,19 +2103,30 @@ export type PayrollCreateWithoutInvoiceSchedulesInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company: Prisma.CompanyCreateNestedOneWithoutPayrollsInput
   employee: Prisma.EmployeeCreateNestedOneWithoutPayrollsInput
   invoices?: Prisma.InvoiceCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollUncheckedCreateWithoutInvoiceSchedulesInput = {
@@ -1164,17 +2140,28 @@ export type PayrollUncheckedCreateWithoutInvoiceSchedulesInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedCreateNestedManyWithoutPayrollInput
+  amendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutPayrollInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedCreateNestedManyWithoutPayrollInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedCreateNestedManyWithoutPayrollInput
+  pauses?: Prisma.PayrollPauseUncheckedCreateNestedManyWithoutPayrollInput
 }
 
 export type PayrollCreateOrConnectWithoutInvoiceSchedulesInput = {
@@ -1201,19 +2188,30 @@ export type PayrollUpdateWithoutInvoiceSchedulesInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
   employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
   invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateWithoutInvoiceSchedulesInput = {
@@ -1227,17 +2225,28 @@ export type PayrollUncheckedUpdateWithoutInvoiceSchedulesInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollCreateManyCompanyInput = {
@@ -1250,14 +2259,21 @@ export type PayrollCreateManyCompanyInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -1270,19 +2286,30 @@ export type PayrollUpdateWithoutCompanyInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   employee?: Prisma.EmployeeUpdateOneRequiredWithoutPayrollsNestedInput
   invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateWithoutCompanyInput = {
@@ -1295,18 +2322,29 @@ export type PayrollUncheckedUpdateWithoutCompanyInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateManyWithoutCompanyInput = {
@@ -1319,14 +2357,21 @@ export type PayrollUncheckedUpdateManyWithoutCompanyInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -1341,14 +2386,21 @@ export type PayrollCreateManyEmployeeInput = {
   token: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount: string
   contractTerm: $Enums.ContractTermEnum
+  payFrequency?: $Enums.PayFrequencyEnum
   payrollCycle: number
   currentCycleNumber?: number
   paydayDay: number
   joiningDate: Date | string
   payStartDate: Date | string
   payEndDate: Date | string
+  contractEndDate?: Date | string | null
+  prorationMethod?: $Enums.ProrationMethodEnum
+  renewalReminderDays?: number
+  renewalReminderSentAt?: Date | string | null
   description: string
   status?: $Enums.PayrollStatusEnum
+  terminatedAt?: Date | string | null
+  terminationReason?: string | null
   note?: string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -1361,19 +2413,30 @@ export type PayrollUpdateWithoutEmployeeInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   company?: Prisma.CompanyUpdateOneRequiredWithoutPayrollsNestedInput
   invoices?: Prisma.InvoiceUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateWithoutEmployeeInput = {
@@ -1386,18 +2449,29 @@ export type PayrollUncheckedUpdateWithoutEmployeeInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
   invoices?: Prisma.InvoiceUncheckedUpdateManyWithoutPayrollNestedInput
   invoiceSchedules?: Prisma.InvoiceScheduleUncheckedUpdateManyWithoutPayrollNestedInput
+  amendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutPayrollNestedInput
+  adjustments?: Prisma.PayrollAdjustmentUncheckedUpdateManyWithoutPayrollNestedInput
+  payoutSplits?: Prisma.PayrollPayoutSplitUncheckedUpdateManyWithoutPayrollNestedInput
+  pauses?: Prisma.PayrollPauseUncheckedUpdateManyWithoutPayrollNestedInput
 }
 
 export type PayrollUncheckedUpdateManyWithoutEmployeeInput = {
@@ -1410,14 +2484,21 @@ export type PayrollUncheckedUpdateManyWithoutEmployeeInput = {
   token?: Prisma.JsonNullValueInput | runtime.InputJsonValue
   amount?: Prisma.StringFieldUpdateOperationsInput | string
   contractTerm?: Prisma.EnumContractTermEnumFieldUpdateOperationsInput | $Enums.ContractTermEnum
+  payFrequency?: Prisma.EnumPayFrequencyEnumFieldUpdateOperationsInput | $Enums.PayFrequencyEnum
   payrollCycle?: Prisma.IntFieldUpdateOperationsInput | number
   currentCycleNumber?: Prisma.IntFieldUpdateOperationsInput | number
   paydayDay?: Prisma.IntFieldUpdateOperationsInput | number
   joiningDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payStartDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   payEndDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  contractEndDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  prorationMethod?: Prisma.EnumProrationMethodEnumFieldUpdateOperationsInput | $Enums.ProrationMethodEnum
+  renewalReminderDays?: Prisma.IntFieldUpdateOperationsInput | number
+  renewalReminderSentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   description?: Prisma.StringFieldUpdateOperationsInput | string
   status?: Prisma.EnumPayrollStatusEnumFieldUpdateOperationsInput | $Enums.PayrollStatusEnum
+  terminatedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  terminationReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   metadata?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
 }
@@ -1430,11 +2511,19 @@ export type PayrollUncheckedUpdateManyWithoutEmployeeInput = {
 export type PayrollCountOutputType = {
   invoices: number
   invoiceSchedules: number
+  amendments: number
+  adjustments: number
+  payoutSplits: number
+  pauses: number
 }
 
 export type PayrollCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   invoices?: boolean | PayrollCountOutputTypeCountInvoicesArgs
   invoiceSchedules?: boolean | PayrollCountOutputTypeCountInvoiceSchedulesArgs
+  amendments?: boolean | PayrollCountOutputTypeCountAmendmentsArgs
+  adjustments?: boolean | PayrollCountOutputTypeCountAdjustmentsArgs
+  payoutSplits?: boolean | PayrollCountOutputTypeCountPayoutSplitsArgs
+  pauses?: boolean | PayrollCountOutputTypeCountPausesArgs
 }
 
 /**
@@ -1461,6 +2550,34 @@ export type PayrollCountOutputTypeCountInvoiceSchedulesArgs<ExtArgs extends runt
   where?: Prisma.InvoiceScheduleWhereInput
 }
 
+/**
+ * PayrollCountOutputType without action
+ */
+export type PayrollCountOutputTypeCountAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollAmendmentWhereInput
+}
+
+/**
+ * PayrollCountOutputType without action
+ */
+export type PayrollCountOutputTypeCountAdjustmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollAdjustmentWhereInput
+}
+
+/**
+ * PayrollCountOutputType without action
+ */
+export type PayrollCountOutputTypeCountPayoutSplitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollPayoutSplitWhereInput
+}
+
+/**
+ * PayrollCountOutputType without action
+ */
+export type PayrollCountOutputTypeCountPausesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollPauseWhereInput
+}
+
 
 export type PayrollSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1473,20 +2590,31 @@ export type PayrollSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   token?: boolean
   amount?: boolean
   contractTerm?: boolean
+  payFrequency?: boolean
   payrollCycle?: boolean
   currentCycleNumber?: boolean
   paydayDay?: boolean
   joiningDate?: boolean
   payStartDate?: boolean
   payEndDate?: boolean
+  contractEndDate?: boolean
+  prorationMethod?: boolean
+  renewalReminderDays?: boolean
+  renewalReminderSentAt?: boolean
   description?: boolean
   status?: boolean
+  terminatedAt?: boolean
+  terminationReason?: boolean
   note?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   employee?: boolean | Prisma.EmployeeDefaultArgs<ExtArgs>
   invoices?: boolean | Prisma.Payroll$invoicesArgs<ExtArgs>
   invoiceSchedules?: boolean | Prisma.Payroll$invoiceSchedulesArgs<ExtArgs>
+  amendments?: boolean | Prisma.Payroll$amendmentsArgs<ExtArgs>
+  adjustments?: boolean | Prisma.Payroll$adjustmentsArgs<ExtArgs>
+  payoutSplits?: boolean | Prisma.Payroll$payoutSplitsArgs<ExtArgs>
+  pauses?: boolean | Prisma.Payroll$pausesArgs<ExtArgs>
   _count?: boolean | Prisma.PayrollCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["payroll"]>
 
@@ -1501,14 +2629,21 @@ export type PayrollSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   token?: boolean
   amount?: boolean
   contractTerm?: boolean
+  payFrequency?: boolean
   payrollCycle?: boolean
   currentCycleNumber?: boolean
   paydayDay?: boolean
   joiningDate?: boolean
   payStartDate?: boolean
   payEndDate?: boolean
+  contractEndDate?: boolean
+  prorationMethod?: boolean
+  renewalReminderDays?: boolean
+  renewalReminderSentAt?: boolean
   description?: boolean
   status?: boolean
+  terminatedAt?: boolean
+  terminationReason?: boolean
   note?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
@@ -1526,14 +2661,21 @@ export type PayrollSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   token?: boolean
   amount?: boolean
   contractTerm?: boolean
+  payFrequency?: boolean
   payrollCycle?: boolean
   currentCycleNumber?: boolean
   paydayDay?: boolean
   joiningDate?: boolean
   payStartDate?: boolean
   payEndDate?: boolean
+  contractEndDate?: boolean
+  prorationMethod?: boolean
+  renewalReminderDays?: boolean
+  renewalReminderSentAt?: boolean
   description?: boolean
   status?: boolean
+  terminatedAt?: boolean
+  terminationReason?: boolean
   note?: boolean
   metadata?: boolean
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
@@ -1551,24 +2693,35 @@ export type PayrollSelectScalar = {
   token?: boolean
   amount?: boolean
   contractTerm?: boolean
+  payFrequency?: boolean
   payrollCycle?: boolean
   currentCycleNumber?: boolean
   paydayDay?: boolean
   joiningDate?: boolean
   payStartDate?: boolean
   payEndDate?: boolean
+  contractEndDate?: boolean
+  prorationMethod?: boolean
+  renewalReminderDays?: boolean
+  renewalReminderSentAt?: boolean
   description?: boolean
   status?: boolean
+  terminatedAt?: boolean
+  terminationReason?: boolean
   note?: boolean
   metadata?: boolean
 }
 
-export type PayrollOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyId" | "employeeId" | "network" | "token" | "amount" | "contractTerm" | "payrollCycle" | "currentCycleNumber" | "paydayDay" | "joiningDate" | "payStartDate" | "payEndDate" | "description" | "status" | "note" | "metadata", ExtArgs["result"]["payroll"]>
+export type PayrollOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "uuid" | "createdAt" | "updatedAt" | "companyId" | "employeeId" | "network" | "token" | "amount" | "contractTerm" | "payFrequency" | "payrollCycle" | "currentCycleNumber" | "paydayDay" | "joiningDate" | "payStartDate" | "payEndDate" | "contractEndDate" | "prorationMethod" | "renewalReminderDays" | "renewalReminderSentAt" | "description" | "status" | "terminatedAt" | "terminationReason" | "note" | "metadata", ExtArgs["result"]["payroll"]>
 export type PayrollInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   company?: boolean | Prisma.CompanyDefaultArgs<ExtArgs>
   employee?: boolean | Prisma.EmployeeDefaultArgs<ExtArgs>
   invoices?: boolean | Prisma.Payroll$invoicesArgs<ExtArgs>
   invoiceSchedules?: boolean | Prisma.Payroll$invoiceSchedulesArgs<ExtArgs>
+  amendments?: boolean | Prisma.Payroll$amendmentsArgs<ExtArgs>
+  adjustments?: boolean | Prisma.Payroll$adjustmentsArgs<ExtArgs>
+  payoutSplits?: boolean | Prisma.Payroll$payoutSplitsArgs<ExtArgs>
+  pauses?: boolean | Prisma.Payroll$pausesArgs<ExtArgs>
   _count?: boolean | Prisma.PayrollCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type PayrollIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1587,6 +2740,10 @@ export type $PayrollPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     employee: Prisma.$EmployeePayload<ExtArgs>
     invoices: Prisma.$InvoicePayload<ExtArgs>[]
     invoiceSchedules: Prisma.$InvoiceSchedulePayload<ExtArgs>[]
+    amendments: Prisma.$PayrollAmendmentPayload<ExtArgs>[]
+    adjustments: Prisma.$PayrollAdjustmentPayload<ExtArgs>[]
+    payoutSplits: Prisma.$PayrollPayoutSplitPayload<ExtArgs>[]
+    pauses: Prisma.$PayrollPausePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1599,14 +2756,21 @@ export type $PayrollPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     token: runtime.JsonValue
     amount: string
     contractTerm: $Enums.ContractTermEnum
+    payFrequency: $Enums.PayFrequencyEnum
     payrollCycle: number
     currentCycleNumber: number
     paydayDay: number
     joiningDate: Date
     payStartDate: Date
     payEndDate: Date
+    contractEndDate: Date | null
+    prorationMethod: $Enums.ProrationMethodEnum
+    renewalReminderDays: number
+    renewalReminderSentAt: Date | null
     description: string
     status: $Enums.PayrollStatusEnum
+    terminatedAt: Date | null
+    terminationReason: string | null
     note: string | null
     metadata: runtime.JsonValue | null
   }, ExtArgs["result"]["payroll"]>
@@ -2007,6 +3171,10 @@ export interface Prisma__PayrollClient<T, Null = never, ExtArgs extends runtime.
   employee<T extends Prisma.EmployeeDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.EmployeeDefaultArgs<ExtArgs>>): Prisma.Prisma__EmployeeClient<runtime.Types.Result.GetResult<Prisma.$EmployeePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   invoices<T extends Prisma.Payroll$invoicesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$invoicesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoicePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   invoiceSchedules<T extends Prisma.Payroll$invoiceSchedulesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$invoiceSchedulesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  amendments<T extends Prisma.Payroll$amendmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$amendmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollAmendmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  adjustments<T extends Prisma.Payroll$adjustmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$adjustmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollAdjustmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  payoutSplits<T extends Prisma.Payroll$payoutSplitsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$payoutSplitsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollPayoutSplitPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  pauses<T extends Prisma.Payroll$pausesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Payroll$pausesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollPausePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2046,14 +3214,21 @@ export interface PayrollFieldRefs {
   readonly token: Prisma.FieldRef<"Payroll", 'Json'>
   readonly amount: Prisma.FieldRef<"Payroll", 'String'>
   readonly contractTerm: Prisma.FieldRef<"Payroll", 'ContractTermEnum'>
+  readonly payFrequency: Prisma.FieldRef<"Payroll", 'PayFrequencyEnum'>
   readonly payrollCycle: Prisma.FieldRef<"Payroll", 'Int'>
   readonly currentCycleNumber: Prisma.FieldRef<"Payroll", 'Int'>
   readonly paydayDay: Prisma.FieldRef<"Payroll", 'Int'>
   readonly joiningDate: Prisma.FieldRef<"Payroll", 'DateTime'>
   readonly payStartDate: Prisma.FieldRef<"Payroll", 'DateTime'>
   readonly payEndDate: Prisma.FieldRef<"Payroll", 'DateTime'>
+  readonly contractEndDate: Prisma.FieldRef<"Payroll", 'DateTime'>
+  readonly prorationMethod: Prisma.FieldRef<"Payroll", 'ProrationMethodEnum'>
+  readonly renewalReminderDays: Prisma.FieldRef<"Payroll", 'Int'>
+  readonly renewalReminderSentAt: Prisma.FieldRef<"Payroll", 'DateTime'>
   readonly description: Prisma.FieldRef<"Payroll", 'String'>
   readonly status: Prisma.FieldRef<"Payroll", 'PayrollStatusEnum'>
+  readonly terminatedAt: Prisma.FieldRef<"Payroll", 'DateTime'>
+  readonly terminationReason: Prisma.FieldRef<"Payroll", 'String'>
   readonly note: Prisma.FieldRef<"Payroll", 'String'>
   readonly metadata: Prisma.FieldRef<"Payroll", 'Json'>
 }
@@ -2499,6 +3674,102 @@ export type Payroll$invoiceSchedulesArgs<ExtArgs extends runtime.Types.Extension
   distinct?: Prisma.InvoiceScheduleScalarFieldEnum | Prisma.InvoiceScheduleScalarFieldEnum[]
 }
 
+/**
+ * Payroll.amendments
+ */
+export type Payroll$amendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollAmendment
+   */
+  select?: Prisma.PayrollAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollAmendment
+   */
+  omit?: Prisma.PayrollAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollAmendmentInclude<ExtArgs> | null
+  where?: Prisma.PayrollAmendmentWhereInput
+  orderBy?: Prisma.PayrollAmendmentOrderByWithRelationInput | Prisma.PayrollAmendmentOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollAmendmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollAmendmentScalarFieldEnum | Prisma.PayrollAmendmentScalarFieldEnum[]
+}
+
+/**
+ * Payroll.adjustments
+ */
+export type Payroll$adjustmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollAdjustment
+   */
+  select?: Prisma.PayrollAdjustmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollAdjustment
+   */
+  omit?: Prisma.PayrollAdjustmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollAdjustmentInclude<ExtArgs> | null
+  where?: Prisma.PayrollAdjustmentWhereInput
+  orderBy?: Prisma.PayrollAdjustmentOrderByWithRelationInput | Prisma.PayrollAdjustmentOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollAdjustmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollAdjustmentScalarFieldEnum | Prisma.PayrollAdjustmentScalarFieldEnum[]
+}
+
+/**
+ * Payroll.payoutSplits
+ */
+export type Payroll$payoutSplitsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollPayoutSplit
+   */
+  select?: Prisma.PayrollPayoutSplitSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollPayoutSplit
+   */
+  omit?: Prisma.PayrollPayoutSplitOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollPayoutSplitInclude<ExtArgs> | null
+  where?: Prisma.PayrollPayoutSplitWhereInput
+  orderBy?: Prisma.PayrollPayoutSplitOrderByWithRelationInput | Prisma.PayrollPayoutSplitOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollPayoutSplitWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollPayoutSplitScalarFieldEnum | Prisma.PayrollPayoutSplitScalarFieldEnum[]
+}
+
+/**
+ * Payroll.pauses
+ */
+export type Payroll$pausesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollPause
+   */
+  select?: Prisma.PayrollPauseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollPause
+   */
+  omit?: Prisma.PayrollPauseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollPauseInclude<ExtArgs> | null
+  where?: Prisma.PayrollPauseWhereInput
+  orderBy?: Prisma.PayrollPauseOrderByWithRelationInput | Prisma.PayrollPauseOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollPauseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollPauseScalarFieldEnum | Prisma.PayrollPauseScalarFieldEnum[]
+}
+
 /**
  * Payroll without action
  */
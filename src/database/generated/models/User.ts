@@ -242,6 +242,8 @@ export type UserWhereInput = {
   lastLogin?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   teamMembership?: Prisma.XOR<Prisma.TeamMemberNullableScalarRelationFilter, Prisma.TeamMemberWhereInput> | null
   invitedMembers?: Prisma.TeamMemberListRelationFilter
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentListRelationFilter
+  invoiceApprovals?: Prisma.InvoiceApprovalListRelationFilter
 }
 
 export type UserOrderByWithRelationInput = {
@@ -255,6 +257,8 @@ export type UserOrderByWithRelationInput = {
   lastLogin?: Prisma.SortOrderInput | Prisma.SortOrder
   teamMembership?: Prisma.TeamMemberOrderByWithRelationInput
   invitedMembers?: Prisma.TeamMemberOrderByRelationAggregateInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentOrderByRelationAggregateInput
+  invoiceApprovals?: Prisma.InvoiceApprovalOrderByRelationAggregateInput
 }
 
 export type UserWhereUniqueInput = Prisma.AtLeast<{
@@ -271,6 +275,8 @@ export type UserWhereUniqueInput = Prisma.AtLeast<{
   lastLogin?: Prisma.DateTimeNullableFilter<"User"> | Date | string | null
   teamMembership?: Prisma.XOR<Prisma.TeamMemberNullableScalarRelationFilter, Prisma.TeamMemberWhereInput> | null
   invitedMembers?: Prisma.TeamMemberListRelationFilter
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentListRelationFilter
+  invoiceApprovals?: Prisma.InvoiceApprovalListRelationFilter
 }, "id" | "uuid" | "email">
 
 export type UserOrderByWithAggregationInput = {
@@ -313,6 +319,8 @@ export type UserCreateInput = {
   lastLogin?: Date | string | null
   teamMembership?: Prisma.TeamMemberCreateNestedOneWithoutUserInput
   invitedMembers?: Prisma.TeamMemberCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserUncheckedCreateInput = {
@@ -326,6 +334,8 @@ export type UserUncheckedCreateInput = {
   lastLogin?: Date | string | null
   teamMembership?: Prisma.TeamMemberUncheckedCreateNestedOneWithoutUserInput
   invitedMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserUpdateInput = {
@@ -338,6 +348,8 @@ export type UserUpdateInput = {
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   teamMembership?: Prisma.TeamMemberUpdateOneWithoutUserNestedInput
   invitedMembers?: Prisma.TeamMemberUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUpdateManyWithoutApprovedByNestedInput
 }
 
 export type UserUncheckedUpdateInput = {
@@ -351,6 +363,8 @@ export type UserUncheckedUpdateInput = {
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   teamMembership?: Prisma.TeamMemberUncheckedUpdateOneWithoutUserNestedInput
   invitedMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutApprovedByNestedInput
 }
 
 export type UserCreateManyInput = {
@@ -494,6 +508,36 @@ export type UserUpdateOneWithoutInvitedMembersNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvitedMembersInput, Prisma.UserUpdateWithoutInvitedMembersInput>, Prisma.UserUncheckedUpdateWithoutInvitedMembersInput>
 }
 
+export type UserCreateNestedOneWithoutApprovedPayrollAmendmentsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedCreateWithoutApprovedPayrollAmendmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutApprovedPayrollAmendmentsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneWithoutApprovedPayrollAmendmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedCreateWithoutApprovedPayrollAmendmentsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutApprovedPayrollAmendmentsInput
+  upsert?: Prisma.UserUpsertWithoutApprovedPayrollAmendmentsInput
+  disconnect?: Prisma.UserWhereInput | boolean
+  delete?: Prisma.UserWhereInput | boolean
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutApprovedPayrollAmendmentsInput, Prisma.UserUpdateWithoutApprovedPayrollAmendmentsInput>, Prisma.UserUncheckedUpdateWithoutApprovedPayrollAmendmentsInput>
+}
+
+export type UserCreateNestedOneWithoutInvoiceApprovalsInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedCreateWithoutInvoiceApprovalsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvoiceApprovalsInput
+  connect?: Prisma.UserWhereUniqueInput
+}
+
+export type UserUpdateOneRequiredWithoutInvoiceApprovalsNestedInput = {
+  create?: Prisma.XOR<Prisma.UserCreateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedCreateWithoutInvoiceApprovalsInput>
+  connectOrCreate?: Prisma.UserCreateOrConnectWithoutInvoiceApprovalsInput
+  upsert?: Prisma.UserUpsertWithoutInvoiceApprovalsInput
+  connect?: Prisma.UserWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.UserUpdateToOneWithWhereWithoutInvoiceApprovalsInput, Prisma.UserUpdateWithoutInvoiceApprovalsInput>, Prisma.UserUncheckedUpdateWithoutInvoiceApprovalsInput>
+}
+
 export type UserCreateWithoutTeamMembershipInput = {
   uuid?: string
   createdAt?: Date | string
@@ -503,6 +547,8 @@ export type UserCreateWithoutTeamMembershipInput = {
   isActive?: boolean
   lastLogin?: Date | string | null
   invitedMembers?: Prisma.TeamMemberCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserUncheckedCreateWithoutTeamMembershipInput = {
@@ -515,6 +561,8 @@ export type UserUncheckedCreateWithoutTeamMembershipInput = {
   isActive?: boolean
   lastLogin?: Date | string | null
   invitedMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserCreateOrConnectWithoutTeamMembershipInput = {
@@ -531,6 +579,8 @@ export type UserCreateWithoutInvitedMembersInput = {
   isActive?: boolean
   lastLogin?: Date | string | null
   teamMembership?: Prisma.TeamMemberCreateNestedOneWithoutUserInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserUncheckedCreateWithoutInvitedMembersInput = {
@@ -543,6 +593,8 @@ export type UserUncheckedCreateWithoutInvitedMembersInput = {
   isActive?: boolean
   lastLogin?: Date | string | null
   teamMembership?: Prisma.TeamMemberUncheckedCreateNestedOneWithoutUserInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutApprovedByInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutApprovedByInput
 }
 
 export type UserCreateOrConnectWithoutInvitedMembersInput = {
@@ -570,6 +622,8 @@ export type UserUpdateWithoutTeamMembershipInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   invitedMembers?: Prisma.TeamMemberUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUpdateManyWithoutApprovedByNestedInput
 }
 
 export type UserUncheckedUpdateWithoutTeamMembershipInput = {
@@ -582,6 +636,8 @@ export type UserUncheckedUpdateWithoutTeamMembershipInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   invitedMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutApprovedByNestedInput
 }
 
 export type UserUpsertWithoutInvitedMembersInput = {
@@ -604,6 +660,8 @@ export type UserUpdateWithoutInvitedMembersInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   teamMembership?: Prisma.TeamMemberUpdateOneWithoutUserNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUpdateManyWithoutApprovedByNestedInput
 }
 
 export type UserUncheckedUpdateWithoutInvitedMembersInput = {
@@ -616,6 +674,148 @@ export type UserUncheckedUpdateWithoutInvitedMembersInput = {
   isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   teamMembership?: Prisma.TeamMemberUncheckedUpdateOneWithoutUserNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutApprovedByNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutApprovedByNestedInput
+}
+
+export type UserCreateWithoutApprovedPayrollAmendmentsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  email: string
+  role?: $Enums.UserRoleEnum
+  isActive?: boolean
+  lastLogin?: Date | string | null
+  teamMembership?: Prisma.TeamMemberCreateNestedOneWithoutUserInput
+  invitedMembers?: Prisma.TeamMemberCreateNestedManyWithoutInviterInput
+  invoiceApprovals?: Prisma.InvoiceApprovalCreateNestedManyWithoutApprovedByInput
+}
+
+export type UserUncheckedCreateWithoutApprovedPayrollAmendmentsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  email: string
+  role?: $Enums.UserRoleEnum
+  isActive?: boolean
+  lastLogin?: Date | string | null
+  teamMembership?: Prisma.TeamMemberUncheckedCreateNestedOneWithoutUserInput
+  invitedMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutInviterInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedCreateNestedManyWithoutApprovedByInput
+}
+
+export type UserCreateOrConnectWithoutApprovedPayrollAmendmentsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedCreateWithoutApprovedPayrollAmendmentsInput>
+}
+
+export type UserUpsertWithoutApprovedPayrollAmendmentsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedUpdateWithoutApprovedPayrollAmendmentsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedCreateWithoutApprovedPayrollAmendmentsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutApprovedPayrollAmendmentsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutApprovedPayrollAmendmentsInput, Prisma.UserUncheckedUpdateWithoutApprovedPayrollAmendmentsInput>
+}
+
+export type UserUpdateWithoutApprovedPayrollAmendmentsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleEnumFieldUpdateOperationsInput | $Enums.UserRoleEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  teamMembership?: Prisma.TeamMemberUpdateOneWithoutUserNestedInput
+  invitedMembers?: Prisma.TeamMemberUpdateManyWithoutInviterNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUpdateManyWithoutApprovedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutApprovedPayrollAmendmentsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleEnumFieldUpdateOperationsInput | $Enums.UserRoleEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  teamMembership?: Prisma.TeamMemberUncheckedUpdateOneWithoutUserNestedInput
+  invitedMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutInviterNestedInput
+  invoiceApprovals?: Prisma.InvoiceApprovalUncheckedUpdateManyWithoutApprovedByNestedInput
+}
+
+export type UserCreateWithoutInvoiceApprovalsInput = {
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  email: string
+  role?: $Enums.UserRoleEnum
+  isActive?: boolean
+  lastLogin?: Date | string | null
+  teamMembership?: Prisma.TeamMemberCreateNestedOneWithoutUserInput
+  invitedMembers?: Prisma.TeamMemberCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentCreateNestedManyWithoutApprovedByInput
+}
+
+export type UserUncheckedCreateWithoutInvoiceApprovalsInput = {
+  id?: number
+  uuid?: string
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  email: string
+  role?: $Enums.UserRoleEnum
+  isActive?: boolean
+  lastLogin?: Date | string | null
+  teamMembership?: Prisma.TeamMemberUncheckedCreateNestedOneWithoutUserInput
+  invitedMembers?: Prisma.TeamMemberUncheckedCreateNestedManyWithoutInviterInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedCreateNestedManyWithoutApprovedByInput
+}
+
+export type UserCreateOrConnectWithoutInvoiceApprovalsInput = {
+  where: Prisma.UserWhereUniqueInput
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedCreateWithoutInvoiceApprovalsInput>
+}
+
+export type UserUpsertWithoutInvoiceApprovalsInput = {
+  update: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedUpdateWithoutInvoiceApprovalsInput>
+  create: Prisma.XOR<Prisma.UserCreateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedCreateWithoutInvoiceApprovalsInput>
+  where?: Prisma.UserWhereInput
+}
+
+export type UserUpdateToOneWithWhereWithoutInvoiceApprovalsInput = {
+  where?: Prisma.UserWhereInput
+  data: Prisma.XOR<Prisma.UserUpdateWithoutInvoiceApprovalsInput, Prisma.UserUncheckedUpdateWithoutInvoiceApprovalsInput>
+}
+
+export type UserUpdateWithoutInvoiceApprovalsInput = {
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleEnumFieldUpdateOperationsInput | $Enums.UserRoleEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  teamMembership?: Prisma.TeamMemberUpdateOneWithoutUserNestedInput
+  invitedMembers?: Prisma.TeamMemberUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUpdateManyWithoutApprovedByNestedInput
+}
+
+export type UserUncheckedUpdateWithoutInvoiceApprovalsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  uuid?: Prisma.StringFieldUpdateOperationsInput | string
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  email?: Prisma.StringFieldUpdateOperationsInput | string
+  role?: Prisma.EnumUserRoleEnumFieldUpdateOperationsInput | $Enums.UserRoleEnum
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  lastLogin?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  teamMembership?: Prisma.TeamMemberUncheckedUpdateOneWithoutUserNestedInput
+  invitedMembers?: Prisma.TeamMemberUncheckedUpdateManyWithoutInviterNestedInput
+  approvedPayrollAmendments?: Prisma.PayrollAmendmentUncheckedUpdateManyWithoutApprovedByNestedInput
 }
 
 
@@ -625,10 +825,14 @@ export type UserUncheckedUpdateWithoutInvitedMembersInput = {
 
 export type UserCountOutputType = {
   invitedMembers: number
+  approvedPayrollAmendments: number
+  invoiceApprovals: number
 }
 
 export type UserCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   invitedMembers?: boolean | UserCountOutputTypeCountInvitedMembersArgs
+  approvedPayrollAmendments?: boolean | UserCountOutputTypeCountApprovedPayrollAmendmentsArgs
+  invoiceApprovals?: boolean | UserCountOutputTypeCountInvoiceApprovalsArgs
 }
 
 /**
@@ -648,6 +852,20 @@ export type UserCountOutputTypeCountInvitedMembersArgs<ExtArgs extends runtime.T
   where?: Prisma.TeamMemberWhereInput
 }
 
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountApprovedPayrollAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PayrollAmendmentWhereInput
+}
+
+/**
+ * UserCountOutputType without action
+ */
+export type UserCountOutputTypeCountInvoiceApprovalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.InvoiceApprovalWhereInput
+}
+
 
 export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -660,6 +878,8 @@ export type UserSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = r
   lastLogin?: boolean
   teamMembership?: boolean | Prisma.User$teamMembershipArgs<ExtArgs>
   invitedMembers?: boolean | Prisma.User$invitedMembersArgs<ExtArgs>
+  approvedPayrollAmendments?: boolean | Prisma.User$approvedPayrollAmendmentsArgs<ExtArgs>
+  invoiceApprovals?: boolean | Prisma.User$invoiceApprovalsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["user"]>
 
@@ -700,6 +920,8 @@ export type UserOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = run
 export type UserInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   teamMembership?: boolean | Prisma.User$teamMembershipArgs<ExtArgs>
   invitedMembers?: boolean | Prisma.User$invitedMembersArgs<ExtArgs>
+  approvedPayrollAmendments?: boolean | Prisma.User$approvedPayrollAmendmentsArgs<ExtArgs>
+  invoiceApprovals?: boolean | Prisma.User$invoiceApprovalsArgs<ExtArgs>
   _count?: boolean | Prisma.UserCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type UserIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -710,6 +932,8 @@ export type $UserPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   objects: {
     teamMembership: Prisma.$TeamMemberPayload<ExtArgs> | null
     invitedMembers: Prisma.$TeamMemberPayload<ExtArgs>[]
+    approvedPayrollAmendments: Prisma.$PayrollAmendmentPayload<ExtArgs>[]
+    invoiceApprovals: Prisma.$InvoiceApprovalPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -1116,6 +1340,8 @@ export interface Prisma__UserClient<T, Null = never, ExtArgs extends runtime.Typ
   readonly [Symbol.toStringTag]: "PrismaPromise"
   teamMembership<T extends Prisma.User$teamMembershipArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$teamMembershipArgs<ExtArgs>>): Prisma.Prisma__TeamMemberClient<runtime.Types.Result.GetResult<Prisma.$TeamMemberPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   invitedMembers<T extends Prisma.User$invitedMembersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$invitedMembersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$TeamMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  approvedPayrollAmendments<T extends Prisma.User$approvedPayrollAmendmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$approvedPayrollAmendmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PayrollAmendmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  invoiceApprovals<T extends Prisma.User$invoiceApprovalsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.User$invoiceApprovalsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$InvoiceApprovalPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1583,6 +1809,54 @@ export type User$invitedMembersArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.TeamMemberScalarFieldEnum | Prisma.TeamMemberScalarFieldEnum[]
 }
 
+/**
+ * User.approvedPayrollAmendments
+ */
+export type User$approvedPayrollAmendmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PayrollAmendment
+   */
+  select?: Prisma.PayrollAmendmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PayrollAmendment
+   */
+  omit?: Prisma.PayrollAmendmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PayrollAmendmentInclude<ExtArgs> | null
+  where?: Prisma.PayrollAmendmentWhereInput
+  orderBy?: Prisma.PayrollAmendmentOrderByWithRelationInput | Prisma.PayrollAmendmentOrderByWithRelationInput[]
+  cursor?: Prisma.PayrollAmendmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PayrollAmendmentScalarFieldEnum | Prisma.PayrollAmendmentScalarFieldEnum[]
+}
+
+/**
+ * User.invoiceApprovals
+ */
+export type User$invoiceApprovalsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the InvoiceApproval
+   */
+  select?: Prisma.InvoiceApprovalSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the InvoiceApproval
+   */
+  omit?: Prisma.InvoiceApprovalOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.InvoiceApprovalInclude<ExtArgs> | null
+  where?: Prisma.InvoiceApprovalWhereInput
+  orderBy?: Prisma.InvoiceApprovalOrderByWithRelationInput | Prisma.InvoiceApprovalOrderByWithRelationInput[]
+  cursor?: Prisma.InvoiceApprovalWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.InvoiceApprovalScalarFieldEnum | Prisma.InvoiceApprovalScalarFieldEnum[]
+}
+
 /**
  * User without action
  */
@@ -75,6 +75,22 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.client.teamMember;
   }
 
+  get payrollAmendment() {
+    return this.client.payrollAmendment;
+  }
+
+  get payrollAdjustment() {
+    return this.client.payrollAdjustment;
+  }
+
+  get payrollPayoutSplit() {
+    return this.client.payrollPayoutSplit;
+  }
+
+  get payrollPause() {
+    return this.client.payrollPause;
+  }
+
   get invoice() {
     return this.client.invoice;
   }
@@ -83,6 +99,10 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.client.bill;
   }
 
+  get billPayment() {
+    return this.client.billPayment;
+  }
+
   get payroll() {
     return this.client.payroll;
   }
@@ -91,6 +111,46 @@ export class PrismaService implements OnModuleInit, OnModuleDestroy {
     return this.client.invoiceItem;
   }
 
+  get invoiceApproval() {
+    return this.client.invoiceApproval;
+  }
+
+  get invoiceComment() {
+    return this.client.invoiceComment;
+  }
+
+  get invoiceTemplate() {
+    return this.client.invoiceTemplate;
+  }
+
+  get taxRate() {
+    return this.client.taxRate;
+  }
+
+  get dunningRule() {
+    return this.client.dunningRule;
+  }
+
+  get invoiceReminder() {
+    return this.client.invoiceReminder;
+  }
+
+  get invoiceAttachment() {
+    return this.client.invoiceAttachment;
+  }
+
+  get invoiceEvent() {
+    return this.client.invoiceEvent;
+  }
+
+  get invoiceNumberSequence() {
+    return this.client.invoiceNumberSequence;
+  }
+
+  get creditNote() {
+    return this.client.creditNote;
+  }
+
   get invoiceSchedule() {
     return this.client.invoiceSchedule;
   }
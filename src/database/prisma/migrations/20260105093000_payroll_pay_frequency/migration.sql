@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "PayFrequencyEnum" AS ENUM ('WEEKLY', 'BIWEEKLY', 'SEMI_MONTHLY', 'MONTHLY', 'QUARTERLY');
+
+-- AlterTable
+ALTER TABLE "payrolls" ADD COLUMN     "pay_frequency" "PayFrequencyEnum" NOT NULL DEFAULT 'MONTHLY';
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "ProrationMethodEnum" AS ENUM ('NONE', 'CALENDAR_DAYS', 'WORKING_DAYS', 'THIRTY_360');
+
+-- AlterTable
+ALTER TABLE "payrolls" ADD COLUMN     "contract_end_date" TIMESTAMP(6),
+ADD COLUMN     "proration_method" "ProrationMethodEnum" NOT NULL DEFAULT 'NONE';
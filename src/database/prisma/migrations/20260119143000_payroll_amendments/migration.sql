@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "payroll_amendments" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "payroll_id" INTEGER NOT NULL,
+    "amount" VARCHAR(50) NOT NULL,
+    "token" JSON NOT NULL,
+    "network" JSON NOT NULL,
+    "previous_amount" VARCHAR(50) NOT NULL,
+    "previous_token" JSON NOT NULL,
+    "previous_network" JSON NOT NULL,
+    "effective_date" TIMESTAMP(6) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "approved_by_id" INTEGER,
+    "metadata" JSON,
+
+    CONSTRAINT "payroll_amendments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_amendments_uuid_key" ON "payroll_amendments"("uuid");
+
+-- CreateIndex
+CREATE INDEX "payroll_amendments_payroll_id_idx" ON "payroll_amendments"("payroll_id");
+
+-- CreateIndex
+CREATE INDEX "payroll_amendments_effective_date_idx" ON "payroll_amendments"("effective_date");
+
+-- AddForeignKey
+ALTER TABLE "payroll_amendments" ADD CONSTRAINT "payroll_amendments_payroll_id_fkey" FOREIGN KEY ("payroll_id") REFERENCES "payrolls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_amendments" ADD CONSTRAINT "payroll_amendments_approved_by_id_fkey" FOREIGN KEY ("approved_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
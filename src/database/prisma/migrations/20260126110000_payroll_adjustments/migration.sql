@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "PayrollAdjustmentTypeEnum" AS ENUM ('BONUS', 'REIMBURSEMENT', 'ADVANCE_REPAYMENT', 'DEDUCTION');
+
+-- CreateEnum
+CREATE TYPE "PayrollAdjustmentStatusEnum" AS ENUM ('PENDING', 'APPLIED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "payroll_adjustments" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "payroll_id" INTEGER NOT NULL,
+    "type" "PayrollAdjustmentTypeEnum" NOT NULL,
+    "description" TEXT NOT NULL,
+    "amount" VARCHAR(50) NOT NULL,
+    "cycle_number" INTEGER NOT NULL,
+    "status" "PayrollAdjustmentStatusEnum" NOT NULL DEFAULT 'PENDING',
+    "invoice_id" INTEGER,
+    "applied_at" TIMESTAMP(6),
+    "metadata" JSON,
+
+    CONSTRAINT "payroll_adjustments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_adjustments_uuid_key" ON "payroll_adjustments"("uuid");
+
+-- CreateIndex
+CREATE INDEX "payroll_adjustments_payroll_id_idx" ON "payroll_adjustments"("payroll_id");
+
+-- CreateIndex
+CREATE INDEX "payroll_adjustments_status_idx" ON "payroll_adjustments"("status");
+
+-- CreateIndex
+CREATE INDEX "payroll_adjustments_cycle_number_idx" ON "payroll_adjustments"("cycle_number");
+
+-- CreateIndex
+CREATE INDEX "payroll_adjustments_invoice_id_idx" ON "payroll_adjustments"("invoice_id");
+
+-- AddForeignKey
+ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_payroll_id_fkey" FOREIGN KEY ("payroll_id") REFERENCES "payrolls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payroll_adjustments" ADD CONSTRAINT "payroll_adjustments_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "payrolls" ADD COLUMN     "renewal_reminder_days" INTEGER NOT NULL DEFAULT 14,
+ADD COLUMN     "renewal_reminder_sent_at" TIMESTAMP(6);
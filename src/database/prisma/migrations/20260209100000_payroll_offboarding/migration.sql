@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "payrolls" ADD COLUMN     "terminated_at" TIMESTAMP(6),
+ADD COLUMN     "termination_reason" TEXT;
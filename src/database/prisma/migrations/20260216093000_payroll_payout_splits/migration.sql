@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "PayoutSplitTypeEnum" AS ENUM ('PERCENTAGE', 'FIXED');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "payment_splits" JSON;
+
+-- CreateTable
+CREATE TABLE "payroll_payout_splits" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "payroll_id" INTEGER NOT NULL,
+    "type" "PayoutSplitTypeEnum" NOT NULL,
+    "value" VARCHAR(50) NOT NULL,
+    "token" JSON NOT NULL,
+    "network" JSON NOT NULL,
+    "wallet_address" VARCHAR(255),
+    "order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "payroll_payout_splits_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_payout_splits_uuid_key" ON "payroll_payout_splits"("uuid");
+
+-- CreateIndex
+CREATE INDEX "payroll_payout_splits_payroll_id_idx" ON "payroll_payout_splits"("payroll_id");
+
+-- AddForeignKey
+ALTER TABLE "payroll_payout_splits" ADD CONSTRAINT "payroll_payout_splits_payroll_id_fkey" FOREIGN KEY ("payroll_id") REFERENCES "payrolls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,42 @@
+-- CreateEnum
+CREATE TYPE "PayrollPausePolicyEnum" AS ENUM ('EXTEND', 'FORFEIT');
+
+-- CreateEnum
+CREATE TYPE "PayrollPauseStatusEnum" AS ENUM ('SCHEDULED', 'ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- CreateTable
+CREATE TABLE "payroll_pauses" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "payroll_id" INTEGER NOT NULL,
+    "start_date" TIMESTAMP(6) NOT NULL,
+    "end_date" TIMESTAMP(6),
+    "policy" "PayrollPausePolicyEnum" NOT NULL DEFAULT 'FORFEIT',
+    "status" "PayrollPauseStatusEnum" NOT NULL DEFAULT 'SCHEDULED',
+    "reason" TEXT,
+    "skipped_cycles" INTEGER NOT NULL DEFAULT 0,
+    "started_at" TIMESTAMP(6),
+    "ended_at" TIMESTAMP(6),
+
+    CONSTRAINT "payroll_pauses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payroll_pauses_uuid_key" ON "payroll_pauses"("uuid");
+
+-- CreateIndex
+CREATE INDEX "payroll_pauses_payroll_id_idx" ON "payroll_pauses"("payroll_id");
+
+-- CreateIndex
+CREATE INDEX "payroll_pauses_status_idx" ON "payroll_pauses"("status");
+
+-- CreateIndex
+CREATE INDEX "payroll_pauses_start_date_idx" ON "payroll_pauses"("start_date");
+
+-- CreateIndex
+CREATE INDEX "payroll_pauses_end_date_idx" ON "payroll_pauses"("end_date");
+
+-- AddForeignKey
+ALTER TABLE "payroll_pauses" ADD CONSTRAINT "payroll_pauses_payroll_id_fkey" FOREIGN KEY ("payroll_id") REFERENCES "payrolls"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatusEnum" ADD VALUE 'PENDING_APPROVAL';
+
+-- AlterTable
+ALTER TABLE "companies" ADD COLUMN     "invoice_approvals_required" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "approved_at" TIMESTAMP(6);
+
+-- CreateTable
+CREATE TABLE "invoice_approvals" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "approved_by_id" INTEGER NOT NULL,
+    "approved_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invoice_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_approvals_uuid_key" ON "invoice_approvals"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_approvals_invoice_id_idx" ON "invoice_approvals"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_approvals_approved_by_id_idx" ON "invoice_approvals"("approved_by_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_approvals_invoice_id_approved_by_id_key" ON "invoice_approvals"("invoice_id", "approved_by_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_approvals" ADD CONSTRAINT "invoice_approvals_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_approvals" ADD CONSTRAINT "invoice_approvals_approved_by_id_fkey" FOREIGN KEY ("approved_by_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
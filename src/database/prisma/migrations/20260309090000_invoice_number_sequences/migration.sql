@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "NumberingSequenceTypeEnum" AS ENUM ('EMPLOYEE', 'B2B');
+
+-- CreateEnum
+CREATE TYPE "NumberingResetFrequencyEnum" AS ENUM ('NEVER', 'YEARLY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "invoice_number_sequences" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "type" "NumberingSequenceTypeEnum" NOT NULL,
+    "prefix" VARCHAR(20) NOT NULL DEFAULT 'INV',
+    "format" VARCHAR(100) NOT NULL DEFAULT '{PREFIX}-{SEQ}',
+    "padding" INTEGER NOT NULL DEFAULT 4,
+    "next_number" INTEGER NOT NULL DEFAULT 1,
+    "reset_frequency" "NumberingResetFrequencyEnum" NOT NULL DEFAULT 'NEVER',
+    "period_key" VARCHAR(10),
+
+    CONSTRAINT "invoice_number_sequences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_number_sequences_uuid_key" ON "invoice_number_sequences"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_number_sequences_company_id_idx" ON "invoice_number_sequences"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_number_sequences_company_id_type_key" ON "invoice_number_sequences"("company_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "invoice_number_sequences" ADD CONSTRAINT "invoice_number_sequences_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "numbering_company_id" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_numbering_company_id_invoice_number_key" ON "invoices"("numbering_company_id", "invoice_number");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_numbering_company_id_fkey" FOREIGN KEY ("numbering_company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
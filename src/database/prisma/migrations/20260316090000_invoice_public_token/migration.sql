@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "payer_address" VARCHAR(255),
+ADD COLUMN     "payment_transaction_hash" VARCHAR(100),
+ADD COLUMN     "public_token" VARCHAR(64);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_public_token_key" ON "invoices"("public_token");
@@ -0,0 +1,42 @@
+-- AlterEnum
+ALTER TYPE "NumberingSequenceTypeEnum" ADD VALUE 'CREDIT_NOTE';
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "credited_amount" VARCHAR(50) NOT NULL DEFAULT '0.00';
+
+-- CreateTable
+CREATE TABLE "credit_notes" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "credit_note_number" VARCHAR(50) NOT NULL,
+    "issue_date" TIMESTAMP(6) NOT NULL,
+    "reason" TEXT,
+    "items" JSON NOT NULL,
+    "amount" VARCHAR(50) NOT NULL,
+    "currency" VARCHAR(10) NOT NULL DEFAULT 'USD',
+    "metadata" JSON,
+
+    CONSTRAINT "credit_notes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_uuid_key" ON "credit_notes"("uuid");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_invoice_id_idx" ON "credit_notes"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "credit_notes_company_id_idx" ON "credit_notes"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "credit_notes_company_id_credit_note_number_key" ON "credit_notes"("company_id", "credit_note_number");
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "credit_notes" ADD CONSTRAINT "credit_notes_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
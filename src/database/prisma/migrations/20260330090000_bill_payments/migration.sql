@@ -0,0 +1,35 @@
+-- AlterEnum
+ALTER TYPE "BillStatusEnum" ADD VALUE 'PARTIALLY_PAID';
+
+-- AlterTable
+ALTER TABLE "bills" ADD COLUMN     "paid_amount" VARCHAR(50) NOT NULL DEFAULT '0.00';
+
+-- CreateTable
+CREATE TABLE "bill_payments" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "bill_id" INTEGER NOT NULL,
+    "amount" VARCHAR(50) NOT NULL,
+    "token" JSON,
+    "network" JSON,
+    "transaction_hash" VARCHAR(100),
+    "paid_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bill_payments_uuid_key" ON "bill_payments"("uuid");
+
+-- CreateIndex
+CREATE INDEX "bill_payments_bill_id_idx" ON "bill_payments"("bill_id");
+
+-- AddForeignKey
+ALTER TABLE "bill_payments" ADD CONSTRAINT "bill_payments_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the paid amount of bills paid before payments were recorded
+UPDATE "bills" SET "paid_amount" = "invoices"."total"
+FROM "invoices"
+WHERE "bills"."invoice_id" = "invoices"."id" AND "bills"."status" = 'PAID';
@@ -0,0 +1,36 @@
+-- CreateEnum
+CREATE TYPE "InvoiceCommentTypeEnum" AS ENUM ('COMMENT', 'DISPUTE', 'REVISION');
+
+-- CreateEnum
+CREATE TYPE "InvoiceCommentAuthorEnum" AS ENUM ('EMPLOYEE', 'COMPANY');
+
+-- AlterEnum
+ALTER TYPE "InvoiceStatusEnum" ADD VALUE 'DISPUTED';
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "disputed_at" TIMESTAMP(6);
+
+-- CreateTable
+CREATE TABLE "invoice_comments" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "type" "InvoiceCommentTypeEnum" NOT NULL DEFAULT 'COMMENT',
+    "author_type" "InvoiceCommentAuthorEnum" NOT NULL,
+    "author_email" VARCHAR(255) NOT NULL,
+    "message" TEXT NOT NULL,
+    "proposed_changes" JSON,
+
+    CONSTRAINT "invoice_comments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_comments_uuid_key" ON "invoice_comments"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_comments_invoice_id_idx" ON "invoice_comments"("invoice_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_comments" ADD CONSTRAINT "invoice_comments_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
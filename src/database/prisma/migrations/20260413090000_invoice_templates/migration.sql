@@ -0,0 +1,31 @@
+-- CreateEnum
+CREATE TYPE "InvoiceDateFormatEnum" AS ENUM ('LOCALE', 'DD_MM_YYYY', 'MM_DD_YYYY', 'YYYY_MM_DD');
+
+-- CreateTable
+CREATE TABLE "invoice_templates" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "logo_url" VARCHAR(500),
+    "accent_color" VARCHAR(7) NOT NULL DEFAULT '#007bff',
+    "footer" TEXT,
+    "terms" TEXT,
+    "locale" VARCHAR(20) NOT NULL DEFAULT 'en-US',
+    "date_format" "InvoiceDateFormatEnum" NOT NULL DEFAULT 'LOCALE',
+    "is_employee_default" BOOLEAN NOT NULL DEFAULT false,
+    "is_b2b_default" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "invoice_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_templates_uuid_key" ON "invoice_templates"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_templates_company_id_idx" ON "invoice_templates"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_templates" ADD CONSTRAINT "invoice_templates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
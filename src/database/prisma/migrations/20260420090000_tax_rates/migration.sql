@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "tax_breakdown" JSON;
+
+-- AlterTable
+ALTER TABLE "invoice_items" ADD COLUMN     "is_tax_exempt" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "is_tax_inclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "taxes" JSON;
+
+-- CreateTable
+CREATE TABLE "tax_rates" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "name" VARCHAR(50) NOT NULL,
+    "rate" VARCHAR(10) NOT NULL,
+    "description" VARCHAR(255),
+    "is_compound" BOOLEAN NOT NULL DEFAULT false,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "tax_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tax_rates_uuid_key" ON "tax_rates"("uuid");
+
+-- CreateIndex
+CREATE INDEX "tax_rates_company_id_idx" ON "tax_rates"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "tax_rates" ADD CONSTRAINT "tax_rates_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "invoice_schedules" ADD COLUMN     "company_id" INTEGER,
+ADD COLUMN     "end_date" TIMESTAMP(6),
+ADD COLUMN     "invoice_type" "InvoiceTypeEnum" NOT NULL DEFAULT 'EMPLOYEE',
+ADD COLUMN     "max_occurrences" INTEGER,
+ADD COLUMN     "occurrence_count" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "start_date" TIMESTAMP(6),
+ALTER COLUMN "payroll_id" DROP NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "invoice_schedules_company_id_idx" ON "invoice_schedules"("company_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_schedules" ADD CONSTRAINT "invoice_schedules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
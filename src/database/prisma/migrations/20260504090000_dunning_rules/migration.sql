@@ -0,0 +1,55 @@
+-- AlterEnum
+ALTER TYPE "NotificationsTypeEnum" ADD VALUE 'INVOICE_REMINDER';
+
+-- CreateTable
+CREATE TABLE "dunning_rules" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "company_id" INTEGER NOT NULL,
+    "offset_days" INTEGER NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "message" TEXT,
+
+    CONSTRAINT "dunning_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "invoice_reminders" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "offset_days" INTEGER NOT NULL,
+    "sent_to" VARCHAR(255) NOT NULL,
+    "amount_due" VARCHAR(50) NOT NULL,
+    "is_final_notice" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "invoice_reminders_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dunning_rules_uuid_key" ON "dunning_rules"("uuid");
+
+-- CreateIndex
+CREATE INDEX "dunning_rules_company_id_idx" ON "dunning_rules"("company_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "dunning_rules_company_id_offset_days_key" ON "dunning_rules"("company_id", "offset_days");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_reminders_uuid_key" ON "invoice_reminders"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_reminders_invoice_id_idx" ON "invoice_reminders"("invoice_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_reminders_invoice_id_offset_days_key" ON "invoice_reminders"("invoice_id", "offset_days");
+
+-- AddForeignKey
+ALTER TABLE "dunning_rules" ADD CONSTRAINT "dunning_rules_company_id_fkey" FOREIGN KEY ("company_id") REFERENCES "companies"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_reminders" ADD CONSTRAINT "invoice_reminders_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "early_payment_discount" VARCHAR(50) NOT NULL DEFAULT '0.00',
+ADD COLUMN     "late_fee_applied_at" TIMESTAMP(6),
+ADD COLUMN     "payment_terms" JSON;
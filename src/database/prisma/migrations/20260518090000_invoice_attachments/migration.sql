@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "invoice_attachments" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "bill_id" INTEGER,
+    "file_name" VARCHAR(255) NOT NULL,
+    "content_type" VARCHAR(100) NOT NULL,
+    "size" INTEGER NOT NULL,
+    "storage_key" VARCHAR(500) NOT NULL,
+    "uploaded_by_email" VARCHAR(255) NOT NULL,
+
+    CONSTRAINT "invoice_attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_attachments_uuid_key" ON "invoice_attachments"("uuid");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_attachments_storage_key_key" ON "invoice_attachments"("storage_key");
+
+-- CreateIndex
+CREATE INDEX "invoice_attachments_invoice_id_idx" ON "invoice_attachments"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_attachments_bill_id_idx" ON "invoice_attachments"("bill_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_attachments" ADD CONSTRAINT "invoice_attachments_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_attachments" ADD CONSTRAINT "invoice_attachments_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
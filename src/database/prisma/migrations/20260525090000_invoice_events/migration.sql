@@ -0,0 +1,67 @@
+-- CreateEnum
+CREATE TYPE "InvoiceEventActionEnum" AS ENUM ('INVOICE_CREATED', 'INVOICE_UPDATED', 'INVOICE_SENT', 'INVOICE_APPROVED', 'INVOICE_REVIEWED', 'INVOICE_CONFIRMED', 'INVOICE_DISPUTED', 'INVOICE_REVISED', 'INVOICE_CANCELLED', 'INVOICE_OVERDUE', 'INVOICE_PAID', 'COMMENT_ADDED', 'ITEMS_ADDED', 'ITEMS_REPLACED', 'ITEM_UPDATED', 'ITEM_DELETED', 'LATE_FEE_APPLIED', 'BILL_CREATED', 'BILL_PAYMENT', 'BILL_PAID', 'BILL_STATUS_UPDATED', 'BILL_CANCELLED', 'BILL_OVERDUE');
+
+-- CreateEnum
+CREATE TYPE "InvoiceEventActorEnum" AS ENUM ('SYSTEM', 'EMPLOYEE', 'COMPANY', 'PUBLIC');
+
+-- CreateTable
+CREATE TABLE "invoice_events" (
+    "id" SERIAL NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "created_at" TIMESTAMP(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(6) NOT NULL,
+    "invoice_id" INTEGER NOT NULL,
+    "bill_id" INTEGER,
+    "action" "InvoiceEventActionEnum" NOT NULL,
+    "actor_type" "InvoiceEventActorEnum" NOT NULL,
+    "actor_email" VARCHAR(255),
+    "changes" JSON,
+    "metadata" JSON,
+
+    CONSTRAINT "invoice_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoice_events_uuid_key" ON "invoice_events"("uuid");
+
+-- CreateIndex
+CREATE INDEX "invoice_events_invoice_id_idx" ON "invoice_events"("invoice_id");
+
+-- CreateIndex
+CREATE INDEX "invoice_events_bill_id_idx" ON "invoice_events"("bill_id");
+
+-- AddForeignKey
+ALTER TABLE "invoice_events" ADD CONSTRAINT "invoice_events_invoice_id_fkey" FOREIGN KEY ("invoice_id") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "invoice_events" ADD CONSTRAINT "invoice_events_bill_id_fkey" FOREIGN KEY ("bill_id") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill the timeline of existing invoices and bills from their timestamps, actors were not recorded
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "action", "actor_type")
+SELECT gen_random_uuid()::text, "created_at", "created_at", "id", 'INVOICE_CREATED', 'SYSTEM' FROM "invoices";
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "action", "actor_type")
+SELECT gen_random_uuid()::text, "sent_at", "sent_at", "id", 'INVOICE_SENT', 'SYSTEM' FROM "invoices" WHERE "sent_at" IS NOT NULL;
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "action", "actor_type")
+SELECT gen_random_uuid()::text, "confirmed_at", "confirmed_at", "id", 'INVOICE_CONFIRMED', 'SYSTEM' FROM "invoices" WHERE "confirmed_at" IS NOT NULL;
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "action", "actor_type")
+SELECT gen_random_uuid()::text, "late_fee_applied_at", "late_fee_applied_at", "id", 'LATE_FEE_APPLIED', 'SYSTEM' FROM "invoices" WHERE "late_fee_applied_at" IS NOT NULL;
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "bill_id", "action", "actor_type")
+SELECT gen_random_uuid()::text, "created_at", "created_at", "invoice_id", "id", 'BILL_CREATED', 'SYSTEM' FROM "bills";
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "bill_id", "action", "actor_type", "metadata")
+SELECT gen_random_uuid()::text, "bill_payments"."paid_at", "bill_payments"."paid_at", "bills"."invoice_id", "bills"."id", 'BILL_PAYMENT', 'SYSTEM',
+    json_build_object('amount', "bill_payments"."amount", 'transactionHash', "bill_payments"."transaction_hash")
+FROM "bill_payments"
+JOIN "bills" ON "bills"."id" = "bill_payments"."bill_id";
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "bill_id", "action", "actor_type", "metadata")
+SELECT gen_random_uuid()::text, "bills"."paid_at", "bills"."paid_at", "bills"."invoice_id", "bills"."id", 'BILL_PAID', 'SYSTEM',
+    CASE WHEN "invoices"."early_payment_discount"::numeric > 0
+        THEN json_build_object('earlyPaymentDiscount', "invoices"."early_payment_discount") END
+FROM "bills"
+JOIN "invoices" ON "invoices"."id" = "bills"."invoice_id"
+WHERE "bills"."paid_at" IS NOT NULL;
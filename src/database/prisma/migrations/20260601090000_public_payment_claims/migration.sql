@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "InvoiceEventActionEnum" ADD VALUE 'PAYMENT_CLAIMED';
+ALTER TYPE "InvoiceEventActionEnum" ADD VALUE 'PAYMENT_CLAIM_REJECTED';
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "payment_claimed_at" TIMESTAMP(6);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_payment_transaction_hash_key" ON "invoices"("payment_transaction_hash");
@@ -0,0 +1,3 @@
+-- AlterEnum
+ALTER TYPE "InvoiceEventActionEnum" ADD VALUE 'REMINDER_SENT';
+ALTER TYPE "InvoiceEventActionEnum" ADD VALUE 'CREDIT_NOTE_ISSUED';
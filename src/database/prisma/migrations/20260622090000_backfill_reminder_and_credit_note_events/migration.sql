@@ -0,0 +1,12 @@
+-- Backfill the reminders and credit notes sent before they were logged on the timeline
+-- (new enum values cannot be used in the migration that adds them)
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "action", "actor_type", "metadata")
+SELECT gen_random_uuid()::text, "created_at", "created_at", "invoice_id", 'REMINDER_SENT', 'SYSTEM',
+    json_build_object('offsetDays', "offset_days", 'sentTo', "sent_to", 'amountDue', "amount_due", 'isFinalNotice', "is_final_notice")
+FROM "invoice_reminders";
+
+INSERT INTO "invoice_events" ("uuid", "created_at", "updated_at", "invoice_id", "bill_id", "action", "actor_type", "metadata")
+SELECT gen_random_uuid()::text, "credit_notes"."created_at", "credit_notes"."created_at", "credit_notes"."invoice_id", "bills"."id", 'CREDIT_NOTE_ISSUED', 'COMPANY',
+    json_build_object('creditNoteNumber', "credit_notes"."credit_note_number", 'amount', "credit_notes"."amount", 'reason', "credit_notes"."reason")
+FROM "credit_notes"
+LEFT JOIN "bills" ON "bills"."invoice_id" = "credit_notes"."invoice_id";
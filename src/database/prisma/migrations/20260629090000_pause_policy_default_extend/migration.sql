@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "payroll_pauses" ALTER COLUMN "policy" SET DEFAULT 'EXTEND';
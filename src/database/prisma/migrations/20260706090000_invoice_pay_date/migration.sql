@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN     "pay_date" TIMESTAMP(6);
+
+-- Backfill: auto-generated payroll invoices are due on the pay date of their cycle.
+-- A pay date invoiced twice is only kept on the first invoice.
+UPDATE "invoices" AS i
+SET "pay_date" = i."due_date"
+FROM (
+    SELECT
+        "id",
+        ROW_NUMBER() OVER (PARTITION BY "payroll_id", "due_date" ORDER BY "id") AS "position"
+    FROM "invoices"
+    WHERE "payroll_id" IS NOT NULL AND "is_auto_generated" = true
+) numbered
+WHERE numbered."id" = i."id" AND numbered."position" = 1;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invoices_payroll_id_pay_date_key" ON "invoices"("payroll_id", "pay_date");
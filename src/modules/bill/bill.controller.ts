@@ -3,12 +3,17 @@ import {
   Get,
   Post,
   Patch,
+  Delete,
   Body,
   Param,
   Query,
   ParseIntPipe,
   HttpStatus,
+  Res,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -16,28 +21,41 @@ import {
   ApiBearerAuth,
   ApiParam,
   ApiQuery,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
+import { Response } from 'express';
 import { BillService } from './bill.service';
+import { InvoiceAttachmentService } from '../invoice/services/invoice-attachment.service';
+import { InvoiceAttachmentFile } from '../invoice/invoice.dto';
 import {
   BillQueryDto,
   BillStatsDto,
   PayBillsDto,
   BatchPaymentResultDto,
+  BillTimelineDto,
 } from './bill.dto';
-import { BillModel } from 'src/database/generated/models';
+import {
+  BillModel,
+  InvoiceAttachmentModel,
+} from 'src/database/generated/models';
 import { BillStatusEnum } from 'src/database/generated/client';
 import { CompanyAuth } from '../auth/decorators/company-auth.decorator';
 import {
   CurrentUser,
   UserWithCompany,
 } from '../auth/decorators/current-user.decorator';
+import { MAX_ATTACHMENT_SIZE } from 'src/common/constants/attachment';
 
 @ApiTags('Bill')
 @ApiBearerAuth()
 @Controller('api/v1/bill')
 @CompanyAuth()
 export class BillController {
-  constructor(private readonly billService: BillService) {}
+  constructor(
+    private readonly billService: BillService,
+    private readonly invoiceAttachmentService: InvoiceAttachmentService,
+  ) {}
 
   //#region GET METHODS
   // *************************************************
@@ -58,7 +76,7 @@ export class BillController {
     @CurrentUser('withCompany') user: UserWithCompany,
     @Query() query: BillQueryDto,
   ): Promise<{
-    bills: BillModel[];
+    bills: (BillModel & { amountDue: string })[];
     pagination: {
       page: number;
       limit: number;
@@ -95,6 +113,80 @@ export class BillController {
   ): Promise<any> {
     return this.billService.getBillDetails(uuid, user.company.id);
   }
+
+  @Get(':uuid/timeline')
+  @ApiOperation({
+    summary: 'Get the activity timeline of a bill',
+    description:
+      'Every change to the bill and its invoice with who made it, oldest first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bill timeline retrieved successfully',
+    type: [BillTimelineDto],
+  })
+  @ApiParam({ name: 'uuid', type: 'string', description: 'Bill UUID' })
+  async getBillTimeline(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('uuid') uuid: string,
+  ): Promise<BillTimelineDto[]> {
+    return this.billService.getBillTimeline(uuid, user.company.id);
+  }
+
+  @Get(':uuid/attachments')
+  @ApiOperation({
+    summary: 'Get the attachments of a bill',
+    description:
+      'Documents attached to the bill and to its invoice (timesheets, receipts, contracts)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Bill attachments retrieved successfully',
+  })
+  @ApiParam({ name: 'uuid', type: 'string', description: 'Bill UUID' })
+  async getBillAttachments(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('uuid') uuid: string,
+  ): Promise<InvoiceAttachmentModel[]> {
+    return this.invoiceAttachmentService.getBillAttachments(
+      uuid,
+      user.company.id,
+    );
+  }
+
+  @Get(':uuid/attachments/:attachmentUUID')
+  @ApiOperation({ summary: 'Download an attachment of a bill' })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Attachment not found',
+  })
+  @ApiParam({ name: 'uuid', type: 'string', description: 'Bill UUID' })
+  @ApiParam({
+    name: 'attachmentUUID',
+    type: 'string',
+    description: 'Attachment UUID',
+  })
+  async downloadBillAttachment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('uuid') uuid: string,
+    @Param('attachmentUUID') attachmentUUID: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { attachment, content } =
+      await this.invoiceAttachmentService.downloadBillAttachment(
+        uuid,
+        attachmentUUID,
+        user.company.id,
+      );
+
+    res.set({
+      'Content-Type': attachment.contentType,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      'Content-Length': content.length,
+    });
+
+    res.send(content);
+  }
   //#endregion GET METHODS
 
   //#region POST METHODS
@@ -116,7 +208,7 @@ export class BillController {
     @CurrentUser('withCompany') user: UserWithCompany,
     @Body() payBillsDto: PayBillsDto,
   ): Promise<BatchPaymentResultDto> {
-    return this.billService.payBills(user.company.id, payBillsDto);
+    return this.billService.payBills(user.company.id, user.email, payBillsDto);
   }
 
   @Patch(':id/status/:status')
@@ -140,7 +232,82 @@ export class BillController {
     @Param('id', ParseIntPipe) id: number,
     @Param('status') status: BillStatusEnum,
   ): Promise<BillModel> {
-    return this.billService.updateBillStatus(id, user.company.id, status);
+    return this.billService.updateBillStatus(
+      id,
+      user.company.id,
+      user.email,
+      status,
+    );
+  }
+
+  @Post(':uuid/attachments')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_SIZE } }),
+  )
+  @ApiOperation({
+    summary: 'Attach a document to a bill',
+    description:
+      'PDF, image, text, CSV, Word or Excel file of up to 10 MB, visible to the paying company only',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Attachment uploaded successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Missing, too large or unsupported file',
+  })
+  @ApiParam({ name: 'uuid', type: 'string', description: 'Bill UUID' })
+  async uploadBillAttachment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('uuid') uuid: string,
+    @UploadedFile() file: InvoiceAttachmentFile,
+  ): Promise<InvoiceAttachmentModel> {
+    return this.invoiceAttachmentService.uploadBillAttachment(
+      uuid,
+      user.company.id,
+      user.email,
+      file,
+    );
   }
   //#endregion POST METHODS
+
+  //#region DELETE METHODS
+  // *************************************************
+  // **************** DELETE METHODS *****************
+  // *************************************************
+  @Delete(':uuid/attachments/:attachmentUUID')
+  @ApiOperation({ summary: 'Delete an attachment of a bill (uploader only)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attachment deleted successfully',
+  })
+  @ApiParam({ name: 'uuid', type: 'string', description: 'Bill UUID' })
+  @ApiParam({
+    name: 'attachmentUUID',
+    type: 'string',
+    description: 'Attachment UUID',
+  })
+  async deleteBillAttachment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('uuid') uuid: string,
+    @Param('attachmentUUID') attachmentUUID: string,
+  ): Promise<void> {
+    return this.invoiceAttachmentService.deleteBillAttachment(
+      uuid,
+      attachmentUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+  //#endregion DELETE METHODS
 }
@@ -5,11 +5,19 @@ import {
   IsString,
   IsNumber,
   IsArray,
+  IsNotEmpty,
+  IsObject,
+  Matches,
   Min,
   Max,
+  ValidateNested,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { BillStatusEnum } from 'src/database/generated/client';
+import {
+  BillStatusEnum,
+  InvoiceEventActorEnum,
+} from 'src/database/generated/client';
+import { NetworkDto, TokenDto } from '../employee/employee.dto';
 
 export class BillQueryDto {
   @ApiPropertyOptional({
@@ -73,6 +81,12 @@ export class BillStatsDto {
   })
   totalPending: number;
 
+  @ApiProperty({
+    description: 'Total number of partially paid bills',
+    example: 3,
+  })
+  totalPartiallyPaid: number;
+
   @ApiProperty({
     description: 'Total number of paid bills',
     example: 30,
@@ -110,6 +124,27 @@ export class BillStatsDto {
   overdueAmount: string;
 }
 
+export class BillPaymentAllocationDto {
+  @ApiProperty({
+    description: 'UUID of the paid bill',
+    example: 'cmj5it8cc0000atybhs4icpbt',
+  })
+  @IsString()
+  @IsNotEmpty()
+  billUUID: string;
+
+  @ApiProperty({
+    description: 'Amount paid on the bill (as string for precision)',
+    example: '1500.00',
+  })
+  @IsString()
+  @Matches(/^\d+(\.\d{1,2})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 2 decimal places',
+  })
+  amount: string;
+}
+
 export class PayBillsDto {
   @ApiProperty({
     description: 'Array of bill IDs to pay',
@@ -130,12 +165,45 @@ export class PayBillsDto {
   @IsString()
   @IsOptional()
   transactionHash?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Amount paid per bill, bills without an allocation are paid in full (their remaining balance)',
+    type: [BillPaymentAllocationDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => BillPaymentAllocationDto)
+  allocations?: BillPaymentAllocationDto[];
+
+  @ApiPropertyOptional({
+    description:
+      'Token used for the payment, defaults to the payment token of each invoice',
+    type: TokenDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => TokenDto)
+  token?: TokenDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Network used for the payment, defaults to the payment network of each invoice',
+    type: NetworkDto,
+  })
+  @IsOptional()
+  @IsObject()
+  @ValidateNested()
+  @Type(() => NetworkDto)
+  network?: NetworkDto;
 }
 
 export class BillTimelineDto {
   @ApiProperty({
     description: 'Timeline event type',
-    example: 'created',
+    example: 'invoice_created',
   })
   event: string;
 
@@ -145,16 +213,67 @@ export class BillTimelineDto {
   })
   timestamp: Date;
 
+  @ApiProperty({
+    description: 'Who performed the event',
+    enum: InvoiceEventActorEnum,
+    example: InvoiceEventActorEnum.COMPANY,
+  })
+  actorType: InvoiceEventActorEnum;
+
+  @ApiPropertyOptional({
+    description:
+      'Email of the user who performed the event, null for system events',
+    example: 'finance@acme.com',
+  })
+  actorEmail?: string | null;
+
+  @ApiPropertyOptional({
+    description: 'Changed fields, with their value before and after the event',
+    example: { status: { before: 'PENDING', after: 'PARTIALLY_PAID' } },
+  })
+  changes?: Record<string, any>;
+
   @ApiPropertyOptional({
     description: 'Additional event metadata',
   })
   metadata?: Record<string, any>;
 }
 
+export class BatchPayoutDto {
+  @ApiProperty({
+    description: 'Wallet receiving the payout',
+    example: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+  })
+  walletAddress: string;
+
+  @ApiProperty({
+    description: 'Token of the payout',
+  })
+  token: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Network of the payout',
+  })
+  network: Record<string, any>;
+
+  @ApiProperty({
+    description: 'Amount to transfer',
+    example: '3500.00',
+  })
+  amount: string;
+}
+
 export class BatchPaymentResultDto {
   @ApiProperty({
     description: 'Total amount paid',
     example: '15000.00',
   })
   totalAmount: string;
+
+  @ApiProperty({
+    description:
+      'Transfers settling the bills, grouped by wallet, network and token (split salaries produce several payouts per bill)',
+    type: [BatchPayoutDto],
+  })
+  payouts: BatchPayoutDto[];
 }
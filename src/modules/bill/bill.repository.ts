@@ -1,6 +1,7 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../database/prisma.service';
 import { BillModel } from '../../database/generated/models/Bill';
+import { BillPaymentModel } from '../../database/generated/models/BillPayment';
 import {
   BillStatusEnum,
   Prisma,
@@ -10,6 +11,8 @@ import {
   BaseRepository,
   PrismaTransactionClient,
 } from 'src/database/base.repository';
+import { JsonValue } from '@prisma/client/runtime/client';
+import { getEarlyPaymentDiscount } from 'src/common/utils/payment-terms.util';
 
 export type BillWithInvoice = Prisma.BillGetPayload<{
   include: {
@@ -25,6 +28,65 @@ export type BillWithInvoice = Prisma.BillGetPayload<{
   };
 }>;
 
+export type BillWithPayments = BillWithInvoice & {
+  payments: BillPaymentModel[];
+};
+
+/**
+ * Amount left to pay on a bill: the invoice total minus the credit notes issued against it,
+ * the early payment discount taken and the payments already made
+ */
+export function getBillOutstandingAmount(bill: {
+  creditedAmount: string;
+  paidAmount: string;
+  invoice: { total: string; earlyPaymentDiscount: string };
+}): string {
+  return Math.max(
+    parseFloat(bill.invoice.total) -
+      parseFloat(bill.creditedAmount) -
+      parseFloat(bill.invoice.earlyPaymentDiscount) -
+      parseFloat(bill.paidAmount),
+    0,
+  ).toFixed(2);
+}
+
+/**
+ * Amount to pay on a bill at the given date: its outstanding amount,
+ * less the early payment discount of the invoice's payment terms while it is available
+ */
+export function getBillAmountDue(
+  bill: {
+    creditedAmount: string;
+    paidAmount: string;
+    invoice: {
+      total: string;
+      earlyPaymentDiscount: string;
+      issueDate: Date;
+      paymentTerms: JsonValue;
+    };
+  },
+  date: Date = new Date(),
+): string {
+  const outstandingAmount = getBillOutstandingAmount(bill);
+  const discount = getEarlyPaymentDiscount(
+    bill.invoice.paymentTerms,
+    bill.invoice.issueDate,
+    outstandingAmount,
+    date,
+  );
+
+  return (parseFloat(outstandingAmount) - discount).toFixed(2);
+}
+
+/**
+ * Bills that still have an amount left to pay
+ */
+export const UNPAID_BILL_STATUSES: BillStatusEnum[] = [
+  BillStatusEnum.PENDING,
+  BillStatusEnum.PARTIALLY_PAID,
+  BillStatusEnum.OVERDUE,
+];
+
 export interface CreateBillData {
   companyId: number;
   invoiceId: number;
@@ -35,6 +97,8 @@ export interface UpdateBillData {
   status?: BillStatusEnum;
   paidAt?: Date;
   transactionHash?: string;
+  creditedAmount?: string;
+  paidAmount?: string;
   confirmedAt?: Date;
   metadata?: any;
 }
@@ -72,7 +136,7 @@ export class BillRepository extends BaseRepository<
     uuid: string,
     companyId: number,
     tx?: PrismaTransactionClient,
-  ): Promise<BillWithInvoice | null> {
+  ): Promise<BillWithPayments | null> {
     const model = this.getModel(tx);
     return model.findFirst({
       where: { uuid, companyId },
@@ -84,9 +148,14 @@ export class BillRepository extends BaseRepository<
                 group: true,
               },
             },
+            // Sender of B2B invoices
+            fromCompany: true,
           },
         },
         company: true,
+        payments: {
+          orderBy: { paidAt: 'asc' },
+        },
       },
     });
   }
@@ -97,6 +166,7 @@ export class BillRepository extends BaseRepository<
   ): Promise<{
     totalBills: number;
     totalPending: number;
+    totalPartiallyPaid: number;
     totalPaid: number;
     totalOverdue: number;
     totalAmount: string;
@@ -110,6 +180,7 @@ export class BillRepository extends BaseRepository<
     const [
       totalBills,
       pendingBills,
+      partiallyPaidBills,
       paidBills,
       overdueBills,
       allBills,
@@ -121,6 +192,9 @@ export class BillRepository extends BaseRepository<
       model.count({
         where: { ...baseWhere, status: BillStatusEnum.PENDING },
       }),
+      model.count({
+        where: { ...baseWhere, status: BillStatusEnum.PARTIALLY_PAID },
+      }),
       model.count({
         where: { ...baseWhere, status: BillStatusEnum.PAID },
       }),
@@ -184,6 +258,7 @@ export class BillRepository extends BaseRepository<
     return {
       totalBills,
       totalPending: pendingBills,
+      totalPartiallyPaid: partiallyPaidBills,
       totalPaid: paidBills,
       totalOverdue: overdueBills,
       totalAmount,
@@ -221,7 +296,9 @@ export class BillRepository extends BaseRepository<
 
     return model.findMany({
       where: {
-        status: BillStatusEnum.PENDING,
+        status: {
+          in: [BillStatusEnum.PENDING, BillStatusEnum.PARTIALLY_PAID],
+        },
         invoice: {
           dueDate: {
             lt: overdueDate,
@@ -255,24 +332,31 @@ export class BillRepository extends BaseRepository<
   async markOverdueBills(
     date?: Date,
     tx?: PrismaTransactionClient,
-  ): Promise<number> {
+  ): Promise<{ id: number; invoiceId: number }[]> {
     const model = this.getModel(tx);
     const overdueDate = date || new Date();
 
-    const result = await model.updateMany({
+    const bills = await model.findMany({
       where: {
-        status: BillStatusEnum.PENDING,
+        status: {
+          in: [BillStatusEnum.PENDING, BillStatusEnum.PARTIALLY_PAID],
+        },
         invoice: {
           dueDate: {
             lt: overdueDate,
           },
         },
       },
+      select: { id: true, invoiceId: true },
+    });
+
+    await model.updateMany({
+      where: { id: { in: bills.map((bill) => bill.id) } },
       data: {
         status: BillStatusEnum.OVERDUE,
       },
     });
 
-    return result.count;
+    return bills;
   }
 }
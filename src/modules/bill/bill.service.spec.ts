@@ -0,0 +1,172 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  BillStatusEnum,
+  InvoiceStatusEnum,
+} from 'src/database/generated/enums';
+import { ErrorBill } from 'src/common/constants/errors';
+import { BillService } from './bill.service';
+
+const WALLET_ADDRESS = '0xEmployee';
+
+const buildBill = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  uuid: 'bill-uuid',
+  status: BillStatusEnum.PENDING,
+  paidAmount: '0.00',
+  creditedAmount: '0.00',
+  invoice: {
+    id: 2,
+    uuid: 'invoice-uuid',
+    payrollId: null,
+    total: '1000.00',
+    earlyPaymentDiscount: '0.00',
+    issueDate: new Date(),
+    paymentTerms: null,
+    paymentSplits: null,
+    paymentToken: { address: '0xToken', symbol: 'USDC' },
+    paymentNetwork: { chainId: 1 },
+    paymentWalletAddress: WALLET_ADDRESS,
+  },
+  ...overrides,
+});
+
+const setup = (bill = buildBill()) => {
+  const tx = { payroll: { findMany: jest.fn().mockResolvedValue([]) } };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const billRepository = {
+    findMany: jest.fn().mockResolvedValue([bill]),
+    update: jest.fn((_where, data) => ({ ...bill, ...data })),
+  };
+  const invoiceRepository = { update: jest.fn(), updateMultiple: jest.fn() };
+  const invoiceEventRepository = { createEvent: jest.fn() };
+
+  const service = new BillService(
+    prisma as any,
+    billRepository as any,
+    invoiceRepository as any,
+    invoiceEventRepository as any,
+  );
+
+  return { service, tx, billRepository, invoiceRepository };
+};
+
+describe('BillService', () => {
+  describe('payBills', () => {
+    it('should record a partial allocation without paying the invoice', async () => {
+      const { service, billRepository, invoiceRepository } = setup();
+
+      const result = await service.payBills(1, 'company@qash.finance', {
+        billUUIDs: ['bill-uuid'],
+        allocations: [{ billUUID: 'bill-uuid', amount: '400.00' }],
+      });
+
+      expect(billRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        expect.objectContaining({
+          paidAmount: '400.00',
+          status: BillStatusEnum.PARTIALLY_PAID,
+        }),
+        expect.anything(),
+      );
+      expect(invoiceRepository.updateMultiple).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        totalAmount: '400.00',
+        payouts: [
+          expect.objectContaining({
+            walletAddress: WALLET_ADDRESS,
+            amount: '400.00',
+          }),
+        ],
+      });
+    });
+
+    it('should keep an overdue bill overdue until it is fully paid', async () => {
+      const { service, billRepository } = setup(
+        buildBill({ status: BillStatusEnum.OVERDUE }),
+      );
+
+      await service.payBills(1, 'company@qash.finance', {
+        billUUIDs: ['bill-uuid'],
+        allocations: [{ billUUID: 'bill-uuid', amount: '400.00' }],
+      });
+
+      expect(billRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        expect.objectContaining({ status: BillStatusEnum.OVERDUE }),
+        expect.anything(),
+      );
+    });
+
+    it('should pay the remaining balance of a partially paid bill in full', async () => {
+      const { service, billRepository, invoiceRepository } = setup(
+        buildBill({
+          status: BillStatusEnum.PARTIALLY_PAID,
+          paidAmount: '400.00',
+        }),
+      );
+
+      const result = await service.payBills(1, 'company@qash.finance', {
+        billUUIDs: ['bill-uuid'],
+      });
+
+      expect(result.totalAmount).toBe('600.00');
+      expect(billRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        expect.objectContaining({
+          paidAmount: '1000.00',
+          status: BillStatusEnum.PAID,
+        }),
+        expect.anything(),
+      );
+      expect(invoiceRepository.updateMultiple).toHaveBeenCalledWith(
+        ['invoice-uuid'],
+        InvoiceStatusEnum.PAID,
+        expect.any(Date),
+        expect.anything(),
+      );
+    });
+
+    it('should take the early payment discount when paying within the discount window', async () => {
+      const bill = buildBill();
+      bill.invoice.paymentTerms = {
+        netDays: 30,
+        earlyPaymentDiscount: { percentage: '2', withinDays: 10 },
+      } as any;
+      const { service, billRepository, invoiceRepository } = setup(bill);
+
+      const result = await service.payBills(1, 'company@qash.finance', {
+        billUUIDs: ['bill-uuid'],
+      });
+
+      expect(result.totalAmount).toBe('980.00');
+      expect(invoiceRepository.update).toHaveBeenCalledWith(
+        { id: 2 },
+        { earlyPaymentDiscount: '20.00' },
+        expect.anything(),
+      );
+      expect(billRepository.update).toHaveBeenCalledWith(
+        { id: 1 },
+        expect.objectContaining({ status: BillStatusEnum.PAID }),
+        expect.anything(),
+      );
+    });
+
+    it('should reject an allocation above the remaining balance', async () => {
+      const { service, billRepository } = setup();
+
+      await expect(
+        service.payBills(1, 'company@qash.finance', {
+          billUUIDs: ['bill-uuid'],
+          allocations: [{ billUUID: 'bill-uuid', amount: '1000.01' }],
+        }),
+      ).rejects.toThrow(
+        new BadRequestException(ErrorBill.PaymentExceedsBalance),
+      );
+      expect(billRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
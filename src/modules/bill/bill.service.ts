@@ -5,24 +5,52 @@ import {
   ConflictException,
   BadRequestException,
 } from '@nestjs/common';
-import { BillRepository, BillWithInvoice } from './bill.repository';
-import { InvoiceRepository } from '../invoice/repositories/invoice.repository';
+import {
+  BillRepository,
+  BillWithInvoice,
+  BillWithPayments,
+  getBillAmountDue,
+  getBillOutstandingAmount,
+  UNPAID_BILL_STATUSES,
+} from './bill.repository';
+import {
+  getInvoicePayerCompanyId,
+  InvoiceRepository,
+} from '../invoice/repositories/invoice.repository';
+import {
+  getChanges,
+  InvoiceEventActor,
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../invoice/repositories/invoice-event.repository';
 import {
   BillQueryDto,
   BillStatsDto,
   PayBillsDto,
   BillTimelineDto,
   BatchPaymentResultDto,
+  BatchPayoutDto,
 } from './bill.dto';
 import { BillCreateInput, BillModel } from 'src/database/generated/models';
 import {
   BillStatusEnum,
+  InvoiceEventActionEnum,
+  InvoiceEventActorEnum,
   InvoiceStatusEnum,
+  PayrollStatusEnum,
 } from 'src/database/generated/client';
 import { handleError } from 'src/common/utils/errors';
 import { PrismaService } from 'src/database/prisma.service';
 import { PrismaTransactionClient } from 'src/database/base.repository';
 import { ErrorBill, ErrorInvoice } from 'src/common/constants/errors';
+import {
+  getInvoicePayouts,
+  InvoicePaymentSplit,
+  recalculateInvoicePaymentSplits,
+} from 'src/common/utils/payout-split.util';
+import { JsonValue } from '@prisma/client/runtime/client';
+import { getPayPeriod } from 'src/common/utils/pay-frequency.util';
+import { isAfterContractEnd } from 'src/common/utils/proration.util';
 
 @Injectable()
 export class BillService {
@@ -32,6 +60,7 @@ export class BillService {
     private readonly prisma: PrismaService,
     private readonly billRepository: BillRepository,
     private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
   ) {}
 
   //#region GET METHODS
@@ -45,7 +74,7 @@ export class BillService {
     companyId: number,
     query: BillQueryDto,
   ): Promise<{
-    bills: BillModel[];
+    bills: (BillModel & { amountDue: string })[];
     pagination: {
       page: number;
       limit: number;
@@ -77,6 +106,8 @@ export class BillService {
                     group: true,
                   },
                 },
+                // Sender of B2B invoices
+                fromCompany: true,
               },
             },
             company: true,
@@ -85,7 +116,11 @@ export class BillService {
       );
 
       return {
-        bills: result.data,
+        // Amount to pay today, after the early payment discount of the invoice's payment terms
+        bills: (result.data as BillWithInvoice[]).map((bill) => ({
+          ...bill,
+          amountDue: getBillAmountDue(bill),
+        })),
         pagination: {
           page: query.page || 1,
           limit: query.limit || 10,
@@ -106,7 +141,7 @@ export class BillService {
     uuid: string,
     companyId: number,
   ): Promise<{
-    bill: BillWithInvoice;
+    bill: BillWithPayments & { amountDue: string };
     timeline: BillTimelineDto[];
   }> {
     try {
@@ -119,56 +154,33 @@ export class BillService {
         throw new NotFoundException(ErrorBill.BillNotFound);
       }
 
-      // Build timeline
-      const timeline: BillTimelineDto[] = [];
-
-      // Invoice created
-      timeline.push({
-        event: 'invoice_created',
-        timestamp: bill.invoice.createdAt,
-      });
-
-      // Invoice sent
-      if (bill.invoice.sentAt) {
-        timeline.push({
-          event: 'invoice_sent',
-          timestamp: bill.invoice.sentAt,
-        });
-      }
-
-      // Invoice confirmed
-      if (bill.invoice.confirmedAt) {
-        timeline.push({
-          event: 'invoice_confirmed',
-          timestamp: bill.invoice.confirmedAt,
-        });
-      }
+      return {
+        bill: { ...bill, amountDue: getBillAmountDue(bill) },
+        timeline: await this.getTimeline(bill),
+      };
+    } catch (error) {
+      this.logger.error(`Error fetching bill details ${uuid}:`, error);
+      handleError(error, this.logger);
+    }
+  }
 
-      // Bill created
-      if (bill.createdAt) {
-        timeline.push({
-          event: 'bill_created',
-          timestamp: bill.createdAt,
-        });
-      }
+  /**
+   * Get the activity timeline of a bill and its invoice, oldest first
+   */
+  async getBillTimeline(
+    uuid: string,
+    companyId: number,
+  ): Promise<BillTimelineDto[]> {
+    try {
+      const bill = await this.billRepository.findOne({ uuid, companyId });
 
-      // Bill paid
-      if (bill.paidAt) {
-        timeline.push({
-          event: 'bill_paid',
-          timestamp: bill.paidAt,
-        });
+      if (!bill) {
+        throw new NotFoundException(ErrorBill.BillNotFound);
       }
 
-      // Sort timeline by timestamp
-      timeline.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
-
-      return {
-        bill: bill,
-        timeline: timeline,
-      };
+      return await this.getTimeline(bill);
     } catch (error) {
-      this.logger.error(`Error fetching bill details ${uuid}:`, error);
+      this.logger.error(`Error fetching bill timeline ${uuid}:`, error);
       handleError(error, this.logger);
     }
   }
@@ -211,6 +223,7 @@ export class BillService {
     invoiceUUID: string,
     companyId: number,
     tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
   ): Promise<BillModel> {
     // Verify invoice exists and is confirmed
     const invoice = await this.invoiceRepository.findByUUID(invoiceUUID, tx);
@@ -219,7 +232,8 @@ export class BillService {
       throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
     }
 
-    if (invoice.payroll.companyId !== companyId) {
+    // The bill belongs to the paying company: the employer, or the recipient of a B2B invoice
+    if (getInvoicePayerCompanyId(invoice) !== companyId) {
       throw new BadRequestException(ErrorInvoice.InvoiceNotBelongsToCompany);
     }
 
@@ -249,6 +263,14 @@ export class BillService {
 
     const bill = await this.billRepository.create(billData, tx);
 
+    await this.invoiceEventRepository.createEvent(
+      { id: invoice.id },
+      InvoiceEventActionEnum.BILL_CREATED,
+      actor,
+      { billId: bill.id },
+      tx,
+    );
+
     return bill;
   }
 
@@ -257,6 +279,7 @@ export class BillService {
    */
   async payBills(
     companyId: number,
+    email: string,
     dto: PayBillsDto,
   ): Promise<BatchPaymentResultDto> {
     return await this.prisma.$transaction(async (tx) => {
@@ -279,39 +302,161 @@ export class BillService {
         (uuid) => !foundBillIds.includes(uuid.toString()),
       );
 
-      if (notFoundBillIds.length > 0) {
+      if (
+        notFoundBillIds.length > 0 ||
+        bills.some((bill) => !UNPAID_BILL_STATUSES.includes(bill.status))
+      ) {
         throw new NotFoundException(ErrorBill.BillsNotFoundOrNotPayable);
       }
 
-      // Calculate total amount
-      const totalAmount = bills
-        .reduce((sum, bill) => sum + parseFloat(bill.invoice.total), 0)
-        .toFixed(2);
+      const allocations = new Map(
+        (dto.allocations ?? []).map((allocation) => [
+          allocation.billUUID,
+          allocation.amount,
+        ]),
+      );
+
+      if (
+        [...allocations.keys()].some((uuid) => !foundBillIds.includes(uuid))
+      ) {
+        throw new BadRequestException(ErrorBill.AllocationBillNotSelected);
+      }
 
       const paidAt = new Date();
 
-      // Update all bills to paid status
-      await this.billRepository.updateMultiple(
-        dto.billUUIDs.map((uuid) => uuid.toString()),
-        companyId,
-        {
-          status: BillStatusEnum.PAID,
+      // Bills without an allocation are paid in full, credit notes and previous payments are deducted.
+      // Paying the balance within the discount window of the invoice's payment terms takes the early payment discount.
+      const payments = bills.map((bill) => {
+        const outstandingAmount = parseFloat(getBillOutstandingAmount(bill));
+        const amountDue = parseFloat(getBillAmountDue(bill, paidAt));
+        const amount = allocations.has(bill.uuid)
+          ? parseFloat(allocations.get(bill.uuid))
+          : amountDue;
+
+        if (amount <= 0) {
+          throw new BadRequestException(ErrorBill.InvalidPaymentAmount);
+        }
+
+        if (amount - outstandingAmount > 0.001) {
+          throw new BadRequestException(ErrorBill.PaymentExceedsBalance);
+        }
+
+        const isFullyPaid = amountDue - amount < 0.01;
+
+        return {
+          bill,
+          amount: amount.toFixed(2),
+          isFullyPaid,
+          // Paying more than the discounted balance reduces the discount
+          earlyPaymentDiscount: isFullyPaid
+            ? Math.max(outstandingAmount - amount, 0)
+            : 0,
+        };
+      });
+
+      const actor = { type: InvoiceEventActorEnum.COMPANY, email };
+
+      // Record the payment on each bill, bills only become paid once their balance is covered
+      for (const payment of payments) {
+        const { bill, amount, isFullyPaid, earlyPaymentDiscount } = payment;
+
+        if (earlyPaymentDiscount >= 0.01) {
+          await this.invoiceRepository.update(
+            { id: bill.invoice.id },
+            { earlyPaymentDiscount: earlyPaymentDiscount.toFixed(2) },
+            tx,
+          );
+        }
+
+        const updatedBill = await this.billRepository.update(
+          { id: bill.id },
+          {
+            paidAmount: (
+              parseFloat(bill.paidAmount) + parseFloat(amount)
+            ).toFixed(2),
+            // Overdue bills stay overdue until they are fully paid
+            status: isFullyPaid
+              ? BillStatusEnum.PAID
+              : bill.status === BillStatusEnum.OVERDUE
+                ? BillStatusEnum.OVERDUE
+                : BillStatusEnum.PARTIALLY_PAID,
+            ...(isFullyPaid && {
+              paidAt,
+              transactionHash: dto.transactionHash,
+            }),
+            payments: {
+              create: {
+                amount,
+                token: (dto.token ?? bill.invoice.paymentToken) as JsonValue,
+                network: (dto.network ??
+                  bill.invoice.paymentNetwork) as JsonValue,
+                transactionHash: dto.transactionHash,
+                paidAt,
+              },
+            },
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: bill.invoice.id },
+          InvoiceEventActionEnum.BILL_PAYMENT,
+          actor,
+          {
+            billId: bill.id,
+            changes: getChanges(bill, updatedBill, ['paidAmount', 'status']),
+            metadata: { amount, transactionHash: dto.transactionHash },
+          },
+          tx,
+        );
+
+        if (isFullyPaid) {
+          await this.invoiceEventRepository.createEvent(
+            { id: bill.invoice.id },
+            InvoiceEventActionEnum.BILL_PAID,
+            actor,
+            {
+              billId: bill.id,
+              ...(earlyPaymentDiscount >= 0.01 && {
+                metadata: {
+                  earlyPaymentDiscount: earlyPaymentDiscount.toFixed(2),
+                },
+              }),
+            },
+            tx,
+          );
+        }
+      }
+
+      const fullyPaidBills = payments
+        .filter((payment) => payment.isFullyPaid)
+        .map((payment) => payment.bill);
+
+      if (fullyPaidBills.length > 0) {
+        // Update invoice status to paid
+        await this.invoiceRepository.updateMultiple(
+          fullyPaidBills.map((bill) => bill.invoice.uuid.toString()),
+          InvoiceStatusEnum.PAID,
           paidAt,
-          transactionHash: dto.transactionHash,
-        },
-        tx,
-      );
+          tx,
+        );
+
+        // Complete payrolls whose final cycle has now been paid
+        await this.completeFullyPaidPayrolls(
+          fullyPaidBills
+            .map((bill) => bill.invoice.payrollId)
+            .filter((payrollId) => payrollId !== null),
+          tx,
+        );
+      }
 
-      // Update invoice status to paid
-      await this.invoiceRepository.updateMultiple(
-        bills.map((bill) => bill.invoice.uuid.toString()),
-        InvoiceStatusEnum.PAID,
-        paidAt,
-        tx,
-      );
+      const totalAmount = payments
+        .reduce((sum, payment) => sum + parseFloat(payment.amount), 0)
+        .toFixed(2);
 
       return {
         totalAmount,
+        payouts: this.groupPayouts(payments),
       };
     });
   }
@@ -322,9 +467,20 @@ export class BillService {
   async markOverdueBills(date?: Date): Promise<number> {
     try {
       const overdueDate = date || new Date();
-      const count = await this.billRepository.markOverdueBills(overdueDate);
 
-      return count;
+      return await this.prisma.$transaction(async (tx) => {
+        const bills = await this.billRepository.markOverdueBills(
+          overdueDate,
+          tx,
+        );
+
+        return this.invoiceEventRepository.createEvents(
+          bills.map((bill) => ({ invoiceId: bill.invoiceId, billId: bill.id })),
+          InvoiceEventActionEnum.BILL_OVERDUE,
+          SYSTEM_ACTOR,
+          tx,
+        );
+      });
     } catch (error) {
       this.logger.error('Error marking overdue bills:', error);
       handleError(error, this.logger);
@@ -344,6 +500,7 @@ export class BillService {
   async updateBillStatus(
     id: number,
     companyId: number,
+    email: string,
     status: BillStatusEnum,
   ): Promise<BillModel> {
     return await this.prisma.$transaction(async (tx) => {
@@ -366,6 +523,17 @@ export class BillService {
         tx,
       );
 
+      await this.invoiceEventRepository.createEvent(
+        { id: bill.invoiceId },
+        InvoiceEventActionEnum.BILL_STATUS_UPDATED,
+        { type: InvoiceEventActorEnum.COMPANY, email },
+        {
+          billId: bill.id,
+          changes: getChanges(bill, updatedBill, ['status', 'paidAt']),
+        },
+        tx,
+      );
+
       return updatedBill;
     });
   }
@@ -383,6 +551,7 @@ export class BillService {
     uuid: string,
     companyId: number,
     tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
   ): Promise<void> {
     const bill = await this.billRepository.findByUUIDWithInvoice(
       uuid,
@@ -394,16 +563,166 @@ export class BillService {
       throw new NotFoundException(ErrorBill.BillNotFound);
     }
 
-    if (bill.status === BillStatusEnum.PAID) {
+    // Partially paid bills cannot be deleted either
+    if (
+      bill.status === BillStatusEnum.PAID ||
+      parseFloat(bill.paidAmount) > 0
+    ) {
       throw new BadRequestException(ErrorBill.CannotDeletePaidBills);
     }
 
     // update bill sattus to cancelled
-    await this.billRepository.update(
+    const updatedBill = await this.billRepository.update(
       { uuid, companyId },
       { status: BillStatusEnum.CANCELLED },
       tx,
     );
+
+    await this.invoiceEventRepository.createEvent(
+      { id: bill.invoiceId },
+      InvoiceEventActionEnum.BILL_CANCELLED,
+      actor,
+      { billId: bill.id, changes: getChanges(bill, updatedBill, ['status']) },
+      tx,
+    );
   }
   //#endregion DELETE METHODS
+
+  /**
+   * Timeline of a bill from the event log of its invoice
+   */
+  private async getTimeline(bill: BillModel): Promise<BillTimelineDto[]> {
+    const events = await this.invoiceEventRepository.findByInvoiceId(
+      bill.invoiceId,
+    );
+
+    return events.map((event) => ({
+      event: event.action.toLowerCase(),
+      timestamp: event.createdAt,
+      actorType: event.actorType,
+      actorEmail: event.actorEmail,
+      ...(event.changes && {
+        changes: event.changes as Record<string, any>,
+      }),
+      ...(event.metadata && {
+        metadata: event.metadata as Record<string, any>,
+      }),
+    }));
+  }
+
+  /**
+   * Group the payouts of the paid invoices into one transfer per wallet, network and token
+   */
+  private groupPayouts(
+    payments: { bill: BillWithInvoice; amount: string }[],
+  ): BatchPayoutDto[] {
+    const payouts = new Map<string, BatchPayoutDto>();
+
+    for (const { bill, amount } of payments) {
+      for (const payout of this.getBillPayouts(bill, amount)) {
+        const token = (payout.token ?? {}) as Record<string, any>;
+        const network = (payout.network ?? {}) as Record<string, any>;
+        const key = `${payout.walletAddress.toLowerCase()}:${network.chainId}:${token.address}`;
+
+        const existing = payouts.get(key);
+        if (existing) {
+          existing.amount = (
+            parseFloat(existing.amount) + parseFloat(payout.amount)
+          ).toFixed(2);
+        } else {
+          payouts.set(key, {
+            walletAddress: payout.walletAddress,
+            token,
+            network,
+            amount: payout.amount,
+          });
+        }
+      }
+    }
+
+    return Array.from(payouts.values());
+  }
+
+  /**
+   * Get the payouts of a bill payment, split again for the paid amount when it is not the invoice total
+   * (credit notes, instalments)
+   */
+  private getBillPayouts(
+    bill: BillWithInvoice,
+    amount: string,
+  ): InvoicePaymentSplit[] {
+    if (parseFloat(amount) === parseFloat(bill.invoice.total)) {
+      return getInvoicePayouts(bill.invoice);
+    }
+
+    return getInvoicePayouts({
+      ...bill.invoice,
+      total: amount,
+      paymentSplits: recalculateInvoicePaymentSplits(
+        bill.invoice,
+        amount,
+      ) as unknown as JsonValue,
+    });
+  }
+
+  /**
+   * Mark payrolls as COMPLETED once every cycle owed has been invoiced and no invoice is left unpaid.
+   * Cycles paid after the contract ended are not owed, so the last one invoiced before is the final cycle.
+   */
+  private async completeFullyPaidPayrolls(
+    payrollIds: number[],
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const payrolls = await tx.payroll.findMany({
+      where: {
+        id: { in: [...new Set(payrollIds)] },
+        status: { in: [PayrollStatusEnum.ACTIVE, PayrollStatusEnum.PAUSED] },
+      },
+      select: {
+        id: true,
+        currentCycleNumber: true,
+        payrollCycle: true,
+        payStartDate: true,
+        payFrequency: true,
+        contractEndDate: true,
+      },
+    });
+
+    for (const payroll of payrolls) {
+      const nextPeriod = getPayPeriod(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        payroll.currentCycleNumber,
+      );
+
+      if (
+        payroll.currentCycleNumber < payroll.payrollCycle &&
+        !isAfterContractEnd(nextPeriod, payroll.contractEndDate)
+      ) {
+        continue;
+      }
+
+      const outstandingInvoices =
+        await this.invoiceRepository.findOutstandingInvoicesForPayroll(
+          payroll.id,
+          tx,
+        );
+
+      if (outstandingInvoices.length > 0) {
+        continue;
+      }
+
+      await tx.payroll.update({
+        where: { id: payroll.id },
+        data: { status: PayrollStatusEnum.COMPLETED },
+      });
+
+      await tx.invoiceSchedule.updateMany({
+        where: { payrollId: payroll.id },
+        data: { isActive: false },
+      });
+
+      this.logger.log(`Payroll ${payroll.id} completed after final payment`);
+    }
+  }
 }
@@ -8,6 +8,9 @@ import {
   IsObject,
   Length,
   IsEmail,
+  IsInt,
+  Min,
+  Max,
 } from 'class-validator';
 import {
   CompanyTypeEnum,
@@ -141,6 +144,19 @@ export class UpdateCompanyDto {
   @Length(5, 255)
   notificationEmail?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Number of owner/admin approvals required before auto-generated payroll invoices are sent to employees (0 disables approvals)',
+    example: 1,
+    minimum: 0,
+    maximum: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(2)
+  invoiceApprovalsRequired?: number;
+
   @ApiPropertyOptional({
     description: 'Country where company is registered',
     example: 'United States',
@@ -260,6 +276,13 @@ export class CompanyResponseDto {
   })
   verificationStatus: CompanyVerificationStatusEnum;
 
+  @ApiProperty({
+    description:
+      'Number of owner/admin approvals required before auto-generated payroll invoices are sent',
+    example: 0,
+  })
+  invoiceApprovalsRequired: number;
+
   @ApiProperty({ description: 'Is company active', example: true })
   isActive: boolean;
 
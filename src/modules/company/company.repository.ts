@@ -33,6 +33,7 @@ export interface UpdateCompanyData {
   address2?: string;
   city?: string;
   postalCode?: string;
+  invoiceApprovalsRequired?: number;
   verificationStatus?: CompanyVerificationStatusEnum;
   isActive?: boolean;
   metadata?: any;
@@ -4,30 +4,77 @@ import {
   Post,
   Put,
   Patch,
+  Delete,
   Body,
   Param,
   Query,
   ParseIntPipe,
+  ParseEnumPipe,
   HttpStatus,
   Res,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiConsumes,
+  ApiBody,
 } from '@nestjs/swagger';
 import { Response } from 'express';
 import { InvoiceService } from './services/invoice.service';
 import { PdfService } from './services/pdf.service';
+import { InvoiceNumberSequenceService } from './services/invoice-number-sequence.service';
+import { B2BInvoiceService } from './services/b2b-invoice.service';
+import { CreditNoteService } from './services/credit-note.service';
+import { InvoiceTemplateService } from './services/invoice-template.service';
+import { TaxRateService } from './services/tax-rate.service';
+import { InvoiceScheduleService } from './services/invoice-schedule.service';
+import { DunningService } from './services/dunning.service';
+import { InvoiceAttachmentService } from './services/invoice-attachment.service';
 import {
   CreateInvoiceDto,
   UpdateInvoiceDto,
   InvoiceQueryDto,
   InvoiceStatsDto,
+  InvoiceNumberSequenceResponseDto,
+  UpsertInvoiceNumberSequenceDto,
+  CreateB2BInvoiceDto,
+  B2BInvoiceQueryDto,
+  PublicInvoicePaymentDto,
+  PublicInvoiceResponseDto,
+  CreateCreditNoteDto,
+  CreateInvoiceCommentDto,
+  DisputeInvoiceDto,
+  ReviseInvoiceDto,
+  CreateInvoiceTemplateDto,
+  UpdateInvoiceTemplateDto,
+  CreateTaxRateDto,
+  UpdateTaxRateDto,
+  CreateB2BInvoiceScheduleDto,
+  UpdateB2BInvoiceScheduleDto,
+  UpdateDunningRulesDto,
+  InvoiceAttachmentFile,
 } from './invoice.dto';
-import { InvoiceModel } from 'src/database/generated/models';
+import {
+  CreditNoteModel,
+  DunningRuleModel,
+  InvoiceAttachmentModel,
+  InvoiceCommentModel,
+  InvoiceEventModel,
+  InvoiceModel,
+  InvoiceScheduleModel,
+  InvoiceTemplateModel,
+  TaxRateModel,
+} from 'src/database/generated/models';
+import {
+  InvoiceEventActorEnum,
+  NumberingSequenceTypeEnum,
+} from 'src/database/generated/client';
 import { CompanyAuth } from '../auth/decorators/company-auth.decorator';
 import {
   CurrentUser,
@@ -35,6 +82,8 @@ import {
 } from '../auth/decorators/current-user.decorator';
 import { AuthenticatedUser } from 'src/common/interfaces/para-jwt-payload';
 import { Auth } from '../auth/decorators/auth.decorator';
+import { Public } from '../auth/decorators/public.decorator';
+import { MAX_ATTACHMENT_SIZE } from 'src/common/constants/attachment';
 
 @ApiTags('Invoice')
 @ApiBearerAuth()
@@ -43,6 +92,14 @@ export class InvoiceController {
   constructor(
     private readonly invoiceService: InvoiceService,
     private readonly pdfService: PdfService,
+    private readonly invoiceNumberSequenceService: InvoiceNumberSequenceService,
+    private readonly b2bInvoiceService: B2BInvoiceService,
+    private readonly creditNoteService: CreditNoteService,
+    private readonly invoiceTemplateService: InvoiceTemplateService,
+    private readonly taxRateService: TaxRateService,
+    private readonly invoiceScheduleService: InvoiceScheduleService,
+    private readonly dunningService: DunningService,
+    private readonly invoiceAttachmentService: InvoiceAttachmentService,
   ) {}
 
   //#region GET METHODS
@@ -85,6 +142,195 @@ export class InvoiceController {
     return this.invoiceService.getInvoiceStats(user.company.id);
   }
 
+  @Get('b2b')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Get outgoing or incoming B2B invoices of the company',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'B2B invoices retrieved successfully',
+  })
+  async getB2BInvoices(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Query() query: B2BInvoiceQueryDto,
+  ): Promise<{
+    invoices: InvoiceModel[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    return this.b2bInvoiceService.getB2BInvoices(user.company.id, query);
+  }
+
+  @Get('b2b/schedules')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Get the recurring B2B invoice schedules' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'B2B invoice schedules retrieved successfully',
+  })
+  async getB2BInvoiceSchedules(
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<InvoiceScheduleModel[]> {
+    return this.invoiceScheduleService.getB2BSchedules(user.company.id);
+  }
+
+  @Get('numbering-sequences')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Get the invoice numbering sequences of the company',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Numbering sequences retrieved successfully',
+    type: [InvoiceNumberSequenceResponseDto],
+  })
+  async getNumberingSequences(
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<InvoiceNumberSequenceResponseDto[]> {
+    return this.invoiceNumberSequenceService.getSequences(user.company.id);
+  }
+
+  @Get('dunning-rules')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Get the payment reminders of the company' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dunning rules retrieved successfully',
+  })
+  async getDunningRules(
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<DunningRuleModel[]> {
+    return this.dunningService.getDunningRules(user.company.id);
+  }
+
+  @Get('templates')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Get the invoice templates of the company' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice templates retrieved successfully',
+  })
+  async getInvoiceTemplates(
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<InvoiceTemplateModel[]> {
+    return this.invoiceTemplateService.getTemplates(user.company.id);
+  }
+
+  @Get('tax-rates')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Get the tax rates of the company' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tax rates retrieved successfully',
+  })
+  async getTaxRates(
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<TaxRateModel[]> {
+    return this.taxRateService.getTaxRates(user.company.id);
+  }
+
+  @Get('templates/:templateUUID/preview')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Preview an invoice template',
+    description: 'Renders a sample invoice with the template as PDF',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'PDF generated successfully',
+  })
+  @ApiParam({
+    name: 'templateUUID',
+    type: 'string',
+    description: 'Invoice template UUID',
+  })
+  async previewInvoiceTemplate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('templateUUID') templateUUID: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const pdfBuffer = await this.invoiceTemplateService.previewTemplate(
+        templateUUID,
+        user.company.id,
+      );
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': 'inline; filename="invoice-preview.pdf"',
+        'Content-Length': pdfBuffer.length,
+      });
+
+      res.send(pdfBuffer);
+    } catch (error) {
+      res.status(error.status ?? HttpStatus.INTERNAL_SERVER_ERROR).json({
+        message: 'Failed to generate PDF',
+        error: error.message,
+      });
+    }
+  }
+
+  @Get('public/:token')
+  @Public()
+  @ApiOperation({ summary: 'Get invoice by public token (public)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice retrieved successfully',
+    type: PublicInvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Invoice not found',
+  })
+  @ApiParam({ name: 'token', description: 'Public invoice token' })
+  async getPublicInvoice(
+    @Param('token') token: string,
+  ): Promise<PublicInvoiceResponseDto> {
+    return this.b2bInvoiceService.getPublicInvoice(token);
+  }
+
+  @Get('public/:token/pdf')
+  @Public()
+  @ApiOperation({ summary: 'Download invoice as PDF by public token (public)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'PDF generated successfully',
+  })
+  @ApiParam({ name: 'token', description: 'Public invoice token' })
+  async downloadPublicInvoicePdf(
+    @Param('token') token: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const invoice = await this.b2bInvoiceService.findPublicInvoice(token);
+      const template =
+        await this.invoiceTemplateService.getTemplateForInvoice(invoice);
+      const pdfBuffer = await this.pdfService.generateInvoicePdf(
+        invoice,
+        template,
+      );
+      const filename = this.pdfService.getInvoiceFilename(invoice);
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': pdfBuffer.length,
+      });
+
+      res.send(pdfBuffer);
+    } catch (error) {
+      res.status(error.status ?? HttpStatus.INTERNAL_SERVER_ERROR).json({
+        message: 'Failed to generate PDF',
+        error: error.message,
+      });
+    }
+  }
+
   @Get('number/:invoiceUUID')
   @ApiOperation({
     summary: 'Get invoice by invoice uuid',
@@ -121,7 +367,12 @@ export class InvoiceController {
   ): Promise<void> {
     try {
       const invoice = await this.invoiceService.getInvoiceByUUID(invoiceUUID);
-      const pdfBuffer = await this.pdfService.generateInvoicePdf(invoice);
+      const template =
+        await this.invoiceTemplateService.getTemplateForInvoice(invoice);
+      const pdfBuffer = await this.pdfService.generateInvoicePdf(
+        invoice,
+        template,
+      );
       const filename = this.pdfService.getInvoiceFilename(invoice);
 
       res.set({
@@ -138,139 +389,945 @@ export class InvoiceController {
       });
     }
   }
-  //#region GET METHODS
 
-  //#region POST METHODS
-  // *************************************************
-  // **************** POST METHODS *******************
-  // *************************************************
-  @Post()
+  @Get(':invoiceUUID/credit-notes')
   @CompanyAuth()
-  @ApiOperation({ summary: 'Create a new payroll invoice manually' })
+  @ApiOperation({ summary: 'Get the credit notes of an invoice' })
   @ApiResponse({
-    status: HttpStatus.CREATED,
-    description: 'Invoice created successfully',
+    status: HttpStatus.OK,
+    description: 'Credit notes retrieved successfully',
   })
-  async createPayrollInvoice(
-    @Body() createInvoiceDto: CreateInvoiceDto,
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async getCreditNotes(
     @CurrentUser('withCompany') user: UserWithCompany,
-  ): Promise<InvoiceModel> {
-    return this.invoiceService.createPayrollInvoice(
-      createInvoiceDto,
-      user.company.id,
-    );
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<CreditNoteModel[]> {
+    return this.creditNoteService.getCreditNotes(invoiceUUID, user.company.id);
   }
 
-  @Post('generate/:payrollId')
-  @CompanyAuth()
-  @ApiOperation({ summary: 'Generate invoice from payroll (manual)' })
+  @Get(':invoiceUUID/comments')
+  @Auth()
+  @ApiOperation({
+    summary: 'Get the comment thread of an invoice',
+    description:
+      'Visible to the employee and the issuing company, including disputes and revisions',
+  })
   @ApiResponse({
-    status: HttpStatus.CREATED,
-    description: 'Invoice generated successfully',
+    status: HttpStatus.OK,
+    description: 'Invoice comments retrieved successfully',
   })
-  @ApiParam({ name: 'payrollId', type: 'number', description: 'Payroll ID' })
-  async generateInvoice(
-    @CurrentUser('withCompany') user: UserWithCompany,
-    @Param('payrollId', ParseIntPipe) payrollId: number,
-  ): Promise<InvoiceModel> {
-    return this.invoiceService.generateInvoiceFromPayroll(
-      payrollId,
-      user.company.id,
-    );
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async getInvoiceComments(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceCommentModel[]> {
+    return this.invoiceService.getInvoiceComments(invoiceUUID, user.email);
   }
-  //#endregion POST METHODS
 
-  //#region PUT METHODS
-  // *************************************************
-  // **************** PUT METHODS ********************
-  // *************************************************
-  @Put(':invoiceUUID')
+  @Get(':invoiceUUID/timeline')
   @Auth()
   @ApiOperation({
-    summary: 'Update invoice (employee can update their details)',
+    summary: 'Get the activity timeline of an invoice',
+    description:
+      'Every change to the invoice, its items and its bill with who made it, visible to the employee, the issuing and the paying company',
   })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Invoice updated successfully',
+    description: 'Invoice timeline retrieved successfully',
   })
   @ApiParam({
     name: 'invoiceUUID',
     type: 'string',
     description: 'Invoice UUID',
   })
-  async updateInvoice(
+  async getInvoiceTimeline(
     @CurrentUser() user: AuthenticatedUser,
     @Param('invoiceUUID') invoiceUUID: string,
-    @Body() updateInvoiceDto: UpdateInvoiceDto,
-  ): Promise<void> {
-    this.invoiceService.updateInvoice(
-      invoiceUUID,
-      updateInvoiceDto,
-      user.email,
-    );
+  ): Promise<InvoiceEventModel[]> {
+    return this.invoiceService.getInvoiceTimeline(invoiceUUID, user.email);
   }
-  //#region PUT METHODS
 
-  //#region PATCH METHODS
-  // *************************************************
-  // **************** PATCH METHODS ******************
-  // *************************************************
-  @Patch(':invoiceUUID/send')
-  @CompanyAuth()
-  @ApiOperation({ summary: 'Send invoice to employee' })
+  @Get(':invoiceUUID/attachments')
+  @Auth()
+  @ApiOperation({
+    summary: 'Get the attachments of an invoice',
+    description:
+      'Supporting documents (timesheets, receipts, contracts) visible to the employee, the issuing and the paying company',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Invoice sent successfully',
+    description: 'Invoice attachments retrieved successfully',
   })
   @ApiParam({
     name: 'invoiceUUID',
     type: 'string',
     description: 'Invoice UUID',
   })
-  async sendInvoice(
-    @CurrentUser('withCompany') user: UserWithCompany,
+  async getInvoiceAttachments(
+    @CurrentUser() user: AuthenticatedUser,
     @Param('invoiceUUID') invoiceUUID: string,
-  ): Promise<InvoiceModel> {
-    return this.invoiceService.sendInvoice(invoiceUUID, user.company.id);
+  ): Promise<InvoiceAttachmentModel[]> {
+    return this.invoiceAttachmentService.getInvoiceAttachments(
+      invoiceUUID,
+      user.email,
+    );
   }
 
-  @Patch(':invoiceUUID/confirm')
+  @Get(':invoiceUUID/attachments/:attachmentUUID')
   @Auth()
-  @ApiOperation({ summary: 'Employee confirms invoice' })
+  @ApiOperation({ summary: 'Download an attachment of an invoice' })
   @ApiResponse({
-    status: HttpStatus.OK,
-    description: 'Invoice confirmed successfully',
+    status: HttpStatus.NOT_FOUND,
+    description: 'Attachment not found',
   })
   @ApiParam({
     name: 'invoiceUUID',
     type: 'string',
     description: 'Invoice UUID',
   })
-  async confirmInvoice(
+  @ApiParam({
+    name: 'attachmentUUID',
+    type: 'string',
+    description: 'Attachment UUID',
+  })
+  async downloadInvoiceAttachment(
     @CurrentUser() user: AuthenticatedUser,
     @Param('invoiceUUID') invoiceUUID: string,
-  ): Promise<InvoiceModel> {
-    return this.invoiceService.confirmInvoice(invoiceUUID, user.email);
+    @Param('attachmentUUID') attachmentUUID: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    const { attachment, content } =
+      await this.invoiceAttachmentService.downloadInvoiceAttachment(
+        invoiceUUID,
+        attachmentUUID,
+        user.email,
+      );
+
+    res.set({
+      'Content-Type': attachment.contentType,
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      'Content-Length': content.length,
+    });
+
+    res.send(content);
   }
 
-  @Patch(':invoiceUUID/cancel')
+  @Get('credit-notes/:creditNoteUUID/pdf')
   @CompanyAuth()
-  @ApiOperation({ summary: 'Cancel invoice' })
+  @ApiOperation({ summary: 'Download credit note as PDF' })
   @ApiResponse({
     status: HttpStatus.OK,
-    description: 'Invoice cancelled successfully',
+    description: 'PDF generated successfully',
   })
   @ApiParam({
-    name: 'invoiceUUID',
+    name: 'creditNoteUUID',
     type: 'string',
-    description: 'Invoice UUID',
+    description: 'Credit note UUID',
   })
-  async cancelInvoice(
+  async downloadCreditNotePdf(
     @CurrentUser('withCompany') user: UserWithCompany,
-    @Param('invoiceUUID') invoiceUUID: string,
-  ): Promise<InvoiceModel> {
-    return this.invoiceService.cancelInvoice(invoiceUUID, user.company.id);
+    @Param('creditNoteUUID') creditNoteUUID: string,
+    @Res() res: Response,
+  ): Promise<void> {
+    try {
+      const creditNote = await this.creditNoteService.getCreditNote(
+        creditNoteUUID,
+        user.company.id,
+      );
+      const pdfBuffer = await this.pdfService.generateCreditNotePdf(creditNote);
+      const filename = this.pdfService.getCreditNoteFilename(creditNote);
+
+      res.set({
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': pdfBuffer.length,
+      });
+
+      res.send(pdfBuffer);
+    } catch (error) {
+      res.status(error.status ?? HttpStatus.INTERNAL_SERVER_ERROR).json({
+        message: 'Failed to generate PDF',
+        error: error.message,
+      });
+    }
   }
+  //#region GET METHODS
 
-  //#region PATCH METHODS
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  @Post()
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Create a new payroll invoice manually' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Invoice created successfully',
+  })
+  async createPayrollInvoice(
+    @Body() createInvoiceDto: CreateInvoiceDto,
+    @CurrentUser('withCompany') user: UserWithCompany,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.createPayrollInvoice(
+      createInvoiceDto,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Post('b2b')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Create a draft B2B invoice to another company',
+    description:
+      'The recipient is a registered company (toCompanyId) or an unregistered company invoiced by email. Send it with PATCH /:invoiceUUID/send',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'B2B invoice created successfully',
+  })
+  async createB2BInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Body() dto: CreateB2BInvoiceDto,
+  ): Promise<InvoiceModel> {
+    return this.b2bInvoiceService.createB2BInvoice(
+      user.company.id,
+      user.email,
+      dto,
+    );
+  }
+
+  @Post('b2b/schedules')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Create a recurring B2B invoice schedule',
+    description:
+      'An invoice is generated from the template and sent to the recipient every period, from the start date until the end date or the number of invoices is reached',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'B2B invoice schedule created successfully',
+  })
+  async createB2BInvoiceSchedule(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Body() dto: CreateB2BInvoiceScheduleDto,
+  ): Promise<InvoiceScheduleModel> {
+    return this.invoiceScheduleService.createB2BSchedule(user.company.id, dto);
+  }
+
+  @Post('templates')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Create an invoice template (owners and admins)',
+    description:
+      'Logo, accent colour, footer, terms, locale and date format of the invoice PDFs',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Invoice template created successfully',
+  })
+  async createInvoiceTemplate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Body() dto: CreateInvoiceTemplateDto,
+  ): Promise<InvoiceTemplateModel> {
+    return this.invoiceTemplateService.createTemplate(
+      user.company.id,
+      user.internalUserId,
+      dto,
+    );
+  }
+
+  @Post('tax-rates')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Create a tax rate (owners and admins)',
+    description:
+      'Default tax rates apply to new invoice items that do not select their taxes',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Tax rate created successfully',
+  })
+  async createTaxRate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Body() dto: CreateTaxRateDto,
+  ): Promise<TaxRateModel> {
+    return this.taxRateService.createTaxRate(
+      user.company.id,
+      user.internalUserId,
+      dto,
+    );
+  }
+
+  @Post('public/:token/pay')
+  @Public()
+  @ApiOperation({
+    summary:
+      'Record the on-chain payment of an invoice by public token (public)',
+    description:
+      'The payment is not verified, the invoice is paid once the issuing company confirms it',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payment recorded successfully',
+    type: PublicInvoiceResponseDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Invoice not found',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description:
+      'Invoice has already been paid, or the transaction has already been recorded',
+  })
+  @ApiParam({ name: 'token', description: 'Public invoice token' })
+  async payPublicInvoice(
+    @Param('token') token: string,
+    @Body() dto: PublicInvoicePaymentDto,
+  ): Promise<PublicInvoiceResponseDto> {
+    return this.b2bInvoiceService.recordPublicPayment(token, dto);
+  }
+
+  @Post(':invoiceUUID/credit-notes')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Issue a credit note against a confirmed or paid invoice',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Credit note created successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async createCreditNote(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Body() dto: CreateCreditNoteDto,
+  ): Promise<CreditNoteModel> {
+    return this.creditNoteService.createCreditNote(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+      dto,
+    );
+  }
+
+  @Post(':invoiceUUID/comments')
+  @Auth()
+  @ApiOperation({
+    summary: 'Comment on an invoice (employee or issuing company)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Comment added successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async addInvoiceComment(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Body() dto: CreateInvoiceCommentDto,
+  ): Promise<InvoiceCommentModel> {
+    return this.invoiceService.addInvoiceComment(invoiceUUID, user.email, dto);
+  }
+
+  @Post(':invoiceUUID/attachments')
+  @Auth()
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: MAX_ATTACHMENT_SIZE } }),
+  )
+  @ApiOperation({
+    summary: 'Attach a document to an invoice (employee or issuing company)',
+    description:
+      'PDF, image, text, CSV, Word or Excel file of up to 10 MB, listed on the invoice PDF',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Attachment uploaded successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Missing, too large or unsupported file',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async uploadInvoiceAttachment(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @UploadedFile() file: InvoiceAttachmentFile,
+  ): Promise<InvoiceAttachmentModel> {
+    return this.invoiceAttachmentService.uploadInvoiceAttachment(
+      invoiceUUID,
+      user.email,
+      file,
+    );
+  }
+
+  @Post('generate/:payrollId')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Generate invoice from payroll (manual)' })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Invoice generated successfully',
+  })
+  @ApiParam({ name: 'payrollId', type: 'number', description: 'Payroll ID' })
+  async generateInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('payrollId', ParseIntPipe) payrollId: number,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.generateInvoiceFromPayroll(
+      payrollId,
+      user.company.id,
+      { actor: { type: InvoiceEventActorEnum.COMPANY, email: user.email } },
+    );
+  }
+  //#endregion POST METHODS
+
+  //#region PUT METHODS
+  // *************************************************
+  // **************** PUT METHODS ********************
+  // *************************************************
+  @Put('numbering-sequences/:type')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Configure the numbering sequence of an invoice type',
+    description:
+      'Invoices of this type are then numbered from the sequence instead of the default per-payroll numbering. B2B invoices are always numbered from a sequence, the default one is created with the first B2B invoice',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Numbering sequence saved successfully',
+    type: InvoiceNumberSequenceResponseDto,
+  })
+  @ApiParam({
+    name: 'type',
+    enum: NumberingSequenceTypeEnum,
+    description:
+      'Document type numbered by the sequence (invoices or credit notes)',
+  })
+  async upsertNumberingSequence(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('type', new ParseEnumPipe(NumberingSequenceTypeEnum))
+    type: NumberingSequenceTypeEnum,
+    @Body() dto: UpsertInvoiceNumberSequenceDto,
+  ): Promise<InvoiceNumberSequenceResponseDto> {
+    return this.invoiceNumberSequenceService.upsertSequence(
+      user.company.id,
+      user.internalUserId,
+      type,
+      dto,
+    );
+  }
+
+  @Put('templates/:templateUUID')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Update an invoice template (owners and admins)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice template updated successfully',
+  })
+  @ApiParam({
+    name: 'templateUUID',
+    type: 'string',
+    description: 'Invoice template UUID',
+  })
+  async updateInvoiceTemplate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('templateUUID') templateUUID: string,
+    @Body() dto: UpdateInvoiceTemplateDto,
+  ): Promise<InvoiceTemplateModel> {
+    return this.invoiceTemplateService.updateTemplate(
+      templateUUID,
+      user.company.id,
+      user.internalUserId,
+      dto,
+    );
+  }
+
+  @Put('dunning-rules')
+  @CompanyAuth()
+  @ApiOperation({
+    summary:
+      'Configure the payment reminders of the company (owners and admins)',
+    description:
+      'Reminders are emailed to the payer of unpaid invoices before, on and after the due date, and stop once the invoice is paid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Dunning rules updated successfully',
+  })
+  async updateDunningRules(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Body() dto: UpdateDunningRulesDto,
+  ): Promise<DunningRuleModel[]> {
+    return this.dunningService.updateDunningRules(
+      user.company.id,
+      user.internalUserId,
+      dto,
+    );
+  }
+
+  @Put('b2b/schedules/:scheduleUUID')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Update, pause or resume a recurring B2B invoice schedule',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'B2B invoice schedule updated successfully',
+  })
+  @ApiParam({
+    name: 'scheduleUUID',
+    type: 'string',
+    description: 'Invoice schedule UUID',
+  })
+  async updateB2BInvoiceSchedule(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('scheduleUUID') scheduleUUID: string,
+    @Body() dto: UpdateB2BInvoiceScheduleDto,
+  ): Promise<InvoiceScheduleModel> {
+    return this.invoiceScheduleService.updateB2BSchedule(
+      scheduleUUID,
+      user.company.id,
+      dto,
+    );
+  }
+
+  @Put('tax-rates/:taxRateUUID')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Update a tax rate (owners and admins)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tax rate updated successfully',
+  })
+  @ApiParam({
+    name: 'taxRateUUID',
+    type: 'string',
+    description: 'Tax rate UUID',
+  })
+  async updateTaxRate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('taxRateUUID') taxRateUUID: string,
+    @Body() dto: UpdateTaxRateDto,
+  ): Promise<TaxRateModel> {
+    return this.taxRateService.updateTaxRate(
+      taxRateUUID,
+      user.company.id,
+      user.internalUserId,
+      dto,
+    );
+  }
+
+  @Put(':invoiceUUID')
+  @Auth()
+  @ApiOperation({
+    summary: 'Update invoice (employee can update their details)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice updated successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async updateInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Body() updateInvoiceDto: UpdateInvoiceDto,
+  ): Promise<void> {
+    this.invoiceService.updateInvoice(
+      invoiceUUID,
+      updateInvoiceDto,
+      user.email,
+    );
+  }
+  //#region PUT METHODS
+
+  //#region PATCH METHODS
+  // *************************************************
+  // **************** PATCH METHODS ******************
+  // *************************************************
+  @Patch('b2b/:invoiceUUID/review')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Recipient company reviews a B2B invoice' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice reviewed successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async reviewB2BInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.b2bInvoiceService.reviewB2BInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Patch('b2b/:invoiceUUID/confirm')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Recipient company confirms a B2B invoice',
+    description: 'Creates the bill to pay on the recipient side',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice confirmed successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async confirmB2BInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.b2bInvoiceService.confirmB2BInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Patch('b2b/:invoiceUUID/payment/confirm')
+  @CompanyAuth()
+  @ApiOperation({
+    summary:
+      'Issuing company confirms the payment recorded from the public invoice page',
+    description: 'Marks the invoice as paid',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payment confirmed successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async confirmPublicPayment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.b2bInvoiceService.confirmPublicPayment(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Patch('b2b/:invoiceUUID/payment/reject')
+  @CompanyAuth()
+  @ApiOperation({
+    summary:
+      'Issuing company rejects the payment recorded from the public invoice page',
+    description: 'The invoice can be paid again from the public invoice page',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payment rejected successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async rejectPublicPayment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.b2bInvoiceService.rejectPublicPayment(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Patch(':invoiceUUID/send')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Send invoice to employee, or to the recipient of a B2B invoice',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice sent successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async sendInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.sendInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  @Patch(':invoiceUUID/approve')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Approve an invoice pending approval (owners and admins)',
+    description:
+      'Once the number of approvals required by the company is reached, the invoice is sent to the employee',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice approved successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async approveInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.approveInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.internalUserId,
+      user.email,
+    );
+  }
+
+  @Patch(':invoiceUUID/confirm')
+  @Auth()
+  @ApiOperation({ summary: 'Employee confirms invoice' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice confirmed successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async confirmInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.confirmInvoice(invoiceUUID, user.email);
+  }
+
+  @Patch(':invoiceUUID/dispute')
+  @Auth()
+  @ApiOperation({
+    summary: 'Employee disputes invoice',
+    description:
+      'Requests changes with a reason and proposed corrections, the company is notified',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice disputed successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async disputeInvoice(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Body() dto: DisputeInvoiceDto,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.disputeInvoice(invoiceUUID, user.email, dto);
+  }
+
+  @Patch(':invoiceUUID/revise')
+  @CompanyAuth()
+  @ApiOperation({
+    summary: 'Revise a disputed invoice and re-send it to the employee',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice revised successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async reviseInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Body() dto: ReviseInvoiceDto,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.reviseInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+      dto,
+    );
+  }
+
+  @Patch(':invoiceUUID/cancel')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Cancel invoice' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice cancelled successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  async cancelInvoice(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('invoiceUUID') invoiceUUID: string,
+  ): Promise<InvoiceModel> {
+    return this.invoiceService.cancelInvoice(
+      invoiceUUID,
+      user.company.id,
+      user.email,
+    );
+  }
+
+  //#region PATCH METHODS
+
+  //#region DELETE METHODS
+  // *************************************************
+  // **************** DELETE METHODS ****************
+  // *************************************************
+  @Delete('templates/:templateUUID')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Delete an invoice template (owners and admins)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Invoice template deleted successfully',
+  })
+  @ApiParam({
+    name: 'templateUUID',
+    type: 'string',
+    description: 'Invoice template UUID',
+  })
+  async deleteInvoiceTemplate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('templateUUID') templateUUID: string,
+  ): Promise<void> {
+    return this.invoiceTemplateService.deleteTemplate(
+      templateUUID,
+      user.company.id,
+      user.internalUserId,
+    );
+  }
+
+  @Delete('b2b/schedules/:scheduleUUID')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Delete a recurring B2B invoice schedule' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'B2B invoice schedule deleted successfully',
+  })
+  @ApiParam({
+    name: 'scheduleUUID',
+    type: 'string',
+    description: 'Invoice schedule UUID',
+  })
+  async deleteB2BInvoiceSchedule(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('scheduleUUID') scheduleUUID: string,
+  ): Promise<void> {
+    return this.invoiceScheduleService.deleteB2BSchedule(
+      scheduleUUID,
+      user.company.id,
+    );
+  }
+
+  @Delete('tax-rates/:taxRateUUID')
+  @CompanyAuth()
+  @ApiOperation({ summary: 'Delete a tax rate (owners and admins)' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Tax rate deleted successfully',
+  })
+  @ApiParam({
+    name: 'taxRateUUID',
+    type: 'string',
+    description: 'Tax rate UUID',
+  })
+  async deleteTaxRate(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('taxRateUUID') taxRateUUID: string,
+  ): Promise<void> {
+    return this.taxRateService.deleteTaxRate(
+      taxRateUUID,
+      user.company.id,
+      user.internalUserId,
+    );
+  }
+
+  @Delete(':invoiceUUID/attachments/:attachmentUUID')
+  @Auth()
+  @ApiOperation({
+    summary: 'Delete an attachment of an invoice (uploader only)',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Attachment deleted successfully',
+  })
+  @ApiParam({
+    name: 'invoiceUUID',
+    type: 'string',
+    description: 'Invoice UUID',
+  })
+  @ApiParam({
+    name: 'attachmentUUID',
+    type: 'string',
+    description: 'Attachment UUID',
+  })
+  async deleteInvoiceAttachment(
+    @CurrentUser() user: AuthenticatedUser,
+    @Param('invoiceUUID') invoiceUUID: string,
+    @Param('attachmentUUID') attachmentUUID: string,
+  ): Promise<void> {
+    return this.invoiceAttachmentService.deleteInvoiceAttachment(
+      invoiceUUID,
+      attachmentUUID,
+      user.email,
+    );
+  }
+  //#endregion DELETE METHODS
 }
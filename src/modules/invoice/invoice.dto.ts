@@ -1,4 +1,4 @@
-import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ApiProperty, ApiPropertyOptional, OmitType } from '@nestjs/swagger';
 import {
   IsEnum,
   IsNotEmpty,
@@ -10,14 +10,29 @@ import {
   IsArray,
   ValidateNested,
   IsEmail,
+  IsUrl,
+  IsBoolean,
   Matches,
   Min,
   Max,
+  IsInt,
+  Length,
+  ArrayMinSize,
+  ArrayMaxSize,
+  ValidateIf,
+  MinLength,
 } from 'class-validator';
 import { Type } from 'class-transformer';
-import { InvoiceStatusEnum } from 'src/database/generated/client';
+import {
+  InvoiceDateFormatEnum,
+  InvoiceStatusEnum,
+  NumberingResetFrequencyEnum,
+  NumberingSequenceTypeEnum,
+  PayFrequencyEnum,
+} from 'src/database/generated/client';
 import { Currency } from 'src/common/constants/currency';
 import { NetworkDto, TokenDto } from '../employee/employee.dto';
+import { LateFeeTypeEnum } from 'src/common/utils/payment-terms.util';
 
 export class InvoiceItemDto {
   @ApiProperty({
@@ -61,9 +76,9 @@ export class InvoiceItemDto {
   unit?: string;
 
   @ApiPropertyOptional({
-    description: 'Tax rate as percentage (as string)',
+    description:
+      'Tax rate as percentage (as string), the company default taxes apply without tax rate nor tax rate UUIDs',
     example: '10.00',
-    default: '0.00',
   })
   @IsOptional()
   @IsString()
@@ -72,6 +87,32 @@ export class InvoiceItemDto {
   })
   taxRate?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'UUIDs of the company tax rates applied to the item (replaces the tax rate)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  taxRateUUIDs?: string[];
+
+  @ApiPropertyOptional({
+    description: 'The item is exempt from taxes',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isTaxExempt?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'The unit price includes the taxes',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isTaxInclusive?: boolean;
+
   @ApiPropertyOptional({
     description: 'Discount amount (as string for precision)',
     example: '0.00',
@@ -166,6 +207,32 @@ export class UpdateInvoiceItemDto {
   })
   taxRate?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'UUIDs of the company tax rates applied to the item (replaces the tax rate)',
+    type: [String],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  taxRateUUIDs?: string[];
+
+  @ApiPropertyOptional({
+    description: 'The item is exempt from taxes',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isTaxExempt?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'The unit price includes the taxes',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isTaxInclusive?: boolean;
+
   @ApiPropertyOptional({
     description: 'Discount amount (as string for precision)',
   })
@@ -594,6 +661,12 @@ export class InvoiceStatsDto {
   })
   totalDraft: number;
 
+  @ApiProperty({
+    description: 'Total number of invoices waiting for approval',
+    example: 2,
+  })
+  totalPendingApproval: number;
+
   @ApiProperty({
     description: 'Total number of sent invoices',
     example: 15,
@@ -606,6 +679,12 @@ export class InvoiceStatsDto {
   })
   totalReviewed: number;
 
+  @ApiProperty({
+    description: 'Total number of invoices disputed by the employee',
+    example: 1,
+  })
+  totalDisputed: number;
+
   @ApiProperty({
     description: 'Total number of confirmed invoices',
     example: 12,
@@ -628,7 +707,7 @@ export class InvoiceStatsDto {
 export class CreateInvoiceScheduleDto {
   @ApiProperty({
     description: 'Frequency of invoice generation',
-    enum: ['MONTHLY', 'WEEKLY', 'BIWEEKLY', 'QUARTERLY'],
+    enum: ['MONTHLY', 'WEEKLY', 'BIWEEKLY', 'SEMI_MONTHLY', 'QUARTERLY'],
     example: 'MONTHLY',
   })
   @IsString()
@@ -683,7 +762,7 @@ export class CreateInvoiceScheduleDto {
 export class UpdateInvoiceScheduleDto {
   @ApiPropertyOptional({
     description: 'Frequency of invoice generation',
-    enum: ['MONTHLY', 'WEEKLY', 'BIWEEKLY', 'QUARTERLY'],
+    enum: ['MONTHLY', 'WEEKLY', 'BIWEEKLY', 'SEMI_MONTHLY', 'QUARTERLY'],
   })
   @IsOptional()
   @IsString()
@@ -773,3 +852,1066 @@ export class InvoiceScheduleResponseDto {
   @ApiProperty({ description: 'Updated at' })
   updatedAt: Date;
 }
+
+export class UpsertInvoiceNumberSequenceDto {
+  @ApiPropertyOptional({
+    description:
+      'Prefix replacing the {PREFIX} token, defaults to INV for employee invoices, B2B for B2B invoices and CN for credit notes',
+    example: 'INV',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 20)
+  @Matches(/^[A-Za-z0-9_\-\/.]+$/, {
+    message:
+      'Prefix can only contain letters, numbers, dashes, underscores, dots and slashes',
+  })
+  prefix?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Numbering format, supported tokens: {PREFIX}, {YYYY}, {YY}, {MM} and {SEQ} (required)',
+    example: '{PREFIX}-{YYYY}-{SEQ}',
+    default: '{PREFIX}-{SEQ}',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(5, 100)
+  format?: string;
+
+  @ApiPropertyOptional({
+    description: 'Zero padding of the sequence number',
+    example: 4,
+    default: 4,
+    minimum: 1,
+    maximum: 10,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(10)
+  padding?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'When the sequence restarts at 1 (the format must then contain the year, and the month for monthly sequences)',
+    enum: NumberingResetFrequencyEnum,
+    default: NumberingResetFrequencyEnum.NEVER,
+  })
+  @IsOptional()
+  @IsEnum(NumberingResetFrequencyEnum)
+  resetFrequency?: NumberingResetFrequencyEnum;
+
+  @ApiPropertyOptional({
+    description:
+      'Next sequence number to allocate (e.g. to continue an existing numbering)',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  nextNumber?: number;
+}
+
+export class InvoiceNumberSequenceResponseDto {
+  @ApiProperty({ description: 'Sequence UUID' })
+  uuid: string;
+
+  @ApiProperty({
+    description:
+      'Document type numbered by the sequence (invoices or credit notes)',
+    enum: NumberingSequenceTypeEnum,
+  })
+  type: NumberingSequenceTypeEnum;
+
+  @ApiProperty({ description: 'Prefix', example: 'INV' })
+  prefix: string;
+
+  @ApiProperty({ description: 'Format', example: '{PREFIX}-{YYYY}-{SEQ}' })
+  format: string;
+
+  @ApiProperty({ description: 'Zero padding of the sequence', example: 4 })
+  padding: number;
+
+  @ApiProperty({ description: 'Next sequence number', example: 42 })
+  nextNumber: number;
+
+  @ApiProperty({
+    description: 'Reset frequency',
+    enum: NumberingResetFrequencyEnum,
+  })
+  resetFrequency: NumberingResetFrequencyEnum;
+
+  @ApiProperty({
+    description: 'Invoice number the next invoice issued today would get',
+    example: 'INV-2026-0042',
+  })
+  nextInvoiceNumber: string;
+}
+
+export enum B2BInvoiceDirectionEnum {
+  OUTGOING = 'OUTGOING', // Invoices sent by the company
+  INCOMING = 'INCOMING', // Invoices received by the company
+}
+
+export class EarlyPaymentDiscountDto {
+  @ApiProperty({
+    description: 'Discount as percentage of the amount due (as string)',
+    example: '2.00',
+  })
+  @IsString()
+  @Matches(/^\d{1,2}(\.\d{1,2})?$/, {
+    message: 'Percentage must be a valid number with up to 2 decimal places',
+  })
+  percentage: string;
+
+  @ApiProperty({
+    description: 'Number of days after the issue date the discount applies',
+    example: 10,
+  })
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  withinDays: number;
+}
+
+export class LateFeeDto {
+  @ApiProperty({
+    description: 'Fixed amount, or percentage of the amount due',
+    enum: LateFeeTypeEnum,
+    example: LateFeeTypeEnum.PERCENTAGE,
+  })
+  @IsEnum(LateFeeTypeEnum)
+  type: LateFeeTypeEnum;
+
+  @ApiProperty({
+    description: 'Fee amount, or percentage for percentage fees (as string)',
+    example: '1.50',
+  })
+  @IsString()
+  @Matches(/^\d+(\.\d{1,2})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 2 decimal places',
+  })
+  amount: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Number of days after the due date before the fee is added to the invoice',
+    example: 5,
+    default: 0,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  graceDays?: number = 0;
+}
+
+export class PaymentTermsDto {
+  @ApiProperty({
+    description: 'Number of days after the issue date the invoice is due',
+    example: 30,
+  })
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  netDays: number;
+
+  @ApiPropertyOptional({
+    description: 'Discount when the invoice is paid early, e.g. 2/10 net 30',
+    type: EarlyPaymentDiscountDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => EarlyPaymentDiscountDto)
+  earlyPaymentDiscount?: EarlyPaymentDiscountDto;
+
+  @ApiPropertyOptional({
+    description: 'Fee added once the invoice is overdue',
+    type: LateFeeDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => LateFeeDto)
+  lateFee?: LateFeeDto;
+}
+
+export class CreateB2BInvoiceDto {
+  @ApiPropertyOptional({
+    description:
+      'ID of the registered company being invoiced (leave empty to invoice an unregistered company by email)',
+    example: 2,
+  })
+  @IsOptional()
+  @IsInt()
+  toCompanyId?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Name of the unregistered company being invoiced (required without toCompanyId)',
+    example: 'Globex Corporation',
+  })
+  @ValidateIf((dto) => !dto.toCompanyId)
+  @IsString()
+  @IsNotEmpty()
+  @Length(2, 255)
+  toCompanyName?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Email of the unregistered company being invoiced (required without toCompanyId)',
+    example: 'billing@globex.com',
+  })
+  @ValidateIf((dto) => !dto.toCompanyId)
+  @IsEmail()
+  toCompanyEmail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Address of the unregistered company',
+    example: '742 Evergreen Terrace, Springfield',
+  })
+  @IsOptional()
+  @IsString()
+  toCompanyAddress?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax ID of the unregistered company',
+    example: 'US123456789',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  toCompanyTaxId?: string;
+
+  @ApiPropertyOptional({
+    description: 'Contact person of the unregistered company',
+    example: 'Hank Scorpio',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  toCompanyContactName?: string;
+
+  @ApiProperty({
+    description: 'Currency of the invoice',
+    example: 'USD',
+  })
+  @IsEnum(Currency)
+  currency: Currency;
+
+  @ApiPropertyOptional({
+    description:
+      'Invoice due date (required without payment terms, the net days of the payment terms set it otherwise)',
+    example: '2024-01-31T23:59:59Z',
+  })
+  @ValidateIf((dto) => !dto.paymentTerms)
+  @IsDateString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment terms: net days, early payment discount and late fee',
+    type: PaymentTermsDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => PaymentTermsDto)
+  paymentTerms?: PaymentTermsDto;
+
+  @ApiProperty({
+    description: 'Invoice items, the invoice totals are calculated from them',
+    type: [CreateInvoiceItemDto],
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CreateInvoiceItemDto)
+  items: CreateInvoiceItemDto[];
+
+  @ApiProperty({
+    description: 'Payment network details',
+    type: NetworkDto,
+  })
+  @ValidateNested()
+  @Type(() => NetworkDto)
+  network: NetworkDto;
+
+  @ApiProperty({
+    description: 'Payment token details',
+    type: TokenDto,
+  })
+  @ValidateNested()
+  @Type(() => TokenDto)
+  token: TokenDto;
+
+  @ApiProperty({
+    description: 'Wallet address receiving the payment',
+    example: 'mtst1qzxh4e7uwlu5xyrnms9d5tfm7v2y7u6a',
+  })
+  @IsString()
+  @IsNotEmpty()
+  walletAddress: string;
+
+  @ApiPropertyOptional({
+    description: 'CC recipients of the invoice email',
+    example: ['finance@globex.com'],
+  })
+  @IsOptional()
+  @IsArray()
+  @IsEmail({}, { each: true })
+  emailCc?: string[];
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata',
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class B2BInvoiceQueryDto {
+  @ApiPropertyOptional({
+    description: 'Outgoing (sent) or incoming (received) invoices',
+    enum: B2BInvoiceDirectionEnum,
+    default: B2BInvoiceDirectionEnum.OUTGOING,
+  })
+  @IsOptional()
+  @IsEnum(B2BInvoiceDirectionEnum)
+  direction?: B2BInvoiceDirectionEnum = B2BInvoiceDirectionEnum.OUTGOING;
+
+  @ApiPropertyOptional({
+    description: 'Page number for pagination',
+    example: 1,
+    minimum: 1,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  page?: number = 1;
+
+  @ApiPropertyOptional({
+    description: 'Number of items per page',
+    example: 10,
+    minimum: 1,
+    maximum: 100,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(1)
+  @Max(100)
+  limit?: number = 10;
+
+  @ApiPropertyOptional({
+    description: 'Filter by status',
+    enum: InvoiceStatusEnum,
+  })
+  @IsOptional()
+  @IsEnum(InvoiceStatusEnum)
+  status?: InvoiceStatusEnum;
+
+  @ApiPropertyOptional({
+    description: 'Search by invoice number or company name',
+  })
+  @IsOptional()
+  @IsString()
+  search?: string;
+}
+
+export class B2BInvoiceScheduleTemplateDto extends OmitType(
+  CreateB2BInvoiceDto,
+  ['dueDate'] as const,
+) {
+  @ApiPropertyOptional({
+    description:
+      'Number of days after the issue date the invoices are due (required without payment terms)',
+    example: 30,
+  })
+  @ValidateIf((dto) => !dto.paymentTerms)
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  dueInDays?: number;
+
+  @ApiPropertyOptional({
+    description: 'Payment terms printed on the invoices',
+    example: 'Monthly retainer, payable within 30 days',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 5000)
+  terms?: string;
+}
+
+export class CreateB2BInvoiceScheduleDto {
+  @ApiProperty({
+    description: 'Recipient, items and terms of the recurring invoices',
+    type: B2BInvoiceScheduleTemplateDto,
+  })
+  @ValidateNested()
+  @Type(() => B2BInvoiceScheduleTemplateDto)
+  template: B2BInvoiceScheduleTemplateDto;
+
+  @ApiProperty({
+    description: 'Frequency of the invoices',
+    enum: PayFrequencyEnum,
+    example: PayFrequencyEnum.MONTHLY,
+  })
+  @IsEnum(PayFrequencyEnum)
+  frequency: PayFrequencyEnum;
+
+  @ApiProperty({
+    description: 'Issue date of the first invoice',
+    example: '2026-05-01T09:00:00Z',
+  })
+  @IsDateString()
+  startDate: string;
+
+  @ApiPropertyOptional({
+    description: 'No invoice is issued after this date',
+    example: '2026-12-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of invoices to issue',
+    example: 12,
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxOccurrences?: number;
+}
+
+export class UpdateB2BInvoiceScheduleDto {
+  @ApiPropertyOptional({
+    description: 'Recipient, items and terms of the next invoices',
+    type: B2BInvoiceScheduleTemplateDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => B2BInvoiceScheduleTemplateDto)
+  template?: B2BInvoiceScheduleTemplateDto;
+
+  @ApiPropertyOptional({
+    description: 'Frequency of the invoices',
+    enum: PayFrequencyEnum,
+  })
+  @IsOptional()
+  @IsEnum(PayFrequencyEnum)
+  frequency?: PayFrequencyEnum;
+
+  @ApiPropertyOptional({
+    description: 'No invoice is issued after this date',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Number of invoices to issue',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxOccurrences?: number;
+
+  @ApiPropertyOptional({
+    description: 'Pause or resume the schedule',
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+export class PublicInvoicePaymentDto {
+  @ApiProperty({
+    description: 'The address of the payer',
+    example: 'mtst1qzxh4e7uwlu5xyrnms9d5tfm7v2y7u6a',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^(mt|mm)[a-zA-Z0-9]+$/, {
+    message: 'payer must be a valid address starting with mt or mm',
+  })
+  @MinLength(3, { message: 'payer address is too short' })
+  payer: string;
+
+  @ApiProperty({
+    description: 'Transaction ID of the on-chain payment',
+    example: '0x123...',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @Length(1, 100)
+  txid: string;
+}
+
+export class InvoiceTaxBreakdownDto {
+  @ApiProperty({ description: 'Name of the tax', example: 'VAT' })
+  name: string;
+
+  @ApiProperty({ description: 'Tax rate as percentage', example: '20.00' })
+  rate: string;
+
+  @ApiProperty({ description: 'Compound tax' })
+  isCompound: boolean;
+
+  @ApiProperty({ description: 'Amount the tax applies to', example: '1000.00' })
+  taxableAmount: string;
+
+  @ApiProperty({ description: 'Tax amount', example: '200.00' })
+  amount: string;
+}
+
+export class PublicInvoiceResponseDto {
+  @ApiProperty({ description: 'Invoice number', example: 'INV-2026-0042' })
+  invoiceNumber: string;
+
+  @ApiProperty({ description: 'Invoice status', enum: InvoiceStatusEnum })
+  status: InvoiceStatusEnum;
+
+  @ApiProperty({ description: 'Issue date' })
+  issueDate: Date;
+
+  @ApiProperty({ description: 'Due date' })
+  dueDate: Date;
+
+  @ApiProperty({ description: 'Sender details' })
+  fromDetails: Record<string, any>;
+
+  @ApiProperty({ description: 'Recipient details' })
+  toDetails: Record<string, any>;
+
+  @ApiProperty({ description: 'Invoice items' })
+  items: Record<string, any>[];
+
+  @ApiProperty({ description: 'Subtotal', example: '1000.00' })
+  subtotal: string;
+
+  @ApiProperty({ description: 'Tax rate', example: '0.00' })
+  taxRate: string;
+
+  @ApiProperty({ description: 'Tax amount', example: '0.00' })
+  taxAmount: string;
+
+  @ApiPropertyOptional({
+    description: 'Total of each tax over the items',
+    type: [InvoiceTaxBreakdownDto],
+  })
+  taxBreakdown: InvoiceTaxBreakdownDto[] | null;
+
+  @ApiProperty({ description: 'Discount', example: '0.00' })
+  discount: string;
+
+  @ApiProperty({ description: 'Total amount', example: '1000.00' })
+  total: string;
+
+  @ApiPropertyOptional({
+    description: 'Payment terms of the invoice',
+    type: PaymentTermsDto,
+  })
+  paymentTerms: PaymentTermsDto | null;
+
+  @ApiProperty({
+    description: 'Early payment discount taken when the invoice was paid',
+    example: '0.00',
+  })
+  earlyPaymentDiscount: string;
+
+  @ApiProperty({
+    description:
+      'Amount to pay today, after the early payment discount while it is available',
+    example: '980.00',
+  })
+  amountDue: string;
+
+  @ApiProperty({ description: 'Currency', example: 'USD' })
+  currency: string;
+
+  @ApiProperty({ description: 'Network to pay on', type: NetworkDto })
+  paymentNetwork: NetworkDto;
+
+  @ApiProperty({ description: 'Token to pay with', type: TokenDto })
+  paymentToken: TokenDto;
+
+  @ApiProperty({ description: 'Wallet address to pay to' })
+  paymentWalletAddress: string;
+
+  @ApiPropertyOptional({ description: 'When the invoice was paid' })
+  paidAt: Date | null;
+
+  @ApiPropertyOptional({ description: 'Transaction ID of the payment' })
+  paymentTransactionHash: string | null;
+
+  @ApiPropertyOptional({
+    description:
+      'When the payment was recorded, the invoice is paid once the issuer confirms it',
+  })
+  paymentClaimedAt: Date | null;
+}
+
+export class CreditNoteItemDto {
+  @ApiProperty({
+    description: 'UUID of the credited invoice item',
+    example: 'clx1234567890abcdef',
+  })
+  @IsString()
+  @IsNotEmpty()
+  invoiceItemUUID: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Credited quantity (as string for precision), defaults to the whole item',
+    example: '1',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d+(\.\d{1,8})?$/, {
+    message:
+      'Quantity must be a valid positive number with up to 8 decimal places',
+  })
+  quantity?: string;
+}
+
+export class CreateCreditNoteDto {
+  @ApiPropertyOptional({
+    description: 'Reason of the credit note',
+    example: 'Two days of service were not delivered',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 1000)
+  reason?: string;
+
+  @ApiPropertyOptional({
+    description: 'Credited invoice items (required without amount)',
+    type: [CreditNoteItemDto],
+  })
+  @ValidateIf((dto) => !dto.amount)
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CreditNoteItemDto)
+  items?: CreditNoteItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Credited amount (required without items)',
+    example: '250.00',
+  })
+  @ValidateIf((dto) => !dto.items)
+  @IsString()
+  @Matches(/^\d+(\.\d{1,2})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 2 decimal places',
+  })
+  amount?: string;
+}
+
+export class ProposedInvoiceChangesDto {
+  @ApiPropertyOptional({
+    description: 'Corrected invoice items',
+    type: [CreateInvoiceItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CreateInvoiceItemDto)
+  items?: CreateInvoiceItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Corrected due date',
+    example: '2024-01-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Corrected wallet address to be paid to',
+    example: 'mtst1qzxh4e7uwlu5xyrnms9d5tfm7v2y7u6a',
+  })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  walletAddress?: string;
+}
+
+export class DisputeInvoiceDto {
+  @ApiProperty({
+    description: 'Reason of the dispute',
+    example: 'The overtime hours of the last week are missing',
+  })
+  @IsString()
+  @Length(1, 2000)
+  reason: string;
+
+  @ApiPropertyOptional({
+    description: 'Corrections proposed by the employee',
+    type: ProposedInvoiceChangesDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => ProposedInvoiceChangesDto)
+  proposedChanges?: ProposedInvoiceChangesDto;
+}
+
+export class ReviseInvoiceDto {
+  @ApiProperty({
+    description: 'Answer to the dispute, explaining the revision',
+    example: 'The overtime hours have been added',
+  })
+  @IsString()
+  @Length(1, 2000)
+  message: string;
+
+  @ApiPropertyOptional({
+    description: 'Revised invoice items, replacing the current ones',
+    type: [CreateInvoiceItemDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => CreateInvoiceItemDto)
+  items?: CreateInvoiceItemDto[];
+
+  @ApiPropertyOptional({
+    description: 'Revised due date',
+    example: '2024-01-31T23:59:59Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+}
+
+export class CreateInvoiceCommentDto {
+  @ApiProperty({
+    description: 'Comment on the invoice',
+    example: 'Could you detail the hours of the second week?',
+  })
+  @IsString()
+  @Length(1, 2000)
+  message: string;
+}
+
+export class CreateInvoiceTemplateDto {
+  @ApiProperty({
+    description: 'Name of the template',
+    example: 'Default',
+  })
+  @IsString()
+  @Length(1, 100)
+  name: string;
+
+  @ApiPropertyOptional({
+    description: 'URL of the logo shown in the invoice header',
+    example: 'https://example.com/logo.png',
+  })
+  @IsOptional()
+  @IsUrl()
+  @Length(1, 500)
+  logoUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Accent colour of titles, table headers and totals',
+    example: '#007bff',
+    default: '#007bff',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'Accent colour must be a hex colour, e.g. #007bff',
+  })
+  accentColor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Footer text, used when the invoice has no footer of its own',
+    example: 'Thank you for your business!',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 2000)
+  footer?: string;
+
+  @ApiPropertyOptional({
+    description: 'Terms text, used when the invoice has no terms of its own',
+    example: 'Payment is due within 30 days.',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 5000)
+  terms?: string;
+
+  @ApiPropertyOptional({
+    description: 'Locale of the dates (BCP 47 language tag)',
+    example: 'en-US',
+    default: 'en-US',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(2, 20)
+  locale?: string;
+
+  @ApiPropertyOptional({
+    description: 'Date format, LOCALE formats dates for the template locale',
+    enum: InvoiceDateFormatEnum,
+    default: InvoiceDateFormatEnum.LOCALE,
+  })
+  @IsOptional()
+  @IsEnum(InvoiceDateFormatEnum)
+  dateFormat?: InvoiceDateFormatEnum;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply the template to the employee invoices of the company (replaces the current one)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isEmployeeDefault?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply the template to the B2B invoices of the company (replaces the current one)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isB2BDefault?: boolean;
+}
+
+export class UpdateInvoiceTemplateDto {
+  @ApiPropertyOptional({
+    description: 'Name of the template',
+    example: 'Default',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 100)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'URL of the logo shown in the invoice header',
+    example: 'https://example.com/logo.png',
+  })
+  @IsOptional()
+  @IsUrl()
+  @Length(1, 500)
+  logoUrl?: string;
+
+  @ApiPropertyOptional({
+    description: 'Accent colour of titles, table headers and totals',
+    example: '#007bff',
+    default: '#007bff',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^#[0-9a-fA-F]{6}$/, {
+    message: 'Accent colour must be a hex colour, e.g. #007bff',
+  })
+  accentColor?: string;
+
+  @ApiPropertyOptional({
+    description: 'Footer text, used when the invoice has no footer of its own',
+    example: 'Thank you for your business!',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 2000)
+  footer?: string;
+
+  @ApiPropertyOptional({
+    description: 'Terms text, used when the invoice has no terms of its own',
+    example: 'Payment is due within 30 days.',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 5000)
+  terms?: string;
+
+  @ApiPropertyOptional({
+    description: 'Locale of the dates (BCP 47 language tag)',
+    example: 'en-US',
+    default: 'en-US',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(2, 20)
+  locale?: string;
+
+  @ApiPropertyOptional({
+    description: 'Date format, LOCALE formats dates for the template locale',
+    enum: InvoiceDateFormatEnum,
+    default: InvoiceDateFormatEnum.LOCALE,
+  })
+  @IsOptional()
+  @IsEnum(InvoiceDateFormatEnum)
+  dateFormat?: InvoiceDateFormatEnum;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply the template to the employee invoices of the company (replaces the current one)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isEmployeeDefault?: boolean;
+
+  @ApiPropertyOptional({
+    description:
+      'Apply the template to the B2B invoices of the company (replaces the current one)',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isB2BDefault?: boolean;
+}
+
+export class CreateTaxRateDto {
+  @ApiProperty({
+    description: 'Name of the tax',
+    example: 'VAT',
+  })
+  @IsString()
+  @Length(1, 50)
+  name: string;
+
+  @ApiProperty({
+    description: 'Tax rate as percentage (as string)',
+    example: '20.00',
+  })
+  @IsString()
+  @Matches(/^\d{1,3}(\.\d{1,3})?$/, {
+    message: 'Tax rate must be a valid number with up to 3 decimal places',
+  })
+  rate: string;
+
+  @ApiPropertyOptional({
+    description: 'Description of the tax',
+    example: 'Standard rate',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Compound tax, applied on the amount including the other taxes of the item',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isCompound?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Applied to the items created without taxes of their own',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class UpdateTaxRateDto {
+  @ApiPropertyOptional({
+    description: 'Name of the tax',
+    example: 'VAT',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 50)
+  name?: string;
+
+  @ApiPropertyOptional({
+    description: 'Tax rate as percentage (as string)',
+    example: '20.00',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d{1,3}(\.\d{1,3})?$/, {
+    message: 'Tax rate must be a valid number with up to 3 decimal places',
+  })
+  rate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Description of the tax',
+    example: 'Standard rate',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 255)
+  description?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Compound tax, applied on the amount including the other taxes of the item',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isCompound?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Applied to the items created without taxes of their own',
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+}
+
+export class DunningRuleDto {
+  @ApiProperty({
+    description:
+      'Days from the due date the reminder is sent: negative before, 0 on the due date, positive once overdue',
+    example: 7,
+  })
+  @IsInt()
+  @Min(-90)
+  @Max(365)
+  offsetDays: number;
+
+  @ApiPropertyOptional({
+    description: 'Whether the reminder is sent',
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+
+  @ApiPropertyOptional({
+    description: 'Message added to the reminder email',
+    example: 'Please contact billing@acme.com if you have any question.',
+  })
+  @IsOptional()
+  @IsString()
+  @Length(1, 2000)
+  message?: string;
+}
+
+export class UpdateDunningRulesDto {
+  @ApiProperty({
+    description:
+      'Payment reminders of the company, replacing the current ones. The last overdue reminder is the final notice',
+    type: [DunningRuleDto],
+  })
+  @IsArray()
+  @ArrayMaxSize(10)
+  @ValidateNested({ each: true })
+  @Type(() => DunningRuleDto)
+  rules: DunningRuleDto[];
+}
+
+export interface InvoiceAttachmentFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
@@ -3,8 +3,25 @@ import { InvoiceController } from './invoice.controller';
 import { InvoiceService } from './services/invoice.service';
 import { InvoiceRepository } from './repositories/invoice.repository';
 import { InvoiceItemRepository } from './repositories/invoice-item.repository';
+import { InvoiceCommentRepository } from './repositories/invoice-comment.repository';
 import { InvoiceItemService } from './services/invoice-item.service';
 import { InvoiceScheduleRepository } from './repositories/invoice-schedule.repository';
+import { InvoiceNumberSequenceRepository } from './repositories/invoice-number-sequence.repository';
+import { InvoiceNumberSequenceService } from './services/invoice-number-sequence.service';
+import { B2BInvoiceService } from './services/b2b-invoice.service';
+import { CreditNoteRepository } from './repositories/credit-note.repository';
+import { CreditNoteService } from './services/credit-note.service';
+import { InvoiceTemplateRepository } from './repositories/invoice-template.repository';
+import { InvoiceTemplateService } from './services/invoice-template.service';
+import { TaxRateRepository } from './repositories/tax-rate.repository';
+import { TaxRateService } from './services/tax-rate.service';
+import { DunningRuleRepository } from './repositories/dunning-rule.repository';
+import { InvoiceReminderRepository } from './repositories/invoice-reminder.repository';
+import { InvoiceEventRepository } from './repositories/invoice-event.repository';
+import { DunningService } from './services/dunning.service';
+import { LateFeeService } from './services/late-fee.service';
+import { InvoiceAttachmentRepository } from './repositories/invoice-attachment.repository';
+import { InvoiceAttachmentService } from './services/invoice-attachment.service';
 import { InvoiceScheduleService } from './services/invoice-schedule.service';
 import { InvoiceSchedulerService } from './services/invoice-scheduler.service';
 import { PdfService } from './services/pdf.service';
@@ -16,16 +33,20 @@ import { CompanyModule } from '../company/company.module';
 import { EmployeeModule } from '../employee/employee.module';
 import { BillModule } from '../bill/bill.module';
 import { TeamMemberModule } from '../team-member/team-member.module';
+import { NotificationModule } from '../notification/notification.module';
+import { StorageModule } from '../storage/storage.module';
 
 @Module({
   imports: [
     PrismaModule,
-    PayrollModule,
+    forwardRef(() => PayrollModule),
     MailModule,
     AuthModule,
     CompanyModule,
     EmployeeModule,
     TeamMemberModule,
+    NotificationModule,
+    StorageModule,
     forwardRef(() => BillModule),
   ],
   controllers: [InvoiceController],
@@ -34,9 +55,26 @@ import { TeamMemberModule } from '../team-member/team-member.module';
     InvoiceRepository,
     InvoiceItemRepository,
     InvoiceItemService,
+    InvoiceCommentRepository,
     InvoiceScheduleRepository,
     InvoiceScheduleService,
     InvoiceSchedulerService,
+    InvoiceNumberSequenceRepository,
+    InvoiceNumberSequenceService,
+    B2BInvoiceService,
+    CreditNoteRepository,
+    CreditNoteService,
+    InvoiceTemplateRepository,
+    InvoiceTemplateService,
+    TaxRateRepository,
+    TaxRateService,
+    DunningRuleRepository,
+    InvoiceReminderRepository,
+    InvoiceEventRepository,
+    DunningService,
+    LateFeeService,
+    InvoiceAttachmentRepository,
+    InvoiceAttachmentService,
     PdfService,
   ],
   exports: [
@@ -44,8 +82,26 @@ import { TeamMemberModule } from '../team-member/team-member.module';
     InvoiceRepository,
     InvoiceItemRepository,
     InvoiceItemService,
+    InvoiceCommentRepository,
     InvoiceScheduleRepository,
     InvoiceScheduleService,
+    InvoiceSchedulerService,
+    InvoiceNumberSequenceRepository,
+    InvoiceNumberSequenceService,
+    B2BInvoiceService,
+    CreditNoteRepository,
+    CreditNoteService,
+    InvoiceTemplateRepository,
+    InvoiceTemplateService,
+    TaxRateRepository,
+    TaxRateService,
+    DunningRuleRepository,
+    InvoiceReminderRepository,
+    InvoiceEventRepository,
+    DunningService,
+    LateFeeService,
+    InvoiceAttachmentRepository,
+    InvoiceAttachmentService,
     PdfService,
   ],
 })
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { CreditNoteModel } from '../../../database/generated/models/CreditNote';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+export type CreditNoteWithInvoice = Prisma.CreditNoteGetPayload<{
+  include: {
+    invoice: {
+      include: {
+        payroll: true;
+      };
+    };
+  };
+}>;
+
+/**
+ * A credited line of a credit note, stored in `CreditNote.items`
+ */
+export interface CreditNoteLine {
+  invoiceItemUUID: string | null;
+  description: string;
+  quantity: string;
+  unitPrice: string;
+  amount: string;
+}
+
+@Injectable()
+export class CreditNoteRepository extends BaseRepository<
+  CreditNoteModel,
+  Prisma.CreditNoteWhereInput,
+  Prisma.CreditNoteCreateInput,
+  Prisma.CreditNoteUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(tx?: PrismaTransactionClient): PrismaClient['creditNote'] {
+    return tx ? tx.creditNote : this.prisma.creditNote;
+  }
+
+  protected getModelName(): string {
+    return 'CreditNote';
+  }
+
+  async findByUUID(
+    uuid: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<CreditNoteWithInvoice | null> {
+    const model = this.getModel(tx);
+    return model.findUnique({
+      where: { uuid },
+      include: {
+        invoice: {
+          include: {
+            payroll: true,
+          },
+        },
+      },
+    });
+  }
+
+  /**
+   * Find the credit notes issued against an invoice
+   */
+  async findByInvoiceId(
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<CreditNoteModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { invoiceId },
+      orderBy: { issueDate: 'asc' },
+    });
+  }
+
+  /**
+   * Generate a legacy credit note number, sequenced per issuing company.
+   * Only used when the company has not configured a numbering sequence.
+   */
+  async generateCreditNoteNumber(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<string> {
+    const model = this.getModel(tx);
+    const count = await model.count({
+      where: { companyId },
+    });
+    const sequence = String(count + 1).padStart(4, '0');
+    return `CN-${sequence}`;
+  }
+
+  /**
+   * Check whether a company already issued a credit note with this number
+   */
+  async isCreditNoteNumberTaken(
+    companyId: number,
+    creditNoteNumber: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<boolean> {
+    const model = this.getModel(tx);
+    const count = await model.count({
+      where: { companyId, creditNoteNumber },
+    });
+    return count > 0;
+  }
+}
@@ -0,0 +1,73 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { DunningRuleModel } from '../../../database/generated/models/DunningRule';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class DunningRuleRepository extends BaseRepository<
+  DunningRuleModel,
+  Prisma.DunningRuleWhereInput,
+  Prisma.DunningRuleCreateInput,
+  Prisma.DunningRuleUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['dunningRule'] {
+    return tx ? tx.dunningRule : this.prisma.dunningRule;
+  }
+
+  protected getModelName(): string {
+    return 'DunningRule';
+  }
+
+  /**
+   * Find the dunning rules of a company, earliest step first
+   */
+  async findByCompanyId(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<DunningRuleModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { companyId },
+      orderBy: { offsetDays: 'asc' },
+    });
+  }
+
+  /**
+   * Find the active dunning rules of every company, earliest step first
+   */
+  async findActive(tx?: PrismaTransactionClient): Promise<DunningRuleModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { isActive: true },
+      orderBy: [{ companyId: 'asc' }, { offsetDays: 'asc' }],
+    });
+  }
+
+  /**
+   * Replace the dunning rules of a company
+   */
+  async replaceForCompany(
+    companyId: number,
+    rules: Array<{ offsetDays: number; isActive: boolean; message?: string }>,
+    tx: PrismaTransactionClient,
+  ): Promise<DunningRuleModel[]> {
+    const model = this.getModel(tx);
+
+    await model.deleteMany({ where: { companyId } });
+    await model.createMany({
+      data: rules.map((rule) => ({ ...rule, companyId })),
+    });
+
+    return this.findByCompanyId(companyId, tx);
+  }
+}
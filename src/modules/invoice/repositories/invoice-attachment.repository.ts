@@ -0,0 +1,74 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceAttachmentModel } from '../../../database/generated/models/InvoiceAttachment';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class InvoiceAttachmentRepository extends BaseRepository<
+  InvoiceAttachmentModel,
+  Prisma.InvoiceAttachmentWhereInput,
+  Prisma.InvoiceAttachmentCreateInput,
+  Prisma.InvoiceAttachmentUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceAttachment'] {
+    return tx ? tx.invoiceAttachment : this.prisma.invoiceAttachment;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceAttachment';
+  }
+
+  /**
+   * Find the attachments of a bill: the documents attached to its invoice and to the bill itself, oldest first
+   */
+  async findByBill(
+    bill: { id: number; invoiceId: number },
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceAttachmentModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        invoiceId: bill.invoiceId,
+        OR: [{ billId: null }, { billId: bill.id }],
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find an attachment of an invoice
+   */
+  async findByUUIDAndInvoiceId(
+    uuid: string,
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceAttachmentModel | null> {
+    const model = this.getModel(tx);
+    return model.findFirst({
+      where: { uuid, invoiceId },
+    });
+  }
+
+  /**
+   * Count the attachments of an invoice, including the ones attached to its bill
+   */
+  async countByInvoiceId(
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<number> {
+    const model = this.getModel(tx);
+    return model.count({
+      where: { invoiceId },
+    });
+  }
+}
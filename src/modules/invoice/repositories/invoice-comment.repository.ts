@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceCommentModel } from '../../../database/generated/models/InvoiceComment';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class InvoiceCommentRepository extends BaseRepository<
+  InvoiceCommentModel,
+  Prisma.InvoiceCommentWhereInput,
+  Prisma.InvoiceCommentCreateInput,
+  Prisma.InvoiceCommentUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceComment'] {
+    return tx ? tx.invoiceComment : this.prisma.invoiceComment;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceComment';
+  }
+
+  /**
+   * Find the comment thread of an invoice, oldest first
+   */
+  async findByInvoiceId(
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceCommentModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { invoiceId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
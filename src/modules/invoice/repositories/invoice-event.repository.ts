@@ -0,0 +1,156 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceEventModel } from '../../../database/generated/models/InvoiceEvent';
+import {
+  InvoiceEventActionEnum,
+  InvoiceEventActorEnum,
+  Prisma,
+  PrismaClient,
+} from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+import { JsonValue } from '@prisma/client/runtime/client';
+
+/**
+ * Who performed an invoice event, system events have no email
+ */
+export interface InvoiceEventActor {
+  type: InvoiceEventActorEnum;
+  email?: string | null;
+}
+
+export const SYSTEM_ACTOR: InvoiceEventActor = {
+  type: InvoiceEventActorEnum.SYSTEM,
+};
+
+/**
+ * Changed fields of an event, { field: { before, after } }
+ */
+export type InvoiceEventChanges = Record<
+  string,
+  { before: unknown; after: unknown }
+>;
+
+/**
+ * Fields of a record that differ between two versions, null when nothing changed.
+ * Fields missing from the new version are not compared.
+ */
+export function getChanges<T extends object>(
+  before: T,
+  after: Partial<T>,
+  fields: (keyof T & string)[],
+): InvoiceEventChanges | null {
+  const changes: InvoiceEventChanges = {};
+
+  for (const field of fields) {
+    if (
+      after[field] !== undefined &&
+      JSON.stringify(before[field] ?? null) !==
+        JSON.stringify(after[field] ?? null)
+    ) {
+      changes[field] = {
+        before: before[field] ?? null,
+        after: after[field] ?? null,
+      };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+@Injectable()
+export class InvoiceEventRepository extends BaseRepository<
+  InvoiceEventModel,
+  Prisma.InvoiceEventWhereInput,
+  Prisma.InvoiceEventCreateInput,
+  Prisma.InvoiceEventUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceEvent'] {
+    return tx ? tx.invoiceEvent : this.prisma.invoiceEvent;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceEvent';
+  }
+
+  /**
+   * Append an event to the timeline of an invoice, events are never updated or deleted
+   */
+  async createEvent(
+    invoice: Prisma.InvoiceWhereUniqueInput,
+    action: InvoiceEventActionEnum,
+    actor: InvoiceEventActor,
+    options?: {
+      billId?: number;
+      changes?: InvoiceEventChanges | null;
+      metadata?: Record<string, unknown>;
+    },
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceEventModel> {
+    return this.create(
+      {
+        invoice: { connect: invoice },
+        ...(options?.billId && { bill: { connect: { id: options.billId } } }),
+        action,
+        actorType: actor.type,
+        actorEmail: actor.email ?? null,
+        changes: (options?.changes ?? undefined) as unknown as JsonValue,
+        metadata: options?.metadata as unknown as JsonValue,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Append the same event to several invoices (or bills), used by the scheduled jobs
+   */
+  async createEvents(
+    targets: { invoiceId: number; billId?: number }[],
+    action: InvoiceEventActionEnum,
+    actor: InvoiceEventActor,
+    tx?: PrismaTransactionClient,
+  ): Promise<number> {
+    if (targets.length === 0) {
+      return 0;
+    }
+
+    const model = this.getModel(tx);
+    const now = new Date();
+
+    const result = await model.createMany({
+      data: targets.map(({ invoiceId, billId }) => ({
+        createdAt: now,
+        updatedAt: now,
+        invoiceId,
+        billId,
+        action,
+        actorType: actor.type,
+        actorEmail: actor.email ?? null,
+      })),
+    });
+
+    return result.count;
+  }
+
+  /**
+   * Find the timeline of an invoice, including the events of its bill, oldest first
+   */
+  async findByInvoiceId(
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceEventModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { invoiceId },
+      orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
+    });
+  }
+}
@@ -6,6 +6,13 @@ import {
   PrismaTransactionClient,
 } from 'src/database/base.repository';
 import { ErrorInvoice } from 'src/common/constants/errors';
+import {
+  AppliedTax,
+  buildTaxBreakdown,
+  calculateLineItemTaxes,
+  getItemTaxDefinitions,
+  TaxBreakdownLine,
+} from 'src/common/utils/tax.util';
 
 export interface CreateInvoiceItemData {
   invoiceUuid: string;
@@ -15,6 +22,9 @@ export interface CreateInvoiceItemData {
   unit?: string;
   taxRate?: string;
   discount?: string;
+  taxes?: AppliedTax[];
+  isTaxExempt?: boolean;
+  isTaxInclusive?: boolean;
   total: string;
   order?: number;
   metadata?: any;
@@ -27,6 +37,9 @@ export interface UpdateInvoiceItemData {
   unit?: string;
   taxRate?: string;
   discount?: string;
+  taxes?: AppliedTax[];
+  isTaxExempt?: boolean;
+  isTaxInclusive?: boolean;
   total?: string;
   order?: number;
   metadata?: any;
@@ -86,6 +99,9 @@ export class InvoiceItemRepository extends BaseRepository<
         unit: data.unit,
         taxRate: data.taxRate || '0.00',
         discount: data.discount || '0.00',
+        taxes: data.taxes as any,
+        isTaxExempt: data.isTaxExempt,
+        isTaxInclusive: data.isTaxInclusive,
         total: data.total,
         order: data.order ?? 0,
         metadata: data.metadata,
@@ -113,6 +129,9 @@ export class InvoiceItemRepository extends BaseRepository<
         unit: item.unit,
         taxRate: item.taxRate || '0.00',
         discount: item.discount || '0.00',
+        taxes: item.taxes as any,
+        isTaxExempt: item.isTaxExempt,
+        isTaxInclusive: item.isTaxInclusive,
         total: item.total,
         order: item.order ?? index,
         metadata: item.metadata,
@@ -161,7 +180,7 @@ export class InvoiceItemRepository extends BaseRepository<
     const model = this.getModel(tx);
     return model.update({
       where: { id },
-      data,
+      data: { ...data, taxes: data.taxes as any },
     });
   }
 
@@ -177,7 +196,7 @@ export class InvoiceItemRepository extends BaseRepository<
       updates.map(({ id, data }) =>
         model.update({
           where: { id },
-          data,
+          data: { ...data, taxes: data.taxes as any },
         }),
       ),
     );
@@ -228,7 +247,7 @@ export class InvoiceItemRepository extends BaseRepository<
   }
 
   /**
-   * Calculate totals for invoice items
+   * Calculate totals for invoice items, with the total of each tax
    */
   async calculateTotals(
     invoiceUuid: string,
@@ -238,36 +257,51 @@ export class InvoiceItemRepository extends BaseRepository<
     totalTax: string;
     totalDiscount: string;
     total: string;
+    taxRate: string;
+    taxBreakdown: TaxBreakdownLine[];
   }> {
     const items = await this.findByInvoiceUuid(invoiceUuid, tx);
 
     let subtotal = 0;
     let totalTax = 0;
     let totalDiscount = 0;
+    let total = 0;
+    const itemTaxes: AppliedTax[][] = [];
+    const itemTaxRates = new Set<string>();
 
     for (const item of items) {
-      const quantity = parseFloat(item.quantity);
-      const unitPrice = parseFloat(item.unitPrice);
-      const taxRate = parseFloat(item.taxRate || '0');
-      const discount = parseFloat(item.discount || '0');
-
-      const itemSubtotal = quantity * unitPrice;
-      const itemDiscount = discount;
-      const itemAfterDiscount = itemSubtotal - itemDiscount;
-      const itemTax = (itemAfterDiscount * taxRate) / 100;
+      const line = calculateLineItemTaxes({
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        discount: item.discount,
+        taxes: getItemTaxDefinitions(item),
+        isTaxInclusive: item.isTaxInclusive,
+      });
 
-      subtotal += itemSubtotal;
-      totalDiscount += itemDiscount;
-      totalTax += itemTax;
+      subtotal += line.subtotal;
+      totalDiscount += line.discount;
+      totalTax += line.taxAmount;
+      total += line.total;
+      itemTaxes.push(line.taxes);
+      itemTaxRates.add(line.taxRate);
     }
 
-    const total = subtotal - totalDiscount + totalTax;
+    // Invoice tax rate: the rate of all the items, or the effective rate when they differ
+    const taxableAmount = subtotal - totalDiscount;
+    const taxRate =
+      itemTaxRates.size === 1
+        ? [...itemTaxRates][0]
+        : taxableAmount !== 0
+          ? ((totalTax / taxableAmount) * 100).toFixed(2)
+          : '0.00';
 
     return {
       subtotal: subtotal.toFixed(2),
       totalTax: totalTax.toFixed(2),
       totalDiscount: totalDiscount.toFixed(2),
       total: total.toFixed(2),
+      taxRate,
+      taxBreakdown: buildTaxBreakdown(itemTaxes),
     };
   }
 }
@@ -0,0 +1,138 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceNumberSequenceModel } from '../../../database/generated/models/InvoiceNumberSequence';
+import {
+  NumberingSequenceTypeEnum,
+  Prisma,
+  PrismaClient,
+} from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class InvoiceNumberSequenceRepository extends BaseRepository<
+  InvoiceNumberSequenceModel,
+  Prisma.InvoiceNumberSequenceWhereInput,
+  Prisma.InvoiceNumberSequenceCreateInput,
+  Prisma.InvoiceNumberSequenceUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceNumberSequence'] {
+    return tx ? tx.invoiceNumberSequence : this.prisma.invoiceNumberSequence;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceNumberSequence';
+  }
+
+  /**
+   * Find the numbering sequences of a company
+   */
+  async findByCompanyId(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceNumberSequenceModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { companyId },
+      orderBy: { type: 'asc' },
+    });
+  }
+
+  /**
+   * Find the numbering sequence of a company for a type
+   */
+  async findByCompanyAndType(
+    companyId: number,
+    type: NumberingSequenceTypeEnum,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceNumberSequenceModel | null> {
+    const model = this.getModel(tx);
+    return model.findUnique({
+      where: { companyId_type: { companyId, type } },
+    });
+  }
+
+  /**
+   * Create or update the numbering sequence of a company for a type
+   */
+  async upsertForCompany(
+    companyId: number,
+    type: NumberingSequenceTypeEnum,
+    data: Omit<
+      Prisma.InvoiceNumberSequenceUncheckedCreateInput,
+      'companyId' | 'type'
+    >,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceNumberSequenceModel> {
+    const model = this.getModel(tx);
+    return model.upsert({
+      where: { companyId_type: { companyId, type } },
+      create: { ...data, companyId, type },
+      update: data,
+    });
+  }
+
+  /**
+   * Find the numbering sequence of a company for a type, creating it with the given settings when missing.
+   * Concurrent creations do not conflict, they all get the sequence created first.
+   */
+  async findOrCreateForCompany(
+    companyId: number,
+    type: NumberingSequenceTypeEnum,
+    data: Omit<
+      Prisma.InvoiceNumberSequenceCreateManyInput,
+      'companyId' | 'type'
+    >,
+    tx: PrismaTransactionClient,
+  ): Promise<InvoiceNumberSequenceModel> {
+    const model = this.getModel(tx);
+
+    await model.createMany({
+      data: [{ ...data, companyId, type }],
+      skipDuplicates: true,
+    });
+
+    return model.findUniqueOrThrow({
+      where: { companyId_type: { companyId, type } },
+    });
+  }
+
+  /**
+   * Allocate the next number of a sequence.
+   * The increment locks the sequence row until the transaction ends, so concurrent
+   * allocations wait for each other and never get the same number.
+   * When the period changed (e.g. new year for yearly sequences), the sequence restarts at 1.
+   */
+  async allocateNumber(
+    sequenceId: number,
+    periodKey: string | null,
+    tx: PrismaTransactionClient,
+  ): Promise<number> {
+    const model = this.getModel(tx);
+
+    if (periodKey) {
+      await model.updateMany({
+        where: {
+          id: sequenceId,
+          OR: [{ periodKey: null }, { periodKey: { not: periodKey } }],
+        },
+        data: { nextNumber: 1, periodKey },
+      });
+    }
+
+    const sequence = await model.update({
+      where: { id: sequenceId },
+      data: { nextNumber: { increment: 1 } },
+    });
+
+    return sequence.nextNumber - 1;
+  }
+}
@@ -0,0 +1,44 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceReminderModel } from '../../../database/generated/models/InvoiceReminder';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class InvoiceReminderRepository extends BaseRepository<
+  InvoiceReminderModel,
+  Prisma.InvoiceReminderWhereInput,
+  Prisma.InvoiceReminderCreateInput,
+  Prisma.InvoiceReminderUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceReminder'] {
+    return tx ? tx.invoiceReminder : this.prisma.invoiceReminder;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceReminder';
+  }
+
+  /**
+   * Find the reminders sent for an invoice, oldest first
+   */
+  async findByInvoiceId(
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceReminderModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { invoiceId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+}
@@ -1,14 +1,19 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../database/prisma.service';
-import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  InvoiceTypeEnum,
+  Prisma,
+  PrismaClient,
+} from '../../../database/generated/client';
 import {
   BaseRepository,
   PrismaTransactionClient,
 } from 'src/database/base.repository';
+import { InvoiceScheduleModel } from 'src/database/generated/models';
 
 export interface CreateInvoiceScheduleData {
-  payrollId: number;
-  frequency: string; // 'MONTHLY', 'WEEKLY', 'BIWEEKLY', 'QUARTERLY'
+  payrollId?: number;
+  frequency: string; // 'MONTHLY', 'WEEKLY', 'BIWEEKLY', 'SEMI_MONTHLY', 'QUARTERLY'
   dayOfMonth?: number;
   dayOfWeek?: number;
   generateDaysBefore: number;
@@ -25,6 +30,10 @@ export interface UpdateInvoiceScheduleData {
   generateDaysBefore?: number;
   isActive?: boolean;
   nextGenerateDate?: Date;
+  lastGeneratedAt?: Date;
+  endDate?: Date | null;
+  maxOccurrences?: number | null;
+  occurrenceCount?: number;
   invoiceTemplate?: any;
   metadata?: any;
 }
@@ -98,15 +107,18 @@ export class InvoiceScheduleRepository extends BaseRepository<
 
   async findSchedulesDueForGeneration(
     date: Date,
+    companyId?: number,
     tx?: PrismaTransactionClient,
   ) {
     const model = this.getModel(tx);
     return model.findMany({
       where: {
+        invoiceType: InvoiceTypeEnum.EMPLOYEE,
         isActive: true,
         nextGenerateDate: {
           lte: date,
         },
+        ...(companyId && { payroll: { companyId } }),
       },
       include: {
         payroll: {
@@ -119,6 +131,43 @@ export class InvoiceScheduleRepository extends BaseRepository<
     });
   }
 
+  async findB2BByUUID(
+    uuid: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceScheduleModel | null> {
+    const model = this.getModel(tx);
+    return model.findFirst({
+      where: { uuid, invoiceType: InvoiceTypeEnum.B2B },
+    });
+  }
+
+  async findB2BByCompanyId(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceScheduleModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { companyId, invoiceType: InvoiceTypeEnum.B2B },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findB2BSchedulesDueForGeneration(
+    date: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceScheduleModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        invoiceType: InvoiceTypeEnum.B2B,
+        isActive: true,
+        nextGenerateDate: {
+          lte: date,
+        },
+      },
+    });
+  }
+
   async updateSchedule(
     id: number,
     data: UpdateInvoiceScheduleData,
@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceTemplateModel } from '../../../database/generated/models/InvoiceTemplate';
+import {
+  InvoiceTypeEnum,
+  Prisma,
+  PrismaClient,
+} from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+export type InvoiceTemplateWithCompany = Prisma.InvoiceTemplateGetPayload<{
+  include: {
+    company: true;
+  };
+}>;
+
+@Injectable()
+export class InvoiceTemplateRepository extends BaseRepository<
+  InvoiceTemplateModel,
+  Prisma.InvoiceTemplateWhereInput,
+  Prisma.InvoiceTemplateCreateInput,
+  Prisma.InvoiceTemplateUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['invoiceTemplate'] {
+    return tx ? tx.invoiceTemplate : this.prisma.invoiceTemplate;
+  }
+
+  protected getModelName(): string {
+    return 'InvoiceTemplate';
+  }
+
+  async findByUUID(
+    uuid: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceTemplateWithCompany | null> {
+    const model = this.getModel(tx);
+    return model.findUnique({
+      where: { uuid },
+      include: {
+        company: true,
+      },
+    });
+  }
+
+  /**
+   * Find the invoice templates of a company
+   */
+  async findByCompanyId(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceTemplateModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { companyId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find the template a company applies to its invoices of a type
+   */
+  async findDefaultForType(
+    companyId: number,
+    invoiceType: InvoiceTypeEnum,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceTemplateModel | null> {
+    const model = this.getModel(tx);
+    return model.findFirst({
+      where: {
+        companyId,
+        ...(invoiceType === InvoiceTypeEnum.B2B
+          ? { isB2BDefault: true }
+          : { isEmployeeDefault: true }),
+      },
+    });
+  }
+
+  /**
+   * Stop applying the other templates of a company to an invoice type,
+   * before making a template the one applied to that type
+   */
+  async clearDefaultForType(
+    companyId: number,
+    invoiceType: InvoiceTypeEnum,
+    excludedTemplateId: number | null,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const model = this.getModel(tx);
+    await model.updateMany({
+      where: {
+        companyId,
+        ...(excludedTemplateId && { id: { not: excludedTemplateId } }),
+      },
+      data:
+        invoiceType === InvoiceTypeEnum.B2B
+          ? { isB2BDefault: false }
+          : { isEmployeeDefault: false },
+    });
+  }
+}
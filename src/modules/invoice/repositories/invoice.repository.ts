@@ -1,8 +1,10 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../../../database/prisma.service';
 import { InvoiceModel } from '../../../database/generated/models/Invoice';
+import { BillModel } from '../../../database/generated/models/Bill';
 import {
   InvoiceStatusEnum,
+  InvoiceTypeEnum,
   Prisma,
   PrismaClient,
 } from '../../../database/generated/client';
@@ -10,6 +12,11 @@ import {
   BaseRepository,
   PrismaTransactionClient,
 } from 'src/database/base.repository';
+import {
+  getBillAmountDue,
+  UNPAID_BILL_STATUSES,
+} from 'src/modules/bill/bill.repository';
+import { getEarlyPaymentDiscount } from 'src/common/utils/payment-terms.util';
 
 export type InvoiceWithRelations = Prisma.InvoiceGetPayload<{
   include: {
@@ -27,9 +34,120 @@ export type InvoiceWithRelations = Prisma.InvoiceGetPayload<{
     toCompany: true;
     items: true;
     bill: true;
+    approvals: {
+      include: {
+        approvedBy: {
+          select: {
+            id: true;
+            email: true;
+          };
+        };
+      };
+    };
+    comments: true;
+    reminders: true;
+    attachments: true;
   };
 }>;
 
+export type RemindableInvoice = Prisma.InvoiceGetPayload<{
+  include: {
+    payroll: {
+      include: {
+        company: true;
+      };
+    };
+    employee: true;
+    fromCompany: true;
+    toCompany: true;
+    bill: true;
+    reminders: true;
+  };
+}>;
+
+export type LateFeeInvoice = Prisma.InvoiceGetPayload<{
+  include: {
+    items: true;
+    bill: true;
+  };
+}>;
+
+/**
+ * B2B invoices waiting for the recipient to pay
+ */
+export const REMINDABLE_B2B_INVOICE_STATUSES: InvoiceStatusEnum[] = [
+  InvoiceStatusEnum.SENT,
+  InvoiceStatusEnum.REVIEWED,
+  InvoiceStatusEnum.CONFIRMED,
+  InvoiceStatusEnum.OVERDUE,
+];
+
+type InvoiceParties = {
+  invoiceType: InvoiceTypeEnum;
+  fromCompanyId: number | null;
+  toCompanyId: number | null;
+  payroll: { companyId: number } | null;
+};
+
+/**
+ * Company that issues and manages the invoice:
+ * the sender of B2B invoices, the employer for employee invoices (issued on behalf of the employee)
+ */
+export function getInvoiceIssuerCompanyId(invoice: InvoiceParties): number {
+  return invoice.invoiceType === InvoiceTypeEnum.B2B
+    ? invoice.fromCompanyId
+    : invoice.payroll?.companyId;
+}
+
+/**
+ * Company that pays the invoice: the recipient of B2B invoices, the employer for employee invoices
+ */
+export function getInvoicePayerCompanyId(invoice: InvoiceParties): number {
+  return invoice.invoiceType === InvoiceTypeEnum.B2B
+    ? invoice.toCompanyId
+    : invoice.payroll?.companyId;
+}
+
+/**
+ * Invoices with nothing left to pay
+ */
+const SETTLED_INVOICE_STATUSES: InvoiceStatusEnum[] = [
+  InvoiceStatusEnum.PAID,
+  InvoiceStatusEnum.CANCELLED,
+  InvoiceStatusEnum.DELETED,
+];
+
+/**
+ * Amount to pay on an invoice at the given date: the amount due on its bill, or its total
+ * less the early payment discount of its payment terms while it is available
+ */
+export function getInvoiceAmountDue(
+  invoice: Pick<
+    InvoiceModel,
+    'status' | 'total' | 'earlyPaymentDiscount' | 'issueDate' | 'paymentTerms'
+  > & {
+    bill: Pick<BillModel, 'creditedAmount' | 'paidAmount'> | null;
+  },
+  date: Date = new Date(),
+): string {
+  if (SETTLED_INVOICE_STATUSES.includes(invoice.status)) {
+    return '0.00';
+  }
+
+  if (invoice.bill) {
+    return getBillAmountDue({ ...invoice.bill, invoice }, date);
+  }
+
+  const discount = getEarlyPaymentDiscount(
+    invoice.paymentTerms,
+    invoice.issueDate,
+    invoice.total,
+    date,
+  );
+
+  return (parseFloat(invoice.total) - discount).toFixed(2);
+}
+
 export interface CreateInvoiceData {
   invoiceNumber: string;
   issueDate: Date;
@@ -57,8 +175,13 @@ export interface UpdateInvoiceData {
   total?: string;
   status?: InvoiceStatusEnum;
   sentAt?: Date;
+  approvedAt?: Date;
   reviewedAt?: Date;
   confirmedAt?: Date;
+  paidAt?: Date;
+  publicToken?: string;
+  paymentTransactionHash?: string;
+  payerAddress?: string;
   metadata?: any;
 }
 
@@ -113,17 +236,57 @@ export class InvoiceRepository extends BaseRepository<
         // Common relations
         items: true,
         bill: true,
+        approvals: {
+          include: {
+            approvedBy: {
+              select: {
+                id: true,
+                email: true,
+              },
+            },
+          },
+          orderBy: { approvedAt: 'asc' },
+        },
+        comments: {
+          orderBy: { createdAt: 'asc' },
+        },
+        reminders: {
+          orderBy: { createdAt: 'asc' },
+        },
+        // Documents attached to the bill are only visible on the bill
+        attachments: {
+          where: { billId: null },
+          orderBy: { createdAt: 'asc' },
+        },
       },
     });
   }
 
+  /**
+   * Find an invoice by the token of its public URL
+   */
+  async findByPublicToken(
+    publicToken: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceWithRelations | null> {
+    const model = this.getModel(tx);
+    const invoice = await model.findUnique({
+      where: { publicToken },
+      select: { uuid: true },
+    });
+
+    return invoice ? this.findByUUID(invoice.uuid, tx) : null;
+  }
+
   async getStats(
     companyId: number,
     tx?: PrismaTransactionClient,
   ): Promise<{
     totalDraft: number;
+    totalPendingApproval: number;
     totalSent: number;
     totalReviewed: number;
+    totalDisputed: number;
     totalConfirmed: number;
     totalAmount: string;
     dueThisMonth: number;
@@ -142,8 +305,10 @@ export class InvoiceRepository extends BaseRepository<
 
     const [
       draftCount,
+      pendingApprovalCount,
       sentCount,
       reviewedCount,
+      disputedCount,
       confirmedCount,
       dueThisMonth,
       allInvoices,
@@ -151,12 +316,18 @@ export class InvoiceRepository extends BaseRepository<
       model.count({
         where: { ...baseWhere, status: InvoiceStatusEnum.DRAFT },
       }),
+      model.count({
+        where: { ...baseWhere, status: InvoiceStatusEnum.PENDING_APPROVAL },
+      }),
       model.count({
         where: { ...baseWhere, status: InvoiceStatusEnum.SENT },
       }),
       model.count({
         where: { ...baseWhere, status: InvoiceStatusEnum.REVIEWED },
       }),
+      model.count({
+        where: { ...baseWhere, status: InvoiceStatusEnum.DISPUTED },
+      }),
       model.count({
         where: { ...baseWhere, status: InvoiceStatusEnum.CONFIRMED },
       }),
@@ -182,8 +353,10 @@ export class InvoiceRepository extends BaseRepository<
 
     return {
       totalDraft: draftCount,
+      totalPendingApproval: pendingApprovalCount,
       totalSent: sentCount,
       totalReviewed: reviewedCount,
+      totalDisputed: disputedCount,
       totalConfirmed: confirmedCount,
       totalAmount,
       dueThisMonth,
@@ -202,6 +375,7 @@ export class InvoiceRepository extends BaseRepository<
           in: [
             InvoiceStatusEnum.SENT,
             InvoiceStatusEnum.REVIEWED,
+            InvoiceStatusEnum.DISPUTED,
             InvoiceStatusEnum.CONFIRMED,
             InvoiceStatusEnum.OVERDUE,
           ],
@@ -241,6 +415,8 @@ export class InvoiceRepository extends BaseRepository<
         employee: {
           email,
         },
+        // Invoices waiting for the employer's approval are not released to the employee yet
+        status: { not: InvoiceStatusEnum.PENDING_APPROVAL },
       },
       include: {
         payroll: {
@@ -266,6 +442,23 @@ export class InvoiceRepository extends BaseRepository<
     });
   }
 
+  /**
+   * Lock an invoice pending approval until the transaction ends, so concurrent approvals
+   * wait for each other and each one counts the approvals committed before it.
+   * Invoices no longer pending approval are not locked.
+   */
+  async lockPendingApproval(
+    uuid: string,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const model = this.getModel(tx);
+
+    await model.updateMany({
+      where: { uuid, status: InvoiceStatusEnum.PENDING_APPROVAL },
+      data: { updatedAt: new Date() },
+    });
+  }
+
   async updateMultiple(
     uuids: string[],
     status: InvoiceStatusEnum,
@@ -288,9 +481,8 @@ export class InvoiceRepository extends BaseRepository<
   }
 
   /**
-   * Generate an invoice number.
-   * If payrollId is provided, sequence is per payroll (employee-centric).
-   * Otherwise, fallback to monthly per-company sequence.
+   * Generate a legacy invoice number, sequenced per payroll (employee-centric).
+   * Only used when the company has not configured a numbering sequence.
    */
   async generatePayrollInvoiceNumber(
     payrollId: number,
@@ -306,31 +498,167 @@ export class InvoiceRepository extends BaseRepository<
   }
 
   /**
-   * Find latest invoice for a payroll
+   * Count the B2B invoices sent by a company
+   */
+  async countB2BInvoices(
+    fromCompanyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<number> {
+    const model = this.getModel(tx);
+    return model.count({
+      where: { fromCompanyId, invoiceType: InvoiceTypeEnum.B2B },
+    });
+  }
+
+  /**
+   * Check whether a company already issued an invoice with this number
+   * (employee invoices are addressed to the company, B2B invoices are sent by it)
+   */
+  async isInvoiceNumberTaken(
+    companyId: number,
+    invoiceNumber: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<boolean> {
+    const model = this.getModel(tx);
+    const count = await model.count({
+      where: {
+        invoiceNumber,
+        OR: [
+          { invoiceType: InvoiceTypeEnum.EMPLOYEE, toCompanyId: companyId },
+          { invoiceType: InvoiceTypeEnum.B2B, fromCompanyId: companyId },
+        ],
+      },
+    });
+    return count > 0;
+  }
+
+  /**
+   * Find the invoice of a payroll for the cycle paid on the given date
    */
-  async findLatestInvoiceForPayroll(
+  async findByPayrollAndPayDate(
     payrollId: number,
+    payDate: Date,
     tx?: PrismaTransactionClient,
   ): Promise<InvoiceModel | null> {
     const model = this.getModel(tx);
     return model.findFirst({
-      where: { payrollId },
-      orderBy: { issueDate: 'desc' },
+      where: { payrollId, payDate },
+    });
+  }
+
+  /**
+   * Find the invoices of a payroll that are issued but not paid yet, including disputed ones
+   */
+  async findOutstandingInvoicesForPayroll(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        payrollId,
+        status: {
+          in: [
+            InvoiceStatusEnum.PENDING_APPROVAL,
+            InvoiceStatusEnum.SENT,
+            InvoiceStatusEnum.REVIEWED,
+            InvoiceStatusEnum.DISPUTED,
+            InvoiceStatusEnum.CONFIRMED,
+            InvoiceStatusEnum.OVERDUE,
+          ],
+        },
+      },
+      orderBy: { issueDate: 'asc' },
+    });
+  }
+
+  /**
+   * Find the unpaid invoices of a company due by the given date, for payment reminders:
+   * B2B invoices the recipient has not paid nor claimed to pay, employee invoices whose bill is not paid
+   */
+  async findRemindableInvoices(
+    companyId: number,
+    dueBefore: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<RemindableInvoice[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        dueDate: { lte: dueBefore },
+        OR: [
+          {
+            invoiceType: InvoiceTypeEnum.B2B,
+            fromCompanyId: companyId,
+            status: { in: REMINDABLE_B2B_INVOICE_STATUSES },
+            paymentClaimedAt: null,
+          },
+          {
+            invoiceType: InvoiceTypeEnum.EMPLOYEE,
+            payroll: { companyId },
+            bill: { status: { in: UNPAID_BILL_STATUSES } },
+          },
+        ],
+      },
+      include: {
+        payroll: {
+          include: {
+            company: true,
+          },
+        },
+        employee: true,
+        fromCompany: true,
+        toCompany: true,
+        bill: true,
+        reminders: true,
+      },
+    });
+  }
+
+  /**
+   * Find the unpaid invoices past their due date with payment terms and no late fee applied yet:
+   * B2B invoices the recipient has not paid nor claimed to pay, employee invoices whose bill is not paid
+   */
+  async findLateFeeInvoices(
+    dueBefore: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<LateFeeInvoice[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        dueDate: { lt: dueBefore },
+        paymentTerms: { not: Prisma.AnyNull },
+        lateFeeAppliedAt: null,
+        OR: [
+          {
+            invoiceType: InvoiceTypeEnum.B2B,
+            status: { in: REMINDABLE_B2B_INVOICE_STATUSES },
+            paymentClaimedAt: null,
+          },
+          {
+            invoiceType: InvoiceTypeEnum.EMPLOYEE,
+            bill: { status: { in: UNPAID_BILL_STATUSES } },
+          },
+        ],
+      },
+      include: {
+        items: true,
+        bill: true,
+      },
     });
   }
 
   /**
    * Mark invoices as overdue
-   * Marks invoices that are past their due date and not yet paid or cancelled
+   * Marks invoices that are past their due date and not yet paid or cancelled, returns their ids
    */
   async markOverdueInvoices(
     date?: Date,
     tx?: PrismaTransactionClient,
-  ): Promise<number> {
+  ): Promise<number[]> {
     const model = this.getModel(tx);
     const overdueDate = date || new Date();
 
-    const result = await model.updateMany({
+    const invoices = await model.findMany({
       where: {
         status: {
           in: [
@@ -343,11 +671,17 @@ export class InvoiceRepository extends BaseRepository<
           lt: overdueDate,
         },
       },
+      select: { id: true },
+    });
+    const invoiceIds = invoices.map((invoice) => invoice.id);
+
+    await model.updateMany({
+      where: { id: { in: invoiceIds } },
       data: {
         status: InvoiceStatusEnum.OVERDUE,
       },
     });
 
-    return result.count;
+    return invoiceIds;
   }
 }
@@ -0,0 +1,52 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../../database/prisma.service';
+import { TaxRateModel } from '../../../database/generated/models/TaxRate';
+import { Prisma, PrismaClient } from '../../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+@Injectable()
+export class TaxRateRepository extends BaseRepository<
+  TaxRateModel,
+  Prisma.TaxRateWhereInput,
+  Prisma.TaxRateCreateInput,
+  Prisma.TaxRateUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(tx?: PrismaTransactionClient): PrismaClient['taxRate'] {
+    return tx ? tx.taxRate : this.prisma.taxRate;
+  }
+
+  protected getModelName(): string {
+    return 'TaxRate';
+  }
+
+  async findByUUID(
+    uuid: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<TaxRateModel | null> {
+    const model = this.getModel(tx);
+    return model.findUnique({
+      where: { uuid },
+    });
+  }
+
+  /**
+   * Find the tax rates of a company, simple taxes first
+   */
+  async findByCompanyId(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<TaxRateModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { companyId },
+      orderBy: [{ isCompound: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+}
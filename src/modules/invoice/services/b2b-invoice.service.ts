@@ -0,0 +1,803 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  getInvoiceAmountDue,
+  InvoiceRepository,
+  InvoiceWithRelations,
+  REMINDABLE_B2B_INVOICE_STATUSES,
+} from '../repositories/invoice.repository';
+import {
+  getChanges,
+  InvoiceEventActor,
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../repositories/invoice-event.repository';
+import { InvoiceItemService } from './invoice-item.service';
+import { InvoiceNumberSequenceService } from './invoice-number-sequence.service';
+import {
+  B2BInvoiceDirectionEnum,
+  B2BInvoiceQueryDto,
+  CreateB2BInvoiceDto,
+  InvoiceTaxBreakdownDto,
+  PublicInvoicePaymentDto,
+  PublicInvoiceResponseDto,
+} from '../invoice.dto';
+import {
+  InvoiceCreateInput,
+  InvoiceModel,
+  InvoiceWhereInput,
+} from 'src/database/generated/models';
+import {
+  InvoiceEventActionEnum,
+  InvoiceEventActorEnum,
+  InvoiceStatusEnum,
+  InvoiceTypeEnum,
+} from 'src/database/generated/client';
+import { PrismaService } from 'src/database/prisma.service';
+import { JsonValue } from '@prisma/client/runtime/client';
+import { ErrorCompany, ErrorInvoice } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+import { BillService } from 'src/modules/bill/bill.service';
+import { CompanyRepository } from 'src/modules/company/company.repository';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import { NetworkDto, TokenDto } from 'src/modules/employee/employee.dto';
+import { sanitizeString } from 'src/common/utils/validation.util';
+import {
+  getEarlyPaymentDiscount,
+  getPaymentTerms,
+  getPaymentTermsDueDate,
+} from 'src/common/utils/payment-terms.util';
+
+@Injectable()
+export class B2BInvoiceService {
+  private readonly logger = new Logger(B2BInvoiceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
+    private readonly invoiceItemService: InvoiceItemService,
+    private readonly invoiceNumberSequenceService: InvoiceNumberSequenceService,
+    private readonly billService: BillService,
+    private readonly companyRepository: CompanyRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the B2B invoices sent (outgoing) or received (incoming) by a company
+   */
+  async getB2BInvoices(
+    companyId: number,
+    query: B2BInvoiceQueryDto,
+  ): Promise<{
+    invoices: InvoiceModel[];
+    pagination: {
+      page: number;
+      limit: number;
+      total: number;
+      totalPages: number;
+    };
+  }> {
+    try {
+      const isIncoming = query.direction === B2BInvoiceDirectionEnum.INCOMING;
+
+      const filters: InvoiceWhereInput = {
+        invoiceType: InvoiceTypeEnum.B2B,
+        ...(isIncoming
+          ? {
+              toCompanyId: companyId,
+              // Drafts are not visible to the recipient until they are sent
+              status: { equals: query.status, not: InvoiceStatusEnum.DRAFT },
+            }
+          : { fromCompanyId: companyId, status: query.status }),
+        ...(query.search && {
+          OR: [
+            {
+              invoiceNumber: { contains: query.search, mode: 'insensitive' },
+            },
+            {
+              toCompanyName: { contains: query.search, mode: 'insensitive' },
+            },
+            {
+              toCompany: {
+                companyName: { contains: query.search, mode: 'insensitive' },
+              },
+            },
+            {
+              fromCompany: {
+                companyName: { contains: query.search, mode: 'insensitive' },
+              },
+            },
+          ],
+        }),
+      };
+
+      const result = await this.invoiceRepository.findManyPaginated(
+        filters,
+        {
+          page: query.page || 1,
+          limit: query.limit || 10,
+          orderBy: { createdAt: 'desc' },
+        },
+        {
+          include: {
+            fromCompany: true,
+            toCompany: true,
+            bill: true,
+          },
+        },
+      );
+
+      return {
+        invoices: result.data,
+        pagination: {
+          page: query.page || 1,
+          limit: query.limit || 10,
+          total: result.pagination.total,
+          totalPages: result.pagination.totalPages,
+        },
+      };
+    } catch (error) {
+      this.logger.error('Error fetching B2B invoices:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the invoice shown on the public invoice page (no account required)
+   */
+  async getPublicInvoice(
+    publicToken: string,
+  ): Promise<PublicInvoiceResponseDto> {
+    try {
+      const invoice = await this.findPublicInvoice(publicToken);
+
+      return {
+        invoiceNumber: invoice.invoiceNumber,
+        status: invoice.status,
+        issueDate: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        fromDetails: invoice.fromDetails as Record<string, any>,
+        toDetails: invoice.toDetails as Record<string, any>,
+        items: invoice.items
+          .sort((a, b) => a.order - b.order)
+          .map((item) => ({
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            unit: item.unit,
+            taxRate: item.taxRate,
+            discount: item.discount,
+            total: item.total,
+          })),
+        subtotal: invoice.subtotal,
+        taxRate: invoice.taxRate,
+        taxAmount: invoice.taxAmount,
+        taxBreakdown: invoice.taxBreakdown as unknown as
+          | InvoiceTaxBreakdownDto[]
+          | null,
+        discount: invoice.discount,
+        total: invoice.total,
+        paymentTerms: getPaymentTerms(invoice.paymentTerms),
+        earlyPaymentDiscount: invoice.earlyPaymentDiscount,
+        amountDue: getInvoiceAmountDue(invoice),
+        currency: invoice.currency,
+        paymentNetwork: invoice.paymentNetwork as unknown as NetworkDto,
+        paymentToken: invoice.paymentToken as unknown as TokenDto,
+        paymentWalletAddress: invoice.paymentWalletAddress,
+        paidAt: invoice.paidAt,
+        paymentTransactionHash: invoice.paymentTransactionHash,
+        paymentClaimedAt: invoice.paymentClaimedAt,
+      };
+    } catch (error) {
+      this.logger.error('Error fetching public invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Find the invoice of a public invoice URL.
+   * Only sent B2B invoices are reachable, drafts and cancelled invoices are hidden.
+   */
+  async findPublicInvoice(
+    publicToken: string,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.invoiceRepository.findByPublicToken(
+      sanitizeString(publicToken),
+      tx,
+    );
+
+    const hiddenStatuses: InvoiceStatusEnum[] = [
+      InvoiceStatusEnum.DRAFT,
+      InvoiceStatusEnum.CANCELLED,
+      InvoiceStatusEnum.DELETED,
+    ];
+
+    if (
+      !invoice ||
+      invoice.invoiceType !== InvoiceTypeEnum.B2B ||
+      hiddenStatuses.includes(invoice.status)
+    ) {
+      throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+    }
+
+    return invoice;
+  }
+  //#endregion GET METHODS
+
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  /**
+   * Create a draft B2B invoice to a registered company, or to an unregistered company by email
+   */
+  async createB2BInvoice(
+    companyId: number,
+    email: string,
+    dto: CreateB2BInvoiceDto,
+  ): Promise<InvoiceWithRelations> {
+    try {
+      return await this.prisma.$transaction(
+        (tx) =>
+          this.generateB2BInvoice(companyId, dto, tx, {
+            actor: { type: InvoiceEventActorEnum.COMPANY, email },
+          }),
+        {
+          timeout: 30000, // 30 seconds max execution time
+        },
+      );
+    } catch (error) {
+      this.logger.error('Error creating B2B invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Create a draft B2B invoice within a transaction, also used by the recurring B2B invoice schedules
+   */
+  async generateB2BInvoice(
+    companyId: number,
+    dto: CreateB2BInvoiceDto,
+    tx: PrismaTransactionClient,
+    options?: {
+      issueDate?: Date;
+      terms?: string;
+      isAutoGenerated?: boolean;
+      actor?: InvoiceEventActor; // the system by default
+    },
+  ): Promise<InvoiceWithRelations> {
+    const company = await this.companyRepository.findById(companyId, tx);
+
+    if (!company) {
+      throw new NotFoundException(ErrorCompany.CompanyNotFound);
+    }
+
+    const recipient = await this.getRecipient(companyId, dto, tx);
+
+    // find the only team member of the company
+    const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
+      companyId,
+      tx,
+    );
+
+    const issueDate = options?.issueDate ?? new Date();
+    const numbering = await this.generateB2BInvoiceNumber(
+      companyId,
+      issueDate,
+      tx,
+    );
+
+    const invoiceData: InvoiceCreateInput = {
+      invoiceType: InvoiceTypeEnum.B2B,
+      ...numbering,
+      issueDate,
+      // Net-N payment terms set the due date from the issue date
+      dueDate: dto.paymentTerms
+        ? getPaymentTermsDueDate(issueDate, dto.paymentTerms)
+        : new Date(dto.dueDate),
+      fromCompany: { connect: { id: companyId } },
+      ...(recipient.company
+        ? { toCompany: { connect: { id: recipient.company.id } } }
+        : {
+            toCompanyName: dto.toCompanyName,
+            toCompanyEmail: dto.toCompanyEmail,
+            toCompanyAddress: dto.toCompanyAddress,
+            toCompanyTaxId: dto.toCompanyTaxId,
+            toCompanyContactName: dto.toCompanyContactName,
+          }),
+      emailTo: recipient.email,
+      emailCc: dto.emailCc ?? [],
+      emailBcc: [],
+      fromDetails: {
+        name: company.companyName,
+        companyName: company.companyName,
+        email: company.notificationEmail || teamMember?.user?.email,
+        address1: company.address1,
+        address2: company.address2,
+        city: company.city,
+        country: company.country,
+        postalCode: company.postalCode,
+        taxId: company.taxId,
+      },
+      toDetails: recipient.details,
+      // Totals are calculated from the items
+      subtotal: '0.00',
+      taxRate: '0.00',
+      taxAmount: '0.00',
+      discount: '0.00',
+      total: '0.00',
+      currency: dto.currency,
+      status: InvoiceStatusEnum.DRAFT,
+      paymentNetwork: dto.network as unknown as JsonValue,
+      paymentToken: dto.token as unknown as JsonValue,
+      paymentWalletAddress: dto.walletAddress,
+      paymentTerms: dto.paymentTerms as unknown as JsonValue,
+      metadata: dto.metadata,
+      ...(options?.terms && { terms: options.terms }),
+      ...(options?.isAutoGenerated && { isAutoGenerated: true }),
+    };
+
+    const invoice = await this.invoiceRepository.create(invoiceData, tx);
+    const actor = options?.actor ?? SYSTEM_ACTOR;
+
+    await this.invoiceEventRepository.createEvent(
+      { id: invoice.id },
+      InvoiceEventActionEnum.INVOICE_CREATED,
+      actor,
+      {
+        metadata: {
+          status: invoice.status,
+          isAutoGenerated: invoice.isAutoGenerated,
+        },
+      },
+      tx,
+    );
+
+    await this.invoiceItemService.createItems(
+      invoice.uuid,
+      dto.items,
+      tx,
+      actor,
+    );
+
+    return this.invoiceRepository.findByUUID(invoice.uuid, tx);
+  }
+
+  /**
+   * Record the on-chain payment of an invoice made from its public invoice page.
+   * The transaction is not verified, the payment is a claim until the issuer confirms it.
+   */
+  async recordPublicPayment(
+    publicToken: string,
+    dto: PublicInvoicePaymentDto,
+  ): Promise<PublicInvoiceResponseDto> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.findPublicInvoice(publicToken, tx);
+
+        if (invoice.status === InvoiceStatusEnum.PAID) {
+          throw new ConflictException(ErrorInvoice.InvoiceAlreadyPaid);
+        }
+
+        if (invoice.paymentClaimedAt) {
+          throw new ConflictException(ErrorInvoice.PaymentAlreadyClaimed);
+        }
+
+        if (!REMINDABLE_B2B_INVOICE_STATUSES.includes(invoice.status)) {
+          throw new BadRequestException(ErrorInvoice.InvoiceNotPayable);
+        }
+
+        const txid = sanitizeString(dto.txid);
+        const recordedInvoice = await this.invoiceRepository.findOne(
+          { paymentTransactionHash: txid },
+          tx,
+        );
+        if (recordedInvoice) {
+          throw new ConflictException(ErrorInvoice.TransactionAlreadyRecorded);
+        }
+
+        await this.invoiceRepository.update(
+          { uuid: invoice.uuid },
+          {
+            paymentTransactionHash: txid,
+            payerAddress: dto.payer,
+            paymentClaimedAt: new Date(),
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.PAYMENT_CLAIMED,
+          { type: InvoiceEventActorEnum.PUBLIC },
+          {
+            metadata: {
+              transactionHash: txid,
+              payerAddress: dto.payer,
+            },
+          },
+          tx,
+        );
+      });
+
+      return this.getPublicInvoice(publicToken);
+    } catch (error) {
+      this.logger.error('Error recording public invoice payment:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion POST METHODS
+
+  //#region PATCH METHODS
+  // *************************************************
+  // **************** PATCH METHODS ******************
+  // *************************************************
+  /**
+   * Recipient company reviews a B2B invoice
+   */
+  async reviewB2BInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    email: string,
+  ): Promise<InvoiceModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.getReceivedInvoice(
+          invoiceUUID,
+          companyId,
+          tx,
+        );
+
+        if (invoice.status !== InvoiceStatusEnum.SENT) {
+          throw new BadRequestException(ErrorInvoice.InvoiceNotReviewable);
+        }
+
+        const updatedInvoice = await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            status: InvoiceStatusEnum.REVIEWED,
+            reviewedAt: new Date(),
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_REVIEWED,
+          { type: InvoiceEventActorEnum.COMPANY, email },
+          { changes: getChanges(invoice, updatedInvoice, ['status']) },
+          tx,
+        );
+
+        return updatedInvoice;
+      });
+    } catch (error) {
+      this.logger.error('Error reviewing B2B invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Recipient company confirms a B2B invoice, which creates the bill to pay on its side
+   */
+  async confirmB2BInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    email: string,
+  ): Promise<InvoiceModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.getReceivedInvoice(
+          invoiceUUID,
+          companyId,
+          tx,
+        );
+
+        const confirmableStatuses: InvoiceStatusEnum[] = [
+          InvoiceStatusEnum.SENT,
+          InvoiceStatusEnum.REVIEWED,
+        ];
+        if (!confirmableStatuses.includes(invoice.status)) {
+          throw new BadRequestException(ErrorInvoice.InvoiceNotConfirmable);
+        }
+
+        const updatedInvoice = await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            status: InvoiceStatusEnum.CONFIRMED,
+            confirmedAt: new Date(),
+          },
+          tx,
+        );
+
+        const actor = { type: InvoiceEventActorEnum.COMPANY, email };
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_CONFIRMED,
+          actor,
+          { changes: getChanges(invoice, updatedInvoice, ['status']) },
+          tx,
+        );
+
+        // Create bill to the recipient company
+        await this.billService.createBillFromInvoice(
+          invoice.uuid,
+          companyId,
+          tx,
+          actor,
+        );
+
+        return updatedInvoice;
+      });
+    } catch (error) {
+      this.logger.error('Error confirming B2B invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Issuing company confirms the payment claimed from the public invoice page, which marks the invoice as paid
+   */
+  async confirmPublicPayment(
+    invoiceUUID: string,
+    companyId: number,
+    email: string,
+  ): Promise<InvoiceModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.getClaimedInvoice(
+          invoiceUUID,
+          companyId,
+          tx,
+        );
+
+        // Paid within the discount window of the payment terms: the early payment discount was taken
+        const paidAt = invoice.paymentClaimedAt;
+        const earlyPaymentDiscount = getEarlyPaymentDiscount(
+          invoice.paymentTerms,
+          invoice.issueDate,
+          invoice.total,
+          paidAt,
+        );
+
+        const updatedInvoice = await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            status: InvoiceStatusEnum.PAID,
+            paidAt,
+            paymentClaimedAt: null,
+            earlyPaymentDiscount: earlyPaymentDiscount.toFixed(2),
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_PAID,
+          { type: InvoiceEventActorEnum.COMPANY, email },
+          {
+            changes: getChanges(invoice, updatedInvoice, ['status']),
+            metadata: {
+              transactionHash: invoice.paymentTransactionHash,
+              payerAddress: invoice.payerAddress,
+              ...(earlyPaymentDiscount > 0 && {
+                earlyPaymentDiscount: earlyPaymentDiscount.toFixed(2),
+              }),
+            },
+          },
+          tx,
+        );
+
+        return updatedInvoice;
+      });
+    } catch (error) {
+      this.logger.error('Error confirming public invoice payment:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Issuing company rejects the payment claimed from the public invoice page, the invoice can be paid again
+   */
+  async rejectPublicPayment(
+    invoiceUUID: string,
+    companyId: number,
+    email: string,
+  ): Promise<InvoiceModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.getClaimedInvoice(
+          invoiceUUID,
+          companyId,
+          tx,
+        );
+
+        const updatedInvoice = await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            paymentTransactionHash: null,
+            payerAddress: null,
+            paymentClaimedAt: null,
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.PAYMENT_CLAIM_REJECTED,
+          { type: InvoiceEventActorEnum.COMPANY, email },
+          {
+            metadata: {
+              transactionHash: invoice.paymentTransactionHash,
+              payerAddress: invoice.payerAddress,
+            },
+          },
+          tx,
+        );
+
+        return updatedInvoice;
+      });
+    } catch (error) {
+      this.logger.error('Error rejecting public invoice payment:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion PATCH METHODS
+
+  /**
+   * Find a B2B invoice received by a company
+   */
+  private async getReceivedInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.invoiceRepository.findByUUID(invoiceUUID, tx);
+
+    // Drafts are not visible to the recipient until they are sent
+    if (!invoice || invoice.status === InvoiceStatusEnum.DRAFT) {
+      throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+    }
+
+    if (invoice.invoiceType !== InvoiceTypeEnum.B2B) {
+      throw new BadRequestException(ErrorInvoice.InvoiceNotB2B);
+    }
+
+    if (invoice.toCompanyId !== companyId) {
+      throw new ForbiddenException(ErrorInvoice.NotRecipient);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Find a B2B invoice issued by a company with a payment waiting for confirmation
+   */
+  private async getClaimedInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.invoiceRepository.findByUUID(invoiceUUID, tx);
+
+    if (!invoice) {
+      throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+    }
+
+    if (invoice.invoiceType !== InvoiceTypeEnum.B2B) {
+      throw new BadRequestException(ErrorInvoice.InvoiceNotB2B);
+    }
+
+    if (invoice.fromCompanyId !== companyId) {
+      throw new ForbiddenException(ErrorInvoice.NotIssuer);
+    }
+
+    if (
+      !invoice.paymentClaimedAt ||
+      !REMINDABLE_B2B_INVOICE_STATUSES.includes(invoice.status)
+    ) {
+      throw new BadRequestException(ErrorInvoice.PaymentNotClaimed);
+    }
+
+    return invoice;
+  }
+
+  /**
+   * Resolve the recipient of a B2B invoice: a registered company, or an unregistered company by email
+   */
+  async getRecipient(
+    companyId: number,
+    dto: Omit<CreateB2BInvoiceDto, 'dueDate'>,
+    tx: PrismaTransactionClient,
+  ): Promise<{
+    company: { id: number } | null;
+    email: string;
+    details: Record<string, any>;
+  }> {
+    if (!dto.toCompanyId) {
+      return {
+        company: null,
+        email: dto.toCompanyEmail,
+        details: {
+          companyName: dto.toCompanyName,
+          contactName: dto.toCompanyContactName,
+          email: dto.toCompanyEmail,
+          address1: dto.toCompanyAddress,
+          taxId: dto.toCompanyTaxId,
+        },
+      };
+    }
+
+    if (dto.toCompanyId === companyId) {
+      throw new BadRequestException(ErrorInvoice.CannotInvoiceOwnCompany);
+    }
+
+    const company = await this.companyRepository.findById(dto.toCompanyId, tx);
+
+    if (!company) {
+      throw new NotFoundException(ErrorInvoice.RecipientCompanyNotFound);
+    }
+
+    if (!company.isActive) {
+      throw new BadRequestException(ErrorInvoice.RecipientCompanyInactive);
+    }
+
+    // find the only team member of the recipient company
+    const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
+      company.id,
+      tx,
+    );
+    const email = company.notificationEmail || teamMember?.user?.email;
+
+    return {
+      company,
+      email,
+      details: {
+        companyName: company.companyName,
+        address1: company.address1,
+        address2: company.address2,
+        city: company.city,
+        country: company.country,
+        postalCode: company.postalCode,
+        email,
+        taxId: company.taxId,
+      },
+    };
+  }
+
+  /**
+   * Allocate the number of a B2B invoice from the company's numbering sequence
+   * (the default B2B sequence when the company has not configured one)
+   */
+  private async generateB2BInvoiceNumber(
+    companyId: number,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<Pick<InvoiceCreateInput, 'invoiceNumber' | 'numberingCompany'>> {
+    const invoiceNumber =
+      await this.invoiceNumberSequenceService.allocateB2BInvoiceNumber(
+        companyId,
+        issueDate,
+        tx,
+      );
+
+    return {
+      invoiceNumber,
+      numberingCompany: { connect: { id: companyId } },
+    };
+  }
+}
@@ -0,0 +1,375 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  CreditNoteLine,
+  CreditNoteRepository,
+  CreditNoteWithInvoice,
+} from '../repositories/credit-note.repository';
+import {
+  getInvoiceIssuerCompanyId,
+  getInvoicePayerCompanyId,
+  InvoiceRepository,
+  InvoiceWithRelations,
+} from '../repositories/invoice.repository';
+import {
+  getChanges,
+  InvoiceEventRepository,
+} from '../repositories/invoice-event.repository';
+import { InvoiceNumberSequenceService } from './invoice-number-sequence.service';
+import { CreateCreditNoteDto } from '../invoice.dto';
+import { CreditNoteModel } from 'src/database/generated/models';
+import {
+  BillStatusEnum,
+  InvoiceEventActionEnum,
+  InvoiceEventActorEnum,
+  InvoiceStatusEnum,
+  NumberingSequenceTypeEnum,
+} from 'src/database/generated/client';
+import { PrismaService } from 'src/database/prisma.service';
+import { JsonValue } from '@prisma/client/runtime/client';
+import { ErrorCreditNote, ErrorInvoice } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+import {
+  BillRepository,
+  getBillOutstandingAmount,
+  UNPAID_BILL_STATUSES,
+} from 'src/modules/bill/bill.repository';
+
+@Injectable()
+export class CreditNoteService {
+  private readonly logger = new Logger(CreditNoteService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly creditNoteRepository: CreditNoteRepository,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
+    private readonly invoiceNumberSequenceService: InvoiceNumberSequenceService,
+    private readonly billRepository: BillRepository,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the credit notes of an invoice, visible to the issuing and the paying company
+   */
+  async getCreditNotes(
+    invoiceUUID: string,
+    companyId: number,
+  ): Promise<CreditNoteModel[]> {
+    try {
+      const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
+
+      if (!invoice) {
+        throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+      }
+
+      if (
+        getInvoiceIssuerCompanyId(invoice) !== companyId &&
+        getInvoicePayerCompanyId(invoice) !== companyId
+      ) {
+        throw new ForbiddenException(ErrorInvoice.InvoiceNotBelongsToCompany);
+      }
+
+      return this.creditNoteRepository.findByInvoiceId(invoice.id);
+    } catch (error) {
+      this.logger.error('Error fetching credit notes:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get a credit note, visible to the issuing and the paying company
+   */
+  async getCreditNote(
+    creditNoteUUID: string,
+    companyId: number,
+  ): Promise<CreditNoteWithInvoice> {
+    try {
+      const creditNote =
+        await this.creditNoteRepository.findByUUID(creditNoteUUID);
+
+      if (
+        !creditNote ||
+        (creditNote.companyId !== companyId &&
+          getInvoicePayerCompanyId(creditNote.invoice) !== companyId)
+      ) {
+        throw new NotFoundException(ErrorCreditNote.CreditNoteNotFound);
+      }
+
+      return creditNote;
+    } catch (error) {
+      this.logger.error('Error fetching credit note:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion GET METHODS
+
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  /**
+   * Issue a credit note against a confirmed or paid invoice, crediting some of its items or an amount.
+   * The credited amount is deducted from the outstanding balance of the invoice's bill.
+   */
+  async createCreditNote(
+    invoiceUUID: string,
+    companyId: number,
+    email: string,
+    dto: CreateCreditNoteDto,
+  ): Promise<CreditNoteModel> {
+    try {
+      return await this.prisma.$transaction(
+        async (tx) => {
+          const invoice = await this.invoiceRepository.findByUUID(
+            invoiceUUID,
+            tx,
+          );
+
+          if (!invoice) {
+            throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+          }
+
+          // Only the issuer of the invoice can credit it
+          if (getInvoiceIssuerCompanyId(invoice) !== companyId) {
+            throw new ForbiddenException(ErrorInvoice.NotOwner);
+          }
+
+          const creditableStatuses: InvoiceStatusEnum[] = [
+            InvoiceStatusEnum.CONFIRMED,
+            InvoiceStatusEnum.OVERDUE,
+            InvoiceStatusEnum.PAID,
+          ];
+          if (!creditableStatuses.includes(invoice.status)) {
+            throw new BadRequestException(ErrorCreditNote.InvoiceNotCreditable);
+          }
+
+          const lines = this.getCreditedLines(invoice, dto);
+          const amount = lines.reduce(
+            (sum, line) => sum + parseFloat(line.amount),
+            0,
+          );
+
+          if (amount <= 0) {
+            throw new BadRequestException(ErrorCreditNote.InvalidAmount);
+          }
+
+          // The invoice cannot be credited for more than its total
+          const existingCreditNotes =
+            await this.creditNoteRepository.findByInvoiceId(invoice.id, tx);
+          const creditedAmount = existingCreditNotes.reduce(
+            (sum, creditNote) => sum + parseFloat(creditNote.amount),
+            0,
+          );
+          const totalCreditedAmount = creditedAmount + amount;
+
+          // Instalments already paid on an unpaid bill cannot be credited
+          const paidAmount =
+            invoice.bill && UNPAID_BILL_STATUSES.includes(invoice.bill.status)
+              ? parseFloat(invoice.bill.paidAmount)
+              : 0;
+
+          if (
+            totalCreditedAmount + paidAmount - parseFloat(invoice.total) >
+            0.001
+          ) {
+            throw new BadRequestException(ErrorCreditNote.AmountExceedsInvoice);
+          }
+
+          const issueDate = new Date();
+          const creditNoteNumber = await this.generateCreditNoteNumber(
+            companyId,
+            issueDate,
+            tx,
+          );
+
+          const creditNote = await this.creditNoteRepository.create(
+            {
+              invoice: { connect: { id: invoice.id } },
+              company: { connect: { id: companyId } },
+              creditNoteNumber,
+              issueDate,
+              reason: dto.reason,
+              items: lines as unknown as JsonValue,
+              amount: amount.toFixed(2),
+              currency: invoice.currency,
+            },
+            tx,
+          );
+
+          const status = invoice.bill
+            ? await this.adjustBill(invoice, totalCreditedAmount, tx)
+            : invoice.status;
+
+          await this.invoiceEventRepository.createEvent(
+            { id: invoice.id },
+            InvoiceEventActionEnum.CREDIT_NOTE_ISSUED,
+            { type: InvoiceEventActorEnum.COMPANY, email },
+            {
+              billId: invoice.bill?.id,
+              changes: getChanges(invoice, { status }, ['status']),
+              metadata: {
+                creditNoteNumber,
+                amount: creditNote.amount,
+                reason: creditNote.reason,
+              },
+            },
+            tx,
+          );
+
+          return creditNote;
+        },
+        {
+          timeout: 30000, // 30 seconds max execution time
+        },
+      );
+    } catch (error) {
+      this.logger.error('Error creating credit note:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion POST METHODS
+
+  /**
+   * Build the credited lines: the given invoice items (whole or partial quantity), or a single amount line
+   */
+  private getCreditedLines(
+    invoice: InvoiceWithRelations,
+    dto: CreateCreditNoteDto,
+  ): CreditNoteLine[] {
+    if (dto.items && dto.amount) {
+      throw new BadRequestException(ErrorCreditNote.ItemsAndAmountExclusive);
+    }
+
+    if (dto.amount) {
+      return [
+        {
+          invoiceItemUUID: null,
+          description:
+            dto.reason ?? `Credit on invoice ${invoice.invoiceNumber}`,
+          quantity: '1',
+          unitPrice: parseFloat(dto.amount).toFixed(2),
+          amount: parseFloat(dto.amount).toFixed(2),
+        },
+      ];
+    }
+
+    return dto.items.map((creditedItem) => {
+      const item = invoice.items.find(
+        (invoiceItem) => invoiceItem.uuid === creditedItem.invoiceItemUUID,
+      );
+
+      if (!item) {
+        throw new BadRequestException(ErrorCreditNote.InvoiceItemNotFound);
+      }
+
+      const quantity = creditedItem.quantity ?? item.quantity;
+
+      if (parseFloat(quantity) > parseFloat(item.quantity)) {
+        throw new BadRequestException(ErrorCreditNote.QuantityExceedsItem);
+      }
+
+      // Credit the share of the item total (including its tax and discount) for the credited quantity
+      const amount =
+        (parseFloat(item.total) * parseFloat(quantity)) /
+        parseFloat(item.quantity);
+
+      return {
+        invoiceItemUUID: item.uuid,
+        description: item.description,
+        quantity,
+        unitPrice: item.unitPrice,
+        amount: amount.toFixed(2),
+      };
+    });
+  }
+
+  /**
+   * Record the credited amount on the invoice's bill.
+   * An unpaid bill whose balance is fully credited has nothing left to pay: it is paid when instalments
+   * were already made, cancelled otherwise, and the invoice follows.
+   * Returns the status of the invoice.
+   */
+  private async adjustBill(
+    invoice: InvoiceWithRelations,
+    totalCreditedAmount: number,
+    tx: PrismaTransactionClient,
+  ): Promise<InvoiceStatusEnum> {
+    const creditedAmount = totalCreditedAmount.toFixed(2);
+    const isSettled =
+      UNPAID_BILL_STATUSES.includes(invoice.bill.status) &&
+      parseFloat(
+        getBillOutstandingAmount({
+          creditedAmount,
+          paidAmount: invoice.bill.paidAmount,
+          invoice,
+        }),
+      ) < 0.01;
+
+    if (!isSettled) {
+      await this.billRepository.update(
+        { id: invoice.bill.id },
+        { creditedAmount },
+        tx,
+      );
+      return invoice.status;
+    }
+
+    const isPaid = parseFloat(invoice.bill.paidAmount) > 0;
+    const paidAt = isPaid ? new Date() : undefined;
+
+    await this.billRepository.update(
+      { id: invoice.bill.id },
+      {
+        creditedAmount,
+        status: isPaid ? BillStatusEnum.PAID : BillStatusEnum.CANCELLED,
+        paidAt,
+      },
+      tx,
+    );
+
+    const status = isPaid
+      ? InvoiceStatusEnum.PAID
+      : InvoiceStatusEnum.CANCELLED;
+
+    await this.invoiceRepository.update(
+      { id: invoice.id },
+      { status, paidAt },
+      tx,
+    );
+
+    return status;
+  }
+
+  /**
+   * Allocate the number of a credit note from the company's numbering sequence,
+   * falling back to the legacy per-company numbering when the company has none
+   */
+  private async generateCreditNoteNumber(
+    companyId: number,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<string> {
+    const creditNoteNumber =
+      await this.invoiceNumberSequenceService.allocateInvoiceNumber(
+        companyId,
+        NumberingSequenceTypeEnum.CREDIT_NOTE,
+        issueDate,
+        tx,
+      );
+
+    return (
+      creditNoteNumber ??
+      this.creditNoteRepository.generateCreditNoteNumber(companyId, tx)
+    );
+  }
+}
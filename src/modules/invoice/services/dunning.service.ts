@@ -0,0 +1,351 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { DunningRuleRepository } from '../repositories/dunning-rule.repository';
+import { InvoiceReminderRepository } from '../repositories/invoice-reminder.repository';
+import {
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../repositories/invoice-event.repository';
+import {
+  getInvoiceAmountDue,
+  InvoiceRepository,
+  RemindableInvoice,
+} from '../repositories/invoice.repository';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import { PrismaService } from '../../../database/prisma.service';
+import { UpdateDunningRulesDto } from '../invoice.dto';
+import { DunningRuleModel, CompanyModel } from 'src/database/generated/models';
+import {
+  InvoiceEventActionEnum,
+  InvoiceTypeEnum,
+  NotificationsTypeEnum,
+  TeamMemberRoleEnum,
+} from 'src/database/generated/client';
+import { ErrorDunning } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { ONE_DAY_MS } from 'src/common/constants';
+import { addDays } from 'src/common/utils/pay-frequency.util';
+import { MailService } from 'src/modules/mail/mail.service';
+import { NotificationService } from 'src/modules/notification/notification.service';
+import { TokenDto } from 'src/modules/employee/employee.dto';
+
+@Injectable()
+export class DunningService {
+  private readonly logger = new Logger(DunningService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly dunningRuleRepository: DunningRuleRepository,
+    private readonly invoiceReminderRepository: InvoiceReminderRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+    private readonly mailService: MailService,
+    private readonly notificationService: NotificationService,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the payment reminders configured by a company
+   */
+  async getDunningRules(companyId: number): Promise<DunningRuleModel[]> {
+    try {
+      return await this.dunningRuleRepository.findByCompanyId(companyId);
+    } catch (error) {
+      this.logger.error('Error fetching dunning rules:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion GET METHODS
+
+  //#region PUT METHODS
+  // *************************************************
+  // **************** PUT METHODS ********************
+  // *************************************************
+  /**
+   * Replace the payment reminders of a company (company owners and admins only)
+   */
+  async updateDunningRules(
+    companyId: number,
+    userId: number,
+    dto: UpdateDunningRulesDto,
+  ): Promise<DunningRuleModel[]> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const canConfigure = await this.teamMemberRepository.hasPermission(
+          companyId,
+          userId,
+          [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+          tx,
+        );
+
+        if (!canConfigure) {
+          throw new ForbiddenException(ErrorDunning.InsufficientPermissions);
+        }
+
+        const offsets = new Set(dto.rules.map((rule) => rule.offsetDays));
+
+        if (offsets.size !== dto.rules.length) {
+          throw new BadRequestException(ErrorDunning.DuplicateOffset);
+        }
+
+        return this.dunningRuleRepository.replaceForCompany(
+          companyId,
+          dto.rules.map((rule) => ({
+            offsetDays: rule.offsetDays,
+            isActive: rule.isActive ?? true,
+            message: rule.message,
+          })),
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error('Error updating dunning rules:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion PUT METHODS
+
+  /**
+   * Send the payment reminders due by the given date (used by scheduled job).
+   * Each unpaid invoice gets the latest reminder it reached once, earlier reminders it skipped are not sent.
+   * Returns the number of reminders sent.
+   */
+  async sendDueReminders(date: Date = new Date()): Promise<number> {
+    const rules = await this.dunningRuleRepository.findActive();
+
+    const rulesByCompany = new Map<number, DunningRuleModel[]>();
+    for (const rule of rules) {
+      rulesByCompany.set(rule.companyId, [
+        ...(rulesByCompany.get(rule.companyId) ?? []),
+        rule,
+      ]);
+    }
+
+    let sentCount = 0;
+    for (const [companyId, companyRules] of rulesByCompany) {
+      try {
+        sentCount += await this.sendCompanyReminders(
+          companyId,
+          companyRules,
+          date,
+        );
+      } catch (error) {
+        this.logger.error(
+          `Failed to send payment reminders of company ${companyId}:`,
+          error,
+        );
+      }
+    }
+
+    return sentCount;
+  }
+
+  /**
+   * Send the reminders of a company's unpaid invoices.
+   * The company pays its employee invoices itself, their overdue reminders are grouped in one overdue bills email.
+   */
+  private async sendCompanyReminders(
+    companyId: number,
+    rules: DunningRuleModel[],
+    date: Date,
+  ): Promise<number> {
+    // Invoices that reached the earliest reminder, rules are sorted by offset
+    const invoices = await this.invoiceRepository.findRemindableInvoices(
+      companyId,
+      addDays(date, -rules[0].offsetDays),
+    );
+    const finalOffsetDays = rules[rules.length - 1].offsetDays;
+
+    let sentCount = 0;
+    const overdueBills: { invoice: RemindableInvoice; amountDue: string }[] =
+      [];
+
+    for (const invoice of invoices) {
+      const rule = this.getReachedRule(invoice, rules, date);
+
+      if (!rule) {
+        continue;
+      }
+
+      try {
+        const amountDue = getInvoiceAmountDue(invoice, date);
+        const isOverdueBill =
+          invoice.invoiceType === InvoiceTypeEnum.EMPLOYEE &&
+          rule.offsetDays > 0;
+        const isFinalNotice =
+          rule.offsetDays > 0 && rule.offsetDays === finalOffsetDays;
+
+        await this.prisma.$transaction(async (tx) => {
+          const company =
+            invoice.invoiceType === InvoiceTypeEnum.B2B
+              ? invoice.toCompany
+              : invoice.payroll.company;
+          const sentTo =
+            invoice.invoiceType === InvoiceTypeEnum.B2B
+              ? invoice.emailTo
+              : await this.getCompanyEmail(company);
+
+          // Logged first so a reminder is never sent twice for the same step
+          await this.invoiceReminderRepository.create(
+            {
+              invoice: { connect: { id: invoice.id } },
+              offsetDays: rule.offsetDays,
+              sentTo,
+              amountDue,
+              isFinalNotice,
+            },
+            tx,
+          );
+
+          await this.invoiceEventRepository.createEvent(
+            { id: invoice.id },
+            InvoiceEventActionEnum.REMINDER_SENT,
+            SYSTEM_ACTOR,
+            {
+              metadata: {
+                offsetDays: rule.offsetDays,
+                sentTo,
+                amountDue,
+                isFinalNotice,
+              },
+            },
+            tx,
+          );
+
+          if (isOverdueBill) {
+            return;
+          }
+
+          await this.mailService.sendInvoicePaymentReminder(
+            sentTo,
+            invoice.invoiceNumber,
+            invoice.uuid,
+            invoice.dueDate,
+            invoice.invoiceType === InvoiceTypeEnum.B2B
+              ? invoice.fromCompany.companyName
+              : invoice.employee.name,
+            company?.companyName ??
+              invoice.toCompanyContactName ??
+              invoice.toCompanyName,
+            amountDue,
+            (invoice.paymentToken as unknown as TokenDto).name,
+            Math.round(
+              (date.getTime() - invoice.dueDate.getTime()) / ONE_DAY_MS,
+            ),
+            isFinalNotice,
+            rule.message,
+            invoice.publicToken,
+            invoice.invoiceType === InvoiceTypeEnum.EMPLOYEE,
+          );
+        });
+
+        if (isOverdueBill) {
+          overdueBills.push({ invoice, amountDue });
+        }
+
+        await this.notifyPayee(invoice, rule);
+        sentCount++;
+      } catch (error) {
+        this.logger.error(
+          `Failed to send payment reminder for invoice ${invoice.invoiceNumber}:`,
+          error,
+        );
+      }
+    }
+
+    if (overdueBills.length > 0) {
+      const totalAmount = overdueBills.reduce(
+        (sum, { amountDue }) => sum + parseFloat(amountDue),
+        0,
+      );
+
+      await this.mailService.sendOverdueBillNotification(
+        await this.getCompanyEmail(overdueBills[0].invoice.payroll.company),
+        overdueBills.length,
+        totalAmount.toFixed(2),
+      );
+    }
+
+    return sentCount;
+  }
+
+  /**
+   * Latest reminder an invoice reached and has not been sent yet.
+   * Reminders due before the invoice was sent are skipped.
+   */
+  private getReachedRule(
+    invoice: RemindableInvoice,
+    rules: DunningRuleModel[],
+    date: Date,
+  ): DunningRuleModel | null {
+    const sentAt = invoice.sentAt ?? invoice.issueDate;
+    const reachedRules = rules.filter((rule) => {
+      const remindAt = addDays(invoice.dueDate, rule.offsetDays);
+      return remindAt <= date && remindAt >= sentAt;
+    });
+    const rule = reachedRules[reachedRules.length - 1];
+
+    if (
+      !rule ||
+      invoice.reminders.some(
+        (reminder) => reminder.offsetDays >= rule.offsetDays,
+      )
+    ) {
+      return null;
+    }
+
+    return rule;
+  }
+
+  /**
+   * Let the payee know in-app that the payer was reminded
+   */
+  private async notifyPayee(
+    invoice: RemindableInvoice,
+    rule: DunningRuleModel,
+  ): Promise<void> {
+    try {
+      await this.notificationService.createNotification({
+        title: `Payment reminder sent for invoice ${invoice.invoiceNumber}`,
+        message:
+          rule.offsetDays > 0
+            ? `Invoice ${invoice.invoiceNumber} is ${rule.offsetDays} day(s) overdue, the payer was reminded`
+            : `The payer was reminded that invoice ${invoice.invoiceNumber} is due`,
+        type: NotificationsTypeEnum.INVOICE_REMINDER,
+        metadata: {
+          invoiceUUID: invoice.uuid,
+          offsetDays: rule.offsetDays,
+        },
+        walletAddress: invoice.paymentWalletAddress,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Failed to create reminder notification for invoice ${invoice.invoiceNumber}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Email address receiving the notifications of a company
+   */
+  private async getCompanyEmail(company: CompanyModel): Promise<string> {
+    if (company.notificationEmail) {
+      return company.notificationEmail;
+    }
+
+    const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
+      company.id,
+    );
+
+    return teamMember?.user?.email;
+  }
+}
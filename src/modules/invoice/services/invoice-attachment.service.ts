@@ -0,0 +1,399 @@
+import {
+  Injectable,
+  Logger,
+  Inject,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { randomBytes } from 'crypto';
+import { extname } from 'path';
+import { InvoiceAttachmentRepository } from '../repositories/invoice-attachment.repository';
+import {
+  getInvoiceIssuerCompanyId,
+  getInvoicePayerCompanyId,
+  InvoiceRepository,
+  InvoiceWithRelations,
+} from '../repositories/invoice.repository';
+import { InvoiceAttachmentFile } from '../invoice.dto';
+import {
+  BillModel,
+  InvoiceAttachmentModel,
+} from 'src/database/generated/models';
+import {
+  ErrorBill,
+  ErrorInvoice,
+  ErrorInvoiceAttachment,
+} from 'src/common/constants/errors';
+import {
+  ALLOWED_ATTACHMENT_TYPES,
+  MAX_ATTACHMENT_SIZE,
+  MAX_ATTACHMENTS_PER_INVOICE,
+} from 'src/common/constants/attachment';
+import { handleError } from 'src/common/utils/errors';
+import { sanitizeString } from 'src/common/utils/validation.util';
+import {
+  BillRepository,
+  BillWithPayments,
+} from 'src/modules/bill/bill.repository';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import {
+  STORAGE_PROVIDER,
+  StorageProvider,
+} from 'src/modules/storage/storage.provider';
+
+@Injectable()
+export class InvoiceAttachmentService {
+  private readonly logger = new Logger(InvoiceAttachmentService.name);
+
+  constructor(
+    private readonly invoiceAttachmentRepository: InvoiceAttachmentRepository,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly billRepository: BillRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+    @Inject(STORAGE_PROVIDER) private readonly storage: StorageProvider,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the attachments of an invoice, visible to the employee, the issuing and the paying company
+   */
+  async getInvoiceAttachments(
+    invoiceUUID: string,
+    email: string,
+  ): Promise<InvoiceAttachmentModel[]> {
+    try {
+      const invoice = await this.getAccessibleInvoice(invoiceUUID, email);
+
+      return invoice.attachments;
+    } catch (error) {
+      this.logger.error('Error fetching invoice attachments:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Download an attachment of an invoice
+   */
+  async downloadInvoiceAttachment(
+    invoiceUUID: string,
+    attachmentUUID: string,
+    email: string,
+  ): Promise<{ attachment: InvoiceAttachmentModel; content: Buffer }> {
+    try {
+      const invoice = await this.getAccessibleInvoice(invoiceUUID, email);
+      const attachment = invoice.attachments.find(
+        (invoiceAttachment) => invoiceAttachment.uuid === attachmentUUID,
+      );
+
+      if (!attachment) {
+        throw new NotFoundException(ErrorInvoiceAttachment.AttachmentNotFound);
+      }
+
+      return {
+        attachment,
+        content: await this.storage.read(attachment.storageKey),
+      };
+    } catch (error) {
+      this.logger.error('Error downloading invoice attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the attachments of a bill: the documents attached to its invoice and to the bill
+   */
+  async getBillAttachments(
+    billUUID: string,
+    companyId: number,
+  ): Promise<InvoiceAttachmentModel[]> {
+    try {
+      const bill = await this.getCompanyBill(billUUID, companyId);
+
+      return this.invoiceAttachmentRepository.findByBill(bill);
+    } catch (error) {
+      this.logger.error('Error fetching bill attachments:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Download an attachment of a bill or of its invoice
+   */
+  async downloadBillAttachment(
+    billUUID: string,
+    attachmentUUID: string,
+    companyId: number,
+  ): Promise<{ attachment: InvoiceAttachmentModel; content: Buffer }> {
+    try {
+      const bill = await this.getCompanyBill(billUUID, companyId);
+      const attachment = await this.getBillAttachment(bill, attachmentUUID);
+
+      return {
+        attachment,
+        content: await this.storage.read(attachment.storageKey),
+      };
+    } catch (error) {
+      this.logger.error('Error downloading bill attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion GET METHODS
+
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  /**
+   * Attach a document to an invoice, as the employee or a member of the issuing company
+   */
+  async uploadInvoiceAttachment(
+    invoiceUUID: string,
+    email: string,
+    file: InvoiceAttachmentFile,
+  ): Promise<InvoiceAttachmentModel> {
+    try {
+      const invoice = await this.getAccessibleInvoice(invoiceUUID, email, {
+        isUpload: true,
+      });
+
+      return await this.saveAttachment(invoice, null, email, file);
+    } catch (error) {
+      this.logger.error('Error uploading invoice attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Attach a document to a bill, as a member of the paying company
+   */
+  async uploadBillAttachment(
+    billUUID: string,
+    companyId: number,
+    email: string,
+    file: InvoiceAttachmentFile,
+  ): Promise<InvoiceAttachmentModel> {
+    try {
+      const bill = await this.getCompanyBill(billUUID, companyId);
+
+      return await this.saveAttachment(bill.invoice, bill, email, file);
+    } catch (error) {
+      this.logger.error('Error uploading bill attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion POST METHODS
+
+  //#region DELETE METHODS
+  // *************************************************
+  // **************** DELETE METHODS *****************
+  // *************************************************
+  /**
+   * Delete an attachment of an invoice, only the person who uploaded it can
+   */
+  async deleteInvoiceAttachment(
+    invoiceUUID: string,
+    attachmentUUID: string,
+    email: string,
+  ): Promise<void> {
+    try {
+      const invoice = await this.getAccessibleInvoice(invoiceUUID, email);
+      const attachment = invoice.attachments.find(
+        (invoiceAttachment) => invoiceAttachment.uuid === attachmentUUID,
+      );
+
+      if (!attachment) {
+        throw new NotFoundException(ErrorInvoiceAttachment.AttachmentNotFound);
+      }
+
+      await this.deleteAttachment(attachment, email);
+    } catch (error) {
+      this.logger.error('Error deleting invoice attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Delete an attachment of a bill, only the person who uploaded it can
+   */
+  async deleteBillAttachment(
+    billUUID: string,
+    attachmentUUID: string,
+    companyId: number,
+    email: string,
+  ): Promise<void> {
+    try {
+      const bill = await this.getCompanyBill(billUUID, companyId);
+      const attachment = await this.getBillAttachment(bill, attachmentUUID);
+
+      await this.deleteAttachment(attachment, email);
+    } catch (error) {
+      this.logger.error('Error deleting bill attachment:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion DELETE METHODS
+
+  /**
+   * Store an uploaded file and record it on the invoice (and bill)
+   */
+  private async saveAttachment(
+    invoice: { id: number; uuid: string },
+    bill: BillModel | null,
+    email: string,
+    file: InvoiceAttachmentFile,
+  ): Promise<InvoiceAttachmentModel> {
+    this.validateFile(file);
+
+    const attachmentCount =
+      await this.invoiceAttachmentRepository.countByInvoiceId(invoice.id);
+
+    if (attachmentCount >= MAX_ATTACHMENTS_PER_INVOICE) {
+      throw new BadRequestException(ErrorInvoiceAttachment.TooManyAttachments);
+    }
+
+    // Files are stored under a random name, the original name is only kept in the database
+    const fileName = sanitizeString(file.originalname).slice(0, 255) || 'file';
+    const storageKey = `invoices/${invoice.uuid}/${randomBytes(16).toString('hex')}${extname(fileName).toLowerCase()}`;
+
+    await this.storage.save(storageKey, file.buffer, file.mimetype);
+
+    try {
+      return await this.invoiceAttachmentRepository.create({
+        invoice: { connect: { id: invoice.id } },
+        ...(bill && { bill: { connect: { id: bill.id } } }),
+        fileName,
+        contentType: file.mimetype,
+        size: file.size,
+        storageKey,
+        uploadedByEmail: email,
+      });
+    } catch (error) {
+      await this.storage.delete(storageKey);
+      throw error;
+    }
+  }
+
+  /**
+   * Delete an attachment and its stored file
+   */
+  private async deleteAttachment(
+    attachment: InvoiceAttachmentModel,
+    email: string,
+  ): Promise<void> {
+    if (attachment.uploadedByEmail !== email) {
+      throw new ForbiddenException(ErrorInvoiceAttachment.NotUploader);
+    }
+
+    await this.invoiceAttachmentRepository.delete({ id: attachment.id });
+
+    try {
+      await this.storage.delete(attachment.storageKey);
+    } catch (error) {
+      this.logger.error(
+        `Failed to delete stored file of attachment ${attachment.uuid}:`,
+        error,
+      );
+    }
+  }
+
+  /**
+   * Check the size and type of an uploaded file
+   */
+  private validateFile(file: InvoiceAttachmentFile): void {
+    if (!file?.buffer || file.size === 0) {
+      throw new BadRequestException(ErrorInvoiceAttachment.FileRequired);
+    }
+
+    if (file.size > MAX_ATTACHMENT_SIZE) {
+      throw new BadRequestException(ErrorInvoiceAttachment.FileTooLarge);
+    }
+
+    if (!ALLOWED_ATTACHMENT_TYPES.includes(file.mimetype)) {
+      throw new BadRequestException(ErrorInvoiceAttachment.FileTypeNotAllowed);
+    }
+  }
+
+  /**
+   * Ensure the invoice exists and the user can access its attachments:
+   * the employee and the issuing company can read and upload, the paying company can read
+   */
+  private async getAccessibleInvoice(
+    invoiceUUID: string,
+    email: string,
+    options?: { isUpload?: boolean },
+  ): Promise<InvoiceWithRelations> {
+    const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
+
+    if (!invoice) {
+      throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+    }
+
+    if (invoice.employee?.email === email) {
+      return invoice;
+    }
+
+    const companyIds = options?.isUpload
+      ? [getInvoiceIssuerCompanyId(invoice)]
+      : [getInvoiceIssuerCompanyId(invoice), getInvoicePayerCompanyId(invoice)];
+
+    for (const companyId of new Set(companyIds)) {
+      const teamMember = companyId
+        ? await this.teamMemberRepository.findByCompanyAndEmail(
+            companyId,
+            email,
+          )
+        : null;
+
+      if (teamMember) {
+        return invoice;
+      }
+    }
+
+    throw new ForbiddenException(
+      ErrorInvoiceAttachment.NotAttachmentAuthorized,
+    );
+  }
+
+  /**
+   * Ensure the bill exists and belongs to the given company
+   */
+  private async getCompanyBill(
+    billUUID: string,
+    companyId: number,
+  ): Promise<BillWithPayments> {
+    const bill = await this.billRepository.findByUUIDWithInvoice(
+      billUUID,
+      companyId,
+    );
+
+    if (!bill) {
+      throw new NotFoundException(ErrorBill.BillNotFound);
+    }
+
+    return bill;
+  }
+
+  /**
+   * Find an attachment of a bill or of its invoice
+   */
+  private async getBillAttachment(
+    bill: BillModel,
+    attachmentUUID: string,
+  ): Promise<InvoiceAttachmentModel> {
+    const attachment =
+      await this.invoiceAttachmentRepository.findByUUIDAndInvoiceId(
+        attachmentUUID,
+        bill.invoiceId,
+      );
+
+    if (!attachment) {
+      throw new NotFoundException(ErrorInvoiceAttachment.AttachmentNotFound);
+    }
+
+    return attachment;
+  }
+}
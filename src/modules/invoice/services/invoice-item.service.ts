@@ -1,11 +1,30 @@
 import { Injectable, Logger, NotFoundException } from '@nestjs/common';
 import { InvoiceItemRepository } from '../repositories/invoice-item.repository';
-import { InvoiceRepository } from '../repositories/invoice.repository';
+import {
+  getInvoiceIssuerCompanyId,
+  InvoiceRepository,
+} from '../repositories/invoice.repository';
+import {
+  getChanges,
+  InvoiceEventActor,
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../repositories/invoice-event.repository';
+import { TaxRateService } from './tax-rate.service';
 import { PrismaService } from '../../../database/prisma.service';
 import { CreateInvoiceItemDto, UpdateInvoiceItemDto } from '../invoice.dto';
 import { ErrorInvoice, ErrorInvoiceItem } from 'src/common/constants/errors';
-import { InvoiceTypeEnum } from 'src/database/generated/enums';
+import {
+  InvoiceEventActionEnum,
+  InvoiceTypeEnum,
+} from 'src/database/generated/enums';
 import { PrismaTransactionClient } from 'src/database/base.repository';
+import { recalculateInvoicePaymentSplits } from 'src/common/utils/payout-split.util';
+import { JsonValue } from '@prisma/client/runtime/client';
+import {
+  calculateLineItemTaxes,
+  getItemTaxDefinitions,
+} from 'src/common/utils/tax.util';
 
 @Injectable()
 export class InvoiceItemService {
@@ -14,6 +33,8 @@ export class InvoiceItemService {
   constructor(
     private readonly itemRepository: InvoiceItemRepository,
     private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
+    private readonly taxRateService: TaxRateService,
     private readonly prisma: PrismaService,
   ) {}
 
@@ -36,39 +57,55 @@ export class InvoiceItemService {
     invoiceUUID: string,
     items: CreateInvoiceItemDto[],
     tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
   ): Promise<any[]> {
-    // Calculate totals for each item
-    const itemsToCreate = items.map((dto, index) => {
-      const quantity = parseFloat(dto.quantity);
-      const unitPrice = parseFloat(dto.unitPrice);
-      const discount = parseFloat(dto.discount || '0');
-      const taxRate = parseFloat(dto.taxRate || '0');
+    const invoiceItems = await this.addItems(invoiceUUID, items, tx);
 
-      const subtotal = quantity * unitPrice;
-      const afterDiscount = subtotal - discount;
-      const tax = (afterDiscount * taxRate) / 100;
-      const total = afterDiscount + tax;
+    await this.invoiceEventRepository.createEvent(
+      { uuid: invoiceUUID },
+      InvoiceEventActionEnum.ITEMS_ADDED,
+      actor,
+      { metadata: { items: items.map((item) => this.getItemSummary(item)) } },
+      tx,
+    );
 
-      return {
-        invoiceUuid: invoiceUUID,
-        description: dto.description,
-        quantity: dto.quantity,
-        unitPrice: dto.unitPrice,
-        unit: dto.unit,
-        taxRate: dto.taxRate || '0.00',
-        discount: dto.discount || '0.00',
-        total: total.toFixed(2),
-        order: dto.order ?? index,
-        metadata: dto.metadata,
-      };
-    });
+    return invoiceItems;
+  }
 
-    await this.itemRepository.createItems(itemsToCreate, tx);
+  /**
+   * Replace all the items of an invoice
+   */
+  async replaceItems(
+    invoiceUUID: string,
+    items: CreateInvoiceItemDto[],
+    tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
+  ): Promise<any[]> {
+    const previousItems = await this.itemRepository.findByInvoiceUuid(
+      invoiceUUID,
+      tx,
+    );
 
-    // Recalculate invoice totals
-    await this.recalculateInvoiceTotals(invoiceUUID, tx);
+    await this.itemRepository.deleteByInvoiceId(invoiceUUID, tx);
 
-    return this.itemRepository.findByInvoiceUuid(invoiceUUID, tx);
+    const invoiceItems = await this.addItems(invoiceUUID, items, tx);
+
+    await this.invoiceEventRepository.createEvent(
+      { uuid: invoiceUUID },
+      InvoiceEventActionEnum.ITEMS_REPLACED,
+      actor,
+      {
+        changes: {
+          items: {
+            before: previousItems.map((item) => this.getItemSummary(item)),
+            after: invoiceItems.map((item) => this.getItemSummary(item)),
+          },
+        },
+      },
+      tx,
+    );
+
+    return invoiceItems;
   }
 
   /**
@@ -79,6 +116,7 @@ export class InvoiceItemService {
     invoiceUUID: string,
     dto: UpdateInvoiceItemDto,
     tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
   ): Promise<any> {
     // Verify item exists and belongs to invoice
     const item = await this.itemRepository.findById(id, tx);
@@ -87,25 +125,48 @@ export class InvoiceItemService {
       throw new NotFoundException(ErrorInvoiceItem.InvoiceItemNotFound);
     }
 
-    const updateData: any = { ...dto };
+    const { taxRateUUIDs, ...itemData } = dto;
+    const updateData: any = { ...itemData };
 
     if (
       dto.quantity ||
       dto.unitPrice ||
       dto.discount !== undefined ||
-      dto.taxRate !== undefined
+      dto.taxRate !== undefined ||
+      taxRateUUIDs !== undefined ||
+      dto.isTaxExempt !== undefined ||
+      dto.isTaxInclusive !== undefined
     ) {
-      const quantity = parseFloat(dto.quantity || item.quantity);
-      const unitPrice = parseFloat(dto.unitPrice || item.unitPrice);
-      const discount = parseFloat(dto.discount ?? item.discount);
-      const taxRate = parseFloat(dto.taxRate ?? item.taxRate);
+      // Keep the taxes of the item unless its tax selection changes
+      const isTaxSelectionChanged =
+        dto.taxRate !== undefined ||
+        taxRateUUIDs !== undefined ||
+        dto.isTaxExempt !== undefined;
+      const [taxes] = isTaxSelectionChanged
+        ? await this.taxRateService.resolveItemTaxes(
+            await this.getIssuerCompanyId(invoiceUUID, tx),
+            [
+              {
+                taxRateUUIDs,
+                taxRate: dto.taxRate,
+                isTaxExempt: dto.isTaxExempt ?? item.isTaxExempt,
+              },
+            ],
+            tx,
+          )
+        : [getItemTaxDefinitions(item)];
 
-      const subtotal = quantity * unitPrice;
-      const afterDiscount = subtotal - discount;
-      const tax = (afterDiscount * taxRate) / 100;
-      const total = afterDiscount + tax;
+      const line = calculateLineItemTaxes({
+        quantity: dto.quantity || item.quantity,
+        unitPrice: dto.unitPrice || item.unitPrice,
+        discount: dto.discount ?? item.discount,
+        taxes,
+        isTaxInclusive: dto.isTaxInclusive ?? item.isTaxInclusive,
+      });
 
-      updateData.total = total.toFixed(2);
+      updateData.taxRate = line.taxRate;
+      updateData.taxes = line.taxes;
+      updateData.total = line.total.toFixed(2);
     }
 
     const updated = await this.itemRepository.updateItem(id, updateData, tx);
@@ -113,6 +174,27 @@ export class InvoiceItemService {
     // Recalculate invoice totals
     await this.recalculateInvoiceTotals(invoiceUUID, tx);
 
+    await this.invoiceEventRepository.createEvent(
+      { uuid: invoiceUUID },
+      InvoiceEventActionEnum.ITEM_UPDATED,
+      actor,
+      {
+        changes: getChanges(item, updated, [
+          'description',
+          'quantity',
+          'unitPrice',
+          'unit',
+          'discount',
+          'taxRate',
+          'isTaxExempt',
+          'isTaxInclusive',
+          'total',
+        ]),
+        metadata: { itemId: id },
+      },
+      tx,
+    );
+
     return updated;
   }
 
@@ -123,6 +205,7 @@ export class InvoiceItemService {
     id: number,
     invoiceUUID: string,
     tx: PrismaTransactionClient,
+    actor: InvoiceEventActor = SYSTEM_ACTOR,
   ): Promise<void> {
     // Verify item exists and belongs to invoice
     const item = await this.itemRepository.findById(id, tx);
@@ -135,6 +218,14 @@ export class InvoiceItemService {
 
     // Recalculate invoice totals
     await this.recalculateInvoiceTotals(invoiceUUID, tx);
+
+    await this.invoiceEventRepository.createEvent(
+      { uuid: invoiceUUID },
+      InvoiceEventActionEnum.ITEM_DELETED,
+      actor,
+      { metadata: { item: this.getItemSummary(item) } },
+      tx,
+    );
   }
 
   /**
@@ -150,14 +241,33 @@ export class InvoiceItemService {
   }> {
     const totals = await this.itemRepository.calculateTotals(invoiceUUID, tx);
 
-    // Update invoice with new totals
+    // Split invoices re-split the new total across the same payouts
     const client = tx || this.prisma;
+    const invoice = await client.invoice.findUnique({
+      where: { uuid: invoiceUUID },
+      select: {
+        paymentSplits: true,
+        paymentToken: true,
+        paymentNetwork: true,
+        paymentWalletAddress: true,
+      },
+    });
+    const paymentSplits = invoice
+      ? recalculateInvoicePaymentSplits(invoice, totals.total)
+      : null;
+
+    // Update invoice with new totals
     await client.invoice.update({
       where: { uuid: invoiceUUID },
       data: {
         subtotal: totals.subtotal,
+        taxRate: totals.taxRate,
         taxAmount: totals.totalTax,
+        taxBreakdown: totals.taxBreakdown as unknown as JsonValue,
         total: totals.total,
+        ...(paymentSplits && {
+          paymentSplits: paymentSplits as unknown as JsonValue,
+        }),
         // Note: discount is not stored at invoice level, only at item level
       },
     });
@@ -169,6 +279,95 @@ export class InvoiceItemService {
     };
   }
 
+  /**
+   * Create items on an invoice and recalculate its totals, without recording an event
+   */
+  private async addItems(
+    invoiceUUID: string,
+    items: CreateInvoiceItemDto[],
+    tx: PrismaTransactionClient,
+  ): Promise<any[]> {
+    // Taxes of each item, from the tax rates of the company issuing the invoice
+    const companyId = await this.getIssuerCompanyId(invoiceUUID, tx);
+    const itemTaxes = await this.taxRateService.resolveItemTaxes(
+      companyId,
+      items,
+      tx,
+    );
+
+    // Calculate totals for each item
+    const itemsToCreate = items.map((dto, index) => {
+      const line = calculateLineItemTaxes({
+        quantity: dto.quantity,
+        unitPrice: dto.unitPrice,
+        discount: dto.discount,
+        taxes: itemTaxes[index],
+        isTaxInclusive: dto.isTaxInclusive,
+      });
+
+      return {
+        invoiceUuid: invoiceUUID,
+        description: dto.description,
+        quantity: dto.quantity,
+        unitPrice: dto.unitPrice,
+        unit: dto.unit,
+        taxRate: line.taxRate,
+        discount: dto.discount || '0.00',
+        total: line.total.toFixed(2),
+        taxes: line.taxes,
+        isTaxExempt: dto.isTaxExempt ?? false,
+        isTaxInclusive: dto.isTaxInclusive ?? false,
+        order: dto.order ?? index,
+        metadata: dto.metadata,
+      };
+    });
+
+    await this.itemRepository.createItems(itemsToCreate, tx);
+
+    // Recalculate invoice totals
+    await this.recalculateInvoiceTotals(invoiceUUID, tx);
+
+    return this.itemRepository.findByInvoiceUuid(invoiceUUID, tx);
+  }
+
+  /**
+   * Short description of an item recorded in the invoice timeline
+   */
+  private getItemSummary(item: CreateInvoiceItemDto | Record<string, any>): {
+    description: string;
+    quantity: string;
+    unitPrice: string;
+    total?: string;
+  } {
+    return {
+      description: item.description,
+      quantity: item.quantity,
+      unitPrice: item.unitPrice,
+      ...('total' in item && { total: item.total }),
+    };
+  }
+
+  /**
+   * Company issuing the invoice, whose tax rates apply to its items
+   */
+  private async getIssuerCompanyId(
+    invoiceUUID: string,
+    tx: PrismaTransactionClient,
+  ): Promise<number | null> {
+    const client = tx || this.prisma;
+    const invoice = await client.invoice.findUnique({
+      where: { uuid: invoiceUUID },
+      select: {
+        invoiceType: true,
+        fromCompanyId: true,
+        toCompanyId: true,
+        payroll: { select: { companyId: true } },
+      },
+    });
+
+    return invoice ? getInvoiceIssuerCompanyId(invoice) : null;
+  }
+
   /**
    * Ensure invoice exists and belongs to the given company
    */
@@ -0,0 +1,284 @@
+import {
+  Injectable,
+  Logger,
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { InvoiceNumberSequenceRepository } from '../repositories/invoice-number-sequence.repository';
+import { InvoiceRepository } from '../repositories/invoice.repository';
+import { CreditNoteRepository } from '../repositories/credit-note.repository';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import { PrismaService } from '../../../database/prisma.service';
+import {
+  InvoiceNumberSequenceResponseDto,
+  UpsertInvoiceNumberSequenceDto,
+} from '../invoice.dto';
+import {
+  NumberingResetFrequencyEnum,
+  NumberingSequenceTypeEnum,
+  TeamMemberRoleEnum,
+} from 'src/database/generated/client';
+import { InvoiceNumberSequenceModel } from 'src/database/generated/models';
+import { ErrorInvoiceNumberSequence } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+import {
+  DEFAULT_NUMBERING_PREFIXES,
+  formatInvoiceNumber,
+  getInvoiceNumberFormatError,
+  getNumberingPeriodKey,
+  MAX_INVOICE_NUMBER_LENGTH,
+} from 'src/common/utils/invoice-number.util';
+
+/**
+ * Numbers already used by an invoice of the company are skipped (e.g. after lowering the next number),
+ * give up after this many attempts
+ */
+const MAX_ALLOCATION_ATTEMPTS = 10;
+
+@Injectable()
+export class InvoiceNumberSequenceService {
+  private readonly logger = new Logger(InvoiceNumberSequenceService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly sequenceRepository: InvoiceNumberSequenceRepository,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly creditNoteRepository: CreditNoteRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+  ) {}
+
+  /**
+   * Get the numbering sequences configured by a company
+   */
+  async getSequences(
+    companyId: number,
+  ): Promise<InvoiceNumberSequenceResponseDto[]> {
+    try {
+      const sequences =
+        await this.sequenceRepository.findByCompanyId(companyId);
+
+      return sequences.map((sequence) => this.toResponse(sequence));
+    } catch (error) {
+      this.logger.error('Error fetching invoice numbering sequences:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Configure the numbering sequence of a company for an invoice type (company owners and admins only)
+   */
+  async upsertSequence(
+    companyId: number,
+    userId: number,
+    type: NumberingSequenceTypeEnum,
+    dto: UpsertInvoiceNumberSequenceDto,
+  ): Promise<InvoiceNumberSequenceResponseDto> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const canConfigure = await this.teamMemberRepository.hasPermission(
+          companyId,
+          userId,
+          [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+          tx,
+        );
+
+        if (!canConfigure) {
+          throw new ForbiddenException(
+            ErrorInvoiceNumberSequence.InsufficientPermissions,
+          );
+        }
+
+        const existing = await this.sequenceRepository.findByCompanyAndType(
+          companyId,
+          type,
+          tx,
+        );
+
+        const prefix =
+          dto.prefix ?? existing?.prefix ?? DEFAULT_NUMBERING_PREFIXES[type];
+        const format = dto.format ?? existing?.format ?? '{PREFIX}-{SEQ}';
+        const padding = dto.padding ?? existing?.padding ?? 4;
+        const resetFrequency =
+          dto.resetFrequency ??
+          existing?.resetFrequency ??
+          NumberingResetFrequencyEnum.NEVER;
+        const nextNumber = dto.nextNumber ?? existing?.nextNumber ?? 1;
+
+        const formatError = getInvoiceNumberFormatError(format, resetFrequency);
+
+        if (formatError) {
+          throw new BadRequestException(formatError);
+        }
+
+        const preview = formatInvoiceNumber(
+          { prefix, format, padding },
+          nextNumber,
+          new Date(),
+        );
+
+        if (preview.length > MAX_INVOICE_NUMBER_LENGTH) {
+          throw new BadRequestException(
+            ErrorInvoiceNumberSequence.InvoiceNumberTooLong,
+          );
+        }
+
+        // Keep the current period unless the reset frequency changes, so setting the next number
+        // does not get overridden by a period reset
+        const periodKey =
+          resetFrequency === existing?.resetFrequency &&
+          dto.nextNumber === undefined
+            ? existing.periodKey
+            : getNumberingPeriodKey(resetFrequency, new Date());
+
+        const sequence = await this.sequenceRepository.upsertForCompany(
+          companyId,
+          type,
+          {
+            prefix,
+            format,
+            padding,
+            resetFrequency,
+            nextNumber,
+            periodKey,
+          },
+          tx,
+        );
+
+        return this.toResponse(sequence);
+      });
+    } catch (error) {
+      this.logger.error('Error updating invoice numbering sequence:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Allocate the next invoice number of a company's sequence within the invoice creation transaction.
+   * Returns null when the company has not configured a sequence for this type,
+   * callers then fall back to the legacy numbering.
+   */
+  async allocateInvoiceNumber(
+    companyId: number,
+    type: NumberingSequenceTypeEnum,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<string | null> {
+    const sequence = await this.sequenceRepository.findByCompanyAndType(
+      companyId,
+      type,
+      tx,
+    );
+
+    if (!sequence) {
+      return null;
+    }
+
+    return this.allocateFromSequence(sequence, issueDate, tx);
+  }
+
+  /**
+   * Allocate the next B2B invoice number of a company within the invoice creation transaction.
+   * Companies without a B2B sequence get the default one, created on the first invoice
+   * and continuing after the B2B invoices they already sent (B2B-0001, B2B-0002, ...).
+   */
+  async allocateB2BInvoiceNumber(
+    companyId: number,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<string> {
+    const type = NumberingSequenceTypeEnum.B2B;
+    let sequence = await this.sequenceRepository.findByCompanyAndType(
+      companyId,
+      type,
+      tx,
+    );
+
+    if (!sequence) {
+      const sentInvoices = await this.invoiceRepository.countB2BInvoices(
+        companyId,
+        tx,
+      );
+
+      sequence = await this.sequenceRepository.findOrCreateForCompany(
+        companyId,
+        type,
+        {
+          prefix: DEFAULT_NUMBERING_PREFIXES[type],
+          nextNumber: sentInvoices + 1,
+        },
+        tx,
+      );
+    }
+
+    return this.allocateFromSequence(sequence, issueDate, tx);
+  }
+
+  /**
+   * Allocate the next number of a sequence, skipping numbers already used by the company
+   */
+  private async allocateFromSequence(
+    sequence: InvoiceNumberSequenceModel,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<string> {
+    const { companyId, type } = sequence;
+    const periodKey = getNumberingPeriodKey(sequence.resetFrequency, issueDate);
+
+    for (let attempt = 0; attempt < MAX_ALLOCATION_ATTEMPTS; attempt++) {
+      const number = await this.sequenceRepository.allocateNumber(
+        sequence.id,
+        periodKey,
+        tx,
+      );
+      const invoiceNumber = formatInvoiceNumber(sequence, number, issueDate);
+
+      const isTaken =
+        type === NumberingSequenceTypeEnum.CREDIT_NOTE
+          ? await this.creditNoteRepository.isCreditNoteNumberTaken(
+              companyId,
+              invoiceNumber,
+              tx,
+            )
+          : await this.invoiceRepository.isInvoiceNumberTaken(
+              companyId,
+              invoiceNumber,
+              tx,
+            );
+
+      if (!isTaken) {
+        return invoiceNumber;
+      }
+
+      this.logger.warn(
+        `Number ${invoiceNumber} is already used by company ${companyId}, skipping it`,
+      );
+    }
+
+    throw new ConflictException(
+      ErrorInvoiceNumberSequence.InvoiceNumberUnavailable,
+    );
+  }
+
+  private toResponse(
+    sequence: InvoiceNumberSequenceModel,
+  ): InvoiceNumberSequenceResponseDto {
+    const now = new Date();
+    // A new period restarts the sequence at 1
+    const periodKey = getNumberingPeriodKey(sequence.resetFrequency, now);
+    const nextNumber =
+      periodKey && periodKey !== sequence.periodKey ? 1 : sequence.nextNumber;
+
+    return {
+      uuid: sequence.uuid,
+      type: sequence.type,
+      prefix: sequence.prefix,
+      format: sequence.format,
+      padding: sequence.padding,
+      nextNumber,
+      resetFrequency: sequence.resetFrequency,
+      nextInvoiceNumber: formatInvoiceNumber(sequence, nextNumber, now),
+    };
+  }
+}
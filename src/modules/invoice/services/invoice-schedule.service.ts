@@ -6,9 +6,12 @@ import {
 } from '@nestjs/common';
 import { InvoiceScheduleRepository } from '../repositories/invoice-schedule.repository';
 import { PayrollRepository } from '../../payroll/payroll.repository';
+import { B2BInvoiceService } from './b2b-invoice.service';
 import { PrismaService } from '../../../database/prisma.service';
 import {
+  CreateB2BInvoiceScheduleDto,
   CreateInvoiceScheduleDto,
+  UpdateB2BInvoiceScheduleDto,
   UpdateInvoiceScheduleDto,
 } from '../invoice.dto';
 import {
@@ -16,6 +19,16 @@ import {
   ErrorPayroll,
 } from 'src/common/constants/errors';
 import { PrismaTransactionClient } from 'src/database/base.repository';
+import { InvoiceScheduleModel } from 'src/database/generated/models';
+import {
+  InvoiceTypeEnum,
+  PayFrequencyEnum,
+} from 'src/database/generated/client';
+import { JsonValue } from '@prisma/client/runtime/client';
+import {
+  getNextPayDate,
+  SEMI_MONTHLY_MAX_PAYDAY,
+} from 'src/common/utils/pay-frequency.util';
 
 @Injectable()
 export class InvoiceScheduleService {
@@ -24,6 +37,7 @@ export class InvoiceScheduleService {
   constructor(
     private readonly scheduleRepository: InvoiceScheduleRepository,
     private readonly payrollRepository: PayrollRepository,
+    private readonly b2bInvoiceService: B2BInvoiceService,
     private readonly prisma: PrismaService,
   ) {}
 
@@ -180,6 +194,171 @@ export class InvoiceScheduleService {
     return schedule;
   }
 
+  /**
+   * Get the recurring B2B invoice schedules of a company
+   */
+  async getB2BSchedules(companyId: number): Promise<InvoiceScheduleModel[]> {
+    return this.scheduleRepository.findB2BByCompanyId(companyId);
+  }
+
+  /**
+   * Create a recurring B2B invoice schedule, issuing an invoice from its template every period
+   * from the start date until the end date or the number of invoices is reached
+   */
+  async createB2BSchedule(
+    companyId: number,
+    dto: CreateB2BInvoiceScheduleDto,
+  ): Promise<InvoiceScheduleModel> {
+    return await this.prisma.$transaction(async (tx) => {
+      // Check the recipient now rather than when the first invoice is due
+      await this.b2bInvoiceService.getRecipient(companyId, dto.template, tx);
+
+      const startDate = new Date(dto.startDate);
+      const endDate = dto.endDate ? new Date(dto.endDate) : null;
+
+      this.validateB2BRecurrence(dto.frequency, startDate, endDate);
+
+      return this.scheduleRepository.create(
+        {
+          invoiceType: InvoiceTypeEnum.B2B,
+          company: { connect: { id: companyId } },
+          frequency: dto.frequency,
+          generateDaysBefore: 0,
+          startDate,
+          endDate,
+          maxOccurrences: dto.maxOccurrences,
+          nextGenerateDate: startDate,
+          invoiceTemplate: dto.template as unknown as JsonValue,
+        },
+        tx,
+      );
+    });
+  }
+
+  /**
+   * Update a recurring B2B invoice schedule, the changes apply to the next invoices
+   */
+  async updateB2BSchedule(
+    scheduleUUID: string,
+    companyId: number,
+    dto: UpdateB2BInvoiceScheduleDto,
+  ): Promise<InvoiceScheduleModel> {
+    return await this.prisma.$transaction(async (tx) => {
+      const schedule = await this.getCompanyB2BSchedule(
+        scheduleUUID,
+        companyId,
+        tx,
+      );
+
+      if (dto.template) {
+        await this.b2bInvoiceService.getRecipient(companyId, dto.template, tx);
+      }
+
+      const frequency = (dto.frequency ??
+        schedule.frequency) as PayFrequencyEnum;
+      const endDate = dto.endDate ? new Date(dto.endDate) : schedule.endDate;
+      const maxOccurrences = dto.maxOccurrences ?? schedule.maxOccurrences;
+      const isActive = dto.isActive ?? schedule.isActive;
+
+      this.validateB2BRecurrence(frequency, schedule.startDate, endDate);
+
+      if (
+        isActive &&
+        maxOccurrences &&
+        schedule.occurrenceCount >= maxOccurrences
+      ) {
+        throw new BadRequestException(
+          ErrorInvoiceSchedule.MaxOccurrencesReached,
+        );
+      }
+
+      // Next invoice after the last one issued, the invoices missed while the schedule was paused are skipped
+      const isResumed = isActive && !schedule.isActive;
+      let nextGenerateDate = schedule.nextGenerateDate;
+
+      if (dto.frequency || isResumed) {
+        const after = isResumed ? new Date() : schedule.lastGeneratedAt;
+        nextGenerateDate = after
+          ? getNextPayDate(schedule.startDate, frequency, after)
+          : schedule.startDate;
+      }
+
+      return this.scheduleRepository.updateSchedule(
+        schedule.id,
+        {
+          frequency,
+          endDate,
+          maxOccurrences,
+          isActive,
+          nextGenerateDate,
+          ...(dto.template && { invoiceTemplate: dto.template }),
+        },
+        tx,
+      );
+    });
+  }
+
+  /**
+   * Delete a recurring B2B invoice schedule, the invoices already issued are kept
+   */
+  async deleteB2BSchedule(
+    scheduleUUID: string,
+    companyId: number,
+  ): Promise<void> {
+    return await this.prisma.$transaction(async (tx) => {
+      const schedule = await this.getCompanyB2BSchedule(
+        scheduleUUID,
+        companyId,
+        tx,
+      );
+
+      await this.scheduleRepository.deleteSchedule(schedule.id, tx);
+    });
+  }
+
+  /**
+   * Get a B2B schedule of the company
+   */
+  private async getCompanyB2BSchedule(
+    scheduleUUID: string,
+    companyId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<InvoiceScheduleModel> {
+    const schedule = await this.scheduleRepository.findB2BByUUID(
+      scheduleUUID,
+      tx,
+    );
+
+    if (!schedule || schedule.companyId !== companyId) {
+      throw new NotFoundException(ErrorInvoiceSchedule.InvoiceScheduleNotFound);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Check the end date and start day of a B2B schedule
+   */
+  private validateB2BRecurrence(
+    frequency: PayFrequencyEnum,
+    startDate: Date,
+    endDate: Date | null,
+  ): void {
+    if (endDate && endDate <= startDate) {
+      throw new BadRequestException(ErrorInvoiceSchedule.InvalidEndDate);
+    }
+
+    // Semi-monthly invoices are issued on the start day and 15 days later
+    if (
+      frequency === PayFrequencyEnum.SEMI_MONTHLY &&
+      startDate.getDate() > SEMI_MONTHLY_MAX_PAYDAY
+    ) {
+      throw new BadRequestException(
+        ErrorInvoiceSchedule.InvalidSemiMonthlyStartDate,
+      );
+    }
+  }
+
   /**
    * Calculate next generate date based on frequency
    */
@@ -224,6 +403,11 @@ export class InvoiceScheduleService {
         nextDate.setDate(now.getDate() + 14);
         break;
 
+      case 'SEMI_MONTHLY':
+        nextDate = new Date(now);
+        nextDate.setDate(now.getDate() + 15);
+        break;
+
       case 'QUARTERLY':
         nextDate = new Date(now.getFullYear(), now.getMonth() + 3, 1);
         break;
@@ -244,8 +428,67 @@ export class InvoiceScheduleService {
   /**
    * Get schedules due for generation (used by scheduled job)
    */
-  async getSchedulesDueForGeneration(date: Date = new Date()) {
-    return this.scheduleRepository.findSchedulesDueForGeneration(date);
+  async getSchedulesDueForGeneration(
+    date: Date = new Date(),
+    companyId?: number,
+  ) {
+    return this.scheduleRepository.findSchedulesDueForGeneration(
+      date,
+      companyId,
+    );
+  }
+
+  /**
+   * Get B2B schedules due for generation (used by scheduled job)
+   */
+  async getB2BSchedulesDueForGeneration(date: Date = new Date()) {
+    return this.scheduleRepository.findB2BSchedulesDueForGeneration(date);
+  }
+
+  /**
+   * Update a B2B schedule after issuing an invoice,
+   * deactivating it once the end date or the number of invoices is reached
+   */
+  async markB2BAsGenerated(
+    schedule: InvoiceScheduleModel,
+    lastGeneratedAt: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const occurrenceCount = schedule.occurrenceCount + 1;
+    const nextGenerateDate = getNextPayDate(
+      schedule.startDate,
+      schedule.frequency as PayFrequencyEnum,
+      lastGeneratedAt,
+    );
+    const isFinished =
+      (schedule.maxOccurrences !== null &&
+        occurrenceCount >= schedule.maxOccurrences) ||
+      (schedule.endDate !== null && nextGenerateDate > schedule.endDate);
+
+    await this.scheduleRepository.updateSchedule(
+      schedule.id,
+      {
+        occurrenceCount,
+        lastGeneratedAt,
+        nextGenerateDate,
+        isActive: !isFinished,
+      },
+      tx,
+    );
+  }
+
+  /**
+   * Deactivate a schedule that has nothing left to generate
+   */
+  async deactivateSchedule(
+    scheduleId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    await this.scheduleRepository.updateSchedule(
+      scheduleId,
+      { isActive: false },
+      tx,
+    );
   }
 
   /**
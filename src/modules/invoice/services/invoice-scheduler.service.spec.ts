@@ -0,0 +1,165 @@
+import {
+  InvoiceStatusEnum,
+  PayFrequencyEnum,
+  PayrollStatusEnum,
+} from 'src/database/generated/enums';
+import { InvoiceSchedulerService } from './invoice-scheduler.service';
+
+const PAY_START_DATE = new Date(2026, 9, 5);
+
+const buildPayroll = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  companyId: 2,
+  status: PayrollStatusEnum.ACTIVE,
+  payFrequency: PayFrequencyEnum.WEEKLY,
+  payStartDate: PAY_START_DATE,
+  currentCycleNumber: 1,
+  payrollCycle: 10,
+  contractEndDate: null,
+  employee: {
+    email: 'employee@qash.finance',
+    name: 'Employee',
+    walletAddress: '0x1',
+  },
+  company: { companyName: 'Company' },
+  ...overrides,
+});
+
+const setup = (payroll = buildPayroll()) => {
+  const schedule = { id: 3, generateDaysBefore: 2, payroll };
+
+  const tx = {
+    payroll: {
+      findUnique: jest.fn().mockResolvedValue(payroll),
+      update: jest.fn(),
+    },
+    invoiceSchedule: { update: jest.fn() },
+  };
+  const prisma = {
+    $transaction: jest.fn((callback: (client: typeof tx) => unknown) =>
+      callback(tx),
+    ),
+  };
+  const scheduleService = {
+    getSchedulesDueForGeneration: jest.fn().mockResolvedValue([schedule]),
+    getB2BSchedulesDueForGeneration: jest.fn().mockResolvedValue([]),
+    markAsGenerated: jest.fn(),
+  };
+  const invoiceService = {
+    findPayrollInvoiceForPayDate: jest.fn().mockResolvedValue(null),
+    findOutstandingInvoicesForPayroll: jest.fn().mockResolvedValue([]),
+    generateInvoice: jest.fn().mockResolvedValue({
+      invoiceNumber: 'INV-1',
+      uuid: 'invoice-uuid',
+      status: InvoiceStatusEnum.SENT,
+      dueDate: new Date(2026, 9, 12),
+      total: '100.00',
+      paymentToken: { name: 'USDC' },
+    }),
+  };
+  const mailService = { sendInvoiceNotification: jest.fn() };
+
+  const service = new InvoiceSchedulerService(
+    scheduleService as any,
+    invoiceService as any,
+    {} as any,
+    {} as any,
+    {} as any,
+    prisma as any,
+    mailService as any,
+    {} as any,
+  );
+
+  return { service, tx, scheduleService, invoiceService, mailService };
+};
+
+describe('InvoiceSchedulerService', () => {
+  describe('generateScheduledInvoices', () => {
+    it('should invoice the next weekly cycle when the previous week is already invoiced', async () => {
+      const { service, tx, scheduleService, invoiceService, mailService } =
+        setup();
+
+      await service.generateScheduledInvoices();
+
+      // Only an invoice paid on the cycle's own pay date is a duplicate
+      expect(invoiceService.findPayrollInvoiceForPayDate).toHaveBeenCalledWith(
+        1,
+        new Date(2026, 9, 12),
+        tx,
+      );
+      expect(invoiceService.generateInvoice).toHaveBeenCalledWith(
+        1,
+        2,
+        tx,
+        expect.objectContaining({ payDate: new Date(2026, 9, 12) }),
+      );
+      expect(mailService.sendInvoiceNotification).toHaveBeenCalled();
+      expect(tx.payroll.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { currentCycleNumber: 2 },
+      });
+      expect(scheduleService.markAsGenerated).toHaveBeenCalledWith(
+        3,
+        expect.any(Date),
+        new Date(2026, 9, 17),
+        tx,
+      );
+    });
+
+    it('should move on to the next cycle when the cycle is already invoiced', async () => {
+      const { service, tx, invoiceService } = setup();
+      invoiceService.findPayrollInvoiceForPayDate.mockResolvedValue({ id: 9 });
+
+      await service.generateScheduledInvoices();
+
+      expect(invoiceService.generateInvoice).not.toHaveBeenCalled();
+      expect(tx.payroll.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { currentCycleNumber: 2 },
+      });
+      expect(tx.invoiceSchedule.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { nextGenerateDate: new Date(2026, 9, 17) },
+      });
+    });
+
+    it('should complete the payroll when its contract ended and nothing is outstanding', async () => {
+      // The next period (12 to 19 Oct) starts after the last working day
+      const { service, tx, invoiceService } = setup(
+        buildPayroll({
+          currentCycleNumber: 2,
+          contractEndDate: new Date(2026, 9, 9),
+        }),
+      );
+
+      await service.generateScheduledInvoices();
+
+      expect(invoiceService.generateInvoice).not.toHaveBeenCalled();
+      expect(tx.invoiceSchedule.update).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { isActive: false },
+      });
+      expect(tx.payroll.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { status: PayrollStatusEnum.COMPLETED },
+      });
+    });
+
+    it('should leave the payroll active while the final invoice is unpaid', async () => {
+      const { service, tx, invoiceService } = setup(
+        buildPayroll({
+          currentCycleNumber: 2,
+          contractEndDate: new Date(2026, 9, 9),
+        }),
+      );
+      invoiceService.findOutstandingInvoicesForPayroll.mockResolvedValue([
+        { id: 9 },
+      ]);
+
+      await service.generateScheduledInvoices();
+
+      expect(tx.invoiceSchedule.update).toHaveBeenCalled();
+      expect(tx.payroll.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -1,12 +1,64 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { InvoiceScheduleService } from './invoice-schedule.service';
-import { InvoiceService } from './invoice.service';
+import { InvoiceService, PayrollInvoiceDraft } from './invoice.service';
+import { B2BInvoiceService } from './b2b-invoice.service';
+import { DunningService } from './dunning.service';
+import { LateFeeService } from './late-fee.service';
 import { PrismaService } from '../../../database/prisma.service';
 import { InvoiceScheduleModel } from 'src/database/generated/models/InvoiceSchedule';
-import { PayrollStatusEnum } from 'src/database/generated/enums';
+import { PayrollModel } from 'src/database/generated/models/Payroll';
+import {
+  InvoiceStatusEnum,
+  PayrollPausePolicyEnum,
+  PayrollStatusEnum,
+} from 'src/database/generated/enums';
 import { MailService } from 'src/modules/mail/mail.service';
+import { PayrollPauseRepository } from 'src/modules/payroll/payroll-pause.repository';
 import { TokenDto } from 'src/modules/employee/employee.dto';
+import { B2BInvoiceScheduleTemplateDto } from '../invoice.dto';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+import { ONE_DAY_MS } from 'src/common/constants';
+import {
+  addDays,
+  getPayDate,
+  getPayPeriod,
+} from 'src/common/utils/pay-frequency.util';
+import { isAfterContractEnd } from 'src/common/utils/proration.util';
+
+export enum ScheduleSkipReason {
+  PAUSED = 'PAUSED',
+  PAYROLL_NOT_ACTIVE = 'PAYROLL_NOT_ACTIVE',
+  CYCLE_LIMIT_REACHED = 'CYCLE_LIMIT_REACHED',
+  CONTRACT_ENDED = 'CONTRACT_ENDED',
+  DUPLICATE = 'DUPLICATE',
+}
+
+export const SCHEDULE_SKIP_REASON_MESSAGES: Record<ScheduleSkipReason, string> =
+  {
+    [ScheduleSkipReason.PAUSED]: 'payroll is paused',
+    [ScheduleSkipReason.PAYROLL_NOT_ACTIVE]: 'payroll is not active',
+    [ScheduleSkipReason.CYCLE_LIMIT_REACHED]:
+      'every payroll cycle has already been invoiced',
+    [ScheduleSkipReason.CONTRACT_ENDED]:
+      'the contract ended before this pay period',
+    [ScheduleSkipReason.DUPLICATE]:
+      'an invoice already exists for this pay date',
+  };
+
+export type ScheduleWithPayroll = InvoiceScheduleModel & {
+  payroll: PayrollModel & {
+    employee: { email: string; name: string; walletAddress: string };
+    company: { companyName: string };
+  };
+};
+
+export interface ScheduledInvoicePreview {
+  schedule: ScheduleWithPayroll;
+  payDate: Date | null;
+  skipReason: ScheduleSkipReason | null;
+  draft: PayrollInvoiceDraft | null;
+}
 
 @Injectable()
 export class InvoiceSchedulerService {
@@ -15,8 +67,12 @@ export class InvoiceSchedulerService {
   constructor(
     private readonly scheduleService: InvoiceScheduleService,
     private readonly invoiceService: InvoiceService,
+    private readonly b2bInvoiceService: B2BInvoiceService,
+    private readonly dunningService: DunningService,
+    private readonly lateFeeService: LateFeeService,
     private readonly prisma: PrismaService,
     private readonly mailService: MailService,
+    private readonly payrollPauseRepository: PayrollPauseRepository,
   ) {}
 
   /**
@@ -28,8 +84,10 @@ export class InvoiceSchedulerService {
       const now = new Date();
       const schedules =
         await this.scheduleService.getSchedulesDueForGeneration(now);
+      const b2bSchedules =
+        await this.scheduleService.getB2BSchedulesDueForGeneration(now);
 
-      if (schedules.length === 0) {
+      if (schedules.length === 0 && b2bSchedules.length === 0) {
         this.logger.debug('No invoices scheduled for generation');
         return;
       }
@@ -45,6 +103,17 @@ export class InvoiceSchedulerService {
           // Continue with other schedules even if one fails
         }
       }
+
+      for (const schedule of b2bSchedules) {
+        try {
+          await this.generateB2BInvoiceFromSchedule(schedule);
+        } catch (error) {
+          this.logger.error(
+            `Failed to generate B2B invoice for schedule ${schedule.id}:`,
+            error,
+          );
+        }
+      }
     } catch (error) {
       this.logger.error('Error in invoice generation scheduler:', error);
     }
@@ -52,7 +121,8 @@ export class InvoiceSchedulerService {
 
   /**
    * Run daily to mark invoices as overdue
-   * Checks invoices that are past their due date and marks them as OVERDUE
+   * Checks invoices that are past their due date and marks them as OVERDUE,
+   * then adds the late fee of their payment terms once the grace period is over
    */
   @Cron(CronExpression.EVERY_HOUR)
   async markOverdueInvoices() {
@@ -65,181 +135,394 @@ export class InvoiceSchedulerService {
       } else {
         this.logger.debug('No invoices to mark as overdue');
       }
+
+      const lateFeeCount = await this.lateFeeService.applyLateFees(now);
+
+      if (lateFeeCount > 0) {
+        this.logger.log(`Applied late fees to ${lateFeeCount} invoice(s)`);
+      }
     } catch (error) {
       this.logger.error('Error in overdue invoice scheduler:', error);
     }
   }
 
   /**
-   * Generate invoice from a schedule
+   * Run every hour to send the payment reminders of unpaid invoices, following each company's dunning rules
    */
-  private async generateInvoiceFromSchedule(
-    schedule: InvoiceScheduleModel & {
-      payroll: {
-        id: number;
-        companyId: number;
-        status: string;
-        amount: string;
-        payStartDate: Date;
-        payEndDate: Date;
-        employee: { email: string; name: string };
-        company: { companyName: string };
-      };
-    },
-  ): Promise<void> {
-    return await this.prisma.$transaction(async (tx) => {
-      const { payroll } = schedule;
+  @Cron(CronExpression.EVERY_HOUR)
+  async sendPaymentReminders() {
+    try {
+      const count = await this.dunningService.sendDueReminders(new Date());
 
-      // Check if payroll is still active
-      if (payroll.status !== PayrollStatusEnum.ACTIVE) {
-        this.logger.warn(
-          `Skipping invoice generation for payroll ${payroll.id} - payroll is not active`,
-        );
-        return;
+      if (count > 0) {
+        this.logger.log(`Sent ${count} payment reminder(s)`);
+      } else {
+        this.logger.debug('No payment reminders to send');
       }
+    } catch (error) {
+      this.logger.error('Error in payment reminder scheduler:', error);
+    }
+  }
 
-      // Fetch current cycle number from payroll
-      const payrollWithCycle = await tx.payroll.findUnique({
-        where: { id: payroll.id },
-        select: { currentCycleNumber: true, payStartDate: true },
+  /**
+   * Simulate a scheduler run on the given date without writing anything:
+   * evaluates every schedule due by that date and drafts the invoice it would generate,
+   * for the cycle the payroll will have reached by then
+   */
+  async previewScheduledInvoices(
+    date: Date,
+    companyId?: number,
+  ): Promise<ScheduledInvoicePreview[]> {
+    const schedules = await this.scheduleService.getSchedulesDueForGeneration(
+      date,
+      companyId,
+    );
+
+    const previews: ScheduledInvoicePreview[] = [];
+    for (const schedule of schedules) {
+      const run = await this.projectScheduleRun(schedule, date);
+      const projectedSchedule = { ...schedule, payroll: run.payroll };
+
+      const { payDate, skipReason } = run.skipReason
+        ? { payDate: null, skipReason: run.skipReason }
+        : await this.evaluateSchedule(
+            projectedSchedule,
+            undefined,
+            run.payroll,
+          );
+
+      previews.push({
+        schedule: projectedSchedule,
+        payDate,
+        skipReason,
+        draft: skipReason
+          ? null
+          : await this.invoiceService.buildPayrollInvoiceDraft(
+              run.payroll,
+              undefined,
+              run.fromCycleNumber,
+            ),
       });
+    }
 
-      if (!payrollWithCycle) {
-        this.logger.error(`Payroll ${payroll.id} not found`);
-        return;
-      }
+    return previews;
+  }
 
-      // Calculate pay date using the same logic as invoice.service.ts
-      // Paydate is start date + current cycle month
-      const currentPayDate = new Date(payrollWithCycle.payStartDate);
-      currentPayDate.setMonth(
-        currentPayDate.getMonth() + payrollWithCycle.currentCycleNumber,
+  /**
+   * Project the payroll of a schedule to a run on the given date.
+   * Cycles whose generation date is before it are invoiced by the runs in between, and cycles paid during
+   * a scheduled or active pause are skipped (added after the last cycle when the pause extends the contract),
+   * their adjustments are paid with the next cycle.
+   */
+  private async projectScheduleRun(
+    schedule: ScheduleWithPayroll,
+    date: Date,
+  ): Promise<{
+    payroll: ScheduleWithPayroll['payroll'];
+    fromCycleNumber: number;
+    skipReason: ScheduleSkipReason | null;
+  }> {
+    const { payroll } = schedule;
+    const pauses = await this.payrollPauseRepository.findOverlapping(
+      payroll.id,
+      getPayDate(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        payroll.currentCycleNumber,
+      ),
+      null,
+    );
+
+    const getPause = (day: Date) =>
+      pauses.find(
+        (pause) =>
+          day >= pause.startDate && (!pause.endDate || day < pause.endDate),
       );
 
-      // Calculate previous pay date: current pay date - 1 month
-      const previousPayDate = new Date(currentPayDate);
-      previousPayDate.setMonth(previousPayDate.getMonth() - 1);
-
-      // Use currentPayDate as the pay date (when employer must pay)
-      const payDate = new Date(currentPayDate);
-
-      // Check if invoice already exists for this pay date
-      const latestInvoice =
-        await this.invoiceService.findLatestInvoiceForPayroll(payroll.id, tx);
+    if (getPause(date)) {
+      return {
+        payroll,
+        fromCycleNumber: payroll.currentCycleNumber,
+        skipReason: ScheduleSkipReason.PAUSED,
+      };
+    }
 
-      if (latestInvoice) {
-        // Check if invoice exists for this specific pay date by comparing with pay date
-        // We'll use a tolerance of a few days to account for scheduling variations
-        const latestPayDate = new Date(latestInvoice.issueDate);
-        latestPayDate.setDate(
-          latestPayDate.getDate() + schedule.generateDaysBefore,
-        );
-        const daysDiff = Math.abs(
-          (payDate.getTime() - latestPayDate.getTime()) / (1000 * 60 * 60 * 24),
-        );
+    let projection: {
+      cycleNumber: number;
+      fromCycleNumber: number;
+      payrollCycle: number;
+    } | null = null;
+    let payrollCycle = payroll.payrollCycle;
+    let fromCycleNumber = payroll.currentCycleNumber;
+
+    for (
+      let cycleNumber = payroll.currentCycleNumber;
+      cycleNumber < payrollCycle;
+      cycleNumber++
+    ) {
+      const payDate = getPayDate(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        cycleNumber,
+      );
+      const pause = getPause(payDate);
 
-        // Prevent duplicate generation for the same pay date
-        if (daysDiff < 5) {
-          this.logger.warn(
-            `Skipping invoice generation - invoice already exists for pay date ${payDate.toISOString()} for payroll ${payroll.id}`,
-          );
-          return;
+      if (pause) {
+        if (pause.policy === PayrollPausePolicyEnum.EXTEND) {
+          payrollCycle++;
         }
+        continue;
       }
 
-      // Issue date is when we generate the invoice (now)
-      const issueDate = new Date();
-      // Due date is the pay date (when employer must pay)
-      const dueDate = new Date(payDate);
+      // Generated by a later run
+      if (projection && addDays(payDate, -schedule.generateDaysBefore) > date) {
+        break;
+      }
 
-      // Generate invoice with the correct pay date
-      const invoice = await this.invoiceService.generateInvoice(
-        payroll.id,
-        payroll.companyId,
-        tx,
-        {
-          issueDate,
-          dueDate,
-          payDate, // Pass the actual pay date
-          isAutoGenerated: true,
-          autoGenerateFromPayrollId: payroll.id,
-        },
-      );
+      projection = { cycleNumber, fromCycleNumber, payrollCycle };
+      fromCycleNumber = cycleNumber + 1;
+    }
 
-      // Calculate month string from pay date
-      const month = payDate.toLocaleDateString('en-US', {
-        month: 'long',
-        year: 'numeric',
-      });
+    // Every cycle will have been invoiced
+    if (!projection) {
+      return {
+        payroll,
+        fromCycleNumber: payroll.currentCycleNumber,
+        skipReason: ScheduleSkipReason.CYCLE_LIMIT_REACHED,
+      };
+    }
 
-      // Send email to employee
-      await this.mailService.sendInvoiceNotification(
-        payroll.employee.email,
-        invoice.invoiceNumber,
-        invoice.uuid,
-        invoice.dueDate,
-        payroll.company.companyName,
-        payroll.employee.name,
-        payroll.amount,
-        month,
-        (invoice.paymentToken as unknown as TokenDto).name,
-      );
+    // Extending pauses push the pay end date and the last working day back
+    const payEndDate = getPayDate(
+      payroll.payStartDate,
+      payroll.payFrequency,
+      projection.payrollCycle,
+    );
+    const extendedDays = Math.round(
+      (payEndDate.getTime() - payroll.payEndDate.getTime()) / ONE_DAY_MS,
+    );
+
+    return {
+      payroll: {
+        ...payroll,
+        currentCycleNumber: projection.cycleNumber,
+        payrollCycle: projection.payrollCycle,
+        ...(projection.payrollCycle > payroll.payrollCycle && {
+          payEndDate,
+          contractEndDate:
+            payroll.contractEndDate &&
+            addDays(payroll.contractEndDate, extendedDays),
+        }),
+      },
+      fromCycleNumber: projection.fromCycleNumber,
+      skipReason: null,
+    };
+  }
+
+  /**
+   * Decide whether a due schedule generates an invoice for the current cycle of its payroll
+   */
+  private async evaluateSchedule(
+    schedule: ScheduleWithPayroll,
+    tx?: PrismaTransactionClient,
+    projectedPayroll?: PayrollModel,
+  ): Promise<{ payDate: Date | null; skipReason: ScheduleSkipReason | null }> {
+    const { payroll } = schedule;
+    const client = tx || this.prisma;
+
+    // Check if payroll is still active
+    if (payroll.status !== PayrollStatusEnum.ACTIVE) {
+      return {
+        payDate: null,
+        skipReason:
+          payroll.status === PayrollStatusEnum.PAUSED
+            ? ScheduleSkipReason.PAUSED
+            : ScheduleSkipReason.PAYROLL_NOT_ACTIVE,
+      };
+    }
 
-      // Increment current cycle number for the payroll
-      const updatedPayroll = await tx.payroll.findUnique({
+    // Fetch current cycle number from payroll, previews use the cycle reached on the run date
+    const payrollWithCycle =
+      projectedPayroll ??
+      (await client.payroll.findUnique({
         where: { id: payroll.id },
         select: {
           currentCycleNumber: true,
           payrollCycle: true,
           payStartDate: true,
+          payFrequency: true,
+          contractEndDate: true,
         },
-      });
+      }));
+
+    if (!payrollWithCycle) {
+      return {
+        payDate: null,
+        skipReason: ScheduleSkipReason.PAYROLL_NOT_ACTIVE,
+      };
+    }
+
+    // Every cycle has already been invoiced
+    if (payrollWithCycle.currentCycleNumber >= payrollWithCycle.payrollCycle) {
+      return {
+        payDate: null,
+        skipReason: ScheduleSkipReason.CYCLE_LIMIT_REACHED,
+      };
+    }
+
+    // The contract ended before the pay period, the remaining cycles are not owed
+    const period = getPayPeriod(
+      payrollWithCycle.payStartDate,
+      payrollWithCycle.payFrequency,
+      payrollWithCycle.currentCycleNumber,
+    );
+    if (isAfterContractEnd(period, payrollWithCycle.contractEndDate)) {
+      return {
+        payDate: null,
+        skipReason: ScheduleSkipReason.CONTRACT_ENDED,
+      };
+    }
+
+    // Calculate pay date using the same logic as invoice.service.ts
+    // Paydate is start date + current cycle number of pay periods
+    const payDate = getPayDate(
+      payrollWithCycle.payStartDate,
+      payrollWithCycle.payFrequency,
+      payrollWithCycle.currentCycleNumber,
+    );
+
+    // Each cycle is invoiced once
+    const cycleInvoice = await this.invoiceService.findPayrollInvoiceForPayDate(
+      payroll.id,
+      payDate,
+      tx,
+    );
+
+    if (cycleInvoice) {
+      return { payDate, skipReason: ScheduleSkipReason.DUPLICATE };
+    }
 
-      let finalCycleNumber = updatedPayroll?.currentCycleNumber || 0;
-      let nextPayDate: Date | null = null;
+    return { payDate, skipReason: null };
+  }
 
-      if (updatedPayroll) {
-        const newCycleNumber = updatedPayroll.currentCycleNumber + 1;
+  /**
+   * Generate invoice from a schedule
+   */
+  private async generateInvoiceFromSchedule(
+    schedule: ScheduleWithPayroll,
+  ): Promise<void> {
+    return await this.prisma.$transaction(async (tx) => {
+      const { payroll } = schedule;
 
-        // Only increment if we haven't reached the cycle limit
-        if (newCycleNumber <= updatedPayroll.payrollCycle) {
-          await tx.payroll.update({
-            where: { id: payroll.id },
-            data: { currentCycleNumber: newCycleNumber },
+      // Issue date is when we generate the invoice (now)
+      const issueDate = new Date();
+
+      const { payDate, skipReason } = await this.evaluateSchedule(schedule, tx);
+
+      if (skipReason) {
+        this.logger.warn(
+          `Skipping invoice generation for payroll ${payroll.id} - ${SCHEDULE_SKIP_REASON_MESSAGES[skipReason]}`,
+        );
+
+        // No later cycle is owed either, the last cycle invoiced was the final one
+        if (skipReason === ScheduleSkipReason.CONTRACT_ENDED) {
+          await tx.invoiceSchedule.update({
+            where: { id: schedule.id },
+            data: { isActive: false },
           });
+          this.logger.log(
+            `Payroll ${payroll.id} contract ended. Schedule ${schedule.id} deactivated.`,
+          );
 
-          finalCycleNumber = newCycleNumber;
+          const outstandingInvoices =
+            await this.invoiceService.findOutstandingInvoicesForPayroll(
+              payroll.id,
+              tx,
+            );
 
-          // Calculate next pay date using the incremented cycle number
-          // This matches the logic in invoice.service.ts
-          nextPayDate = new Date(updatedPayroll.payStartDate);
-          nextPayDate.setMonth(nextPayDate.getMonth() + newCycleNumber);
+          // Otherwise the payroll completes when its last invoice is paid
+          if (outstandingInvoices.length === 0) {
+            await tx.payroll.update({
+              where: { id: payroll.id },
+              data: { status: PayrollStatusEnum.COMPLETED },
+            });
+            this.logger.log(
+              `Payroll ${payroll.id} completed after its contract ended`,
+            );
+          }
+        }
 
-          // If we've reached the cycle limit, deactivate the schedule
-          if (newCycleNumber >= updatedPayroll.payrollCycle) {
+        // The cycle was already invoiced (e.g. manually), move on to the next one
+        if (skipReason === ScheduleSkipReason.DUPLICATE) {
+          const { nextPayDate } = await this.advanceToNextCycle(schedule, tx);
+
+          if (nextPayDate) {
             await tx.invoiceSchedule.update({
               where: { id: schedule.id },
-              data: { isActive: false },
+              data: {
+                nextGenerateDate: addDays(
+                  nextPayDate,
+                  -schedule.generateDaysBefore,
+                ),
+              },
             });
-            this.logger.log(
-              `Payroll ${payroll.id} reached cycle limit (${updatedPayroll.payrollCycle}). Schedule ${schedule.id} deactivated.`,
-            );
           }
         }
+        return;
       }
 
+      // Due date is the pay date (when employer must pay)
+      const dueDate = new Date(payDate);
+
+      // Generate invoice with the correct pay date
+      const invoice = await this.invoiceService.generateInvoice(
+        payroll.id,
+        payroll.companyId,
+        tx,
+        {
+          issueDate,
+          dueDate,
+          payDate, // Pass the actual pay date
+          isAutoGenerated: true,
+          autoGenerateFromPayrollId: payroll.id,
+        },
+      );
+
+      if (invoice.status === InvoiceStatusEnum.PENDING_APPROVAL) {
+        // The employee is emailed once the company approves the invoice
+        this.logger.log(
+          `Invoice ${invoice.invoiceNumber} for payroll ${payroll.id} is pending approval`,
+        );
+      } else {
+        // Calculate month string from pay date
+        const month = payDate.toLocaleDateString('en-US', {
+          month: 'long',
+          year: 'numeric',
+        });
+
+        // Send email to employee
+        await this.mailService.sendInvoiceNotification(
+          payroll.employee.email,
+          invoice.invoiceNumber,
+          invoice.uuid,
+          invoice.dueDate,
+          payroll.company.companyName,
+          payroll.employee.name,
+          invoice.total,
+          month,
+          (invoice.paymentToken as unknown as TokenDto).name,
+        );
+      }
+
+      const { cycleNumber, payrollCycle, nextPayDate } =
+        await this.advanceToNextCycle(schedule, tx);
+
       // Calculate next generate date based on the next pay date
       // Since we've already calculated the next pay date using cycle-based logic,
       // we just need to subtract generateDaysBefore to get when to generate the invoice
       // If we've reached the cycle limit, nextPayDate will be null and we won't schedule next generation
       const nextGenerateDate = nextPayDate
-        ? (() => {
-            const generateDate = new Date(nextPayDate);
-            generateDate.setDate(
-              generateDate.getDate() - schedule.generateDaysBefore,
-            );
-            return generateDate;
-          })()
+        ? addDays(nextPayDate, -schedule.generateDaysBefore)
         : null;
 
       // Update schedule (only if we have a next generate date)
@@ -253,11 +536,134 @@ export class InvoiceSchedulerService {
       }
 
       this.logger.log(
-        `Generated invoice ${invoice.invoiceNumber} from schedule ${schedule.id} (Cycle ${finalCycleNumber}/${updatedPayroll?.payrollCycle || 0})`,
+        `Generated invoice ${invoice.invoiceNumber} from schedule ${schedule.id} (Cycle ${cycleNumber}/${payrollCycle})`,
       );
     });
   }
 
+  /**
+   * Move the payroll of a schedule to its next cycle, deactivating the schedule once the last cycle is reached.
+   * Returns the pay date of the next cycle, null when every cycle has been reached.
+   */
+  private async advanceToNextCycle(
+    schedule: ScheduleWithPayroll,
+    tx: PrismaTransactionClient,
+  ): Promise<{
+    cycleNumber: number;
+    payrollCycle: number;
+    nextPayDate: Date | null;
+  }> {
+    const { payroll } = schedule;
+
+    const updatedPayroll = await tx.payroll.findUnique({
+      where: { id: payroll.id },
+      select: {
+        currentCycleNumber: true,
+        payrollCycle: true,
+        payStartDate: true,
+        payFrequency: true,
+      },
+    });
+
+    if (!updatedPayroll) {
+      return { cycleNumber: 0, payrollCycle: 0, nextPayDate: null };
+    }
+
+    const newCycleNumber = updatedPayroll.currentCycleNumber + 1;
+
+    // Only increment if we haven't reached the cycle limit
+    if (newCycleNumber > updatedPayroll.payrollCycle) {
+      return {
+        cycleNumber: updatedPayroll.currentCycleNumber,
+        payrollCycle: updatedPayroll.payrollCycle,
+        nextPayDate: null,
+      };
+    }
+
+    await tx.payroll.update({
+      where: { id: payroll.id },
+      data: { currentCycleNumber: newCycleNumber },
+    });
+
+    // If we've reached the cycle limit, deactivate the schedule
+    if (newCycleNumber >= updatedPayroll.payrollCycle) {
+      await tx.invoiceSchedule.update({
+        where: { id: schedule.id },
+        data: { isActive: false },
+      });
+      this.logger.log(
+        `Payroll ${payroll.id} reached cycle limit (${updatedPayroll.payrollCycle}). Schedule ${schedule.id} deactivated.`,
+      );
+    }
+
+    return {
+      cycleNumber: newCycleNumber,
+      payrollCycle: updatedPayroll.payrollCycle,
+      // Calculate next pay date using the incremented cycle number
+      nextPayDate: getPayDate(
+        updatedPayroll.payStartDate,
+        updatedPayroll.payFrequency,
+        newCycleNumber,
+      ),
+    };
+  }
+
+  /**
+   * Issue the next invoice of a recurring B2B schedule from its template and email it to the recipient
+   */
+  private async generateB2BInvoiceFromSchedule(
+    schedule: InvoiceScheduleModel,
+  ): Promise<void> {
+    const issueDate = new Date();
+
+    const invoice = await this.prisma.$transaction(
+      async (tx) => {
+        // The end date may have been moved before the next invoice
+        if (schedule.endDate && schedule.nextGenerateDate > schedule.endDate) {
+          await this.scheduleService.deactivateSchedule(schedule.id, tx);
+          this.logger.log(
+            `Schedule ${schedule.id} reached its end date and was deactivated`,
+          );
+          return null;
+        }
+
+        const { dueInDays, terms, ...template } =
+          schedule.invoiceTemplate as unknown as B2BInvoiceScheduleTemplateDto;
+
+        const invoice = await this.b2bInvoiceService.generateB2BInvoice(
+          schedule.companyId,
+          {
+            ...template,
+            // Payment terms set the due date from their net days
+            dueDate: template.paymentTerms
+              ? undefined
+              : addDays(issueDate, dueInDays).toISOString(),
+          },
+          tx,
+          { issueDate, terms, isAutoGenerated: true },
+        );
+
+        await this.scheduleService.markB2BAsGenerated(schedule, issueDate, tx);
+
+        return invoice;
+      },
+      {
+        timeout: 30000, // 30 seconds max execution time
+      },
+    );
+
+    if (!invoice) {
+      return;
+    }
+
+    // Sent once generated, an invoice that fails to send stays a draft the company can send manually
+    await this.invoiceService.sendInvoice(invoice.uuid, schedule.companyId);
+
+    this.logger.log(
+      `Generated invoice ${invoice.invoiceNumber} from B2B schedule ${schedule.id} (${schedule.occurrenceCount + 1}${schedule.maxOccurrences ? `/${schedule.maxOccurrences}` : ''})`,
+    );
+  }
+
   /**
    * Calculate next generate date based on the last pay date
    * This calculates when to generate the next invoice (next pay date minus generateDaysBefore)
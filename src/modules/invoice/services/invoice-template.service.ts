@@ -0,0 +1,358 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import {
+  InvoiceTemplateRepository,
+  InvoiceTemplateWithCompany,
+} from '../repositories/invoice-template.repository';
+import {
+  getInvoiceIssuerCompanyId,
+  InvoiceWithRelations,
+} from '../repositories/invoice.repository';
+import { PdfService } from './pdf.service';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import { PrismaService } from 'src/database/prisma.service';
+import {
+  CreateInvoiceTemplateDto,
+  UpdateInvoiceTemplateDto,
+} from '../invoice.dto';
+import {
+  InvoiceModel,
+  InvoiceTemplateModel,
+} from 'src/database/generated/models';
+import {
+  InvoiceTypeEnum,
+  TeamMemberRoleEnum,
+} from 'src/database/generated/client';
+import { ErrorInvoiceTemplate } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+
+@Injectable()
+export class InvoiceTemplateService {
+  private readonly logger = new Logger(InvoiceTemplateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly templateRepository: InvoiceTemplateRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+    private readonly pdfService: PdfService,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the invoice templates of a company
+   */
+  async getTemplates(companyId: number): Promise<InvoiceTemplateModel[]> {
+    try {
+      return await this.templateRepository.findByCompanyId(companyId);
+    } catch (error) {
+      this.logger.error('Error fetching invoice templates:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the template the issuing company applies to an invoice, null when it has none for the invoice type
+   */
+  async getTemplateForInvoice(
+    invoice: InvoiceWithRelations,
+  ): Promise<InvoiceTemplateModel | null> {
+    const companyId = getInvoiceIssuerCompanyId(invoice);
+
+    if (!companyId) {
+      return null;
+    }
+
+    return this.templateRepository.findDefaultForType(
+      companyId,
+      invoice.invoiceType,
+    );
+  }
+
+  /**
+   * Render a sample invoice with a template
+   */
+  async previewTemplate(
+    templateUUID: string,
+    companyId: number,
+  ): Promise<Buffer> {
+    try {
+      const template = await this.templateRepository.findByUUID(templateUUID);
+
+      if (!template || template.companyId !== companyId) {
+        throw new NotFoundException(
+          ErrorInvoiceTemplate.InvoiceTemplateNotFound,
+        );
+      }
+
+      return await this.pdfService.generateInvoicePdf(
+        this.buildSampleInvoice(template),
+        template,
+      );
+    } catch (error) {
+      this.logger.error('Error previewing invoice template:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion GET METHODS
+
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  /**
+   * Create an invoice template (company owners and admins only)
+   */
+  async createTemplate(
+    companyId: number,
+    userId: number,
+    dto: CreateInvoiceTemplateDto,
+  ): Promise<InvoiceTemplateModel> {
+    try {
+      this.validateLocale(dto.locale);
+
+      return await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        await this.clearOtherDefaults(companyId, null, dto, tx);
+
+        return this.templateRepository.create(
+          {
+            company: { connect: { id: companyId } },
+            name: dto.name,
+            logoUrl: dto.logoUrl,
+            accentColor: dto.accentColor,
+            footer: dto.footer,
+            terms: dto.terms,
+            locale: dto.locale,
+            dateFormat: dto.dateFormat,
+            isEmployeeDefault: dto.isEmployeeDefault,
+            isB2BDefault: dto.isB2BDefault,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error('Error creating invoice template:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion POST METHODS
+
+  //#region PUT METHODS
+  // *************************************************
+  // **************** PUT METHODS ********************
+  // *************************************************
+  /**
+   * Update an invoice template (company owners and admins only)
+   */
+  async updateTemplate(
+    templateUUID: string,
+    companyId: number,
+    userId: number,
+    dto: UpdateInvoiceTemplateDto,
+  ): Promise<InvoiceTemplateModel> {
+    try {
+      this.validateLocale(dto.locale);
+
+      return await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        const template = await this.templateRepository.findByUUID(
+          templateUUID,
+          tx,
+        );
+
+        if (!template || template.companyId !== companyId) {
+          throw new NotFoundException(
+            ErrorInvoiceTemplate.InvoiceTemplateNotFound,
+          );
+        }
+
+        await this.clearOtherDefaults(companyId, template.id, dto, tx);
+
+        return this.templateRepository.update(
+          { id: template.id },
+          {
+            name: dto.name,
+            logoUrl: dto.logoUrl,
+            accentColor: dto.accentColor,
+            footer: dto.footer,
+            terms: dto.terms,
+            locale: dto.locale,
+            dateFormat: dto.dateFormat,
+            isEmployeeDefault: dto.isEmployeeDefault,
+            isB2BDefault: dto.isB2BDefault,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error('Error updating invoice template:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion PUT METHODS
+
+  //#region DELETE METHODS
+  // *************************************************
+  // **************** DELETE METHODS ****************
+  // *************************************************
+  /**
+   * Delete an invoice template (company owners and admins only)
+   * Invoices of the types it applied to are rendered with the default layout again
+   */
+  async deleteTemplate(
+    templateUUID: string,
+    companyId: number,
+    userId: number,
+  ): Promise<void> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        const template = await this.templateRepository.findByUUID(
+          templateUUID,
+          tx,
+        );
+
+        if (!template || template.companyId !== companyId) {
+          throw new NotFoundException(
+            ErrorInvoiceTemplate.InvoiceTemplateNotFound,
+          );
+        }
+
+        await this.templateRepository.delete({ id: template.id }, tx);
+      });
+    } catch (error) {
+      this.logger.error('Error deleting invoice template:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion DELETE METHODS
+
+  private async checkCanConfigure(
+    companyId: number,
+    userId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const canConfigure = await this.teamMemberRepository.hasPermission(
+      companyId,
+      userId,
+      [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+      tx,
+    );
+
+    if (!canConfigure) {
+      throw new ForbiddenException(
+        ErrorInvoiceTemplate.InsufficientPermissions,
+      );
+    }
+  }
+
+  /**
+   * Dates are rendered with Intl, reject locales it does not know
+   */
+  private validateLocale(locale?: string): void {
+    if (locale && Intl.DateTimeFormat.supportedLocalesOf(locale).length === 0) {
+      throw new BadRequestException(ErrorInvoiceTemplate.UnsupportedLocale);
+    }
+  }
+
+  /**
+   * A company applies at most one template per invoice type:
+   * applying the template to a type stops applying the other templates to it
+   */
+  private async clearOtherDefaults(
+    companyId: number,
+    templateId: number | null,
+    dto: UpdateInvoiceTemplateDto,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    if (dto.isEmployeeDefault) {
+      await this.templateRepository.clearDefaultForType(
+        companyId,
+        InvoiceTypeEnum.EMPLOYEE,
+        templateId,
+        tx,
+      );
+    }
+
+    if (dto.isB2BDefault) {
+      await this.templateRepository.clearDefaultForType(
+        companyId,
+        InvoiceTypeEnum.B2B,
+        templateId,
+        tx,
+      );
+    }
+  }
+
+  /**
+   * Sample invoice from the company to a fictitious client, used to preview templates
+   */
+  private buildSampleInvoice(
+    template: InvoiceTemplateWithCompany,
+  ): InvoiceModel {
+    const { company } = template;
+    const issueDate = new Date();
+    const dueDate = new Date(issueDate);
+    dueDate.setDate(dueDate.getDate() + 30);
+
+    return {
+      invoiceNumber: 'INV-0001',
+      issueDate,
+      dueDate,
+      fromDetails: {
+        name: company.companyName,
+        email: company.notificationEmail,
+        address1: company.address1,
+        address2: company.address2,
+        city: company.city,
+        country: company.country,
+        postalCode: company.postalCode,
+      },
+      toDetails: {
+        companyName: 'Acme Corporation',
+        contactName: 'Jane Doe',
+        email: 'billing@acme.example',
+        address1: '123 Main Street',
+        city: 'Springfield',
+        country: 'United States',
+        postalCode: '12345',
+      },
+      items: [
+        {
+          description: 'Consulting services',
+          quantity: '10',
+          unitPrice: '150.00',
+          total: '1500.00',
+        },
+        {
+          description: 'Software license',
+          quantity: '1',
+          unitPrice: '500.00',
+          total: '500.00',
+        },
+      ],
+      subtotal: '2000.00',
+      taxRate: '0',
+      taxAmount: '0.00',
+      total: '2000.00',
+      paymentNetwork: { name: 'Ethereum' },
+      paymentToken: { symbol: 'USDC' },
+      paymentWalletAddress: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+      paymentSplits: null,
+      footer: null,
+      terms: null,
+    } as unknown as InvoiceModel;
+  }
+}
@@ -7,26 +7,64 @@ import {
   ForbiddenException,
 } from '@nestjs/common';
 import {
+  getInvoiceAmountDue,
+  getInvoiceIssuerCompanyId,
+  getInvoicePayerCompanyId,
   InvoiceRepository,
   InvoiceWithRelations,
 } from '../repositories/invoice.repository';
+import { InvoiceCommentRepository } from '../repositories/invoice-comment.repository';
+import {
+  getChanges,
+  InvoiceEventActor,
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../repositories/invoice-event.repository';
 import { InvoiceItemService } from './invoice-item.service';
+import { InvoiceNumberSequenceService } from './invoice-number-sequence.service';
 import { PayrollRepository } from '../../payroll/payroll.repository';
 import {
+  PayrollAmendmentRepository,
+  PayrollTerms,
+} from '../../payroll/payroll-amendment.repository';
+import {
+  getSignedAdjustmentAmount,
+  PAYROLL_ADJUSTMENT_LABELS,
+  PayrollAdjustmentRepository,
+} from '../../payroll/payroll-adjustment.repository';
+import { PayrollPayoutSplitRepository } from '../../payroll/payroll-payout-split.repository';
+import {
+  CreateInvoiceCommentDto,
   CreateInvoiceDto,
+  CreateInvoiceItemDto,
+  DisputeInvoiceDto,
+  ReviseInvoiceDto,
   UpdateInvoiceDto,
   InvoiceQueryDto,
   InvoiceStatsDto,
 } from '../invoice.dto';
 import {
+  InvoiceCommentModel,
   InvoiceCreateInput,
+  InvoiceEventModel,
   InvoiceModel,
   InvoiceUpdateInput,
   InvoiceWhereInput,
+  PayrollAdjustmentModel,
+  PayrollModel,
+  PayrollPayoutSplitModel,
 } from 'src/database/generated/models';
 import {
+  InvoiceCommentAuthorEnum,
+  InvoiceCommentTypeEnum,
+  InvoiceEventActionEnum,
+  InvoiceEventActorEnum,
   InvoiceStatusEnum,
   InvoiceTypeEnum,
+  NumberingSequenceTypeEnum,
+  PayFrequencyEnum,
+  PayrollAdjustmentTypeEnum,
+  TeamMemberRoleEnum,
 } from 'src/database/generated/client';
 import { PrismaService } from 'src/database/prisma.service';
 import { MailService } from '../../mail/mail.service';
@@ -39,6 +77,35 @@ import { EmployeeRepository } from 'src/modules/employee/repositories/employee.r
 import { BillService } from 'src/modules/bill/bill.service';
 import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
 import { TokenDto } from 'src/modules/employee/employee.dto';
+import { randomBytes } from 'crypto';
+import {
+  formatDateDDMMYYYY,
+  getPayCycleNumber,
+  getPayPeriod,
+  PAY_PERIOD_UNITS,
+} from 'src/common/utils/pay-frequency.util';
+import {
+  calculateProration,
+  formatProration,
+  ProrationResult,
+} from 'src/common/utils/proration.util';
+import { calculatePaymentSplits } from 'src/common/utils/payout-split.util';
+import {
+  calculateLineItemTaxes,
+  getLegacyTaxDefinitions,
+} from 'src/common/utils/tax.util';
+
+export interface PayrollInvoiceDraft {
+  periodStart: Date;
+  periodEnd: Date;
+  proration: ProrationResult | null;
+  terms: PayrollTerms;
+  periodAmount: string;
+  adjustments: PayrollAdjustmentModel[];
+  payoutSplits: PayrollPayoutSplitModel[];
+  items: CreateInvoiceItemDto[];
+  total: string; // total of the items, as recalculated when they are created
+}
 
 @Injectable()
 export class InvoiceService {
@@ -48,10 +115,16 @@ export class InvoiceService {
     private readonly prisma: PrismaService,
     private readonly mailService: MailService,
     private readonly invoiceItemService: InvoiceItemService,
+    private readonly invoiceNumberSequenceService: InvoiceNumberSequenceService,
     private readonly billService: BillService,
     private readonly employeeRepository: EmployeeRepository,
     private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceCommentRepository: InvoiceCommentRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
     private readonly payrollRepository: PayrollRepository,
+    private readonly payrollAmendmentRepository: PayrollAmendmentRepository,
+    private readonly payrollAdjustmentRepository: PayrollAdjustmentRepository,
+    private readonly payrollPayoutSplitRepository: PayrollPayoutSplitRepository,
     private readonly teamMemberRepository: TeamMemberRepository,
   ) {}
 
@@ -76,6 +149,7 @@ export class InvoiceService {
   }> {
     try {
       const filters: InvoiceWhereInput = {
+        invoiceType: InvoiceTypeEnum.EMPLOYEE,
         toCompanyId: companyId,
         payrollId: query.payrollId,
         status: query.status,
@@ -128,7 +202,9 @@ export class InvoiceService {
   /**
    * Get invoice by invoice uuid (for employee access)
    */
-  async getInvoiceByUUID(invoiceUUID: string): Promise<InvoiceWithRelations> {
+  async getInvoiceByUUID(
+    invoiceUUID: string,
+  ): Promise<InvoiceWithRelations & { amountDue: string }> {
     try {
       const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
 
@@ -136,7 +212,8 @@ export class InvoiceService {
         throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
       }
 
-      return invoice;
+      // Amount to pay today, after the early payment discount of the payment terms
+      return { ...invoice, amountDue: getInvoiceAmountDue(invoice) };
     } catch (error) {
       this.logger.error('Error fetching invoice by UUID:', error);
       handleError(error, this.logger);
@@ -175,7 +252,20 @@ export class InvoiceService {
   async markInvoicesAsOverdue(date?: Date): Promise<number> {
     try {
       const overdueDate = date || new Date();
-      return await this.invoiceRepository.markOverdueInvoices(overdueDate);
+
+      return await this.prisma.$transaction(async (tx) => {
+        const invoiceIds = await this.invoiceRepository.markOverdueInvoices(
+          overdueDate,
+          tx,
+        );
+
+        return this.invoiceEventRepository.createEvents(
+          invoiceIds.map((invoiceId) => ({ invoiceId })),
+          InvoiceEventActionEnum.INVOICE_OVERDUE,
+          SYSTEM_ACTOR,
+          tx,
+        );
+      });
     } catch (error) {
       this.logger.error('Error marking invoices as overdue:', error);
       handleError(error, this.logger);
@@ -184,13 +274,101 @@ export class InvoiceService {
   }
 
   /**
-   * Find latest invoice for payroll (used by scheduler)
+   * Find the invoice of a payroll for the cycle paid on the given date (used by scheduler)
    */
-  async findLatestInvoiceForPayroll(
+  async findPayrollInvoiceForPayDate(
     payrollId: number,
-    tx?: any,
+    payDate: Date,
+    tx?: PrismaTransactionClient,
   ): Promise<InvoiceModel | null> {
-    return this.invoiceRepository.findLatestInvoiceForPayroll(payrollId, tx);
+    return this.invoiceRepository.findByPayrollAndPayDate(
+      payrollId,
+      payDate,
+      tx,
+    );
+  }
+
+  /**
+   * Find the issued invoices of a payroll that are not paid yet (used by scheduler)
+   */
+  async findOutstandingInvoicesForPayroll(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<InvoiceModel[]> {
+    return this.invoiceRepository.findOutstandingInvoicesForPayroll(
+      payrollId,
+      tx,
+    );
+  }
+
+  /**
+   * Get the comment thread of an invoice, visible to the employee and the issuing company
+   */
+  async getInvoiceComments(
+    invoiceUUID: string,
+    email: string,
+  ): Promise<InvoiceCommentModel[]> {
+    try {
+      const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
+
+      if (!invoice) {
+        throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+      }
+
+      await this.getCommentAuthorType(invoice, email);
+
+      return invoice.comments;
+    } catch (error) {
+      this.logger.error('Error fetching invoice comments:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the activity timeline of an invoice and its bill, oldest first.
+   * Visible to the employee, the issuing and the paying company.
+   */
+  async getInvoiceTimeline(
+    invoiceUUID: string,
+    email: string,
+  ): Promise<InvoiceEventModel[]> {
+    try {
+      const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
+
+      if (!invoice) {
+        throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+      }
+
+      if (invoice.employee?.email !== email) {
+        const companyIds = new Set([
+          getInvoiceIssuerCompanyId(invoice),
+          getInvoicePayerCompanyId(invoice),
+        ]);
+        let isTeamMember = false;
+
+        for (const companyId of companyIds) {
+          if (
+            companyId &&
+            (await this.teamMemberRepository.findByCompanyAndEmail(
+              companyId,
+              email,
+            ))
+          ) {
+            isTeamMember = true;
+            break;
+          }
+        }
+
+        if (!isTeamMember) {
+          throw new ForbiddenException(ErrorInvoice.NotTimelineAuthorized);
+        }
+      }
+
+      return this.invoiceEventRepository.findByInvoiceId(invoice.id);
+    } catch (error) {
+      this.logger.error('Error fetching invoice timeline:', error);
+      handleError(error, this.logger);
+    }
   }
   //#endregion GET METHODS
 
@@ -204,6 +382,7 @@ export class InvoiceService {
   async createPayrollInvoice(
     dto: CreateInvoiceDto,
     companyId: number,
+    email: string,
   ): Promise<InvoiceModel> {
     try {
       return await this.prisma.$transaction(async (tx) => {
@@ -218,18 +397,19 @@ export class InvoiceService {
           throw new NotFoundException(ErrorPayroll.PayrollNotFound);
         }
 
+        const issueDate = new Date();
+
         // Generate unique invoice number
-        const invoiceNumber =
-          await this.invoiceRepository.generatePayrollInvoiceNumber(
-            payroll.id,
-            payroll.employeeId,
-            tx,
-          );
+        const numbering = await this.generateEmployeeInvoiceNumber(
+          payroll,
+          issueDate,
+          tx,
+        );
 
         const invoiceData: InvoiceCreateInput = {
           invoiceType: InvoiceTypeEnum.EMPLOYEE,
-          invoiceNumber,
-          issueDate: new Date(),
+          ...numbering,
+          issueDate,
           dueDate: new Date(dto.dueDate),
           payroll: {
             connect: {
@@ -281,6 +461,14 @@ export class InvoiceService {
 
         const invoice = await this.invoiceRepository.create(invoiceData, tx);
 
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_CREATED,
+          { type: InvoiceEventActorEnum.COMPANY, email },
+          { metadata: { status: invoice.status, total: invoice.total } },
+          tx,
+        );
+
         return invoice;
       });
     } catch (error) {
@@ -288,6 +476,57 @@ export class InvoiceService {
       handleError(error, this.logger);
     }
   }
+
+  /**
+   * Add a comment to the thread of an invoice, as the employee or a member of the issuing company
+   */
+  async addInvoiceComment(
+    invoiceUUID: string,
+    email: string,
+    dto: CreateInvoiceCommentDto,
+  ): Promise<InvoiceCommentModel> {
+    try {
+      const invoice = await this.invoiceRepository.findByUUID(invoiceUUID);
+
+      if (!invoice) {
+        throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+      }
+
+      const authorType = await this.getCommentAuthorType(invoice, email);
+
+      return await this.prisma.$transaction(async (tx) => {
+        const comment = await this.invoiceCommentRepository.create(
+          {
+            invoice: { connect: { id: invoice.id } },
+            type: InvoiceCommentTypeEnum.COMMENT,
+            authorType,
+            authorEmail: email,
+            message: dto.message,
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.COMMENT_ADDED,
+          {
+            type:
+              authorType === InvoiceCommentAuthorEnum.EMPLOYEE
+                ? InvoiceEventActorEnum.EMPLOYEE
+                : InvoiceEventActorEnum.COMPANY,
+            email,
+          },
+          { metadata: { commentUUID: comment.uuid } },
+          tx,
+        );
+
+        return comment;
+      });
+    } catch (error) {
+      this.logger.error('Error adding invoice comment:', error);
+      handleError(error, this.logger);
+    }
+  }
   //#endregion POST METHODS
 
   /**
@@ -302,6 +541,7 @@ export class InvoiceService {
       payDate?: Date; // The actual pay date (when employer must pay)
       isAutoGenerated?: boolean;
       autoGenerateFromPayrollId?: number;
+      actor?: InvoiceEventActor; // the system by default
     },
   ): Promise<InvoiceModel> {
     try {
@@ -339,7 +579,7 @@ export class InvoiceService {
           }
 
           // Verify they own this invoice
-          if (employeeEmail && invoice.employee.email !== employeeEmail) {
+          if (employeeEmail && invoice.employee?.email !== employeeEmail) {
             throw new ForbiddenException(ErrorInvoice.NotOwner);
           }
 
@@ -374,11 +614,29 @@ export class InvoiceService {
             );
           }
 
-          await this.invoiceRepository.update(
+          const updatedInvoice = await this.invoiceRepository.update(
             { uuid: invoiceUUID },
             updateData,
             tx,
           );
+
+          await this.invoiceEventRepository.createEvent(
+            { id: invoice.id },
+            InvoiceEventActionEnum.INVOICE_UPDATED,
+            {
+              type: InvoiceEventActorEnum.EMPLOYEE,
+              email: employeeEmail ?? invoice.employee?.email,
+            },
+            {
+              changes: getChanges(invoice, updatedInvoice, [
+                'fromDetails',
+                'paymentWalletAddress',
+                'paymentNetwork',
+                'paymentToken',
+              ]),
+            },
+            tx,
+          );
         },
         {
           maxWait: 10000, // 10 seconds max wait for transaction to start
@@ -392,11 +650,12 @@ export class InvoiceService {
   }
 
   /**
-   * Send invoice to employee
+   * Send invoice to the employee, or to the recipient company for B2B invoices
    */
   async sendInvoice(
     invoiceUUID: string,
     companyId: number,
+    email?: string, // the system sends the invoices of recurring schedules
   ): Promise<InvoiceModel> {
     try {
       return await this.prisma.$transaction(async (tx) => {
@@ -409,7 +668,7 @@ export class InvoiceService {
           throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
         }
 
-        if (invoice.payroll.companyId !== companyId) {
+        if (getInvoiceIssuerCompanyId(invoice) !== companyId) {
           throw new ForbiddenException(ErrorInvoice.NotOwner);
         }
 
@@ -417,40 +676,38 @@ export class InvoiceService {
           throw new BadRequestException(ErrorInvoice.InvoiceNotSendable);
         }
 
+        // Unregistered recipients view and pay the invoice from its public URL
+        const publicToken =
+          invoice.invoiceType === InvoiceTypeEnum.B2B && !invoice.toCompanyId
+            ? (invoice.publicToken ?? randomBytes(24).toString('base64url'))
+            : undefined;
+
         const updatedInvoice = await this.invoiceRepository.update(
           { uuid: invoiceUUID },
           {
             status: InvoiceStatusEnum.SENT,
             sentAt: new Date(),
+            publicToken,
           },
           tx,
         );
 
-        // Calculate month string from invoice issue date
-        const month = new Date(invoice.issueDate).toLocaleDateString('en-US', {
-          month: 'long',
-          year: 'numeric',
-        });
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_SENT,
+          email ? { type: InvoiceEventActorEnum.COMPANY, email } : SYSTEM_ACTOR,
+          { metadata: { sentTo: invoice.emailTo } },
+          tx,
+        );
 
-        // Send email to employee
-        try {
-          await this.mailService.sendInvoiceNotification(
-            invoice.employee.email,
-            invoice.invoiceNumber,
-            invoice.uuid,
-            invoice.dueDate,
-            invoice.payroll.company.companyName,
-            invoice.employee.name,
-            invoice.total,
-            month,
-            (invoice.paymentToken as unknown as TokenDto).name,
-          );
-        } catch (emailError) {
-          // TODO: Handle email error, should try again a few times
-          this.logger.error(
-            'Failed to send invoice notification email:',
-            emailError,
-          );
+        if (invoice.invoiceType === InvoiceTypeEnum.B2B) {
+          await this.sendB2BInvoiceNotificationEmail({
+            ...invoice,
+            publicToken: updatedInvoice.publicToken,
+          });
+        } else {
+          // Send email to employee, month is calculated from the invoice issue date
+          await this.sendInvoiceNotificationEmail(invoice, invoice.issueDate);
         }
 
         return updatedInvoice;
@@ -461,6 +718,115 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Approve an invoice pending approval (company owners and admins only)
+   * Once the company's required number of approvals is reached, the invoice is sent to the employee
+   */
+  async approveInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    userId: number,
+    email: string,
+  ): Promise<InvoiceWithRelations> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // Lock the invoice before reading its approvals, two approvers acting at the same time would both count one approval
+        await this.invoiceRepository.lockPendingApproval(invoiceUUID, tx);
+
+        const invoice = await this.invoiceRepository.findByUUID(
+          invoiceUUID,
+          tx,
+        );
+
+        if (!invoice) {
+          throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+        }
+
+        if (getInvoiceIssuerCompanyId(invoice) !== companyId) {
+          throw new ForbiddenException(ErrorInvoice.InvoiceNotBelongsToCompany);
+        }
+
+        const canApprove = await this.teamMemberRepository.hasPermission(
+          companyId,
+          userId,
+          [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+          tx,
+        );
+
+        if (!canApprove) {
+          throw new ForbiddenException(
+            ErrorInvoice.InsufficientPermissionsToApprove,
+          );
+        }
+
+        if (invoice.status !== InvoiceStatusEnum.PENDING_APPROVAL) {
+          throw new BadRequestException(ErrorInvoice.InvoiceNotPendingApproval);
+        }
+
+        if (
+          invoice.approvals.some((approval) => approval.approvedById === userId)
+        ) {
+          throw new ConflictException(
+            ErrorInvoice.InvoiceAlreadyApprovedByUser,
+          );
+        }
+
+        const now = new Date();
+        const approvalCount = invoice.approvals.length + 1;
+        // The policy may have been lowered since the invoice was generated, always require at least one approval
+        const isFullyApproved =
+          approvalCount >=
+          Math.max(invoice.payroll.company.invoiceApprovalsRequired, 1);
+
+        await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            approvals: {
+              create: {
+                approvedBy: { connect: { id: userId } },
+                approvedAt: now,
+              },
+            },
+            ...(isFullyApproved && {
+              status: InvoiceStatusEnum.SENT,
+              approvedAt: now,
+              sentAt: now,
+            }),
+          },
+          tx,
+        );
+
+        const actor = { type: InvoiceEventActorEnum.COMPANY, email };
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_APPROVED,
+          actor,
+          { metadata: { approvalCount, isFullyApproved } },
+          tx,
+        );
+
+        if (isFullyApproved) {
+          await this.invoiceEventRepository.createEvent(
+            { id: invoice.id },
+            InvoiceEventActionEnum.INVOICE_SENT,
+            actor,
+            { metadata: { sentTo: invoice.emailTo } },
+            tx,
+          );
+
+          // Auto-generated invoices are due on the pay date, the email shows its month
+          await this.sendInvoiceNotificationEmail(invoice, invoice.dueDate);
+        }
+
+        return this.invoiceRepository.findByUUID(invoiceUUID, tx);
+      });
+    } catch (error) {
+      this.logger.error('Error approving invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
   /**
    * Employee reviews invoice
    */
@@ -479,7 +845,7 @@ export class InvoiceService {
           throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
         }
 
-        if (invoice.employee.email !== employeeEmail) {
+        if (invoice.employee?.email !== employeeEmail) {
           throw new ForbiddenException(ErrorInvoice.NotOwner);
         }
 
@@ -496,6 +862,14 @@ export class InvoiceService {
           tx,
         );
 
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_REVIEWED,
+          { type: InvoiceEventActorEnum.EMPLOYEE, email: employeeEmail },
+          { changes: getChanges(invoice, updatedInvoice, ['status']) },
+          tx,
+        );
+
         return updatedInvoice;
       });
     } catch (error) {
@@ -522,7 +896,7 @@ export class InvoiceService {
           throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
         }
 
-        if (invoice.employee.email !== employeeEmail) {
+        if (invoice.employee?.email !== employeeEmail) {
           throw new ForbiddenException(ErrorInvoice.NotOwner);
         }
 
@@ -539,33 +913,49 @@ export class InvoiceService {
           tx,
         );
 
+        const actor = {
+          type: InvoiceEventActorEnum.EMPLOYEE,
+          email: employeeEmail,
+        };
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_CONFIRMED,
+          actor,
+          { changes: getChanges(invoice, updatedInvoice, ['status']) },
+          tx,
+        );
+
         try {
-          // Format dates as "Month Year" (e.g., "January 2024")
-          const formatMonthYear = (date: Date): string => {
+          const payFrequency = invoice.payroll.payFrequency;
+          const isMonthBased =
+            payFrequency === PayFrequencyEnum.MONTHLY ||
+            payFrequency === PayFrequencyEnum.QUARTERLY;
+
+          // Format dates as "Month Year" (e.g., "January 2024") for month based payrolls,
+          // and as full dates (e.g., "January 5, 2024") for shorter pay frequencies
+          const formatPeriodDate = (date: Date): string => {
             return new Date(date).toLocaleDateString('en-US', {
+              ...(isMonthBased ? {} : { day: 'numeric' }),
               month: 'long',
               year: 'numeric',
             });
           };
 
-          // Calculate dates for this specific invoice
-          // Each invoice covers: work month (issueDate - 1 month) to pay month (issueDate month)
-          // Example: If issueDate is July 2025, invoice is for June 2025 to July 2025
-          // Cycle 1: June 2025 to July 2025
-          // Cycle 2: July 2025 to August 2025
-          // etc.
-
-          // From date: one month before the invoice issue date (the work month)
-          const fromDate = new Date(invoice.issueDate);
-          fromDate.setMonth(fromDate.getMonth() - 1);
-          fromDate.setDate(1); // Start of the work month
-
-          // To date: the invoice issue date month (the pay month)
-          const toDate = new Date(invoice.issueDate);
-          toDate.setDate(1); // Start of the pay month
+          // Each invoice covers the pay period its issue date falls in, from the previous pay date to its pay date
+          // Example: issued on July 1, 2025 on a monthly payroll paid on the 5th, the invoice is for June 5 to July 5
+          const { start: fromDate, end: toDate } = getPayPeriod(
+            invoice.payroll.payStartDate,
+            payFrequency,
+            getPayCycleNumber(
+              invoice.payroll.payStartDate,
+              payFrequency,
+              invoice.issueDate,
+            ),
+          );
 
-          const fromMonthYear = formatMonthYear(fromDate);
-          const toMonthYear = formatMonthYear(toDate);
+          const fromMonthYear = formatPeriodDate(fromDate);
+          const toMonthYear = formatPeriodDate(toDate);
 
           // Find the only team member of the company
           const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
@@ -587,6 +977,7 @@ export class InvoiceService {
             invoice.uuid,
             invoice.payroll.companyId,
             tx,
+            actor,
           );
         } catch (emailError) {
           this.logger.error('Failed to send confirmation email:', emailError);
@@ -600,12 +991,208 @@ export class InvoiceService {
     }
   }
 
+  /**
+   * Employee disputes invoice, requesting changes from the company
+   * The reason and the proposed corrections open the dispute in the invoice comment thread
+   */
+  async disputeInvoice(
+    invoiceUUID: string,
+    employeeEmail: string,
+    dto: DisputeInvoiceDto,
+  ): Promise<InvoiceModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const invoice = await this.invoiceRepository.findByUUID(
+          invoiceUUID,
+          tx,
+        );
+
+        if (!invoice) {
+          throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+        }
+
+        if (invoice.employee?.email !== employeeEmail) {
+          throw new ForbiddenException(ErrorInvoice.NotOwner);
+        }
+
+        const disputableStatuses: InvoiceStatusEnum[] = [
+          InvoiceStatusEnum.SENT,
+          InvoiceStatusEnum.REVIEWED,
+        ];
+        if (!disputableStatuses.includes(invoice.status)) {
+          throw new BadRequestException(ErrorInvoice.InvoiceNotDisputable);
+        }
+
+        const updatedInvoice = await this.invoiceRepository.update(
+          { uuid: invoiceUUID },
+          {
+            status: InvoiceStatusEnum.DISPUTED,
+            disputedAt: new Date(),
+          },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_DISPUTED,
+          { type: InvoiceEventActorEnum.EMPLOYEE, email: employeeEmail },
+          {
+            changes: getChanges(invoice, updatedInvoice, ['status']),
+            metadata: { reason: dto.reason },
+          },
+          tx,
+        );
+
+        await this.invoiceCommentRepository.create(
+          {
+            invoice: { connect: { id: invoice.id } },
+            type: InvoiceCommentTypeEnum.DISPUTE,
+            authorType: InvoiceCommentAuthorEnum.EMPLOYEE,
+            authorEmail: employeeEmail,
+            message: dto.reason,
+            proposedChanges: dto.proposedChanges as unknown as JsonValue,
+          },
+          tx,
+        );
+
+        try {
+          // Find the only team member of the company
+          const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
+            invoice.payroll.companyId,
+          );
+
+          await this.mailService.sendInvoiceDisputeNotification(
+            teamMember?.user?.email,
+            invoice.invoiceNumber,
+            invoice.payroll.company.companyName,
+            invoice.employee.name,
+            invoice.employee.email,
+            dto.reason,
+          );
+        } catch (emailError) {
+          this.logger.error('Failed to send dispute email:', emailError);
+        }
+
+        return updatedInvoice;
+      });
+    } catch (error) {
+      this.logger.error('Error disputing invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Company revises a disputed invoice and re-sends it to the employee
+   * The answer to the dispute is added to the invoice comment thread
+   */
+  async reviseInvoice(
+    invoiceUUID: string,
+    companyId: number,
+    authorEmail: string,
+    dto: ReviseInvoiceDto,
+  ): Promise<InvoiceWithRelations> {
+    try {
+      return await this.prisma.$transaction(
+        async (tx) => {
+          const invoice = await this.invoiceRepository.findByUUID(
+            invoiceUUID,
+            tx,
+          );
+
+          if (!invoice) {
+            throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
+          }
+
+          if (getInvoiceIssuerCompanyId(invoice) !== companyId) {
+            throw new ForbiddenException(
+              ErrorInvoice.InvoiceNotBelongsToCompany,
+            );
+          }
+
+          if (invoice.status !== InvoiceStatusEnum.DISPUTED) {
+            throw new BadRequestException(ErrorInvoice.InvoiceNotDisputed);
+          }
+
+          const actor = {
+            type: InvoiceEventActorEnum.COMPANY,
+            email: authorEmail,
+          };
+
+          // Replacing the items recalculates the invoice totals
+          if (dto.items) {
+            await this.invoiceItemService.replaceItems(
+              invoiceUUID,
+              dto.items,
+              tx,
+              actor,
+            );
+          }
+
+          const updatedInvoice = await this.invoiceRepository.update(
+            { uuid: invoiceUUID },
+            {
+              status: InvoiceStatusEnum.SENT,
+              sentAt: new Date(),
+              dueDate: dto.dueDate ? new Date(dto.dueDate) : undefined,
+            },
+            tx,
+          );
+
+          await this.invoiceEventRepository.createEvent(
+            { id: invoice.id },
+            InvoiceEventActionEnum.INVOICE_REVISED,
+            actor,
+            {
+              changes: getChanges(invoice, updatedInvoice, [
+                'status',
+                'dueDate',
+                'total',
+              ]),
+            },
+            tx,
+          );
+
+          await this.invoiceCommentRepository.create(
+            {
+              invoice: { connect: { id: invoice.id } },
+              type: InvoiceCommentTypeEnum.REVISION,
+              authorType: InvoiceCommentAuthorEnum.COMPANY,
+              authorEmail,
+              message: dto.message,
+            },
+            tx,
+          );
+
+          const revisedInvoice = await this.invoiceRepository.findByUUID(
+            invoiceUUID,
+            tx,
+          );
+
+          // Send the revised invoice to the employee, month is calculated from the invoice issue date
+          await this.sendInvoiceNotificationEmail(
+            revisedInvoice,
+            revisedInvoice.issueDate,
+          );
+
+          return revisedInvoice;
+        },
+        {
+          timeout: 30000, // 30 seconds max execution time
+        },
+      );
+    } catch (error) {
+      this.logger.error('Error revising invoice:', error);
+      handleError(error, this.logger);
+    }
+  }
+
   /**
    * Cancel invoice
    */
   async cancelInvoice(
     invoiceUUID: string,
     companyId: number,
+    email: string,
   ): Promise<InvoiceModel> {
     try {
       return await this.prisma.$transaction(async (tx) => {
@@ -618,7 +1205,7 @@ export class InvoiceService {
           throw new NotFoundException(ErrorInvoice.InvoiceNotFound);
         }
 
-        if (invoice.payroll.companyId !== companyId) {
+        if (getInvoiceIssuerCompanyId(invoice) !== companyId) {
           throw new ForbiddenException(ErrorInvoice.NotOwner);
         }
 
@@ -628,8 +1215,27 @@ export class InvoiceService {
           tx,
         );
 
+        const actor = { type: InvoiceEventActorEnum.COMPANY, email };
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.INVOICE_CANCELLED,
+          actor,
+          { changes: getChanges(invoice, updatedInvoice, ['status']) },
+          tx,
+        );
+
         // update bill related invoice status to cancelled
-        await this.billService.deleteBill(invoice.bill.uuid, companyId, tx);
+        // (invoices pending approval or not confirmed yet have no bill)
+        // B2B bills belong to the recipient company
+        if (invoice.bill) {
+          await this.billService.deleteBill(
+            invoice.bill.uuid,
+            invoice.bill.companyId,
+            tx,
+            actor,
+          );
+        }
 
         return updatedInvoice;
       });
@@ -650,6 +1256,7 @@ export class InvoiceService {
       payDate?: Date; // The actual pay date (when employer must pay)
       isAutoGenerated?: boolean;
       autoGenerateFromPayrollId?: number;
+      actor?: InvoiceEventActor; // the system by default
     },
   ): Promise<InvoiceModel> {
     const payroll = await this.payrollRepository.findById(
@@ -662,30 +1269,15 @@ export class InvoiceService {
       throw new NotFoundException(ErrorPayroll.PayrollNotFound);
     }
 
-    // Check for duplicate in same month
-    const latestInvoice =
-      await this.invoiceRepository.findLatestInvoiceForPayroll(payrollId, tx);
-
-    if (latestInvoice) {
-      const now = options?.issueDate || new Date();
-      const sameMonth =
-        latestInvoice.issueDate.getUTCFullYear() === now.getUTCFullYear() &&
-        latestInvoice.issueDate.getUTCMonth() === now.getUTCMonth();
-      if (sameMonth) {
-        throw new ConflictException(ErrorInvoice.InvoiceAlreadyExistsThisMonth);
-      }
-    }
-
-    // Generate invoice number
-    const invoiceNumber =
-      await this.invoiceRepository.generatePayrollInvoiceNumber(
-        payrollId,
-        payroll.employeeId,
-        tx,
-      );
-
     // Calculate dates
     const issueDate = options?.issueDate || new Date();
+
+    // Generate invoice number
+    const numbering = await this.generateEmployeeInvoiceNumber(
+      payroll,
+      issueDate,
+      tx,
+    );
     const dueDate =
       options?.dueDate ||
       (() => {
@@ -718,19 +1310,40 @@ export class InvoiceService {
       email: teamMember?.user?.email, // TODO: should change to company notification email
     };
 
-    // Calculate financials
+    // Pay period, terms in force, pro-ration and line items of the current cycle
+    const draft = await this.buildPayrollInvoiceDraft(payroll, tx);
+    const { terms, periodAmount, adjustments, payoutSplits } = draft;
+
+    // Each cycle is invoiced once
+    const cycleInvoice = await this.invoiceRepository.findByPayrollAndPayDate(
+      payrollId,
+      draft.periodEnd,
+      tx,
+    );
+
+    if (cycleInvoice) {
+      throw new ConflictException(ErrorInvoice.InvoiceAlreadyExistsThisPeriod);
+    }
+
+    // Calculate financials (taxes are calculated per item, the items recalculate the totals)
     const taxRate = '0.00';
-    const subtotal = payroll.amount;
+    const subtotal = periodAmount;
     const taxAmount = '0.00';
     const discount = '0.00';
-    const total = payroll.amount;
+    const total = periodAmount;
+
+    // Auto-generated invoices wait for the company's approvals before being sent, when required
+    const requiresApproval =
+      !!options?.isAutoGenerated &&
+      payroll.company.invoiceApprovalsRequired > 0;
 
     // Create invoice
     const invoiceData: InvoiceCreateInput = {
       invoiceType: InvoiceTypeEnum.EMPLOYEE,
-      invoiceNumber,
+      ...numbering,
       issueDate,
       dueDate,
+      payDate: draft.periodEnd,
       payroll: { connect: { id: payrollId } },
       employee: { connect: { id: payroll.employeeId } },
       toCompany: { connect: { id: companyId } },
@@ -747,12 +1360,26 @@ export class InvoiceService {
       discount,
       total,
       currency: Currency.USD,
-      status: InvoiceStatusEnum.SENT,
+      status: requiresApproval
+        ? InvoiceStatusEnum.PENDING_APPROVAL
+        : InvoiceStatusEnum.SENT,
       isAutoGenerated: options?.isAutoGenerated || false,
       autoGenerateFromPayrollId: options?.autoGenerateFromPayrollId,
-      paymentNetwork: payroll.network as unknown as JsonValue,
-      paymentToken: payroll.token as unknown as JsonValue,
+      paymentNetwork: terms.network,
+      paymentToken: terms.token,
       paymentWalletAddress: payroll.employee.walletAddress,
+      // Items recalculate the totals, so split the final total
+      paymentSplits:
+        payoutSplits.length > 0
+          ? (calculatePaymentSplits(draft.total, payoutSplits, {
+              token: terms.token,
+              network: terms.network,
+              walletAddress: payroll.employee.walletAddress,
+            }) as unknown as JsonValue)
+          : undefined,
+      metadata: terms.amendmentId
+        ? { payrollAmendmentId: terms.amendmentId }
+        : undefined,
     };
 
     const invoice = await this.invoiceRepository.create(invoiceData, tx);
@@ -778,45 +1405,262 @@ export class InvoiceService {
       }
     }
 
-    // Paydate is start date + current cycle month
-    const currentPayDate = new Date(payroll.payStartDate);
-    currentPayDate.setMonth(
-      currentPayDate.getMonth() + payroll.currentCycleNumber,
+    await this.invoiceEventRepository.createEvent(
+      { id: invoice.id },
+      InvoiceEventActionEnum.INVOICE_CREATED,
+      options?.actor ?? SYSTEM_ACTOR,
+      {
+        metadata: {
+          status: invoice.status,
+          isAutoGenerated: invoice.isAutoGenerated,
+        },
+      },
+      tx,
     );
 
-    // Calculate previous pay date: current pay date - payroll cycle period
-    // For monthly payroll (payrollCycle = 1), subtract 1 month
-    const previousPayDate = new Date(currentPayDate);
-    previousPayDate.setMonth(previousPayDate.getMonth() - 1);
-
-    // Format dates in DD/MM/YYYY format
-    const formatDateDDMMYYYY = (date: Date): string => {
-      const day = String(date.getDate()).padStart(2, '0');
-      const month = String(date.getMonth() + 1).padStart(2, '0');
-      const year = date.getFullYear();
-      return `${day}/${month}/${year}`;
-    };
-
-    const periodStartFormatted = formatDateDDMMYYYY(previousPayDate);
-    const periodEndFormatted = formatDateDDMMYYYY(currentPayDate);
-
     // Create invoice items with correct period dates
     await this.invoiceItemService.createItems(
       invoice.uuid,
-      [
-        {
-          description: `${payroll.description} - (from ${periodStartFormatted} to ${periodEndFormatted})`,
-          quantity: '1',
-          unitPrice: payroll.amount,
-          unit: 'month',
-          taxRate: '0.00',
-          discount: '0.00',
-          order: 0,
-        },
-      ],
+      draft.items,
       tx,
+      options?.actor,
+    );
+
+    if (adjustments.length > 0) {
+      await this.payrollAdjustmentRepository.markApplied(
+        adjustments.map((adjustment) => adjustment.id),
+        invoice.id,
+        tx,
+      );
+    }
+
+    // Totals were recalculated from the items (adjustments and taxes), return the updated invoice
+    return this.invoiceRepository.findOne({ id: invoice.id }, tx);
+  }
+
+  /**
+   * Compute the pay period, terms in force and line items of a payroll's current cycle without writing anything.
+   * The adjustments of the cycles from fromCycleNumber on are paid with it (cycles skipped by a pause).
+   */
+  async buildPayrollInvoiceDraft(
+    payroll: PayrollModel,
+    tx?: PrismaTransactionClient,
+    fromCycleNumber: number = payroll.currentCycleNumber,
+  ): Promise<PayrollInvoiceDraft> {
+    // Pay period of the current cycle: previous pay date to current pay date
+    const { start: previousPayDate, end: currentPayDate } = getPayPeriod(
+      payroll.payStartDate,
+      payroll.payFrequency,
+      payroll.currentCycleNumber,
+    );
+
+    // Pro-rate the period when the employee joined or the contract ends within it
+    const proration = calculateProration(
+      { start: previousPayDate, end: currentPayDate },
+      payroll.joiningDate,
+      payroll.contractEndDate,
+      payroll.prorationMethod,
+    );
+
+    // Use the terms (amount, token, network) in force on the pay date
+    const terms = await this.payrollAmendmentRepository.getTermsInForce(
+      payroll,
+      currentPayDate,
+      tx,
+    );
+
+    const periodAmount = proration
+      ? (parseFloat(terms.amount) * proration.ratio).toFixed(2)
+      : terms.amount;
+
+    // One-off adjustments attached to this cycle (cycle numbers are 1-based)
+    const adjustments =
+      await this.payrollAdjustmentRepository.findPendingForCycles(
+        payroll.id,
+        fromCycleNumber + 1,
+        payroll.currentCycleNumber + 1,
+        tx,
+      );
+
+    // Payout splits in force when the invoice is generated
+    const payoutSplits =
+      await this.payrollPayoutSplitRepository.findByPayrollId(payroll.id, tx);
+
+    const periodStartFormatted = formatDateDDMMYYYY(previousPayDate);
+    const periodEndFormatted = formatDateDDMMYYYY(currentPayDate);
+    const periodDescription = `${payroll.description} - (from ${periodStartFormatted} to ${periodEndFormatted})`;
+
+    const items: CreateInvoiceItemDto[] = [
+      {
+        description: proration
+          ? `${periodDescription} - ${formatProration(proration)}`
+          : periodDescription,
+        quantity: '1',
+        unitPrice: periodAmount,
+        unit: PAY_PERIOD_UNITS[payroll.payFrequency],
+        // Payroll lines are zero-rated, the company default taxes only apply to invoices it issues
+        taxRate: '0.00',
+        discount: '0.00',
+        order: 0,
+        metadata: proration ? { proration } : undefined,
+      },
+      ...adjustments.map((adjustment, index) => ({
+        description: `${PAYROLL_ADJUSTMENT_LABELS[adjustment.type]}: ${adjustment.description}`,
+        quantity: '1',
+        unitPrice: getSignedAdjustmentAmount(adjustment).toString(),
+        taxRate: '0.00',
+        // Reimbursed expenses were already taxed when they were incurred
+        isTaxExempt:
+          adjustment.type === PayrollAdjustmentTypeEnum.REIMBURSEMENT,
+        discount: '0.00',
+        order: index + 1,
+        metadata: {
+          payrollAdjustmentId: adjustment.id,
+          adjustmentType: adjustment.type,
+        },
+      })),
+    ];
+
+    // Same calculation as when the items are created, so previews match the generated invoice
+    const total = items.reduce(
+      (sum, item) =>
+        sum +
+        calculateLineItemTaxes({
+          quantity: item.quantity,
+          unitPrice: item.unitPrice,
+          discount: item.discount,
+          taxes: item.isTaxExempt ? [] : getLegacyTaxDefinitions(item.taxRate),
+          isTaxInclusive: item.isTaxInclusive,
+        }).total,
+      0,
     );
 
-    return invoice;
+    return {
+      periodStart: previousPayDate,
+      periodEnd: currentPayDate,
+      proration,
+      terms,
+      periodAmount,
+      adjustments,
+      payoutSplits,
+      items,
+      total: total.toFixed(2),
+    };
+  }
+
+  /**
+   * Allocate the number of an employee invoice from the company's numbering sequence,
+   * falling back to the legacy per-payroll numbering when the company has none
+   */
+  private async generateEmployeeInvoiceNumber(
+    payroll: PayrollModel,
+    issueDate: Date,
+    tx: PrismaTransactionClient,
+  ): Promise<Pick<InvoiceCreateInput, 'invoiceNumber' | 'numberingCompany'>> {
+    const invoiceNumber =
+      await this.invoiceNumberSequenceService.allocateInvoiceNumber(
+        payroll.companyId,
+        NumberingSequenceTypeEnum.EMPLOYEE,
+        issueDate,
+        tx,
+      );
+
+    if (invoiceNumber) {
+      return {
+        invoiceNumber,
+        numberingCompany: { connect: { id: payroll.companyId } },
+      };
+    }
+
+    return {
+      invoiceNumber: await this.invoiceRepository.generatePayrollInvoiceNumber(
+        payroll.id,
+        payroll.employeeId,
+        tx,
+      ),
+    };
+  }
+
+  /**
+   * Side of the invoice comment thread the user writes on:
+   * the employee of the invoice, or a member of the issuing company
+   */
+  private async getCommentAuthorType(
+    invoice: InvoiceWithRelations,
+    email: string,
+  ): Promise<InvoiceCommentAuthorEnum> {
+    if (invoice.employee?.email === email) {
+      return InvoiceCommentAuthorEnum.EMPLOYEE;
+    }
+
+    const teamMember = await this.teamMemberRepository.findByCompanyAndEmail(
+      getInvoiceIssuerCompanyId(invoice),
+      email,
+    );
+
+    if (!teamMember) {
+      throw new ForbiddenException(ErrorInvoice.NotCommentAuthorized);
+    }
+
+    return InvoiceCommentAuthorEnum.COMPANY;
+  }
+
+  /**
+   * Email a B2B invoice to the recipient company
+   */
+  private async sendB2BInvoiceNotificationEmail(
+    invoice: InvoiceWithRelations,
+  ): Promise<void> {
+    try {
+      await this.mailService.sendB2BInvoiceNotification(
+        invoice.emailTo,
+        invoice.invoiceNumber,
+        invoice.uuid,
+        invoice.dueDate,
+        invoice.fromCompany.companyName,
+        invoice.toCompany?.companyName ?? invoice.toCompanyName,
+        invoice.total,
+        (invoice.paymentToken as unknown as TokenDto).name,
+        invoice.publicToken,
+      );
+    } catch (emailError) {
+      this.logger.error(
+        'Failed to send B2B invoice notification email:',
+        emailError,
+      );
+    }
+  }
+
+  /**
+   * Email the invoice to the employee, the month is calculated from the given date
+   */
+  private async sendInvoiceNotificationEmail(
+    invoice: InvoiceWithRelations,
+    monthDate: Date,
+  ): Promise<void> {
+    const month = new Date(monthDate).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+
+    try {
+      await this.mailService.sendInvoiceNotification(
+        invoice.employee.email,
+        invoice.invoiceNumber,
+        invoice.uuid,
+        invoice.dueDate,
+        invoice.payroll.company.companyName,
+        invoice.employee.name,
+        invoice.total,
+        month,
+        (invoice.paymentToken as unknown as TokenDto).name,
+      );
+    } catch (emailError) {
+      // TODO: Handle email error, should try again a few times
+      this.logger.error(
+        'Failed to send invoice notification email:',
+        emailError,
+      );
+    }
   }
 }
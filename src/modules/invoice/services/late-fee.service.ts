@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  getInvoiceAmountDue,
+  InvoiceRepository,
+  LateFeeInvoice,
+} from '../repositories/invoice.repository';
+import {
+  InvoiceEventRepository,
+  SYSTEM_ACTOR,
+} from '../repositories/invoice-event.repository';
+import { InvoiceItemService } from './invoice-item.service';
+import { PrismaService } from '../../../database/prisma.service';
+import { InvoiceEventActionEnum } from 'src/database/generated/client';
+import {
+  getLateFee,
+  getPaymentTerms,
+} from 'src/common/utils/payment-terms.util';
+
+@Injectable()
+export class LateFeeService {
+  private readonly logger = new Logger(LateFeeService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly invoiceEventRepository: InvoiceEventRepository,
+    private readonly invoiceItemService: InvoiceItemService,
+  ) {}
+
+  /**
+   * Add the late fee of their payment terms to the invoices still unpaid after their grace period (used by scheduled job).
+   * The fee is added once, as a tax-exempt line item, so the invoice total and the bill balance include it.
+   * Returns the number of invoices charged a late fee.
+   */
+  async applyLateFees(date: Date = new Date()): Promise<number> {
+    const invoices = await this.invoiceRepository.findLateFeeInvoices(date);
+
+    let appliedCount = 0;
+    for (const invoice of invoices) {
+      if (!getPaymentTerms(invoice.paymentTerms)?.lateFee) {
+        continue;
+      }
+
+      try {
+        const isApplied = await this.applyLateFee(invoice, date);
+
+        if (isApplied) {
+          appliedCount++;
+        }
+      } catch (error) {
+        this.logger.error(
+          `Failed to apply late fee to invoice ${invoice.invoiceNumber}:`,
+          error,
+        );
+      }
+    }
+
+    return appliedCount;
+  }
+
+  /**
+   * Add the late fee line item to an invoice once its grace period is over
+   */
+  private async applyLateFee(
+    invoice: LateFeeInvoice,
+    date: Date,
+  ): Promise<boolean> {
+    const lateFee = getLateFee(
+      invoice.paymentTerms,
+      invoice.dueDate,
+      getInvoiceAmountDue(invoice, date),
+      date,
+    );
+
+    if (lateFee <= 0) {
+      return false;
+    }
+
+    await this.prisma.$transaction(
+      async (tx) => {
+        await this.invoiceItemService.createItems(
+          invoice.uuid,
+          [
+            {
+              description: `Late fee (overdue since ${invoice.dueDate.toISOString().split('T')[0]})`,
+              quantity: '1',
+              unitPrice: lateFee.toFixed(2),
+              isTaxExempt: true,
+              order:
+                Math.max(-1, ...invoice.items.map((item) => item.order)) + 1,
+              metadata: { isLateFee: true },
+            },
+          ],
+          tx,
+        );
+
+        await this.invoiceRepository.update(
+          { id: invoice.id },
+          { lateFeeAppliedAt: date },
+          tx,
+        );
+
+        await this.invoiceEventRepository.createEvent(
+          { id: invoice.id },
+          InvoiceEventActionEnum.LATE_FEE_APPLIED,
+          SYSTEM_ACTOR,
+          { metadata: { amount: lateFee.toFixed(2) } },
+          tx,
+        );
+      },
+      {
+        timeout: 30000, // 30 seconds max execution time
+      },
+    );
+
+    return true;
+  }
+}
@@ -1,8 +1,175 @@
 import { Injectable, Logger } from '@nestjs/common';
-import { InvoiceModel } from 'src/database/generated/models';
+import {
+  InvoiceAttachmentModel,
+  InvoiceModel,
+  InvoiceTemplateModel,
+} from 'src/database/generated/models';
+import { InvoiceDateFormatEnum } from 'src/database/generated/client';
+import { JsonValue } from '@prisma/client/runtime/client';
 import puppeteer from 'puppeteer';
 import { execSync } from 'child_process';
 import { existsSync } from 'fs';
+import {
+  formatProration,
+  ProrationResult,
+} from 'src/common/utils/proration.util';
+import { InvoicePaymentSplit } from 'src/common/utils/payout-split.util';
+import { AppliedTax, TaxBreakdownLine } from 'src/common/utils/tax.util';
+import {
+  formatPaymentTerms,
+  getPaymentTerms,
+} from 'src/common/utils/payment-terms.util';
+import {
+  CreditNoteLine,
+  CreditNoteWithInvoice,
+} from '../repositories/credit-note.repository';
+
+/**
+ * Template settings that shape the rendering of an invoice
+ */
+type InvoiceBranding = Pick<
+  InvoiceTemplateModel,
+  'logoUrl' | 'accentColor' | 'footer' | 'terms' | 'locale' | 'dateFormat'
+>;
+
+/**
+ * Branding of invoices rendered without a company template
+ */
+const DEFAULT_INVOICE_BRANDING: InvoiceBranding = {
+  logoUrl: null,
+  accentColor: '#007bff',
+  footer: null,
+  terms: null,
+  locale: 'en-US',
+  dateFormat: InvoiceDateFormatEnum.LOCALE,
+};
+
+/**
+ * Styles shared by the invoice and credit note PDFs, in the accent colour of the template
+ */
+const getPdfStyles = (accentColor: string): string => `
+body {
+    font-family: Arial, sans-serif;
+    margin: 0;
+    padding: 20px;
+    color: #333;
+}
+.invoice-header {
+    display: flex;
+    justify-content: space-between;
+    margin-bottom: 30px;
+    border-bottom: 2px solid ${accentColor};
+    padding-bottom: 20px;
+}
+.invoice-title {
+    font-size: 28px;
+    font-weight: bold;
+    color: ${accentColor};
+}
+.invoice-number {
+    font-size: 18px;
+    color: #666;
+}
+.invoice-details {
+    display: flex;
+    justify-content: space-between;
+    margin-bottom: 30px;
+}
+.from-section, .bill-to-section {
+    width: 45%;
+}
+.section-title {
+    font-weight: bold;
+    font-size: 16px;
+    margin-bottom: 10px;
+    color: ${accentColor};
+}
+.address-block {
+    line-height: 1.6;
+}
+.invoice-meta {
+    margin-bottom: 30px;
+    background-color: #f8f9fa;
+    padding: 15px;
+    border-radius: 5px;
+}
+.meta-row {
+    display: flex;
+    justify-content: space-between;
+    margin-bottom: 5px;
+}
+.items-table {
+    width: 100%;
+    border-collapse: collapse;
+    margin-bottom: 30px;
+}
+.items-table th,
+.items-table td {
+    border: 1px solid #ddd;
+    padding: 12px;
+    text-align: left;
+}
+.items-table th {
+    background-color: ${accentColor};
+    color: white;
+    font-weight: bold;
+}
+.items-table tr:nth-child(even) {
+    background-color: #f8f9fa;
+}
+.amount-column {
+    text-align: right;
+}
+.item-note {
+    margin-top: 4px;
+    font-size: 12px;
+    color: #666;
+}
+.totals-section {
+    width: 300px;
+    margin-left: auto;
+    border: 1px solid #ddd;
+    border-radius: 5px;
+}
+.total-row {
+    display: flex;
+    justify-content: space-between;
+    padding: 10px 15px;
+    border-bottom: 1px solid #eee;
+}
+.total-row:last-child {
+    border-bottom: none;
+    background-color: ${accentColor};
+    color: white;
+    font-weight: bold;
+}
+.footer {
+    white-space: pre-line;
+    margin-top: 50px;
+    padding-top: 20px;
+    border-top: 1px solid #eee;
+    font-size: 12px;
+    color: #666;
+    text-align: center;
+}
+.invoice-logo {
+    max-height: 60px;
+    max-width: 200px;
+    margin-bottom: 10px;
+}
+.terms {
+    margin-top: 30px;
+    font-size: 12px;
+    white-space: pre-line;
+}
+.network-info {
+    background-color: #e3f2fd;
+    padding: 10px;
+    border-radius: 5px;
+    margin-top: 10px;
+    font-size: 12px;
+}
+`;
 
 @Injectable()
 export class PdfService {
@@ -63,64 +230,117 @@ export class PdfService {
   }
 
   /**
-   * Generate PDF buffer from invoice data
+   * Generate PDF buffer from invoice data, branded with the company template when there is one
    */
-  async generateInvoicePdf(invoice: InvoiceModel): Promise<Buffer> {
+  async generateInvoicePdf(
+    invoice: InvoiceModel,
+    template?: InvoiceTemplateModel | null,
+  ): Promise<Buffer> {
     try {
-      const htmlContent = this.generateInvoiceHtml(invoice);
-
-      const executablePath = this.getChromeExecutablePath();
-      const launchOptions: any = {
-        headless: true,
-        args: ['--no-sandbox', '--disable-setuid-sandbox'],
-      };
+      const pdfBuffer = await this.renderPdf(
+        this.generateInvoiceHtml(invoice, template ?? DEFAULT_INVOICE_BRANDING),
+      );
 
-      if (executablePath) {
-        launchOptions.executablePath = executablePath;
-      }
+      this.logger.log(`Generated PDF for invoice ${invoice.invoiceNumber}`);
 
-      const browser = await puppeteer.launch(launchOptions);
-      const page = await browser.newPage();
-      await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
-
-      const pdfBuffer = await page.pdf({
-        format: 'A4',
-        margin: {
-          top: '0.5cm',
-          bottom: '0.5cm',
-          left: '0.5cm',
-          right: '0.5cm',
-        },
-        printBackground: true,
-      });
+      return pdfBuffer;
+    } catch (error) {
+      this.logger.error(
+        `Error generating PDF for invoice ${invoice.invoiceNumber}:`,
+        error,
+      );
+      throw error;
+    }
+  }
 
-      await browser.close();
+  /**
+   * Generate PDF buffer from credit note data
+   */
+  async generateCreditNotePdf(
+    creditNote: CreditNoteWithInvoice,
+  ): Promise<Buffer> {
+    try {
+      const pdfBuffer = await this.renderPdf(
+        this.generateCreditNoteHtml(creditNote),
+      );
 
-      this.logger.log(`Generated PDF for invoice ${invoice.invoiceNumber}`);
+      this.logger.log(
+        `Generated PDF for credit note ${creditNote.creditNoteNumber}`,
+      );
 
-      return Buffer.from(pdfBuffer);
+      return pdfBuffer;
     } catch (error) {
       this.logger.error(
-        `Error generating PDF for invoice ${invoice.invoiceNumber}:`,
+        `Error generating PDF for credit note ${creditNote.creditNoteNumber}:`,
         error,
       );
       throw error;
     }
   }
 
+  /**
+   * Render an HTML document to an A4 PDF
+   */
+  private async renderPdf(htmlContent: string): Promise<Buffer> {
+    const executablePath = this.getChromeExecutablePath();
+    const launchOptions: any = {
+      headless: true,
+      args: ['--no-sandbox', '--disable-setuid-sandbox'],
+    };
+
+    if (executablePath) {
+      launchOptions.executablePath = executablePath;
+    }
+
+    const browser = await puppeteer.launch(launchOptions);
+    const page = await browser.newPage();
+    await page.setContent(htmlContent, { waitUntil: 'networkidle0' });
+
+    const pdfBuffer = await page.pdf({
+      format: 'A4',
+      margin: {
+        top: '0.5cm',
+        bottom: '0.5cm',
+        left: '0.5cm',
+        right: '0.5cm',
+      },
+      printBackground: true,
+    });
+
+    await browser.close();
+
+    return Buffer.from(pdfBuffer);
+  }
+
   /**
    * Generate HTML template for invoice
    */
-  private generateInvoiceHtml(invoice: InvoiceModel): string {
+  private generateInvoiceHtml(
+    invoice: InvoiceModel,
+    branding: InvoiceBranding,
+  ): string {
     const fromDetails = (invoice as any).fromDetails || {};
     const toDetails = (invoice as any).toDetails || {};
     const items = (invoice as any).items || [];
+    const attachments: InvoiceAttachmentModel[] =
+      (invoice as any).attachments || [];
 
     // Use payment details from the invoice model if available, otherwise fallback to fromDetails
     const paymentNetwork = (invoice as any).paymentNetwork || {};
     const paymentToken = (invoice as any).paymentToken || {};
     const walletAddress =
       invoice.paymentWalletAddress || fromDetails.walletAddress || 'N/A';
+    const paymentSplits = Array.isArray(invoice.paymentSplits)
+      ? (invoice.paymentSplits as unknown as InvoicePaymentSplit[])
+      : [];
+    // Footer and terms of the invoice take precedence over the template ones
+    const footer = this.getInvoiceText(invoice.footer) ?? branding.footer;
+    const terms = this.getInvoiceText(invoice.terms) ?? branding.terms;
+    const paymentTerms = getPaymentTerms(invoice.paymentTerms);
+    // Invoices totalled before the tax engine only have a single tax rate
+    const taxBreakdown = Array.isArray(invoice.taxBreakdown)
+      ? (invoice.taxBreakdown as unknown as TaxBreakdownLine[])
+      : null;
 
     return `
     <!DOCTYPE html>
@@ -128,123 +348,18 @@ export class PdfService {
     <head>
         <meta charset="UTF-8">
         <title>Invoice ${invoice.invoiceNumber}</title>
-        <style>
-            body {
-                font-family: Arial, sans-serif;
-                margin: 0;
-                padding: 20px;
-                color: #333;
-            }
-            .invoice-header {
-                display: flex;
-                justify-content: space-between;
-                margin-bottom: 30px;
-                border-bottom: 2px solid #007bff;
-                padding-bottom: 20px;
-            }
-            .invoice-title {
-                font-size: 28px;
-                font-weight: bold;
-                color: #007bff;
-            }
-            .invoice-number {
-                font-size: 18px;
-                color: #666;
-            }
-            .invoice-details {
-                display: flex;
-                justify-content: space-between;
-                margin-bottom: 30px;
-            }
-            .from-section, .bill-to-section {
-                width: 45%;
-            }
-            .section-title {
-                font-weight: bold;
-                font-size: 16px;
-                margin-bottom: 10px;
-                color: #007bff;
-            }
-            .address-block {
-                line-height: 1.6;
-            }
-            .invoice-meta {
-                margin-bottom: 30px;
-                background-color: #f8f9fa;
-                padding: 15px;
-                border-radius: 5px;
-            }
-            .meta-row {
-                display: flex;
-                justify-content: space-between;
-                margin-bottom: 5px;
-            }
-            .items-table {
-                width: 100%;
-                border-collapse: collapse;
-                margin-bottom: 30px;
-            }
-            .items-table th,
-            .items-table td {
-                border: 1px solid #ddd;
-                padding: 12px;
-                text-align: left;
-            }
-            .items-table th {
-                background-color: #007bff;
-                color: white;
-                font-weight: bold;
-            }
-            .items-table tr:nth-child(even) {
-                background-color: #f8f9fa;
-            }
-            .amount-column {
-                text-align: right;
-            }
-            .totals-section {
-                width: 300px;
-                margin-left: auto;
-                border: 1px solid #ddd;
-                border-radius: 5px;
-            }
-            .total-row {
-                display: flex;
-                justify-content: space-between;
-                padding: 10px 15px;
-                border-bottom: 1px solid #eee;
-            }
-            .total-row:last-child {
-                border-bottom: none;
-                background-color: #007bff;
-                color: white;
-                font-weight: bold;
-            }
-            .footer {
-                margin-top: 50px;
-                padding-top: 20px;
-                border-top: 1px solid #eee;
-                font-size: 12px;
-                color: #666;
-                text-align: center;
-            }
-            .network-info {
-                background-color: #e3f2fd;
-                padding: 10px;
-                border-radius: 5px;
-                margin-top: 10px;
-                font-size: 12px;
-            }
-        </style>
+        <style>${getPdfStyles(branding.accentColor)}</style>
     </head>
     <body>
         <div class="invoice-header">
             <div>
+                ${branding.logoUrl ? `<img class="invoice-logo" src="${branding.logoUrl}" alt="Logo" />` : ''}
                 <div class="invoice-title">INVOICE</div>
                 <div class="invoice-number">#${invoice.invoiceNumber}</div>
             </div>
             <div>
-                <div><strong>Issue Date:</strong> ${invoice.issueDate.toLocaleDateString()}</div>
-                <div><strong>Due Date:</strong> ${invoice.dueDate.toLocaleDateString()}</div>
+                <div><strong>Issue Date:</strong> ${this.formatDate(invoice.issueDate, branding)}</div>
+                <div><strong>Due Date:</strong> ${this.formatDate(invoice.dueDate, branding)}</div>
             </div>
         </div>
 
@@ -264,6 +379,12 @@ export class PdfService {
                     <div>Network: ${paymentNetwork.name || fromDetails.network?.name || 'N/A'}</div>
                     <div>Token: ${paymentToken.symbol || fromDetails.token?.symbol || 'N/A'}</div>
                     <div>Address: ${walletAddress}</div>
+                    ${
+                      paymentSplits.length > 0
+                        ? `<div><strong>Payout Splits:</strong></div>
+                    ${paymentSplits.map((split) => `<div>${this.getPaymentSplitLine(split)}</div>`).join('')}`
+                        : ''
+                    }
                 </div>
             </div>
 
@@ -294,7 +415,11 @@ export class PdfService {
                   .map(
                     (item) => `
                     <tr>
-                        <td>${item.description}</td>
+                        <td>
+                            ${item.description}
+                            ${item.metadata?.proration ? `<div class="item-note">${this.getProrationNote(item.metadata.proration)}</div>` : ''}
+                            ${this.getItemTaxNote(item) ? `<div class="item-note">${this.getItemTaxNote(item)}</div>` : ''}
+                        </td>
                         <td>${item.quantity}</td>
                         <td class="amount-column">$${item.unitPrice || item.pricePerUnit || '0.00'}</td>
                         <td class="amount-column">$${item.total}</td>
@@ -310,29 +435,265 @@ export class PdfService {
                 <span>Subtotal:</span>
                 <span>$${invoice.subtotal}</span>
             </div>
+            ${
+              taxBreakdown
+                ? taxBreakdown
+                    .map(
+                      (tax) => `
+            <div class="total-row">
+                <span>${tax.name} (${tax.rate}%):</span>
+                <span>$${tax.amount}</span>
+            </div>`,
+                    )
+                    .join('')
+                : `
             <div class="total-row">
                 <span>Tax (${invoice.taxRate}%):</span>
                 <span>$${invoice.taxAmount}</span>
-            </div>
+            </div>`
+            }
             <div class="total-row">
                 <span>Total:</span>
                 <span>$${invoice.total}</span>
             </div>
+            ${
+              parseFloat(invoice.earlyPaymentDiscount) > 0
+                ? `
+            <div class="total-row">
+                <span>Early payment discount:</span>
+                <span>-$${invoice.earlyPaymentDiscount}</span>
+            </div>`
+                : ''
+            }
         </div>
 
+        ${
+          terms || paymentTerms
+            ? `<div class="terms"><div class="section-title">TERMS</div>${
+                paymentTerms
+                  ? `<p>${formatPaymentTerms(paymentTerms, invoice.currency)}</p>`
+                  : ''
+              }${terms ?? ''}</div>`
+            : ''
+        }
+
+        ${
+          attachments.length > 0
+            ? `<div class="terms"><div class="section-title">ATTACHMENTS</div>${attachments
+                .map(
+                  (attachment) =>
+                    `<p>${attachment.fileName} (${this.formatFileSize(attachment.size)})</p>`,
+                )
+                .join('')}</div>`
+            : ''
+        }
+
         <div class="footer">
-            <p>Thank you for your business!</p>
-            <p>This invoice was generated automatically by the payroll system.</p>
+            ${
+              footer
+                ? `<p>${footer}</p>`
+                : `<p>Thank you for your business!</p>
+            <p>This invoice was generated automatically by the payroll system.</p>`
+            }
         </div>
     </body>
     </html>
     `;
   }
 
+  /**
+   * Generate HTML template for credit note
+   */
+  private generateCreditNoteHtml(creditNote: CreditNoteWithInvoice): string {
+    const invoice = creditNote.invoice;
+    const fromDetails = (invoice.fromDetails || {}) as Record<string, any>;
+    const toDetails = (invoice.toDetails || {}) as Record<string, any>;
+    const lines = (creditNote.items || []) as unknown as CreditNoteLine[];
+
+    return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+        <meta charset="UTF-8">
+        <title>Credit Note ${creditNote.creditNoteNumber}</title>
+        <style>${getPdfStyles(DEFAULT_INVOICE_BRANDING.accentColor)}</style>
+    </head>
+    <body>
+        <div class="invoice-header">
+            <div>
+                <div class="invoice-title">CREDIT NOTE</div>
+                <div class="invoice-number">#${creditNote.creditNoteNumber}</div>
+            </div>
+            <div>
+                <div><strong>Issue Date:</strong> ${creditNote.issueDate.toLocaleDateString()}</div>
+                <div><strong>Invoice:</strong> #${invoice.invoiceNumber}</div>
+                <div><strong>Invoice Date:</strong> ${invoice.issueDate.toLocaleDateString()}</div>
+            </div>
+        </div>
+
+        <div class="invoice-details">
+            <div class="from-section">
+                <div class="section-title">FROM</div>
+                <div class="address-block">
+                    <div><strong>${fromDetails.name || 'N/A'}</strong></div>
+                    ${fromDetails.companyName ? `<div>${fromDetails.companyName}</div>` : ''}
+                    <div>${fromDetails.email || 'N/A'}</div>
+                    ${fromDetails.address1 ? `<div>${fromDetails.address1}</div>` : ''}
+                    ${fromDetails.address2 ? `<div>${fromDetails.address2}</div>` : ''}
+                    ${fromDetails.city && fromDetails.country ? `<div>${fromDetails.city}, ${fromDetails.country} ${fromDetails.postalCode || ''}</div>` : ''}
+                </div>
+            </div>
+
+            <div class="bill-to-section">
+                <div class="section-title">CREDIT TO</div>
+                <div class="address-block">
+                    <div><strong>${toDetails.companyName || invoice.toCompanyName || 'N/A'}</strong></div>
+                    <div>${toDetails.email || invoice.toCompanyEmail || ''}</div>
+                    <div>${toDetails.address1 || invoice.toCompanyAddress || ''}</div>
+                    ${toDetails.address2 ? `<div>${toDetails.address2}</div>` : ''}
+                    <div>${[toDetails.city, toDetails.country, toDetails.postalCode].filter(Boolean).join(' ') || ''}</div>
+                </div>
+            </div>
+        </div>
+
+        ${creditNote.reason ? `<div class="invoice-meta"><strong>Reason:</strong> ${creditNote.reason}</div>` : ''}
+
+        <table class="items-table">
+            <thead>
+                <tr>
+                    <th>Description</th>
+                    <th>Quantity</th>
+                    <th>Rate</th>
+                    <th class="amount-column">Amount</th>
+                </tr>
+            </thead>
+            <tbody>
+                ${lines
+                  .map(
+                    (line) => `
+                    <tr>
+                        <td>${line.description}</td>
+                        <td>${line.quantity}</td>
+                        <td class="amount-column">$${line.unitPrice}</td>
+                        <td class="amount-column">-$${line.amount}</td>
+                    </tr>
+                `,
+                  )
+                  .join('')}
+            </tbody>
+        </table>
+
+        <div class="totals-section">
+            <div class="total-row">
+                <span>Invoice Total:</span>
+                <span>$${invoice.total}</span>
+            </div>
+            <div class="total-row">
+                <span>Credited:</span>
+                <span>-$${creditNote.amount}</span>
+            </div>
+        </div>
+
+        <div class="footer">
+            <p>This credit note is issued against invoice #${invoice.invoiceNumber}.</p>
+        </div>
+    </body>
+    </html>
+    `;
+  }
+
+  /**
+   * Format a date in the date format of the template
+   */
+  private formatDate(date: Date, branding: InvoiceBranding): string {
+    const day = String(date.getDate()).padStart(2, '0');
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const year = date.getFullYear();
+
+    switch (branding.dateFormat) {
+      case InvoiceDateFormatEnum.DD_MM_YYYY:
+        return `${day}/${month}/${year}`;
+      case InvoiceDateFormatEnum.MM_DD_YYYY:
+        return `${month}/${day}/${year}`;
+      case InvoiceDateFormatEnum.YYYY_MM_DD:
+        return `${year}-${month}-${day}`;
+      default:
+        return date.toLocaleDateString(branding.locale);
+    }
+  }
+
+  /**
+   * Text of the footer or terms of an invoice, stored either as a string or as `{ text }`
+   */
+  private getInvoiceText(value: JsonValue): string | null {
+    if (typeof value === 'string') {
+      return value || null;
+    }
+
+    const text = (value as Record<string, any> | null)?.text;
+    return typeof text === 'string' && text ? text : null;
+  }
+
+  /**
+   * Describe the day count of a pro-rated item
+   */
+  private getProrationNote(proration: ProrationResult): string {
+    const note = formatProration(proration);
+    return note.charAt(0).toUpperCase() + note.slice(1);
+  }
+
+  /**
+   * Describe the taxes of an item, e.g. "VAT 20%, incl. tax"
+   */
+  private getItemTaxNote(item: Record<string, any>): string | null {
+    if (item.isTaxExempt) {
+      return 'Tax exempt';
+    }
+
+    const taxes = Array.isArray(item.taxes)
+      ? (item.taxes as AppliedTax[]).map((tax) => `${tax.name} ${tax.rate}%`)
+      : [];
+
+    if (item.isTaxInclusive) {
+      taxes.push('incl. tax');
+    }
+
+    return taxes.length ? taxes.join(', ') : null;
+  }
+
+  /**
+   * Format a file size, e.g. "1.2 MB"
+   */
+  private formatFileSize(size: number): string {
+    if (size < 1024) {
+      return `${size} B`;
+    }
+
+    return size < 1024 * 1024
+      ? `${(size / 1024).toFixed(1)} KB`
+      : `${(size / (1024 * 1024)).toFixed(1)} MB`;
+  }
+
+  /**
+   * Describe a payout split, e.g. "$1500.00 in USDC on Ethereum to 0x742d..."
+   */
+  private getPaymentSplitLine(split: InvoicePaymentSplit): string {
+    const token = (split.token || {}) as Record<string, any>;
+    const network = (split.network || {}) as Record<string, any>;
+    return `$${split.amount} in ${token.symbol || 'N/A'} on ${network.name || 'N/A'} to ${split.walletAddress}`;
+  }
+
   /**
    * Get PDF filename for invoice
    */
   getInvoiceFilename(invoice: InvoiceModel): string {
     return `invoice-${invoice.invoiceNumber}.pdf`;
   }
+
+  /**
+   * Get PDF filename for credit note
+   */
+  getCreditNoteFilename(creditNote: CreditNoteWithInvoice): string {
+    return `credit-note-${creditNote.creditNoteNumber}.pdf`;
+  }
 }
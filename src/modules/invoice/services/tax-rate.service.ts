@@ -0,0 +1,260 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  BadRequestException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { TaxRateRepository } from '../repositories/tax-rate.repository';
+import { TeamMemberRepository } from 'src/modules/team-member/team-member.repository';
+import { PrismaService } from 'src/database/prisma.service';
+import { CreateTaxRateDto, UpdateTaxRateDto } from '../invoice.dto';
+import { TaxRateModel } from 'src/database/generated/models';
+import { TeamMemberRoleEnum } from 'src/database/generated/client';
+import { ErrorTaxRate } from 'src/common/constants/errors';
+import { handleError } from 'src/common/utils/errors';
+import { PrismaTransactionClient } from 'src/database/base.repository';
+import {
+  getLegacyTaxDefinitions,
+  TaxDefinition,
+} from 'src/common/utils/tax.util';
+
+/**
+ * Tax selection of a line item
+ */
+export interface ItemTaxSelection {
+  taxRateUUIDs?: string[];
+  taxRate?: string;
+  isTaxExempt?: boolean;
+}
+
+@Injectable()
+export class TaxRateService {
+  private readonly logger = new Logger(TaxRateService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly taxRateRepository: TaxRateRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+  ) {}
+
+  //#region GET METHODS
+  // *************************************************
+  // **************** GET METHODS ********************
+  // *************************************************
+  /**
+   * Get the tax rates of a company
+   */
+  async getTaxRates(companyId: number): Promise<TaxRateModel[]> {
+    try {
+      return await this.taxRateRepository.findByCompanyId(companyId);
+    } catch (error) {
+      this.logger.error('Error fetching tax rates:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Resolve the taxes of line items from the company's tax rates:
+   * the selected tax rates, the plain tax rate of the item, or the company's default taxes otherwise.
+   * Tax exempt items have no taxes.
+   */
+  async resolveItemTaxes(
+    companyId: number | null,
+    items: ItemTaxSelection[],
+    tx?: PrismaTransactionClient,
+  ): Promise<TaxDefinition[][]> {
+    const needsCompanyTaxRates = items.some(
+      (item) =>
+        !item.isTaxExempt &&
+        (item.taxRateUUIDs !== undefined || item.taxRate === undefined),
+    );
+    const companyTaxRates =
+      companyId && needsCompanyTaxRates
+        ? await this.taxRateRepository.findByCompanyId(companyId, tx)
+        : [];
+
+    return items.map((item) => {
+      if (item.isTaxExempt) {
+        if (item.taxRateUUIDs?.length) {
+          throw new BadRequestException(ErrorTaxRate.TaxExemptItemWithTaxes);
+        }
+
+        return [];
+      }
+
+      if (item.taxRateUUIDs !== undefined) {
+        return item.taxRateUUIDs.map((taxRateUUID) => {
+          const taxRate = companyTaxRates.find(
+            (companyTaxRate) => companyTaxRate.uuid === taxRateUUID,
+          );
+
+          if (!taxRate) {
+            throw new BadRequestException(ErrorTaxRate.TaxRateNotFound);
+          }
+
+          return this.toTaxDefinition(taxRate);
+        });
+      }
+
+      if (item.taxRate !== undefined) {
+        return getLegacyTaxDefinitions(item.taxRate);
+      }
+
+      return companyTaxRates
+        .filter((taxRate) => taxRate.isDefault)
+        .map((taxRate) => this.toTaxDefinition(taxRate));
+    });
+  }
+  //#endregion GET METHODS
+
+  //#region POST METHODS
+  // *************************************************
+  // **************** POST METHODS *******************
+  // *************************************************
+  /**
+   * Create a tax rate (company owners and admins only)
+   */
+  async createTaxRate(
+    companyId: number,
+    userId: number,
+    dto: CreateTaxRateDto,
+  ): Promise<TaxRateModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        return this.taxRateRepository.create(
+          {
+            company: { connect: { id: companyId } },
+            name: dto.name,
+            rate: dto.rate,
+            description: dto.description,
+            isCompound: dto.isCompound,
+            isDefault: dto.isDefault,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error('Error creating tax rate:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion POST METHODS
+
+  //#region PUT METHODS
+  // *************************************************
+  // **************** PUT METHODS ********************
+  // *************************************************
+  /**
+   * Update a tax rate (company owners and admins only)
+   * Items already invoiced keep the taxes they were created with
+   */
+  async updateTaxRate(
+    taxRateUUID: string,
+    companyId: number,
+    userId: number,
+    dto: UpdateTaxRateDto,
+  ): Promise<TaxRateModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        const taxRate = await this.findCompanyTaxRate(
+          taxRateUUID,
+          companyId,
+          tx,
+        );
+
+        return this.taxRateRepository.update(
+          { id: taxRate.id },
+          {
+            name: dto.name,
+            rate: dto.rate,
+            description: dto.description,
+            isCompound: dto.isCompound,
+            isDefault: dto.isDefault,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error('Error updating tax rate:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion PUT METHODS
+
+  //#region DELETE METHODS
+  // *************************************************
+  // **************** DELETE METHODS ****************
+  // *************************************************
+  /**
+   * Delete a tax rate (company owners and admins only)
+   * Items already invoiced keep the taxes they were created with
+   */
+  async deleteTaxRate(
+    taxRateUUID: string,
+    companyId: number,
+    userId: number,
+  ): Promise<void> {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await this.checkCanConfigure(companyId, userId, tx);
+
+        const taxRate = await this.findCompanyTaxRate(
+          taxRateUUID,
+          companyId,
+          tx,
+        );
+
+        await this.taxRateRepository.delete({ id: taxRate.id }, tx);
+      });
+    } catch (error) {
+      this.logger.error('Error deleting tax rate:', error);
+      handleError(error, this.logger);
+    }
+  }
+  //#endregion DELETE METHODS
+
+  private async findCompanyTaxRate(
+    taxRateUUID: string,
+    companyId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<TaxRateModel> {
+    const taxRate = await this.taxRateRepository.findByUUID(taxRateUUID, tx);
+
+    if (!taxRate || taxRate.companyId !== companyId) {
+      throw new NotFoundException(ErrorTaxRate.TaxRateNotFound);
+    }
+
+    return taxRate;
+  }
+
+  private async checkCanConfigure(
+    companyId: number,
+    userId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const canConfigure = await this.teamMemberRepository.hasPermission(
+      companyId,
+      userId,
+      [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+      tx,
+    );
+
+    if (!canConfigure) {
+      throw new ForbiddenException(ErrorTaxRate.InsufficientPermissions);
+    }
+  }
+
+  private toTaxDefinition(taxRate: TaxRateModel): TaxDefinition {
+    return {
+      taxRateUUID: taxRate.uuid,
+      name: taxRate.name,
+      rate: taxRate.rate,
+      isCompound: taxRate.isCompound,
+    };
+  }
+}
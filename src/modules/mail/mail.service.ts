@@ -271,6 +271,91 @@ export class MailService {
     }
   }
 
+  /**
+   * Send invoice dispute notification to company
+   */
+  async sendInvoiceDisputeNotification(
+    companyEmail: string,
+    invoiceNumber: string,
+    companyName: string,
+    employeeName: string,
+    employeeEmail: string,
+    reason: string,
+  ): Promise<void> {
+    try {
+      const fromEmail =
+        'noreply@' + this.appConfigService.mailConfig.mailgun.domain;
+
+      const subject = `Invoice ${invoiceNumber} from ${employeeName} Disputed`;
+      const html = `
+       <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Invoice Disputed</title>
+      </head>
+      <body style="margin: 0; padding: 0; background: #0e3ee0; font-family: 'Inter', Arial, sans-serif; color: #0f172a;">
+        <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/top.png" style="height: 50px; width: 100%; display: block;" alt=""/>
+        <div style="width: 100%; background: #0e3ee0; padding: 32px 12px; box-sizing: border-box;">
+          <div style="max-width: 720px; margin: 0 auto; background: #f5f7fb; overflow: hidden;">
+            <div style="padding: 28px 36px 0 36px; text-align: left;">
+               <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/qash-logo.png" alt="Qash logo" style="width: 60px; height: 60px; margin-bottom: 8px;" />
+              <p style="font-size: 30px; font-weight: 700; margin: 0 0 12px 0; color: #0f172a;">Invoice disputed</p>
+              <div style="height: 1px; width: 100%; background-color: #d9d9d9; margin-bottom: 20px;"></div>
+              <p style="font-size: 16px; margin: 0; margin-top: 40px; color: #1f2937; font-weight: bold;">Dear ${companyName}</p>
+            </div>
+            <div>
+              <div style="padding: 0 36px 32px 36px; font-size: 15px; line-height: 1.6; color: #1f2937;">
+              <p style="margin-bottom: 20px; margin-top: 0;">
+                 ${employeeName} (${employeeEmail}) has disputed invoice ${invoiceNumber} and requested changes:
+              </p>
+              <p style="margin-bottom: 40px; margin-top: 0; padding: 12px 16px; background: #ffffff; border-left: 3px solid #0059ff;">
+                 ${reason}
+              </p>
+              <p style="margin-bottom: 40px; margin-top: 0;">
+                 Please review the request, then revise and re-send the invoice from the <b>Invoice</b> section.
+              </p>
+              <div style="margin: 20px 0;">
+                <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(0deg, #002c69 0%, #0061e7 100%); border-radius: 10px; padding: 2px;">
+                  <tr>
+                    <td align="center" style="background: #0059ff; border-top: 2px solid #4888ff; border-radius: 8px; padding: 12px;">
+                      <a href="${this.frontendUrl}" style="color: white; font-size: 15px; text-decoration: none; font-weight: 500; display: block;">Open App</a>
+                    </td>
+                  </tr>
+                </table>
+              </div>
+               <div style="margin-top: 40px; height: 1px; width: 100%; background-color: #d9d9d9;"></div>
+              </div>
+            </div>
+            <div style="padding: 0 36px 28px 36px; font-size: 13px; color: #6b7280; line-height: 1.5;">
+              <p style="margin: 0;">This is an automated message, please do not reply to this email.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+      `;
+
+      await this.sendEmail({
+        to: companyEmail,
+        fromEmail,
+        subject,
+        html,
+      });
+
+      this.logger.log(
+        `Invoice dispute notification sent to ${companyEmail} for invoice ${invoiceNumber}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send invoice dispute notification to ${companyEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
   /**
    * Send overdue bill notification
    */
@@ -338,4 +423,277 @@ export class MailService {
       throw error;
     }
   }
+
+  /**
+   * Send payroll renewal reminder to company before the final payroll cycle
+   */
+  async sendPayrollRenewalReminder(
+    companyEmail: string,
+    companyName: string,
+    employeeName: string,
+    finalPayDate: string,
+    payrollId: number,
+  ): Promise<void> {
+    try {
+      const fromEmail =
+        'noreply@' + this.appConfigService.mailConfig.mailgun.domain;
+      const payrollUrl = `${this.frontendUrl}/payroll/${payrollId}`;
+
+      const subject = `Payroll for ${employeeName} ends on ${finalPayDate}`;
+      const html = `
+       <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Payroll Renewal Reminder</title>
+      </head>
+      <body style="margin: 0; padding: 0; background: #0e3ee0; font-family: 'Inter', Arial, sans-serif; color: #0f172a;">
+        <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/top.png" style="height: 50px; width: 100%; display: block;" alt=""/>
+        <div style="width: 100%; background: #0e3ee0; padding: 32px 12px; box-sizing: border-box;">
+          <div style="max-width: 720px; margin: 0 auto; background: #f5f7fb; overflow: hidden;">
+            <div style="padding: 28px 36px 0 36px; text-align: left;">
+               <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/qash-logo.png" alt="Qash logo" style="width: 60px; height: 60px; margin-bottom: 8px;" />
+              <p style="font-size: 30px; font-weight: 700; margin: 0 0 12px 0; color: #0f172a;">Payroll ending soon</p>
+              <div style="height: 1px; width: 100%; background-color: #d9d9d9; margin-bottom: 20px;"></div>
+              <p style="font-size: 16px; margin: 0; margin-top: 40px; color: #1f2937; font-weight: bold;">Dear ${companyName}</p>
+            </div>
+            <div>
+              <div style="padding: 0 36px 32px 36px; font-size: 15px; line-height: 1.6; color: #1f2937;">
+              <p style="margin-bottom: 40px; margin-top: 0;">
+                 The final payroll cycle for ${employeeName} will be paid on <b>${finalPayDate}</b>. No further invoices will be generated after that date unless the payroll is extended.
+              </p>
+              <div style="margin: 20px 0;">
+                <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(0deg, #002c69 0%, #0061e7 100%); border-radius: 10px; padding: 2px;">
+                  <tr>
+                    <td align="center" style="background: #0059ff; border-top: 2px solid #4888ff; border-radius: 8px; padding: 12px;">
+                      <a href="${payrollUrl}" style="color: white; font-size: 15px; text-decoration: none; font-weight: 500; display: block;">Review Payroll</a>
+                    </td>
+                  </tr>
+                </table>
+              </div>
+               <div style="margin-top: 40px; height: 1px; width: 100%; background-color: #d9d9d9;"></div>
+              </div>
+            </div>
+            <div style="padding: 0 36px 28px 36px; font-size: 13px; color: #6b7280; line-height: 1.5;">
+              <p style="margin: 0;">This is an automated message, please do not reply to this email.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+      `;
+
+      await this.sendEmail({
+        to: companyEmail,
+        fromEmail,
+        subject,
+        html,
+      });
+
+      this.logger.log(
+        `Payroll renewal reminder sent to ${companyEmail} for payroll ${payrollId}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send payroll renewal reminder to ${companyEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send B2B invoice notification to the recipient company
+   */
+  async sendB2BInvoiceNotification(
+    recipientEmail: string,
+    invoiceNumber: string,
+    invoiceUUID: string,
+    dueDate: Date,
+    senderCompanyName: string,
+    recipientName: string,
+    amount: string,
+    tokenSymbol: string,
+    publicToken?: string | null,
+  ): Promise<void> {
+    try {
+      const fromEmail =
+        'noreply@' + this.appConfigService.mailConfig.mailgun.domain;
+      // Unregistered recipients get the public invoice page, where they can pay without an account
+      const invoiceReviewUrl = publicToken
+        ? `${this.frontendUrl}/public-invoice/${publicToken}`
+        : `${this.frontendUrl}/invoice-review?id=${invoiceUUID}&email=${encodeURIComponent(
+            recipientEmail,
+          )}`;
+
+      const subject = `Invoice ${invoiceNumber} from ${senderCompanyName}`;
+      const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Invoice Review</title>
+      </head>
+      <body style="margin: 0; padding: 0; background: #0e3ee0; font-family: 'Inter', Arial, sans-serif; color: #0f172a;">
+        <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/top.png" style="height: 50px; width: 100%; display: block;" alt=""/>
+        <div style="width: 100%; background: #0e3ee0; padding: 32px 12px; box-sizing: border-box;">
+          <div style="max-width: 720px; margin: 0 auto; background: #f5f7fb; overflow: hidden;">
+            <div style="padding: 28px 36px 0 36px; text-align: left;">
+              <p style="font-size: 30px; font-weight: 700; margin: 0 0 12px 0; color: #0f172a;">You have a new invoice from ${senderCompanyName}</p>
+              <p style="color: #848484; margin: 0 0 12px 0;">Due date: ${new Date(dueDate).toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' })}</p>
+              <div style="height: 1px; width: 100%; background-color: #d9d9d9; margin-bottom: 20px;"></div>
+              <p style="font-size: 16px; margin: 0; margin-top: 40px; color: #1f2937; font-weight: bold;">Hello, ${recipientName}</p>
+            </div>
+            <div>
+              <div style="padding: 0 36px 32px 36px; font-size: 15px; line-height: 1.6; color: #1f2937;">
+              <p style="margin-bottom: 40px; margin-top: 0;">
+                 ${senderCompanyName} sent you invoice ${invoiceNumber} of ${amount} ${tokenSymbol}. ${publicToken ? 'Please review the details and pay it from the invoice page.' : 'Please review the details and confirm it to schedule the payment.'}
+              </p>
+              <div style="margin: 20px 0;">
+                <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(0deg, #002c69 0%, #0061e7 100%); border-radius: 10px; padding: 2px;">
+                  <tr>
+                    <td align="center" style="background: #0059ff; border-top: 2px solid #4888ff; border-radius: 8px; padding: 12px;">
+                      <a href="${invoiceReviewUrl}" style="color: white; font-size: 15px; text-decoration: none; font-weight: 500; display: block;">View Invoice</a>
+                    </td>
+                  </tr>
+                </table>
+              </div>
+               <div style="margin-top: 40px; height: 1px; width: 100%; background-color: #d9d9d9;"></div>
+              </div>
+            </div>
+            <div style="padding: 0 36px 28px 36px; font-size: 13px; color: #6b7280; line-height: 1.5;">
+              <p style="margin: 0;">This is an automated message, please do not reply to this email.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+      `;
+
+      await this.sendEmail({
+        to: recipientEmail,
+        fromEmail,
+        subject,
+        html,
+      });
+
+      this.logger.log(
+        `B2B invoice notification sent to ${recipientEmail} for invoice ${invoiceNumber}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send B2B invoice notification to ${recipientEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Send a payment reminder for an invoice, escalating from an upcoming due date to a final notice
+   */
+  async sendInvoicePaymentReminder(
+    recipientEmail: string,
+    invoiceNumber: string,
+    invoiceUUID: string,
+    dueDate: Date,
+    senderName: string,
+    recipientName: string,
+    amountDue: string,
+    tokenSymbol: string,
+    daysFromDue: number,
+    isFinalNotice: boolean,
+    message?: string | null,
+    publicToken?: string | null,
+    isBill = false,
+  ): Promise<void> {
+    try {
+      const fromEmail =
+        'noreply@' + this.appConfigService.mailConfig.mailgun.domain;
+      // Companies pay employee invoices from their bills, unregistered recipients from the public invoice page
+      const invoiceUrl = isBill
+        ? `${this.frontendUrl}/dashboard/bills`
+        : publicToken
+          ? `${this.frontendUrl}/public-invoice/${publicToken}`
+          : `${this.frontendUrl}/invoice-review?id=${invoiceUUID}&email=${encodeURIComponent(
+              recipientEmail,
+            )}`;
+
+      const days = Math.abs(daysFromDue);
+      const dayLabel = `${days} day${days === 1 ? '' : 's'}`;
+      const title =
+        daysFromDue < 0
+          ? `Invoice ${invoiceNumber} is due in ${dayLabel}`
+          : daysFromDue === 0
+            ? `Invoice ${invoiceNumber} is due today`
+            : `Invoice ${invoiceNumber} is ${dayLabel} overdue`;
+      const subject = isFinalNotice ? `Final notice: ${title}` : title;
+      const accentColor = daysFromDue > 0 ? '#dc3545' : '#0059ff';
+
+      const html = `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Payment Reminder</title>
+      </head>
+      <body style="margin: 0; padding: 0; background: #0e3ee0; font-family: 'Inter', Arial, sans-serif; color: #0f172a;">
+        <img src="https://raw.githubusercontent.com/qash-finance/qash-server/refs/heads/main/images/top.png" style="height: 50px; width: 100%; display: block;" alt=""/>
+        <div style="width: 100%; background: #0e3ee0; padding: 32px 12px; box-sizing: border-box;">
+          <div style="max-width: 720px; margin: 0 auto; background: #f5f7fb; overflow: hidden;">
+            <div style="padding: 28px 36px 0 36px; text-align: left;">
+              <p style="font-size: 30px; font-weight: 700; margin: 0 0 12px 0; color: ${accentColor};">${subject}</p>
+              <p style="color: #848484; margin: 0 0 12px 0;">Due date: ${new Date(dueDate).toLocaleDateString('en-US', { month: 'short', day: '2-digit', year: 'numeric' })}</p>
+              <div style="height: 1px; width: 100%; background-color: #d9d9d9; margin-bottom: 20px;"></div>
+              <p style="font-size: 16px; margin: 0; margin-top: 40px; color: #1f2937; font-weight: bold;">Hello, ${recipientName}</p>
+            </div>
+            <div>
+              <div style="padding: 0 36px 32px 36px; font-size: 15px; line-height: 1.6; color: #1f2937;">
+              <p style="margin-top: 0;">
+                 ${amountDue} ${tokenSymbol} ${daysFromDue > 0 ? 'is past due' : 'is due'} on invoice ${invoiceNumber} from ${senderName}.
+                 ${isFinalNotice ? 'This is the last reminder, please pay it as soon as possible.' : 'Please make sure it is paid on time.'}
+              </p>
+              ${message ? `<p style="margin-bottom: 40px; white-space: pre-line;">${message}</p>` : ''}
+              <div style="margin: 20px 0;">
+                <table width="100%" cellpadding="0" cellspacing="0" style="background: linear-gradient(0deg, #002c69 0%, #0061e7 100%); border-radius: 10px; padding: 2px;">
+                  <tr>
+                    <td align="center" style="background: #0059ff; border-top: 2px solid #4888ff; border-radius: 8px; padding: 12px;">
+                      <a href="${invoiceUrl}" style="color: white; font-size: 15px; text-decoration: none; font-weight: 500; display: block;">${isBill ? 'View Bills' : 'View Invoice'}</a>
+                    </td>
+                  </tr>
+                </table>
+              </div>
+               <div style="margin-top: 40px; height: 1px; width: 100%; background-color: #d9d9d9;"></div>
+              </div>
+            </div>
+            <div style="padding: 0 36px 28px 36px; font-size: 13px; color: #6b7280; line-height: 1.5;">
+              <p style="margin: 0;">This is an automated message, please do not reply to this email. Ignore this reminder if the invoice was already paid.</p>
+            </div>
+          </div>
+        </div>
+      </body>
+      </html>
+      `;
+
+      await this.sendEmail({
+        to: recipientEmail,
+        fromEmail,
+        subject,
+        html,
+      });
+
+      this.logger.log(
+        `Payment reminder sent to ${recipientEmail} for invoice ${invoiceNumber}`,
+      );
+    } catch (error) {
+      this.logger.error(
+        `Failed to send payment reminder to ${recipientEmail}:`,
+        error,
+      );
+      throw error;
+    }
+  }
 }
@@ -0,0 +1,148 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PayrollAdjustmentModel } from '../../database/generated/models/PayrollAdjustment';
+import {
+  PayrollAdjustmentStatusEnum,
+  PayrollAdjustmentTypeEnum,
+  Prisma,
+  PrismaClient,
+} from '../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+/**
+ * Adjustment types that are subtracted from the payroll invoice
+ */
+export const DEDUCTION_ADJUSTMENT_TYPES: PayrollAdjustmentTypeEnum[] = [
+  PayrollAdjustmentTypeEnum.ADVANCE_REPAYMENT,
+  PayrollAdjustmentTypeEnum.DEDUCTION,
+];
+
+/**
+ * Label shown on invoice line items for each adjustment type
+ */
+export const PAYROLL_ADJUSTMENT_LABELS: Record<
+  PayrollAdjustmentTypeEnum,
+  string
+> = {
+  [PayrollAdjustmentTypeEnum.BONUS]: 'Bonus',
+  [PayrollAdjustmentTypeEnum.REIMBURSEMENT]: 'Expense reimbursement',
+  [PayrollAdjustmentTypeEnum.ADVANCE_REPAYMENT]: 'Advance repayment',
+  [PayrollAdjustmentTypeEnum.DEDUCTION]: 'Deduction',
+};
+
+/**
+ * Signed amount of an adjustment: negative for deductions, positive otherwise
+ */
+export function getSignedAdjustmentAmount(adjustment: {
+  type: PayrollAdjustmentTypeEnum;
+  amount: string;
+}): number {
+  const amount = parseFloat(adjustment.amount);
+  return DEDUCTION_ADJUSTMENT_TYPES.includes(adjustment.type)
+    ? -amount
+    : amount;
+}
+
+@Injectable()
+export class PayrollAdjustmentRepository extends BaseRepository<
+  PayrollAdjustmentModel,
+  Prisma.PayrollAdjustmentWhereInput,
+  Prisma.PayrollAdjustmentCreateInput,
+  Prisma.PayrollAdjustmentUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['payrollAdjustment'] {
+    return tx ? tx.payrollAdjustment : this.prisma.payrollAdjustment;
+  }
+
+  protected getModelName(): string {
+    return 'PayrollAdjustment';
+  }
+
+  /**
+   * Find all adjustments of a payroll, ordered by cycle
+   */
+  async findByPayrollId(
+    payrollId: number,
+    status?: PayrollAdjustmentStatusEnum,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollAdjustmentModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { payrollId, ...(status && { status }) },
+      orderBy: [{ cycleNumber: 'asc' }, { createdAt: 'asc' }],
+    });
+  }
+
+  /**
+   * Find the pending adjustments to be paid with a given cycle (1-based)
+   */
+  async findPendingForCycle(
+    payrollId: number,
+    cycleNumber: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollAdjustmentModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        payrollId,
+        cycleNumber,
+        status: PayrollAdjustmentStatusEnum.PENDING,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Find the pending adjustments to be paid with a range of cycles (1-based, inclusive)
+   */
+  async findPendingForCycles(
+    payrollId: number,
+    fromCycleNumber: number,
+    toCycleNumber: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollAdjustmentModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        payrollId,
+        cycleNumber: { gte: fromCycleNumber, lte: toCycleNumber },
+        status: PayrollAdjustmentStatusEnum.PENDING,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Mark adjustments as applied to an invoice
+   */
+  async markApplied(
+    ids: number[],
+    invoiceId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<void> {
+    if (ids.length === 0) {
+      return;
+    }
+
+    // updateMany cannot connect relations, so set the foreign key directly
+    const model = this.getModel(tx);
+    await model.updateMany({
+      where: { id: { in: ids }, status: PayrollAdjustmentStatusEnum.PENDING },
+      data: {
+        status: PayrollAdjustmentStatusEnum.APPLIED,
+        invoiceId,
+        appliedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+  }
+}
@@ -0,0 +1,165 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PayrollAmendmentModel } from '../../database/generated/models/PayrollAmendment';
+import { Prisma, PrismaClient } from '../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+import { JsonValue } from '@prisma/client/runtime/client';
+
+export interface PayrollTerms {
+  amount: string;
+  token: JsonValue;
+  network: JsonValue;
+  amendmentId: number | null;
+}
+
+type PayrollTermsSource = {
+  id: number;
+  amount: string;
+  token: JsonValue;
+  network: JsonValue;
+};
+
+/**
+ * Order amendments by effective date, then creation date
+ */
+function compareAmendments(
+  first: PayrollAmendmentModel,
+  second: PayrollAmendmentModel,
+): number {
+  return (
+    first.effectiveDate.getTime() - second.effectiveDate.getTime() ||
+    first.createdAt.getTime() - second.createdAt.getTime()
+  );
+}
+
+/**
+ * Resolve the terms in force on a given date from a payroll's amendments.
+ * Falls back to the terms before the first amendment, or to the payroll itself when it was never amended.
+ */
+export function resolveTermsInForce(
+  payroll: PayrollTermsSource,
+  amendments: PayrollAmendmentModel[],
+  date: Date,
+): PayrollTerms {
+  const sorted = [...amendments].sort(compareAmendments);
+  const inForce = sorted
+    .filter((amendment) => amendment.effectiveDate <= date)
+    .pop();
+
+  if (inForce) {
+    return {
+      amount: inForce.amount,
+      token: inForce.token,
+      network: inForce.network,
+      amendmentId: inForce.id,
+    };
+  }
+
+  const firstAmendment = sorted[0];
+
+  if (firstAmendment) {
+    return {
+      amount: firstAmendment.previousAmount,
+      token: firstAmendment.previousToken,
+      network: firstAmendment.previousNetwork,
+      amendmentId: null,
+    };
+  }
+
+  return {
+    amount: payroll.amount,
+    token: payroll.token,
+    network: payroll.network,
+    amendmentId: null,
+  };
+}
+
+export type PayrollAmendmentWithApprover = Prisma.PayrollAmendmentGetPayload<{
+  include: {
+    approvedBy: {
+      select: {
+        id: true;
+        email: true;
+      };
+    };
+  };
+}>;
+
+@Injectable()
+export class PayrollAmendmentRepository extends BaseRepository<
+  PayrollAmendmentModel,
+  Prisma.PayrollAmendmentWhereInput,
+  Prisma.PayrollAmendmentCreateInput,
+  Prisma.PayrollAmendmentUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['payrollAmendment'] {
+    return tx ? tx.payrollAmendment : this.prisma.payrollAmendment;
+  }
+
+  protected getModelName(): string {
+    return 'PayrollAmendment';
+  }
+
+  /**
+   * Find all amendments of a payroll, most recent effective date first
+   */
+  async findByPayrollId(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollAmendmentWithApprover[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { payrollId },
+      include: {
+        approvedBy: {
+          select: {
+            id: true,
+            email: true,
+          },
+        },
+      },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+
+  /**
+   * Resolve the terms (amount, token, network) in force on a given date.
+   * Falls back to the terms before the first amendment, or to the payroll itself when it was never amended.
+   */
+  async getTermsInForce(
+    payroll: PayrollTermsSource,
+    date: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollTerms> {
+    const model = this.getModel(tx);
+
+    const amendments = await model.findMany({
+      where: { payrollId: payroll.id },
+    });
+
+    return resolveTermsInForce(payroll, amendments, date);
+  }
+
+  /**
+   * Find the amendment with the latest effective date
+   */
+  async findLatest(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollAmendmentModel | null> {
+    const model = this.getModel(tx);
+    return model.findFirst({
+      where: { payrollId },
+      orderBy: [{ effectiveDate: 'desc' }, { createdAt: 'desc' }],
+    });
+  }
+}
@@ -0,0 +1,124 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PayrollPauseModel } from '../../database/generated/models/PayrollPause';
+import {
+  PayrollPauseStatusEnum,
+  Prisma,
+  PrismaClient,
+} from '../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+
+/**
+ * Pauses that are still to come or in progress
+ */
+export const OPEN_PAUSE_STATUSES: PayrollPauseStatusEnum[] = [
+  PayrollPauseStatusEnum.SCHEDULED,
+  PayrollPauseStatusEnum.ACTIVE,
+];
+
+@Injectable()
+export class PayrollPauseRepository extends BaseRepository<
+  PayrollPauseModel,
+  Prisma.PayrollPauseWhereInput,
+  Prisma.PayrollPauseCreateInput,
+  Prisma.PayrollPauseUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['payrollPause'] {
+    return tx ? tx.payrollPause : this.prisma.payrollPause;
+  }
+
+  protected getModelName(): string {
+    return 'PayrollPause';
+  }
+
+  /**
+   * Find all pauses of a payroll, most recent first
+   */
+  async findByPayrollId(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPauseModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { payrollId },
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
+  /**
+   * Find the pause in progress of a payroll
+   */
+  async findActiveForPayroll(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPauseModel | null> {
+    const model = this.getModel(tx);
+    return model.findFirst({
+      where: { payrollId, status: PayrollPauseStatusEnum.ACTIVE },
+      orderBy: { startDate: 'desc' },
+    });
+  }
+
+  /**
+   * Find the scheduled or active pauses of a payroll overlapping a window (an open end never ends)
+   */
+  async findOverlapping(
+    payrollId: number,
+    startDate: Date,
+    endDate: Date | null,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPauseModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        payrollId,
+        status: { in: OPEN_PAUSE_STATUSES },
+        OR: [{ endDate: null }, { endDate: { gt: startDate } }],
+        ...(endDate && { startDate: { lt: endDate } }),
+      },
+    });
+  }
+
+  /**
+   * Find scheduled pauses whose start date has been reached
+   */
+  async findDueToStart(
+    date: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPauseModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        status: PayrollPauseStatusEnum.SCHEDULED,
+        startDate: { lte: date },
+      },
+      orderBy: { startDate: 'asc' },
+    });
+  }
+
+  /**
+   * Find active pauses whose end date has been reached
+   */
+  async findDueToEnd(
+    date: Date,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPauseModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: {
+        status: PayrollPauseStatusEnum.ACTIVE,
+        endDate: { lte: date },
+      },
+      orderBy: { endDate: 'asc' },
+    });
+  }
+}
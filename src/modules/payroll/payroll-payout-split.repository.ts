@@ -0,0 +1,77 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../../database/prisma.service';
+import { PayrollPayoutSplitModel } from '../../database/generated/models/PayrollPayoutSplit';
+import { Prisma, PrismaClient } from '../../database/generated/client';
+import {
+  BaseRepository,
+  PrismaTransactionClient,
+} from 'src/database/base.repository';
+import { PayoutSplitDefinition } from 'src/common/utils/payout-split.util';
+
+@Injectable()
+export class PayrollPayoutSplitRepository extends BaseRepository<
+  PayrollPayoutSplitModel,
+  Prisma.PayrollPayoutSplitWhereInput,
+  Prisma.PayrollPayoutSplitCreateInput,
+  Prisma.PayrollPayoutSplitUpdateInput
+> {
+  constructor(protected readonly prisma: PrismaService) {
+    super(prisma);
+  }
+
+  protected getModel(
+    tx?: PrismaTransactionClient,
+  ): PrismaClient['payrollPayoutSplit'] {
+    return tx ? tx.payrollPayoutSplit : this.prisma.payrollPayoutSplit;
+  }
+
+  protected getModelName(): string {
+    return 'PayrollPayoutSplit';
+  }
+
+  /**
+   * Find the payout splits of a payroll in payout order
+   */
+  async findByPayrollId(
+    payrollId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    const model = this.getModel(tx);
+    return model.findMany({
+      where: { payrollId },
+      orderBy: [{ order: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  /**
+   * Replace the payout splits of a payroll
+   */
+  async replaceForPayroll(
+    payrollId: number,
+    splits: Omit<PayoutSplitDefinition, 'id'>[],
+    tx: PrismaTransactionClient,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    const model = this.getModel(tx);
+    const now = new Date();
+
+    await model.deleteMany({ where: { payrollId } });
+
+    if (splits.length > 0) {
+      await model.createMany({
+        data: splits.map((split, index) => ({
+          payrollId,
+          type: split.type,
+          value: split.value,
+          token: split.token,
+          network: split.network,
+          walletAddress: split.walletAddress ?? null,
+          order: index,
+          createdAt: now,
+          updatedAt: now,
+        })),
+      });
+    }
+
+    return this.findByPayrollId(payrollId, tx);
+  }
+}
@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  PayrollRepository,
+  PayrollWithCompanyAndEmployee,
+} from './payroll.repository';
+import { PayrollPauseRepository } from './payroll-pause.repository';
+import { PayrollService } from './payroll.service';
+import { TeamMemberRepository } from '../team-member/team-member.repository';
+import { MailService } from '../mail/mail.service';
+import {
+  addDays,
+  formatDateDDMMYYYY,
+  getPayDate,
+} from 'src/common/utils/pay-frequency.util';
+
+@Injectable()
+export class PayrollSchedulerService {
+  private readonly logger = new Logger(PayrollSchedulerService.name);
+
+  constructor(
+    private readonly payrollRepository: PayrollRepository,
+    private readonly payrollPauseRepository: PayrollPauseRepository,
+    private readonly payrollService: PayrollService,
+    private readonly teamMemberRepository: TeamMemberRepository,
+    private readonly mailService: MailService,
+  ) {}
+
+  /**
+   * Run daily to remind companies of contracts reaching their final payroll cycle
+   */
+  @Cron(CronExpression.EVERY_DAY_AT_9AM)
+  async sendRenewalReminders() {
+    try {
+      const now = new Date();
+      const payrolls =
+        await this.payrollRepository.findPayrollsAwaitingRenewalReminder();
+
+      let sentCount = 0;
+      for (const payroll of payrolls) {
+        // Pay date of the last cycle (cycles are 0-based)
+        const finalPayDate = getPayDate(
+          payroll.payStartDate,
+          payroll.payFrequency,
+          payroll.payrollCycle - 1,
+        );
+
+        if (
+          finalPayDate < now ||
+          addDays(now, payroll.renewalReminderDays) < finalPayDate
+        ) {
+          continue;
+        }
+
+        try {
+          if (await this.sendRenewalReminder(payroll, finalPayDate)) {
+            sentCount++;
+          }
+        } catch (error) {
+          this.logger.error(
+            `Failed to send renewal reminder for payroll ${payroll.id}:`,
+            error,
+          );
+          // Continue with other payrolls even if one fails
+        }
+      }
+
+      if (sentCount > 0) {
+        this.logger.log(`Sent ${sentCount} payroll renewal reminder(s)`);
+      } else {
+        this.logger.debug('No payroll renewal reminders to send');
+      }
+    } catch (error) {
+      this.logger.error('Error in payroll renewal reminder scheduler:', error);
+    }
+  }
+
+  /**
+   * Run every hour to start scheduled pauses and resume payrolls whose pause has ended
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async processPayrollPauses() {
+    try {
+      const now = new Date();
+
+      const pausesToStart =
+        await this.payrollPauseRepository.findDueToStart(now);
+      for (const pause of pausesToStart) {
+        try {
+          await this.payrollService.startScheduledPause(pause.id);
+        } catch (error) {
+          this.logger.error(
+            `Failed to start payroll pause ${pause.id}:`,
+            error,
+          );
+          // Continue with other pauses even if one fails
+        }
+      }
+
+      // Pauses started above may already be over
+      const pausesToEnd = await this.payrollPauseRepository.findDueToEnd(now);
+      for (const pause of pausesToEnd) {
+        try {
+          await this.payrollService.endExpiredPause(pause.id);
+        } catch (error) {
+          this.logger.error(`Failed to end payroll pause ${pause.id}:`, error);
+          // Continue with other pauses even if one fails
+        }
+      }
+
+      if (pausesToStart.length > 0 || pausesToEnd.length > 0) {
+        this.logger.log(
+          `Started ${pausesToStart.length} and ended ${pausesToEnd.length} payroll pause(s)`,
+        );
+      } else {
+        this.logger.debug('No payroll pauses to start or end');
+      }
+    } catch (error) {
+      this.logger.error('Error in payroll pause scheduler:', error);
+    }
+  }
+
+  /**
+   * Email the company about the final cycle and record the reminder as sent
+   */
+  private async sendRenewalReminder(
+    payroll: PayrollWithCompanyAndEmployee,
+    finalPayDate: Date,
+  ): Promise<boolean> {
+    let companyEmail = payroll.company.notificationEmail;
+
+    if (!companyEmail) {
+      const teamMember = await this.teamMemberRepository.findOnlyTeamMember(
+        payroll.companyId,
+      );
+      companyEmail = teamMember?.user?.email;
+    }
+
+    if (!companyEmail) {
+      this.logger.warn(
+        `Skipping renewal reminder for payroll ${payroll.id} - company has no email`,
+      );
+      return false;
+    }
+
+    await this.mailService.sendPayrollRenewalReminder(
+      companyEmail,
+      payroll.company.companyName,
+      payroll.employee.name,
+      formatDateDDMMYYYY(finalPayDate),
+      payroll.id,
+    );
+
+    await this.payrollRepository.update(
+      { id: payroll.id },
+      { renewalReminderSentAt: new Date() },
+    );
+
+    return true;
+  }
+}
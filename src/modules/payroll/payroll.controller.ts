@@ -10,7 +10,10 @@ import {
   Query,
   ParseIntPipe,
   HttpStatus,
+  UploadedFile,
+  UseInterceptors,
 } from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
 import {
   ApiTags,
   ApiOperation,
@@ -19,6 +22,7 @@ import {
   ApiParam,
   ApiQuery,
   ApiBody,
+  ApiConsumes,
 } from '@nestjs/swagger';
 import { PayrollService } from './payroll.service';
 import {
@@ -27,8 +31,30 @@ import {
   PayrollQueryDto,
   PayrollStatsDto,
   PendingInvoiceReviewsDto,
+  CreatePayrollAmendmentDto,
+  CreatePayrollAdjustmentDto,
+  ExtendPayrollDto,
+  OffboardPayrollDto,
+  OffboardPayrollResultDto,
+  CreatePayrollPauseDto,
+  PausePayrollDto,
+  PayrollAdjustmentQueryDto,
+  PayrollRunPreviewDto,
+  PayrollRunPreviewQueryDto,
+  SetPayrollPayoutSplitsDto,
+  PayrollForecastDto,
+  PayrollForecastQueryDto,
+  PayrollImportFile,
+  PayrollImportQueryDto,
+  PayrollImportResultDto,
 } from './payroll.dto';
-import { PayrollModel } from 'src/database/generated/models';
+import {
+  PayrollAdjustmentModel,
+  PayrollAmendmentModel,
+  PayrollModel,
+  PayrollPauseModel,
+  PayrollPayoutSplitModel,
+} from 'src/database/generated/models';
 import { CompanyAuth } from '../auth/decorators/company-auth.decorator';
 import {
   CurrentUser,
@@ -89,6 +115,48 @@ export class PayrollController {
     return this.payrollService.getPayrollStats(user.company.id);
   }
 
+  @Get('run-preview')
+  @ApiOperation({
+    summary: 'Preview the next payroll run',
+    description:
+      'Simulates the invoice scheduler on the given date without writing anything: which schedules would fire, the invoices and amounts per token, and which payrolls would be skipped',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll run preview generated successfully',
+    type: PayrollRunPreviewDto,
+  })
+  async getRunPreview(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Query() query: PayrollRunPreviewQueryDto,
+  ): Promise<PayrollRunPreviewDto> {
+    return this.payrollService.getRunPreview(
+      user.company.id,
+      query.date ? new Date(query.date) : undefined,
+    );
+  }
+
+  @Get('forecast')
+  @ApiOperation({
+    summary: 'Forecast payroll obligations',
+    description:
+      'Projects the payroll obligations per month for the next months from the active payrolls, broken down by token, employee group and contract term',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll forecast generated successfully',
+    type: PayrollForecastDto,
+  })
+  async getPayrollForecast(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Query() query: PayrollForecastQueryDto,
+  ): Promise<PayrollForecastDto> {
+    return this.payrollService.getPayrollForecast(
+      user.company.id,
+      query.months,
+    );
+  }
+
   @Get(':id/pending-reviews')
   @ApiOperation({
     summary: 'Check if payroll has pending invoice reviews from employee',
@@ -112,6 +180,99 @@ export class PayrollController {
     return this.payrollService.checkPendingInvoiceReviews(id, user.company.id);
   }
 
+  @Get(':id/amendments')
+  @ApiOperation({
+    summary: 'Get payroll compensation history',
+    description:
+      'Returns every amendment of the payroll terms, most recent effective date first',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll amendments retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async getPayrollAmendments(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PayrollAmendmentModel[]> {
+    return this.payrollService.getPayrollAmendments(id, user.company.id);
+  }
+
+  @Get(':id/adjustments')
+  @ApiOperation({
+    summary: 'Get payroll adjustments',
+    description:
+      'Returns the one-off bonuses, reimbursements and deductions attached to the payroll cycles',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll adjustments retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async getPayrollAdjustments(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Query() query: PayrollAdjustmentQueryDto,
+  ): Promise<PayrollAdjustmentModel[]> {
+    return this.payrollService.getPayrollAdjustments(
+      id,
+      user.company.id,
+      query,
+    );
+  }
+
+  @Get(':id/pauses')
+  @ApiOperation({
+    summary: 'Get payroll pauses',
+    description:
+      'Returns the scheduled, active and past pause windows of the payroll',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll pauses retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async getPayrollPauses(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PayrollPauseModel[]> {
+    return this.payrollService.getPayrollPauses(id, user.company.id);
+  }
+
+  @Get(':id/splits')
+  @ApiOperation({
+    summary: 'Get payroll payout splits',
+    description:
+      'Returns how the salary is split across tokens and wallets, in payout order',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout splits retrieved successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async getPayrollPayoutSplits(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    return this.payrollService.getPayrollPayoutSplits(id, user.company.id);
+  }
+
   @Get(':id')
   @ApiOperation({ summary: 'Get payroll details with payment history' })
   @ApiResponse({
@@ -186,6 +347,209 @@ export class PayrollController {
       body.amount,
     );
   }
+
+  @Post('import')
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 2 * 1024 * 1024 } }),
+  )
+  @ApiOperation({
+    summary: 'Bulk create payrolls from a CSV or XLSX file',
+    description:
+      'Columns (first row of the first worksheet for XLSX files): employeeEmail or employeeId, amount, contractTerm, payFrequency, payrollCycle, payday, joiningDate, description, and optionally contractEndDate, prorationMethod, note, generateDaysBefore, renewalReminderDays. Token and network are taken from the employee. Returns a row-by-row report; valid rows are created in a single transaction unless dryRun is set',
+  })
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', format: 'binary' },
+      },
+    },
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'File validated and valid rows imported',
+    type: PayrollImportResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Missing, empty or unsupported file',
+  })
+  async importPayrolls(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @UploadedFile() file: PayrollImportFile,
+    @Query() query: PayrollImportQueryDto,
+  ): Promise<PayrollImportResultDto> {
+    return this.payrollService.importPayrolls(
+      user.company.id,
+      file,
+      query.dryRun,
+    );
+  }
+
+  @Post(':id/amendments')
+  @ApiOperation({
+    summary: 'Amend payroll terms from an effective date',
+    description:
+      'Records a new amount, token or network that applies to pay periods with a pay date on or after the effective date',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payroll amended successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only company owners and admins can amend payrolls',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async createPayrollAmendment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createPayrollAmendmentDto: CreatePayrollAmendmentDto,
+  ): Promise<PayrollAmendmentModel> {
+    return this.payrollService.createPayrollAmendment(
+      id,
+      user.company.id,
+      user.internalUserId,
+      createPayrollAmendmentDto,
+    );
+  }
+
+  @Post(':id/extend')
+  @ApiOperation({
+    summary: 'Extend or renew a payroll contract',
+    description:
+      'Adds pay cycles, optionally changes the terms from the first added cycle, reactivates completed payrolls and resumes the invoice schedule',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payroll extended successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Payroll cannot be extended',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only company owners and admins can amend payrolls',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async extendPayroll(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() extendPayrollDto: ExtendPayrollDto,
+  ): Promise<PayrollModel> {
+    return this.payrollService.extendPayroll(
+      id,
+      user.company.id,
+      user.internalUserId,
+      extendPayrollDto,
+    );
+  }
+
+  @Post(':id/offboard')
+  @ApiOperation({
+    summary: 'Offboard an employee and terminate the payroll early',
+    description:
+      'Issues a pro-rated final invoice for the last period, stops the invoice schedule, records the termination reason and lists the invoices still to be paid',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payroll terminated successfully',
+    type: OffboardPayrollResultDto,
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Payroll cannot be offboarded or invalid termination date',
+  })
+  @ApiResponse({
+    status: HttpStatus.FORBIDDEN,
+    description: 'Only company owners and admins can offboard payrolls',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async offboardPayroll(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() offboardPayrollDto: OffboardPayrollDto,
+  ): Promise<OffboardPayrollResultDto> {
+    return this.payrollService.offboardPayroll(
+      id,
+      user.company.id,
+      user.internalUserId,
+      offboardPayrollDto,
+    );
+  }
+
+  @Post(':id/pauses')
+  @ApiOperation({
+    summary: 'Schedule a payroll pause',
+    description:
+      'Pauses the payroll between two dates (e.g. unpaid leave) and resumes it automatically. Cycles with a pay date during the pause are added after the last cycle (EXTEND) or not paid (FORFEIT)',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payroll pause scheduled successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Payroll cannot be paused or the dates are invalid',
+  })
+  @ApiResponse({
+    status: HttpStatus.CONFLICT,
+    description: 'Pause overlaps another pause',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async createPayrollPause(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: CreatePayrollPauseDto,
+  ): Promise<PayrollPauseModel> {
+    return this.payrollService.createPayrollPause(id, user.company.id, dto);
+  }
+
+  @Post(':id/adjustments')
+  @ApiOperation({
+    summary: 'Add a one-off adjustment to an upcoming payroll cycle',
+    description:
+      'The adjustment is added as an extra line item to the invoice generated for the cycle',
+  })
+  @ApiResponse({
+    status: HttpStatus.CREATED,
+    description: 'Payroll adjustment created successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description:
+      'Cycle already invoiced or out of range, or deductions exceed the cycle amount',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async createPayrollAdjustment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() createPayrollAdjustmentDto: CreatePayrollAdjustmentDto,
+  ): Promise<PayrollAdjustmentModel> {
+    return this.payrollService.createPayrollAdjustment(
+      id,
+      user.company.id,
+      createPayrollAdjustmentDto,
+    );
+  }
   //#endregion POST METHODS
 
   //#region PUT METHODS
@@ -211,9 +575,37 @@ export class PayrollController {
     return this.payrollService.updatePayroll(
       id,
       user.company.id,
+      user.internalUserId,
       updatePayrollDto,
     );
   }
+
+  @Put(':id/splits')
+  @ApiOperation({
+    summary: 'Replace payroll payout splits',
+    description:
+      'Splits the salary across tokens or wallets for invoices generated from now on. Whatever is left is paid in the payroll token to the employee wallet',
+  })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payout splits updated successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Splits exceed the payroll amount or payroll is not active',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  async setPayrollPayoutSplits(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: SetPayrollPayoutSplitsDto,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    return this.payrollService.setPayrollPayoutSplits(id, user.company.id, dto);
+  }
   //#endregion PUT METHODS
 
   //#region PATCH METHODS
@@ -221,7 +613,11 @@ export class PayrollController {
   // **************** PATCH METHODS ******************
   // *************************************************
   @Patch(':id/pause')
-  @ApiOperation({ summary: 'Pause payroll' })
+  @ApiOperation({
+    summary: 'Pause payroll',
+    description:
+      'Pauses the payroll now, until the optional end date or until resumed',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Payroll paused successfully',
@@ -234,12 +630,17 @@ export class PayrollController {
   async pausePayroll(
     @CurrentUser('withCompany') user: UserWithCompany,
     @Param('id', ParseIntPipe) id: number,
+    @Body() dto: PausePayrollDto,
   ): Promise<PayrollModel> {
-    return this.payrollService.pausePayroll(id, user.company.id);
+    return this.payrollService.pausePayroll(id, user.company.id, dto);
   }
 
   @Patch(':id/resume')
-  @ApiOperation({ summary: 'Resume payroll' })
+  @ApiOperation({
+    summary: 'Resume payroll',
+    description:
+      'Ends the current pause now and applies its policy to the skipped cycles',
+  })
   @ApiResponse({
     status: HttpStatus.OK,
     description: 'Payroll resumed successfully',
@@ -282,5 +683,61 @@ export class PayrollController {
   ): Promise<void> {
     return this.payrollService.deletePayroll(id, user.company.id);
   }
+
+  @Delete(':id/adjustments/:adjustmentUuid')
+  @ApiOperation({ summary: 'Cancel a pending payroll adjustment' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll adjustment cancelled successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Adjustment already applied or cancelled',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll or adjustment not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  @ApiParam({ name: 'adjustmentUuid', description: 'Adjustment UUID' })
+  async cancelPayrollAdjustment(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('adjustmentUuid') adjustmentUuid: string,
+  ): Promise<PayrollAdjustmentModel> {
+    return this.payrollService.cancelPayrollAdjustment(
+      id,
+      adjustmentUuid,
+      user.company.id,
+    );
+  }
+
+  @Delete(':id/pauses/:pauseUuid')
+  @ApiOperation({ summary: 'Cancel a scheduled payroll pause' })
+  @ApiResponse({
+    status: HttpStatus.OK,
+    description: 'Payroll pause cancelled successfully',
+  })
+  @ApiResponse({
+    status: HttpStatus.BAD_REQUEST,
+    description: 'Pause already started, ended or cancelled',
+  })
+  @ApiResponse({
+    status: HttpStatus.NOT_FOUND,
+    description: 'Payroll or pause not found',
+  })
+  @ApiParam({ name: 'id', type: 'number', description: 'Payroll ID' })
+  @ApiParam({ name: 'pauseUuid', description: 'Pause UUID' })
+  async cancelPayrollPause(
+    @CurrentUser('withCompany') user: UserWithCompany,
+    @Param('id', ParseIntPipe) id: number,
+    @Param('pauseUuid') pauseUuid: string,
+  ): Promise<PayrollPauseModel> {
+    return this.payrollService.cancelPayrollPause(
+      id,
+      pauseUuid,
+      user.company.id,
+    );
+  }
   //#endregion DELETE METHODS
 }
@@ -7,13 +7,26 @@ import {
   IsObject,
   IsNumber,
   IsDateString,
+  IsInt,
+  IsBoolean,
+  IsArray,
   Matches,
   Min,
   Max,
   ValidateNested,
 } from 'class-validator';
-import { Type } from 'class-transformer';
-import { ContractTermEnum } from 'src/database/generated/client';
+import { Transform, Type } from 'class-transformer';
+import {
+  ContractTermEnum,
+  PayFrequencyEnum,
+  PayoutSplitTypeEnum,
+  PayrollAdjustmentStatusEnum,
+  PayrollAdjustmentTypeEnum,
+  PayrollPausePolicyEnum,
+  ProrationMethodEnum,
+} from 'src/database/generated/client';
+import { ScheduleSkipReason } from '../invoice/services/invoice-scheduler.service';
+import { InvoiceModel, PayrollModel } from 'src/database/generated/models';
 
 export class NetworkDto {
   @ApiProperty({
@@ -95,6 +108,66 @@ export class TokenDto {
   metadata?: Record<string, any>;
 }
 
+export class PayoutSplitDto {
+  @ApiProperty({
+    description:
+      'PERCENTAGE of the invoice total, or FIXED amount taken from it',
+    enum: PayoutSplitTypeEnum,
+    example: PayoutSplitTypeEnum.PERCENTAGE,
+  })
+  @IsEnum(PayoutSplitTypeEnum)
+  type: PayoutSplitTypeEnum;
+
+  @ApiProperty({
+    description: 'Percentage (0-100) or fixed amount, as string for precision',
+    example: '30',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\d+(\.\d{1,8})?$/, {
+    message:
+      'Value must be a valid positive number with up to 8 decimal places',
+  })
+  value: string;
+
+  @ApiProperty({
+    description: 'Token this part of the salary is paid in',
+    type: TokenDto,
+  })
+  @ValidateNested()
+  @Type(() => TokenDto)
+  token: TokenDto;
+
+  @ApiProperty({
+    description: 'Network this part of the salary is paid on',
+    type: NetworkDto,
+  })
+  @ValidateNested()
+  @Type(() => NetworkDto)
+  network: NetworkDto;
+
+  @ApiPropertyOptional({
+    description:
+      "Wallet receiving this part (defaults to the employee's wallet)",
+    example: '0x742d35Cc6634C0532925a3b844Bc454e4438f44e',
+  })
+  @IsOptional()
+  @IsString()
+  walletAddress?: string;
+}
+
+export class SetPayrollPayoutSplitsDto {
+  @ApiProperty({
+    description:
+      'Payout splits applied in order. Whatever is left is paid in the payroll token to the employee wallet. An empty list removes the splits',
+    type: [PayoutSplitDto],
+  })
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PayoutSplitDto)
+  splits: PayoutSplitDto[];
+}
+
 export class CreatePayrollDto {
   @ApiProperty({
     description: 'The ID of the employee (company contact)',
@@ -128,8 +201,18 @@ export class CreatePayrollDto {
   @IsEnum(ContractTermEnum)
   contractTerm: ContractTermEnum;
 
+  @ApiPropertyOptional({
+    description: 'How often the employee is paid (default: MONTHLY)',
+    enum: PayFrequencyEnum,
+    example: PayFrequencyEnum.MONTHLY,
+    default: PayFrequencyEnum.MONTHLY,
+  })
+  @IsOptional()
+  @IsEnum(PayFrequencyEnum)
+  payFrequency?: PayFrequencyEnum;
+
   @ApiProperty({
-    description: 'Payroll cycle in months',
+    description: 'Number of pay cycles in the contract',
     example: 12,
     minimum: 1,
     maximum: 120,
@@ -153,7 +236,7 @@ export class CreatePayrollDto {
 
   @ApiProperty({
     description:
-      'Payday day-of-month (1-31). First pay starts next month on this day',
+      'Payday day-of-month (1-31). First pay starts next month on this day and repeats at the pay frequency. Must be 15 or earlier for SEMI_MONTHLY payrolls',
     example: 5,
     minimum: 1,
     maximum: 31,
@@ -170,6 +253,26 @@ export class CreatePayrollDto {
   @IsDateString()
   joiningDate: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Last working day when the contract ends before a payday, used to pro-rate the final invoice',
+    example: '2024-12-20T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  contractEndDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'How partial first and last pay periods are pro-rated (default: NONE)',
+    enum: ProrationMethodEnum,
+    example: ProrationMethodEnum.CALENDAR_DAYS,
+    default: ProrationMethodEnum.NONE,
+  })
+  @IsOptional()
+  @IsEnum(ProrationMethodEnum)
+  prorationMethod?: ProrationMethodEnum;
+
   @ApiPropertyOptional({
     description: 'Item description of the payroll',
     example: 'Consultant service',
@@ -206,6 +309,31 @@ export class CreatePayrollDto {
   @Min(0)
   @Max(30)
   generateDaysBefore?: number;
+
+  @ApiPropertyOptional({
+    description:
+      'Split the salary across tokens or wallets. Whatever is left is paid in the payroll token to the employee wallet',
+    type: [PayoutSplitDto],
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PayoutSplitDto)
+  payoutSplits?: PayoutSplitDto[];
+
+  @ApiPropertyOptional({
+    description:
+      "Number of days before the final cycle's pay date to send a renewal reminder (default: 14, 0 disables)",
+    example: 14,
+    minimum: 0,
+    maximum: 90,
+    default: 14,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(90)
+  renewalReminderDays?: number;
 }
 
 export class CreatePayroll {
@@ -241,8 +369,18 @@ export class CreatePayroll {
   @IsEnum(ContractTermEnum)
   contractTerm: ContractTermEnum;
 
+  @ApiPropertyOptional({
+    description: 'How often the employee is paid (default: MONTHLY)',
+    enum: PayFrequencyEnum,
+    example: PayFrequencyEnum.MONTHLY,
+    default: PayFrequencyEnum.MONTHLY,
+  })
+  @IsOptional()
+  @IsEnum(PayFrequencyEnum)
+  payFrequency?: PayFrequencyEnum;
+
   @ApiProperty({
-    description: 'Payroll cycle in months',
+    description: 'Number of pay cycles in the contract',
     example: 12,
     minimum: 1,
     maximum: 120,
@@ -266,7 +404,7 @@ export class CreatePayroll {
 
   @ApiProperty({
     description:
-      'Payday day-of-month (1-31). First pay starts next month on this day',
+      'Payday day-of-month (1-31). First pay starts next month on this day and repeats at the pay frequency. Must be 15 or earlier for SEMI_MONTHLY payrolls',
     example: 5,
     minimum: 1,
     maximum: 31,
@@ -283,6 +421,26 @@ export class CreatePayroll {
   @IsDateString()
   joiningDate: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Last working day when the contract ends before a payday, used to pro-rate the final invoice',
+    example: '2024-12-20T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  contractEndDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'How partial first and last pay periods are pro-rated (default: NONE)',
+    enum: ProrationMethodEnum,
+    example: ProrationMethodEnum.CALENDAR_DAYS,
+    default: ProrationMethodEnum.NONE,
+  })
+  @IsOptional()
+  @IsEnum(ProrationMethodEnum)
+  prorationMethod?: ProrationMethodEnum;
+
   @ApiProperty({
     description: 'Payment end date (will be set to next month)',
     example: '2024-01-01T00:00:00Z',
@@ -326,6 +484,20 @@ export class CreatePayroll {
   @Min(0)
   @Max(30)
   generateDaysBefore?: number;
+
+  @ApiPropertyOptional({
+    description:
+      "Number of days before the final cycle's pay date to send a renewal reminder (default: 14, 0 disables)",
+    example: 14,
+    minimum: 0,
+    maximum: 90,
+    default: 14,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(90)
+  renewalReminderDays?: number;
 }
 
 export class UpdatePayrollDto {
@@ -356,7 +528,7 @@ export class UpdatePayrollDto {
   contractTerm?: ContractTermEnum;
 
   @ApiPropertyOptional({
-    description: 'Contract duration in months',
+    description: 'Number of pay cycles in the contract',
     minimum: 1,
     maximum: 120,
   })
@@ -378,6 +550,15 @@ export class UpdatePayrollDto {
   })
   amount?: string;
 
+  @ApiPropertyOptional({
+    description:
+      'Reason recorded on the amendment when amount, token or network change (they are applied from today)',
+    example: 'Promotion to senior engineer',
+  })
+  @IsOptional()
+  @IsString()
+  amendmentReason?: string;
+
   @ApiPropertyOptional({
     description: 'Item description of the payroll',
     example: 'Consultant service',
@@ -399,6 +580,36 @@ export class UpdatePayrollDto {
   @Max(31)
   paydayDay?: number;
 
+  @ApiPropertyOptional({
+    description:
+      'Last working day when the contract ends before a payday, used to pro-rate the final invoice',
+    example: '2024-12-20T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  contractEndDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'How partial first and last pay periods are pro-rated',
+    enum: ProrationMethodEnum,
+  })
+  @IsOptional()
+  @IsEnum(ProrationMethodEnum)
+  prorationMethod?: ProrationMethodEnum;
+
+  @ApiPropertyOptional({
+    description:
+      "Number of days before the final cycle's pay date to send a renewal reminder (0 disables)",
+    example: 14,
+    minimum: 0,
+    maximum: 90,
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Max(90)
+  renewalReminderDays?: number;
+
   @ApiPropertyOptional({
     description: 'Additional notes about the payroll',
     example: 'Monthly salary for software engineer position',
@@ -416,6 +627,276 @@ export class UpdatePayrollDto {
   metadata?: Record<string, any>;
 }
 
+export class CreatePayrollAmendmentDto {
+  @ApiProperty({
+    description: 'New salary amount (as string for precision)',
+    example: '5500.00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\d+(\.\d{1,8})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 8 decimal places',
+  })
+  amount: string;
+
+  @ApiPropertyOptional({
+    description:
+      'New payment token details (defaults to the token in force on the effective date)',
+    type: TokenDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TokenDto)
+  token?: TokenDto;
+
+  @ApiPropertyOptional({
+    description:
+      'New payment network details (defaults to the network in force on the effective date)',
+    type: NetworkDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NetworkDto)
+  network?: NetworkDto;
+
+  @ApiProperty({
+    description:
+      'Date from which the new terms apply. Pay periods with a pay date on or after this date use the new terms',
+    example: '2025-03-01T00:00:00Z',
+  })
+  @IsDateString()
+  effectiveDate: string;
+
+  @ApiProperty({
+    description: 'Reason for the amendment',
+    example: 'Annual salary review',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+}
+
+export class ExtendPayrollDto {
+  @ApiProperty({
+    description: 'Number of pay cycles to add to the contract',
+    example: 6,
+    minimum: 1,
+    maximum: 120,
+  })
+  @IsNumber()
+  @Min(1)
+  @Max(120)
+  additionalCycles: number;
+
+  @ApiPropertyOptional({
+    description:
+      'New salary amount for the extended cycles (as string for precision)',
+    example: '5500.00',
+  })
+  @IsOptional()
+  @IsString()
+  @Matches(/^\d+(\.\d{1,8})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 8 decimal places',
+  })
+  amount?: string;
+
+  @ApiPropertyOptional({
+    description: 'New payment token details for the extended cycles',
+    type: TokenDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TokenDto)
+  token?: TokenDto;
+
+  @ApiPropertyOptional({
+    description: 'New payment network details for the extended cycles',
+    type: NetworkDto,
+  })
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => NetworkDto)
+  network?: NetworkDto;
+
+  @ApiPropertyOptional({
+    description:
+      'Date from which the new terms apply (default: pay date of the first added cycle)',
+    example: '2025-07-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  effectiveDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Last working day of the renewed contract when it ends before a payday. The previous contract end date is cleared otherwise',
+    example: '2025-12-20T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  contractEndDate?: string;
+
+  @ApiPropertyOptional({
+    description: 'Reason recorded on the amendment when the terms change',
+    example: 'Contract renewed for another 6 months',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class OffboardPayrollDto {
+  @ApiProperty({
+    description:
+      'Last working day of the employee. Must be before the next pay date',
+    example: '2025-03-14T00:00:00Z',
+  })
+  @IsDateString()
+  terminationDate: string;
+
+  @ApiProperty({
+    description: 'Reason for the termination',
+    example: 'Resignation',
+  })
+  @IsString()
+  @IsNotEmpty()
+  reason: string;
+
+  @ApiPropertyOptional({
+    description:
+      'Issue a final invoice for the pro-rated last period when it has not been invoiced yet (default: true)',
+    example: true,
+    default: true,
+  })
+  @IsOptional()
+  @IsBoolean()
+  issueFinalInvoice?: boolean;
+}
+
+export class PausePayrollDto {
+  @ApiPropertyOptional({
+    description:
+      'When the payroll resumes automatically. Leave empty to resume manually',
+    example: '2025-06-01T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+
+  @ApiPropertyOptional({
+    description:
+      'EXTEND adds the skipped cycles after the last cycle, pushing the contract end (default). FORFEIT does not pay them',
+    enum: PayrollPausePolicyEnum,
+    example: PayrollPausePolicyEnum.EXTEND,
+    default: PayrollPausePolicyEnum.EXTEND,
+  })
+  @IsOptional()
+  @IsEnum(PayrollPausePolicyEnum)
+  policy?: PayrollPausePolicyEnum;
+
+  @ApiPropertyOptional({
+    description: 'Reason for the pause',
+    example: 'Unpaid leave',
+  })
+  @IsOptional()
+  @IsString()
+  reason?: string;
+}
+
+export class CreatePayrollPauseDto extends PausePayrollDto {
+  @ApiProperty({
+    description:
+      'When the pause starts. Cycles with a pay date during the pause are skipped',
+    example: '2025-04-01T00:00:00Z',
+  })
+  @IsDateString()
+  startDate: string;
+}
+
+export class OffboardPayrollResultDto {
+  @ApiProperty({ description: 'The terminated payroll' })
+  payroll: PayrollModel;
+
+  @ApiPropertyOptional({
+    description: 'Final invoice for the pro-rated last period, if issued',
+  })
+  finalInvoice: InvoiceModel | null;
+
+  @ApiProperty({
+    description:
+      'Invoices of the payroll that are not paid yet, including the final invoice',
+  })
+  outstandingInvoices: InvoiceModel[];
+
+  @ApiProperty({
+    description: 'Total amount of the outstanding invoices',
+    example: '3250.00',
+  })
+  outstandingAmount: string;
+}
+
+export class CreatePayrollAdjustmentDto {
+  @ApiProperty({
+    description:
+      'Type of adjustment. Advance repayments and deductions are subtracted from the invoice',
+    enum: PayrollAdjustmentTypeEnum,
+    example: PayrollAdjustmentTypeEnum.BONUS,
+  })
+  @IsEnum(PayrollAdjustmentTypeEnum)
+  type: PayrollAdjustmentTypeEnum;
+
+  @ApiProperty({
+    description: 'Description shown on the invoice line item',
+    example: 'Q1 performance bonus',
+  })
+  @IsString()
+  @IsNotEmpty()
+  description: string;
+
+  @ApiProperty({
+    description: 'Adjustment amount (as string for precision, always positive)',
+    example: '500.00',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^\d+(\.\d{1,8})?$/, {
+    message:
+      'Amount must be a valid positive number with up to 8 decimal places',
+  })
+  amount: string;
+
+  @ApiProperty({
+    description:
+      'Payroll cycle (1-based) the adjustment is paid with. Must be an upcoming cycle',
+    example: 3,
+    minimum: 1,
+  })
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  cycleNumber: number;
+
+  @ApiPropertyOptional({
+    description: 'Additional metadata',
+    example: { expenseReportId: 'EXP-2025-014' },
+  })
+  @IsOptional()
+  @IsObject()
+  metadata?: Record<string, any>;
+}
+
+export class PayrollAdjustmentQueryDto {
+  @ApiPropertyOptional({
+    description: 'Filter by adjustment status',
+    enum: PayrollAdjustmentStatusEnum,
+  })
+  @IsOptional()
+  @IsEnum(PayrollAdjustmentStatusEnum)
+  status?: PayrollAdjustmentStatusEnum;
+}
+
 export class PayrollQueryDto {
   @ApiPropertyOptional({
     description: 'Page number for pagination',
@@ -457,6 +938,14 @@ export class PayrollQueryDto {
   @IsEnum(ContractTermEnum)
   contractTerm?: ContractTermEnum;
 
+  @ApiPropertyOptional({
+    description: 'Filter by pay frequency',
+    enum: PayFrequencyEnum,
+  })
+  @IsOptional()
+  @IsEnum(PayFrequencyEnum)
+  payFrequency?: PayFrequencyEnum;
+
   @ApiPropertyOptional({
     description: 'Search by employee name or email',
   })
@@ -485,7 +974,8 @@ export class PayrollStatsDto {
   totalCompleted: number;
 
   @ApiProperty({
-    description: 'Total monthly payout amount',
+    description:
+      'Total monthly payout amount (non-monthly payrolls are normalised to a monthly equivalent)',
     example: '125000.00',
   })
   totalMonthlyAmount: string;
@@ -517,3 +1007,397 @@ export class PendingInvoiceReviewsDto {
   })
   pendingInvoiceUuids: string[];
 }
+
+export class PayrollRunPreviewQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Date to simulate the scheduler run on (defaults to now). Schedules due on or before this date are evaluated',
+    example: '2025-03-25T00:00:00Z',
+  })
+  @IsOptional()
+  @IsDateString()
+  date?: string;
+}
+
+export class PayrollRunPreviewItemDto {
+  @ApiProperty({
+    description: 'Line item description',
+    example: 'Monthly salary - (from 25/02/2025 to 25/03/2025)',
+  })
+  description: string;
+
+  @ApiProperty({ description: 'Quantity', example: '1' })
+  quantity: string;
+
+  @ApiProperty({
+    description: 'Unit price (negative for deductions)',
+    example: '5000.00',
+  })
+  unitPrice: string;
+}
+
+export class PayrollRunPreviewInvoiceDto {
+  @ApiProperty({ description: 'Payroll ID', example: 1 })
+  payrollId: number;
+
+  @ApiProperty({ description: 'Invoice schedule ID', example: 1 })
+  scheduleId: number;
+
+  @ApiProperty({ description: 'Employee name', example: 'John Doe' })
+  employeeName: string;
+
+  @ApiProperty({
+    description: 'Employee email',
+    example: 'john.doe@company.com',
+  })
+  employeeEmail: string;
+
+  @ApiProperty({
+    description: 'Payroll cycle (1-based) the invoice would be issued for',
+    example: 3,
+  })
+  cycleNumber: number;
+
+  @ApiProperty({ description: 'Total number of payroll cycles', example: 12 })
+  payrollCycle: number;
+
+  @ApiProperty({
+    description: 'Pay date of the cycle, used as the invoice due date',
+  })
+  payDate: Date;
+
+  @ApiProperty({ description: 'Start of the pay period' })
+  periodStart: Date;
+
+  @ApiProperty({ description: 'End of the pay period' })
+  periodEnd: Date;
+
+  @ApiProperty({
+    description: 'Invoice total including adjustments',
+    example: '5500.00',
+  })
+  total: string;
+
+  @ApiProperty({ description: 'Payment token in force on the pay date' })
+  token: TokenDto;
+
+  @ApiProperty({ description: 'Payment network in force on the pay date' })
+  network: NetworkDto;
+
+  @ApiProperty({
+    description: 'Line items the invoice would contain',
+    type: [PayrollRunPreviewItemDto],
+  })
+  items: PayrollRunPreviewItemDto[];
+}
+
+export class PayrollRunPreviewSkippedDto {
+  @ApiProperty({ description: 'Payroll ID', example: 1 })
+  payrollId: number;
+
+  @ApiProperty({ description: 'Invoice schedule ID', example: 1 })
+  scheduleId: number;
+
+  @ApiProperty({ description: 'Employee name', example: 'John Doe' })
+  employeeName: string;
+
+  @ApiProperty({
+    description: 'Why the scheduler would skip the payroll',
+    enum: ScheduleSkipReason,
+    example: ScheduleSkipReason.PAUSED,
+  })
+  reason: ScheduleSkipReason;
+
+  @ApiProperty({
+    description: 'Human readable explanation of the skip reason',
+    example: 'payroll is paused',
+  })
+  message: string;
+}
+
+export class PayrollRunPreviewTokenTotalDto {
+  @ApiProperty({ description: 'Token symbol', example: 'USDC' })
+  symbol: string;
+
+  @ApiProperty({
+    description: 'Token contract address',
+    example: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  })
+  address: string;
+
+  @ApiProperty({ description: 'Network name', example: 'Ethereum' })
+  network: string;
+
+  @ApiProperty({ description: 'Network chain ID', example: 1 })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Total amount that would be paid out in this token',
+    example: '25000.00',
+  })
+  amount: string;
+
+  @ApiProperty({
+    description: 'Number of invoices paying out in this token',
+    example: 5,
+  })
+  invoiceCount: number;
+}
+
+export class PayrollRunPreviewDto {
+  @ApiProperty({ description: 'Simulated run date' })
+  date: Date;
+
+  @ApiProperty({
+    description: 'Number of schedules due on or before the run date',
+    example: 6,
+  })
+  scheduledCount: number;
+
+  @ApiProperty({
+    description: 'Invoices that would be created',
+    type: [PayrollRunPreviewInvoiceDto],
+  })
+  invoices: PayrollRunPreviewInvoiceDto[];
+
+  @ApiProperty({
+    description: 'Payrolls that would be skipped',
+    type: [PayrollRunPreviewSkippedDto],
+  })
+  skipped: PayrollRunPreviewSkippedDto[];
+
+  @ApiProperty({
+    description: 'Invoiced amounts grouped by token and network',
+    type: [PayrollRunPreviewTokenTotalDto],
+  })
+  totalsByToken: PayrollRunPreviewTokenTotalDto[];
+}
+
+export class PayrollImportQueryDto {
+  @ApiPropertyOptional({
+    description:
+      'Only validate the file and return the report, without creating any payroll',
+    example: true,
+    default: false,
+  })
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  dryRun?: boolean = false;
+}
+
+/**
+ * File uploaded through the multipart `file` field
+ */
+export interface PayrollImportFile {
+  originalname: string;
+  mimetype: string;
+  size: number;
+  buffer: Buffer;
+}
+
+export enum PayrollImportRowStatus {
+  VALID = 'VALID',
+  INVALID = 'INVALID',
+  CREATED = 'CREATED',
+}
+
+export class PayrollImportRowResultDto {
+  @ApiProperty({
+    description: 'Row number in the file, not counting the header row',
+    example: 1,
+  })
+  row: number;
+
+  @ApiPropertyOptional({
+    description: 'Employee email from the row',
+    example: 'john.doe@company.com',
+  })
+  employeeEmail?: string;
+
+  @ApiPropertyOptional({
+    description: 'Resolved employee ID',
+    example: 12,
+  })
+  employeeId?: number;
+
+  @ApiProperty({
+    description:
+      'VALID rows would be created, CREATED rows were created, INVALID rows are skipped',
+    enum: PayrollImportRowStatus,
+    example: PayrollImportRowStatus.VALID,
+  })
+  status: PayrollImportRowStatus;
+
+  @ApiProperty({
+    description: 'Validation errors of the row',
+    type: [String],
+    example: [],
+  })
+  errors: string[];
+
+  @ApiPropertyOptional({
+    description: 'ID of the created payroll',
+    example: 42,
+  })
+  payrollId?: number;
+}
+
+export class PayrollImportResultDto {
+  @ApiProperty({
+    description: 'Whether the import only validated the file',
+    example: false,
+  })
+  dryRun: boolean;
+
+  @ApiProperty({ description: 'Number of rows in the file', example: 10 })
+  totalRows: number;
+
+  @ApiProperty({ description: 'Number of valid rows', example: 9 })
+  validRows: number;
+
+  @ApiProperty({ description: 'Number of invalid rows', example: 1 })
+  invalidRows: number;
+
+  @ApiProperty({ description: 'Number of payrolls created', example: 9 })
+  createdCount: number;
+
+  @ApiProperty({
+    description: 'Row-by-row validation report',
+    type: [PayrollImportRowResultDto],
+  })
+  rows: PayrollImportRowResultDto[];
+}
+
+export class PayrollForecastQueryDto {
+  @ApiPropertyOptional({
+    description: 'Number of months to project, starting with the current month',
+    example: 6,
+    minimum: 1,
+    maximum: 24,
+    default: 6,
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  @Max(24)
+  months?: number = 6;
+}
+
+export class PayrollForecastTokenDto {
+  @ApiProperty({ description: 'Token symbol', example: 'USDC' })
+  symbol: string;
+
+  @ApiProperty({
+    description: 'Token contract address',
+    example: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  })
+  address: string;
+
+  @ApiProperty({ description: 'Network name', example: 'Ethereum' })
+  network: string;
+
+  @ApiProperty({ description: 'Network chain ID', example: 1 })
+  chainId: number;
+
+  @ApiProperty({
+    description: 'Amount to pay out in this token',
+    example: '25000.00',
+  })
+  amount: string;
+}
+
+export class PayrollForecastGroupDto {
+  @ApiProperty({ description: 'Employee group ID', example: 3 })
+  groupId: number;
+
+  @ApiProperty({ description: 'Employee group name', example: 'Engineering' })
+  groupName: string;
+
+  @ApiProperty({ description: 'Amount for the group', example: '18000.00' })
+  amount: string;
+}
+
+export class PayrollForecastContractTermDto {
+  @ApiProperty({
+    description: 'Contract term',
+    enum: ContractTermEnum,
+    example: ContractTermEnum.PERMANENT,
+  })
+  contractTerm: ContractTermEnum;
+
+  @ApiProperty({
+    description: 'Amount for the contract term',
+    example: '20000.00',
+  })
+  amount: string;
+}
+
+export class PayrollForecastMonthDto {
+  @ApiProperty({ description: 'Month (YYYY-MM)', example: '2025-03' })
+  month: string;
+
+  @ApiProperty({ description: 'First day of the month' })
+  startDate: Date;
+
+  @ApiProperty({ description: 'First day of the following month' })
+  endDate: Date;
+
+  @ApiProperty({
+    description: 'Total payroll obligations with a pay date in the month',
+    example: '25000.00',
+  })
+  totalAmount: string;
+
+  @ApiProperty({
+    description: 'Number of payroll cycles paid in the month',
+    example: 5,
+  })
+  paymentCount: number;
+
+  @ApiProperty({
+    description: 'Amounts by payout token and network, after payout splits',
+    type: [PayrollForecastTokenDto],
+  })
+  byToken: PayrollForecastTokenDto[];
+
+  @ApiProperty({
+    description: 'Amounts by employee group',
+    type: [PayrollForecastGroupDto],
+  })
+  byGroup: PayrollForecastGroupDto[];
+
+  @ApiProperty({
+    description: 'Amounts by contract term',
+    type: [PayrollForecastContractTermDto],
+  })
+  byContractTerm: PayrollForecastContractTermDto[];
+}
+
+export class PayrollForecastDto {
+  @ApiProperty({ description: 'When the forecast was generated' })
+  generatedAt: Date;
+
+  @ApiProperty({ description: 'Number of months projected', example: 6 })
+  months: number;
+
+  @ApiProperty({
+    description: 'Total payroll obligations over the forecast',
+    example: '150000.00',
+  })
+  totalAmount: string;
+
+  @ApiProperty({
+    description:
+      'Payrolls paused without an end date, left out of the forecast until resumed',
+    example: 1,
+  })
+  pausedPayrollCount: number;
+
+  @ApiProperty({
+    description: 'Projected obligations per month',
+    type: [PayrollForecastMonthDto],
+  })
+  periods: PayrollForecastMonthDto[];
+}
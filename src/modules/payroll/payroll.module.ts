@@ -1,16 +1,45 @@
-import { Module } from '@nestjs/common';
+import { Module, forwardRef } from '@nestjs/common';
 import { PayrollController } from './payroll.controller';
 import { PayrollService } from './payroll.service';
+import { PayrollSchedulerService } from './payroll-scheduler.service';
 import { PayrollRepository } from './payroll.repository';
 import { PrismaModule } from '../../database/prisma.module';
 import { EmployeeModule } from '../employee/employee.module';
 import { AuthModule } from '../auth/auth.module';
 import { CompanyModule } from '../company/company.module';
+import { TeamMemberModule } from '../team-member/team-member.module';
+import { InvoiceModule } from '../invoice/invoice.module';
+import { PayrollAmendmentRepository } from './payroll-amendment.repository';
+import { PayrollAdjustmentRepository } from './payroll-adjustment.repository';
+import { PayrollPayoutSplitRepository } from './payroll-payout-split.repository';
+import { PayrollPauseRepository } from './payroll-pause.repository';
 
 @Module({
-  imports: [PrismaModule, EmployeeModule, AuthModule, CompanyModule],
+  imports: [
+    PrismaModule,
+    EmployeeModule,
+    AuthModule,
+    CompanyModule,
+    TeamMemberModule,
+    forwardRef(() => InvoiceModule),
+  ],
   controllers: [PayrollController],
-  providers: [PayrollService, PayrollRepository],
-  exports: [PayrollService, PayrollRepository],
+  providers: [
+    PayrollService,
+    PayrollSchedulerService,
+    PayrollRepository,
+    PayrollAmendmentRepository,
+    PayrollAdjustmentRepository,
+    PayrollPayoutSplitRepository,
+    PayrollPauseRepository,
+  ],
+  exports: [
+    PayrollService,
+    PayrollRepository,
+    PayrollAmendmentRepository,
+    PayrollAdjustmentRepository,
+    PayrollPayoutSplitRepository,
+    PayrollPauseRepository,
+  ],
 })
 export class PayrollModule {}
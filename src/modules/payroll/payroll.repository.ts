@@ -3,6 +3,7 @@ import { PrismaService } from '../../database/prisma.service';
 import { PayrollModel } from '../../database/generated/models/Payroll';
 import {
   ContractTermEnum,
+  PayrollAdjustmentStatusEnum,
   PayrollStatusEnum,
   Prisma,
   PrismaClient,
@@ -11,6 +12,8 @@ import {
   BaseRepository,
   PrismaTransactionClient,
 } from 'src/database/base.repository';
+import { toMonthlyAmount } from 'src/common/utils/pay-frequency.util';
+import { OPEN_PAUSE_STATUSES } from './payroll-pause.repository';
 
 export interface CreatePayrollData {
   companyId: number;
@@ -62,6 +65,42 @@ export type PayrollWithInvoices = Prisma.PayrollGetPayload<{
         createdAt: 'desc';
       };
     };
+    amendments: {
+      orderBy: {
+        effectiveDate: 'desc';
+      };
+    };
+    payoutSplits: {
+      orderBy: {
+        order: 'asc';
+      };
+    };
+    pauses: {
+      orderBy: {
+        startDate: 'desc';
+      };
+    };
+  };
+}>;
+
+export type PayrollWithCompanyAndEmployee = Prisma.PayrollGetPayload<{
+  include: {
+    employee: true;
+    company: true;
+  };
+}>;
+
+export type PayrollForForecast = Prisma.PayrollGetPayload<{
+  include: {
+    employee: {
+      include: {
+        group: true;
+      };
+    };
+    amendments: true;
+    adjustments: true;
+    payoutSplits: true;
+    pauses: true;
   };
 }>;
 
@@ -110,6 +149,29 @@ export class PayrollRepository extends BaseRepository<
             bill: true,
           },
         },
+        amendments: {
+          orderBy: {
+            effectiveDate: 'desc',
+          },
+          include: {
+            approvedBy: {
+              select: {
+                id: true,
+                email: true,
+              },
+            },
+          },
+        },
+        payoutSplits: {
+          orderBy: {
+            order: 'asc',
+          },
+        },
+        pauses: {
+          orderBy: {
+            startDate: 'desc',
+          },
+        },
       },
     });
   }
@@ -164,13 +226,18 @@ export class PayrollRepository extends BaseRepository<
       }),
       client.findMany({
         where: { ...baseWhere, status: PayrollStatusEnum.ACTIVE },
-        select: { amount: true },
+        select: { amount: true, payFrequency: true },
       }),
     ]);
 
-    // Calculate total monthly amount
+    // Calculate total monthly amount, normalising non-monthly pay frequencies
     const totalMonthlyAmount = allActivePayrolls
-      .reduce((sum, payroll) => sum + parseFloat(payroll.amount), 0)
+      .reduce(
+        (sum, payroll) =>
+          sum +
+          toMonthlyAmount(parseFloat(payroll.amount), payroll.payFrequency),
+        0,
+      )
       .toFixed(2);
 
     return {
@@ -207,6 +274,61 @@ export class PayrollRepository extends BaseRepository<
     });
   }
 
+  /**
+   * Find active payrolls with a renewal reminder that has not been sent yet
+   */
+  async findPayrollsAwaitingRenewalReminder(
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollWithCompanyAndEmployee[]> {
+    const model = this.getModel(tx);
+
+    return model.findMany({
+      where: {
+        status: PayrollStatusEnum.ACTIVE,
+        renewalReminderDays: { gt: 0 },
+        renewalReminderSentAt: null,
+      },
+      include: {
+        employee: true,
+        company: true,
+      },
+    });
+  }
+
+  /**
+   * Find the active and paused payrolls of a company with everything needed to project their future cycles
+   */
+  async findPayrollsForForecast(
+    companyId: number,
+    tx?: PrismaTransactionClient,
+  ): Promise<PayrollForForecast[]> {
+    const model = this.getModel(tx);
+
+    return model.findMany({
+      where: {
+        companyId,
+        status: { in: [PayrollStatusEnum.ACTIVE, PayrollStatusEnum.PAUSED] },
+      },
+      include: {
+        employee: {
+          include: {
+            group: true,
+          },
+        },
+        amendments: true,
+        adjustments: {
+          where: { status: PayrollAdjustmentStatusEnum.PENDING },
+        },
+        payoutSplits: {
+          orderBy: [{ order: 'asc' }, { id: 'asc' }],
+        },
+        pauses: {
+          where: { status: { in: OPEN_PAUSE_STATUSES } },
+        },
+      },
+    });
+  }
+
   async findByEmployeeId(
     employeeId: number,
     companyId: number,
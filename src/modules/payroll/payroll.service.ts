@@ -3,29 +3,97 @@ import {
   Logger,
   NotFoundException,
   ConflictException,
+  BadRequestException,
+  ForbiddenException,
+  Inject,
+  forwardRef,
 } from '@nestjs/common';
-import { PayrollRepository, PayrollWithInvoices } from './payroll.repository';
+import {
+  PayrollForForecast,
+  PayrollRepository,
+  PayrollWithInvoices,
+} from './payroll.repository';
 import { EmployeeRepository } from '../employee/repositories/employee.repository';
+import {
+  PayrollAmendmentRepository,
+  PayrollAmendmentWithApprover,
+  resolveTermsInForce,
+} from './payroll-amendment.repository';
+import {
+  getSignedAdjustmentAmount,
+  PayrollAdjustmentRepository,
+} from './payroll-adjustment.repository';
+import { PayrollPayoutSplitRepository } from './payroll-payout-split.repository';
+import {
+  OPEN_PAUSE_STATUSES,
+  PayrollPauseRepository,
+} from './payroll-pause.repository';
+import { TeamMemberRepository } from '../team-member/team-member.repository';
 import {
   CreatePayrollDto,
   UpdatePayrollDto,
   PayrollQueryDto,
   PayrollStatsDto,
   CreatePayroll,
+  CreatePayrollAmendmentDto,
+  CreatePayrollAdjustmentDto,
+  ExtendPayrollDto,
+  OffboardPayrollDto,
+  OffboardPayrollResultDto,
+  CreatePayrollPauseDto,
+  PausePayrollDto,
+  PayrollAdjustmentQueryDto,
+  PayrollRunPreviewDto,
+  PayrollRunPreviewInvoiceDto,
+  PayrollRunPreviewSkippedDto,
+  PayrollRunPreviewTokenTotalDto,
+  PayoutSplitDto,
+  PayrollForecastContractTermDto,
+  PayrollForecastDto,
+  PayrollForecastGroupDto,
+  PayrollForecastMonthDto,
+  PayrollForecastTokenDto,
+  PayrollImportFile,
+  PayrollImportResultDto,
+  PayrollImportRowResultDto,
+  PayrollImportRowStatus,
+  SetPayrollPayoutSplitsDto,
+  TokenDto,
+  NetworkDto,
 } from './payroll.dto';
 import {
+  InvoiceSchedulerService,
+  SCHEDULE_SKIP_REASON_MESSAGES,
+} from '../invoice/services/invoice-scheduler.service';
+import { InvoiceService } from '../invoice/services/invoice.service';
+import { InvoiceRepository } from '../invoice/repositories/invoice.repository';
+import { MailService } from '../mail/mail.service';
+import {
+  InvoiceModel,
   InvoiceScheduleUpdateInput,
+  PayrollAdjustmentModel,
+  PayrollAmendmentModel,
   PayrollCreateInput,
+  PayrollPauseModel,
+  PayrollPayoutSplitModel,
   PayrollModel,
   PayrollUpdateInput,
 } from 'src/database/generated/models';
 import {
   ContractTermEnum,
   InvoiceStatusEnum,
+  PayFrequencyEnum,
   Payroll,
+  PayoutSplitTypeEnum,
+  PayrollAdjustmentStatusEnum,
+  PayrollPausePolicyEnum,
+  PayrollPauseStatusEnum,
   PayrollStatusEnum,
+  ProrationMethodEnum,
+  TeamMemberRoleEnum,
 } from 'src/database/generated/client';
 import { handleError } from 'src/common/utils/errors';
+import { ONE_DAY_MS } from 'src/common/constants';
 import { PrismaService } from 'src/database/prisma.service';
 import { ErrorEmployee, ErrorPayroll } from 'src/common/constants/errors';
 import { JsonValue } from '@prisma/client/runtime/client';
@@ -33,6 +101,30 @@ import {
   PaginatedResult,
   PrismaTransactionClient,
 } from 'src/database/base.repository';
+import {
+  addDays,
+  getFirstPayDate,
+  getPayDate,
+  getPayPeriod,
+  SEMI_MONTHLY_MAX_PAYDAY,
+} from 'src/common/utils/pay-frequency.util';
+import {
+  calculatePaymentSplits,
+  getSplitRemainder,
+  InvoicePaymentSplit,
+} from 'src/common/utils/payout-split.util';
+import {
+  calculateProration,
+  isAfterContractEnd,
+} from 'src/common/utils/proration.util';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import * as Papa from 'papaparse';
+import * as ExcelJS from 'exceljs';
+
+const MAX_IMPORT_ROWS = 500;
+const XLSX_MIME_TYPE =
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
 
 @Injectable()
 export class PayrollService {
@@ -41,6 +133,17 @@ export class PayrollService {
   constructor(
     private readonly payrollRepository: PayrollRepository,
     private readonly employeeRepository: EmployeeRepository,
+    private readonly payrollAmendmentRepository: PayrollAmendmentRepository,
+    private readonly payrollAdjustmentRepository: PayrollAdjustmentRepository,
+    private readonly payrollPayoutSplitRepository: PayrollPayoutSplitRepository,
+    private readonly payrollPauseRepository: PayrollPauseRepository,
+    private readonly teamMemberRepository: TeamMemberRepository,
+    @Inject(forwardRef(() => InvoiceSchedulerService))
+    private readonly invoiceSchedulerService: InvoiceSchedulerService,
+    @Inject(forwardRef(() => InvoiceService))
+    private readonly invoiceService: InvoiceService,
+    private readonly invoiceRepository: InvoiceRepository,
+    private readonly mailService: MailService,
     private readonly prisma: PrismaService,
   ) {}
 
@@ -81,6 +184,10 @@ export class PayrollService {
         whereClause.contractTerm = query.contractTerm;
       }
 
+      if (query.payFrequency) {
+        whereClause.payFrequency = query.payFrequency;
+      }
+
       // Convert search parameter to Prisma filters
       if (query.search) {
         whereClause.OR = [
@@ -188,6 +295,242 @@ export class PayrollService {
     }
   }
 
+  /**
+   * Preview the invoices the scheduler would generate on a given date, without writing anything
+   */
+  async getRunPreview(
+    companyId: number,
+    date: Date = new Date(),
+  ): Promise<PayrollRunPreviewDto> {
+    try {
+      const previews =
+        await this.invoiceSchedulerService.previewScheduledInvoices(
+          date,
+          companyId,
+        );
+
+      const invoices: PayrollRunPreviewInvoiceDto[] = [];
+      const skipped: PayrollRunPreviewSkippedDto[] = [];
+      const totalsByToken = new Map<string, PayrollRunPreviewTokenTotalDto>();
+
+      for (const { schedule, payDate, skipReason, draft } of previews) {
+        const { payroll } = schedule;
+
+        if (skipReason) {
+          skipped.push({
+            payrollId: payroll.id,
+            scheduleId: schedule.id,
+            employeeName: payroll.employee.name,
+            reason: skipReason,
+            message: SCHEDULE_SKIP_REASON_MESSAGES[skipReason],
+          });
+          continue;
+        }
+
+        const token = draft.terms.token as unknown as TokenDto;
+        const network = draft.terms.network as unknown as NetworkDto;
+
+        invoices.push({
+          payrollId: payroll.id,
+          scheduleId: schedule.id,
+          employeeName: payroll.employee.name,
+          employeeEmail: payroll.employee.email,
+          cycleNumber: payroll.currentCycleNumber + 1,
+          payrollCycle: payroll.payrollCycle,
+          payDate,
+          periodStart: draft.periodStart,
+          periodEnd: draft.periodEnd,
+          total: draft.total,
+          token,
+          network,
+          items: draft.items.map((item) => ({
+            description: item.description,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+          })),
+        });
+
+        // Totals per token paid out, payout splits can pay part of the invoice in other tokens
+        const payouts = calculatePaymentSplits(
+          draft.total,
+          draft.payoutSplits,
+          {
+            token: draft.terms.token,
+            network: draft.terms.network,
+            walletAddress: payroll.employee.walletAddress,
+          },
+        );
+        const invoiceTokens = new Set<string>();
+
+        for (const payout of payouts) {
+          const payoutToken = payout.token as unknown as TokenDto;
+          const payoutNetwork = payout.network as unknown as NetworkDto;
+          const key = `${payoutNetwork?.chainId}:${payoutToken?.address?.toLowerCase()}`;
+          const tokenTotal = totalsByToken.get(key) ?? {
+            symbol: payoutToken?.symbol,
+            address: payoutToken?.address,
+            network: payoutNetwork?.name,
+            chainId: payoutNetwork?.chainId,
+            amount: '0.00',
+            invoiceCount: 0,
+          };
+          tokenTotal.amount = (
+            parseFloat(tokenTotal.amount) + parseFloat(payout.amount)
+          ).toFixed(2);
+
+          if (!invoiceTokens.has(key)) {
+            invoiceTokens.add(key);
+            tokenTotal.invoiceCount++;
+          }
+          totalsByToken.set(key, tokenTotal);
+        }
+      }
+
+      return {
+        date,
+        scheduledCount: previews.length,
+        invoices,
+        skipped,
+        totalsByToken: Array.from(totalsByToken.values()),
+      };
+    } catch (error) {
+      this.logger.error('Error previewing payroll run:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Project payroll obligations per month from the active payrolls' remaining cycles.
+   * Uses the terms in force on each pay date, pro-ration, pending adjustments, payout splits and pause windows.
+   * Payrolls paused without an end date are left out until they are resumed.
+   */
+  async getPayrollForecast(
+    companyId: number,
+    months: number = 6,
+  ): Promise<PayrollForecastDto> {
+    try {
+      const now = new Date();
+      const periods: PayrollForecastMonthDto[] = Array.from(
+        { length: months },
+        (_, index) => {
+          const startDate = new Date(
+            now.getFullYear(),
+            now.getMonth() + index,
+            1,
+          );
+          return {
+            month: `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}`,
+            startDate,
+            endDate: new Date(
+              startDate.getFullYear(),
+              startDate.getMonth() + 1,
+              1,
+            ),
+            totalAmount: '0.00',
+            paymentCount: 0,
+            byToken: [],
+            byGroup: [],
+            byContractTerm: [],
+          };
+        },
+      );
+      const horizon = periods[periods.length - 1].endDate;
+
+      const byToken = periods.map(
+        () => new Map<string, PayrollForecastTokenDto>(),
+      );
+      const byGroup = periods.map(
+        () => new Map<number, PayrollForecastGroupDto>(),
+      );
+      const byContractTerm = periods.map(
+        () => new Map<string, PayrollForecastContractTermDto>(),
+      );
+
+      const payrolls =
+        await this.payrollRepository.findPayrollsForForecast(companyId);
+      // Paused payrolls are projected from the end of their pause, open-ended pauses are left out
+      const activePayrolls = payrolls.filter(
+        (payroll) =>
+          payroll.status === PayrollStatusEnum.ACTIVE ||
+          payroll.pauses.some(
+            (pause) =>
+              pause.status === PayrollPauseStatusEnum.ACTIVE && pause.endDate,
+          ),
+      );
+
+      for (const payroll of activePayrolls) {
+        for (const cycle of this.getForecastCycles(payroll, horizon)) {
+          // Cycles already due but not invoiced yet are owed in the current month
+          const index = periods.findIndex(
+            (period) => cycle.payDate < period.endDate,
+          );
+          const period = periods[index];
+
+          period.totalAmount = (
+            parseFloat(period.totalAmount) + parseFloat(cycle.total)
+          ).toFixed(2);
+          period.paymentCount++;
+
+          for (const payout of cycle.payouts) {
+            const token = payout.token as unknown as TokenDto;
+            const network = payout.network as unknown as NetworkDto;
+            const key = `${network?.chainId}:${token?.address?.toLowerCase()}`;
+            const tokenTotal = byToken[index].get(key) ?? {
+              symbol: token?.symbol,
+              address: token?.address,
+              network: network?.name,
+              chainId: network?.chainId,
+              amount: '0.00',
+            };
+            tokenTotal.amount = (
+              parseFloat(tokenTotal.amount) + parseFloat(payout.amount)
+            ).toFixed(2);
+            byToken[index].set(key, tokenTotal);
+          }
+
+          const group = payroll.employee.group;
+          const groupTotal = byGroup[index].get(group.id) ?? {
+            groupId: group.id,
+            groupName: group.name,
+            amount: '0.00',
+          };
+          groupTotal.amount = (
+            parseFloat(groupTotal.amount) + parseFloat(cycle.total)
+          ).toFixed(2);
+          byGroup[index].set(group.id, groupTotal);
+
+          const termTotal = byContractTerm[index].get(payroll.contractTerm) ?? {
+            contractTerm: payroll.contractTerm,
+            amount: '0.00',
+          };
+          termTotal.amount = (
+            parseFloat(termTotal.amount) + parseFloat(cycle.total)
+          ).toFixed(2);
+          byContractTerm[index].set(payroll.contractTerm, termTotal);
+        }
+      }
+
+      periods.forEach((period, index) => {
+        period.byToken = Array.from(byToken[index].values());
+        period.byGroup = Array.from(byGroup[index].values());
+        period.byContractTerm = Array.from(byContractTerm[index].values());
+      });
+
+      return {
+        generatedAt: now,
+        months,
+        totalAmount: periods
+          .reduce((sum, period) => sum + parseFloat(period.totalAmount), 0)
+          .toFixed(2),
+        pausedPayrollCount: payrolls.length - activePayrolls.length,
+        periods,
+      };
+    } catch (error) {
+      this.logger.error('Error forecasting payroll:', error);
+      handleError(error, this.logger);
+    }
+  }
+
   /**
    * Get payrolls due for payment (for scheduled jobs)
    */
@@ -249,6 +592,97 @@ export class PayrollService {
     }
   }
 
+  /**
+   * Get the compensation history of a payroll
+   */
+  async getPayrollAmendments(
+    id: number,
+    companyId: number,
+  ): Promise<PayrollAmendmentWithApprover[]> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
+
+      if (!payroll) {
+        throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+      }
+
+      return await this.payrollAmendmentRepository.findByPayrollId(id);
+    } catch (error) {
+      this.logger.error(`Error fetching amendments for payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the one-off adjustments of a payroll
+   */
+  async getPayrollAdjustments(
+    id: number,
+    companyId: number,
+    query: PayrollAdjustmentQueryDto,
+  ): Promise<PayrollAdjustmentModel[]> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
+
+      if (!payroll) {
+        throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+      }
+
+      return await this.payrollAdjustmentRepository.findByPayrollId(
+        id,
+        query.status,
+      );
+    } catch (error) {
+      this.logger.error(`Error fetching adjustments for payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the pauses of a payroll
+   */
+  async getPayrollPauses(
+    id: number,
+    companyId: number,
+  ): Promise<PayrollPauseModel[]> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
+
+      if (!payroll) {
+        throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+      }
+
+      return await this.payrollPauseRepository.findByPayrollId(id);
+    } catch (error) {
+      this.logger.error(`Error fetching pauses for payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Get the payout splits of a payroll
+   */
+  async getPayrollPayoutSplits(
+    id: number,
+    companyId: number,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
+
+      if (!payroll) {
+        throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+      }
+
+      return await this.payrollPayoutSplitRepository.findByPayrollId(id);
+    } catch (error) {
+      this.logger.error(
+        `Error fetching payout splits for payroll ${id}:`,
+        error,
+      );
+      handleError(error, this.logger);
+    }
+  }
+
   //#endregion GET METHODS
 
   //#region POST METHODS
@@ -264,114 +698,158 @@ export class PayrollService {
     options?: { scheduleFrequency?: string },
   ): Promise<PayrollModel> {
     try {
-      return await this.prisma.$transaction(async (tx) => {
-        const scheduleFrequency = options?.scheduleFrequency ?? 'MONTHLY';
-        // Make sure employee exists and belongs to company
-        const employee = await this.employeeRepository.findOne(
-          { id: dto.employeeId, companyId },
-          tx,
-        );
-
-        if (!employee) {
-          throw new NotFoundException(ErrorEmployee.ContactNotFound);
-        }
+      return await this.prisma.$transaction((tx) =>
+        this.createPayrollInTransaction(tx, companyId, dto, options),
+      );
+    } catch (error) {
+      this.logger.error('Error creating payroll:', error);
+      handleError(error, this.logger);
+    }
+  }
 
-        // Check if employee already has an active payroll
-        const existingPayrolls = await this.payrollRepository.findByEmployeeId(
-          dto.employeeId,
-          companyId,
-          tx,
-        );
+  /**
+   * Bulk create payrolls from a CSV or XLSX file.
+   * Every row is validated and reported; valid rows are created in a single transaction unless it is a dry run.
+   * Token and network are taken from the employee.
+   */
+  async importPayrolls(
+    companyId: number,
+    file: PayrollImportFile,
+    dryRun = false,
+  ): Promise<PayrollImportResultDto> {
+    try {
+      const records = await this.parseImportFile(file);
+      const employees = await this.employeeRepository.findMany({ companyId });
+      const activePayrolls = await this.payrollRepository.findMany({
+        companyId,
+        status: PayrollStatusEnum.ACTIVE,
+      });
+      const employeesWithActivePayroll = new Set(
+        activePayrolls.map((payroll) => payroll.employeeId),
+      );
+      const importedEmployeeIds = new Set<number>();
+
+      const rows: {
+        report: PayrollImportRowResultDto;
+        dto?: CreatePayrollDto;
+      }[] = [];
+
+      for (const [index, record] of records.entries()) {
+        const report: PayrollImportRowResultDto = {
+          row: index + 1,
+          employeeEmail: record.employeeEmail || undefined,
+          status: PayrollImportRowStatus.VALID,
+          errors: [],
+        };
 
-        const activePayroll = existingPayrolls.find(
-          (p) => p.status === PayrollStatusEnum.ACTIVE,
-        );
+        // Resolve the employee by ID, or by email when no ID is given
+        const matches = record.employeeId
+          ? employees.filter(
+              (employee) => employee.id === Number(record.employeeId),
+            )
+          : employees.filter(
+              (employee) =>
+                !!record.employeeEmail &&
+                employee.email.toLowerCase() ===
+                  record.employeeEmail.toLowerCase(),
+            );
 
-        if (activePayroll) {
-          throw new ConflictException(ErrorPayroll.HaveActivePayroll);
+        if (!record.employeeId && !record.employeeEmail) {
+          report.errors.push(ErrorPayroll.ImportEmployeeRequired);
+        } else if (matches.length === 0) {
+          report.errors.push(ErrorEmployee.ContactNotFound);
+        } else if (matches.length > 1) {
+          report.errors.push(ErrorPayroll.ImportEmployeeAmbiguous);
         }
 
-        // Calculate contract dates
-        const paydayDay = dto.payday; // the chosen day-of-month (1-31)
-        const joiningDate = new Date(dto.joiningDate);
+        const employee = matches.length === 1 ? matches[0] : null;
+        let dto: CreatePayrollDto | undefined;
 
-        // First pay date starts next month on the chosen day-of-month
-        const today = new Date();
-        const payStartDate = new Date(
-          today.getFullYear(),
-          today.getMonth() + 1,
-          paydayDay,
-        );
+        if (employee) {
+          report.employeeId = employee.id;
+          report.employeeEmail = employee.email;
 
-        // Contract end date after the payroll cycle
-        const payEndDate = new Date(payStartDate);
-        payEndDate.setMonth(payEndDate.getMonth() + dto.payrollCycle);
-
-        // TODO: Uncomment this when we have a way to handle this
-        // Pay start date must be after joining date
-        // if (payStartDate < joiningDate) {
-        //   throw new BadRequestException(
-        //     ErrorPayroll.PayStartDateBeforeJoiningDate,
-        //   );
-        // }
-
-        const payrollData: PayrollCreateInput = {
-          company: {
-            connect: {
-              id: companyId,
-            },
-          },
-          employee: {
-            connect: {
-              id: dto.employeeId,
-            },
-          },
-          network: dto.network as unknown as JsonValue,
-          token: dto.token as unknown as JsonValue,
-          amount: dto.amount,
-          contractTerm: dto.contractTerm,
-          payrollCycle: dto.payrollCycle,
-          joiningDate: joiningDate,
-          payStartDate: payStartDate,
-          payEndDate: payEndDate,
-          description: dto.description,
-          note: dto.note,
-          metadata: dto.metadata,
-          paydayDay: paydayDay,
-        };
+          if (employeesWithActivePayroll.has(employee.id)) {
+            report.errors.push(ErrorPayroll.HaveActivePayroll);
+          }
 
-        const payroll = await this.payrollRepository.create(payrollData, tx);
+          if (importedEmployeeIds.has(employee.id)) {
+            report.errors.push(ErrorPayroll.ImportDuplicateEmployee);
+          }
+          importedEmployeeIds.add(employee.id);
+
+          dto = plainToInstance(CreatePayrollDto, {
+            employeeId: employee.id,
+            token: employee.token,
+            network: employee.network,
+            amount: record.amount,
+            contractTerm: record.contractTerm,
+            payFrequency: record.payFrequency,
+            payrollCycle: this.toImportNumber(record.payrollCycle),
+            payday: this.toImportNumber(record.payday),
+            joiningDate: record.joiningDate,
+            contractEndDate: record.contractEndDate,
+            prorationMethod: record.prorationMethod,
+            description: record.description,
+            note: record.note,
+            generateDaysBefore: this.toImportNumber(record.generateDaysBefore),
+            renewalReminderDays: this.toImportNumber(
+              record.renewalReminderDays,
+            ),
+          });
 
-        // Create an invoice schedule record so the scheduler can generate invoices
-        const generateDaysBefore = dto.generateDaysBefore ?? 5; // Default 5 days before pay date
+          const validationErrors = await validate(dto, {
+            whitelist: true,
+            forbidNonWhitelisted: true,
+          });
+          report.errors.push(...this.flattenValidationErrors(validationErrors));
 
-        // For sandbox/testing, generate invoice very soon (30 seconds)
-        // Otherwise, calculate based on pay start date
-        let nextGenerateDate: Date;
-        if (scheduleFrequency === 'SANDBOX') {
-          nextGenerateDate = new Date(Date.now() + 30 * 1000); // 30 seconds from now
-        } else {
-          nextGenerateDate = this.calculateNextGenerateDateFromPayStart(
-            payStartDate,
-            generateDaysBefore,
-          );
+          if (validationErrors.length === 0) {
+            report.errors.push(...this.getPayrollDateErrors(dto));
+          }
         }
 
-        await tx.invoiceSchedule.create({
-          data: {
-            payroll: { connect: { id: payroll.id } },
-            isActive: true,
-            frequency: scheduleFrequency,
-            dayOfMonth: payStartDate.getDate(),
-            generateDaysBefore,
-            nextGenerateDate,
+        if (report.errors.length > 0) {
+          report.status = PayrollImportRowStatus.INVALID;
+        }
+
+        rows.push({ report, dto });
+      }
+
+      const validRows = rows.filter(
+        (row) => row.report.status === PayrollImportRowStatus.VALID,
+      );
+
+      if (!dryRun && validRows.length > 0) {
+        await this.prisma.$transaction(
+          async (tx) => {
+            for (const row of validRows) {
+              const payroll = await this.createPayrollInTransaction(
+                tx,
+                companyId,
+                row.dto,
+              );
+              row.report.payrollId = payroll.id;
+            }
           },
-        });
+          { timeout: 30000 },
+        );
 
-        return payroll;
-      });
+        for (const row of validRows) {
+          row.report.status = PayrollImportRowStatus.CREATED;
+        }
+      }
+
+      return {
+        dryRun,
+        totalRows: rows.length,
+        validRows: validRows.length,
+        invalidRows: rows.length - validRows.length,
+        createdCount: dryRun ? 0 : validRows.length,
+        rows: rows.map((row) => row.report),
+      };
     } catch (error) {
-      this.logger.error('Error creating payroll:', error);
+      this.logger.error('Error importing payrolls:', error);
       handleError(error, this.logger);
     }
   }
@@ -405,6 +883,7 @@ export class PayrollService {
         name: 'Qash',
       },
       contractTerm: PayrollStatusEnum.ACTIVE as any, // will be overwritten below
+      payFrequency: PayFrequencyEnum.MONTHLY,
       payrollCycle: 5,
       amount: amount.toString(),
       payday: payStartDate.getDate(),
@@ -420,60 +899,544 @@ export class PayrollService {
     return this.createPayroll(companyId, dto, { scheduleFrequency: 'SANDBOX' });
   }
 
-  //#endregion POST METHODS
+  /**
+   * Amend payroll terms from an effective date, keeping the previous terms for earlier pay periods
+   */
+  async createPayrollAmendment(
+    id: number,
+    companyId: number,
+    userId: number,
+    dto: CreatePayrollAmendmentDto,
+  ): Promise<PayrollAmendmentModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
 
-  //#region PUT METHODS
-  // *************************************************
-  // **************** PUT METHODS ********************
-  // *************************************************
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        await this.assertCanAmendPayroll(companyId, userId, tx);
+
+        return this.applyAmendment(
+          payroll,
+          {
+            amount: dto.amount,
+            token: dto.token as unknown as JsonValue,
+            network: dto.network as unknown as JsonValue,
+            effectiveDate: new Date(dto.effectiveDate),
+            reason: dto.reason,
+          },
+          userId,
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error(`Error amending payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
 
   /**
-   * Update payroll
+   * Extend (renew) a payroll contract by adding cycles, optionally with new terms.
+   * Completed payrolls are reactivated and the invoice schedule resumes from the next cycle.
    */
-  async updatePayroll(
+  async extendPayroll(
     id: number,
     companyId: number,
-    dto: UpdatePayrollDto,
+    userId: number,
+    dto: ExtendPayrollDto,
   ): Promise<PayrollModel> {
     try {
-      return await this.prisma.$transaction(
-        async (tx: PrismaTransactionClient) => {
-          const existingPayroll = await this.payrollRepository.findOne(
-            { id, companyId },
-            tx,
-          );
-
-          if (!existingPayroll) {
-            throw new NotFoundException(ErrorPayroll.PayrollNotFound);
-          }
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
 
-          let payStartDate = existingPayroll.payStartDate;
-          let payEndDate = existingPayroll.payEndDate;
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
 
-          // If payday updated, recompute next pay start date starting next month
-          if (dto.paydayDay) {
-            const paydayDay = dto.paydayDay;
-            const now = new Date();
-            payStartDate = new Date(
-              now.getFullYear(),
-              now.getMonth() + 1,
-              paydayDay,
-            );
-          }
+        const extendableStatuses: PayrollStatusEnum[] = [
+          PayrollStatusEnum.ACTIVE,
+          PayrollStatusEnum.PAUSED,
+          PayrollStatusEnum.COMPLETED,
+        ];
+        if (!extendableStatuses.includes(payroll.status)) {
+          throw new BadRequestException(ErrorPayroll.PayrollNotExtendable);
+        }
 
-          // If payroll cycle updated, recalc end date from (possibly new) start date
-          if (dto.payrollCycle) {
-            payEndDate = new Date(payStartDate);
-            payEndDate.setMonth(payEndDate.getMonth() + dto.payrollCycle);
-          }
+        await this.assertCanAmendPayroll(companyId, userId, tx);
 
-          const updateData: PayrollUpdateInput = {
-            ...dto,
-            network: dto.network as unknown as JsonValue,
-            token: dto.token as unknown as JsonValue,
-            ...(dto.payrollCycle && { payEndDate }),
-            ...(dto.paydayDay && { payStartDate }),
-          };
+        const contractEndDate = dto.contractEndDate
+          ? new Date(dto.contractEndDate)
+          : null;
+
+        if (contractEndDate && contractEndDate < payroll.joiningDate) {
+          throw new BadRequestException(
+            ErrorPayroll.ContractEndDateBeforeJoiningDate,
+          );
+        }
+
+        const payrollCycle = payroll.payrollCycle + dto.additionalCycles;
+        const payEndDate = getPayDate(
+          payroll.payStartDate,
+          payroll.payFrequency,
+          payrollCycle,
+        );
+
+        const extendedPayroll = await this.payrollRepository.update(
+          { id: payroll.id },
+          {
+            payrollCycle,
+            payEndDate,
+            contractEndDate,
+            renewalReminderSentAt: null,
+            // A completed contract becomes active again
+            ...(payroll.status === PayrollStatusEnum.COMPLETED && {
+              status: PayrollStatusEnum.ACTIVE,
+            }),
+          },
+          tx,
+        );
+
+        if (dto.amount || dto.token || dto.network) {
+          // New terms apply from the first added cycle unless stated otherwise
+          const effectiveDate = dto.effectiveDate
+            ? new Date(dto.effectiveDate)
+            : getPayDate(
+                payroll.payStartDate,
+                payroll.payFrequency,
+                payroll.payrollCycle,
+              );
+
+          await this.applyAmendment(
+            extendedPayroll,
+            {
+              amount: dto.amount ?? payroll.amount,
+              token: dto.token as unknown as JsonValue,
+              network: dto.network as unknown as JsonValue,
+              effectiveDate,
+              reason:
+                dto.reason ??
+                `Contract extended by ${dto.additionalCycles} cycle(s)`,
+            },
+            userId,
+            tx,
+          );
+        }
+
+        // Resume the invoice schedule from the next cycle to invoice
+        const schedule = await tx.invoiceSchedule.findFirst({
+          where: { payrollId: payroll.id },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        if (
+          schedule &&
+          !schedule.isActive &&
+          payroll.status !== PayrollStatusEnum.PAUSED
+        ) {
+          const nextPayDate = getPayDate(
+            payroll.payStartDate,
+            payroll.payFrequency,
+            payroll.currentCycleNumber,
+          );
+
+          await tx.invoiceSchedule.update({
+            where: { id: schedule.id },
+            data: {
+              isActive: true,
+              nextGenerateDate: addDays(
+                nextPayDate,
+                -schedule.generateDaysBefore,
+              ),
+            },
+          });
+        }
+
+        return this.payrollRepository.findOne({ id: payroll.id }, tx);
+      });
+    } catch (error) {
+      this.logger.error(`Error extending payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Offboard an employee: terminate the payroll early on their last working day.
+   * - Issues a final invoice for the pro-rated last period when it has not been invoiced yet
+   * - Cancels adjustments of cycles that will never be invoiced
+   * - Stops the invoice scheduler and records the termination reason
+   * - Lists the invoices still to be paid
+   */
+  async offboardPayroll(
+    id: number,
+    companyId: number,
+    userId: number,
+    dto: OffboardPayrollDto,
+  ): Promise<OffboardPayrollResultDto> {
+    try {
+      return await this.prisma.$transaction(
+        async (tx) => {
+          const payroll = await this.payrollRepository.findOne(
+            { id, companyId },
+            tx,
+          );
+
+          if (!payroll) {
+            throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+          }
+
+          const offboardableStatuses: PayrollStatusEnum[] = [
+            PayrollStatusEnum.ACTIVE,
+            PayrollStatusEnum.PAUSED,
+          ];
+          if (!offboardableStatuses.includes(payroll.status)) {
+            throw new BadRequestException(ErrorPayroll.PayrollNotOffboardable);
+          }
+
+          const canOffboard = await this.teamMemberRepository.hasPermission(
+            companyId,
+            userId,
+            [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+            tx,
+          );
+
+          if (!canOffboard) {
+            throw new ForbiddenException(
+              ErrorPayroll.InsufficientPermissionsToOffboard,
+            );
+          }
+
+          const terminationDate = new Date(dto.terminationDate);
+
+          if (terminationDate < payroll.joiningDate) {
+            throw new BadRequestException(
+              ErrorPayroll.TerminationDateBeforeJoiningDate,
+            );
+          }
+
+          // The period of the next cycle to invoice is the last one that can be settled
+          const { start: periodStart, end: nextPayDate } = getPayPeriod(
+            payroll.payStartDate,
+            payroll.payFrequency,
+            payroll.currentCycleNumber,
+          );
+
+          if (terminationDate >= nextPayDate) {
+            throw new BadRequestException(
+              ErrorPayroll.TerminationDateAfterNextPayDate,
+            );
+          }
+
+          // The last working day ends the contract, so the final period is pro-rated
+          await this.payrollRepository.update(
+            { id: payroll.id },
+            {
+              contractEndDate: terminationDate,
+              ...(payroll.prorationMethod === ProrationMethodEnum.NONE && {
+                prorationMethod: ProrationMethodEnum.CALENDAR_DAYS,
+              }),
+            },
+            tx,
+          );
+
+          let finalInvoice: InvoiceModel | null = null;
+
+          const hasUninvoicedWork =
+            terminationDate >= periodStart &&
+            payroll.currentCycleNumber < payroll.payrollCycle;
+
+          if (hasUninvoicedWork && dto.issueFinalInvoice !== false) {
+            finalInvoice = await this.invoiceService.generateInvoice(
+              payroll.id,
+              companyId,
+              tx,
+              {
+                issueDate: new Date(),
+                dueDate: nextPayDate,
+                payDate: nextPayDate,
+              },
+            );
+
+            await this.sendFinalInvoiceNotification(finalInvoice.uuid, tx);
+          }
+
+          // Adjustments of cycles after the final invoice will never be paid
+          await tx.payrollAdjustment.updateMany({
+            where: {
+              payrollId: payroll.id,
+              status: PayrollAdjustmentStatusEnum.PENDING,
+            },
+            data: { status: PayrollAdjustmentStatusEnum.CANCELLED },
+          });
+
+          // Pauses that have not ended no longer apply
+          await tx.payrollPause.updateMany({
+            where: {
+              payrollId: payroll.id,
+              status: { in: OPEN_PAUSE_STATUSES },
+            },
+            data: { status: PayrollPauseStatusEnum.CANCELLED },
+          });
+
+          // Stop the invoice scheduler
+          await tx.invoiceSchedule.updateMany({
+            where: { payrollId: payroll.id },
+            data: { isActive: false },
+          });
+
+          const terminatedPayroll = await this.payrollRepository.update(
+            { id: payroll.id },
+            {
+              status: PayrollStatusEnum.CANCELLED,
+              terminatedAt: new Date(),
+              terminationReason: dto.reason,
+            },
+            tx,
+          );
+
+          const outstandingInvoices =
+            await this.invoiceRepository.findOutstandingInvoicesForPayroll(
+              payroll.id,
+              tx,
+            );
+
+          const outstandingAmount = outstandingInvoices
+            .reduce((sum, invoice) => sum + parseFloat(invoice.total), 0)
+            .toFixed(2);
+
+          return {
+            payroll: terminatedPayroll,
+            finalInvoice,
+            outstandingInvoices,
+            outstandingAmount,
+          };
+        },
+        {
+          timeout: 30000, // 30 seconds max execution time
+        },
+      );
+    } catch (error) {
+      this.logger.error(`Error offboarding payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Attach a one-off bonus, reimbursement, advance repayment or deduction to an upcoming cycle.
+   * The adjustment is added as an extra line item when the cycle's invoice is generated.
+   */
+  async createPayrollAdjustment(
+    id: number,
+    companyId: number,
+    dto: CreatePayrollAdjustmentDto,
+  ): Promise<PayrollAdjustmentModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
+
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        const adjustableStatuses: PayrollStatusEnum[] = [
+          PayrollStatusEnum.ACTIVE,
+          PayrollStatusEnum.PAUSED,
+        ];
+        if (!adjustableStatuses.includes(payroll.status)) {
+          throw new BadRequestException(ErrorPayroll.PayrollNotAdjustable);
+        }
+
+        // currentCycleNumber counts the invoices already generated
+        if (dto.cycleNumber <= payroll.currentCycleNumber) {
+          throw new BadRequestException(
+            ErrorPayroll.AdjustmentCycleNotUpcoming,
+          );
+        }
+
+        if (dto.cycleNumber > payroll.payrollCycle) {
+          throw new BadRequestException(ErrorPayroll.AdjustmentCycleOutOfRange);
+        }
+
+        // Deductions must not bring the cycle's invoice below zero
+        const cyclePayDate = getPayDate(
+          payroll.payStartDate,
+          payroll.payFrequency,
+          dto.cycleNumber - 1,
+        );
+        const terms = await this.payrollAmendmentRepository.getTermsInForce(
+          payroll,
+          cyclePayDate,
+          tx,
+        );
+        const pendingAdjustments =
+          await this.payrollAdjustmentRepository.findPendingForCycle(
+            payroll.id,
+            dto.cycleNumber,
+            tx,
+          );
+        const cycleTotal = [...pendingAdjustments, dto].reduce(
+          (total, adjustment) => total + getSignedAdjustmentAmount(adjustment),
+          parseFloat(terms.amount),
+        );
+
+        if (cycleTotal < 0) {
+          throw new BadRequestException(
+            ErrorPayroll.AdjustmentsExceedPayrollAmount,
+          );
+        }
+
+        return this.payrollAdjustmentRepository.create(
+          {
+            payroll: { connect: { id: payroll.id } },
+            type: dto.type,
+            description: dto.description,
+            amount: dto.amount,
+            cycleNumber: dto.cycleNumber,
+            metadata: dto.metadata,
+          },
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error(`Error adding adjustment to payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Schedule a pause window (e.g. unpaid leave). Cycles with a pay date during the pause are skipped
+   * and either added after the last cycle or forfeited, depending on the policy.
+   * A pause starting now or in the past starts immediately.
+   */
+  async createPayrollPause(
+    id: number,
+    companyId: number,
+    dto: CreatePayrollPauseDto,
+  ): Promise<PayrollPauseModel> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
+
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        const pause = await this.createPause(tx, payroll, {
+          ...dto,
+          startDate: new Date(dto.startDate),
+        });
+
+        return this.payrollPauseRepository.findOne({ id: pause.id }, tx);
+      });
+    } catch (error) {
+      this.logger.error(`Error creating pause for payroll ${id}:`, error);
+      handleError(error, this.logger);
+    }
+  }
+
+  //#endregion POST METHODS
+
+  //#region PUT METHODS
+  // *************************************************
+  // **************** PUT METHODS ********************
+  // *************************************************
+
+  /**
+   * Update payroll
+   */
+  async updatePayroll(
+    id: number,
+    companyId: number,
+    userId: number,
+    dto: UpdatePayrollDto,
+  ): Promise<PayrollModel> {
+    try {
+      return await this.prisma.$transaction(
+        async (tx: PrismaTransactionClient) => {
+          const existingPayroll = await this.payrollRepository.findOne(
+            { id, companyId },
+            tx,
+          );
+
+          if (!existingPayroll) {
+            throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+          }
+
+          let payStartDate = existingPayroll.payStartDate;
+          let payEndDate = existingPayroll.payEndDate;
+
+          if (
+            dto.contractEndDate &&
+            new Date(dto.contractEndDate) < existingPayroll.joiningDate
+          ) {
+            throw new BadRequestException(
+              ErrorPayroll.ContractEndDateBeforeJoiningDate,
+            );
+          }
+
+          // If payday updated, recompute the first pay date on the new payday
+          if (dto.paydayDay) {
+            this.validatePayday(existingPayroll.payFrequency, dto.paydayDay);
+            payStartDate = getFirstPayDate(
+              dto.paydayDay,
+              existingPayroll.payFrequency,
+              existingPayroll.joiningDate,
+            );
+          }
+
+          // If payroll cycle updated, recalc end date from (possibly new) start date
+          if (dto.payrollCycle) {
+            payEndDate = getPayDate(
+              payStartDate,
+              existingPayroll.payFrequency,
+              dto.payrollCycle,
+            );
+          }
+
+          // Amount, token and network changes are recorded as an amendment effective today,
+          // so pay periods before today keep the previous terms
+          const { amount, token, network, amendmentReason, ...payrollData } =
+            dto;
+
+          if (amount || token || network) {
+            await this.assertCanAmendPayroll(companyId, userId, tx);
+
+            await this.applyAmendment(
+              existingPayroll,
+              {
+                amount: amount ?? existingPayroll.amount,
+                token: token as unknown as JsonValue,
+                network: network as unknown as JsonValue,
+                effectiveDate: new Date(),
+                reason: amendmentReason ?? 'Payroll terms updated',
+              },
+              userId,
+              tx,
+            );
+          }
+
+          const updateData: PayrollUpdateInput = {
+            ...payrollData,
+            // A new final cycle needs a new renewal reminder
+            ...(dto.payrollCycle && {
+              payEndDate,
+              renewalReminderSentAt: null,
+            }),
+            ...(dto.paydayDay && { payStartDate }),
+          };
 
           const updatedPayroll = await this.payrollRepository.update(
             { id, companyId },
@@ -492,19 +1455,17 @@ export class PayrollService {
             // If payday changed, update dayOfMonth and recalculate nextGenerateDate
             if (dto.paydayDay) {
               scheduleUpdates.dayOfMonth = payStartDate.getDate();
+              scheduleUpdates.dayOfWeek = payStartDate.getDay();
               // Recalculate nextGenerateDate based on new payday
               const generateDaysBefore = schedule.generateDaysBefore ?? 5;
               scheduleUpdates.nextGenerateDate =
                 this.calculateNextGenerateDateFromPayStart(
                   payStartDate,
+                  existingPayroll.payFrequency,
                   generateDaysBefore,
                 );
             }
 
-            // If payrollCycle changed, we might need to update frequency
-            // For now, we'll keep the existing frequency since payrollCycle is months
-            // and most payrolls are monthly regardless of cycle length
-
             // Update the schedule if there are changes
             if (Object.keys(scheduleUpdates).length > 0) {
               await tx.invoiceSchedule.update({
@@ -522,6 +1483,52 @@ export class PayrollService {
       handleError(error, this.logger);
     }
   }
+
+  /**
+   * Replace the payout splits of a payroll.
+   * Applies to invoices generated from now on; invoices already issued keep their splits.
+   */
+  async setPayrollPayoutSplits(
+    id: number,
+    companyId: number,
+    dto: SetPayrollPayoutSplitsDto,
+  ): Promise<PayrollPayoutSplitModel[]> {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
+
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        if (
+          payroll.status !== PayrollStatusEnum.ACTIVE &&
+          payroll.status !== PayrollStatusEnum.PAUSED
+        ) {
+          throw new BadRequestException(
+            ErrorPayroll.PayrollPayoutSplitsNotEditable,
+          );
+        }
+
+        this.validatePayoutSplits(payroll.amount, dto.splits);
+
+        return this.payrollPayoutSplitRepository.replaceForPayroll(
+          payroll.id,
+          this.toPayoutSplitDefinitions(dto.splits),
+          tx,
+        );
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error setting payout splits for payroll ${id}:`,
+        error,
+      );
+      handleError(error, this.logger);
+    }
+  }
   //#endregion PUT METHODS
 
   //#region PATCH METHODS
@@ -529,11 +1536,31 @@ export class PayrollService {
   // **************** PATCH METHODS ******************
   // *************************************************
   /**
-   * Pause payroll
+   * Pause payroll now, until the given end date or until resumed manually
    */
-  async pausePayroll(id: number, companyId: number): Promise<PayrollModel> {
+  async pausePayroll(
+    id: number,
+    companyId: number,
+    dto: PausePayrollDto = {},
+  ): Promise<PayrollModel> {
     try {
-      return this.updatePayrollStatus(id, companyId, PayrollStatusEnum.PAUSED);
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
+
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        await this.createPause(tx, payroll, {
+          ...dto,
+          startDate: new Date(),
+        });
+
+        return this.payrollRepository.findOne({ id: payroll.id }, tx);
+      });
     } catch (error) {
       this.logger.error('Error pausing payroll:', error);
       handleError(error, this.logger);
@@ -541,15 +1568,116 @@ export class PayrollService {
   }
 
   /**
-   * Resume payroll
+   * Resume payroll now, ending its pause and applying the pause policy to the skipped cycles
    */
   async resumePayroll(id: number, companyId: number): Promise<PayrollModel> {
     try {
-      return this.updatePayrollStatus(id, companyId, PayrollStatusEnum.ACTIVE);
-    } catch (error) {
-      this.logger.error('Error resuming payroll:', error);
-      handleError(error, this.logger);
-    }
+      return await this.prisma.$transaction(async (tx) => {
+        const payroll = await this.payrollRepository.findOne(
+          { id, companyId },
+          tx,
+        );
+
+        if (!payroll) {
+          throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+        }
+
+        if (payroll.status !== PayrollStatusEnum.PAUSED) {
+          throw new BadRequestException(ErrorPayroll.PayrollNotPaused);
+        }
+
+        const pause = await this.payrollPauseRepository.findActiveForPayroll(
+          payroll.id,
+          tx,
+        );
+
+        if (!pause) {
+          // Paused without a pause window: resume where the payroll left off
+          await tx.invoiceSchedule.updateMany({
+            where: { payrollId: payroll.id },
+            data: { isActive: true },
+          });
+
+          return this.payrollRepository.update(
+            { id: payroll.id },
+            { status: PayrollStatusEnum.ACTIVE },
+            tx,
+          );
+        }
+
+        return this.completePause(tx, payroll, pause, new Date());
+      });
+    } catch (error) {
+      this.logger.error('Error resuming payroll:', error);
+      handleError(error, this.logger);
+    }
+  }
+
+  /**
+   * Start a scheduled pause whose start date has been reached (scheduled job)
+   */
+  async startScheduledPause(pauseId: number): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const pause = await this.payrollPauseRepository.findOne(
+        { id: pauseId, status: PayrollPauseStatusEnum.SCHEDULED },
+        tx,
+      );
+
+      if (!pause) {
+        return;
+      }
+
+      const payroll = await this.payrollRepository.findOne(
+        { id: pause.payrollId },
+        tx,
+      );
+
+      if (payroll?.status !== PayrollStatusEnum.ACTIVE) {
+        this.logger.warn(
+          `Cancelling pause ${pause.id} - payroll ${pause.payrollId} is not active`,
+        );
+        await this.payrollPauseRepository.update(
+          { id: pause.id },
+          { status: PayrollPauseStatusEnum.CANCELLED },
+          tx,
+        );
+        return;
+      }
+
+      await this.activatePause(tx, payroll, pause, new Date());
+    });
+  }
+
+  /**
+   * End an active pause whose end date has been reached (scheduled job)
+   */
+  async endExpiredPause(pauseId: number): Promise<void> {
+    await this.prisma.$transaction(async (tx) => {
+      const pause = await this.payrollPauseRepository.findOne(
+        { id: pauseId, status: PayrollPauseStatusEnum.ACTIVE },
+        tx,
+      );
+
+      if (!pause?.endDate) {
+        return;
+      }
+
+      const payroll = await this.payrollRepository.findOne(
+        { id: pause.payrollId },
+        tx,
+      );
+
+      if (payroll?.status !== PayrollStatusEnum.PAUSED) {
+        await this.payrollPauseRepository.update(
+          { id: pause.id },
+          { status: PayrollPauseStatusEnum.COMPLETED, endedAt: new Date() },
+          tx,
+        );
+        return;
+      }
+
+      await this.completePause(tx, payroll, pause, pause.endDate);
+    });
   }
 
   /**
@@ -573,17 +1701,22 @@ export class PayrollService {
           throw new ConflictException(ErrorPayroll.PayrollAlreadyDeleted);
         }
 
-        // Mark all SENT invoices (pending review) as DELETED
+        // Mark all SENT invoices (pending review), disputed invoices and invoices pending approval as DELETED
         if (payroll.invoices && payroll.invoices.length > 0) {
-          const sentInvoices = payroll.invoices.filter(
-            (invoice) => invoice.status === InvoiceStatusEnum.SENT,
+          const deletableStatuses: InvoiceStatusEnum[] = [
+            InvoiceStatusEnum.PENDING_APPROVAL,
+            InvoiceStatusEnum.SENT,
+            InvoiceStatusEnum.DISPUTED,
+          ];
+          const sentInvoices = payroll.invoices.filter((invoice) =>
+            deletableStatuses.includes(invoice.status),
           );
 
           if (sentInvoices.length > 0) {
             await tx.invoice.updateMany({
               where: {
                 id: { in: sentInvoices.map((inv) => inv.id) },
-                status: InvoiceStatusEnum.SENT,
+                status: { in: deletableStatuses },
               },
               data: {
                 status: InvoiceStatusEnum.DELETED,
@@ -610,65 +1743,872 @@ export class PayrollService {
       handleError(error, this.logger);
     }
   }
-  //#endregion PATCH METHODS
+  /**
+   * Cancel a pending adjustment so it is not added to the cycle's invoice
+   */
+  async cancelPayrollAdjustment(
+    id: number,
+    adjustmentUuid: string,
+    companyId: number,
+  ): Promise<PayrollAdjustmentModel> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
+
+      if (!payroll) {
+        throw new NotFoundException(ErrorPayroll.PayrollNotFound);
+      }
+
+      const adjustment = await this.payrollAdjustmentRepository.findOne({
+        uuid: adjustmentUuid,
+        payrollId: payroll.id,
+      });
+
+      if (!adjustment) {
+        throw new NotFoundException(ErrorPayroll.PayrollAdjustmentNotFound);
+      }
+
+      if (adjustment.status !== PayrollAdjustmentStatusEnum.PENDING) {
+        throw new BadRequestException(ErrorPayroll.PayrollAdjustmentNotPending);
+      }
+
+      return await this.payrollAdjustmentRepository.update(
+        { id: adjustment.id },
+        { status: PayrollAdjustmentStatusEnum.CANCELLED },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling adjustment ${adjustmentUuid} of payroll ${id}:`,
+        error,
+      );
+      handleError(error, this.logger);
+    }
+  }
 
   /**
-   * Private helper to update payroll status
+   * Cancel a pause that has not started yet
    */
-  private async updatePayrollStatus(
+  async cancelPayrollPause(
     id: number,
+    pauseUuid: string,
     companyId: number,
-    status: PayrollStatusEnum,
-  ): Promise<PayrollModel> {
-    return await this.prisma.$transaction(async (tx) => {
-      const payroll = await this.payrollRepository.findById(id, companyId, tx);
+  ): Promise<PayrollPauseModel> {
+    try {
+      const payroll = await this.payrollRepository.findOne({ id, companyId });
 
       if (!payroll) {
         throw new NotFoundException(ErrorPayroll.PayrollNotFound);
       }
 
-      const updatedPayroll = await this.payrollRepository.update(
-        { id, companyId },
-        { status },
+      const pause = await this.payrollPauseRepository.findOne({
+        uuid: pauseUuid,
+        payrollId: payroll.id,
+      });
+
+      if (!pause) {
+        throw new NotFoundException(ErrorPayroll.PayrollPauseNotFound);
+      }
+
+      if (pause.status !== PayrollPauseStatusEnum.SCHEDULED) {
+        throw new BadRequestException(ErrorPayroll.PayrollPauseNotCancellable);
+      }
+
+      return await this.payrollPauseRepository.update(
+        { id: pause.id },
+        { status: PayrollPauseStatusEnum.CANCELLED },
+      );
+    } catch (error) {
+      this.logger.error(
+        `Error cancelling pause ${pauseUuid} of payroll ${id}:`,
+        error,
+      );
+      handleError(error, this.logger);
+    }
+  }
+
+  //#endregion PATCH METHODS
+
+  /**
+   * Validate and record a pause window, starting it right away when its start date has been reached
+   */
+  private async createPause(
+    tx: PrismaTransactionClient,
+    payroll: PayrollModel,
+    options: {
+      startDate: Date;
+      endDate?: string;
+      policy?: PayrollPausePolicyEnum;
+      reason?: string;
+    },
+  ): Promise<PayrollPauseModel> {
+    const now = new Date();
+    const { startDate } = options;
+    const endDate = options.endDate ? new Date(options.endDate) : null;
+    const startsNow = startDate <= now;
+
+    // Future pauses can be planned while paused, immediate ones need an active payroll
+    const pausable =
+      payroll.status === PayrollStatusEnum.ACTIVE ||
+      (!startsNow && payroll.status === PayrollStatusEnum.PAUSED);
+
+    if (!pausable) {
+      throw new BadRequestException(ErrorPayroll.PayrollNotPausable);
+    }
+
+    if (endDate && endDate <= startDate) {
+      throw new BadRequestException(ErrorPayroll.PauseEndDateBeforeStartDate);
+    }
+
+    const overlapping = await this.payrollPauseRepository.findOverlapping(
+      payroll.id,
+      startDate,
+      endDate,
+      tx,
+    );
+
+    if (overlapping.length > 0) {
+      throw new ConflictException(ErrorPayroll.PauseOverlapsExistingPause);
+    }
+
+    const pause = await this.payrollPauseRepository.create(
+      {
+        payroll: { connect: { id: payroll.id } },
+        startDate,
+        endDate,
+        // Extending keeps every cycle paid, as resuming a payroll did before pause policies
+        policy: options.policy ?? PayrollPausePolicyEnum.EXTEND,
+        reason: options.reason,
+      },
+      tx,
+    );
+
+    if (startsNow) {
+      await this.activatePause(tx, payroll, pause, now);
+    }
+
+    return pause;
+  }
+
+  /**
+   * Pause the payroll and its invoice schedules
+   */
+  private async activatePause(
+    tx: PrismaTransactionClient,
+    payroll: PayrollModel,
+    pause: PayrollPauseModel,
+    startedAt: Date,
+  ): Promise<PayrollModel> {
+    await this.payrollPauseRepository.update(
+      { id: pause.id },
+      { status: PayrollPauseStatusEnum.ACTIVE, startedAt },
+      tx,
+    );
+
+    await tx.invoiceSchedule.updateMany({
+      where: { payrollId: payroll.id },
+      data: { isActive: false },
+    });
+
+    return this.payrollRepository.update(
+      { id: payroll.id },
+      { status: PayrollStatusEnum.PAUSED },
+      tx,
+    );
+  }
+
+  /**
+   * End a pause: skip the cycles whose pay date passed while paused, apply the pause policy and resume the schedules.
+   * EXTEND adds the skipped cycles after the last cycle, FORFEIT leaves them unpaid.
+   */
+  private async completePause(
+    tx: PrismaTransactionClient,
+    payroll: PayrollModel,
+    pause: PayrollPauseModel,
+    resumeDate: Date,
+  ): Promise<PayrollModel> {
+    let cycleNumber = payroll.currentCycleNumber;
+    while (
+      cycleNumber < payroll.payrollCycle &&
+      getPayDate(payroll.payStartDate, payroll.payFrequency, cycleNumber) <
+        resumeDate
+    ) {
+      cycleNumber++;
+    }
+
+    const skippedCycles = cycleNumber - payroll.currentCycleNumber;
+    const extended =
+      pause.policy === PayrollPausePolicyEnum.EXTEND && skippedCycles > 0;
+    const payrollCycle = extended
+      ? payroll.payrollCycle + skippedCycles
+      : payroll.payrollCycle;
+    const hasRemainingCycles = cycleNumber < payrollCycle;
+
+    const updateData: PayrollUpdateInput = {
+      currentCycleNumber: cycleNumber,
+      status: PayrollStatusEnum.ACTIVE,
+    };
+
+    if (extended) {
+      const payEndDate = getPayDate(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        payrollCycle,
+      );
+
+      updateData.payrollCycle = payrollCycle;
+      updateData.payEndDate = payEndDate;
+      updateData.renewalReminderSentAt = null;
+
+      // Push the last working day back by as much as the pay end date
+      if (payroll.contractEndDate) {
+        updateData.contractEndDate = addDays(
+          payroll.contractEndDate,
+          Math.round(
+            (payEndDate.getTime() - payroll.payEndDate.getTime()) / ONE_DAY_MS,
+          ),
+        );
+      }
+    }
+
+    // Adjustments of skipped cycles are paid with the first cycle after the pause
+    if (skippedCycles > 0 && hasRemainingCycles) {
+      await tx.payrollAdjustment.updateMany({
+        where: {
+          payrollId: payroll.id,
+          status: PayrollAdjustmentStatusEnum.PENDING,
+          cycleNumber: { gt: payroll.currentCycleNumber, lte: cycleNumber },
+        },
+        data: { cycleNumber: cycleNumber + 1 },
+      });
+    }
+
+    if (hasRemainingCycles) {
+      const nextPayDate = getPayDate(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        cycleNumber,
+      );
+      const schedules = await tx.invoiceSchedule.findMany({
+        where: { payrollId: payroll.id },
+      });
+
+      for (const schedule of schedules) {
+        await tx.invoiceSchedule.update({
+          where: { id: schedule.id },
+          data: {
+            isActive: true,
+            nextGenerateDate: addDays(
+              nextPayDate,
+              -schedule.generateDaysBefore,
+            ),
+          },
+        });
+      }
+    } else {
+      // Every cycle was skipped: complete the payroll once nothing is left to pay
+      const outstandingInvoices =
+        await this.invoiceRepository.findOutstandingInvoicesForPayroll(
+          payroll.id,
+          tx,
+        );
+
+      if (outstandingInvoices.length === 0) {
+        updateData.status = PayrollStatusEnum.COMPLETED;
+      }
+    }
+
+    await this.payrollPauseRepository.update(
+      { id: pause.id },
+      {
+        status: PayrollPauseStatusEnum.COMPLETED,
+        endDate: pause.endDate ?? resumeDate,
+        endedAt: new Date(),
+        skippedCycles,
+      },
+      tx,
+    );
+
+    this.logger.log(
+      `Payroll ${payroll.id} resumed after pause ${pause.id} (${skippedCycles} cycle(s) skipped, ${pause.policy})`,
+    );
+
+    return this.payrollRepository.update({ id: payroll.id }, updateData, tx);
+  }
+
+  /**
+   * Record an amendment and keep the payroll's own terms in sync with the latest agreed terms
+   */
+  private async applyAmendment(
+    payroll: PayrollModel,
+    data: {
+      amount: string;
+      token?: JsonValue;
+      network?: JsonValue;
+      effectiveDate: Date;
+      reason: string;
+    },
+    userId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<PayrollAmendmentModel> {
+    const amendableStatuses: PayrollStatusEnum[] = [
+      PayrollStatusEnum.ACTIVE,
+      PayrollStatusEnum.PAUSED,
+    ];
+    if (!amendableStatuses.includes(payroll.status)) {
+      throw new BadRequestException(ErrorPayroll.PayrollNotAmendable);
+    }
+
+    if (data.effectiveDate < payroll.joiningDate) {
+      throw new BadRequestException(
+        ErrorPayroll.AmendmentEffectiveDateBeforeJoiningDate,
+      );
+    }
+
+    // Terms in force right before the amendment takes effect
+    const previousTerms = await this.payrollAmendmentRepository.getTermsInForce(
+      payroll,
+      data.effectiveDate,
+      tx,
+    );
+
+    const amendment = await this.payrollAmendmentRepository.create(
+      {
+        payroll: { connect: { id: payroll.id } },
+        amount: data.amount,
+        token: data.token ?? previousTerms.token,
+        network: data.network ?? previousTerms.network,
+        previousAmount: previousTerms.amount,
+        previousToken: previousTerms.token,
+        previousNetwork: previousTerms.network,
+        effectiveDate: data.effectiveDate,
+        reason: data.reason,
+        approvedBy: { connect: { id: userId } },
+      },
+      tx,
+    );
+
+    const latestAmendment = await this.payrollAmendmentRepository.findLatest(
+      payroll.id,
+      tx,
+    );
+
+    await this.payrollRepository.update(
+      { id: payroll.id },
+      {
+        amount: latestAmendment.amount,
+        token: latestAmendment.token,
+        network: latestAmendment.network,
+      },
+      tx,
+    );
+
+    return amendment;
+  }
+
+  /**
+   * Email the final invoice to the offboarded employee
+   */
+  private async sendFinalInvoiceNotification(
+    invoiceUUID: string,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const invoice = await this.invoiceRepository.findByUUID(invoiceUUID, tx);
+
+    const month = new Date(invoice.issueDate).toLocaleDateString('en-US', {
+      month: 'long',
+      year: 'numeric',
+    });
+
+    try {
+      await this.mailService.sendInvoiceNotification(
+        invoice.employee.email,
+        invoice.invoiceNumber,
+        invoice.uuid,
+        invoice.dueDate,
+        invoice.payroll.company.companyName,
+        invoice.employee.name,
+        invoice.total,
+        month,
+        (invoice.paymentToken as unknown as TokenDto).name,
+      );
+    } catch (emailError) {
+      this.logger.error(
+        'Failed to send final invoice notification email:',
+        emailError,
+      );
+    }
+  }
+
+  /**
+   * Only owners and admins can approve payroll amendments
+   */
+  private async assertCanAmendPayroll(
+    companyId: number,
+    userId: number,
+    tx: PrismaTransactionClient,
+  ): Promise<void> {
+    const canAmend = await this.teamMemberRepository.hasPermission(
+      companyId,
+      userId,
+      [TeamMemberRoleEnum.OWNER, TeamMemberRoleEnum.ADMIN],
+      tx,
+    );
+
+    if (!canAmend) {
+      throw new ForbiddenException(ErrorPayroll.InsufficientPermissionsToAmend);
+    }
+  }
+
+  /**
+   * Create a payroll, its payout splits and its invoice schedule within a transaction
+   */
+  private async createPayrollInTransaction(
+    tx: PrismaTransactionClient,
+    companyId: number,
+    dto: CreatePayrollDto,
+    options?: { scheduleFrequency?: string },
+  ): Promise<PayrollModel> {
+    const scheduleFrequency =
+      options?.scheduleFrequency ?? dto.payFrequency ?? 'MONTHLY';
+    // Make sure employee exists and belongs to company
+    const employee = await this.employeeRepository.findOne(
+      { id: dto.employeeId, companyId },
+      tx,
+    );
+
+    if (!employee) {
+      throw new NotFoundException(ErrorEmployee.ContactNotFound);
+    }
+
+    // Check if employee already has an active payroll
+    const existingPayrolls = await this.payrollRepository.findByEmployeeId(
+      dto.employeeId,
+      companyId,
+      tx,
+    );
+
+    const activePayroll = existingPayrolls.find(
+      (p) => p.status === PayrollStatusEnum.ACTIVE,
+    );
+
+    if (activePayroll) {
+      throw new ConflictException(ErrorPayroll.HaveActivePayroll);
+    }
+
+    // Calculate contract dates
+    const paydayDay = dto.payday; // the chosen day-of-month (1-31)
+    const payFrequency = dto.payFrequency ?? PayFrequencyEnum.MONTHLY;
+    const joiningDate = new Date(dto.joiningDate);
+
+    this.validatePayday(payFrequency, paydayDay);
+
+    const contractEndDate = dto.contractEndDate
+      ? new Date(dto.contractEndDate)
+      : null;
+
+    if (contractEndDate && contractEndDate < joiningDate) {
+      throw new BadRequestException(
+        ErrorPayroll.ContractEndDateBeforeJoiningDate,
+      );
+    }
+
+    // First pay date on the chosen day-of-month: next month, or the pay period of the joining date for shorter frequencies
+    const payStartDate = getFirstPayDate(paydayDay, payFrequency, joiningDate);
+
+    // Contract end date after the payroll cycle
+    const payEndDate = getPayDate(payStartDate, payFrequency, dto.payrollCycle);
+
+    // TODO: Uncomment this when we have a way to handle this
+    // Pay start date must be after joining date
+    // if (payStartDate < joiningDate) {
+    //   throw new BadRequestException(
+    //     ErrorPayroll.PayStartDateBeforeJoiningDate,
+    //   );
+    // }
+
+    const payrollData: PayrollCreateInput = {
+      company: {
+        connect: {
+          id: companyId,
+        },
+      },
+      employee: {
+        connect: {
+          id: dto.employeeId,
+        },
+      },
+      network: dto.network as unknown as JsonValue,
+      token: dto.token as unknown as JsonValue,
+      amount: dto.amount,
+      contractTerm: dto.contractTerm,
+      payFrequency,
+      payrollCycle: dto.payrollCycle,
+      joiningDate: joiningDate,
+      payStartDate: payStartDate,
+      payEndDate: payEndDate,
+      contractEndDate,
+      prorationMethod: dto.prorationMethod,
+      renewalReminderDays: dto.renewalReminderDays,
+      description: dto.description,
+      note: dto.note,
+      metadata: dto.metadata,
+      paydayDay: paydayDay,
+    };
+
+    const payroll = await this.payrollRepository.create(payrollData, tx);
+
+    if (dto.payoutSplits?.length) {
+      this.validatePayoutSplits(dto.amount, dto.payoutSplits);
+      await this.payrollPayoutSplitRepository.replaceForPayroll(
+        payroll.id,
+        this.toPayoutSplitDefinitions(dto.payoutSplits),
         tx,
       );
+    }
+
+    // Create an invoice schedule record so the scheduler can generate invoices
+    const generateDaysBefore = dto.generateDaysBefore ?? 5; // Default 5 days before pay date
+
+    // For sandbox/testing, generate invoice very soon (30 seconds)
+    // Otherwise, calculate based on pay start date
+    let nextGenerateDate: Date;
+    if (scheduleFrequency === 'SANDBOX') {
+      nextGenerateDate = new Date(Date.now() + 30 * 1000); // 30 seconds from now
+    } else {
+      nextGenerateDate = this.calculateNextGenerateDateFromPayStart(
+        payStartDate,
+        payFrequency,
+        generateDaysBefore,
+      );
+    }
+
+    await tx.invoiceSchedule.create({
+      data: {
+        payroll: { connect: { id: payroll.id } },
+        isActive: true,
+        frequency: scheduleFrequency,
+        dayOfMonth: payStartDate.getDate(),
+        dayOfWeek: payStartDate.getDay(),
+        generateDaysBefore,
+        nextGenerateDate,
+      },
+    });
+
+    return payroll;
+  }
+
+  /**
+   * Project the remaining cycles of a payroll with a pay date before the horizon
+   */
+  private getForecastCycles(
+    payroll: PayrollForForecast,
+    horizon: Date,
+  ): { payDate: Date; total: string; payouts: InvoicePaymentSplit[] }[] {
+    const cycles: {
+      payDate: Date;
+      total: string;
+      payouts: InvoicePaymentSplit[];
+    }[] = [];
+
+    let lastCycle = payroll.payrollCycle;
+
+    for (
+      let cycleNumber = payroll.currentCycleNumber;
+      cycleNumber < lastCycle;
+      cycleNumber++
+    ) {
+      const period = getPayPeriod(
+        payroll.payStartDate,
+        payroll.payFrequency,
+        cycleNumber,
+      );
+
+      if (
+        period.end >= horizon ||
+        isAfterContractEnd(period, payroll.contractEndDate)
+      ) {
+        break;
+      }
+
+      // Cycles paid during a pause are skipped, and added at the end when the pause extends the contract
+      const pause = payroll.pauses.find(
+        (pauseWindow) =>
+          period.end >= pauseWindow.startDate &&
+          (!pauseWindow.endDate || period.end < pauseWindow.endDate),
+      );
 
-      // Toggle invoice schedules based on payroll status
-      await tx.invoiceSchedule.updateMany({
-        where: { payrollId: id },
-        data: { isActive: status === PayrollStatusEnum.ACTIVE },
+      if (pause) {
+        if (pause.policy === PayrollPausePolicyEnum.EXTEND) {
+          lastCycle++;
+        }
+        continue;
+      }
+
+      const proration = calculateProration(
+        period,
+        payroll.joiningDate,
+        payroll.contractEndDate,
+        payroll.prorationMethod,
+      );
+      const terms = resolveTermsInForce(
+        payroll,
+        payroll.amendments,
+        period.end,
+      );
+      const periodAmount = proration
+        ? parseFloat(terms.amount) * proration.ratio
+        : parseFloat(terms.amount);
+
+      // Pending adjustments use 1-based cycle numbers
+      const adjustmentsAmount = payroll.adjustments
+        .filter((adjustment) => adjustment.cycleNumber === cycleNumber + 1)
+        .reduce(
+          (sum, adjustment) => sum + getSignedAdjustmentAmount(adjustment),
+          0,
+        );
+
+      // Payroll lines are zero-rated, so the total before taxes is the invoice total
+      const total = (
+        parseFloat(periodAmount.toFixed(2)) + adjustmentsAmount
+      ).toFixed(2);
+
+      cycles.push({
+        payDate: period.end,
+        total,
+        payouts: calculatePaymentSplits(total, payroll.payoutSplits, {
+          token: terms.token,
+          network: terms.network,
+          walletAddress: payroll.employee.walletAddress,
+        }),
       });
+    }
+
+    return cycles;
+  }
 
-      return updatedPayroll;
+  /**
+   * Parse an uploaded CSV or XLSX file into rows keyed by header
+   */
+  private async parseImportFile(
+    file: PayrollImportFile,
+  ): Promise<Record<string, string>[]> {
+    if (!file?.buffer) {
+      throw new BadRequestException(ErrorPayroll.ImportFileRequired);
+    }
+
+    const fileName = file.originalname?.toLowerCase() ?? '';
+    const isCsv = fileName.endsWith('.csv') || file.mimetype === 'text/csv';
+    const isXlsx =
+      fileName.endsWith('.xlsx') || file.mimetype === XLSX_MIME_TYPE;
+
+    if (!isCsv && !isXlsx) {
+      throw new BadRequestException(ErrorPayroll.ImportFileTypeNotSupported);
+    }
+
+    const records = isCsv
+      ? this.parseCsvRows(file.buffer)
+      : await this.parseXlsxRows(file.buffer);
+
+    if (records.length === 0) {
+      throw new BadRequestException(ErrorPayroll.ImportFileEmpty);
+    }
+
+    if (records.length > MAX_IMPORT_ROWS) {
+      throw new BadRequestException(ErrorPayroll.ImportTooManyRows);
+    }
+
+    return records;
+  }
+
+  private parseCsvRows(buffer: Buffer): Record<string, string>[] {
+    const { data } = Papa.parse(buffer.toString('utf-8'), {
+      header: true,
+      skipEmptyLines: 'greedy',
+      transformHeader: (header: string) => header.trim(),
+      transform: (value: string) => value.trim(),
+    });
+    return data as Record<string, string>[];
+  }
+
+  /**
+   * Read the first worksheet, the first row holds the headers and empty rows are skipped
+   */
+  private async parseXlsxRows(
+    buffer: Buffer,
+  ): Promise<Record<string, string>[]> {
+    const workbook = new ExcelJS.Workbook();
+
+    try {
+      await workbook.xlsx.load(buffer as unknown as ExcelJS.Buffer);
+    } catch {
+      throw new BadRequestException(ErrorPayroll.ImportFileUnreadable);
+    }
+
+    const worksheet = workbook.worksheets[0];
+    if (!worksheet) {
+      return [];
+    }
+
+    const headers = new Map<number, string>();
+    worksheet.getRow(1).eachCell((cell, column) => {
+      const header = this.getImportCellValue(cell);
+      if (header) {
+        headers.set(column, header);
+      }
     });
+
+    const records: Record<string, string>[] = [];
+    worksheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) {
+        return;
+      }
+
+      const record: Record<string, string> = {};
+      for (const [column, header] of headers) {
+        record[header] = this.getImportCellValue(row.getCell(column));
+      }
+
+      if (Object.values(record).some((value) => value !== '')) {
+        records.push(record);
+      }
+    });
+
+    return records;
+  }
+
+  /**
+   * Text of a spreadsheet cell as it would appear in a CSV export, dates as YYYY-MM-DD
+   */
+  private getImportCellValue(cell: ExcelJS.Cell): string {
+    const value =
+      cell.type === ExcelJS.ValueType.Formula ? cell.result : cell.value;
+
+    if (value instanceof Date) {
+      return value.toISOString().slice(0, 10);
+    }
+
+    if (
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    ) {
+      return String(value).trim();
+    }
+
+    // Rich text and hyperlinks
+    return value ? cell.text.trim() : '';
+  }
+
+  /**
+   * Convert a numeric import cell, keeping empty cells undefined and invalid ones as-is for validation
+   */
+  private toImportNumber(value?: string): number | string | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+
+  /**
+   * Flatten nested class-validator errors into their messages
+   */
+  private flattenValidationErrors(errors: ValidationError[]): string[] {
+    return errors.flatMap((error) => [
+      ...Object.values(error.constraints ?? {}),
+      ...this.flattenValidationErrors(error.children ?? []),
+    ]);
+  }
+
+  /**
+   * Check the payday and contract dates of a payroll to create
+   */
+  private getPayrollDateErrors(dto: CreatePayrollDto): string[] {
+    const errors: string[] = [];
+
+    try {
+      this.validatePayday(
+        dto.payFrequency ?? PayFrequencyEnum.MONTHLY,
+        dto.payday,
+      );
+    } catch (error) {
+      errors.push(error.message);
+    }
+
+    if (
+      dto.contractEndDate &&
+      new Date(dto.contractEndDate) < new Date(dto.joiningDate)
+    ) {
+      errors.push(ErrorPayroll.ContractEndDateBeforeJoiningDate);
+    }
+
+    return errors;
   }
 
   /**
-   * Calculate the next generate date based on pay start date (monthly)
+   * Validate that the payout splits fit within the payroll amount
+   */
+  private validatePayoutSplits(amount: string, splits: PayoutSplitDto[]) {
+    const invalidPercentage = splits.some(
+      (split) =>
+        split.type === PayoutSplitTypeEnum.PERCENTAGE &&
+        parseFloat(split.value) > 100,
+    );
+
+    if (invalidPercentage) {
+      throw new BadRequestException(ErrorPayroll.PayoutSplitPercentageTooHigh);
+    }
+
+    if (getSplitRemainder(amount, splits) < 0) {
+      throw new BadRequestException(ErrorPayroll.PayoutSplitsExceedAmount);
+    }
+  }
+
+  /**
+   * Map payout split DTOs to the stored definitions
+   */
+  private toPayoutSplitDefinitions(splits: PayoutSplitDto[]) {
+    return splits.map((split) => ({
+      type: split.type,
+      value: split.value,
+      token: split.token as unknown as JsonValue,
+      network: split.network as unknown as JsonValue,
+      walletAddress: split.walletAddress,
+    }));
+  }
+
+  /**
+   * Validate the payday against the pay frequency
+   */
+  private validatePayday(payFrequency: PayFrequencyEnum, payday: number) {
+    if (
+      payFrequency === PayFrequencyEnum.SEMI_MONTHLY &&
+      payday > SEMI_MONTHLY_MAX_PAYDAY
+    ) {
+      throw new BadRequestException(ErrorPayroll.InvalidSemiMonthlyPayday);
+    }
+  }
+
+  /**
+   * Calculate the next generate date based on pay start date and pay frequency
    * This calculates when to generate the invoice (pay date minus generateDaysBefore)
    */
   private calculateNextGenerateDateFromPayStart(
     payStartDate: Date,
+    payFrequency: PayFrequencyEnum,
     generateDaysBefore: number,
   ): Date {
     const now = new Date();
-    let nextPayDate: Date;
 
-    // If the pay start date is in the future, use it. Otherwise, use same day next month.
-    if (payStartDate > now) {
-      nextPayDate = new Date(payStartDate);
-    } else {
-      nextPayDate = new Date(
-        now.getFullYear(),
-        now.getMonth() + 1,
-        payStartDate.getDate(),
-      );
+    // If the pay start date is in the future, use it. Otherwise, use the next upcoming pay date.
+    let cycleNumber = 0;
+    let nextPayDate = getPayDate(payStartDate, payFrequency, cycleNumber);
+    while (nextPayDate <= now) {
+      cycleNumber++;
+      nextPayDate = getPayDate(payStartDate, payFrequency, cycleNumber);
     }
 
     // Generate invoice X days before the pay date
-    const generateDate = new Date(nextPayDate);
-    generateDate.setDate(generateDate.getDate() - generateDaysBefore);
-
-    return generateDate;
+    return addDays(nextPayDate, -generateDaysBefore);
   }
 }
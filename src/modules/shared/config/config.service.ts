@@ -6,6 +6,7 @@ import {
   MailConfig,
   OthersConfig,
   ServerConfig,
+  StorageConfig,
 } from './registration/interfaces.config';
 
 @Injectable()
@@ -32,6 +33,10 @@ export class AppConfigService {
     return this.configService.get<OthersConfig>('others');
   }
 
+  get storageConfig() {
+    return this.configService.get<StorageConfig>('storage');
+  }
+
   get mailgunConfig() {
     return {
       username: 'api',
@@ -3,5 +3,13 @@ import databaseConfig from './database.config';
 import authConfig from './auth.config';
 import othersConfig from './others.config';
 import serverConfig from './server.config';
+import storageConfig from './storage.config';
 
-export { mailConfig, databaseConfig, authConfig, othersConfig, serverConfig };
+export {
+  mailConfig,
+  databaseConfig,
+  authConfig,
+  othersConfig,
+  serverConfig,
+  storageConfig,
+};
@@ -58,3 +58,10 @@ export interface ServerConfig {
   port: number;
   serverUrl: string;
 }
+
+export interface StorageConfig {
+  driver: string;
+  local: {
+    directory: string;
+  };
+}
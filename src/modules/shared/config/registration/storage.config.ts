@@ -0,0 +1,8 @@
+import { registerAs } from '@nestjs/config';
+
+export default registerAs('storage', () => ({
+  driver: process.env.STORAGE_DRIVER || 'local',
+  local: {
+    directory: process.env.STORAGE_LOCAL_DIRECTORY || './uploads',
+  },
+}));
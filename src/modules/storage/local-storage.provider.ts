@@ -0,0 +1,52 @@
+import { NotFoundException } from '@nestjs/common';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import { dirname, join, resolve, sep } from 'path';
+import { StorageProvider } from './storage.provider';
+import { ErrorStorage } from 'src/common/constants/errors';
+
+/**
+ * Store files on the local filesystem, under a root directory
+ */
+export class LocalStorageProvider implements StorageProvider {
+  private readonly rootDirectory: string;
+
+  constructor(directory: string) {
+    this.rootDirectory = resolve(directory);
+  }
+
+  async save(key: string, content: Buffer): Promise<void> {
+    const path = this.getPath(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, content);
+  }
+
+  async read(key: string): Promise<Buffer> {
+    try {
+      return await readFile(this.getPath(key));
+    } catch (error) {
+      if (error.code === 'ENOENT') {
+        throw new NotFoundException(ErrorStorage.FileNotFound);
+      }
+
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await rm(this.getPath(key), { force: true });
+  }
+
+  /**
+   * Path of a file, keys cannot point outside of the root directory
+   */
+  private getPath(key: string): string {
+    const path = resolve(join(this.rootDirectory, key));
+
+    if (!path.startsWith(this.rootDirectory + sep)) {
+      throw new Error(ErrorStorage.InvalidKey);
+    }
+
+    return path;
+  }
+}
@@ -0,0 +1,23 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { AppConfigService } from '../shared/config/config.service';
+import { LocalStorageProvider } from './local-storage.provider';
+import { STORAGE_PROVIDER, StorageProvider } from './storage.provider';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    AppConfigService,
+    {
+      provide: STORAGE_PROVIDER,
+      inject: [AppConfigService],
+      // Only the local filesystem is supported for now, other drivers plug in here
+      useFactory: (appConfigService: AppConfigService): StorageProvider => {
+        const { local } = appConfigService.storageConfig;
+        return new LocalStorageProvider(local.directory);
+      },
+    },
+  ],
+  exports: [STORAGE_PROVIDER],
+})
+export class StorageModule {}
@@ -0,0 +1,25 @@
+/**
+ * Injection token of the storage provider holding uploaded files
+ */
+export const STORAGE_PROVIDER = 'STORAGE_PROVIDER';
+
+/**
+ * Storage of uploaded files (invoice attachments), files are addressed by a key such as
+ * `invoices/<invoiceUUID>/<file>`. Implementations decide where the files live.
+ */
+export interface StorageProvider {
+  /**
+   * Store a file under the given key, replacing any file stored under it
+   */
+  save(key: string, content: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Read a stored file, throws when no file is stored under the key
+   */
+  read(key: string): Promise<Buffer>;
+
+  /**
+   * Delete a stored file, nothing happens when no file is stored under the key
+   */
+  delete(key: string): Promise<void>;
+}